@@ -1,6 +1,10 @@
 import { describe, it, expect, vi, beforeAll, afterAll } from 'vitest';
 import request from 'supertest';
 import app from '../../server.js';
+import { generateReview, scanCode } from '../../services/ai/index.js';
+import * as ThreadModel from '../../models/Thread.js';
+import * as SearchIndexModel from '../../models/SearchIndex.js';
+import * as RulesetModel from '../../models/Ruleset.js';
 
 // Mock the database connection for integration tests
 vi.mock('../../db/connection.js', () => ({
@@ -27,8 +31,40 @@ vi.mock('../../services/ai/index.js', () => ({
         provider: 'openai',
         model: 'gpt-4',
     }),
+    streamReview: vi.fn(async function* () {
+        yield { type: 'explanation', delta: 'Test ' };
+        yield { type: 'explanation', delta: 'explanation' };
+        yield { type: 'suggestion', index: 0, text: 'Test suggestion' };
+        yield {
+            type: 'done',
+            review: {
+                explanation: 'Test explanation',
+                suggestions: ['Test suggestion'],
+                diff: '- old\n+ new',
+                provider: 'openai',
+                model: 'gpt-4',
+            },
+        };
+    }),
+    scanCode: vi.fn().mockResolvedValue({
+        issues: [
+            {
+                startLine: 2,
+                endLine: 2,
+                severity: 'error',
+                category: 'bug',
+                message: 'Test issue',
+                fix: 'Test fix',
+            },
+        ],
+        provider: 'openai',
+        model: 'gpt-4',
+    }),
+    AI_PROVIDERS: ['openai', 'anthropic', 'openrouter', 'local'],
+    REVIEW_MODES: ['general', 'security', 'performance', 'readability', 'tests', 'api-design'],
     AIServiceFactory: {
         getService: vi.fn(),
+        getDefaultProvider: vi.fn().mockReturnValue('openai'),
         getAvailableServices: vi.fn().mockReturnValue([
             { provider: 'openai', model: 'gpt-4', isAvailable: () => true },
         ]),
@@ -36,6 +72,40 @@ vi.mock('../../services/ai/index.js', () => ({
     },
 }));
 
+// Mock User model: 'test-token' is the only valid token
+vi.mock('../../models/User.js', () => ({
+    getUserByToken: vi.fn(async (token: string) =>
+        token === 'test-token'
+            ? {
+                user: {
+                    id: '423e4567-e89b-12d3-a456-426614174000',
+                    username: 'tester',
+                    displayName: 'Tester',
+                    createdAt: new Date(),
+                },
+                authToken: {
+                    id: '523e4567-e89b-12d3-a456-426614174000',
+                    userId: '423e4567-e89b-12d3-a456-426614174000',
+                    kind: 'session',
+                    name: null,
+                    createdAt: new Date(),
+                    lastUsedAt: null,
+                    expiresAt: null,
+                },
+            }
+            : null
+    ),
+}));
+
+// Mock Workspace model: the test user is only a member of one workspace
+vi.mock('../../models/Workspace.js', () => ({
+    getWorkspaceForUser: vi.fn(async (id: string) =>
+        id === '923e4567-e89b-12d3-a456-426614174000'
+            ? { id, name: 'Team', role: 'member', createdAt: new Date() }
+            : null
+    ),
+}));
+
 // Mock Thread model
 vi.mock('../../models/Thread.js', () => ({
     createThread: vi.fn().mockResolvedValue({
@@ -84,6 +154,22 @@ vi.mock('../../models/Thread.js', () => ({
     getComments: vi.fn().mockResolvedValue([]),
 }));
 
+// Mock SearchIndex model: nothing is indexed unless a test says so
+vi.mock('../../models/SearchIndex.js', () => ({
+    searchCode: vi.fn().mockResolvedValue([]),
+    indexFile: vi.fn(),
+    removeFile: vi.fn(),
+}));
+
+// Mock Ruleset model: workspaces have no rules unless a test says so
+vi.mock('../../models/Ruleset.js', async (importOriginal) => ({
+    ...(await importOriginal<typeof import('../../models/Ruleset.js')>()),
+    getRules: vi.fn().mockResolvedValue([]),
+}));
+
+const AUTH_HEADER = 'Bearer test-token';
+const WORKSPACE_ID = '923e4567-e89b-12d3-a456-426614174000';
+
 describe('API Integration Tests', () => {
     beforeAll(() => {
         // Setup before all tests
@@ -103,10 +189,78 @@ describe('API Integration Tests', () => {
         });
     });
 
+    describe('Authentication', () => {
+        it('rejects API requests without a token', async () => {
+            const response = await request(app).get('/api/threads');
+
+            expect(response.status).toBe(401);
+            expect(response.body.error).toBe('Authentication required');
+        });
+
+        it('rejects API requests with an unknown token', async () => {
+            const response = await request(app)
+                .post('/api/ai/review')
+                .set('Authorization', 'Bearer wrong-token')
+                .send({ codeContext: 'x', selectedCode: 'x', language: 'javascript' });
+
+            expect(response.status).toBe(401);
+            expect(generateReview).not.toHaveBeenCalled();
+        });
+
+        it('stamps comments with the signed-in user', async () => {
+            const response = await request(app)
+                .post('/api/threads/123e4567-e89b-12d3-a456-426614174000/comments')
+                .set('Authorization', AUTH_HEADER)
+                .set('X-Workspace-Id', WORKSPACE_ID)
+                .send({ author: 'user', text: 'Test comment' });
+
+            expect(response.status).toBe(201);
+            expect(ThreadModel.addComment).toHaveBeenLastCalledWith(
+                expect.objectContaining({
+                    authorId: '423e4567-e89b-12d3-a456-426614174000',
+                    authorName: 'Tester',
+                })
+            );
+        });
+    });
+
+    describe('Workspaces', () => {
+        it('requires a workspace for thread requests', async () => {
+            const response = await request(app)
+                .get('/api/threads')
+                .set('Authorization', AUTH_HEADER);
+
+            expect(response.status).toBe(400);
+            expect(ThreadModel.getThreads).not.toHaveBeenCalled();
+        });
+
+        it('hides workspaces the user is not a member of', async () => {
+            const response = await request(app)
+                .get('/api/threads')
+                .set('Authorization', AUTH_HEADER)
+                .set('X-Workspace-Id', '823e4567-e89b-12d3-a456-426614174000');
+
+            expect(response.status).toBe(404);
+            expect(response.body.error).toBe('Workspace not found');
+        });
+
+        it('scopes thread queries to the workspace', async () => {
+            const response = await request(app)
+                .get('/api/threads')
+                .set('Authorization', AUTH_HEADER)
+                .set('X-Workspace-Id', WORKSPACE_ID);
+
+            expect(response.status).toBe(200);
+            expect(vi.mocked(ThreadModel.getThreads).mock.lastCall?.[0]).toBe(WORKSPACE_ID);
+        });
+    });
+
     describe('Thread API', () => {
         it('POST /api/threads creates a new thread', async () => {
             const response = await request(app)
                 .post('/api/threads')
+                .set('Authorization', AUTH_HEADER)
+                .set('X-Workspace-Id', WORKSPACE_ID)
                 .send({
                     file: 'test.ts',
                     startLine: 1,
@@ -120,16 +274,20 @@ describe('API Integration Tests', () => {
         });
 
         it('GET /api/threads returns thread list', async () => {
-            const response = await request(app).get('/api/threads');
+            const response = await request(app)
+                .get('/api/threads')
+                .set('Authorization', AUTH_HEADER)
+                .set('X-Workspace-Id', WORKSPACE_ID);
 
             expect(response.status).toBe(200);
             expect(Array.isArray(response.body)).toBe(true);
         });
 
         it('GET /api/threads/:id returns a specific thread', async () => {
-            const response = await request(app).get(
-                '/api/threads/123e4567-e89b-12d3-a456-426614174000'
-            );
+            const response = await request(app)
+                .get('/api/threads/123e4567-e89b-12d3-a456-426614174000')
+                .set('Authorization', AUTH_HEADER)
+                .set('X-Workspace-Id', WORKSPACE_ID);
 
             expect(response.status).toBe(200);
             expect(response.body.id).toBe('123e4567-e89b-12d3-a456-426614174000');
@@ -138,6 +296,8 @@ describe('API Integration Tests', () => {
         it('PUT /api/threads/:id updates a thread', async () => {
             const response = await request(app)
                 .put('/api/threads/123e4567-e89b-12d3-a456-426614174000')
+                .set('Authorization', AUTH_HEADER)
+                .set('X-Workspace-Id', WORKSPACE_ID)
                 .send({ resolved: true });
 
             expect(response.status).toBe(200);
@@ -145,9 +305,10 @@ describe('API Integration Tests', () => {
         });
 
         it('DELETE /api/threads/:id deletes a thread', async () => {
-            const response = await request(app).delete(
-                '/api/threads/123e4567-e89b-12d3-a456-426614174000'
-            );
+            const response = await request(app)
+                .delete('/api/threads/123e4567-e89b-12d3-a456-426614174000')
+                .set('Authorization', AUTH_HEADER)
+                .set('X-Workspace-Id', WORKSPACE_ID);
 
             expect(response.status).toBe(204);
         });
@@ -155,6 +316,8 @@ describe('API Integration Tests', () => {
         it('POST /api/threads/:id/comments adds a comment', async () => {
             const response = await request(app)
                 .post('/api/threads/123e4567-e89b-12d3-a456-426614174000/comments')
+                .set('Authorization', AUTH_HEADER)
+                .set('X-Workspace-Id', WORKSPACE_ID)
                 .send({
                     author: 'user',
                     text: 'Test comment',
@@ -169,6 +332,7 @@ describe('API Integration Tests', () => {
         it('POST /api/ai/review generates a code review', async () => {
             const response = await request(app)
                 .post('/api/ai/review')
+                .set('Authorization', AUTH_HEADER)
                 .send({
                     codeContext: 'const x = 1;\nconst y = 2;',
                     selectedCode: 'const x = 1;',
@@ -180,8 +344,307 @@ describe('API Integration Tests', () => {
             expect(response.body.suggestions).toBeDefined();
         });
 
+        it('POST /api/ai/review accepts the whole file with a line range', async () => {
+            const response = await request(app)
+                .post('/api/ai/review')
+                .set('Authorization', AUTH_HEADER)
+                .send({
+                    fileContent: 'const x = 1;\nconst y = 2;\nconst z = 3;',
+                    startLine: 2,
+                    endLine: 3,
+                    language: 'javascript',
+                });
+
+            expect(response.status).toBe(200);
+            expect(vi.mocked(generateReview).mock.lastCall?.[0]).toMatchObject({
+                selectedCode: 'const y = 2;\nconst z = 3;',
+                file: {
+                    content: 'const x = 1;\nconst y = 2;\nconst z = 3;',
+                    startLine: 2,
+                    endLine: 3,
+                },
+            });
+        });
+
+        it('POST /api/ai/review rejects a line range outside the file', async () => {
+            const response = await request(app)
+                .post('/api/ai/review')
+                .set('Authorization', AUTH_HEADER)
+                .send({
+                    fileContent: 'const x = 1;',
+                    startLine: 2,
+                    endLine: 5,
+                    language: 'javascript',
+                });
+
+            expect(response.status).toBe(400);
+        });
+
+        it('POST /api/ai/review requires a line range with file content', async () => {
+            const response = await request(app)
+                .post('/api/ai/review')
+                .set('Authorization', AUTH_HEADER)
+                .send({ fileContent: 'const x = 1;', language: 'javascript' });
+
+            expect(response.status).toBe(400);
+            expect(response.body.error).toContain('Start line is required');
+        });
+
+        it('POST /api/ai/review rejects malformed additional files', async () => {
+            const response = await request(app)
+                .post('/api/ai/review')
+                .set('Authorization', AUTH_HEADER)
+                .send({
+                    codeContext: 'const x = 1;',
+                    selectedCode: 'const x = 1;',
+                    language: 'javascript',
+                    additionalFiles: [{ name: 'math.ts:1-3', content: 42, language: 'typescript' }],
+                });
+
+            expect(response.status).toBe(400);
+            expect(response.body.error).toContain('Additional file content must be a string');
+        });
+
+        it('POST /api/ai/review sends earlier thread comments as history', async () => {
+            vi.mocked(ThreadModel.getComments).mockResolvedValueOnce([
+                {
+                    id: '223e4567-e89b-12d3-a456-426614174001',
+                    threadId: '123e4567-e89b-12d3-a456-426614174000',
+                    author: 'ai',
+                    text: 'Consider renaming x',
+                    diff: '- x\n+ count',
+                    createdAt: new Date(),
+                },
+                {
+                    id: '223e4567-e89b-12d3-a456-426614174002',
+                    threadId: '123e4567-e89b-12d3-a456-426614174000',
+                    author: 'user',
+                    text: 'Why?',
+                    diff: null,
+                    createdAt: new Date(),
+                },
+            ]);
+
+            const response = await request(app)
+                .post('/api/ai/review')
+                .set('Authorization', AUTH_HEADER)
+                .set('X-Workspace-Id', WORKSPACE_ID)
+                .send({
+                    threadId: '123e4567-e89b-12d3-a456-426614174000',
+                    codeContext: 'const x = 1;',
+                    selectedCode: 'const x = 1;',
+                    language: 'javascript',
+                    query: 'Why?',
+                });
+
+            expect(response.status).toBe(200);
+            expect(ThreadModel.getComments).toHaveBeenCalledWith('123e4567-e89b-12d3-a456-426614174000', WORKSPACE_ID);
+            expect(vi.mocked(generateReview).mock.lastCall?.[0].history).toEqual([
+                { role: 'assistant', content: 'Consider renaming x\n\nSuggested diff:\n- x\n+ count' },
+                { role: 'user', content: 'Why?' },
+            ]);
+        });
+
+        it.each(['/api/ai/review', '/api/ai/review/stream'])('POST %s rejects a thread ID without a workspace', async (path) => {
+            vi.mocked(generateReview).mockClear();
+            vi.mocked(ThreadModel.addComment).mockClear();
+
+            const response = await request(app)
+                .post(path)
+                .set('Authorization', AUTH_HEADER)
+                .send({
+                    threadId: '123e4567-e89b-12d3-a456-426614174000',
+                    codeContext: 'const x = 1;',
+                    selectedCode: 'const x = 1;',
+                    language: 'javascript',
+                });
+
+            expect(response.status).toBe(400);
+            expect(response.body.error).toContain('A thread ID requires a workspace (X-Workspace-Id header)');
+            expect(generateReview).not.toHaveBeenCalled();
+            expect(ThreadModel.addComment).not.toHaveBeenCalled();
+        });
+
+        it('POST /api/ai/review sends related code of the workspace after the client\'s files', async () => {
+            vi.mocked(SearchIndexModel.searchCode).mockResolvedValueOnce([
+                { file: 'math.ts', language: 'typescript', startLine: 2, endLine: 4, symbol: 'double', content: 'double', score: 0.9 },
+                { file: 'orders.ts', language: 'typescript', startLine: 1, endLine: 3, symbol: 'total', content: 'total', score: 0.5 },
+            ]);
+
+            const response = await request(app)
+                .post('/api/ai/review')
+                .set('Authorization', AUTH_HEADER)
+                .set('X-Workspace-Id', WORKSPACE_ID)
+                .send({
+                    codeContext: 'const x = double(1);',
+                    selectedCode: 'const x = double(1);',
+                    language: 'typescript',
+                    fileName: 'app.ts',
+                    additionalFiles: [{ name: 'math.ts:1-3', content: 'double', language: 'typescript' }],
+                });
+
+            expect(response.status).toBe(200);
+            expect(SearchIndexModel.searchCode).toHaveBeenCalledWith(WORKSPACE_ID, 'const x = double(1);', {
+                limit: 3,
+                excludeFile: 'app.ts',
+            });
+            expect(vi.mocked(generateReview).mock.lastCall?.[0].additionalFiles).toEqual([
+                { name: 'math.ts:1-3', content: 'double', language: 'typescript' },
+                { name: 'orders.ts:1-3', content: 'total', language: 'typescript' },
+            ]);
+        });
+
+        it('POST /api/ai/review searches no related code when asked not to', async () => {
+            vi.mocked(SearchIndexModel.searchCode).mockClear();
+
+            const response = await request(app)
+                .post('/api/ai/review')
+                .set('Authorization', AUTH_HEADER)
+                .set('X-Workspace-Id', WORKSPACE_ID)
+                .send({ codeContext: 'const x = 1;', selectedCode: 'const x = 1;', language: 'javascript', useSearch: false });
+
+            expect(response.status).toBe(200);
+            expect(SearchIndexModel.searchCode).not.toHaveBeenCalled();
+        });
+
+        it('POST /api/ai/review checks the code against the workspace\'s rules', async () => {
+            const rule = {
+                id: 'no-eval',
+                description: 'Do not use eval',
+                severity: 'error',
+                example: null,
+                updatedAt: new Date(),
+            } as const;
+            vi.mocked(RulesetModel.getRules).mockResolvedValueOnce([rule]);
+
+            const response = await request(app)
+                .post('/api/ai/review')
+                .set('Authorization', AUTH_HEADER)
+                .set('X-Workspace-Id', WORKSPACE_ID)
+                .send({ codeContext: 'eval(input);', selectedCode: 'eval(input);', language: 'javascript' });
+
+            expect(response.status).toBe(200);
+            expect(RulesetModel.getRules).toHaveBeenCalledWith(WORKSPACE_ID);
+            expect(vi.mocked(generateReview).mock.lastCall?.[0].rules).toEqual([rule]);
+        });
+
+        it('POST /api/ai/review/stream streams review events', async () => {
+            const response = await request(app)
+                .post('/api/ai/review/stream')
+                .set('Authorization', AUTH_HEADER)
+                .send({
+                    codeContext: 'const x = 1;\nconst y = 2;',
+                    selectedCode: 'const x = 1;',
+                    language: 'javascript',
+                });
+
+            expect(response.status).toBe(200);
+            expect(response.headers['content-type']).toContain('text/event-stream');
+            expect(response.text).toContain('event: explanation\ndata: {"delta":"Test "}');
+            expect(response.text).toContain('event: suggestion\ndata: {"index":0,"text":"Test suggestion"}');
+            expect(response.text).toContain('event: done');
+        });
+
+        it('POST /api/ai/review/stream saves the review on the thread and sends the saved comment', async () => {
+            const saved = {
+                id: '223e4567-e89b-12d3-a456-426614174003',
+                threadId: '123e4567-e89b-12d3-a456-426614174000',
+                author: 'ai' as const,
+                text: 'Test explanation\n\nSuggestions:\n1. Test suggestion',
+                diff: '- old\n+ new',
+                createdAt: new Date('2024-01-01T00:00:00.000Z'),
+            };
+            vi.mocked(ThreadModel.addComment).mockResolvedValueOnce(saved);
+
+            const response = await request(app)
+                .post('/api/ai/review/stream')
+                .set('Authorization', AUTH_HEADER)
+                .set('X-Workspace-Id', WORKSPACE_ID)
+                .send({
+                    threadId: '123e4567-e89b-12d3-a456-426614174000',
+                    codeContext: 'const x = 1;',
+                    selectedCode: 'const x = 1;',
+                    language: 'javascript',
+                });
+
+            expect(response.status).toBe(200);
+            expect(ThreadModel.addComment).toHaveBeenLastCalledWith({
+                threadId: '123e4567-e89b-12d3-a456-426614174000',
+                author: 'ai',
+                text: saved.text,
+                diff: '- old\n+ new',
+            });
+            const done = response.text.split('event: done\ndata: ')[1].split('\n')[0];
+            expect(JSON.parse(done).comment).toMatchObject({ id: saved.id, author: 'ai', createdAt: '2024-01-01T00:00:00.000Z' });
+        });
+
+        it('POST /api/ai/review/stream validates the request', async () => {
+            const response = await request(app)
+                .post('/api/ai/review/stream')
+                .set('Authorization', AUTH_HEADER)
+                .send({ language: 'javascript' });
+
+            expect(response.status).toBe(400);
+        });
+
+        it('POST /api/ai/scan returns structured issues', async () => {
+            const response = await request(app)
+                .post('/api/ai/scan')
+                .set('Authorization', AUTH_HEADER)
+                .send({
+                    code: 'const x = 1;\nconst y = x / 0;',
+                    language: 'javascript',
+                    fileName: 'test.js',
+                });
+
+            expect(response.status).toBe(200);
+            expect(response.body.issues).toHaveLength(1);
+            expect(response.body.issues[0]).toMatchObject({
+                startLine: 2,
+                endLine: 2,
+                severity: 'error',
+                category: 'bug',
+                fix: 'Test fix',
+                status: 'new',
+            });
+            expect(response.body.issues[0].id).toBe(response.body.issues[0].fingerprint);
+            expect(response.body.runId).toBeNull();
+            expect(response.body.mode).toBe('general');
+        });
+
+        it('POST /api/ai/review and /api/ai/scan run in the requested mode', async () => {
+            const review = await request(app)
+                .post('/api/ai/review')
+                .set('Authorization', AUTH_HEADER)
+                .send({ codeContext: 'eval(input);', selectedCode: 'eval(input);', language: 'javascript', mode: 'security' });
+
+            expect(review.status).toBe(200);
+            expect(vi.mocked(generateReview).mock.lastCall?.[0].mode).toBe('security');
+
+            const scan = await request(app)
+                .post('/api/ai/scan')
+                .set('Authorization', AUTH_HEADER)
+                .send({ code: 'eval(input);', language: 'javascript', fileName: 'test.js', mode: 'performance' });
+
+            expect(scan.status).toBe(200);
+            expect(scan.body.mode).toBe('performance');
+            expect(vi.mocked(scanCode).mock.lastCall?.[0].mode).toBe('performance');
+        });
+
+        it('POST /api/ai/scan rejects unknown modes', async () => {
+            const response = await request(app)
+                .post('/api/ai/scan')
+                .set('Authorization', AUTH_HEADER)
+                .send({ code: 'eval(input);', language: 'javascript', fileName: 'test.js', mode: 'style' });
+
+            expect(response.status).toBe(400);
+            expect(response.body.error).toContain('Mode must be one of: general, security');
+        });
+
         it('GET /api/ai/providers returns available providers', async () => {
-            const response = await request(app).get('/api/ai/providers');
+            const response = await request(app)
+                .get('/api/ai/providers')
+                .set('Authorization', AUTH_HEADER);
 
             expect(response.status).toBe(200);
             expect(response.body.available).toBeDefined();
@@ -200,6 +663,8 @@ describe('API Integration Tests', () => {
         it('returns 400 for invalid thread creation', async () => {
             const response = await request(app)
                 .post('/api/threads')
+                .set('Authorization', AUTH_HEADER)
+                .set('X-Workspace-Id', WORKSPACE_ID)
                 .send({
                     file: '',
                     startLine: -1,
@@ -209,7 +674,10 @@ describe('API Integration Tests', () => {
         });
 
         it('returns 400 for invalid UUID', async () => {
-            const response = await request(app).get('/api/threads/invalid-uuid');
+            const response = await request(app)
+                .get('/api/threads/invalid-uuid')
+                .set('Authorization', AUTH_HEADER)
+                .set('X-Workspace-Id', WORKSPACE_ID);
 
             expect(response.status).toBe(400);
         });
@@ -0,0 +1,137 @@
+import { describe, it, expect, vi, beforeAll, afterAll } from 'vitest';
+import request from 'supertest';
+import app from '../../server.js';
+import { createRepositories, setRepositories } from '../../repositories/index.js';
+import { scanCode } from '../../services/ai/index.js';
+
+// Only the AI scan is replaced; everything else runs for real
+vi.mock('../../services/ai/index.js', async (importOriginal) => ({
+    ...(await importOriginal<typeof import('../../services/ai/index.js')>()),
+    scanCode: vi.fn(),
+}));
+
+// Runs the API against the in-memory store, so no database is mocked or needed
+describe('API with in-memory storage', () => {
+    beforeAll(() => {
+        setRepositories(createRepositories('memory'));
+    });
+
+    afterAll(() => {
+        setRepositories(null);
+    });
+
+    const register = async (username: string) => {
+        const response = await request(app)
+            .post('/api/auth/register')
+            .send({ username, password: 'secret123' })
+            .expect(201);
+        const auth = `Bearer ${response.body.token}`;
+        const workspaces = await request(app).get('/api/workspaces').set('Authorization', auth).expect(200);
+        return { auth, workspaceId: workspaces.body[0].id as string };
+    };
+
+    it('keeps threads of each workspace apart', async () => {
+        const ada = await register('ada');
+        const grace = await register('grace');
+
+        const created = await request(app)
+            .post('/api/threads')
+            .set('Authorization', ada.auth)
+            .set('X-Workspace-Id', ada.workspaceId)
+            .send({ file: 'a.ts', startLine: 1, endLine: 2, selectedCode: 'x', initialComment: 'Why?' })
+            .expect(201);
+
+        expect(created.body.comments).toMatchObject([{ author: 'user', authorName: 'ada', text: 'Why?' }]);
+
+        const adaThreads = await request(app)
+            .get('/api/threads')
+            .set('Authorization', ada.auth)
+            .set('X-Workspace-Id', ada.workspaceId)
+            .expect(200);
+        expect(adaThreads.body.map((t: { id: string }) => t.id)).toEqual([created.body.id]);
+
+        await request(app)
+            .get(`/api/threads/${created.body.id}`)
+            .set('Authorization', grace.auth)
+            .set('X-Workspace-Id', ada.workspaceId)
+            .expect(404);
+
+        const graceThreads = await request(app)
+            .get('/api/threads')
+            .set('Authorization', grace.auth)
+            .set('X-Workspace-Id', grace.workspaceId)
+            .expect(200);
+        expect(graceThreads.body).toEqual([]);
+    });
+
+    it('does not reveal or reuse comments of another workspace by their ID', async () => {
+        const ada = await register('margaret');
+        const grace = await register('barbara');
+        const newThread = (user: { auth: string; workspaceId: string }) =>
+            request(app)
+                .post('/api/threads')
+                .set('Authorization', user.auth)
+                .set('X-Workspace-Id', user.workspaceId)
+                .send({ file: 'a.ts', startLine: 1, endLine: 2, selectedCode: 'x' })
+                .expect(201);
+        const comment = (user: { auth: string; workspaceId: string }, threadId: string, text: string) =>
+            request(app)
+                .post(`/api/threads/${threadId}/comments`)
+                .set('Authorization', user.auth)
+                .set('X-Workspace-Id', user.workspaceId)
+                .send({ id: '523e4567-e89b-12d3-a456-426614174000', author: 'user', text });
+
+        const adaThread = await newThread(ada);
+        const graceThread = await newThread(grace);
+        await comment(ada, adaThread.body.id, 'Private note').expect(201);
+
+        const taken = await comment(grace, graceThread.body.id, 'Hello').expect(409);
+        expect(taken.body.error).toBe('Comment ID is already in use');
+        expect(JSON.stringify(taken.body)).not.toContain('Private note');
+
+        // Retrying on the same thread still returns the stored comment
+        const retried = await comment(ada, adaThread.body.id, 'Changed').expect(201);
+        expect(retried.body).toMatchObject({ text: 'Private note', authorName: 'margaret' });
+    });
+
+    it('keeps scans and compares rescans of a file', async () => {
+        const ada = await register('linus');
+        const scanFile = (code: string) =>
+            request(app)
+                .post('/api/ai/scan')
+                .set('Authorization', ada.auth)
+                .set('X-Workspace-Id', ada.workspaceId)
+                .send({ code, language: 'javascript', fileName: 'a.js' })
+                .expect(200);
+        const issue = (startLine: number, category: 'bug' | 'security') => ({
+            startLine,
+            endLine: startLine,
+            severity: 'error' as const,
+            category,
+            message: `A ${category}`,
+            fix: 'Fix it',
+        });
+
+        vi.mocked(scanCode).mockResolvedValueOnce({
+            issues: [issue(1, 'bug'), issue(2, 'security')],
+            provider: 'openai',
+            model: 'gpt-4',
+        });
+        const first = await scanFile('const b = a / 0;\neval(input);');
+        expect(first.body.issues.map((i: { status: string }) => i.status)).toEqual(['new', 'new']);
+
+        vi.mocked(scanCode).mockResolvedValueOnce({ issues: [issue(2, 'bug')], provider: 'openai', model: 'gpt-4' });
+        const second = await scanFile('// divide\nconst b = a / 0;');
+        expect(second.body.issues.map((i: { category: string; status: string }) => [i.category, i.status])).toEqual([
+            ['bug', 'present'],
+            ['security', 'fixed'],
+        ]);
+
+        const latest = await request(app)
+            .get('/api/scans?file=a.js&limit=1')
+            .set('Authorization', ada.auth)
+            .set('X-Workspace-Id', ada.workspaceId)
+            .expect(200);
+        expect(latest.body.map((run: { id: string }) => run.id)).toEqual([second.body.runId]);
+    });
+});
@@ -0,0 +1,165 @@
+import { Request, Response } from 'express';
+import { validationResult } from 'express-validator';
+import * as UserModel from '../models/User.js';
+import * as WorkspaceModel from '../models/Workspace.js';
+import { createError, asyncHandler } from '../middleware/errorHandler.js';
+
+const DEFAULT_SESSION_DAYS = 30;
+
+/**
+ * How long a login session lasts, from AUTH_SESSION_DAYS
+ */
+function getSessionExpiry(): Date {
+  const days = Number(process.env.AUTH_SESSION_DAYS);
+  const sessionDays = Number.isFinite(days) && days > 0 ? days : DEFAULT_SESSION_DAYS;
+  return new Date(Date.now() + sessionDays * 24 * 60 * 60 * 1000);
+}
+
+/**
+ * Whether anyone can register, from AUTH_ALLOW_REGISTRATION
+ */
+function isRegistrationAllowed(): boolean {
+  return process.env.AUTH_ALLOW_REGISTRATION !== 'false';
+}
+
+/**
+ * Make the account named in AUTH_SHARED_THREADS_OWNER the owner of the Shared threads workspace,
+ * if threads from before workspaces were moved there when there were no accounts
+ * Without the setting the workspace stays without members, so no stranger can claim it
+ */
+async function claimSharedThreads(user: UserModel.User): Promise<void> {
+  if (user.username === process.env.AUTH_SHARED_THREADS_OWNER) {
+    await WorkspaceModel.claimWorkspace(WorkspaceModel.SHARED_THREADS_WORKSPACE_ID, user.id);
+  }
+}
+
+/**
+ * Start a login session for a user
+ */
+async function startSession(res: Response, user: UserModel.User, status: number): Promise<void> {
+  const { token, authToken } = await UserModel.createAuthToken({
+    userId: user.id,
+    kind: 'session',
+    expiresAt: getSessionExpiry(),
+  });
+
+  res.status(status).json({ token, user, expiresAt: authToken.expiresAt });
+}
+
+/**
+ * Register a new user with a personal workspace and log them in
+ * If threads from before workspaces were moved to the Shared threads workspace when
+ * there were no accounts, the account named in AUTH_SHARED_THREADS_OWNER becomes its owner
+ * POST /api/auth/register
+ */
+export const register = asyncHandler(async (req: Request, res: Response) => {
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    throw createError('Validation failed: ' + errors.array().map(e => e.msg).join(', '), 400);
+  }
+
+  if (!isRegistrationAllowed()) {
+    throw createError('Registration is disabled', 403);
+  }
+
+  const { username, password, displayName } = req.body;
+
+  const user = await UserModel.createUser({ username, password, displayName });
+  if (!user) {
+    throw createError('Username is already taken', 409);
+  }
+
+  await WorkspaceModel.createWorkspace({ name: `${user.displayName}'s workspace`, ownerId: user.id });
+  await claimSharedThreads(user);
+
+  await startSession(res, user, 201);
+});
+
+/**
+ * Log in with a username and password
+ * The account named in AUTH_SHARED_THREADS_OWNER claims the Shared threads workspace if it has no owner yet
+ * POST /api/auth/login
+ */
+export const login = asyncHandler(async (req: Request, res: Response) => {
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    throw createError('Validation failed: ' + errors.array().map(e => e.msg).join(', '), 400);
+  }
+
+  const { username, password } = req.body;
+
+  const user = await UserModel.verifyCredentials(username, password);
+  if (!user) {
+    throw createError('Invalid username or password', 401);
+  }
+
+  await claimSharedThreads(user);
+  await startSession(res, user, 200);
+});
+
+/**
+ * End the session (or revoke the API token) the request was made with
+ * POST /api/auth/logout
+ */
+export const logout = asyncHandler(async (req: Request, res: Response) => {
+  await UserModel.deleteAuthToken(req.user!.id, req.authToken!.id);
+  res.status(204).send();
+});
+
+/**
+ * Get the signed-in user
+ * GET /api/auth/me
+ */
+export const getCurrentUser = asyncHandler(async (req: Request, res: Response) => {
+  res.json(req.user);
+});
+
+/**
+ * List the API tokens of the signed-in user
+ * GET /api/auth/tokens
+ */
+export const listTokens = asyncHandler(async (req: Request, res: Response) => {
+  const tokens = await UserModel.listAuthTokens(req.user!.id, 'api');
+  res.json(tokens);
+});
+
+/**
+ * Create an API token for the signed-in user
+ * POST /api/auth/tokens
+ * The token is only shown in this response
+ */
+export const createToken = asyncHandler(async (req: Request, res: Response) => {
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    throw createError('Validation failed: ' + errors.array().map(e => e.msg).join(', '), 400);
+  }
+
+  const { name, expiresAt } = req.body;
+
+  const { token, authToken } = await UserModel.createAuthToken({
+    userId: req.user!.id,
+    kind: 'api',
+    name,
+    expiresAt: expiresAt ? new Date(expiresAt) : undefined,
+  });
+
+  res.status(201).json({ token, ...authToken });
+});
+
+/**
+ * Revoke an API token of the signed-in user
+ * DELETE /api/auth/tokens/:id
+ */
+export const deleteToken = asyncHandler(async (req: Request, res: Response) => {
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    throw createError('Validation failed: ' + errors.array().map(e => e.msg).join(', '), 400);
+  }
+
+  const deleted = await UserModel.deleteAuthToken(req.user!.id, req.params.id);
+  if (!deleted) {
+    throw createError('Token not found', 404);
+  }
+
+  res.status(204).send();
+});
@@ -0,0 +1,218 @@
+import { Request, Response } from 'express';
+import { validationResult } from 'express-validator';
+import * as Git from '../services/git/index.js';
+import { createError, asyncHandler } from '../middleware/errorHandler.js';
+import { startEventStream, sendEvent } from '../utils/sse.js';
+
+/**
+ * A version of a repository: a commit, or the working tree when `ref` is null
+ */
+interface RepositoryVersion {
+  ref: string | null;
+  /** For the working tree, the commit HEAD points at */
+  commit: string | null;
+}
+
+function checkValidation(req: Request): void {
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    throw createError('Validation failed: ' + errors.array().map(e => e.msg).join(', '), 400);
+  }
+}
+
+/**
+ * Get a repository the signed-in user opened, or throw 404
+ */
+function getOpenedRepository(req: Request): Git.OpenedRepository {
+  const repository = Git.getRepository(req.user!.id, req.params.id);
+  if (!repository) {
+    throw createError('Repository not found', 404);
+  }
+  return repository;
+}
+
+/**
+ * Describe a repository with its branches and tags
+ */
+async function toRepositoryResponse(repository: Git.OpenedRepository) {
+  const refs = await Git.listRefs(repository.root, !repository.workingTree);
+  return {
+    id: repository.id,
+    name: repository.name,
+    workingTree: repository.workingTree,
+    ...refs,
+  };
+}
+
+/**
+ * Resolve the requested version; without a ref, that is the working tree, or HEAD
+ * for repositories without one
+ */
+async function resolveVersion(repository: Git.OpenedRepository, ref?: string): Promise<RepositoryVersion> {
+  if (!ref && repository.workingTree) {
+    return { ref: null, commit: await Git.resolveCommit(repository.root, 'HEAD') };
+  }
+
+  const requested = ref || 'HEAD';
+  const commit = await Git.resolveCommit(repository.root, requested);
+  if (!commit) {
+    throw createError(`Unknown ref: ${requested}`, 404);
+  }
+  return { ref: requested, commit };
+}
+
+async function listFiles(repository: Git.OpenedRepository, version: RepositoryVersion): Promise<Git.RepositoryFile[]> {
+  return version.ref === null
+    ? Git.listWorkingTreeFiles(repository.root)
+    : Git.listCommitFiles(repository.root, version.commit!);
+}
+
+/**
+ * Open a local repository by path
+ * POST /api/git/repositories
+ * The path must be inside a directory listed in GIT_REPOSITORY_ROOTS
+ */
+export const openRepository = asyncHandler(async (req: Request, res: Response) => {
+  checkValidation(req);
+
+  if (Git.getRepositoryRoots().length === 0) {
+    throw createError('Opening local repositories is disabled; upload a bundle or archive instead', 403);
+  }
+  if (!(await Git.isAllowedPath(req.body.path))) {
+    throw createError('Path is not inside an allowed repository directory', 403);
+  }
+
+  const repository = await Git.openLocalRepository(req.user!.id, req.body.path);
+  if (!repository) {
+    throw createError('Path is not a git repository', 400);
+  }
+
+  res.status(201).json(await toRepositoryResponse(repository));
+});
+
+/**
+ * Upload a git bundle or a tar archive of a repository
+ * POST /api/git/repositories/upload?name=<file name>
+ */
+export const uploadRepository = asyncHandler(async (req: Request, res: Response) => {
+  checkValidation(req);
+
+  if (!Buffer.isBuffer(req.body) || req.body.length === 0) {
+    throw createError('Upload a git bundle or a tar archive as application/octet-stream', 400);
+  }
+
+  const repository = await Git.importRepositoryArchive(
+    req.user!.id,
+    (req.query.name as string | undefined) || 'repository',
+    req.body
+  );
+  if (!repository) {
+    throw createError('The upload is not a git bundle or an archive of a git repository', 400);
+  }
+
+  res.status(201).json(await toRepositoryResponse(repository));
+});
+
+/**
+ * Get a repository with its branches and tags
+ * GET /api/git/repositories/:id
+ */
+export const getRepository = asyncHandler(async (req: Request, res: Response) => {
+  checkValidation(req);
+
+  res.json(await toRepositoryResponse(getOpenedRepository(req)));
+});
+
+/**
+ * Close a repository
+ * DELETE /api/git/repositories/:id
+ */
+export const closeRepository = asyncHandler(async (req: Request, res: Response) => {
+  checkValidation(req);
+
+  const closed = await Git.closeRepository(req.user!.id, req.params.id);
+  if (!closed) {
+    throw createError('Repository not found', 404);
+  }
+
+  res.status(204).send();
+});
+
+/**
+ * List the files of a repository at a ref, or of its working tree
+ * GET /api/git/repositories/:id/files?ref=<branch, tag or commit>
+ */
+export const getFiles = asyncHandler(async (req: Request, res: Response) => {
+  checkValidation(req);
+
+  const repository = getOpenedRepository(req);
+  const version = await resolveVersion(repository, req.query.ref as string | undefined);
+  const files = await listFiles(repository, version);
+
+  res.json({ ...version, files });
+});
+
+/**
+ * List the files changed between a base and a head version
+ * GET /api/git/repositories/:id/changes?base=<ref>&head=<ref>
+ * Without a head, the working tree is compared (HEAD for repositories without one)
+ */
+export const getChanges = asyncHandler(async (req: Request, res: Response) => {
+  checkValidation(req);
+
+  const repository = getOpenedRepository(req);
+  const base = await resolveVersion(repository, req.query.base as string);
+  const head = await resolveVersion(repository, req.query.head as string | undefined);
+  const files = await Git.listChangedFiles(repository.root, base.commit!, head.ref === null ? null : head.commit);
+
+  res.json({ base, head, files });
+});
+
+/**
+ * Stream the contents of files of a repository as Server-Sent Events
+ * POST /api/git/repositories/:id/files/stream
+ *
+ * Events: `file` ({ path, content }), `skipped` ({ path, reason }) for binary, too
+ * large and unknown files, `done` ({ ref, commit, files, skipped }) and `error` ({ error })
+ */
+export const streamFiles = asyncHandler(async (req: Request, res: Response) => {
+  checkValidation(req);
+
+  const repository = getOpenedRepository(req);
+  const version = await resolveVersion(repository, req.body.ref);
+  const files = new Map((await listFiles(repository, version)).map(file => [file.path, file]));
+  const paths: string[] = [...new Set<string>(req.body.paths)];
+
+  const clientClosed = startEventStream(res);
+  let sent = 0;
+  let skipped = 0;
+
+  try {
+    for (const path of paths) {
+      if (clientClosed()) break;
+
+      const file = files.get(path);
+      const result: Git.FileContent = !file
+        ? { path, skipped: 'missing' }
+        : version.ref === null
+          ? await Git.readWorkingTreeFile(repository.root, file)
+          : await Git.readCommitFile(repository.root, version.commit!, file);
+
+      if ('content' in result) {
+        sendEvent(res, 'file', result);
+        sent++;
+      } else {
+        sendEvent(res, 'skipped', { path, reason: result.skipped });
+        skipped++;
+      }
+    }
+    sendEvent(res, 'done', { ...version, files: sent, skipped });
+  } catch (error) {
+    console.error('Repository file stream failed:', error);
+    if (!clientClosed()) {
+      sendEvent(res, 'error', { error: (error as Error).message || 'Failed to read files' });
+    }
+  }
+
+  res.end();
+});
@@ -0,0 +1,88 @@
+import { Request, Response } from 'express';
+import { validationResult } from 'express-validator';
+import * as RulesetModel from '../models/Ruleset.js';
+import { createError, asyncHandler } from '../middleware/errorHandler.js';
+
+/**
+ * Only owners change the rules every review of the workspace enforces
+ */
+function requireOwner(req: Request): void {
+  if (req.workspace!.role !== 'owner') {
+    throw createError('Only workspace owners can change review rules', 403);
+  }
+}
+
+/**
+ * Get the review rules of the request's workspace, ordered by ID
+ * GET /api/rules
+ */
+export const getRules = asyncHandler(async (req: Request, res: Response) => {
+  const rules = await RulesetModel.getRules(req.workspace!.id);
+  res.json(rules);
+});
+
+/**
+ * Replace all the review rules of the workspace
+ * PUT /api/rules
+ */
+export const replaceRules = asyncHandler(async (req: Request, res: Response) => {
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    throw createError('Validation failed: ' + errors.array().map(e => e.msg).join(', '), 400);
+  }
+  requireOwner(req);
+
+  const rules: RulesetModel.ReviewRuleInput[] = req.body.rules;
+  const duplicate = rules.find((rule, index) => rules.findIndex(r => r.id === rule.id) !== index);
+  if (duplicate) {
+    throw createError(`Duplicate rule ID: ${duplicate.id}`, 400);
+  }
+
+  const saved = await RulesetModel.replaceRules(
+    req.workspace!.id,
+    rules.map(({ id, description, severity, example }) => ({ id, description, severity, example }))
+  );
+  res.json(saved);
+});
+
+/**
+ * Add a review rule to the workspace, or update the rule with the ID
+ * PUT /api/rules/:id
+ */
+export const saveRule = asyncHandler(async (req: Request, res: Response) => {
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    throw createError('Validation failed: ' + errors.array().map(e => e.msg).join(', '), 400);
+  }
+  requireOwner(req);
+
+  const id = req.params.id;
+  const existing = await RulesetModel.getRules(req.workspace!.id);
+  if (!existing.some(rule => rule.id === id) && existing.length >= RulesetModel.MAX_RULES) {
+    throw createError(`A workspace can have at most ${RulesetModel.MAX_RULES} rules`, 400);
+  }
+
+  const { description, severity, example } = req.body;
+  const { rule, created } = await RulesetModel.saveRule(req.workspace!.id, { id, description, severity, example });
+
+  res.status(created ? 201 : 200).json(rule);
+});
+
+/**
+ * Remove a review rule from the workspace
+ * DELETE /api/rules/:id
+ */
+export const deleteRule = asyncHandler(async (req: Request, res: Response) => {
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    throw createError('Validation failed: ' + errors.array().map(e => e.msg).join(', '), 400);
+  }
+  requireOwner(req);
+
+  const deleted = await RulesetModel.deleteRule(req.workspace!.id, req.params.id);
+  if (!deleted) {
+    throw createError('Rule not found', 404);
+  }
+
+  res.status(204).send();
+});
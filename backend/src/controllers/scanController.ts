@@ -0,0 +1,62 @@
+import { Request, Response } from 'express';
+import { validationResult } from 'express-validator';
+import * as ScanModel from '../models/Scan.js';
+import type { ReviewMode } from '../services/ai/types.js';
+import { createError, asyncHandler } from '../middleware/errorHandler.js';
+
+/**
+ * Get the scan runs of the request's workspace, newest first
+ * GET /api/scans?file=a.ts&mode=security&limit=1
+ */
+export const getScanRuns = asyncHandler(async (req: Request, res: Response) => {
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    throw createError('Validation failed: ' + errors.array().map(e => e.msg).join(', '), 400);
+  }
+
+  const { file, mode, limit } = req.query;
+
+  const runs = await ScanModel.getScanRuns(req.workspace!.id, {
+    file: file as string | undefined,
+    mode: mode as ReviewMode | undefined,
+    limit: limit ? parseInt(limit as string, 10) : undefined,
+  });
+
+  res.json(runs);
+});
+
+/**
+ * Get a scan run with its issues
+ * GET /api/scans/:id
+ */
+export const getScanRun = asyncHandler(async (req: Request, res: Response) => {
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    throw createError('Validation failed: ' + errors.array().map(e => e.msg).join(', '), 400);
+  }
+
+  const run = await ScanModel.getScanRunById(req.params.id, req.workspace!.id);
+  if (!run) {
+    throw createError('Scan not found', 404);
+  }
+
+  res.json(run);
+});
+
+/**
+ * Link a scan issue to the thread it was turned into, or unlink it with a null thread ID
+ * PUT /api/scans/issues/:id/thread
+ */
+export const setIssueThread = asyncHandler(async (req: Request, res: Response) => {
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    throw createError('Validation failed: ' + errors.array().map(e => e.msg).join(', '), 400);
+  }
+
+  const issue = await ScanModel.setIssueThread(req.params.id, req.workspace!.id, req.body.threadId ?? null);
+  if (!issue) {
+    throw createError('Scan issue not found', 404);
+  }
+
+  res.json(issue);
+});
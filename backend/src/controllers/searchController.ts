@@ -0,0 +1,64 @@
+import { Request, Response } from 'express';
+import { validationResult } from 'express-validator';
+import * as SearchIndexModel from '../models/SearchIndex.js';
+import { createError, asyncHandler } from '../middleware/errorHandler.js';
+
+/**
+ * Search the indexed files of the request's workspace, closest chunks first
+ * GET /api/search?q=parse%20order&limit=10&exclude=a.ts
+ */
+export const searchCode = asyncHandler(async (req: Request, res: Response) => {
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    throw createError('Validation failed: ' + errors.array().map(e => e.msg).join(', '), 400);
+  }
+
+  const { q, limit, exclude } = req.query;
+
+  const results = await SearchIndexModel.searchCode(req.workspace!.id, q as string, {
+    limit: limit ? parseInt(limit as string, 10) : undefined,
+    excludeFile: exclude as string | undefined,
+  });
+
+  res.json(results);
+});
+
+/**
+ * Add a file to the search index, or update it
+ * PUT /api/search/files
+ */
+export const indexFile = asyncHandler(async (req: Request, res: Response) => {
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    throw createError('Validation failed: ' + errors.array().map(e => e.msg).join(', '), 400);
+  }
+
+  const { name, content, language } = req.body;
+
+  const { file, updated } = await SearchIndexModel.indexFile({
+    workspaceId: req.workspace!.id,
+    file: name,
+    language,
+    content,
+  });
+
+  res.json({ ...file, updated });
+});
+
+/**
+ * Remove a file from the search index
+ * DELETE /api/search/files?name=a.ts
+ */
+export const removeFile = asyncHandler(async (req: Request, res: Response) => {
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    throw createError('Validation failed: ' + errors.array().map(e => e.msg).join(', '), 400);
+  }
+
+  const removed = await SearchIndexModel.removeFile(req.workspace!.id, req.query.name as string);
+  if (!removed) {
+    throw createError('File is not indexed', 404);
+  }
+
+  res.status(204).send();
+});
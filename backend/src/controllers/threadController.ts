@@ -1,11 +1,20 @@
 import { Request, Response } from 'express';
 import { validationResult } from 'express-validator';
 import * as ThreadModel from '../models/Thread.js';
+import { normalizeDiff } from '@ai-code-review/shared';
 import { createError, asyncHandler } from '../middleware/errorHandler.js';
+import {
+  createSarifLog,
+  buildReviewReport,
+  renderMarkdownReport,
+  renderHtmlReport,
+  ScannedFile,
+} from '../services/reports/index.js';
 
 /**
- * Create a new thread
+ * Create a new thread in the request's workspace
  * POST /api/threads
+ * Creating a thread with the ID of an existing thread returns the existing thread
  */
 export const createThread = asyncHandler(async (req: Request, res: Response) => {
   const errors = validationResult(req);
@@ -13,16 +22,56 @@ export const createThread = asyncHandler(async (req: Request, res: Response) =>
     throw createError('Validation failed: ' + errors.array().map(e => e.msg).join(', '), 400);
   }
 
-  const { file, startLine, endLine, selectedCode, initialComment } = req.body;
+  const {
+    id,
+    file,
+    startLine,
+    endLine,
+    selectedCode,
+    source,
+    side,
+    baseRevision,
+    headRevision,
+    anchor,
+    initialComment,
+  } = req.body;
+  const workspaceId = req.workspace!.id;
+
+  // Clients retry queued creates, so an existing thread is not an error
+  if (id) {
+    const existing = await ThreadModel.getThreadById(id, workspaceId);
+    if (existing) {
+      res.json(existing);
+      return;
+    }
+  }
 
   const thread = await ThreadModel.createThread({
+    id,
+    workspaceId,
     file,
     startLine,
     endLine,
     selectedCode,
+    source: source && { repository: source.repository, commitSha: source.commitSha, path: source.path },
+    side,
+    baseRevision,
+    headRevision,
+    anchor: anchor && {
+      lines: anchor.lines,
+      contextBefore: anchor.contextBefore,
+      contextAfter: anchor.contextAfter,
+    },
     initialComment,
+    authorId: req.user?.id,
+    authorName: req.user?.displayName,
   });
 
+  // The ID is taken by a thread of another workspace
+  if (!thread) {
+    throw createError('Thread ID is already in use', 409);
+  }
+
   res.status(201).json(thread);
 });
 
@@ -38,7 +87,7 @@ export const getThread = asyncHandler(async (req: Request, res: Response) => {
 
   const { id } = req.params;
 
-  const thread = await ThreadModel.getThreadById(id);
+  const thread = await ThreadModel.getThreadById(id, req.workspace!.id);
 
   if (!thread) {
     throw createError('Thread not found', 404);
@@ -48,13 +97,13 @@ export const getThread = asyncHandler(async (req: Request, res: Response) => {
 });
 
 /**
- * Get all threads with optional filtering
+ * Get the threads of the request's workspace with optional filtering
  * GET /api/threads
  */
 export const getThreads = asyncHandler(async (req: Request, res: Response) => {
   const { file, resolved, limit, offset } = req.query;
 
-  const threads = await ThreadModel.getThreads({
+  const threads = await ThreadModel.getThreads(req.workspace!.id, {
     file: file as string | undefined,
     resolved: resolved !== undefined ? resolved === 'true' : undefined,
     limit: limit ? parseInt(limit as string, 10) : undefined,
@@ -64,6 +113,39 @@ export const getThreads = asyncHandler(async (req: Request, res: Response) => {
   res.json(threads);
 });
 
+/**
+ * Export the threads of the request's workspace
+ * GET /api/threads/export?format=sarif|markdown|html
+ * SARIF has the unresolved threads; Markdown and HTML reports have all threads with
+ * open and resolved counts. POST also exports the scan issues sent in the body
+ */
+export const exportThreads = asyncHandler(async (req: Request, res: Response) => {
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    throw createError('Validation failed: ' + errors.array().map(e => e.msg).join(', '), 400);
+  }
+
+  const format = (req.query.format as string | undefined) ?? 'sarif';
+  const workspaceId = req.workspace!.id;
+  const scans: ScannedFile[] = req.method === 'POST' ? req.body.scans ?? [] : [];
+
+  if (format === 'sarif') {
+    const threads = await ThreadModel.getThreads(workspaceId, { resolved: false });
+    res.type('application/sarif+json');
+    res.json(createSarifLog(threads, scans));
+    return;
+  }
+
+  const threads = await ThreadModel.getThreads(workspaceId);
+  const report = buildReviewReport(`Code review: ${req.workspace!.name}`, threads, scans);
+
+  if (format === 'markdown') {
+    res.type('text/markdown; charset=utf-8').send(renderMarkdownReport(report));
+  } else {
+    res.type('html').send(renderHtmlReport(report));
+  }
+});
+
 /**
  * Update a thread
  * PUT /api/threads/:id
@@ -75,9 +157,22 @@ export const updateThread = asyncHandler(async (req: Request, res: Response) =>
   }
 
   const { id } = req.params;
-  const { resolved } = req.body;
+  const { resolved, startLine, endLine, outdated } = req.body;
 
-  const thread = await ThreadModel.updateThread(id, { resolved });
+  // Threads move after edits of their file, so both ends of the range are sent
+  if ((startLine === undefined) !== (endLine === undefined)) {
+    throw createError('Validation failed: Start and end line must be given together', 400);
+  }
+  if (startLine !== undefined && endLine < startLine) {
+    throw createError('Validation failed: End line must not be before the start line', 400);
+  }
+
+  const thread = await ThreadModel.updateThread(id, req.workspace!.id, {
+    resolved,
+    startLine,
+    endLine,
+    outdated,
+  });
 
   if (!thread) {
     throw createError('Thread not found', 404);
@@ -98,7 +193,7 @@ export const deleteThread = asyncHandler(async (req: Request, res: Response) =>
 
   const { id } = req.params;
 
-  const deleted = await ThreadModel.deleteThread(id);
+  const deleted = await ThreadModel.deleteThread(id, req.workspace!.id);
 
   if (!deleted) {
     throw createError('Thread not found', 404);
@@ -108,7 +203,7 @@ export const deleteThread = asyncHandler(async (req: Request, res: Response) =>
 });
 
 /**
- * Add a comment to a thread
+ * Add a comment of the signed-in user to a thread
  * POST /api/threads/:id/comments
  */
 export const addComment = asyncHandler(async (req: Request, res: Response) => {
@@ -118,24 +213,83 @@ export const addComment = asyncHandler(async (req: Request, res: Response) => {
   }
 
   const { id } = req.params;
-  const { author, text, diff } = req.body;
+  const { id: commentId, text, diff } = req.body;
 
-  // Verify thread exists
-  const thread = await ThreadModel.getThreadById(id);
+  // Verify thread exists in the workspace
+  const thread = await ThreadModel.getThreadById(id, req.workspace!.id);
   if (!thread) {
     throw createError('Thread not found', 404);
   }
 
+  // Store diffs as well-formed unified diffs numbered by the thread's file lines
+  let normalizedDiff: string | undefined;
+  if (diff) {
+    const result = normalizeDiff(diff, {
+      original: thread.selectedCode,
+      firstLine: thread.startLine,
+    });
+    if (!result.diff) {
+      throw createError('Validation failed: Diff contains no changes', 400);
+    }
+    normalizedDiff = result.diff;
+  }
+
   const comment = await ThreadModel.addComment({
+    id: commentId,
     threadId: id,
-    author,
+    author: 'user',
+    authorId: req.user?.id,
+    authorName: req.user?.displayName,
     text,
-    diff,
+    diff: normalizedDiff,
   });
 
+  // The ID is taken by a comment of another thread
+  if (!comment) {
+    throw createError('Comment ID is already in use', 409);
+  }
+
   res.status(201).json(comment);
 });
 
+/**
+ * Mark the suggestion of a comment as applied, or as not applied with a null date
+ * PATCH /api/threads/:id/comments/:commentId
+ */
+export const updateComment = asyncHandler(async (req: Request, res: Response) => {
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    throw createError('Validation failed: ' + errors.array().map(e => e.msg).join(', '), 400);
+  }
+
+  const { id, commentId } = req.params;
+  const { appliedAt } = req.body;
+
+  // Verify thread exists in the workspace
+  const thread = await ThreadModel.getThreadById(id, req.workspace!.id);
+  if (!thread) {
+    throw createError('Thread not found', 404);
+  }
+
+  const existing = thread.comments.find(comment => comment.id === commentId);
+  if (!existing) {
+    throw createError('Comment not found', 404);
+  }
+  if (appliedAt !== null && !existing.diff) {
+    throw createError('Validation failed: Comment has no suggestion to apply', 400);
+  }
+
+  const comment = await ThreadModel.updateComment(commentId, id, {
+    appliedAt: appliedAt === null ? null : new Date(appliedAt),
+  });
+
+  if (!comment) {
+    throw createError('Comment not found', 404);
+  }
+
+  res.json(comment);
+});
+
 /**
  * Get comments for a thread
  * GET /api/threads/:id/comments
@@ -148,13 +302,15 @@ export const getComments = asyncHandler(async (req: Request, res: Response) => {
 
   const { id } = req.params;
 
-  // Verify thread exists
-  const thread = await ThreadModel.getThreadById(id);
+  const workspaceId = req.workspace!.id;
+
+  // Verify thread exists in the workspace
+  const thread = await ThreadModel.getThreadById(id, workspaceId);
   if (!thread) {
     throw createError('Thread not found', 404);
   }
 
-  const comments = await ThreadModel.getComments(id);
+  const comments = await ThreadModel.getComments(id, workspaceId);
 
   res.json(comments);
 });
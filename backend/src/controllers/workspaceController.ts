@@ -0,0 +1,122 @@
+import { Request, Response } from 'express';
+import { validationResult } from 'express-validator';
+import * as WorkspaceModel from '../models/Workspace.js';
+import * as UserModel from '../models/User.js';
+import { createError, asyncHandler } from '../middleware/errorHandler.js';
+
+/**
+ * Get a workspace of the signed-in user, or throw 404
+ */
+async function getMemberWorkspace(req: Request): Promise<WorkspaceModel.Workspace> {
+  const workspace = await WorkspaceModel.getWorkspaceForUser(req.params.id, req.user!.id);
+  if (!workspace) {
+    throw createError('Workspace not found', 404);
+  }
+  return workspace;
+}
+
+/**
+ * Get the workspaces of the signed-in user
+ * GET /api/workspaces
+ */
+export const getWorkspaces = asyncHandler(async (req: Request, res: Response) => {
+  const workspaces = await WorkspaceModel.getWorkspacesForUser(req.user!.id);
+  res.json(workspaces);
+});
+
+/**
+ * Create a workspace owned by the signed-in user
+ * POST /api/workspaces
+ */
+export const createWorkspace = asyncHandler(async (req: Request, res: Response) => {
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    throw createError('Validation failed: ' + errors.array().map(e => e.msg).join(', '), 400);
+  }
+
+  const workspace = await WorkspaceModel.createWorkspace({
+    name: req.body.name,
+    ownerId: req.user!.id,
+  });
+
+  res.status(201).json(workspace);
+});
+
+/**
+ * Get the members of a workspace
+ * GET /api/workspaces/:id/members
+ */
+export const getMembers = asyncHandler(async (req: Request, res: Response) => {
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    throw createError('Validation failed: ' + errors.array().map(e => e.msg).join(', '), 400);
+  }
+
+  const workspace = await getMemberWorkspace(req);
+  const members = await WorkspaceModel.getMembers(workspace.id);
+
+  res.json(members);
+});
+
+/**
+ * Add a user to a workspace by username
+ * POST /api/workspaces/:id/members
+ * Only owners can add members
+ */
+export const addMember = asyncHandler(async (req: Request, res: Response) => {
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    throw createError('Validation failed: ' + errors.array().map(e => e.msg).join(', '), 400);
+  }
+
+  const workspace = await getMemberWorkspace(req);
+  if (workspace.role !== 'owner') {
+    throw createError('Only workspace owners can add members', 403);
+  }
+
+  const { username, role = 'member' } = req.body;
+
+  const user = await UserModel.getUserByUsername(username);
+  if (!user) {
+    throw createError('User not found', 404);
+  }
+
+  const added = await WorkspaceModel.addMember(workspace.id, user.id, role);
+  if (!added) {
+    throw createError('User is already a member', 409);
+  }
+
+  res.status(201).json(await WorkspaceModel.getMembers(workspace.id));
+});
+
+/**
+ * Remove a user from a workspace
+ * DELETE /api/workspaces/:id/members/:userId
+ * Owners can remove members, and members can leave; owners cannot be removed
+ */
+export const removeMember = asyncHandler(async (req: Request, res: Response) => {
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    throw createError('Validation failed: ' + errors.array().map(e => e.msg).join(', '), 400);
+  }
+
+  const workspace = await getMemberWorkspace(req);
+  const { userId } = req.params;
+
+  if (workspace.role !== 'owner' && userId !== req.user!.id) {
+    throw createError('Only workspace owners can remove members', 403);
+  }
+
+  const members = await WorkspaceModel.getMembers(workspace.id);
+  const member = members.find(m => m.userId === userId);
+  if (!member) {
+    throw createError('Member not found', 404);
+  }
+  if (member.role === 'owner') {
+    throw createError('Workspace owners cannot be removed', 400);
+  }
+
+  await WorkspaceModel.removeMember(workspace.id, userId);
+
+  res.status(204).send();
+});
@@ -0,0 +1,199 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+
+// Mock the database connection
+vi.mock('../connection.js', () => ({
+  query: vi.fn(),
+  transaction: vi.fn(),
+}));
+
+import { query, transaction } from '../connection.js';
+import {
+  checksum,
+  loadMigrations,
+  getMigrationStatus,
+  migrateUp,
+  migrateDown,
+  MIGRATIONS_DIR,
+  type Migration,
+} from '../migrator.js';
+
+const migration = (version: number, name: string, down: string | null = `DROP TABLE t${version};`): Migration => {
+  const up = `CREATE TABLE t${version} ();`;
+  return { version, name, up, down, checksum: checksum(up) };
+};
+
+const MIGRATIONS = [migration(1, '001_first'), migration(2, '002_second', null), migration(3, '003_third')];
+
+// The rows of schema_migrations, returned after the CREATE TABLE IF NOT EXISTS
+const mockApplied = (rows: Array<{ version: number; name: string; checksum: string }>) => {
+  vi.mocked(query)
+    .mockResolvedValueOnce({ rows: [], rowCount: 0 } as never)
+    .mockResolvedValueOnce({
+      rows: rows.map(row => ({ ...row, applied_at: new Date('2024-01-01T00:00:00.000Z') })),
+      rowCount: rows.length,
+    } as never);
+};
+
+const applied = (m: Migration) => ({ version: m.version, name: m.name, checksum: m.checksum });
+
+describe('migrator', () => {
+  let client: { query: ReturnType<typeof vi.fn> };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    client = { query: vi.fn().mockResolvedValue({ rows: [], rowCount: 1 }) };
+    vi.mocked(transaction).mockImplementation(async (callback) => callback(client as never));
+  });
+
+  describe('loadMigrations', () => {
+    let dir: string;
+
+    beforeEach(() => {
+      dir = mkdtempSync(join(tmpdir(), 'migrations-'));
+    });
+
+    afterEach(() => {
+      rmSync(dir, { recursive: true, force: true });
+    });
+
+    it('reads numbered migrations in version order with their down scripts', () => {
+      writeFileSync(join(dir, '010_later.sql'), 'SELECT 10;');
+      writeFileSync(join(dir, '002_second.sql'), 'SELECT 2;');
+      writeFileSync(join(dir, '002_second.down.sql'), 'SELECT -2;');
+      writeFileSync(join(dir, 'README.md'), 'not a migration');
+
+      const migrations = loadMigrations(dir);
+
+      expect(migrations.map(m => [m.version, m.name, m.down])).toEqual([
+        [2, '002_second', 'SELECT -2;'],
+        [10, '010_later', null],
+      ]);
+      expect(migrations[0].checksum).toBe(checksum('SELECT 2;'));
+    });
+
+    it('rejects two migrations with the same version', () => {
+      writeFileSync(join(dir, '001_a.sql'), 'SELECT 1;');
+      writeFileSync(join(dir, '001_b.sql'), 'SELECT 1;');
+
+      expect(() => loadMigrations(dir)).toThrow('Migrations 001_a and 001_b have the same version');
+    });
+
+    it('gives every bundled migration a down script', () => {
+      expect(loadMigrations(MIGRATIONS_DIR).filter(m => m.down === null)).toEqual([]);
+    });
+  });
+
+  describe('checksum', () => {
+    it('ignores line ending differences', () => {
+      expect(checksum('SELECT 1;\r\nSELECT 2;\r\n')).toBe(checksum('SELECT 1;\nSELECT 2;\n'));
+      expect(checksum('SELECT 1;')).not.toBe(checksum('SELECT 2;'));
+    });
+  });
+
+  describe('getMigrationStatus', () => {
+    it('reports applied, pending, changed and missing migrations', async () => {
+      mockApplied([
+        applied(MIGRATIONS[0]),
+        { ...applied(MIGRATIONS[1]), checksum: checksum('edited') },
+        { version: 4, name: '004_deleted', checksum: checksum('gone') },
+      ]);
+
+      const statuses = await getMigrationStatus(MIGRATIONS);
+
+      expect(statuses.map(s => [s.name, s.state])).toEqual([
+        ['001_first', 'applied'],
+        ['002_second', 'changed'],
+        ['003_third', 'pending'],
+        ['004_deleted', 'missing'],
+      ]);
+      expect(vi.mocked(query).mock.calls[0][0]).toContain('CREATE TABLE IF NOT EXISTS schema_migrations');
+    });
+  });
+
+  describe('migrateUp', () => {
+    it('applies pending migrations in order and records them', async () => {
+      mockApplied([applied(MIGRATIONS[0])]);
+
+      const result = await migrateUp(MIGRATIONS);
+
+      expect(result.map(m => m.name)).toEqual(['002_second', '003_third']);
+      expect(transaction).toHaveBeenCalledTimes(2);
+      expect(client.query.mock.calls).toEqual([
+        [MIGRATIONS[1].up],
+        [expect.stringContaining('INSERT INTO schema_migrations'), [2, '002_second', MIGRATIONS[1].checksum]],
+        [MIGRATIONS[2].up],
+        [expect.stringContaining('INSERT INTO schema_migrations'), [3, '003_third', MIGRATIONS[2].checksum]],
+      ]);
+    });
+
+    it('stops at a failing migration', async () => {
+      mockApplied([]);
+      client.query.mockRejectedValueOnce(new Error('syntax error'));
+
+      await expect(migrateUp(MIGRATIONS)).rejects.toThrow('syntax error');
+      expect(transaction).toHaveBeenCalledTimes(1);
+    });
+
+    it('skips migrations needing an optional extension the server does not have', async () => {
+      const search = { ...migration(4, '004_search'), up: 'CREATE EXTENSION IF NOT EXISTS vector;' };
+      mockApplied([applied(MIGRATIONS[0]), applied(MIGRATIONS[1]), applied(MIGRATIONS[2])]);
+      vi.mocked(query).mockResolvedValueOnce({ rows: [], rowCount: 0 } as never);
+      const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+
+      const result = await migrateUp([...MIGRATIONS, search, migration(5, '005_after')]);
+
+      expect(result.map(m => m.name)).toEqual(['005_after']);
+      expect(query).toHaveBeenLastCalledWith(expect.stringContaining('pg_available_extensions'), [['vector']]);
+      expect(warn).toHaveBeenCalledWith('Skipped 004_search: the vector extension is not available');
+      warn.mockRestore();
+    });
+
+    it('applies migrations needing an optional extension the server has', async () => {
+      const search = { ...migration(4, '004_search'), up: 'CREATE EXTENSION IF NOT EXISTS vector;' };
+      mockApplied([applied(MIGRATIONS[0]), applied(MIGRATIONS[1]), applied(MIGRATIONS[2])]);
+      vi.mocked(query).mockResolvedValueOnce({ rows: [{ name: 'vector' }], rowCount: 1 } as never);
+
+      const result = await migrateUp([...MIGRATIONS, search]);
+
+      expect(result.map(m => m.name)).toEqual(['004_search']);
+    });
+
+    it('refuses to run when an applied migration was edited', async () => {
+      mockApplied([{ ...applied(MIGRATIONS[0]), checksum: checksum('edited') }]);
+
+      await expect(migrateUp(MIGRATIONS)).rejects.toThrow('changed since they were applied: 001_first');
+      expect(transaction).not.toHaveBeenCalled();
+    });
+
+    it('refuses to run when an applied migration was deleted', async () => {
+      mockApplied([{ version: 4, name: '004_deleted', checksum: checksum('gone') }]);
+
+      await expect(migrateUp(MIGRATIONS)).rejects.toThrow('applied but missing: 004_deleted');
+      expect(transaction).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('migrateDown', () => {
+    it('reverts the latest migration and forgets it', async () => {
+      mockApplied(MIGRATIONS.map(applied));
+
+      const result = await migrateDown(1, MIGRATIONS);
+
+      expect(result.map(m => m.name)).toEqual(['003_third']);
+      expect(client.query.mock.calls).toEqual([
+        [MIGRATIONS[2].down],
+        [expect.stringContaining('DELETE FROM schema_migrations'), [3]],
+      ]);
+    });
+
+    it('refuses to revert migrations without a down script', async () => {
+      mockApplied(MIGRATIONS.map(applied));
+
+      await expect(migrateDown(2, MIGRATIONS)).rejects.toThrow('No down script for 002_second');
+      expect(transaction).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -1,30 +1,66 @@
-import { readFileSync } from 'fs';
-import { join, dirname } from 'path';
-import { fileURLToPath } from 'url';
-import { query, closePool } from './connection.js';
+import { closePool } from './connection.js';
+import { getMigrationStatus, migrateDown, migrateUp } from './migrator.js';
+import { getStorageDriver } from '../repositories/index.js';
 
-const __filename = fileURLToPath(import.meta.url);
-const __dirname = dirname(__filename);
+const USAGE = 'Usage: tsx src/db/migrate.ts [up | down [steps] | status]';
 
-async function runMigrations() {
-  console.log('Running database migrations...');
-
-  try {
-    // Read and execute migration file
-    const migrationPath = join(__dirname, 'migrations', '001_create_threads.sql');
-    const migrationSQL = readFileSync(migrationPath, 'utf-8');
+async function runCommand(command: string, args: string[]): Promise<void> {
+  switch (command) {
+    case 'up': {
+      const applied = await migrateUp();
+      for (const migration of applied) {
+        console.log(`Applied ${migration.name}`);
+      }
+      console.log(applied.length > 0 ? 'Migrations completed successfully!' : 'Database is up to date');
+      break;
+    }
+    case 'down': {
+      const steps = args[0] === undefined ? 1 : Number(args[0]);
+      if (!Number.isInteger(steps) || steps < 1) {
+        throw new Error(`Steps must be a positive integer, got "${args[0]}"`);
+      }
+      const reverted = await migrateDown(steps);
+      for (const migration of reverted) {
+        console.log(`Reverted ${migration.name}`);
+      }
+      if (reverted.length === 0) {
+        console.log('No migrations to revert');
+      }
+      break;
+    }
+    case 'status': {
+      const statuses = await getMigrationStatus();
+      for (const status of statuses) {
+        const appliedAt = status.appliedAt ? status.appliedAt.toISOString() : '';
+        console.log(`${status.state.padEnd(8)} ${status.name.padEnd(40)} ${appliedAt}`.trimEnd());
+      }
+      if (statuses.some(s => s.state === 'changed' || s.state === 'missing')) {
+        process.exitCode = 1;
+      }
+      break;
+    }
+    default:
+      throw new Error(USAGE);
+  }
+}
 
-    console.log('Executing migration: 001_create_threads.sql');
-    await query(migrationSQL);
+async function main() {
+  const [command = 'up', ...args] = process.argv.slice(2);
 
-    console.log('Migrations completed successfully!');
+  try {
+    // SQLite creates its schema when opened and the in-memory store needs none
+    const driver = getStorageDriver();
+    if (driver !== 'postgres') {
+      console.log(`Migrations only apply to PostgreSQL; DB_DRIVER is ${driver}`);
+      return;
+    }
+    await runCommand(command, args);
   } catch (error) {
-    console.error('Migration failed:', error);
-    process.exit(1);
+    console.error('Migration failed:', error instanceof Error ? error.message : error);
+    process.exitCode = 1;
   } finally {
     await closePool();
   }
 }
 
-runMigrations();
-
+main();
@@ -0,0 +1,8 @@
+-- Migration: Create threads and comments tables (down)
+-- Version: 001
+-- Description: Drop the code review threads schema
+
+DROP TRIGGER IF EXISTS update_threads_updated_at ON threads;
+DROP FUNCTION IF EXISTS update_updated_at_column();
+DROP TABLE IF EXISTS comments;
+DROP TABLE IF EXISTS threads;
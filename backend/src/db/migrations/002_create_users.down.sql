@@ -0,0 +1,8 @@
+-- Migration: Create users and auth tokens tables (down)
+-- Version: 002
+-- Description: Drop accounts and tokens, and forget comment authors
+
+ALTER TABLE comments DROP COLUMN IF EXISTS author_name;
+ALTER TABLE comments DROP COLUMN IF EXISTS author_id;
+DROP TABLE IF EXISTS auth_tokens;
+DROP TABLE IF EXISTS users;
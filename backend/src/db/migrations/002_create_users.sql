@@ -0,0 +1,39 @@
+-- Migration: Create users and auth tokens tables
+-- Version: 002
+-- Description: Local accounts, login sessions and API tokens, and comment authors
+
+-- Create users table
+CREATE TABLE IF NOT EXISTS users (
+    id UUID PRIMARY KEY,
+    username VARCHAR(100) NOT NULL UNIQUE,
+    display_name VARCHAR(200) NOT NULL,
+    password_hash TEXT NOT NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+);
+
+-- Create auth tokens table (login sessions and API tokens)
+CREATE TABLE IF NOT EXISTS auth_tokens (
+    id UUID PRIMARY KEY,
+    user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    token_hash CHAR(64) NOT NULL UNIQUE,
+    kind VARCHAR(20) NOT NULL CHECK (kind IN ('session', 'api')),
+    name VARCHAR(200),
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    last_used_at TIMESTAMP WITH TIME ZONE,
+    expires_at TIMESTAMP WITH TIME ZONE
+);
+
+CREATE INDEX IF NOT EXISTS idx_auth_tokens_user_id ON auth_tokens(user_id);
+
+-- Record which user wrote a comment
+ALTER TABLE comments ADD COLUMN IF NOT EXISTS author_id UUID REFERENCES users(id) ON DELETE SET NULL;
+ALTER TABLE comments ADD COLUMN IF NOT EXISTS author_name VARCHAR(200);
+
+-- Comments for documentation
+COMMENT ON TABLE users IS 'Local user accounts';
+COMMENT ON TABLE auth_tokens IS 'Bearer tokens of login sessions and API tokens';
+COMMENT ON COLUMN users.password_hash IS 'scrypt hash of the password with its salt';
+COMMENT ON COLUMN auth_tokens.token_hash IS 'SHA-256 of the token; the token itself is never stored';
+COMMENT ON COLUMN auth_tokens.expires_at IS 'When the token stops working, NULL for API tokens without expiry';
+COMMENT ON COLUMN comments.author_id IS 'User who wrote the comment, NULL for AI comments';
+COMMENT ON COLUMN comments.author_name IS 'Display name of the author when the comment was written';
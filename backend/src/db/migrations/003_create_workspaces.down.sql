@@ -0,0 +1,8 @@
+-- Migration: Create workspaces and scope threads to them (down)
+-- Version: 003
+-- Description: Drop workspaces; threads are kept without a workspace
+
+DROP INDEX IF EXISTS idx_threads_workspace_file;
+ALTER TABLE threads DROP COLUMN IF EXISTS workspace_id;
+DROP TABLE IF EXISTS workspace_members;
+DROP TABLE IF EXISTS workspaces;
@@ -0,0 +1,33 @@
+-- Migration: Create workspaces and scope threads to them
+-- Version: 003
+-- Description: Workspaces with members; every thread belongs to one workspace
+
+-- Create workspaces table
+CREATE TABLE IF NOT EXISTS workspaces (
+    id UUID PRIMARY KEY,
+    name VARCHAR(200) NOT NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+);
+
+-- Create workspace members table
+CREATE TABLE IF NOT EXISTS workspace_members (
+    workspace_id UUID NOT NULL REFERENCES workspaces(id) ON DELETE CASCADE,
+    user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    role VARCHAR(20) NOT NULL DEFAULT 'member' CHECK (role IN ('owner', 'member')),
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    PRIMARY KEY (workspace_id, user_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_workspace_members_user_id ON workspace_members(user_id);
+
+-- Scope threads to a workspace
+-- Threads created before workspaces have no workspace and are not visible until assigned one
+ALTER TABLE threads ADD COLUMN IF NOT EXISTS workspace_id UUID REFERENCES workspaces(id) ON DELETE CASCADE;
+
+CREATE INDEX IF NOT EXISTS idx_threads_workspace_file ON threads(workspace_id, file);
+
+-- Comments for documentation
+COMMENT ON TABLE workspaces IS 'Workspaces that scope threads, e.g. one per team or project';
+COMMENT ON TABLE workspace_members IS 'Users who can see and change the threads of a workspace';
+COMMENT ON COLUMN workspace_members.role IS 'owner: can manage members, member: can review';
+COMMENT ON COLUMN threads.workspace_id IS 'Workspace the thread belongs to';
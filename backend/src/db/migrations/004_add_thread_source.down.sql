@@ -0,0 +1,7 @@
+-- Migration: Record the repository version threads were created on (down)
+-- Version: 004
+-- Description: Drop the repository, commit and path of threads
+
+ALTER TABLE threads DROP COLUMN IF EXISTS path;
+ALTER TABLE threads DROP COLUMN IF EXISTS commit_sha;
+ALTER TABLE threads DROP COLUMN IF EXISTS repository;
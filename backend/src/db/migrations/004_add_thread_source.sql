@@ -0,0 +1,12 @@
+-- Migration: Record the repository version threads were created on
+-- Version: 004
+-- Description: Threads on files imported from git keep the repository, commit and path
+
+ALTER TABLE threads ADD COLUMN IF NOT EXISTS repository VARCHAR(500);
+ALTER TABLE threads ADD COLUMN IF NOT EXISTS commit_sha VARCHAR(64);
+ALTER TABLE threads ADD COLUMN IF NOT EXISTS path VARCHAR(1000);
+
+-- Comments for documentation
+COMMENT ON COLUMN threads.repository IS 'Repository the file came from, null for files not imported from git';
+COMMENT ON COLUMN threads.commit_sha IS 'Commit the thread was created on; HEAD for files read from a working tree';
+COMMENT ON COLUMN threads.path IS 'Path of the file in the repository';
@@ -0,0 +1,7 @@
+-- Migration: Attach threads to a side of a diff (down)
+-- Version: 005
+-- Description: Drop the diff side and revisions of threads
+
+ALTER TABLE threads DROP COLUMN IF EXISTS head_revision;
+ALTER TABLE threads DROP COLUMN IF EXISTS base_revision;
+ALTER TABLE threads DROP COLUMN IF EXISTS side;
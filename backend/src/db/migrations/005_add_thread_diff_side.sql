@@ -0,0 +1,12 @@
+-- Migration: Attach threads to a side of a diff
+-- Version: 005
+-- Description: Threads on a diff between two revisions keep the side they are on and the revisions compared
+
+ALTER TABLE threads ADD COLUMN IF NOT EXISTS side VARCHAR(3) CHECK (side IN ('old', 'new'));
+ALTER TABLE threads ADD COLUMN IF NOT EXISTS base_revision VARCHAR(200);
+ALTER TABLE threads ADD COLUMN IF NOT EXISTS head_revision VARCHAR(200);
+
+-- Comments for documentation
+COMMENT ON COLUMN threads.side IS 'Side of the diff the thread lines are on: old (base) or new (head); null for threads on a file';
+COMMENT ON COLUMN threads.base_revision IS 'Base revision of the diff: a commit, ref or label of an upload';
+COMMENT ON COLUMN threads.head_revision IS 'Head revision of the diff: a commit, ref or label of an upload';
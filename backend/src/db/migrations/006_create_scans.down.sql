@@ -0,0 +1,6 @@
+-- Migration: Create scan runs and their issues (down)
+-- Version: 006
+-- Description: Drop scan runs and their issues
+
+DROP TABLE IF EXISTS scan_issues;
+DROP TABLE IF EXISTS scan_runs;
@@ -0,0 +1,42 @@
+-- Migration: Create scan runs and their issues
+-- Version: 006
+-- Description: Keep every AI scan of a file, so rescans can tell new issues from ones that are still present or fixed
+
+-- Create scan runs table
+CREATE TABLE IF NOT EXISTS scan_runs (
+    id UUID PRIMARY KEY,
+    workspace_id UUID NOT NULL REFERENCES workspaces(id) ON DELETE CASCADE,
+    file VARCHAR(1000) NOT NULL,
+    provider VARCHAR(50) NOT NULL,
+    model VARCHAR(200) NOT NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS idx_scan_runs_workspace_file ON scan_runs(workspace_id, file, created_at DESC);
+
+-- Create scan issues table
+-- thread_id has no foreign key: threads are created by clients and may not be synced yet
+CREATE TABLE IF NOT EXISTS scan_issues (
+    id UUID PRIMARY KEY,
+    run_id UUID NOT NULL REFERENCES scan_runs(id) ON DELETE CASCADE,
+    position INTEGER NOT NULL,
+    fingerprint VARCHAR(64) NOT NULL,
+    start_line INTEGER NOT NULL,
+    end_line INTEGER NOT NULL,
+    severity VARCHAR(10) NOT NULL CHECK (severity IN ('error', 'warning', 'info')),
+    category VARCHAR(20) NOT NULL,
+    message TEXT NOT NULL,
+    fix TEXT NOT NULL,
+    diff TEXT,
+    status VARCHAR(10) NOT NULL CHECK (status IN ('new', 'present', 'fixed')),
+    thread_id UUID
+);
+
+CREATE INDEX IF NOT EXISTS idx_scan_issues_run_id ON scan_issues(run_id);
+
+-- Comments for documentation
+COMMENT ON TABLE scan_runs IS 'AI scans of a file, one row per scan';
+COMMENT ON TABLE scan_issues IS 'Issues found by a scan, and issues of the previous scan it no longer finds';
+COMMENT ON COLUMN scan_issues.fingerprint IS 'Hash of the issue category and its normalized code, stable across scans';
+COMMENT ON COLUMN scan_issues.status IS 'new: not found by the previous scan, present: found before, fixed: found before but not now';
+COMMENT ON COLUMN scan_issues.thread_id IS 'Thread the issue was turned into';
@@ -0,0 +1,6 @@
+-- Migration: Create the code search index (down)
+-- Version: 007
+-- Description: Drop the code search index; the vector extension is left installed
+
+DROP TABLE IF EXISTS code_chunks;
+DROP TABLE IF EXISTS indexed_files;
@@ -0,0 +1,40 @@
+-- Migration: Create the code search index
+-- Version: 007
+-- Description: Store files of a workspace split into chunks with their embeddings, for semantic code search
+
+-- pgvector stores the embeddings and compares them
+CREATE EXTENSION IF NOT EXISTS vector;
+
+-- Create indexed files table
+CREATE TABLE IF NOT EXISTS indexed_files (
+    id UUID PRIMARY KEY,
+    workspace_id UUID NOT NULL REFERENCES workspaces(id) ON DELETE CASCADE,
+    file VARCHAR(1000) NOT NULL,
+    language VARCHAR(50) NOT NULL,
+    content_hash VARCHAR(64) NOT NULL,
+    embedder VARCHAR(200) NOT NULL,
+    indexed_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    UNIQUE (workspace_id, file)
+);
+
+-- Create code chunks table
+-- The embedding has no fixed dimensions, as they depend on the embedder; searches are exact
+-- scans of a workspace's chunks rather than approximate index lookups
+CREATE TABLE IF NOT EXISTS code_chunks (
+    id UUID PRIMARY KEY,
+    indexed_file_id UUID NOT NULL REFERENCES indexed_files(id) ON DELETE CASCADE,
+    start_line INTEGER NOT NULL,
+    end_line INTEGER NOT NULL,
+    symbol VARCHAR(500),
+    content TEXT NOT NULL,
+    embedding vector NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_code_chunks_indexed_file_id ON code_chunks(indexed_file_id);
+
+-- Comments for documentation
+COMMENT ON TABLE indexed_files IS 'Files of a workspace in the code search index';
+COMMENT ON COLUMN indexed_files.content_hash IS 'SHA-256 of the indexed content, unchanged files are not indexed again';
+COMMENT ON COLUMN indexed_files.embedder IS 'Embedding provider and model of the chunks; only chunks of the same embedder are compared';
+COMMENT ON TABLE code_chunks IS 'Functions, classes and windows of other code of an indexed file';
+COMMENT ON COLUMN code_chunks.embedding IS 'Normalized embedding of the chunk, compared by cosine distance';
@@ -0,0 +1,6 @@
+-- Migration: Create team review rules (down)
+-- Version: 008
+-- Description: Drop team review rules and the rule of scan issues
+
+ALTER TABLE scan_issues DROP COLUMN IF EXISTS rule_id;
+DROP TABLE IF EXISTS review_rules;
@@ -0,0 +1,22 @@
+-- Migration: Create team review rules
+-- Version: 008
+-- Description: Store the rules each workspace's reviews and scans enforce, and the rule scan issues break
+
+-- Create review rules table
+CREATE TABLE IF NOT EXISTS review_rules (
+    workspace_id UUID NOT NULL REFERENCES workspaces(id) ON DELETE CASCADE,
+    rule_id VARCHAR(64) NOT NULL,
+    description TEXT NOT NULL,
+    severity VARCHAR(10) NOT NULL CHECK (severity IN ('error', 'warning', 'info')),
+    example TEXT,
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    PRIMARY KEY (workspace_id, rule_id)
+);
+
+ALTER TABLE scan_issues ADD COLUMN IF NOT EXISTS rule_id VARCHAR(64);
+
+-- Comments for documentation
+COMMENT ON TABLE review_rules IS 'Team rules compiled into the system prompt of a workspace''s reviews and scans';
+COMMENT ON COLUMN review_rules.rule_id IS 'Identifier findings cite, unique within the workspace';
+COMMENT ON COLUMN review_rules.example IS 'Optional code showing what the rule forbids or asks for';
+COMMENT ON COLUMN scan_issues.rule_id IS 'Team rule the issue breaks; not a foreign key, so issues keep it after the rule is removed';
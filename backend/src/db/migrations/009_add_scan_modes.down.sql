@@ -0,0 +1,9 @@
+-- Migration: Add review modes to scans (down)
+-- Version: 009
+-- Description: Drop the review mode of scans and the mode fields of their issues
+
+DROP INDEX IF EXISTS idx_scan_runs_workspace_file;
+CREATE INDEX IF NOT EXISTS idx_scan_runs_workspace_file ON scan_runs(workspace_id, file, created_at DESC);
+
+ALTER TABLE scan_issues DROP COLUMN IF EXISTS mode_fields;
+ALTER TABLE scan_runs DROP COLUMN IF EXISTS mode;
@@ -0,0 +1,13 @@
+-- Migration: Add review modes to scans
+-- Version: 009
+-- Description: Scans keep the review mode they ran in, and their issues the output fields of that mode
+
+ALTER TABLE scan_runs ADD COLUMN IF NOT EXISTS mode VARCHAR(20) NOT NULL DEFAULT 'general';
+ALTER TABLE scan_issues ADD COLUMN IF NOT EXISTS mode_fields JSONB;
+
+DROP INDEX IF EXISTS idx_scan_runs_workspace_file;
+CREATE INDEX IF NOT EXISTS idx_scan_runs_workspace_file ON scan_runs(workspace_id, file, mode, created_at DESC);
+
+-- Comments for documentation
+COMMENT ON COLUMN scan_runs.mode IS 'Review mode of the scan, such as security or performance; rescans are compared with the previous scan in the same mode';
+COMMENT ON COLUMN scan_issues.mode_fields IS 'Output fields of the scan''s mode, such as cwe or complexityImpact; null when there are none';
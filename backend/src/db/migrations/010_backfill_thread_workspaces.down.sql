@@ -0,0 +1,13 @@
+-- Migration: Give threads created before workspaces a workspace (down)
+-- Version: 010
+-- Description: Threads of the Shared threads workspace lose their workspace again, and the workspace is dropped
+
+ALTER TABLE threads ALTER COLUMN workspace_id DROP NOT NULL;
+
+ALTER TABLE threads DISABLE TRIGGER update_threads_updated_at;
+UPDATE threads SET workspace_id = NULL WHERE workspace_id = '00000000-0000-4000-8000-000000000001';
+ALTER TABLE threads ENABLE TRIGGER update_threads_updated_at;
+
+DELETE FROM workspaces WHERE id = '00000000-0000-4000-8000-000000000001';
+
+COMMENT ON COLUMN threads.workspace_id IS 'Workspace the thread belongs to';
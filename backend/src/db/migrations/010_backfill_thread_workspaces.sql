@@ -0,0 +1,31 @@
+-- Migration: Give threads created before workspaces a workspace
+-- Version: 010
+-- Description: Threads without a workspace move to a "Shared threads" workspace that every existing user joins
+
+-- Before workspaces every signed-in user saw every thread, so every existing user joins the
+-- workspace and the oldest one owns it. Without users it starts without members: the first
+-- account registered afterwards becomes its owner
+INSERT INTO workspaces (id, name)
+SELECT '00000000-0000-4000-8000-000000000001', 'Shared threads'
+WHERE EXISTS (SELECT 1 FROM threads WHERE workspace_id IS NULL)
+ON CONFLICT (id) DO NOTHING;
+
+INSERT INTO workspace_members (workspace_id, user_id, role)
+SELECT
+    '00000000-0000-4000-8000-000000000001',
+    id,
+    CASE WHEN ROW_NUMBER() OVER (ORDER BY created_at, id) = 1 THEN 'owner' ELSE 'member' END
+FROM users
+WHERE EXISTS (SELECT 1 FROM workspaces WHERE id = '00000000-0000-4000-8000-000000000001')
+ON CONFLICT (workspace_id, user_id) DO NOTHING;
+
+-- Moving a thread is not a change to it, so updated_at is kept
+ALTER TABLE threads DISABLE TRIGGER update_threads_updated_at;
+UPDATE threads SET workspace_id = '00000000-0000-4000-8000-000000000001' WHERE workspace_id IS NULL;
+ALTER TABLE threads ENABLE TRIGGER update_threads_updated_at;
+
+-- Every thread belongs to a workspace from now on
+ALTER TABLE threads ALTER COLUMN workspace_id SET NOT NULL;
+
+-- Comments for documentation
+COMMENT ON COLUMN threads.workspace_id IS 'Workspace the thread belongs to; threads created before workspaces are in the Shared threads workspace';
@@ -0,0 +1,5 @@
+-- Migration: Record applied suggestions (down)
+-- Version: 011
+-- Description: Drop when suggestions of comments were applied
+
+ALTER TABLE comments DROP COLUMN IF EXISTS applied_at;
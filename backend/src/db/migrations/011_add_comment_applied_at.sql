@@ -0,0 +1,8 @@
+-- Migration: Record applied suggestions
+-- Version: 011
+-- Description: Comments with a suggested diff keep when the suggestion was applied, so every client of a workspace sees it
+
+ALTER TABLE comments ADD COLUMN IF NOT EXISTS applied_at TIMESTAMP WITH TIME ZONE;
+
+-- Comments for documentation
+COMMENT ON COLUMN comments.applied_at IS 'When the suggested diff of the comment was applied; null when it was not';
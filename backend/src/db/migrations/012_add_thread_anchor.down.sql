@@ -0,0 +1,6 @@
+-- Migration: Keep threads on their code after edits (down)
+-- Version: 012
+-- Description: Drop the anchor and outdated state of threads
+
+ALTER TABLE threads DROP COLUMN IF EXISTS outdated;
+ALTER TABLE threads DROP COLUMN IF EXISTS anchor;
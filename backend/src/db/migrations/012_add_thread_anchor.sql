@@ -0,0 +1,10 @@
+-- Migration: Keep threads on their code after edits
+-- Version: 012
+-- Description: Threads keep the code they were created on, so every client can follow them through edits, and whether that code was lost
+
+ALTER TABLE threads ADD COLUMN IF NOT EXISTS anchor JSONB;
+ALTER TABLE threads ADD COLUMN IF NOT EXISTS outdated BOOLEAN NOT NULL DEFAULT FALSE;
+
+-- Comments for documentation
+COMMENT ON COLUMN threads.anchor IS 'Lines of the thread and the lines around them when it was created (lines, contextBefore, contextAfter); null when unknown';
+COMMENT ON COLUMN threads.outdated IS 'The code of the thread could not be found after an edit; start_line and end_line are where it last was';
@@ -0,0 +1,11 @@
+-- Migration: Create the code search index on servers without pgvector (down)
+-- Version: 013
+-- Description: Drop the code search index, unless 007_create_search_index created it
+
+DO $$
+BEGIN
+    IF NOT EXISTS (SELECT 1 FROM schema_migrations WHERE version = 7) THEN
+        DROP TABLE IF EXISTS code_chunks;
+        DROP TABLE IF EXISTS indexed_files;
+    END IF;
+END $$;
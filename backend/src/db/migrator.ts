@@ -0,0 +1,246 @@
+import { createHash } from 'crypto';
+import { existsSync, readFileSync, readdirSync } from 'fs';
+import { join, dirname } from 'path';
+import { fileURLToPath } from 'url';
+import { query, transaction } from './connection.js';
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = dirname(__filename);
+
+export const MIGRATIONS_DIR = join(__dirname, 'migrations');
+
+// `001_create_threads.sql` runs on the way up, `001_create_threads.down.sql` reverts it
+const MIGRATION_FILE = /^(\d+)_[\w-]+\.sql$/;
+const DOWN_SUFFIX = '.down.sql';
+
+/**
+ * Extensions the app works without: migrations creating them are skipped on servers that
+ * do not have them, and run once they are installed
+ */
+const OPTIONAL_EXTENSIONS = ['vector'];
+const CREATE_EXTENSION = /CREATE\s+EXTENSION\s+(?:IF\s+NOT\s+EXISTS\s+)?"?(\w+)"?/gi;
+
+/**
+ * A migration file and its optional down script
+ */
+export interface Migration {
+  version: number;
+  /** File name without `.sql`, e.g. `001_create_threads` */
+  name: string;
+  up: string;
+  down: string | null;
+  checksum: string;
+}
+
+/**
+ * State of a migration, compared with the schema_migrations table
+ * `changed`: applied, but the file no longer matches the checksum recorded then
+ * `missing`: applied, but the file is gone
+ */
+export type MigrationState = 'applied' | 'pending' | 'changed' | 'missing';
+
+export interface MigrationStatus {
+  version: number;
+  name: string;
+  state: MigrationState;
+  appliedAt: Date | null;
+}
+
+interface AppliedMigrationRow {
+  version: number;
+  name: string;
+  checksum: string;
+  applied_at: Date;
+}
+
+/**
+ * SHA-256 of a migration, ignoring line ending differences between checkouts
+ */
+export function checksum(sql: string): string {
+  return createHash('sha256').update(sql.replace(/\r\n/g, '\n')).digest('hex');
+}
+
+/**
+ * Read the numbered migrations of a directory, ordered by version
+ */
+export function loadMigrations(dir: string = MIGRATIONS_DIR): Migration[] {
+  const migrations: Migration[] = [];
+
+  for (const file of readdirSync(dir).sort()) {
+    const match = MIGRATION_FILE.exec(file);
+    if (!match) {
+      continue;
+    }
+
+    const version = parseInt(match[1], 10);
+    const name = file.slice(0, -'.sql'.length);
+    const duplicate = migrations.find(m => m.version === version);
+    if (duplicate) {
+      throw new Error(`Migrations ${duplicate.name} and ${name} have the same version`);
+    }
+
+    const up = readFileSync(join(dir, file), 'utf-8');
+    const downPath = join(dir, `${name}${DOWN_SUFFIX}`);
+    migrations.push({
+      version,
+      name,
+      up,
+      down: existsSync(downPath) ? readFileSync(downPath, 'utf-8') : null,
+      checksum: checksum(up),
+    });
+  }
+
+  return migrations.sort((a, b) => a.version - b.version);
+}
+
+async function getAppliedMigrations(): Promise<AppliedMigrationRow[]> {
+  await query(`
+    CREATE TABLE IF NOT EXISTS schema_migrations (
+      version INTEGER PRIMARY KEY,
+      name VARCHAR(255) NOT NULL,
+      checksum CHAR(64) NOT NULL,
+      applied_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+    )
+  `);
+  const result = await query<AppliedMigrationRow>(
+    'SELECT version, name, checksum, applied_at FROM schema_migrations ORDER BY version'
+  );
+  return result.rows;
+}
+
+/**
+ * Compare the migration files with the applied migrations
+ */
+export async function getMigrationStatus(
+  migrations: Migration[] = loadMigrations()
+): Promise<MigrationStatus[]> {
+  const applied = new Map((await getAppliedMigrations()).map(row => [row.version, row]));
+
+  const statuses: MigrationStatus[] = migrations.map(migration => {
+    const row = applied.get(migration.version);
+    applied.delete(migration.version);
+    if (!row) {
+      return { version: migration.version, name: migration.name, state: 'pending', appliedAt: null };
+    }
+    return {
+      version: migration.version,
+      name: migration.name,
+      state: row.checksum === migration.checksum ? 'applied' : 'changed',
+      appliedAt: row.applied_at,
+    };
+  });
+
+  for (const row of applied.values()) {
+    statuses.push({ version: row.version, name: row.name, state: 'missing', appliedAt: row.applied_at });
+  }
+
+  return statuses.sort((a, b) => a.version - b.version);
+}
+
+/**
+ * Optional extensions a migration creates that the server does not have
+ */
+async function getMissingExtensions(migration: Migration): Promise<string[]> {
+  const wanted = [...migration.up.matchAll(CREATE_EXTENSION)]
+    .map(match => match[1].toLowerCase())
+    .filter(name => OPTIONAL_EXTENSIONS.includes(name));
+  if (wanted.length === 0) {
+    return [];
+  }
+
+  const result = await query<{ name: string }>(
+    'SELECT name FROM pg_available_extensions WHERE name = ANY($1)',
+    [wanted]
+  );
+  const available = new Set(result.rows.map(row => row.name));
+  return wanted.filter(name => !available.has(name));
+}
+
+/**
+ * Refuse to migrate when applied migrations were edited or deleted
+ * The database no longer matches the files, so running more SQL could make it worse
+ */
+function assertNoDrift(statuses: MigrationStatus[]): void {
+  const changed = statuses.filter(s => s.state === 'changed').map(s => s.name);
+  const missing = statuses.filter(s => s.state === 'missing').map(s => s.name);
+
+  const problems: string[] = [];
+  if (changed.length > 0) {
+    problems.push(`changed since they were applied: ${changed.join(', ')}`);
+  }
+  if (missing.length > 0) {
+    problems.push(`applied but missing: ${missing.join(', ')}`);
+  }
+  if (problems.length > 0) {
+    throw new Error(
+      `Migration files do not match the database (${problems.join('; ')}). ` +
+        'Restore the original files and put schema changes in a new migration'
+    );
+  }
+}
+
+/**
+ * Apply pending migrations in version order, each in its own transaction
+ * Migrations needing an optional extension the server does not have stay pending.
+ * Returns the applied migrations
+ */
+export async function migrateUp(migrations: Migration[] = loadMigrations()): Promise<Migration[]> {
+  const statuses = await getMigrationStatus(migrations);
+  assertNoDrift(statuses);
+
+  const pending = new Set(statuses.filter(s => s.state === 'pending').map(s => s.version));
+  const applied: Migration[] = [];
+
+  for (const migration of migrations.filter(m => pending.has(m.version))) {
+    const missing = await getMissingExtensions(migration);
+    if (missing.length > 0) {
+      console.warn(`Skipped ${migration.name}: the ${missing.join(', ')} extension is not available`);
+      continue;
+    }
+
+    await transaction(async (client) => {
+      await client.query(migration.up);
+      await client.query(
+        'INSERT INTO schema_migrations (version, name, checksum) VALUES ($1, $2, $3)',
+        [migration.version, migration.name, migration.checksum]
+      );
+    });
+    applied.push(migration);
+  }
+
+  return applied;
+}
+
+/**
+ * Revert the last `steps` applied migrations with their down scripts, newest first
+ * Returns the reverted migrations
+ */
+export async function migrateDown(
+  steps: number = 1,
+  migrations: Migration[] = loadMigrations()
+): Promise<Migration[]> {
+  const statuses = await getMigrationStatus(migrations);
+  assertNoDrift(statuses);
+
+  const toRevert = statuses
+    .filter(s => s.state === 'applied')
+    .slice(-steps)
+    .reverse()
+    .map(s => migrations.find(m => m.version === s.version)!);
+
+  const withoutDown = toRevert.filter(m => m.down === null).map(m => m.name);
+  if (withoutDown.length > 0) {
+    throw new Error(`No down script for ${withoutDown.join(', ')}`);
+  }
+
+  const reverted: Migration[] = [];
+  for (const migration of toRevert) {
+    await transaction(async (client) => {
+      await client.query(migration.down!);
+      await client.query('DELETE FROM schema_migrations WHERE version = $1', [migration.version]);
+    });
+    reverted.push(migration);
+  }
+
+  return reverted;
+}
@@ -0,0 +1,45 @@
+import { Request, Response, NextFunction } from 'express';
+import * as UserModel from '../models/User.js';
+import { createError, asyncHandler } from './errorHandler.js';
+
+declare module 'express-serve-static-core' {
+  interface Request {
+    /** Signed-in user, set by requireAuth */
+    user?: UserModel.User;
+    /** Token the request was authenticated with, set by requireAuth */
+    authToken?: UserModel.AuthToken;
+  }
+}
+
+/**
+ * Read the token from an `Authorization: Bearer <token>` header
+ */
+export function getBearerToken(req: Request): string | null {
+  const header = req.headers.authorization;
+  if (!header) {
+    return null;
+  }
+
+  const match = /^Bearer\s+(\S+)\s*$/i.exec(header);
+  return match ? match[1] : null;
+}
+
+/**
+ * Reject requests without a valid bearer token
+ * Sets req.user and req.authToken for the handlers that follow
+ */
+export const requireAuth = asyncHandler(async (req: Request, _res: Response, next: NextFunction) => {
+  const token = getBearerToken(req);
+  if (!token) {
+    throw createError('Authentication required', 401);
+  }
+
+  const result = await UserModel.getUserByToken(token);
+  if (!result) {
+    throw createError('Invalid or expired token', 401);
+  }
+
+  req.user = result.user;
+  req.authToken = result.authToken;
+  next();
+});
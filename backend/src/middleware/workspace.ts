@@ -0,0 +1,57 @@
+import { Request, Response, NextFunction } from 'express';
+import * as WorkspaceModel from '../models/Workspace.js';
+import { createError, asyncHandler } from './errorHandler.js';
+
+declare module 'express-serve-static-core' {
+  interface Request {
+    /** Workspace the request is scoped to, set by requireWorkspace and loadWorkspace */
+    workspace?: WorkspaceModel.Workspace;
+  }
+}
+
+/** Header that selects the workspace of a request */
+export const WORKSPACE_HEADER = 'X-Workspace-Id';
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+/**
+ * Load the workspace named by the header into req.workspace
+ * Workspaces the user is not a member of are reported as not found
+ */
+async function resolveWorkspace(req: Request, required: boolean): Promise<void> {
+  const id = req.get(WORKSPACE_HEADER);
+  if (!id) {
+    if (required) {
+      throw createError(`Workspace is required (${WORKSPACE_HEADER} header)`, 400);
+    }
+    return;
+  }
+
+  if (!UUID_PATTERN.test(id)) {
+    throw createError('Invalid workspace ID', 400);
+  }
+
+  const workspace = await WorkspaceModel.getWorkspaceForUser(id, req.user!.id);
+  if (!workspace) {
+    throw createError('Workspace not found', 404);
+  }
+
+  req.workspace = workspace;
+}
+
+/**
+ * Reject requests without a workspace the user is a member of
+ * Must run after requireAuth
+ */
+export const requireWorkspace = asyncHandler(async (req: Request, _res: Response, next: NextFunction) => {
+  await resolveWorkspace(req, true);
+  next();
+});
+
+/**
+ * Like requireWorkspace, for routes that also work without a workspace
+ */
+export const loadWorkspace = asyncHandler(async (req: Request, _res: Response, next: NextFunction) => {
+  await resolveWorkspace(req, false);
+  next();
+});
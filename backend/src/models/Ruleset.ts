@@ -0,0 +1,59 @@
+import { getRepositories } from '../repositories/index.js';
+import type { ReviewRule, ScanSeverity } from '../services/ai/types.js';
+
+/**
+ * A team rule of a workspace, compiled into the prompts of its reviews and scans
+ */
+export interface StoredReviewRule extends ReviewRule {
+  example: string | null;
+  updatedAt: Date;
+}
+
+export interface ReviewRuleInput {
+  id: string;
+  description: string;
+  severity: ScanSeverity;
+  example?: string | null;
+}
+
+/** Rules a workspace can have; every rule is sent with every review */
+export const MAX_RULES = 100;
+
+/**
+ * Rule IDs are short and URL-safe, such as `no-moment` or `TS.001`
+ */
+export const RULE_ID_PATTERN = /^[A-Za-z0-9][A-Za-z0-9_.-]{0,63}$/;
+
+/**
+ * Get the rules of a workspace, ordered by ID
+ */
+export async function getRules(workspaceId: string): Promise<StoredReviewRule[]> {
+  return getRepositories().rules.getRules(workspaceId);
+}
+
+/**
+ * Replace all the rules of a workspace
+ */
+export async function replaceRules(workspaceId: string, rules: ReviewRuleInput[]): Promise<StoredReviewRule[]> {
+  return getRepositories().rules.replaceRules(
+    workspaceId,
+    rules.map(rule => ({ ...rule, example: rule.example || null }))
+  );
+}
+
+/**
+ * Add a rule to a workspace, or update the rule with its ID
+ */
+export async function saveRule(
+  workspaceId: string,
+  rule: ReviewRuleInput
+): Promise<{ rule: StoredReviewRule; created: boolean }> {
+  return getRepositories().rules.saveRule(workspaceId, { ...rule, example: rule.example || null });
+}
+
+/**
+ * Remove a rule from a workspace, returning whether it existed
+ */
+export async function deleteRule(workspaceId: string, ruleId: string): Promise<boolean> {
+  return getRepositories().rules.deleteRule(workspaceId, ruleId);
+}
@@ -0,0 +1,158 @@
+import { getRepositories } from '../repositories/index.js';
+import type { NewScanIssue } from '../repositories/types.js';
+import type { ScanIssue, ScanSeverity, ScanCategory, ReviewMode, ReviewModeFields } from '../services/ai/types.js';
+import { pickModeFields } from '@ai-code-review/shared';
+import { fingerprintIssues } from '../utils/fingerprint.js';
+
+/**
+ * Where an issue stands compared to the previous scan of its file:
+ * `new` issues were not found before, `present` ones were, and `fixed` ones
+ * were found by the previous scan but not by this one
+ */
+export type ScanIssueStatus = 'new' | 'present' | 'fixed';
+
+/**
+ * An issue of a scan run, with the output fields of the run's mode
+ */
+export interface StoredScanIssue extends ReviewModeFields {
+  id: string;
+  runId: string;
+  /** Stable across scans of the file, see utils/fingerprint */
+  fingerprint: string;
+  startLine: number;
+  endLine: number;
+  severity: ScanSeverity;
+  category: ScanCategory;
+  message: string;
+  fix: string;
+  diff: string | null;
+  /** Team rule the issue breaks, if it breaks one */
+  ruleId: string | null;
+  status: ScanIssueStatus;
+  /** Thread the issue was turned into, carried over while the issue is present */
+  threadId: string | null;
+}
+
+/**
+ * One scan of a file, with its issues and the issues it no longer finds
+ */
+export interface ScanRun {
+  id: string;
+  workspaceId: string;
+  file: string;
+  /** Review mode the file was scanned in */
+  mode: ReviewMode;
+  provider: string;
+  model: string;
+  createdAt: Date;
+  /** Ordered by line; fixed issues have the lines of the previous scan */
+  issues: StoredScanIssue[];
+}
+
+export interface RecordScanInput {
+  workspaceId: string;
+  file: string;
+  /** The scanned file content, used to fingerprint the issues */
+  code: string;
+  mode: ReviewMode;
+  provider: string;
+  model: string;
+  issues: ScanIssue[];
+}
+
+export interface ScanRunListOptions {
+  file?: string;
+  mode?: ReviewMode;
+  limit?: number;
+}
+
+/**
+ * Record a scan of a file and compare its issues with the previous scan of the file in the same mode
+ * Scans in other modes look for other issues, so not finding theirs again does not mean they are fixed
+ */
+export async function recordScan(input: RecordScanInput): Promise<ScanRun> {
+  const { scans } = getRepositories();
+  const [previous] = await scans.getScanRuns(input.workspaceId, { file: input.file, mode: input.mode, limit: 1 });
+  const open = new Map(
+    (previous?.issues ?? []).filter(issue => issue.status !== 'fixed').map(issue => [issue.fingerprint, issue])
+  );
+
+  const fingerprints = fingerprintIssues(
+    input.code,
+    input.issues.map(issue => ({ startLine: issue.startLine, endLine: issue.endLine, rule: issue.ruleId ?? issue.category }))
+  );
+
+  const issues: NewScanIssue[] = input.issues.map((issue, index) => {
+    const fingerprint = fingerprints[index];
+    const earlier = open.get(fingerprint);
+    open.delete(fingerprint);
+    return {
+      fingerprint,
+      startLine: issue.startLine,
+      endLine: issue.endLine,
+      severity: issue.severity,
+      category: issue.category,
+      message: issue.message,
+      fix: issue.fix,
+      diff: issue.diff ?? null,
+      ruleId: issue.ruleId ?? null,
+      ...pickModeFields(issue),
+      status: earlier ? 'present' : 'new',
+      threadId: earlier?.threadId ?? null,
+    };
+  });
+
+  // Issues of the previous scan that were not matched are fixed
+  for (const issue of open.values()) {
+    issues.push({
+      fingerprint: issue.fingerprint,
+      startLine: issue.startLine,
+      endLine: issue.endLine,
+      severity: issue.severity,
+      category: issue.category,
+      message: issue.message,
+      fix: issue.fix,
+      diff: issue.diff,
+      ruleId: issue.ruleId,
+      ...pickModeFields(issue),
+      status: 'fixed',
+      threadId: issue.threadId,
+    });
+  }
+
+  issues.sort((a, b) => a.startLine - b.startLine || a.endLine - b.endLine);
+
+  return scans.createScanRun({
+    workspaceId: input.workspaceId,
+    file: input.file,
+    mode: input.mode,
+    provider: input.provider,
+    model: input.model,
+    issues,
+  });
+}
+
+/**
+ * Get a scan run of a workspace by ID with its issues
+ */
+export async function getScanRunById(id: string, workspaceId: string): Promise<ScanRun | null> {
+  return getRepositories().scans.getScanRunById(id, workspaceId);
+}
+
+/**
+ * Get the scan runs of a workspace, newest first
+ */
+export async function getScanRuns(workspaceId: string, options?: ScanRunListOptions): Promise<ScanRun[]> {
+  return getRepositories().scans.getScanRuns(workspaceId, options);
+}
+
+/**
+ * Link an issue of a workspace to the thread it was turned into, or unlink it with null
+ */
+export async function setIssueThread(
+  issueId: string,
+  workspaceId: string,
+  threadId: string | null
+): Promise<StoredScanIssue | null> {
+  return getRepositories().scans.setIssueThread(issueId, workspaceId, threadId);
+}
@@ -0,0 +1,112 @@
+import { createHash } from 'crypto';
+import { getRepositories } from '../repositories/index.js';
+import { chunkFile, getEmbeddingProvider } from '../services/search/index.js';
+
+/**
+ * A file of a workspace whose chunks are in the search index
+ */
+export interface IndexedFile {
+  workspaceId: string;
+  file: string;
+  language: string;
+  /** SHA-256 of the indexed content, to skip indexing unchanged files */
+  contentHash: string;
+  /** Embedding provider the chunks were embedded with */
+  embedder: string;
+  chunkCount: number;
+  indexedAt: Date;
+}
+
+/**
+ * A chunk of an indexed file found by a search
+ */
+export interface CodeSearchResult {
+  file: string;
+  language: string;
+  startLine: number;
+  endLine: number;
+  /** Function or class the chunk is, if it is one */
+  symbol: string | null;
+  content: string;
+  /** Cosine similarity to the query, higher is closer */
+  score: number;
+}
+
+export interface IndexFileInput {
+  workspaceId: string;
+  file: string;
+  language: string;
+  content: string;
+}
+
+export interface CodeSearchOptions {
+  limit?: number;
+  /** Leave out chunks of this file, such as the file being reviewed */
+  excludeFile?: string;
+}
+
+/** Results of a search unless a limit is given */
+const DEFAULT_SEARCH_LIMIT = 10;
+
+/**
+ * Text embedded for a chunk: its file and symbol help queries that name them
+ */
+function chunkText(file: string, symbol: string | null, content: string): string {
+  return [file, symbol, content].filter(Boolean).join('\n');
+}
+
+/**
+ * Chunk, embed and store a file, replacing its earlier chunks
+ * Files whose content and embedder have not changed are left as they are
+ */
+export async function indexFile(input: IndexFileInput): Promise<{ file: IndexedFile; updated: boolean }> {
+  const { search } = getRepositories();
+  const embedder = getEmbeddingProvider();
+  const contentHash = createHash('sha256').update(input.content).digest('hex');
+
+  const existing = await search.getIndexedFile(input.workspaceId, input.file);
+  if (existing && existing.contentHash === contentHash && existing.embedder === embedder.id) {
+    return { file: existing, updated: false };
+  }
+
+  const chunks = await chunkFile(input.content, input.language, input.file);
+  const embeddings = await embedder.embed(chunks.map(chunk => chunkText(input.file, chunk.symbol, chunk.content)));
+
+  const file = await search.replaceIndexedFile({
+    workspaceId: input.workspaceId,
+    file: input.file,
+    language: input.language,
+    contentHash,
+    embedder: embedder.id,
+    chunks: chunks.map((chunk, i) => ({ ...chunk, embedding: embeddings[i] })),
+  });
+  return { file, updated: true };
+}
+
+/**
+ * Remove a file and its chunks from the index, returning whether it was indexed
+ */
+export async function removeFile(workspaceId: string, file: string): Promise<boolean> {
+  const { search } = getRepositories();
+  return search.deleteIndexedFile(workspaceId, file);
+}
+
+/**
+ * Find the chunks of the workspace's indexed files closest to a query, closest first
+ * Chunks that share nothing with the query are left out
+ */
+export async function searchCode(
+  workspaceId: string,
+  query: string,
+  options: CodeSearchOptions = {}
+): Promise<CodeSearchResult[]> {
+  const { search } = getRepositories();
+  const embedder = getEmbeddingProvider();
+  const [embedding] = await embedder.embed([query]);
+
+  const results = await search.searchChunks(workspaceId, embedder.id, embedding, {
+    limit: options.limit ?? DEFAULT_SEARCH_LIMIT,
+    excludeFile: options.excludeFile,
+  });
+  return results.filter(result => result.score > 0);
+}
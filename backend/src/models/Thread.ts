@@ -1,21 +1,64 @@
-import { query, transaction } from '../db/connection.js';
-import { v4 as uuidv4 } from 'uuid';
+import { getRepositories } from '../repositories/index.js';
 
 export interface Comment {
   id: string;
   threadId: string;
   author: 'user' | 'ai';
+  /** User who wrote the comment, null for AI comments */
+  authorId?: string | null;
+  /** Display name of the author when the comment was written */
+  authorName?: string | null;
   text: string;
   diff?: string | null;
+  /** When the suggested diff was applied, null when it was not */
+  appliedAt?: Date | null;
   createdAt: Date;
 }
 
+/**
+ * The version of a file in a git repository that a thread was created on
+ */
+export interface ThreadSource {
+  repository: string;
+  commitSha: string;
+  path: string;
+}
+
+/**
+ * Side of a diff a thread is on: the base (old) or the head (new) revision
+ */
+export type DiffSide = 'old' | 'new';
+
+/**
+ * The code a thread was created on, used to find it again after the file is edited
+ */
+export interface ThreadAnchor {
+  /** The full lines of the thread's range */
+  lines: string[];
+  /** Lines just above the range */
+  contextBefore: string[];
+  /** Lines just below the range */
+  contextAfter: string[];
+}
+
 export interface Thread {
   id: string;
+  workspaceId: string;
   file: string;
   startLine: number;
   endLine: number;
   selectedCode: string;
+  /** Null for threads on files that were not imported from git */
+  source: ThreadSource | null;
+  /** For threads on a diff, the side its lines are on; null for threads on a file */
+  side: DiffSide | null;
+  /** For threads on a diff, the revisions compared: commits, refs or labels of uploads */
+  baseRevision: string | null;
+  headRevision: string | null;
+  /** Null for threads created without the content of their file */
+  anchor: ThreadAnchor | null;
+  /** The code of the thread could not be found after an edit; the lines are where it last was */
+  outdated: boolean;
   resolved: boolean;
   createdAt: Date;
   updatedAt: Date;
@@ -23,271 +66,121 @@ export interface Thread {
 }
 
 export interface CreateThreadInput {
+  /** Client-generated ID, so a client can create threads while offline */
+  id?: string;
+  workspaceId: string;
   file: string;
   startLine: number;
   endLine: number;
   selectedCode: string;
+  source?: ThreadSource;
+  side?: DiffSide;
+  baseRevision?: string;
+  headRevision?: string;
+  anchor?: ThreadAnchor;
   initialComment?: string;
+  /** User who wrote the initial comment */
+  authorId?: string;
+  authorName?: string;
+}
+
+export interface ThreadListOptions {
+  file?: string;
+  resolved?: boolean;
+  limit?: number;
+  offset?: number;
 }
 
 export interface UpdateThreadInput {
   resolved?: boolean;
+  /** Where the thread moved after an edit of its file; given together */
+  startLine?: number;
+  endLine?: number;
+  outdated?: boolean;
 }
 
 export interface CreateCommentInput {
+  /** Client-generated ID, so a client can add comments while offline */
+  id?: string;
   threadId: string;
   author: 'user' | 'ai';
+  authorId?: string;
+  authorName?: string;
   text: string;
   diff?: string;
 }
 
-// Database row types
-interface ThreadRow {
-  id: string;
-  file: string;
-  start_line: number;
-  end_line: number;
-  selected_code: string;
-  resolved: boolean;
-  created_at: Date;
-  updated_at: Date;
-}
-
-interface CommentRow {
-  id: string;
-  thread_id: string;
-  author: 'user' | 'ai';
-  text: string;
-  diff: string | null;
-  created_at: Date;
-}
-
-/**
- * Convert database row to Thread object
- */
-function rowToThread(row: ThreadRow, comments: Comment[] = []): Thread {
-  return {
-    id: row.id,
-    file: row.file,
-    startLine: row.start_line,
-    endLine: row.end_line,
-    selectedCode: row.selected_code,
-    resolved: row.resolved,
-    createdAt: row.created_at,
-    updatedAt: row.updated_at,
-    comments,
-  };
-}
-
-/**
- * Convert database row to Comment object
- */
-function rowToComment(row: CommentRow): Comment {
-  return {
-    id: row.id,
-    threadId: row.thread_id,
-    author: row.author,
-    text: row.text,
-    diff: row.diff,
-    createdAt: row.created_at,
-  };
+export interface UpdateCommentInput {
+  /** Null marks the suggestion as not applied */
+  appliedAt: Date | null;
 }
 
 /**
  * Create a new thread
+ * Returns null when a thread with the given ID already exists
  */
-export async function createThread(input: CreateThreadInput): Promise<Thread> {
-  const id = uuidv4();
-  
-  return transaction(async (client) => {
-    // Insert thread
-    const threadResult = await client.query<ThreadRow>(
-      `INSERT INTO threads (id, file, start_line, end_line, selected_code)
-       VALUES ($1, $2, $3, $4, $5)
-       RETURNING *`,
-      [id, input.file, input.startLine, input.endLine, input.selectedCode]
-    );
-
-    const thread = rowToThread(threadResult.rows[0]);
-    const comments: Comment[] = [];
-
-    // Add initial comment if provided
-    if (input.initialComment) {
-      const commentId = uuidv4();
-      const commentResult = await client.query<CommentRow>(
-        `INSERT INTO comments (id, thread_id, author, text)
-         VALUES ($1, $2, $3, $4)
-         RETURNING *`,
-        [commentId, id, 'user', input.initialComment]
-      );
-      comments.push(rowToComment(commentResult.rows[0]));
-    }
-
-    return { ...thread, comments };
-  });
+export async function createThread(input: CreateThreadInput): Promise<Thread | null> {
+  return getRepositories().threads.createThread(input);
 }
 
 /**
- * Get a thread by ID with all comments
+ * Get a thread of a workspace by ID with all comments
  */
-export async function getThreadById(id: string): Promise<Thread | null> {
-  const threadResult = await query<ThreadRow>(
-    'SELECT * FROM threads WHERE id = $1',
-    [id]
-  );
-
-  if (threadResult.rows.length === 0) {
-    return null;
-  }
-
-  const commentsResult = await query<CommentRow>(
-    'SELECT * FROM comments WHERE thread_id = $1 ORDER BY created_at ASC',
-    [id]
-  );
-
-  const comments = commentsResult.rows.map(rowToComment);
-  return rowToThread(threadResult.rows[0], comments);
+export async function getThreadById(id: string, workspaceId: string): Promise<Thread | null> {
+  return getRepositories().threads.getThreadById(id, workspaceId);
 }
 
 /**
- * Get all threads with optional filtering
+ * Get the threads of a workspace with optional filtering
  */
-export async function getThreads(options?: {
-  file?: string;
-  resolved?: boolean;
-  limit?: number;
-  offset?: number;
-}): Promise<Thread[]> {
-  const conditions: string[] = [];
-  const params: unknown[] = [];
-  let paramIndex = 1;
-
-  if (options?.file) {
-    conditions.push(`file = $${paramIndex++}`);
-    params.push(options.file);
-  }
-
-  if (options?.resolved !== undefined) {
-    conditions.push(`resolved = $${paramIndex++}`);
-    params.push(options.resolved);
-  }
-
-  const whereClause = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
-  const limitClause = options?.limit ? `LIMIT $${paramIndex++}` : '';
-  const offsetClause = options?.offset ? `OFFSET $${paramIndex}` : '';
-
-  if (options?.limit) params.push(options.limit);
-  if (options?.offset) params.push(options.offset);
-
-  const threadResult = await query<ThreadRow>(
-    `SELECT * FROM threads ${whereClause} ORDER BY created_at DESC ${limitClause} ${offsetClause}`,
-    params
-  );
-
-  // Fetch comments for all threads
-  const threadIds = threadResult.rows.map(row => row.id);
-  
-  if (threadIds.length === 0) {
-    return [];
-  }
-
-  const commentsResult = await query<CommentRow>(
-    `SELECT * FROM comments WHERE thread_id = ANY($1) ORDER BY created_at ASC`,
-    [threadIds]
-  );
-
-  // Group comments by thread
-  const commentsByThread = new Map<string, Comment[]>();
-  commentsResult.rows.forEach(row => {
-    const comment = rowToComment(row);
-    const existing = commentsByThread.get(comment.threadId) || [];
-    existing.push(comment);
-    commentsByThread.set(comment.threadId, existing);
-  });
-
-  return threadResult.rows.map(row =>
-    rowToThread(row, commentsByThread.get(row.id) || [])
-  );
+export async function getThreads(workspaceId: string, options?: ThreadListOptions): Promise<Thread[]> {
+  return getRepositories().threads.getThreads(workspaceId, options);
 }
 
 /**
- * Update a thread
+ * Update a thread of a workspace
  */
 export async function updateThread(
   id: string,
+  workspaceId: string,
   input: UpdateThreadInput
 ): Promise<Thread | null> {
-  const updates: string[] = [];
-  const params: unknown[] = [];
-  let paramIndex = 1;
-
-  if (input.resolved !== undefined) {
-    updates.push(`resolved = $${paramIndex++}`);
-    params.push(input.resolved);
-  }
-
-  if (updates.length === 0) {
-    return getThreadById(id);
-  }
-
-  params.push(id);
-
-  const result = await query<ThreadRow>(
-    `UPDATE threads SET ${updates.join(', ')} WHERE id = $${paramIndex} RETURNING *`,
-    params
-  );
-
-  if (result.rows.length === 0) {
-    return null;
-  }
-
-  // Fetch comments
-  const commentsResult = await query<CommentRow>(
-    'SELECT * FROM comments WHERE thread_id = $1 ORDER BY created_at ASC',
-    [id]
-  );
-
-  return rowToThread(result.rows[0], commentsResult.rows.map(rowToComment));
+  return getRepositories().threads.updateThread(id, workspaceId, input);
 }
 
 /**
- * Delete a thread
+ * Delete a thread of a workspace
  */
-export async function deleteThread(id: string): Promise<boolean> {
-  const result = await query('DELETE FROM threads WHERE id = $1', [id]);
-  return (result.rowCount ?? 0) > 0;
+export async function deleteThread(id: string, workspaceId: string): Promise<boolean> {
+  return getRepositories().threads.deleteThread(id, workspaceId);
 }
 
 /**
  * Add a comment to a thread
+ * Adding a comment with the ID of an existing comment of the thread returns the existing
+ * comment, so clients can safely retry. Returns null when the ID is taken by a comment of
+ * another thread. Callers check the thread is in the caller's workspace
  */
-export async function addComment(input: CreateCommentInput): Promise<Comment> {
-  const id = uuidv4();
-
-  const result = await query<CommentRow>(
-    `INSERT INTO comments (id, thread_id, author, text, diff)
-     VALUES ($1, $2, $3, $4, $5)
-     RETURNING *`,
-    [id, input.threadId, input.author, input.text, input.diff || null]
-  );
-
-  // Update thread's updated_at
-  await query('UPDATE threads SET updated_at = CURRENT_TIMESTAMP WHERE id = $1', [
-    input.threadId,
-  ]);
-
-  return rowToComment(result.rows[0]);
+export async function addComment(input: CreateCommentInput): Promise<Comment | null> {
+  return getRepositories().threads.addComment(input);
 }
 
 /**
- * Get comments for a thread
+ * Update a comment of a thread
+ * Returns null when the thread has no such comment. Callers check the thread is in the
+ * caller's workspace
  */
-export async function getComments(threadId: string): Promise<Comment[]> {
-  const result = await query<CommentRow>(
-    'SELECT * FROM comments WHERE thread_id = $1 ORDER BY created_at ASC',
-    [threadId]
-  );
-
-  return result.rows.map(rowToComment);
+export async function updateComment(
+  id: string,
+  threadId: string,
+  input: UpdateCommentInput
+): Promise<Comment | null> {
+  return getRepositories().threads.updateComment(id, threadId, input);
 }
 
+/**
+ * Get comments for a thread of a workspace
+ */
+export async function getComments(threadId: string, workspaceId: string): Promise<Comment[]> {
+  return getRepositories().threads.getComments(threadId, workspaceId);
+}
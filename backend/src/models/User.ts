@@ -0,0 +1,129 @@
+import { getRepositories } from '../repositories/index.js';
+import { hashPassword, verifyPassword, generateToken, hashToken } from '../utils/credentials.js';
+
+export interface User {
+  id: string;
+  username: string;
+  displayName: string;
+  createdAt: Date;
+}
+
+/**
+ * `session` tokens come from logging in and expire; `api` tokens are created
+ * by the user for scripts and tools
+ */
+export type AuthTokenKind = 'session' | 'api';
+
+export interface AuthToken {
+  id: string;
+  userId: string;
+  kind: AuthTokenKind;
+  name: string | null;
+  createdAt: Date;
+  lastUsedAt: Date | null;
+  expiresAt: Date | null;
+}
+
+export interface CreateUserInput {
+  username: string;
+  password: string;
+  displayName?: string;
+}
+
+export interface CreateAuthTokenInput {
+  userId: string;
+  kind: AuthTokenKind;
+  name?: string;
+  expiresAt?: Date;
+}
+
+/**
+ * Usernames are case-insensitive
+ */
+function normalizeUsername(username: string): string {
+  return username.trim().toLowerCase();
+}
+
+/**
+ * Create a new user
+ * Returns null when the username is taken
+ */
+export async function createUser(input: CreateUserInput): Promise<User | null> {
+  return getRepositories().users.createUser({
+    username: normalizeUsername(input.username),
+    displayName: input.displayName?.trim() || input.username.trim(),
+    passwordHash: await hashPassword(input.password),
+  });
+}
+
+/**
+ * Get a user by ID
+ */
+export async function getUserById(id: string): Promise<User | null> {
+  return getRepositories().users.getUserById(id);
+}
+
+/**
+ * Get a user by username
+ */
+export async function getUserByUsername(username: string): Promise<User | null> {
+  return getRepositories().users.getUserByUsername(normalizeUsername(username));
+}
+
+/**
+ * Check a username and password
+ * Returns the user when they match, null otherwise
+ */
+export async function verifyCredentials(username: string, password: string): Promise<User | null> {
+  const found = await getRepositories().users.getPasswordHash(normalizeUsername(username));
+
+  if (!found) {
+    return null;
+  }
+
+  return (await verifyPassword(password, found.passwordHash)) ? found.user : null;
+}
+
+/**
+ * Create a bearer token for a user
+ * The token itself is only returned here; the database stores its hash
+ */
+export async function createAuthToken(
+  input: CreateAuthTokenInput
+): Promise<{ token: string; authToken: AuthToken }> {
+  const token = generateToken();
+
+  const authToken = await getRepositories().users.createAuthToken({
+    userId: input.userId,
+    tokenHash: hashToken(token),
+    kind: input.kind,
+    name: input.name || null,
+    expiresAt: input.expiresAt || null,
+  });
+
+  return { token, authToken };
+}
+
+/**
+ * Get the user a bearer token belongs to
+ * Returns null for unknown and expired tokens
+ */
+export async function getUserByToken(
+  token: string
+): Promise<{ user: User; authToken: AuthToken } | null> {
+  return getRepositories().users.useAuthToken(hashToken(token));
+}
+
+/**
+ * Get the tokens of a user, newest first
+ */
+export async function listAuthTokens(userId: string, kind?: AuthTokenKind): Promise<AuthToken[]> {
+  return getRepositories().users.listAuthTokens(userId, kind);
+}
+
+/**
+ * Delete a token of a user
+ */
+export async function deleteAuthToken(userId: string, id: string): Promise<boolean> {
+  return getRepositories().users.deleteAuthToken(userId, id);
+}
@@ -0,0 +1,90 @@
+import { getRepositories } from '../repositories/index.js';
+
+/**
+ * Owners can manage members; members can review
+ */
+export type WorkspaceRole = 'owner' | 'member';
+
+/**
+ * A workspace as seen by one of its members
+ */
+export interface Workspace {
+  id: string;
+  name: string;
+  /** Role of the user the workspace was loaded for */
+  role: WorkspaceRole;
+  createdAt: Date;
+}
+
+export interface WorkspaceMember {
+  userId: string;
+  username: string;
+  displayName: string;
+  role: WorkspaceRole;
+  joinedAt: Date;
+}
+
+/**
+ * Workspace that threads created before workspaces were moved to by migration 010
+ */
+export const SHARED_THREADS_WORKSPACE_ID = '00000000-0000-4000-8000-000000000001';
+
+export interface CreateWorkspaceInput {
+  name: string;
+  ownerId: string;
+}
+
+/**
+ * Create a workspace owned by a user
+ */
+export async function createWorkspace(input: CreateWorkspaceInput): Promise<Workspace> {
+  return getRepositories().workspaces.createWorkspace(input);
+}
+
+/**
+ * Get the workspaces a user is a member of, oldest first
+ */
+export async function getWorkspacesForUser(userId: string): Promise<Workspace[]> {
+  return getRepositories().workspaces.getWorkspacesForUser(userId);
+}
+
+/**
+ * Get a workspace if the user is a member of it
+ */
+export async function getWorkspaceForUser(id: string, userId: string): Promise<Workspace | null> {
+  return getRepositories().workspaces.getWorkspaceForUser(id, userId);
+}
+
+/**
+ * Get the members of a workspace, owners first
+ */
+export async function getMembers(workspaceId: string): Promise<WorkspaceMember[]> {
+  return getRepositories().workspaces.getMembers(workspaceId);
+}
+
+/**
+ * Add a user to a workspace
+ * Returns false when the user is already a member
+ */
+export async function addMember(
+  workspaceId: string,
+  userId: string,
+  role: WorkspaceRole = 'member'
+): Promise<boolean> {
+  return getRepositories().workspaces.addMember(workspaceId, userId, role);
+}
+
+/**
+ * Remove a user from a workspace
+ */
+export async function removeMember(workspaceId: string, userId: string): Promise<boolean> {
+  return getRepositories().workspaces.removeMember(workspaceId, userId);
+}
+
+/**
+ * Make a user the owner of a workspace that has no members
+ * Returns false when the workspace has members or does not exist
+ */
+export async function claimWorkspace(workspaceId: string, userId: string): Promise<boolean> {
+  return getRepositories().workspaces.claimWorkspace(workspaceId, userId);
+}
@@ -0,0 +1,94 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { createRepositories, setRepositories, Repositories } from '../../repositories/index.js';
+import type { ScanIssue, ReviewMode } from '../../services/ai/types.js';
+import { recordScan, setIssueThread } from '../Scan.js';
+
+const issue = (startLine: number, overrides: Partial<ScanIssue> = {}): ScanIssue => ({
+  startLine,
+  endLine: startLine,
+  severity: 'error',
+  category: 'bug',
+  message: `Issue on line ${startLine}`,
+  fix: 'Fix it',
+  ...overrides,
+});
+
+describe('Scan Model', () => {
+  let repos: Repositories;
+  let workspaceId: string;
+
+  beforeEach(async () => {
+    repos = createRepositories('memory');
+    setRepositories(repos);
+    const owner = await repos.users.createUser({ username: 'ada', displayName: 'Ada', passwordHash: 'hash' });
+    workspaceId = (await repos.workspaces.createWorkspace({ name: 'Team', ownerId: owner!.id })).id;
+  });
+
+  afterEach(() => {
+    setRepositories(null);
+  });
+
+  const scan = (code: string, issues: ScanIssue[], file = 'a.ts', mode: ReviewMode = 'general') =>
+    recordScan({ workspaceId, file, code, mode, provider: 'openai', model: 'gpt-4', issues });
+
+  it('marks every issue of a first scan as new', async () => {
+    const run = await scan('const a = 1;\nconst b = a / 0;', [issue(2)]);
+
+    expect(run.issues).toMatchObject([{ startLine: 2, status: 'new', threadId: null }]);
+    expect(run.issues[0].fingerprint).toMatch(/^[0-9a-f]{40}$/);
+  });
+
+  it('tells new, still present and fixed issues apart on a rescan', async () => {
+    await scan('const b = a / 0;\neval(input);', [issue(1), issue(2, { category: 'security' })]);
+
+    // The division moved down a line, eval was removed and a new issue appeared
+    const run = await scan('// divide\nconst b = a / 0;\nfetch(url);', [issue(2), issue(3, { category: 'performance' })]);
+
+    expect(run.issues.map(i => [i.startLine, i.category, i.status])).toEqual([
+      [2, 'bug', 'present'],
+      [2, 'security', 'fixed'],
+      [3, 'performance', 'new'],
+    ]);
+  });
+
+  it('compares only with the previous scan of the same file', async () => {
+    await scan('const b = a / 0;', [issue(1)], 'a.ts');
+    const other = await scan('const b = a / 0;', [issue(1)], 'b.ts');
+
+    expect(other.issues[0].status).toBe('new');
+  });
+
+  it('compares only with the previous scan in the same mode', async () => {
+    await scan('eval(input);', [issue(1, { category: 'security' })]);
+    const security = await scan('eval(input);', [issue(1, { category: 'security', cwe: ['CWE-95'] })], 'a.ts', 'security');
+
+    expect(security.issues).toMatchObject([{ status: 'new', cwe: ['CWE-95'] }]);
+
+    // A general rescan is compared with the general scan, not with the security scan in between
+    const general = await scan('eval(input);', [issue(1, { category: 'security' })]);
+    expect(general.issues).toMatchObject([{ status: 'present' }]);
+
+    const fixed = await scan('', [], 'a.ts', 'security');
+    expect(fixed.issues).toMatchObject([{ status: 'fixed', cwe: ['CWE-95'] }]);
+  });
+
+  it('does not report fixed issues again', async () => {
+    await scan('eval(input);', [issue(1)]);
+    await scan('', []);
+    const run = await scan('', []);
+
+    expect(run.issues).toEqual([]);
+  });
+
+  it('carries the thread of an issue over while it is present', async () => {
+    const first = await scan('eval(input);', [issue(1)]);
+    const threadId = '123e4567-e89b-12d3-a456-426614174000';
+    await setIssueThread(first.issues[0].id, workspaceId, threadId);
+
+    const second = await scan('eval(input);', [issue(1)]);
+    expect(second.issues[0]).toMatchObject({ status: 'present', threadId });
+
+    const third = await scan('', []);
+    expect(third.issues[0]).toMatchObject({ status: 'fixed', threadId });
+  });
+});
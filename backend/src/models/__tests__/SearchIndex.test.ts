@@ -0,0 +1,73 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { createRepositories, setRepositories, Repositories } from '../../repositories/index.js';
+import { LocalEmbeddingProvider, setEmbeddingProvider } from '../../services/search/index.js';
+import { indexFile, removeFile, searchCode } from '../SearchIndex.js';
+
+const orders = `export function parseOrder(text: string) {
+  return { total: Number(text) };
+}
+
+export function renderHeader(title: string) {
+  return \`<h1>\${title}</h1>\`;
+}
+`;
+
+describe('SearchIndex Model', () => {
+  let repos: Repositories;
+  let workspaceId: string;
+  let embedder: LocalEmbeddingProvider;
+
+  beforeEach(async () => {
+    repos = createRepositories('memory');
+    setRepositories(repos);
+    embedder = new LocalEmbeddingProvider();
+    setEmbeddingProvider(embedder);
+    const owner = await repos.users.createUser({ username: 'ada', displayName: 'Ada', passwordHash: 'hash' });
+    workspaceId = (await repos.workspaces.createWorkspace({ name: 'Team', ownerId: owner!.id })).id;
+  });
+
+  afterEach(() => {
+    setRepositories(null);
+    setEmbeddingProvider(null);
+  });
+
+  const index = (content = orders, file = 'src/orders.ts') =>
+    indexFile({ workspaceId, file, language: 'typescript', content });
+
+  it('finds the functions of indexed files closest to a query', async () => {
+    const { file, updated } = await index();
+
+    expect(updated).toBe(true);
+    expect(file).toMatchObject({ file: 'src/orders.ts', chunkCount: 2, embedder: 'local-hash-512' });
+
+    const [first] = await searchCode(workspaceId, 'parse the order total');
+    expect(first).toMatchObject({ file: 'src/orders.ts', startLine: 1, endLine: 3, symbol: 'parseOrder' });
+    expect(await searchCode(workspaceId, 'parse order', { excludeFile: 'src/orders.ts' })).toEqual([]);
+  });
+
+  it('leaves out chunks that share nothing with the query', async () => {
+    await index();
+
+    expect(await searchCode(workspaceId, 'database migration')).toEqual([]);
+  });
+
+  it('indexes a file again only when its content changes', async () => {
+    await index();
+    const embed = vi.spyOn(embedder, 'embed');
+
+    expect((await index()).updated).toBe(false);
+    expect(embed).not.toHaveBeenCalled();
+
+    const { file, updated } = await index('export const RATE = 2;\n');
+    expect(updated).toBe(true);
+    expect(file.chunkCount).toBe(1);
+  });
+
+  it('removes files from the index', async () => {
+    await index();
+
+    expect(await removeFile(workspaceId, 'src/orders.ts')).toBe(true);
+    expect(await removeFile(workspaceId, 'src/orders.ts')).toBe(false);
+    expect(await searchCode(workspaceId, 'parse order')).toEqual([]);
+  });
+});
@@ -48,15 +48,35 @@ describe('Thread Model', () => {
       });
 
       const result = await createThread({
+        workspaceId: 'workspace-1',
         file: 'test.ts',
         startLine: 1,
         endLine: 5,
         selectedCode: 'const x = 1;',
       });
 
-      expect(result.id).toBe('mock-uuid-123');
-      expect(result.file).toBe('test.ts');
-      expect(result.comments).toHaveLength(0);
+      expect(result?.id).toBe('mock-uuid-123');
+      expect(result?.file).toBe('test.ts');
+      expect(result?.comments).toHaveLength(0);
+    });
+
+    it('returns null when the ID is taken', async () => {
+      const mockClient = { query: vi.fn().mockResolvedValueOnce({ rows: [] }) };
+      vi.mocked(transaction).mockImplementation(async (callback) => callback(mockClient as any));
+
+      const result = await createThread({
+        id: 'taken-id',
+        workspaceId: 'workspace-1',
+        file: 'test.ts',
+        startLine: 1,
+        endLine: 5,
+        selectedCode: 'const x = 1;',
+        initialComment: 'Hi',
+      });
+
+      expect(result).toBeNull();
+      expect(mockClient.query.mock.calls[0][1].slice(0, 2)).toEqual(['taken-id', 'workspace-1']);
+      expect(mockClient.query).toHaveBeenCalledTimes(1);
     });
 
     it('creates a thread with initial comment', async () => {
@@ -90,6 +110,7 @@ describe('Thread Model', () => {
       });
 
       const result = await createThread({
+        workspaceId: 'workspace-1',
         file: 'test.ts',
         startLine: 1,
         endLine: 5,
@@ -97,8 +118,8 @@ describe('Thread Model', () => {
         initialComment: 'Initial comment',
       });
 
-      expect(result.comments).toHaveLength(1);
-      expect(result.comments[0].text).toBe('Initial comment');
+      expect(result?.comments).toHaveLength(1);
+      expect(result?.comments[0].text).toBe('Initial comment');
     });
   });
 
@@ -130,8 +151,9 @@ describe('Thread Model', () => {
         .mockResolvedValueOnce({ rows: [mockThreadRow], rowCount: 1 } as any)
         .mockResolvedValueOnce({ rows: mockCommentRows, rowCount: 1 } as any);
 
-      const result = await getThreadById('thread-123');
+      const result = await getThreadById('thread-123', 'workspace-1');
 
+      expect(vi.mocked(query).mock.calls[0][1]).toEqual(['thread-123', 'workspace-1']);
       expect(result).not.toBeNull();
       expect(result?.id).toBe('thread-123');
       expect(result?.comments).toHaveLength(1);
@@ -140,7 +162,7 @@ describe('Thread Model', () => {
     it('returns null for non-existent thread', async () => {
       vi.mocked(query).mockResolvedValueOnce({ rows: [], rowCount: 0 } as any);
 
-      const result = await getThreadById('non-existent');
+      const result = await getThreadById('non-existent', 'workspace-1');
 
       expect(result).toBeNull();
     });
@@ -186,8 +208,12 @@ describe('Thread Model', () => {
         .mockResolvedValueOnce({ rows: mockThreadRows, rowCount: 2 } as any)
         .mockResolvedValueOnce({ rows: mockCommentRows, rowCount: 1 } as any);
 
-      const result = await getThreads();
+      const result = await getThreads('workspace-1');
 
+      expect(query).toHaveBeenCalledWith(
+        expect.stringContaining('WHERE workspace_id = $1'),
+        ['workspace-1']
+      );
       expect(result).toHaveLength(2);
       expect(result[0].comments).toHaveLength(1);
       expect(result[1].comments).toHaveLength(0);
@@ -197,7 +223,7 @@ describe('Thread Model', () => {
       vi.mocked(query)
         .mockResolvedValueOnce({ rows: [], rowCount: 0 } as any);
 
-      await getThreads({ file: 'specific.ts' });
+      await getThreads('workspace-1', { file: 'specific.ts' });
 
       expect(query).toHaveBeenCalledWith(
         expect.stringContaining('WHERE'),
@@ -209,7 +235,7 @@ describe('Thread Model', () => {
       vi.mocked(query)
         .mockResolvedValueOnce({ rows: [], rowCount: 0 } as any);
 
-      await getThreads({ resolved: true });
+      await getThreads('workspace-1', { resolved: true });
 
       expect(query).toHaveBeenCalledWith(
         expect.stringContaining('WHERE'),
@@ -235,15 +261,16 @@ describe('Thread Model', () => {
         .mockResolvedValueOnce({ rows: [mockThreadRow], rowCount: 1 } as any)
         .mockResolvedValueOnce({ rows: [], rowCount: 0 } as any);
 
-      const result = await updateThread('thread-123', { resolved: true });
+      const result = await updateThread('thread-123', 'workspace-1', { resolved: true });
 
+      expect(vi.mocked(query).mock.calls[0][1]).toEqual([true, 'thread-123', 'workspace-1']);
       expect(result?.resolved).toBe(true);
     });
 
     it('returns null for non-existent thread', async () => {
       vi.mocked(query).mockResolvedValueOnce({ rows: [], rowCount: 0 } as any);
 
-      const result = await updateThread('non-existent', { resolved: true });
+      const result = await updateThread('non-existent', 'workspace-1', { resolved: true });
 
       expect(result).toBeNull();
     });
@@ -253,15 +280,16 @@ describe('Thread Model', () => {
     it('deletes a thread', async () => {
       vi.mocked(query).mockResolvedValueOnce({ rowCount: 1 } as any);
 
-      const result = await deleteThread('thread-123');
+      const result = await deleteThread('thread-123', 'workspace-1');
 
+      expect(query).toHaveBeenCalledWith(expect.any(String), ['thread-123', 'workspace-1']);
       expect(result).toBe(true);
     });
 
     it('returns false for non-existent thread', async () => {
       vi.mocked(query).mockResolvedValueOnce({ rowCount: 0 } as any);
 
-      const result = await deleteThread('non-existent');
+      const result = await deleteThread('non-existent', 'workspace-1');
 
       expect(result).toBe(false);
     });
@@ -292,6 +320,69 @@ describe('Thread Model', () => {
       expect(result.author).toBe('user');
     });
 
+    it('returns the existing comment when the ID was already saved', async () => {
+      const mockCommentRow = {
+        id: 'client-comment-1',
+        thread_id: 'thread-123',
+        author: 'user',
+        text: 'Saved before',
+        diff: null,
+        created_at: new Date(),
+      };
+
+      vi.mocked(query)
+        .mockResolvedValueOnce({ rows: [], rowCount: 0 } as any)
+        .mockResolvedValueOnce({ rows: [mockCommentRow], rowCount: 1 } as any);
+
+      const result = await addComment({
+        id: 'client-comment-1',
+        threadId: 'thread-123',
+        author: 'user',
+        text: 'Saved before',
+      });
+
+      expect(result.id).toBe('client-comment-1');
+      expect(result.text).toBe('Saved before');
+      expect(vi.mocked(query).mock.calls[0][1]?.[0]).toBe('client-comment-1');
+      expect(query).toHaveBeenCalledTimes(2);
+    });
+
+    it('stores the author of a user comment', async () => {
+      const mockCommentRow = {
+        id: 'mock-uuid-123',
+        thread_id: 'thread-123',
+        author: 'user',
+        author_id: 'user-1',
+        author_name: 'Ada',
+        text: 'New comment',
+        diff: null,
+        created_at: new Date(),
+      };
+
+      vi.mocked(query)
+        .mockResolvedValueOnce({ rows: [mockCommentRow], rowCount: 1 } as any)
+        .mockResolvedValueOnce({ rowCount: 1 } as any);
+
+      const result = await addComment({
+        threadId: 'thread-123',
+        author: 'user',
+        authorId: 'user-1',
+        authorName: 'Ada',
+        text: 'New comment',
+      });
+
+      expect(vi.mocked(query).mock.calls[0][1]).toEqual([
+        'mock-uuid-123',
+        'thread-123',
+        'user',
+        'user-1',
+        'Ada',
+        'New comment',
+        null,
+      ]);
+      expect(result).toMatchObject({ authorId: 'user-1', authorName: 'Ada' });
+    });
+
     it('adds a comment with diff', async () => {
       const mockCommentRow = {
         id: 'mock-uuid-123',
@@ -340,8 +431,9 @@ describe('Thread Model', () => {
 
       vi.mocked(query).mockResolvedValueOnce({ rows: mockCommentRows, rowCount: 2 } as any);
 
-      const result = await getComments('thread-123');
+      const result = await getComments('thread-123', 'workspace-1');
 
+      expect(vi.mocked(query).mock.calls[0][1]).toEqual(['thread-123', 'workspace-1']);
       expect(result).toHaveLength(2);
       expect(result[0].author).toBe('user');
       expect(result[1].author).toBe('ai');
@@ -0,0 +1,144 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+// Mock the database connection
+vi.mock('../../db/connection.js', () => ({
+  query: vi.fn(),
+  transaction: vi.fn(),
+  getClient: vi.fn(),
+}));
+
+vi.mock('uuid', () => ({
+  v4: vi.fn(() => 'mock-uuid-123'),
+}));
+
+import { query } from '../../db/connection.js';
+import { hashPassword, hashToken } from '../../utils/credentials.js';
+import {
+  createUser,
+  verifyCredentials,
+  createAuthToken,
+  getUserByToken,
+  deleteAuthToken,
+} from '../User.js';
+
+const userRow = (passwordHash = 'scrypt$00$00') => ({
+  id: 'user-1',
+  username: 'ada',
+  display_name: 'Ada Lovelace',
+  password_hash: passwordHash,
+  created_at: new Date(),
+});
+
+describe('User Model', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  describe('createUser', () => {
+    it('stores a lowercase username and a password hash', async () => {
+      vi.mocked(query).mockResolvedValueOnce({ rows: [userRow()], rowCount: 1 } as never);
+
+      const user = await createUser({ username: ' Ada ', password: 'secret123', displayName: 'Ada Lovelace' });
+
+      const params = vi.mocked(query).mock.calls[0][1]!;
+      expect(params[1]).toBe('ada');
+      expect(params[2]).toBe('Ada Lovelace');
+      expect(params[3]).toMatch(/^scrypt\$/);
+      expect(user).toEqual({
+        id: 'user-1',
+        username: 'ada',
+        displayName: 'Ada Lovelace',
+        createdAt: expect.any(Date),
+      });
+    });
+
+    it('returns null when the username is taken', async () => {
+      vi.mocked(query).mockResolvedValueOnce({ rows: [], rowCount: 0 } as never);
+
+      expect(await createUser({ username: 'ada', password: 'secret123' })).toBeNull();
+    });
+  });
+
+  describe('verifyCredentials', () => {
+    it('returns the user for the right password only', async () => {
+      const row = userRow(await hashPassword('secret123'));
+      vi.mocked(query).mockResolvedValue({ rows: [row], rowCount: 1 } as never);
+
+      expect(await verifyCredentials('ADA', 'secret123')).toMatchObject({ id: 'user-1' });
+      expect(await verifyCredentials('ada', 'wrong')).toBeNull();
+      expect(vi.mocked(query).mock.calls[0][1]).toEqual(['ada']);
+    });
+
+    it('returns null for unknown users', async () => {
+      vi.mocked(query).mockResolvedValueOnce({ rows: [], rowCount: 0 } as never);
+
+      expect(await verifyCredentials('nobody', 'secret123')).toBeNull();
+    });
+  });
+
+  describe('tokens', () => {
+    it('stores only the hash of a new token', async () => {
+      vi.mocked(query).mockImplementationOnce(async (_sql, params) => ({
+        rows: [{
+          id: 'mock-uuid-123',
+          user_id: 'user-1',
+          token_hash: params![2],
+          kind: 'api',
+          name: 'CI',
+          created_at: new Date(),
+          last_used_at: null,
+          expires_at: null,
+        }],
+        rowCount: 1,
+      }) as never);
+
+      const { token, authToken } = await createAuthToken({ userId: 'user-1', kind: 'api', name: 'CI' });
+
+      expect(vi.mocked(query).mock.calls[0][1]).toEqual(['mock-uuid-123', 'user-1', hashToken(token), 'api', 'CI', null]);
+      expect(authToken).not.toHaveProperty('tokenHash');
+      expect(authToken).toMatchObject({ id: 'mock-uuid-123', kind: 'api', name: 'CI' });
+    });
+
+    it('finds the user of a token and records its use', async () => {
+      vi.mocked(query)
+        .mockResolvedValueOnce({
+          rows: [{
+            id: 'token-1',
+            user_id: 'user-1',
+            token_hash: hashToken('abc'),
+            kind: 'session',
+            name: null,
+            created_at: new Date(),
+            last_used_at: null,
+            expires_at: new Date(Date.now() + 1000),
+            user_username: 'ada',
+            user_display_name: 'Ada Lovelace',
+            user_created_at: new Date(),
+          }],
+          rowCount: 1,
+        } as never)
+        .mockResolvedValueOnce({ rows: [], rowCount: 1 } as never);
+
+      const result = await getUserByToken('abc');
+
+      expect(vi.mocked(query).mock.calls[0][1]).toEqual([hashToken('abc')]);
+      expect(result?.user).toMatchObject({ id: 'user-1', username: 'ada', displayName: 'Ada Lovelace' });
+      expect(result?.authToken).toMatchObject({ id: 'token-1', kind: 'session' });
+      expect(vi.mocked(query).mock.calls[1][0]).toContain('last_used_at');
+    });
+
+    it('returns null for unknown or expired tokens', async () => {
+      vi.mocked(query).mockResolvedValueOnce({ rows: [], rowCount: 0 } as never);
+
+      expect(await getUserByToken('abc')).toBeNull();
+      expect(query).toHaveBeenCalledTimes(1);
+    });
+
+    it('deletes only tokens of the given user', async () => {
+      vi.mocked(query).mockResolvedValueOnce({ rows: [], rowCount: 0 } as never);
+
+      expect(await deleteAuthToken('user-2', 'token-1')).toBe(false);
+      expect(vi.mocked(query).mock.calls[0][1]).toEqual(['token-1', 'user-2']);
+    });
+  });
+});
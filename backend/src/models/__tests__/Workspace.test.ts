@@ -0,0 +1,66 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+// Mock the database connection
+vi.mock('../../db/connection.js', () => ({
+  query: vi.fn(),
+  transaction: vi.fn(),
+  getClient: vi.fn(),
+}));
+
+vi.mock('uuid', () => ({
+  v4: vi.fn(() => 'mock-uuid-123'),
+}));
+
+import { query, transaction } from '../../db/connection.js';
+import {
+  createWorkspace,
+  getWorkspacesForUser,
+  getWorkspaceForUser,
+  addMember,
+} from '../Workspace.js';
+
+describe('Workspace Model', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('creates a workspace with its creator as owner', async () => {
+    const mockClient = {
+      query: vi.fn()
+        .mockResolvedValueOnce({ rows: [{ id: 'mock-uuid-123', name: 'Team', created_at: new Date() }] })
+        .mockResolvedValueOnce({ rows: [], rowCount: 1 }),
+    };
+    vi.mocked(transaction).mockImplementation(async (callback) => callback(mockClient as never));
+
+    const workspace = await createWorkspace({ name: 'Team', ownerId: 'user-1' });
+
+    expect(workspace).toMatchObject({ id: 'mock-uuid-123', name: 'Team', role: 'owner' });
+    expect(mockClient.query.mock.calls[1][1]).toEqual(['mock-uuid-123', 'user-1']);
+  });
+
+  it('loads workspaces through the membership of the user', async () => {
+    vi.mocked(query).mockResolvedValueOnce({
+      rows: [{ id: 'ws-1', name: 'Team', role: 'member', created_at: new Date() }],
+      rowCount: 1,
+    } as never);
+
+    const workspaces = await getWorkspacesForUser('user-1');
+
+    expect(vi.mocked(query).mock.calls[0][0]).toContain('m.user_id = $1');
+    expect(workspaces).toEqual([{ id: 'ws-1', name: 'Team', role: 'member', createdAt: expect.any(Date) }]);
+  });
+
+  it('returns null for workspaces the user is not a member of', async () => {
+    vi.mocked(query).mockResolvedValueOnce({ rows: [], rowCount: 0 } as never);
+
+    expect(await getWorkspaceForUser('ws-1', 'user-2')).toBeNull();
+    expect(vi.mocked(query).mock.calls[0][1]).toEqual(['ws-1', 'user-2']);
+  });
+
+  it('reports members that were already added', async () => {
+    vi.mocked(query).mockResolvedValueOnce({ rows: [], rowCount: 0 } as never);
+
+    expect(await addMember('ws-1', 'user-2')).toBe(false);
+    expect(vi.mocked(query).mock.calls[0][1]).toEqual(['ws-1', 'user-2', 'member']);
+  });
+});
@@ -0,0 +1,525 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import Database from 'better-sqlite3';
+import { createRepositories, getStorageDriver, Repositories, NewScanIssue } from '../index.js';
+import type { ReviewMode } from '../../services/ai/types.js';
+import type { ThreadAnchor } from '../../models/Thread.js';
+
+// The same behavior is expected of every driver that runs without a database server
+describe.each(['memory', 'sqlite'] as const)('%s repositories', (driver) => {
+  let repos: Repositories;
+  let ownerId: string;
+  let workspaceId: string;
+
+  beforeEach(async () => {
+    repos = createRepositories(driver, { sqlitePath: ':memory:' });
+    const owner = await repos.users.createUser({ username: 'ada', displayName: 'Ada', passwordHash: 'hash' });
+    ownerId = owner!.id;
+    workspaceId = (await repos.workspaces.createWorkspace({ name: 'Team', ownerId })).id;
+  });
+
+  afterEach(async () => {
+    await repos.close();
+  });
+
+  const newThread = (overrides: { id?: string; file?: string; initialComment?: string; anchor?: ThreadAnchor } = {}) =>
+    repos.threads.createThread({
+      workspaceId,
+      file: 'a.ts',
+      startLine: 1,
+      endLine: 2,
+      selectedCode: 'const a = 1;',
+      ...overrides,
+    });
+
+  describe('threads', () => {
+    it('creates threads with an initial comment and a client ID', async () => {
+      const thread = await newThread({ id: 'thread-1', initialComment: 'Why?' });
+
+      expect(thread).toMatchObject({
+        id: 'thread-1',
+        workspaceId,
+        file: 'a.ts',
+        startLine: 1,
+        endLine: 2,
+        resolved: false,
+        comments: [{ threadId: 'thread-1', author: 'user', text: 'Why?' }],
+      });
+      expect(thread!.createdAt).toBeInstanceOf(Date);
+      expect(await newThread({ id: 'thread-1' })).toBeNull();
+    });
+
+    it('keeps the repository version a thread was created on', async () => {
+      const source = { repository: '/repos/project', commitSha: 'a'.repeat(40), path: 'src/a.ts' };
+      const thread = (await repos.threads.createThread({
+        workspaceId,
+        file: 'src/a.ts',
+        startLine: 1,
+        endLine: 1,
+        selectedCode: 'const a = 1;',
+        source,
+      }))!;
+
+      expect(thread.source).toEqual(source);
+      expect((await repos.threads.getThreadById(thread.id, workspaceId))!.source).toEqual(source);
+      expect((await newThread())!.source).toBeNull();
+    });
+
+    it('keeps the diff side and revisions of a thread', async () => {
+      const thread = (await repos.threads.createThread({
+        workspaceId,
+        file: 'src/a.ts',
+        startLine: 2,
+        endLine: 2,
+        selectedCode: 'const a = 1;',
+        side: 'new',
+        baseRevision: 'v1.0',
+        headRevision: 'main',
+      }))!;
+
+      const stored = (await repos.threads.getThreadById(thread.id, workspaceId))!;
+      expect(stored).toMatchObject({ side: 'new', baseRevision: 'v1.0', headRevision: 'main' });
+      expect(await newThread()).toMatchObject({ side: null, baseRevision: null, headRevision: null });
+    });
+
+    it('keeps the anchor of a thread and where it moved after edits', async () => {
+      const anchor = { lines: ['const a = 1;'], contextBefore: [], contextAfter: ['const b = 2;'] };
+      const thread = (await newThread({ anchor }))!;
+      expect(thread).toMatchObject({ anchor, outdated: false });
+
+      const moved = await repos.threads.updateThread(thread.id, workspaceId, { startLine: 4, endLine: 5, outdated: true });
+      expect(moved).toMatchObject({ startLine: 4, endLine: 5, outdated: true, resolved: false, anchor });
+      expect(await repos.threads.getThreadById(thread.id, workspaceId)).toMatchObject({
+        startLine: 4,
+        endLine: 5,
+        outdated: true,
+      });
+
+      expect(await repos.threads.updateThread(thread.id, workspaceId, { outdated: false })).toMatchObject({
+        startLine: 4,
+        outdated: false,
+      });
+      expect((await newThread())!.anchor).toBeNull();
+    });
+
+    it('scopes threads to their workspace', async () => {
+      const other = await repos.workspaces.createWorkspace({ name: 'Other', ownerId });
+      const thread = (await newThread())!;
+
+      expect(await repos.threads.getThreadById(thread.id, workspaceId)).toMatchObject({ id: thread.id });
+      expect(await repos.threads.getThreadById(thread.id, other.id)).toBeNull();
+      expect(await repos.threads.getThreads(other.id)).toEqual([]);
+      expect(await repos.threads.updateThread(thread.id, other.id, { resolved: true })).toBeNull();
+      expect(await repos.threads.deleteThread(thread.id, other.id)).toBe(false);
+      expect(await repos.threads.getComments(thread.id, other.id)).toEqual([]);
+    });
+
+    it('lists threads newest first with filters and pages', async () => {
+      await newThread({ id: 'thread-1' });
+      await newThread({ id: 'thread-2', file: 'b.ts' });
+      await newThread({ id: 'thread-3' });
+      await repos.threads.updateThread('thread-3', workspaceId, { resolved: true });
+
+      const ids = async (options?: Parameters<typeof repos.threads.getThreads>[1]) =>
+        (await repos.threads.getThreads(workspaceId, options)).map(t => t.id);
+
+      expect(await ids()).toEqual(['thread-3', 'thread-2', 'thread-1']);
+      expect(await ids({ file: 'a.ts' })).toEqual(['thread-3', 'thread-1']);
+      expect(await ids({ resolved: false })).toEqual(['thread-2', 'thread-1']);
+      expect(await ids({ limit: 1, offset: 1 })).toEqual(['thread-2']);
+      expect(await ids({ offset: 2 })).toEqual(['thread-1']);
+    });
+
+    it('resolves and deletes threads', async () => {
+      const thread = (await newThread({ initialComment: 'Hi' }))!;
+
+      const resolved = await repos.threads.updateThread(thread.id, workspaceId, { resolved: true });
+      expect(resolved).toMatchObject({ resolved: true, comments: [{ text: 'Hi' }] });
+
+      expect(await repos.threads.deleteThread(thread.id, workspaceId)).toBe(true);
+      expect(await repos.threads.getThreadById(thread.id, workspaceId)).toBeNull();
+      expect(await repos.threads.deleteThread(thread.id, workspaceId)).toBe(false);
+    });
+
+    it('adds comments in order and returns existing comments on retry', async () => {
+      const thread = (await newThread())!;
+
+      const first = await repos.threads.addComment({ id: 'comment-1', threadId: thread.id, author: 'user', authorId: ownerId, authorName: 'Ada', text: 'One' });
+      await repos.threads.addComment({ threadId: thread.id, author: 'ai', text: 'Two', diff: '-a\n+b' });
+      const retried = await repos.threads.addComment({ id: 'comment-1', threadId: thread.id, author: 'user', text: 'Changed' });
+
+      expect(retried).toEqual(first);
+      expect(await repos.threads.getComments(thread.id, workspaceId)).toMatchObject([
+        { id: 'comment-1', author: 'user', authorId: ownerId, authorName: 'Ada', text: 'One', diff: null },
+        { author: 'ai', authorId: null, text: 'Two', diff: '-a\n+b' },
+      ]);
+    });
+
+    it('does not return comments of another thread for a taken ID', async () => {
+      const other = await repos.workspaces.createWorkspace({ name: 'Other', ownerId });
+      const thread = (await newThread())!;
+      const otherThread = (await repos.threads.createThread({
+        workspaceId: other.id,
+        file: 'a.ts',
+        startLine: 1,
+        endLine: 2,
+        selectedCode: 'const a = 1;',
+      }))!;
+
+      await repos.threads.addComment({ id: 'comment-1', threadId: thread.id, author: 'user', text: 'Secret' });
+
+      expect(await repos.threads.addComment({ id: 'comment-1', threadId: otherThread.id, author: 'user', text: 'Hi' })).toBeNull();
+      expect(await repos.threads.getComments(otherThread.id, other.id)).toEqual([]);
+      expect(await repos.threads.getComments(thread.id, workspaceId)).toMatchObject([{ text: 'Secret' }]);
+    });
+
+    it('records when the suggestion of a comment was applied', async () => {
+      const thread = (await newThread())!;
+      const comment = (await repos.threads.addComment({ threadId: thread.id, author: 'ai', text: 'Fix', diff: '-a\n+b' }))!;
+      const appliedAt = new Date('2024-01-02T03:04:05.000Z');
+
+      expect(comment.appliedAt).toBeNull();
+      expect(await repos.threads.updateComment(comment.id, thread.id, { appliedAt })).toMatchObject({
+        id: comment.id,
+        appliedAt,
+      });
+      const updated = await repos.threads.getThreadById(thread.id, workspaceId);
+      expect(updated!.comments[0].appliedAt).toEqual(appliedAt);
+      expect(updated!.updatedAt.getTime()).toBeGreaterThanOrEqual(thread.updatedAt.getTime());
+
+      expect(await repos.threads.updateComment(comment.id, thread.id, { appliedAt: null })).toMatchObject({
+        appliedAt: null,
+      });
+      expect(await repos.threads.updateComment(comment.id, 'other-thread', { appliedAt })).toBeNull();
+      expect(await repos.threads.updateComment('missing', thread.id, { appliedAt })).toBeNull();
+    });
+
+    it('returns copies that do not change stored threads', async () => {
+      const thread = (await newThread({ initialComment: 'Hi' }))!;
+      thread.resolved = true;
+      thread.comments.push({ ...thread.comments[0], id: 'extra' });
+
+      expect(await repos.threads.getThreadById(thread.id, workspaceId)).toMatchObject({
+        resolved: false,
+        comments: [{ text: 'Hi' }],
+      });
+    });
+  });
+
+  describe('scans', () => {
+    const issue = (overrides: Partial<NewScanIssue> = {}): NewScanIssue => ({
+      fingerprint: 'f1',
+      startLine: 1,
+      endLine: 1,
+      severity: 'error',
+      category: 'bug',
+      message: 'Division by zero',
+      fix: 'Check the divisor',
+      diff: null,
+      ruleId: null,
+      status: 'new',
+      threadId: null,
+      ...overrides,
+    });
+
+    const newRun = (file: string, issues: NewScanIssue[] = [issue()], mode: ReviewMode = 'general') =>
+      repos.scans.createScanRun({ workspaceId, file, mode, provider: 'openai', model: 'gpt-4', issues });
+
+    it('stores runs with their issues in order', async () => {
+      const run = await newRun('a.ts', [
+        issue(),
+        issue({ fingerprint: 'f2', startLine: 5, status: 'fixed', diff: '-a\n+b', ruleId: 'no-eval' }),
+      ]);
+
+      expect(run).toMatchObject({ workspaceId, file: 'a.ts', mode: 'general', provider: 'openai', model: 'gpt-4' });
+      expect(run.createdAt).toBeInstanceOf(Date);
+      expect(await repos.scans.getScanRunById(run.id, workspaceId)).toEqual(run);
+      expect(run.issues).toMatchObject([
+        { runId: run.id, fingerprint: 'f1', status: 'new', diff: null, ruleId: null },
+        { runId: run.id, fingerprint: 'f2', startLine: 5, status: 'fixed', diff: '-a\n+b', ruleId: 'no-eval' },
+      ]);
+    });
+
+    it('lists runs newest first by file', async () => {
+      const first = await newRun('a.ts');
+      const second = await newRun('b.ts');
+      const third = await newRun('a.ts', []);
+
+      const ids = async (options?: Parameters<typeof repos.scans.getScanRuns>[1]) =>
+        (await repos.scans.getScanRuns(workspaceId, options)).map(run => run.id);
+
+      expect(await ids()).toEqual([third.id, second.id, first.id]);
+      expect(await ids({ file: 'a.ts' })).toEqual([third.id, first.id]);
+      expect(await ids({ file: 'a.ts', limit: 1 })).toEqual([third.id]);
+      expect((await repos.scans.getScanRuns(workspaceId, { file: 'b.ts' }))[0].issues).toHaveLength(1);
+    });
+
+    it('stores the mode of runs and the mode fields of their issues', async () => {
+      const general = await newRun('a.ts');
+      const security = await newRun('a.ts', [issue({ cwe: ['CWE-89'], owasp: ['A03:2021-Injection'] })], 'security');
+
+      expect(security.mode).toBe('security');
+      expect(security.issues[0]).toMatchObject({ cwe: ['CWE-89'], owasp: ['A03:2021-Injection'] });
+      expect((await repos.scans.getScanRunById(security.id, workspaceId))!.issues[0]).toEqual(security.issues[0]);
+      expect(general.issues[0]).not.toHaveProperty('cwe');
+
+      const runs = await repos.scans.getScanRuns(workspaceId, { file: 'a.ts', mode: 'general' });
+      expect(runs.map(run => run.id)).toEqual([general.id]);
+    });
+
+    it('links issues to threads within their workspace', async () => {
+      const other = await repos.workspaces.createWorkspace({ name: 'Other', ownerId });
+      const run = await newRun('a.ts');
+      const threadId = '123e4567-e89b-12d3-a456-426614174000';
+
+      expect(await repos.scans.setIssueThread(run.issues[0].id, other.id, threadId)).toBeNull();
+      expect(await repos.scans.getScanRunById(run.id, other.id)).toBeNull();
+      expect(await repos.scans.getScanRuns(other.id)).toEqual([]);
+
+      expect(await repos.scans.setIssueThread(run.issues[0].id, workspaceId, threadId)).toMatchObject({ threadId });
+      expect((await repos.scans.getScanRunById(run.id, workspaceId))!.issues[0].threadId).toBe(threadId);
+      expect(await repos.scans.setIssueThread(run.issues[0].id, workspaceId, null)).toMatchObject({ threadId: null });
+    });
+  });
+
+  describe('search', () => {
+    const chunk = (startLine: number, embedding: number[], symbol: string | null = null) =>
+      ({ startLine, endLine: startLine + 1, symbol, content: `line ${startLine}`, embedding });
+
+    const index = (file: string, chunks = [chunk(1, [1, 0]), chunk(3, [0, 1], 'parse')], embedder = 'local') =>
+      repos.search.replaceIndexedFile({ workspaceId, file, language: 'typescript', contentHash: 'h1', embedder, chunks });
+
+    it('stores indexed files and replaces their chunks', async () => {
+      const file = await index('a.ts');
+
+      expect(file).toMatchObject({ workspaceId, file: 'a.ts', contentHash: 'h1', embedder: 'local', chunkCount: 2 });
+      expect(file.indexedAt).toBeInstanceOf(Date);
+      expect(await repos.search.getIndexedFile(workspaceId, 'a.ts')).toEqual(file);
+
+      expect(await index('a.ts', [chunk(5, [1, 0])])).toMatchObject({ chunkCount: 1 });
+      expect(await repos.search.searchChunks(workspaceId, 'local', [1, 0], { limit: 10 })).toEqual([
+        { file: 'a.ts', language: 'typescript', startLine: 5, endLine: 6, symbol: null, content: 'line 5', score: 1 },
+      ]);
+    });
+
+    it('returns the closest chunks of an embedder first', async () => {
+      await index('a.ts');
+      await index('b.ts', [chunk(1, [0.6, 0.8])]);
+      await index('c.ts', [chunk(1, [0, 1])], 'openai:text-embedding-3-small');
+
+      const results = await repos.search.searchChunks(workspaceId, 'local', [0, 1], { limit: 2 });
+      expect(results.map(result => [result.file, result.startLine, result.symbol])).toEqual([
+        ['a.ts', 3, 'parse'],
+        ['b.ts', 1, null],
+      ]);
+      expect(results[1].score).toBeCloseTo(0.8);
+
+      const others = await repos.search.searchChunks(workspaceId, 'local', [0, 1], { limit: 10, excludeFile: 'a.ts' });
+      expect(others.map(result => result.file)).toEqual(['b.ts']);
+    });
+
+    it('keeps the index of each workspace apart', async () => {
+      const other = await repos.workspaces.createWorkspace({ name: 'Other', ownerId });
+      await index('a.ts');
+
+      expect(await repos.search.getIndexedFile(other.id, 'a.ts')).toBeNull();
+      expect(await repos.search.searchChunks(other.id, 'local', [1, 0], { limit: 10 })).toEqual([]);
+      expect(await repos.search.deleteIndexedFile(other.id, 'a.ts')).toBe(false);
+
+      expect(await repos.search.deleteIndexedFile(workspaceId, 'a.ts')).toBe(true);
+      expect(await repos.search.getIndexedFile(workspaceId, 'a.ts')).toBeNull();
+      expect(await repos.search.searchChunks(workspaceId, 'local', [1, 0], { limit: 10 })).toEqual([]);
+    });
+  });
+
+  describe('rules', () => {
+    const rule = (id: string, description = `Rule ${id}`) =>
+      ({ id, description, severity: 'warning' as const, example: null });
+
+    it('adds rules, updates them by ID and lists them by ID', async () => {
+      expect(await repos.rules.saveRule(workspaceId, rule('no-var'))).toMatchObject({ created: true });
+      const { rule: saved, created } = await repos.rules.saveRule(workspaceId, {
+        ...rule('no-eval'),
+        severity: 'error',
+        example: 'eval(input);',
+      });
+
+      expect(created).toBe(true);
+      expect(saved).toMatchObject({ id: 'no-eval', severity: 'error', example: 'eval(input);' });
+      expect(saved.updatedAt).toBeInstanceOf(Date);
+      expect(await repos.rules.saveRule(workspaceId, rule('no-var', 'Use let or const'))).toMatchObject({
+        created: false,
+        rule: { description: 'Use let or const' },
+      });
+      expect((await repos.rules.getRules(workspaceId)).map(r => [r.id, r.description])).toEqual([
+        ['no-eval', 'Rule no-eval'],
+        ['no-var', 'Use let or const'],
+      ]);
+    });
+
+    it('replaces and deletes the rules of one workspace', async () => {
+      const other = await repos.workspaces.createWorkspace({ name: 'Other', ownerId });
+      await repos.rules.saveRule(workspaceId, rule('no-var'));
+      await repos.rules.saveRule(other.id, rule('no-var'));
+
+      expect((await repos.rules.replaceRules(workspaceId, [rule('b'), rule('a')])).map(r => r.id)).toEqual(['a', 'b']);
+      expect(await repos.rules.deleteRule(workspaceId, 'no-var')).toBe(false);
+      expect(await repos.rules.deleteRule(workspaceId, 'a')).toBe(true);
+      expect((await repos.rules.getRules(workspaceId)).map(r => r.id)).toEqual(['b']);
+      expect((await repos.rules.getRules(other.id)).map(r => r.id)).toEqual(['no-var']);
+    });
+  });
+
+  describe('users', () => {
+    it('rejects taken usernames', async () => {
+      expect(await repos.users.createUser({ username: 'ada', displayName: 'Other', passwordHash: 'x' })).toBeNull();
+      expect(await repos.users.getUserByUsername('ada')).toMatchObject({ id: ownerId, displayName: 'Ada' });
+      expect(await repos.users.getUserById(ownerId)).toMatchObject({ username: 'ada' });
+      expect(await repos.users.getPasswordHash('ada')).toMatchObject({ passwordHash: 'hash', user: { id: ownerId } });
+      expect(await repos.users.getPasswordHash('nobody')).toBeNull();
+    });
+
+    it('finds users by token hash until the token expires', async () => {
+      const session = await repos.users.createAuthToken({ userId: ownerId, tokenHash: 'h1', kind: 'session', name: null, expiresAt: new Date(Date.now() + 60_000) });
+      await repos.users.createAuthToken({ userId: ownerId, tokenHash: 'h2', kind: 'api', name: 'CI', expiresAt: new Date(Date.now() - 1000) });
+
+      const found = await repos.users.useAuthToken('h1');
+      expect(found).toMatchObject({ user: { id: ownerId, username: 'ada' }, authToken: { id: session.id, kind: 'session' } });
+      expect(await repos.users.useAuthToken('h2')).toBeNull();
+      expect(await repos.users.useAuthToken('unknown')).toBeNull();
+
+      const [listed] = await repos.users.listAuthTokens(ownerId, 'session');
+      expect(listed.lastUsedAt).toBeInstanceOf(Date);
+    });
+
+    it('lists and deletes the tokens of a user', async () => {
+      const other = (await repos.users.createUser({ username: 'grace', displayName: 'Grace', passwordHash: 'x' }))!;
+      const first = await repos.users.createAuthToken({ userId: ownerId, tokenHash: 'h1', kind: 'api', name: 'One', expiresAt: null });
+      await repos.users.createAuthToken({ userId: ownerId, tokenHash: 'h2', kind: 'api', name: 'Two', expiresAt: null });
+      await repos.users.createAuthToken({ userId: ownerId, tokenHash: 'h3', kind: 'session', name: null, expiresAt: null });
+
+      expect((await repos.users.listAuthTokens(ownerId, 'api')).map(t => t.name)).toEqual(['Two', 'One']);
+      expect(await repos.users.listAuthTokens(ownerId)).toHaveLength(3);
+
+      expect(await repos.users.deleteAuthToken(other.id, first.id)).toBe(false);
+      expect(await repos.users.deleteAuthToken(ownerId, first.id)).toBe(true);
+      expect(await repos.users.useAuthToken('h1')).toBeNull();
+    });
+  });
+
+  describe('workspaces', () => {
+    it('lists workspaces with the role of the user', async () => {
+      const other = (await repos.users.createUser({ username: 'grace', displayName: 'Grace', passwordHash: 'x' }))!;
+      const second = await repos.workspaces.createWorkspace({ name: 'Side', ownerId: other.id });
+      await repos.workspaces.addMember(second.id, ownerId, 'member');
+
+      expect((await repos.workspaces.getWorkspacesForUser(ownerId)).map(w => [w.name, w.role])).toEqual([
+        ['Team', 'owner'],
+        ['Side', 'member'],
+      ]);
+      expect(await repos.workspaces.getWorkspaceForUser(workspaceId, other.id)).toBeNull();
+      expect(await repos.workspaces.getWorkspaceForUser(second.id, ownerId)).toMatchObject({ name: 'Side', role: 'member' });
+    });
+
+    it('lets a user claim only workspaces without members', async () => {
+      const other = (await repos.users.createUser({ username: 'grace', displayName: 'Grace', passwordHash: 'hash' }))!;
+
+      expect(await repos.workspaces.claimWorkspace(workspaceId, other.id)).toBe(false);
+      expect(await repos.workspaces.claimWorkspace('00000000-0000-4000-8000-000000000001', other.id)).toBe(false);
+
+      await repos.workspaces.removeMember(workspaceId, ownerId);
+      expect(await repos.workspaces.claimWorkspace(workspaceId, other.id)).toBe(true);
+      expect(await repos.workspaces.getMembers(workspaceId)).toMatchObject([{ userId: other.id, role: 'owner' }]);
+    });
+
+    it('adds and removes members, owners first', async () => {
+      const other = (await repos.users.createUser({ username: 'grace', displayName: 'Grace', passwordHash: 'x' }))!;
+
+      expect(await repos.workspaces.addMember(workspaceId, other.id, 'member')).toBe(true);
+      expect(await repos.workspaces.addMember(workspaceId, other.id, 'member')).toBe(false);
+      expect((await repos.workspaces.getMembers(workspaceId)).map(m => [m.username, m.role])).toEqual([
+        ['ada', 'owner'],
+        ['grace', 'member'],
+      ]);
+
+      expect(await repos.workspaces.removeMember(workspaceId, other.id)).toBe(true);
+      expect(await repos.workspaces.removeMember(workspaceId, other.id)).toBe(false);
+      expect(await repos.workspaces.getMembers(workspaceId)).toHaveLength(1);
+    });
+  });
+});
+
+describe('sqlite repositories', () => {
+  it('keep data in the database file', async () => {
+    const dir = mkdtempSync(join(tmpdir(), 'sqlite-'));
+    const sqlitePath = join(dir, 'nested', 'review.sqlite');
+    try {
+      const first = createRepositories('sqlite', { sqlitePath });
+      await first.users.createUser({ username: 'ada', displayName: 'Ada', passwordHash: 'hash' });
+      await first.close();
+
+      const second = createRepositories('sqlite', { sqlitePath });
+      expect(await second.users.getUserByUsername('ada')).toMatchObject({ displayName: 'Ada' });
+      await second.close();
+    } finally {
+      rmSync(dir, { recursive: true, force: true });
+    }
+  });
+
+  it('add columns missing from database files created by older versions', async () => {
+    const dir = mkdtempSync(join(tmpdir(), 'sqlite-'));
+    const sqlitePath = join(dir, 'review.sqlite');
+    try {
+      const old = new Database(sqlitePath);
+      old.exec(`CREATE TABLE threads (
+        id TEXT PRIMARY KEY, workspace_id TEXT, file TEXT NOT NULL, start_line INTEGER NOT NULL,
+        end_line INTEGER NOT NULL, selected_code TEXT NOT NULL, resolved INTEGER NOT NULL DEFAULT 0,
+        created_at TEXT NOT NULL, updated_at TEXT NOT NULL
+      )`);
+      old.exec(`CREATE TABLE comments (
+        id TEXT PRIMARY KEY, thread_id TEXT NOT NULL, author TEXT NOT NULL, author_id TEXT,
+        author_name TEXT, text TEXT NOT NULL, diff TEXT, created_at TEXT NOT NULL
+      )`);
+      old.close();
+
+      const repos = createRepositories('sqlite', { sqlitePath });
+      const owner = await repos.users.createUser({ username: 'ada', displayName: 'Ada', passwordHash: 'hash' });
+      const workspace = await repos.workspaces.createWorkspace({ name: 'Team', ownerId: owner!.id });
+      const source = { repository: 'project', commitSha: 'b'.repeat(40), path: 'a.ts' };
+      const thread = await repos.threads.createThread({
+        workspaceId: workspace.id,
+        file: 'a.ts',
+        startLine: 1,
+        endLine: 1,
+        selectedCode: 'x',
+        source,
+      });
+      expect(thread!.source).toEqual(source);
+      expect(await repos.threads.updateThread(thread!.id, workspace.id, { outdated: true })).toMatchObject({ outdated: true });
+      const comment = await repos.threads.addComment({ threadId: thread!.id, author: 'ai', text: 'Fix', diff: '-x\n+y' });
+      const appliedAt = new Date();
+      expect(await repos.threads.updateComment(comment!.id, thread!.id, { appliedAt })).toMatchObject({ appliedAt });
+      await repos.close();
+    } finally {
+      rmSync(dir, { recursive: true, force: true });
+    }
+  });
+});
+
+describe('getStorageDriver', () => {
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it('defaults to postgres', () => {
+    vi.stubEnv('DB_DRIVER', '');
+    expect(getStorageDriver()).toBe('postgres');
+  });
+
+  it('rejects unknown drivers', () => {
+    vi.stubEnv('DB_DRIVER', 'mysql');
+    expect(() => getStorageDriver()).toThrow('Unknown DB_DRIVER "mysql"');
+  });
+});
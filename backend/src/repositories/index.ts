@@ -0,0 +1,108 @@
+import { closePool } from '../db/connection.js';
+import { Repositories, StorageDriver, STORAGE_DRIVERS } from './types.js';
+import { PostgresThreadRepository } from './postgres/PostgresThreadRepository.js';
+import { PostgresUserRepository } from './postgres/PostgresUserRepository.js';
+import { PostgresWorkspaceRepository } from './postgres/PostgresWorkspaceRepository.js';
+import { PostgresScanRepository } from './postgres/PostgresScanRepository.js';
+import { PostgresSearchRepository } from './postgres/PostgresSearchRepository.js';
+import { PostgresRuleRepository } from './postgres/PostgresRuleRepository.js';
+import { openSqliteDatabase } from './sqlite/database.js';
+import { SqliteThreadRepository } from './sqlite/SqliteThreadRepository.js';
+import { SqliteUserRepository } from './sqlite/SqliteUserRepository.js';
+import { SqliteWorkspaceRepository } from './sqlite/SqliteWorkspaceRepository.js';
+import { SqliteScanRepository } from './sqlite/SqliteScanRepository.js';
+import { SqliteSearchRepository } from './sqlite/SqliteSearchRepository.js';
+import { SqliteRuleRepository } from './sqlite/SqliteRuleRepository.js';
+import { createMemoryStore } from './memory/store.js';
+import { MemoryThreadRepository } from './memory/MemoryThreadRepository.js';
+import { MemoryUserRepository } from './memory/MemoryUserRepository.js';
+import { MemoryWorkspaceRepository } from './memory/MemoryWorkspaceRepository.js';
+import { MemoryScanRepository } from './memory/MemoryScanRepository.js';
+import { MemorySearchRepository } from './memory/MemorySearchRepository.js';
+import { MemoryRuleRepository } from './memory/MemoryRuleRepository.js';
+
+export * from './types.js';
+
+const DEFAULT_SQLITE_PATH = 'data/code-review.sqlite';
+
+let repositories: Repositories | null = null;
+
+/**
+ * Get the storage driver from the DB_DRIVER environment variable
+ */
+export function getStorageDriver(): StorageDriver {
+  const driver = process.env.DB_DRIVER || 'postgres';
+  if (!(STORAGE_DRIVERS as readonly string[]).includes(driver)) {
+    throw new Error(`Unknown DB_DRIVER "${driver}", expected one of: ${STORAGE_DRIVERS.join(', ')}`);
+  }
+  return driver as StorageDriver;
+}
+
+/**
+ * Create the repositories of a storage driver
+ * SQLite stores to SQLITE_PATH unless a path is given; `:memory:` keeps the database in memory
+ */
+export function createRepositories(
+  driver: StorageDriver = getStorageDriver(),
+  options: { sqlitePath?: string } = {}
+): Repositories {
+  switch (driver) {
+    case 'postgres':
+      return {
+        driver,
+        threads: new PostgresThreadRepository(),
+        users: new PostgresUserRepository(),
+        workspaces: new PostgresWorkspaceRepository(),
+        scans: new PostgresScanRepository(),
+        search: new PostgresSearchRepository(),
+        rules: new PostgresRuleRepository(),
+        close: () => closePool(),
+      };
+    case 'sqlite': {
+      const db = openSqliteDatabase(options.sqlitePath ?? (process.env.SQLITE_PATH || DEFAULT_SQLITE_PATH));
+      return {
+        driver,
+        threads: new SqliteThreadRepository(db),
+        users: new SqliteUserRepository(db),
+        workspaces: new SqliteWorkspaceRepository(db),
+        scans: new SqliteScanRepository(db),
+        search: new SqliteSearchRepository(db),
+        rules: new SqliteRuleRepository(db),
+        close: async () => {
+          db.close();
+        },
+      };
+    }
+    case 'memory': {
+      const store = createMemoryStore();
+      return {
+        driver,
+        threads: new MemoryThreadRepository(store),
+        users: new MemoryUserRepository(store),
+        workspaces: new MemoryWorkspaceRepository(store),
+        scans: new MemoryScanRepository(store),
+        search: new MemorySearchRepository(store),
+        rules: new MemoryRuleRepository(store),
+        close: async () => {},
+      };
+    }
+  }
+}
+
+/**
+ * Get the repositories of the configured driver, created on first use
+ */
+export function getRepositories(): Repositories {
+  if (!repositories) {
+    repositories = createRepositories();
+  }
+  return repositories;
+}
+
+/**
+ * Replace the repositories used by the models, or go back to the configured driver with null
+ * Useful for tests and tools that bring their own storage
+ */
+export function setRepositories(next: Repositories | null): void {
+  repositories = next;
+}
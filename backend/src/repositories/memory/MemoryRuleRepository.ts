@@ -0,0 +1,43 @@
+import type { StoredReviewRule } from '../../models/Ruleset.js';
+import type { RuleRepository, NewReviewRule } from '../types.js';
+import type { MemoryStore, StoredRule } from './store.js';
+
+function toRule({ workspaceId: _workspaceId, ...rule }: StoredRule): StoredReviewRule {
+  return structuredClone(rule);
+}
+
+/**
+ * Team rules kept in memory, lost when the process exits
+ */
+export class MemoryRuleRepository implements RuleRepository {
+  constructor(private store: MemoryStore) {}
+
+  async getRules(workspaceId: string): Promise<StoredReviewRule[]> {
+    return [...this.store.rules.values()]
+      .filter(rule => rule.workspaceId === workspaceId)
+      .sort((a, b) => (a.id < b.id ? -1 : a.id > b.id ? 1 : 0))
+      .map(toRule);
+  }
+
+  async replaceRules(workspaceId: string, rules: NewReviewRule[]): Promise<StoredReviewRule[]> {
+    for (const rule of await this.getRules(workspaceId)) {
+      this.store.rules.delete(`${workspaceId}:${rule.id}`);
+    }
+    for (const rule of rules) {
+      await this.saveRule(workspaceId, rule);
+    }
+    return this.getRules(workspaceId);
+  }
+
+  async saveRule(workspaceId: string, rule: NewReviewRule): Promise<{ rule: StoredReviewRule; created: boolean }> {
+    const key = `${workspaceId}:${rule.id}`;
+    const created = !this.store.rules.has(key);
+    const stored: StoredRule = { ...rule, workspaceId, updatedAt: new Date() };
+    this.store.rules.set(key, stored);
+    return { rule: toRule(stored), created };
+  }
+
+  async deleteRule(workspaceId: string, ruleId: string): Promise<boolean> {
+    return this.store.rules.delete(`${workspaceId}:${ruleId}`);
+  }
+}
@@ -0,0 +1,69 @@
+import { v4 as uuidv4 } from 'uuid';
+import type { ScanRun, StoredScanIssue, ScanRunListOptions } from '../../models/Scan.js';
+import type { ScanRepository, NewScanRun } from '../types.js';
+import type { MemoryStore } from './store.js';
+
+/**
+ * Scan runs kept in memory, lost when the process exits
+ * Returned objects are copies, so callers cannot change stored records
+ */
+export class MemoryScanRepository implements ScanRepository {
+  constructor(private store: MemoryStore) {}
+
+  private withIssues(run: Omit<ScanRun, 'issues'>): ScanRun {
+    const issues = [...this.store.scanIssues.values()].filter(issue => issue.runId === run.id);
+    return structuredClone({ ...run, issues });
+  }
+
+  async createScanRun(input: NewScanRun): Promise<ScanRun> {
+    const run = {
+      id: uuidv4(),
+      workspaceId: input.workspaceId,
+      file: input.file,
+      mode: input.mode,
+      provider: input.provider,
+      model: input.model,
+      createdAt: new Date(),
+    };
+    this.store.scanRuns.set(run.id, run);
+
+    for (const issue of input.issues) {
+      const id = uuidv4();
+      this.store.scanIssues.set(id, { ...issue, id, runId: run.id });
+    }
+
+    return this.withIssues(run);
+  }
+
+  async getScanRunById(id: string, workspaceId: string): Promise<ScanRun | null> {
+    const run = this.store.scanRuns.get(id);
+    return run && run.workspaceId === workspaceId ? this.withIssues(run) : null;
+  }
+
+  async getScanRuns(workspaceId: string, options?: ScanRunListOptions): Promise<ScanRun[]> {
+    const runs = [...this.store.scanRuns.values()]
+      .filter(run =>
+        run.workspaceId === workspaceId &&
+        (!options?.file || run.file === options.file) &&
+        (!options?.mode || run.mode === options.mode)
+      )
+      .reverse()
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+
+    return runs.slice(0, options?.limit).map(run => this.withIssues(run));
+  }
+
+  async setIssueThread(
+    issueId: string,
+    workspaceId: string,
+    threadId: string | null
+  ): Promise<StoredScanIssue | null> {
+    const issue = this.store.scanIssues.get(issueId);
+    if (!issue || this.store.scanRuns.get(issue.runId)?.workspaceId !== workspaceId) {
+      return null;
+    }
+
+    issue.threadId = threadId;
+    return structuredClone(issue);
+  }
+}
@@ -0,0 +1,76 @@
+import type { IndexedFile, CodeSearchResult } from '../../models/SearchIndex.js';
+import { cosineSimilarity } from '../../services/search/embeddings.js';
+import type { SearchRepository, NewIndexedFile, ChunkSearchOptions } from '../types.js';
+import type { MemoryStore, StoredIndexedFile } from './store.js';
+
+function toIndexedFile(stored: StoredIndexedFile): IndexedFile {
+  return {
+    workspaceId: stored.workspaceId,
+    file: stored.file,
+    language: stored.language,
+    contentHash: stored.contentHash,
+    embedder: stored.embedder,
+    chunkCount: stored.chunkCount,
+    indexedAt: new Date(stored.indexedAt),
+  };
+}
+
+/**
+ * Search index kept in memory, lost when the process exits
+ * Searches compare the query with every chunk of the workspace
+ */
+export class MemorySearchRepository implements SearchRepository {
+  constructor(private store: MemoryStore) {}
+
+  async getIndexedFile(workspaceId: string, file: string): Promise<IndexedFile | null> {
+    const stored = this.store.indexedFiles.get(`${workspaceId}:${file}`);
+    return stored ? toIndexedFile(stored) : null;
+  }
+
+  async replaceIndexedFile(input: NewIndexedFile): Promise<IndexedFile> {
+    const key = `${input.workspaceId}:${input.file}`;
+    // Re-inserted so that the map stays in indexing order
+    this.store.indexedFiles.delete(key);
+
+    const stored: StoredIndexedFile = {
+      workspaceId: input.workspaceId,
+      file: input.file,
+      language: input.language,
+      contentHash: input.contentHash,
+      embedder: input.embedder,
+      chunkCount: input.chunks.length,
+      indexedAt: new Date(),
+      chunks: structuredClone(input.chunks),
+    };
+    this.store.indexedFiles.set(key, stored);
+    return toIndexedFile(stored);
+  }
+
+  async deleteIndexedFile(workspaceId: string, file: string): Promise<boolean> {
+    return this.store.indexedFiles.delete(`${workspaceId}:${file}`);
+  }
+
+  async searchChunks(
+    workspaceId: string,
+    embedder: string,
+    embedding: number[],
+    options: ChunkSearchOptions
+  ): Promise<CodeSearchResult[]> {
+    const results: CodeSearchResult[] = [];
+    for (const stored of this.store.indexedFiles.values()) {
+      if (stored.workspaceId !== workspaceId || stored.embedder !== embedder || stored.file === options.excludeFile) {
+        continue;
+      }
+      for (const { embedding: chunkEmbedding, ...chunk } of stored.chunks) {
+        results.push({
+          file: stored.file,
+          language: stored.language,
+          ...chunk,
+          score: cosineSimilarity(embedding, chunkEmbedding),
+        });
+      }
+    }
+
+    return results.sort((a, b) => b.score - a.score).slice(0, options.limit);
+  }
+}
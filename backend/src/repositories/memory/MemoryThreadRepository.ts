@@ -0,0 +1,186 @@
+import { v4 as uuidv4 } from 'uuid';
+import type {
+  Thread,
+  Comment,
+  CreateThreadInput,
+  UpdateThreadInput,
+  CreateCommentInput,
+  UpdateCommentInput,
+  ThreadListOptions,
+} from '../../models/Thread.js';
+import type { ThreadRepository } from '../types.js';
+import type { MemoryStore } from './store.js';
+
+/**
+ * Threads kept in memory, lost when the process exits
+ * Returned objects are copies, so callers cannot change stored records
+ */
+export class MemoryThreadRepository implements ThreadRepository {
+  constructor(private store: MemoryStore) {}
+
+  private withComments(thread: Omit<Thread, 'comments'>): Thread {
+    const comments = [...this.store.comments.values()]
+      .filter(comment => comment.threadId === thread.id)
+      .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime());
+    return structuredClone({ ...thread, comments });
+  }
+
+  async createThread(input: CreateThreadInput): Promise<Thread | null> {
+    const id = input.id ?? uuidv4();
+    if (this.store.threads.has(id)) {
+      return null;
+    }
+
+    const createdAt = new Date();
+    const thread = {
+      id,
+      workspaceId: input.workspaceId,
+      file: input.file,
+      startLine: input.startLine,
+      endLine: input.endLine,
+      selectedCode: input.selectedCode,
+      source: input.source ? { ...input.source } : null,
+      side: input.side ?? null,
+      baseRevision: input.baseRevision ?? null,
+      headRevision: input.headRevision ?? null,
+      anchor: input.anchor ? structuredClone(input.anchor) : null,
+      outdated: false,
+      resolved: false,
+      createdAt,
+      updatedAt: createdAt,
+    };
+    this.store.threads.set(id, thread);
+
+    if (input.initialComment) {
+      const commentId = uuidv4();
+      this.store.comments.set(commentId, {
+        id: commentId,
+        threadId: id,
+        author: 'user',
+        authorId: input.authorId || null,
+        authorName: input.authorName || null,
+        text: input.initialComment,
+        diff: null,
+        appliedAt: null,
+        createdAt,
+      });
+    }
+
+    return this.withComments(thread);
+  }
+
+  async getThreadById(id: string, workspaceId: string): Promise<Thread | null> {
+    const thread = this.store.threads.get(id);
+    return thread && thread.workspaceId === workspaceId ? this.withComments(thread) : null;
+  }
+
+  async getThreads(workspaceId: string, options?: ThreadListOptions): Promise<Thread[]> {
+    const threads = [...this.store.threads.values()]
+      .filter(thread =>
+        thread.workspaceId === workspaceId &&
+        (!options?.file || thread.file === options.file) &&
+        (options?.resolved === undefined || thread.resolved === options.resolved)
+      )
+      .reverse()
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+
+    const offset = options?.offset || 0;
+    const end = options?.limit ? offset + options.limit : undefined;
+    return threads.slice(offset, end).map(thread => this.withComments(thread));
+  }
+
+  async updateThread(
+    id: string,
+    workspaceId: string,
+    input: UpdateThreadInput
+  ): Promise<Thread | null> {
+    const thread = this.store.threads.get(id);
+    if (!thread || thread.workspaceId !== workspaceId) {
+      return null;
+    }
+
+    if (input.resolved !== undefined) {
+      thread.resolved = input.resolved;
+      thread.updatedAt = new Date();
+    }
+
+    if (input.startLine !== undefined && input.endLine !== undefined) {
+      thread.startLine = input.startLine;
+      thread.endLine = input.endLine;
+      thread.updatedAt = new Date();
+    }
+
+    if (input.outdated !== undefined) {
+      thread.outdated = input.outdated;
+      thread.updatedAt = new Date();
+    }
+
+    return this.withComments(thread);
+  }
+
+  async deleteThread(id: string, workspaceId: string): Promise<boolean> {
+    const thread = this.store.threads.get(id);
+    if (!thread || thread.workspaceId !== workspaceId) {
+      return false;
+    }
+
+    this.store.threads.delete(id);
+    for (const comment of this.store.comments.values()) {
+      if (comment.threadId === id) {
+        this.store.comments.delete(comment.id);
+      }
+    }
+    return true;
+  }
+
+  async addComment(input: CreateCommentInput): Promise<Comment | null> {
+    const id = input.id ?? uuidv4();
+    const existing = this.store.comments.get(id);
+    if (existing) {
+      return existing.threadId === input.threadId ? structuredClone(existing) : null;
+    }
+
+    const thread = this.store.threads.get(input.threadId);
+    if (!thread) {
+      throw new Error(`Thread ${input.threadId} does not exist`);
+    }
+
+    const comment: Comment = {
+      id,
+      threadId: input.threadId,
+      author: input.author,
+      authorId: input.authorId || null,
+      authorName: input.authorName || null,
+      text: input.text,
+      diff: input.diff || null,
+      appliedAt: null,
+      createdAt: new Date(),
+    };
+    this.store.comments.set(id, comment);
+    thread.updatedAt = comment.createdAt;
+
+    return structuredClone(comment);
+  }
+
+  async updateComment(
+    id: string,
+    threadId: string,
+    input: UpdateCommentInput
+  ): Promise<Comment | null> {
+    const comment = this.store.comments.get(id);
+    const thread = this.store.threads.get(threadId);
+    if (!comment || !thread || comment.threadId !== threadId) {
+      return null;
+    }
+
+    comment.appliedAt = input.appliedAt;
+    thread.updatedAt = new Date();
+
+    return structuredClone(comment);
+  }
+
+  async getComments(threadId: string, workspaceId: string): Promise<Comment[]> {
+    const thread = await this.getThreadById(threadId, workspaceId);
+    return thread ? thread.comments : [];
+  }
+}
@@ -0,0 +1,94 @@
+import { v4 as uuidv4 } from 'uuid';
+import type { User, AuthToken, AuthTokenKind } from '../../models/User.js';
+import type { UserRepository, NewUser, NewAuthToken } from '../types.js';
+import type { MemoryStore, StoredUser, StoredAuthToken } from './store.js';
+
+function toUser({ passwordHash: _passwordHash, ...user }: StoredUser): User {
+  return structuredClone(user);
+}
+
+function toAuthToken({ tokenHash: _tokenHash, ...authToken }: StoredAuthToken): AuthToken {
+  return structuredClone(authToken);
+}
+
+/**
+ * Users and tokens kept in memory, lost when the process exits
+ */
+export class MemoryUserRepository implements UserRepository {
+  constructor(private store: MemoryStore) {}
+
+  private findByUsername(username: string): StoredUser | undefined {
+    return [...this.store.users.values()].find(user => user.username === username);
+  }
+
+  async createUser(input: NewUser): Promise<User | null> {
+    if (this.findByUsername(input.username)) {
+      return null;
+    }
+
+    const user: StoredUser = { id: uuidv4(), ...input, createdAt: new Date() };
+    this.store.users.set(user.id, user);
+    return toUser(user);
+  }
+
+  async getUserById(id: string): Promise<User | null> {
+    const user = this.store.users.get(id);
+    return user ? toUser(user) : null;
+  }
+
+  async getUserByUsername(username: string): Promise<User | null> {
+    const user = this.findByUsername(username);
+    return user ? toUser(user) : null;
+  }
+
+  async getPasswordHash(username: string): Promise<{ user: User; passwordHash: string } | null> {
+    const user = this.findByUsername(username);
+    return user ? { user: toUser(user), passwordHash: user.passwordHash } : null;
+  }
+
+  async createAuthToken(input: NewAuthToken): Promise<AuthToken> {
+    const authToken: StoredAuthToken = {
+      id: uuidv4(),
+      userId: input.userId,
+      tokenHash: input.tokenHash,
+      kind: input.kind,
+      name: input.name,
+      createdAt: new Date(),
+      lastUsedAt: null,
+      expiresAt: input.expiresAt,
+    };
+    this.store.authTokens.set(authToken.id, authToken);
+    return toAuthToken(authToken);
+  }
+
+  async useAuthToken(tokenHash: string): Promise<{ user: User; authToken: AuthToken } | null> {
+    const usedAt = new Date();
+    const authToken = [...this.store.authTokens.values()].find(token =>
+      token.tokenHash === tokenHash && (token.expiresAt === null || token.expiresAt > usedAt)
+    );
+    const user = authToken && this.store.users.get(authToken.userId);
+    if (!authToken || !user) {
+      return null;
+    }
+
+    const result = { user: toUser(user), authToken: toAuthToken(authToken) };
+    authToken.lastUsedAt = usedAt;
+    return result;
+  }
+
+  async listAuthTokens(userId: string, kind?: AuthTokenKind): Promise<AuthToken[]> {
+    return [...this.store.authTokens.values()]
+      .filter(token => token.userId === userId && (!kind || token.kind === kind))
+      .reverse()
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime())
+      .map(toAuthToken);
+  }
+
+  async deleteAuthToken(userId: string, id: string): Promise<boolean> {
+    const authToken = this.store.authTokens.get(id);
+    if (!authToken || authToken.userId !== userId) {
+      return false;
+    }
+    return this.store.authTokens.delete(id);
+  }
+}
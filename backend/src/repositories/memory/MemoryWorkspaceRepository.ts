@@ -0,0 +1,81 @@
+import { v4 as uuidv4 } from 'uuid';
+import type {
+  Workspace,
+  WorkspaceMember,
+  WorkspaceRole,
+  CreateWorkspaceInput,
+} from '../../models/Workspace.js';
+import type { WorkspaceRepository } from '../types.js';
+import type { MemoryStore, StoredMember, StoredWorkspace } from './store.js';
+
+const memberKey = (workspaceId: string, userId: string) => `${workspaceId}:${userId}`;
+
+function toWorkspace(workspace: StoredWorkspace, role: WorkspaceRole): Workspace {
+  return { ...structuredClone(workspace), role };
+}
+
+/**
+ * Workspaces kept in memory, lost when the process exits
+ */
+export class MemoryWorkspaceRepository implements WorkspaceRepository {
+  constructor(private store: MemoryStore) {}
+
+  async createWorkspace(input: CreateWorkspaceInput): Promise<Workspace> {
+    const workspace: StoredWorkspace = { id: uuidv4(), name: input.name, createdAt: new Date() };
+    this.store.workspaces.set(workspace.id, workspace);
+    await this.addMember(workspace.id, input.ownerId, 'owner');
+    return toWorkspace(workspace, 'owner');
+  }
+
+  async getWorkspacesForUser(userId: string): Promise<Workspace[]> {
+    return [...this.store.members.values()]
+      .filter(member => member.userId === userId)
+      .map(member => toWorkspace(this.store.workspaces.get(member.workspaceId)!, member.role))
+      .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime());
+  }
+
+  async getWorkspaceForUser(id: string, userId: string): Promise<Workspace | null> {
+    const member = this.store.members.get(memberKey(id, userId));
+    return member ? toWorkspace(this.store.workspaces.get(id)!, member.role) : null;
+  }
+
+  async getMembers(workspaceId: string): Promise<WorkspaceMember[]> {
+    const members = [...this.store.members.values()].filter(member => member.workspaceId === workspaceId);
+    const owners = members.filter(member => member.role === 'owner');
+    const others = members.filter(member => member.role !== 'owner');
+
+    return [...owners, ...others].map(member => {
+      const user = this.store.users.get(member.userId)!;
+      return {
+        userId: member.userId,
+        username: user.username,
+        displayName: user.displayName,
+        role: member.role,
+        joinedAt: new Date(member.joinedAt),
+      };
+    });
+  }
+
+  async addMember(workspaceId: string, userId: string, role: WorkspaceRole): Promise<boolean> {
+    const key = memberKey(workspaceId, userId);
+    if (this.store.members.has(key)) {
+      return false;
+    }
+
+    const member: StoredMember = { workspaceId, userId, role, joinedAt: new Date() };
+    this.store.members.set(key, member);
+    return true;
+  }
+
+  async removeMember(workspaceId: string, userId: string): Promise<boolean> {
+    return this.store.members.delete(memberKey(workspaceId, userId));
+  }
+
+  async claimWorkspace(workspaceId: string, userId: string): Promise<boolean> {
+    const hasMembers = [...this.store.members.values()].some(member => member.workspaceId === workspaceId);
+    if (!this.store.workspaces.has(workspaceId) || hasMembers) {
+      return false;
+    }
+    return this.addMember(workspaceId, userId, 'owner');
+  }
+}
@@ -0,0 +1,71 @@
+import type { Thread, Comment } from '../../models/Thread.js';
+import type { User, AuthToken } from '../../models/User.js';
+import type { WorkspaceRole } from '../../models/Workspace.js';
+import type { ScanRun, StoredScanIssue } from '../../models/Scan.js';
+import type { IndexedFile } from '../../models/SearchIndex.js';
+import type { StoredReviewRule } from '../../models/Ruleset.js';
+import type { NewCodeChunk } from '../types.js';
+
+export interface StoredUser extends User {
+  passwordHash: string;
+}
+
+export interface StoredAuthToken extends AuthToken {
+  tokenHash: string;
+}
+
+export interface StoredWorkspace {
+  id: string;
+  name: string;
+  createdAt: Date;
+}
+
+export interface StoredMember {
+  workspaceId: string;
+  userId: string;
+  role: WorkspaceRole;
+  joinedAt: Date;
+}
+
+export interface StoredIndexedFile extends IndexedFile {
+  chunks: NewCodeChunk[];
+}
+
+export interface StoredRule extends StoredReviewRule {
+  workspaceId: string;
+}
+
+/**
+ * Records shared by the in-memory repositories
+ * Maps keep insertion order, which breaks ties between equal timestamps
+ */
+export interface MemoryStore {
+  users: Map<string, StoredUser>;
+  authTokens: Map<string, StoredAuthToken>;
+  workspaces: Map<string, StoredWorkspace>;
+  /** Keyed by `${workspaceId}:${userId}` */
+  members: Map<string, StoredMember>;
+  threads: Map<string, Omit<Thread, 'comments'>>;
+  comments: Map<string, Comment>;
+  scanRuns: Map<string, Omit<ScanRun, 'issues'>>;
+  scanIssues: Map<string, StoredScanIssue>;
+  /** Keyed by `${workspaceId}:${file}` */
+  indexedFiles: Map<string, StoredIndexedFile>;
+  /** Keyed by `${workspaceId}:${ruleId}` */
+  rules: Map<string, StoredRule>;
+}
+
+export function createMemoryStore(): MemoryStore {
+  return {
+    users: new Map(),
+    authTokens: new Map(),
+    workspaces: new Map(),
+    members: new Map(),
+    threads: new Map(),
+    comments: new Map(),
+    scanRuns: new Map(),
+    scanIssues: new Map(),
+    indexedFiles: new Map(),
+    rules: new Map(),
+  };
+}
@@ -0,0 +1,78 @@
+import { query, transaction } from '../../db/connection.js';
+import type { StoredReviewRule } from '../../models/Ruleset.js';
+import type { ScanSeverity } from '../../services/ai/types.js';
+import type { RuleRepository, NewReviewRule } from '../types.js';
+
+// Database row types
+interface RuleRow {
+  workspace_id: string;
+  rule_id: string;
+  description: string;
+  severity: ScanSeverity;
+  example: string | null;
+  updated_at: Date;
+}
+
+/**
+ * Convert database row to StoredReviewRule object
+ */
+function rowToRule(row: RuleRow): StoredReviewRule {
+  return {
+    id: row.rule_id,
+    description: row.description,
+    severity: row.severity,
+    example: row.example,
+    updatedAt: row.updated_at,
+  };
+}
+
+// A row inserted by the upsert has no deleting transaction yet, so xmax is 0
+const UPSERT_RULE = `
+  INSERT INTO review_rules (workspace_id, rule_id, description, severity, example)
+  VALUES ($1, $2, $3, $4, $5)
+  ON CONFLICT (workspace_id, rule_id) DO UPDATE SET
+    description = EXCLUDED.description,
+    severity = EXCLUDED.severity,
+    example = EXCLUDED.example,
+    updated_at = CURRENT_TIMESTAMP
+  RETURNING *, (xmax = 0) AS created`;
+
+function upsertParams(workspaceId: string, rule: NewReviewRule): unknown[] {
+  return [workspaceId, rule.id, rule.description, rule.severity, rule.example];
+}
+
+/**
+ * Team rules stored in PostgreSQL
+ */
+export class PostgresRuleRepository implements RuleRepository {
+  async getRules(workspaceId: string): Promise<StoredReviewRule[]> {
+    const result = await query<RuleRow>(
+      'SELECT * FROM review_rules WHERE workspace_id = $1 ORDER BY rule_id COLLATE "C" ASC',
+      [workspaceId]
+    );
+    return result.rows.map(rowToRule);
+  }
+
+  async replaceRules(workspaceId: string, rules: NewReviewRule[]): Promise<StoredReviewRule[]> {
+    await transaction(async (client) => {
+      await client.query('DELETE FROM review_rules WHERE workspace_id = $1', [workspaceId]);
+      for (const rule of rules) {
+        await client.query(UPSERT_RULE, upsertParams(workspaceId, rule));
+      }
+    });
+    return this.getRules(workspaceId);
+  }
+
+  async saveRule(workspaceId: string, rule: NewReviewRule): Promise<{ rule: StoredReviewRule; created: boolean }> {
+    const result = await query<RuleRow & { created: boolean }>(UPSERT_RULE, upsertParams(workspaceId, rule));
+    return { rule: rowToRule(result.rows[0]), created: result.rows[0].created };
+  }
+
+  async deleteRule(workspaceId: string, ruleId: string): Promise<boolean> {
+    const result = await query(
+      'DELETE FROM review_rules WHERE workspace_id = $1 AND rule_id = $2',
+      [workspaceId, ruleId]
+    );
+    return (result.rowCount ?? 0) > 0;
+  }
+}
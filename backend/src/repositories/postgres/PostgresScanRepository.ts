@@ -0,0 +1,204 @@
+import { query, transaction } from '../../db/connection.js';
+import { v4 as uuidv4 } from 'uuid';
+import type { ScanRun, StoredScanIssue, ScanIssueStatus, ScanRunListOptions } from '../../models/Scan.js';
+import type { ScanSeverity, ScanCategory, ReviewMode, ReviewModeFields } from '../../services/ai/types.js';
+import type { ScanRepository, NewScanRun } from '../types.js';
+import { pickModeFields } from '@ai-code-review/shared';
+
+// Database row types
+interface ScanRunRow {
+  id: string;
+  workspace_id: string;
+  file: string;
+  mode: ReviewMode;
+  provider: string;
+  model: string;
+  created_at: Date;
+}
+
+interface ScanIssueRow {
+  id: string;
+  run_id: string;
+  position: number;
+  fingerprint: string;
+  start_line: number;
+  end_line: number;
+  severity: ScanSeverity;
+  category: ScanCategory;
+  message: string;
+  fix: string;
+  diff: string | null;
+  rule_id: string | null;
+  /** output fields of the run's mode */
+  mode_fields: ReviewModeFields | null;
+  status: ScanIssueStatus;
+  thread_id: string | null;
+}
+
+/**
+ * Convert database row to ScanRun object
+ */
+function rowToRun(row: ScanRunRow, issues: StoredScanIssue[] = []): ScanRun {
+  return {
+    id: row.id,
+    workspaceId: row.workspace_id,
+    file: row.file,
+    mode: row.mode,
+    provider: row.provider,
+    model: row.model,
+    createdAt: row.created_at,
+    issues,
+  };
+}
+
+/**
+ * Convert database row to StoredScanIssue object
+ */
+function rowToIssue(row: ScanIssueRow): StoredScanIssue {
+  return {
+    id: row.id,
+    runId: row.run_id,
+    fingerprint: row.fingerprint,
+    startLine: row.start_line,
+    endLine: row.end_line,
+    severity: row.severity,
+    category: row.category,
+    message: row.message,
+    fix: row.fix,
+    diff: row.diff,
+    ruleId: row.rule_id,
+    ...(row.mode_fields ?? {}),
+    status: row.status,
+    threadId: row.thread_id,
+  };
+}
+
+/**
+ * Scan runs stored in PostgreSQL
+ */
+export class PostgresScanRepository implements ScanRepository {
+  async createScanRun(input: NewScanRun): Promise<ScanRun> {
+    const id = uuidv4();
+
+    return transaction(async (client) => {
+      const runResult = await client.query<ScanRunRow>(
+        `INSERT INTO scan_runs (id, workspace_id, file, mode, provider, model)
+         VALUES ($1, $2, $3, $4, $5, $6)
+         RETURNING *`,
+        [id, input.workspaceId, input.file, input.mode, input.provider, input.model]
+      );
+
+      const issues: StoredScanIssue[] = [];
+      for (const [position, issue] of input.issues.entries()) {
+        const modeFields = pickModeFields(issue);
+        const issueResult = await client.query<ScanIssueRow>(
+          `INSERT INTO scan_issues (
+             id, run_id, position, fingerprint, start_line, end_line, severity, category, message, fix, diff,
+             rule_id, mode_fields, status, thread_id
+           )
+           VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15)
+           RETURNING *`,
+          [
+            uuidv4(),
+            id,
+            position,
+            issue.fingerprint,
+            issue.startLine,
+            issue.endLine,
+            issue.severity,
+            issue.category,
+            issue.message,
+            issue.fix,
+            issue.diff,
+            issue.ruleId,
+            Object.keys(modeFields).length > 0 ? JSON.stringify(modeFields) : null,
+            issue.status,
+            issue.threadId,
+          ]
+        );
+        issues.push(rowToIssue(issueResult.rows[0]));
+      }
+
+      return rowToRun(runResult.rows[0], issues);
+    });
+  }
+
+  async getScanRunById(id: string, workspaceId: string): Promise<ScanRun | null> {
+    const runResult = await query<ScanRunRow>(
+      'SELECT * FROM scan_runs WHERE id = $1 AND workspace_id = $2',
+      [id, workspaceId]
+    );
+
+    if (runResult.rows.length === 0) {
+      return null;
+    }
+
+    const issuesResult = await query<ScanIssueRow>(
+      'SELECT * FROM scan_issues WHERE run_id = $1 ORDER BY position ASC',
+      [id]
+    );
+
+    return rowToRun(runResult.rows[0], issuesResult.rows.map(rowToIssue));
+  }
+
+  async getScanRuns(workspaceId: string, options?: ScanRunListOptions): Promise<ScanRun[]> {
+    const conditions: string[] = ['workspace_id = $1'];
+    const params: unknown[] = [workspaceId];
+    let paramIndex = 2;
+
+    if (options?.file) {
+      conditions.push(`file = $${paramIndex++}`);
+      params.push(options.file);
+    }
+
+    if (options?.mode) {
+      conditions.push(`mode = $${paramIndex++}`);
+      params.push(options.mode);
+    }
+
+    const limitClause = options?.limit ? `LIMIT $${paramIndex}` : '';
+    if (options?.limit) params.push(options.limit);
+
+    const runResult = await query<ScanRunRow>(
+      `SELECT * FROM scan_runs WHERE ${conditions.join(' AND ')} ORDER BY created_at DESC ${limitClause}`,
+      params
+    );
+
+    const runIds = runResult.rows.map(row => row.id);
+
+    if (runIds.length === 0) {
+      return [];
+    }
+
+    const issuesResult = await query<ScanIssueRow>(
+      'SELECT * FROM scan_issues WHERE run_id = ANY($1) ORDER BY position ASC',
+      [runIds]
+    );
+
+    // Group issues by run
+    const issuesByRun = new Map<string, StoredScanIssue[]>();
+    issuesResult.rows.forEach(row => {
+      const issue = rowToIssue(row);
+      const existing = issuesByRun.get(issue.runId) || [];
+      existing.push(issue);
+      issuesByRun.set(issue.runId, existing);
+    });
+
+    return runResult.rows.map(row => rowToRun(row, issuesByRun.get(row.id) || []));
+  }
+
+  async setIssueThread(
+    issueId: string,
+    workspaceId: string,
+    threadId: string | null
+  ): Promise<StoredScanIssue | null> {
+    const result = await query<ScanIssueRow>(
+      `UPDATE scan_issues SET thread_id = $1
+       WHERE id = $2 AND run_id IN (SELECT id FROM scan_runs WHERE workspace_id = $3)
+       RETURNING *`,
+      [threadId, issueId, workspaceId]
+    );
+
+    return result.rows.length > 0 ? rowToIssue(result.rows[0]) : null;
+  }
+}
@@ -0,0 +1,194 @@
+import { query, transaction } from '../../db/connection.js';
+import { v4 as uuidv4 } from 'uuid';
+import { cosineSimilarity } from '../../services/search/embeddings.js';
+import type { IndexedFile, CodeSearchResult } from '../../models/SearchIndex.js';
+import type { SearchRepository, NewIndexedFile, ChunkSearchOptions } from '../types.js';
+
+// Database row types
+interface IndexedFileRow {
+  id: string;
+  workspace_id: string;
+  file: string;
+  language: string;
+  content_hash: string;
+  embedder: string;
+  indexed_at: Date;
+  chunk_count: number;
+}
+
+interface ChunkResultRow {
+  file: string;
+  language: string;
+  start_line: number;
+  end_line: number;
+  symbol: string | null;
+  content: string;
+  score: number;
+}
+
+interface ChunkRow extends Omit<ChunkResultRow, 'score'> {
+  embedding: number[];
+}
+
+/**
+ * Convert database row to IndexedFile object
+ */
+function rowToIndexedFile(row: IndexedFileRow): IndexedFile {
+  return {
+    workspaceId: row.workspace_id,
+    file: row.file,
+    language: row.language,
+    contentHash: row.content_hash,
+    embedder: row.embedder,
+    chunkCount: row.chunk_count,
+    indexedAt: row.indexed_at,
+  };
+}
+
+/**
+ * pgvector text form of an embedding
+ */
+function toVector(embedding: number[]): string {
+  return `[${embedding.join(',')}]`;
+}
+
+const SELECT_INDEXED_FILE = `
+  SELECT f.*, (SELECT COUNT(*)::int FROM code_chunks c WHERE c.indexed_file_id = f.id) AS chunk_count
+  FROM indexed_files f
+  WHERE f.workspace_id = $1 AND f.file = $2`;
+
+/**
+ * Search index stored in PostgreSQL, with embeddings compared by pgvector
+ * Without pgvector, embeddings are stored as arrays and compared in the server
+ */
+export class PostgresSearchRepository implements SearchRepository {
+  private vectorEmbeddings: Promise<boolean> | null = null;
+
+  /**
+   * Whether embeddings are pgvector vectors, from the type migrations gave the column
+   */
+  private usesVectors(): Promise<boolean> {
+    this.vectorEmbeddings ??= query<{ udt_name: string }>(
+      `SELECT udt_name FROM information_schema.columns
+       WHERE table_schema = current_schema() AND table_name = 'code_chunks' AND column_name = 'embedding'`
+    )
+      .then(result => result.rows[0]?.udt_name === 'vector')
+      .catch(error => {
+        this.vectorEmbeddings = null;
+        throw error;
+      });
+    return this.vectorEmbeddings;
+  }
+
+  async getIndexedFile(workspaceId: string, file: string): Promise<IndexedFile | null> {
+    const result = await query<IndexedFileRow>(SELECT_INDEXED_FILE, [workspaceId, file]);
+    return result.rows.length > 0 ? rowToIndexedFile(result.rows[0]) : null;
+  }
+
+  async replaceIndexedFile(input: NewIndexedFile): Promise<IndexedFile> {
+    const vectors = await this.usesVectors();
+    return transaction(async (client) => {
+      await client.query(
+        'DELETE FROM indexed_files WHERE workspace_id = $1 AND file = $2',
+        [input.workspaceId, input.file]
+      );
+
+      const id = uuidv4();
+      await client.query(
+        `INSERT INTO indexed_files (id, workspace_id, file, language, content_hash, embedder)
+         VALUES ($1, $2, $3, $4, $5, $6)`,
+        [id, input.workspaceId, input.file, input.language, input.contentHash, input.embedder]
+      );
+
+      for (const chunk of input.chunks) {
+        await client.query(
+          `INSERT INTO code_chunks (id, indexed_file_id, start_line, end_line, symbol, content, embedding)
+           VALUES ($1, $2, $3, $4, $5, $6, ${vectors ? '$7::vector' : '$7::double precision[]'})`,
+          [
+            uuidv4(),
+            id,
+            chunk.startLine,
+            chunk.endLine,
+            chunk.symbol,
+            chunk.content,
+            vectors ? toVector(chunk.embedding) : chunk.embedding,
+          ]
+        );
+      }
+
+      const result = await client.query<IndexedFileRow>(SELECT_INDEXED_FILE, [input.workspaceId, input.file]);
+      return rowToIndexedFile(result.rows[0]);
+    });
+  }
+
+  async deleteIndexedFile(workspaceId: string, file: string): Promise<boolean> {
+    const result = await query(
+      'DELETE FROM indexed_files WHERE workspace_id = $1 AND file = $2',
+      [workspaceId, file]
+    );
+    return (result.rowCount ?? 0) > 0;
+  }
+
+  async searchChunks(
+    workspaceId: string,
+    embedder: string,
+    embedding: number[],
+    options: ChunkSearchOptions
+  ): Promise<CodeSearchResult[]> {
+    if (!(await this.usesVectors())) {
+      return this.searchChunksInServer(workspaceId, embedder, embedding, options);
+    }
+
+    // <=> is the cosine distance, so similarity is 1 minus it
+    const result = await query<ChunkResultRow>(
+      `SELECT f.file, f.language, c.start_line, c.end_line, c.symbol, c.content,
+              1 - (c.embedding <=> $3::vector) AS score
+       FROM code_chunks c JOIN indexed_files f ON f.id = c.indexed_file_id
+       WHERE f.workspace_id = $1 AND f.embedder = $2 AND f.file IS DISTINCT FROM $4
+       ORDER BY c.embedding <=> $3::vector
+       LIMIT $5`,
+      [workspaceId, embedder, toVector(embedding), options.excludeFile ?? null, options.limit]
+    );
+
+    return result.rows.map(row => ({
+      file: row.file,
+      language: row.language,
+      startLine: row.start_line,
+      endLine: row.end_line,
+      symbol: row.symbol,
+      content: row.content,
+      score: Number(row.score),
+    }));
+  }
+
+  /**
+   * Compare the embeddings of a workspace's chunks in the server, for databases without pgvector
+   */
+  private async searchChunksInServer(
+    workspaceId: string,
+    embedder: string,
+    embedding: number[],
+    options: ChunkSearchOptions
+  ): Promise<CodeSearchResult[]> {
+    const result = await query<ChunkRow>(
+      `SELECT f.file, f.language, c.start_line, c.end_line, c.symbol, c.content, c.embedding
+       FROM code_chunks c JOIN indexed_files f ON f.id = c.indexed_file_id
+       WHERE f.workspace_id = $1 AND f.embedder = $2 AND f.file IS DISTINCT FROM $3
+       ORDER BY f.indexed_at, f.file, c.start_line`,
+      [workspaceId, embedder, options.excludeFile ?? null]
+    );
+
+    return result.rows
+      .map(row => ({
+        file: row.file,
+        language: row.language,
+        startLine: row.start_line,
+        endLine: row.end_line,
+        symbol: row.symbol,
+        content: row.content,
+        score: cosineSimilarity(embedding, row.embedding),
+      }))
+      .sort((a, b) => b.score - a.score)
+      .slice(0, options.limit);
+  }
+}
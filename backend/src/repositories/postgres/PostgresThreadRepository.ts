@@ -0,0 +1,346 @@
+import { query, transaction } from '../../db/connection.js';
+import { v4 as uuidv4 } from 'uuid';
+import type {
+  Thread,
+  ThreadAnchor,
+  DiffSide,
+  Comment,
+  CreateThreadInput,
+  UpdateThreadInput,
+  CreateCommentInput,
+  UpdateCommentInput,
+  ThreadListOptions,
+} from '../../models/Thread.js';
+import type { ThreadRepository } from '../types.js';
+
+// Database row types
+interface ThreadRow {
+  id: string;
+  workspace_id: string;
+  file: string;
+  start_line: number;
+  end_line: number;
+  selected_code: string;
+  repository: string | null;
+  commit_sha: string | null;
+  path: string | null;
+  side: DiffSide | null;
+  base_revision: string | null;
+  head_revision: string | null;
+  anchor: ThreadAnchor | null;
+  outdated: boolean;
+  resolved: boolean;
+  created_at: Date;
+  updated_at: Date;
+}
+
+interface CommentRow {
+  id: string;
+  thread_id: string;
+  author: 'user' | 'ai';
+  author_id: string | null;
+  author_name: string | null;
+  text: string;
+  diff: string | null;
+  applied_at: Date | null;
+  created_at: Date;
+}
+
+/**
+ * Convert database row to Thread object
+ */
+function rowToThread(row: ThreadRow, comments: Comment[] = []): Thread {
+  return {
+    id: row.id,
+    workspaceId: row.workspace_id,
+    file: row.file,
+    startLine: row.start_line,
+    endLine: row.end_line,
+    selectedCode: row.selected_code,
+    source: row.repository && row.commit_sha && row.path
+      ? { repository: row.repository, commitSha: row.commit_sha, path: row.path }
+      : null,
+    side: row.side,
+    baseRevision: row.base_revision,
+    headRevision: row.head_revision,
+    anchor: row.anchor ?? null,
+    outdated: row.outdated ?? false,
+    resolved: row.resolved,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+    comments,
+  };
+}
+
+/**
+ * Convert database row to Comment object
+ */
+function rowToComment(row: CommentRow): Comment {
+  return {
+    id: row.id,
+    threadId: row.thread_id,
+    author: row.author,
+    authorId: row.author_id ?? null,
+    authorName: row.author_name ?? null,
+    text: row.text,
+    diff: row.diff,
+    appliedAt: row.applied_at ?? null,
+    createdAt: row.created_at,
+  };
+}
+
+/**
+ * Threads stored in PostgreSQL
+ */
+export class PostgresThreadRepository implements ThreadRepository {
+  async createThread(input: CreateThreadInput): Promise<Thread | null> {
+    const id = input.id ?? uuidv4();
+
+    return transaction(async (client) => {
+      // Insert thread
+      const threadResult = await client.query<ThreadRow>(
+        `INSERT INTO threads (
+           id, workspace_id, file, start_line, end_line, selected_code, repository, commit_sha, path,
+           side, base_revision, head_revision, anchor
+         )
+         VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13)
+         ON CONFLICT (id) DO NOTHING
+         RETURNING *`,
+        [
+          id,
+          input.workspaceId,
+          input.file,
+          input.startLine,
+          input.endLine,
+          input.selectedCode,
+          input.source?.repository ?? null,
+          input.source?.commitSha ?? null,
+          input.source?.path ?? null,
+          input.side ?? null,
+          input.baseRevision ?? null,
+          input.headRevision ?? null,
+          input.anchor ? JSON.stringify(input.anchor) : null,
+        ]
+      );
+
+      if (threadResult.rows.length === 0) {
+        return null;
+      }
+
+      const thread = rowToThread(threadResult.rows[0]);
+      const comments: Comment[] = [];
+
+      // Add initial comment if provided
+      if (input.initialComment) {
+        const commentId = uuidv4();
+        const commentResult = await client.query<CommentRow>(
+          `INSERT INTO comments (id, thread_id, author, author_id, author_name, text)
+           VALUES ($1, $2, $3, $4, $5, $6)
+           RETURNING *`,
+          [commentId, id, 'user', input.authorId || null, input.authorName || null, input.initialComment]
+        );
+        comments.push(rowToComment(commentResult.rows[0]));
+      }
+
+      return { ...thread, comments };
+    });
+  }
+
+  async getThreadById(id: string, workspaceId: string): Promise<Thread | null> {
+    const threadResult = await query<ThreadRow>(
+      'SELECT * FROM threads WHERE id = $1 AND workspace_id = $2',
+      [id, workspaceId]
+    );
+
+    if (threadResult.rows.length === 0) {
+      return null;
+    }
+
+    const commentsResult = await query<CommentRow>(
+      'SELECT * FROM comments WHERE thread_id = $1 ORDER BY created_at ASC',
+      [id]
+    );
+
+    const comments = commentsResult.rows.map(rowToComment);
+    return rowToThread(threadResult.rows[0], comments);
+  }
+
+  async getThreads(workspaceId: string, options?: ThreadListOptions): Promise<Thread[]> {
+    const conditions: string[] = ['workspace_id = $1'];
+    const params: unknown[] = [workspaceId];
+    let paramIndex = 2;
+
+    if (options?.file) {
+      conditions.push(`file = $${paramIndex++}`);
+      params.push(options.file);
+    }
+
+    if (options?.resolved !== undefined) {
+      conditions.push(`resolved = $${paramIndex++}`);
+      params.push(options.resolved);
+    }
+
+    const whereClause = `WHERE ${conditions.join(' AND ')}`;
+    const limitClause = options?.limit ? `LIMIT $${paramIndex++}` : '';
+    const offsetClause = options?.offset ? `OFFSET $${paramIndex}` : '';
+
+    if (options?.limit) params.push(options.limit);
+    if (options?.offset) params.push(options.offset);
+
+    const threadResult = await query<ThreadRow>(
+      `SELECT * FROM threads ${whereClause} ORDER BY created_at DESC ${limitClause} ${offsetClause}`,
+      params
+    );
+
+    // Fetch comments for all threads
+    const threadIds = threadResult.rows.map(row => row.id);
+
+    if (threadIds.length === 0) {
+      return [];
+    }
+
+    const commentsResult = await query<CommentRow>(
+      `SELECT * FROM comments WHERE thread_id = ANY($1) ORDER BY created_at ASC`,
+      [threadIds]
+    );
+
+    // Group comments by thread
+    const commentsByThread = new Map<string, Comment[]>();
+    commentsResult.rows.forEach(row => {
+      const comment = rowToComment(row);
+      const existing = commentsByThread.get(comment.threadId) || [];
+      existing.push(comment);
+      commentsByThread.set(comment.threadId, existing);
+    });
+
+    return threadResult.rows.map(row =>
+      rowToThread(row, commentsByThread.get(row.id) || [])
+    );
+  }
+
+  async updateThread(
+    id: string,
+    workspaceId: string,
+    input: UpdateThreadInput
+  ): Promise<Thread | null> {
+    const updates: string[] = [];
+    const params: unknown[] = [];
+    let paramIndex = 1;
+
+    if (input.resolved !== undefined) {
+      updates.push(`resolved = $${paramIndex++}`);
+      params.push(input.resolved);
+    }
+
+    if (input.startLine !== undefined && input.endLine !== undefined) {
+      updates.push(`start_line = $${paramIndex++}`, `end_line = $${paramIndex++}`);
+      params.push(input.startLine, input.endLine);
+    }
+
+    if (input.outdated !== undefined) {
+      updates.push(`outdated = $${paramIndex++}`);
+      params.push(input.outdated);
+    }
+
+    if (updates.length === 0) {
+      return this.getThreadById(id, workspaceId);
+    }
+
+    params.push(id, workspaceId);
+
+    const result = await query<ThreadRow>(
+      `UPDATE threads SET ${updates.join(', ')}
+       WHERE id = $${paramIndex} AND workspace_id = $${paramIndex + 1}
+       RETURNING *`,
+      params
+    );
+
+    if (result.rows.length === 0) {
+      return null;
+    }
+
+    // Fetch comments
+    const commentsResult = await query<CommentRow>(
+      'SELECT * FROM comments WHERE thread_id = $1 ORDER BY created_at ASC',
+      [id]
+    );
+
+    return rowToThread(result.rows[0], commentsResult.rows.map(rowToComment));
+  }
+
+  async deleteThread(id: string, workspaceId: string): Promise<boolean> {
+    const result = await query('DELETE FROM threads WHERE id = $1 AND workspace_id = $2', [
+      id,
+      workspaceId,
+    ]);
+    return (result.rowCount ?? 0) > 0;
+  }
+
+  async addComment(input: CreateCommentInput): Promise<Comment | null> {
+    const id = input.id ?? uuidv4();
+
+    const result = await query<CommentRow>(
+      `INSERT INTO comments (id, thread_id, author, author_id, author_name, text, diff)
+       VALUES ($1, $2, $3, $4, $5, $6, $7)
+       ON CONFLICT (id) DO NOTHING
+       RETURNING *`,
+      [
+        id,
+        input.threadId,
+        input.author,
+        input.authorId || null,
+        input.authorName || null,
+        input.text,
+        input.diff || null,
+      ]
+    );
+
+    // A retry returns the stored comment; the ID of another thread's comment is not revealed
+    if (result.rows.length === 0) {
+      const existing = await query<CommentRow>(
+        'SELECT * FROM comments WHERE id = $1 AND thread_id = $2',
+        [id, input.threadId]
+      );
+      return existing.rows[0] ? rowToComment(existing.rows[0]) : null;
+    }
+
+    // Update thread's updated_at
+    await query('UPDATE threads SET updated_at = CURRENT_TIMESTAMP WHERE id = $1', [
+      input.threadId,
+    ]);
+
+    return rowToComment(result.rows[0]);
+  }
+
+  async updateComment(
+    id: string,
+    threadId: string,
+    input: UpdateCommentInput
+  ): Promise<Comment | null> {
+    const result = await query<CommentRow>(
+      'UPDATE comments SET applied_at = $1 WHERE id = $2 AND thread_id = $3 RETURNING *',
+      [input.appliedAt, id, threadId]
+    );
+
+    if (result.rows.length === 0) {
+      return null;
+    }
+
+    // Update thread's updated_at
+    await query('UPDATE threads SET updated_at = CURRENT_TIMESTAMP WHERE id = $1', [threadId]);
+
+    return rowToComment(result.rows[0]);
+  }
+
+  async getComments(threadId: string, workspaceId: string): Promise<Comment[]> {
+    const result = await query<CommentRow>(
+      `SELECT c.* FROM comments c
+       JOIN threads t ON t.id = c.thread_id
+       WHERE c.thread_id = $1 AND t.workspace_id = $2
+       ORDER BY c.created_at ASC`,
+      [threadId, workspaceId]
+    );
+
+    return result.rows.map(rowToComment);
+  }
+}
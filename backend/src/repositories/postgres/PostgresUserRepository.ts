@@ -0,0 +1,148 @@
+import { query } from '../../db/connection.js';
+import { v4 as uuidv4 } from 'uuid';
+import type { User, AuthToken, AuthTokenKind } from '../../models/User.js';
+import type { UserRepository, NewUser, NewAuthToken } from '../types.js';
+
+// Database row types
+interface UserRow {
+  id: string;
+  username: string;
+  display_name: string;
+  password_hash: string;
+  created_at: Date;
+}
+
+interface AuthTokenRow {
+  id: string;
+  user_id: string;
+  token_hash: string;
+  kind: AuthTokenKind;
+  name: string | null;
+  created_at: Date;
+  last_used_at: Date | null;
+  expires_at: Date | null;
+}
+
+/**
+ * Convert database row to User object
+ * The password hash is only returned by getPasswordHash
+ */
+function rowToUser(row: UserRow): User {
+  return {
+    id: row.id,
+    username: row.username,
+    displayName: row.display_name,
+    createdAt: row.created_at,
+  };
+}
+
+/**
+ * Convert database row to AuthToken object
+ */
+function rowToAuthToken(row: AuthTokenRow): AuthToken {
+  return {
+    id: row.id,
+    userId: row.user_id,
+    kind: row.kind,
+    name: row.name,
+    createdAt: row.created_at,
+    lastUsedAt: row.last_used_at,
+    expiresAt: row.expires_at,
+  };
+}
+
+/**
+ * Users and tokens stored in PostgreSQL
+ */
+export class PostgresUserRepository implements UserRepository {
+  async createUser(input: NewUser): Promise<User | null> {
+    const result = await query<UserRow>(
+      `INSERT INTO users (id, username, display_name, password_hash)
+       VALUES ($1, $2, $3, $4)
+       ON CONFLICT (username) DO NOTHING
+       RETURNING *`,
+      [uuidv4(), input.username, input.displayName, input.passwordHash]
+    );
+
+    return result.rows.length > 0 ? rowToUser(result.rows[0]) : null;
+  }
+
+  async getUserById(id: string): Promise<User | null> {
+    const result = await query<UserRow>('SELECT * FROM users WHERE id = $1', [id]);
+    return result.rows.length > 0 ? rowToUser(result.rows[0]) : null;
+  }
+
+  async getUserByUsername(username: string): Promise<User | null> {
+    const result = await query<UserRow>('SELECT * FROM users WHERE username = $1', [username]);
+    return result.rows.length > 0 ? rowToUser(result.rows[0]) : null;
+  }
+
+  async getPasswordHash(username: string): Promise<{ user: User; passwordHash: string } | null> {
+    const result = await query<UserRow>('SELECT * FROM users WHERE username = $1', [username]);
+
+    if (result.rows.length === 0) {
+      return null;
+    }
+
+    const row = result.rows[0];
+    return { user: rowToUser(row), passwordHash: row.password_hash };
+  }
+
+  async createAuthToken(input: NewAuthToken): Promise<AuthToken> {
+    const result = await query<AuthTokenRow>(
+      `INSERT INTO auth_tokens (id, user_id, token_hash, kind, name, expires_at)
+       VALUES ($1, $2, $3, $4, $5, $6)
+       RETURNING *`,
+      [uuidv4(), input.userId, input.tokenHash, input.kind, input.name, input.expiresAt]
+    );
+
+    return rowToAuthToken(result.rows[0]);
+  }
+
+  async useAuthToken(tokenHash: string): Promise<{ user: User; authToken: AuthToken } | null> {
+    const result = await query<AuthTokenRow & { user_username: string; user_display_name: string; user_created_at: Date }>(
+      `SELECT t.*, u.username AS user_username, u.display_name AS user_display_name, u.created_at AS user_created_at
+       FROM auth_tokens t
+       JOIN users u ON u.id = t.user_id
+       WHERE t.token_hash = $1
+         AND (t.expires_at IS NULL OR t.expires_at > CURRENT_TIMESTAMP)`,
+      [tokenHash]
+    );
+
+    if (result.rows.length === 0) {
+      return null;
+    }
+
+    const row = result.rows[0];
+    await query('UPDATE auth_tokens SET last_used_at = CURRENT_TIMESTAMP WHERE id = $1', [row.id]);
+
+    return {
+      user: {
+        id: row.user_id,
+        username: row.user_username,
+        displayName: row.user_display_name,
+        createdAt: row.user_created_at,
+      },
+      authToken: rowToAuthToken(row),
+    };
+  }
+
+  async listAuthTokens(userId: string, kind?: AuthTokenKind): Promise<AuthToken[]> {
+    const result = kind
+      ? await query<AuthTokenRow>(
+          'SELECT * FROM auth_tokens WHERE user_id = $1 AND kind = $2 ORDER BY created_at DESC',
+          [userId, kind]
+        )
+      : await query<AuthTokenRow>(
+          'SELECT * FROM auth_tokens WHERE user_id = $1 ORDER BY created_at DESC',
+          [userId]
+        );
+
+    return result.rows.map(rowToAuthToken);
+  }
+
+  async deleteAuthToken(userId: string, id: string): Promise<boolean> {
+    const result = await query('DELETE FROM auth_tokens WHERE id = $1 AND user_id = $2', [id, userId]);
+    return (result.rowCount ?? 0) > 0;
+  }
+}
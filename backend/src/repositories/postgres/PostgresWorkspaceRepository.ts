@@ -0,0 +1,143 @@
+import { query, transaction } from '../../db/connection.js';
+import { v4 as uuidv4 } from 'uuid';
+import type {
+  Workspace,
+  WorkspaceMember,
+  WorkspaceRole,
+  CreateWorkspaceInput,
+} from '../../models/Workspace.js';
+import type { WorkspaceRepository } from '../types.js';
+
+// Database row types
+interface WorkspaceRow {
+  id: string;
+  name: string;
+  role: WorkspaceRole;
+  created_at: Date;
+}
+
+interface WorkspaceMemberRow {
+  user_id: string;
+  username: string;
+  display_name: string;
+  role: WorkspaceRole;
+  created_at: Date;
+}
+
+/**
+ * Convert database row to Workspace object
+ */
+function rowToWorkspace(row: WorkspaceRow): Workspace {
+  return {
+    id: row.id,
+    name: row.name,
+    role: row.role,
+    createdAt: row.created_at,
+  };
+}
+
+/**
+ * Convert database row to WorkspaceMember object
+ */
+function rowToMember(row: WorkspaceMemberRow): WorkspaceMember {
+  return {
+    userId: row.user_id,
+    username: row.username,
+    displayName: row.display_name,
+    role: row.role,
+    joinedAt: row.created_at,
+  };
+}
+
+/**
+ * Workspaces stored in PostgreSQL
+ */
+export class PostgresWorkspaceRepository implements WorkspaceRepository {
+  async createWorkspace(input: CreateWorkspaceInput): Promise<Workspace> {
+    const id = uuidv4();
+
+    return transaction(async (client) => {
+      const result = await client.query<Omit<WorkspaceRow, 'role'>>(
+        `INSERT INTO workspaces (id, name)
+         VALUES ($1, $2)
+         RETURNING *`,
+        [id, input.name]
+      );
+
+      await client.query(
+        `INSERT INTO workspace_members (workspace_id, user_id, role)
+         VALUES ($1, $2, 'owner')`,
+        [id, input.ownerId]
+      );
+
+      return rowToWorkspace({ ...result.rows[0], role: 'owner' });
+    });
+  }
+
+  async getWorkspacesForUser(userId: string): Promise<Workspace[]> {
+    const result = await query<WorkspaceRow>(
+      `SELECT w.*, m.role
+       FROM workspaces w
+       JOIN workspace_members m ON m.workspace_id = w.id
+       WHERE m.user_id = $1
+       ORDER BY w.created_at ASC`,
+      [userId]
+    );
+
+    return result.rows.map(rowToWorkspace);
+  }
+
+  async getWorkspaceForUser(id: string, userId: string): Promise<Workspace | null> {
+    const result = await query<WorkspaceRow>(
+      `SELECT w.*, m.role
+       FROM workspaces w
+       JOIN workspace_members m ON m.workspace_id = w.id
+       WHERE w.id = $1 AND m.user_id = $2`,
+      [id, userId]
+    );
+
+    return result.rows.length > 0 ? rowToWorkspace(result.rows[0]) : null;
+  }
+
+  async getMembers(workspaceId: string): Promise<WorkspaceMember[]> {
+    const result = await query<WorkspaceMemberRow>(
+      `SELECT m.user_id, m.role, m.created_at, u.username, u.display_name
+       FROM workspace_members m
+       JOIN users u ON u.id = m.user_id
+       WHERE m.workspace_id = $1
+       ORDER BY m.role = 'owner' DESC, m.created_at ASC`,
+      [workspaceId]
+    );
+
+    return result.rows.map(rowToMember);
+  }
+
+  async addMember(workspaceId: string, userId: string, role: WorkspaceRole): Promise<boolean> {
+    const result = await query(
+      `INSERT INTO workspace_members (workspace_id, user_id, role)
+       VALUES ($1, $2, $3)
+       ON CONFLICT (workspace_id, user_id) DO NOTHING`,
+      [workspaceId, userId, role]
+    );
+    return (result.rowCount ?? 0) > 0;
+  }
+
+  async removeMember(workspaceId: string, userId: string): Promise<boolean> {
+    const result = await query(
+      'DELETE FROM workspace_members WHERE workspace_id = $1 AND user_id = $2',
+      [workspaceId, userId]
+    );
+    return (result.rowCount ?? 0) > 0;
+  }
+
+  async claimWorkspace(workspaceId: string, userId: string): Promise<boolean> {
+    const result = await query(
+      `INSERT INTO workspace_members (workspace_id, user_id, role)
+       SELECT id, $2, 'owner' FROM workspaces
+       WHERE id = $1 AND NOT EXISTS (SELECT 1 FROM workspace_members WHERE workspace_id = $1)
+       ON CONFLICT (workspace_id, user_id) DO NOTHING`,
+      [workspaceId, userId]
+    );
+    return (result.rowCount ?? 0) > 0;
+  }
+}
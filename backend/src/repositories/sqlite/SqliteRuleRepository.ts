@@ -0,0 +1,83 @@
+import type Database from 'better-sqlite3';
+import type { StoredReviewRule } from '../../models/Ruleset.js';
+import type { ScanSeverity } from '../../services/ai/types.js';
+import type { RuleRepository, NewReviewRule } from '../types.js';
+import { now, toDate } from './database.js';
+
+// Database row types
+interface RuleRow {
+  workspace_id: string;
+  rule_id: string;
+  description: string;
+  severity: ScanSeverity;
+  example: string | null;
+  updated_at: string;
+}
+
+/**
+ * Convert database row to StoredReviewRule object
+ */
+function rowToRule(row: RuleRow): StoredReviewRule {
+  return {
+    id: row.rule_id,
+    description: row.description,
+    severity: row.severity,
+    example: row.example,
+    updatedAt: toDate(row.updated_at),
+  };
+}
+
+/**
+ * Team rules stored in a SQLite file
+ */
+export class SqliteRuleRepository implements RuleRepository {
+  constructor(private db: Database.Database) {}
+
+  async getRules(workspaceId: string): Promise<StoredReviewRule[]> {
+    return this.db
+      .prepare<[string], RuleRow>('SELECT * FROM review_rules WHERE workspace_id = ? ORDER BY rule_id ASC')
+      .all(workspaceId)
+      .map(rowToRule);
+  }
+
+  async replaceRules(workspaceId: string, rules: NewReviewRule[]): Promise<StoredReviewRule[]> {
+    this.db.transaction(() => {
+      this.db.prepare('DELETE FROM review_rules WHERE workspace_id = ?').run(workspaceId);
+      for (const rule of rules) {
+        this.upsert(workspaceId, rule);
+      }
+    })();
+    return this.getRules(workspaceId);
+  }
+
+  async saveRule(workspaceId: string, rule: NewReviewRule): Promise<{ rule: StoredReviewRule; created: boolean }> {
+    return this.db.transaction(() => {
+      const existing = this.db
+        .prepare('SELECT 1 FROM review_rules WHERE workspace_id = ? AND rule_id = ?')
+        .get(workspaceId, rule.id);
+      return { rule: rowToRule(this.upsert(workspaceId, rule)), created: !existing };
+    })();
+  }
+
+  async deleteRule(workspaceId: string, ruleId: string): Promise<boolean> {
+    const result = this.db
+      .prepare('DELETE FROM review_rules WHERE workspace_id = ? AND rule_id = ?')
+      .run(workspaceId, ruleId);
+    return result.changes > 0;
+  }
+
+  private upsert(workspaceId: string, rule: NewReviewRule): RuleRow {
+    return this.db
+      .prepare<unknown[], RuleRow>(
+        `INSERT INTO review_rules (workspace_id, rule_id, description, severity, example, updated_at)
+         VALUES (?, ?, ?, ?, ?, ?)
+         ON CONFLICT (workspace_id, rule_id) DO UPDATE SET
+           description = excluded.description,
+           severity = excluded.severity,
+           example = excluded.example,
+           updated_at = excluded.updated_at
+         RETURNING *`
+      )
+      .get(workspaceId, rule.id, rule.description, rule.severity, rule.example, now())!;
+  }
+}
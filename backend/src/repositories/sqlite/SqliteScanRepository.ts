@@ -0,0 +1,188 @@
+import type Database from 'better-sqlite3';
+import { v4 as uuidv4 } from 'uuid';
+import type { ScanRun, StoredScanIssue, ScanIssueStatus, ScanRunListOptions } from '../../models/Scan.js';
+import type { ScanSeverity, ScanCategory, ReviewMode, ReviewModeFields } from '../../services/ai/types.js';
+import type { ScanRepository, NewScanRun } from '../types.js';
+import { pickModeFields } from '@ai-code-review/shared';
+import { now, toDate } from './database.js';
+
+// Database row types
+interface ScanRunRow {
+  id: string;
+  workspace_id: string;
+  file: string;
+  mode: ReviewMode;
+  provider: string;
+  model: string;
+  created_at: string;
+}
+
+interface ScanIssueRow {
+  id: string;
+  run_id: string;
+  position: number;
+  fingerprint: string;
+  start_line: number;
+  end_line: number;
+  severity: ScanSeverity;
+  category: ScanCategory;
+  message: string;
+  fix: string;
+  diff: string | null;
+  rule_id: string | null;
+  /** JSON of the output fields of the run's mode */
+  mode_fields: string | null;
+  status: ScanIssueStatus;
+  thread_id: string | null;
+}
+
+/**
+ * Convert database row to ScanRun object
+ */
+function rowToRun(row: ScanRunRow, issues: StoredScanIssue[] = []): ScanRun {
+  return {
+    id: row.id,
+    workspaceId: row.workspace_id,
+    file: row.file,
+    mode: row.mode,
+    provider: row.provider,
+    model: row.model,
+    createdAt: toDate(row.created_at),
+    issues,
+  };
+}
+
+/**
+ * Convert database row to StoredScanIssue object
+ */
+function rowToIssue(row: ScanIssueRow): StoredScanIssue {
+  return {
+    id: row.id,
+    runId: row.run_id,
+    fingerprint: row.fingerprint,
+    startLine: row.start_line,
+    endLine: row.end_line,
+    severity: row.severity,
+    category: row.category,
+    message: row.message,
+    fix: row.fix,
+    diff: row.diff,
+    ruleId: row.rule_id,
+    ...(row.mode_fields ? (JSON.parse(row.mode_fields) as ReviewModeFields) : {}),
+    status: row.status,
+    threadId: row.thread_id,
+  };
+}
+
+/**
+ * Scan runs stored in a SQLite file
+ */
+export class SqliteScanRepository implements ScanRepository {
+  constructor(private db: Database.Database) {}
+
+  private issuesOf(runId: string): StoredScanIssue[] {
+    return this.db
+      .prepare<[string], ScanIssueRow>('SELECT * FROM scan_issues WHERE run_id = ? ORDER BY position ASC')
+      .all(runId)
+      .map(rowToIssue);
+  }
+
+  async createScanRun(input: NewScanRun): Promise<ScanRun> {
+    const id = uuidv4();
+    const createdAt = now();
+
+    return this.db.transaction((): ScanRun => {
+      const row = this.db
+        .prepare<unknown[], ScanRunRow>(
+          `INSERT INTO scan_runs (id, workspace_id, file, mode, provider, model, created_at)
+           VALUES (?, ?, ?, ?, ?, ?, ?)
+           RETURNING *`
+        )
+        .get(id, input.workspaceId, input.file, input.mode, input.provider, input.model, createdAt)!;
+
+      const insertIssue = this.db.prepare(
+        `INSERT INTO scan_issues (
+           id, run_id, position, fingerprint, start_line, end_line, severity, category, message, fix, diff,
+           rule_id, mode_fields, status, thread_id
+         )
+         VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`
+      );
+      input.issues.forEach((issue, position) => {
+        const modeFields = pickModeFields(issue);
+        insertIssue.run(
+          uuidv4(),
+          id,
+          position,
+          issue.fingerprint,
+          issue.startLine,
+          issue.endLine,
+          issue.severity,
+          issue.category,
+          issue.message,
+          issue.fix,
+          issue.diff,
+          issue.ruleId,
+          Object.keys(modeFields).length > 0 ? JSON.stringify(modeFields) : null,
+          issue.status,
+          issue.threadId
+        );
+      });
+
+      return rowToRun(row, this.issuesOf(id));
+    })();
+  }
+
+  async getScanRunById(id: string, workspaceId: string): Promise<ScanRun | null> {
+    const row = this.db
+      .prepare<[string, string], ScanRunRow>('SELECT * FROM scan_runs WHERE id = ? AND workspace_id = ?')
+      .get(id, workspaceId);
+
+    return row ? rowToRun(row, this.issuesOf(id)) : null;
+  }
+
+  async getScanRuns(workspaceId: string, options?: ScanRunListOptions): Promise<ScanRun[]> {
+    const conditions: string[] = ['workspace_id = ?'];
+    const params: unknown[] = [workspaceId];
+
+    if (options?.file) {
+      conditions.push('file = ?');
+      params.push(options.file);
+    }
+
+    if (options?.mode) {
+      conditions.push('mode = ?');
+      params.push(options.mode);
+    }
+
+    let limit = '';
+    if (options?.limit) {
+      limit = 'LIMIT ?';
+      params.push(options.limit);
+    }
+
+    const rows = this.db
+      .prepare<unknown[], ScanRunRow>(
+        `SELECT * FROM scan_runs WHERE ${conditions.join(' AND ')}
+         ORDER BY created_at DESC, rowid DESC ${limit}`
+      )
+      .all(...params);
+
+    return rows.map(row => rowToRun(row, this.issuesOf(row.id)));
+  }
+
+  async setIssueThread(
+    issueId: string,
+    workspaceId: string,
+    threadId: string | null
+  ): Promise<StoredScanIssue | null> {
+    const row = this.db
+      .prepare<unknown[], ScanIssueRow>(
+        `UPDATE scan_issues SET thread_id = ?
+         WHERE id = ? AND run_id IN (SELECT id FROM scan_runs WHERE workspace_id = ?)
+         RETURNING *`
+      )
+      .get(threadId, issueId, workspaceId);
+
+    return row ? rowToIssue(row) : null;
+  }
+}
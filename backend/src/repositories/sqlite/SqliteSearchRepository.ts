@@ -0,0 +1,143 @@
+import type Database from 'better-sqlite3';
+import { v4 as uuidv4 } from 'uuid';
+import type { IndexedFile, CodeSearchResult } from '../../models/SearchIndex.js';
+import { cosineSimilarity } from '../../services/search/embeddings.js';
+import type { SearchRepository, NewIndexedFile, ChunkSearchOptions } from '../types.js';
+import { now, toDate } from './database.js';
+
+// Database row types
+interface IndexedFileRow {
+  id: string;
+  workspace_id: string;
+  file: string;
+  language: string;
+  content_hash: string;
+  embedder: string;
+  indexed_at: string;
+  chunk_count: number;
+}
+
+interface ChunkRow {
+  file: string;
+  language: string;
+  start_line: number;
+  end_line: number;
+  symbol: string | null;
+  content: string;
+  embedding: Buffer;
+}
+
+/**
+ * Convert database row to IndexedFile object
+ */
+function rowToIndexedFile(row: IndexedFileRow): IndexedFile {
+  return {
+    workspaceId: row.workspace_id,
+    file: row.file,
+    language: row.language,
+    contentHash: row.content_hash,
+    embedder: row.embedder,
+    chunkCount: row.chunk_count,
+    indexedAt: toDate(row.indexed_at),
+  };
+}
+
+function toBlob(embedding: number[]): Buffer {
+  return Buffer.from(new Float32Array(embedding).buffer);
+}
+
+function fromBlob(blob: Buffer): Float32Array {
+  // Copied, as the buffer may not be aligned for a Float32Array view
+  return new Float32Array(blob.buffer.slice(blob.byteOffset, blob.byteOffset + blob.byteLength));
+}
+
+const SELECT_INDEXED_FILE = `
+  SELECT f.*, (SELECT COUNT(*) FROM code_chunks c WHERE c.indexed_file_id = f.id) AS chunk_count
+  FROM indexed_files f
+  WHERE f.workspace_id = ? AND f.file = ?`;
+
+/**
+ * Search index stored in a SQLite file
+ * Searches read the chunks of the workspace and compare them with the query in JavaScript
+ */
+export class SqliteSearchRepository implements SearchRepository {
+  constructor(private db: Database.Database) {}
+
+  async getIndexedFile(workspaceId: string, file: string): Promise<IndexedFile | null> {
+    const row = this.db.prepare<[string, string], IndexedFileRow>(SELECT_INDEXED_FILE).get(workspaceId, file);
+    return row ? rowToIndexedFile(row) : null;
+  }
+
+  async replaceIndexedFile(input: NewIndexedFile): Promise<IndexedFile> {
+    return this.db.transaction((): IndexedFile => {
+      this.db
+        .prepare('DELETE FROM indexed_files WHERE workspace_id = ? AND file = ?')
+        .run(input.workspaceId, input.file);
+
+      const id = uuidv4();
+      this.db
+        .prepare(
+          `INSERT INTO indexed_files (id, workspace_id, file, language, content_hash, embedder, indexed_at)
+           VALUES (?, ?, ?, ?, ?, ?, ?)`
+        )
+        .run(id, input.workspaceId, input.file, input.language, input.contentHash, input.embedder, now());
+
+      const insertChunk = this.db.prepare(
+        `INSERT INTO code_chunks (id, indexed_file_id, start_line, end_line, symbol, content, embedding)
+         VALUES (?, ?, ?, ?, ?, ?, ?)`
+      );
+      for (const chunk of input.chunks) {
+        insertChunk.run(
+          uuidv4(),
+          id,
+          chunk.startLine,
+          chunk.endLine,
+          chunk.symbol,
+          chunk.content,
+          toBlob(chunk.embedding)
+        );
+      }
+
+      const row = this.db
+        .prepare<[string, string], IndexedFileRow>(SELECT_INDEXED_FILE)
+        .get(input.workspaceId, input.file)!;
+      return rowToIndexedFile(row);
+    })();
+  }
+
+  async deleteIndexedFile(workspaceId: string, file: string): Promise<boolean> {
+    const result = this.db
+      .prepare('DELETE FROM indexed_files WHERE workspace_id = ? AND file = ?')
+      .run(workspaceId, file);
+    return result.changes > 0;
+  }
+
+  async searchChunks(
+    workspaceId: string,
+    embedder: string,
+    embedding: number[],
+    options: ChunkSearchOptions
+  ): Promise<CodeSearchResult[]> {
+    const rows = this.db
+      .prepare<unknown[], ChunkRow>(
+        `SELECT f.file, f.language, c.start_line, c.end_line, c.symbol, c.content, c.embedding
+         FROM code_chunks c JOIN indexed_files f ON f.id = c.indexed_file_id
+         WHERE f.workspace_id = ? AND f.embedder = ? AND f.file IS NOT ?
+         ORDER BY f.rowid, c.start_line`
+      )
+      .all(workspaceId, embedder, options.excludeFile ?? null);
+
+    return rows
+      .map(row => ({
+        file: row.file,
+        language: row.language,
+        startLine: row.start_line,
+        endLine: row.end_line,
+        symbol: row.symbol,
+        content: row.content,
+        score: cosineSimilarity(embedding, fromBlob(row.embedding)),
+      }))
+      .sort((a, b) => b.score - a.score)
+      .slice(0, options.limit);
+  }
+}
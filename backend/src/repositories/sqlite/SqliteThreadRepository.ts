@@ -0,0 +1,312 @@
+import type Database from 'better-sqlite3';
+import { v4 as uuidv4 } from 'uuid';
+import type {
+  Thread,
+  ThreadAnchor,
+  DiffSide,
+  Comment,
+  CreateThreadInput,
+  UpdateThreadInput,
+  CreateCommentInput,
+  UpdateCommentInput,
+  ThreadListOptions,
+} from '../../models/Thread.js';
+import type { ThreadRepository } from '../types.js';
+import { now, toDate } from './database.js';
+
+// Database row types
+interface ThreadRow {
+  id: string;
+  workspace_id: string;
+  file: string;
+  start_line: number;
+  end_line: number;
+  selected_code: string;
+  repository: string | null;
+  commit_sha: string | null;
+  path: string | null;
+  side: DiffSide | null;
+  base_revision: string | null;
+  head_revision: string | null;
+  /** JSON of the anchor */
+  anchor: string | null;
+  outdated: number;
+  resolved: number;
+  created_at: string;
+  updated_at: string;
+}
+
+interface CommentRow {
+  id: string;
+  thread_id: string;
+  author: 'user' | 'ai';
+  author_id: string | null;
+  author_name: string | null;
+  text: string;
+  diff: string | null;
+  applied_at: string | null;
+  created_at: string;
+}
+
+/**
+ * Convert database row to Thread object
+ */
+function rowToThread(row: ThreadRow, comments: Comment[] = []): Thread {
+  return {
+    id: row.id,
+    workspaceId: row.workspace_id,
+    file: row.file,
+    startLine: row.start_line,
+    endLine: row.end_line,
+    selectedCode: row.selected_code,
+    source: row.repository && row.commit_sha && row.path
+      ? { repository: row.repository, commitSha: row.commit_sha, path: row.path }
+      : null,
+    side: row.side,
+    baseRevision: row.base_revision,
+    headRevision: row.head_revision,
+    anchor: row.anchor ? (JSON.parse(row.anchor) as ThreadAnchor) : null,
+    outdated: row.outdated === 1,
+    resolved: row.resolved === 1,
+    createdAt: toDate(row.created_at),
+    updatedAt: toDate(row.updated_at),
+    comments,
+  };
+}
+
+/**
+ * Convert database row to Comment object
+ */
+function rowToComment(row: CommentRow): Comment {
+  return {
+    id: row.id,
+    threadId: row.thread_id,
+    author: row.author,
+    authorId: row.author_id,
+    authorName: row.author_name,
+    text: row.text,
+    diff: row.diff,
+    appliedAt: toDate(row.applied_at),
+    createdAt: toDate(row.created_at),
+  };
+}
+
+/**
+ * Threads stored in a SQLite file
+ * Rows inserted in the same millisecond keep their insertion order through rowid
+ */
+export class SqliteThreadRepository implements ThreadRepository {
+  constructor(private db: Database.Database) {}
+
+  private commentsOf(threadId: string): Comment[] {
+    return this.db
+      .prepare<[string], CommentRow>(
+        'SELECT * FROM comments WHERE thread_id = ? ORDER BY created_at ASC, rowid ASC'
+      )
+      .all(threadId)
+      .map(rowToComment);
+  }
+
+  async createThread(input: CreateThreadInput): Promise<Thread | null> {
+    const id = input.id ?? uuidv4();
+    const createdAt = now();
+
+    return this.db.transaction((): Thread | null => {
+      const row = this.db
+        .prepare<unknown[], ThreadRow>(
+          `INSERT INTO threads (
+             id, workspace_id, file, start_line, end_line, selected_code, repository, commit_sha, path,
+             side, base_revision, head_revision, anchor, created_at, updated_at
+           )
+           VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+           ON CONFLICT (id) DO NOTHING
+           RETURNING *`
+        )
+        .get(
+          id,
+          input.workspaceId,
+          input.file,
+          input.startLine,
+          input.endLine,
+          input.selectedCode,
+          input.source?.repository ?? null,
+          input.source?.commitSha ?? null,
+          input.source?.path ?? null,
+          input.side ?? null,
+          input.baseRevision ?? null,
+          input.headRevision ?? null,
+          input.anchor ? JSON.stringify(input.anchor) : null,
+          createdAt,
+          createdAt
+        );
+
+      if (!row) {
+        return null;
+      }
+
+      if (input.initialComment) {
+        this.db
+          .prepare(
+            `INSERT INTO comments (id, thread_id, author, author_id, author_name, text, created_at)
+             VALUES (?, ?, 'user', ?, ?, ?, ?)`
+          )
+          .run(uuidv4(), id, input.authorId || null, input.authorName || null, input.initialComment, createdAt);
+      }
+
+      return rowToThread(row, this.commentsOf(id));
+    })();
+  }
+
+  async getThreadById(id: string, workspaceId: string): Promise<Thread | null> {
+    const row = this.db
+      .prepare<[string, string], ThreadRow>('SELECT * FROM threads WHERE id = ? AND workspace_id = ?')
+      .get(id, workspaceId);
+
+    return row ? rowToThread(row, this.commentsOf(id)) : null;
+  }
+
+  async getThreads(workspaceId: string, options?: ThreadListOptions): Promise<Thread[]> {
+    const conditions: string[] = ['workspace_id = ?'];
+    const params: unknown[] = [workspaceId];
+
+    if (options?.file) {
+      conditions.push('file = ?');
+      params.push(options.file);
+    }
+
+    if (options?.resolved !== undefined) {
+      conditions.push('resolved = ?');
+      params.push(options.resolved ? 1 : 0);
+    }
+
+    // SQLite only accepts OFFSET after a LIMIT; -1 means no limit
+    let pagination = '';
+    if (options?.limit || options?.offset) {
+      pagination = 'LIMIT ? OFFSET ?';
+      params.push(options.limit || -1, options.offset || 0);
+    }
+
+    const rows = this.db
+      .prepare<unknown[], ThreadRow>(
+        `SELECT * FROM threads WHERE ${conditions.join(' AND ')}
+         ORDER BY created_at DESC, rowid DESC ${pagination}`
+      )
+      .all(...params);
+
+    return rows.map(row => rowToThread(row, this.commentsOf(row.id)));
+  }
+
+  async updateThread(
+    id: string,
+    workspaceId: string,
+    input: UpdateThreadInput
+  ): Promise<Thread | null> {
+    const updates: string[] = [];
+    const params: unknown[] = [];
+
+    if (input.resolved !== undefined) {
+      updates.push('resolved = ?');
+      params.push(input.resolved ? 1 : 0);
+    }
+
+    if (input.startLine !== undefined && input.endLine !== undefined) {
+      updates.push('start_line = ?', 'end_line = ?');
+      params.push(input.startLine, input.endLine);
+    }
+
+    if (input.outdated !== undefined) {
+      updates.push('outdated = ?');
+      params.push(input.outdated ? 1 : 0);
+    }
+
+    if (updates.length === 0) {
+      return this.getThreadById(id, workspaceId);
+    }
+
+    const row = this.db
+      .prepare<unknown[], ThreadRow>(
+        `UPDATE threads SET ${updates.join(', ')}, updated_at = ?
+         WHERE id = ? AND workspace_id = ?
+         RETURNING *`
+      )
+      .get(...params, now(), id, workspaceId);
+
+    return row ? rowToThread(row, this.commentsOf(id)) : null;
+  }
+
+  async deleteThread(id: string, workspaceId: string): Promise<boolean> {
+    const result = this.db
+      .prepare('DELETE FROM threads WHERE id = ? AND workspace_id = ?')
+      .run(id, workspaceId);
+    return result.changes > 0;
+  }
+
+  async addComment(input: CreateCommentInput): Promise<Comment | null> {
+    const id = input.id ?? uuidv4();
+    const createdAt = now();
+
+    return this.db.transaction((): Comment | null => {
+      const row = this.db
+        .prepare<unknown[], CommentRow>(
+          `INSERT INTO comments (id, thread_id, author, author_id, author_name, text, diff, created_at)
+           VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+           ON CONFLICT (id) DO NOTHING
+           RETURNING *`
+        )
+        .get(
+          id,
+          input.threadId,
+          input.author,
+          input.authorId || null,
+          input.authorName || null,
+          input.text,
+          input.diff || null,
+          createdAt
+        );
+
+      // A retry returns the stored comment; the ID of another thread's comment is not revealed
+      if (!row) {
+        const existing = this.db
+          .prepare<[string, string], CommentRow>('SELECT * FROM comments WHERE id = ? AND thread_id = ?')
+          .get(id, input.threadId);
+        return existing ? rowToComment(existing) : null;
+      }
+
+      this.db.prepare('UPDATE threads SET updated_at = ? WHERE id = ?').run(createdAt, input.threadId);
+      return rowToComment(row);
+    })();
+  }
+
+  async updateComment(
+    id: string,
+    threadId: string,
+    input: UpdateCommentInput
+  ): Promise<Comment | null> {
+    return this.db.transaction((): Comment | null => {
+      const row = this.db
+        .prepare<unknown[], CommentRow>(
+          'UPDATE comments SET applied_at = ? WHERE id = ? AND thread_id = ? RETURNING *'
+        )
+        .get(input.appliedAt ? input.appliedAt.toISOString() : null, id, threadId);
+
+      if (!row) {
+        return null;
+      }
+
+      this.db.prepare('UPDATE threads SET updated_at = ? WHERE id = ?').run(now(), threadId);
+      return rowToComment(row);
+    })();
+  }
+
+  async getComments(threadId: string, workspaceId: string): Promise<Comment[]> {
+    return this.db
+      .prepare<[string, string], CommentRow>(
+        `SELECT c.* FROM comments c
+         JOIN threads t ON t.id = c.thread_id
+         WHERE c.thread_id = ? AND t.workspace_id = ?
+         ORDER BY c.created_at ASC, c.rowid ASC`
+      )
+      .all(threadId, workspaceId)
+      .map(rowToComment);
+  }
+}
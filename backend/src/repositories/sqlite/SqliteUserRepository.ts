@@ -0,0 +1,151 @@
+import type Database from 'better-sqlite3';
+import { v4 as uuidv4 } from 'uuid';
+import type { User, AuthToken, AuthTokenKind } from '../../models/User.js';
+import type { UserRepository, NewUser, NewAuthToken } from '../types.js';
+import { now, toDate } from './database.js';
+
+// Database row types
+interface UserRow {
+  id: string;
+  username: string;
+  display_name: string;
+  password_hash: string;
+  created_at: string;
+}
+
+interface AuthTokenRow {
+  id: string;
+  user_id: string;
+  token_hash: string;
+  kind: AuthTokenKind;
+  name: string | null;
+  created_at: string;
+  last_used_at: string | null;
+  expires_at: string | null;
+}
+
+/**
+ * Convert database row to User object
+ */
+function rowToUser(row: UserRow): User {
+  return {
+    id: row.id,
+    username: row.username,
+    displayName: row.display_name,
+    createdAt: toDate(row.created_at),
+  };
+}
+
+/**
+ * Convert database row to AuthToken object
+ */
+function rowToAuthToken(row: AuthTokenRow): AuthToken {
+  return {
+    id: row.id,
+    userId: row.user_id,
+    kind: row.kind,
+    name: row.name,
+    createdAt: toDate(row.created_at),
+    lastUsedAt: toDate(row.last_used_at),
+    expiresAt: toDate(row.expires_at),
+  };
+}
+
+/**
+ * Users and tokens stored in a SQLite file
+ */
+export class SqliteUserRepository implements UserRepository {
+  constructor(private db: Database.Database) {}
+
+  private findByUsername(username: string): UserRow | undefined {
+    return this.db.prepare<[string], UserRow>('SELECT * FROM users WHERE username = ?').get(username);
+  }
+
+  async createUser(input: NewUser): Promise<User | null> {
+    const row = this.db
+      .prepare<unknown[], UserRow>(
+        `INSERT INTO users (id, username, display_name, password_hash, created_at)
+         VALUES (?, ?, ?, ?, ?)
+         ON CONFLICT (username) DO NOTHING
+         RETURNING *`
+      )
+      .get(uuidv4(), input.username, input.displayName, input.passwordHash, now());
+
+    return row ? rowToUser(row) : null;
+  }
+
+  async getUserById(id: string): Promise<User | null> {
+    const row = this.db.prepare<[string], UserRow>('SELECT * FROM users WHERE id = ?').get(id);
+    return row ? rowToUser(row) : null;
+  }
+
+  async getUserByUsername(username: string): Promise<User | null> {
+    const row = this.findByUsername(username);
+    return row ? rowToUser(row) : null;
+  }
+
+  async getPasswordHash(username: string): Promise<{ user: User; passwordHash: string } | null> {
+    const row = this.findByUsername(username);
+    return row ? { user: rowToUser(row), passwordHash: row.password_hash } : null;
+  }
+
+  async createAuthToken(input: NewAuthToken): Promise<AuthToken> {
+    const row = this.db
+      .prepare<unknown[], AuthTokenRow>(
+        `INSERT INTO auth_tokens (id, user_id, token_hash, kind, name, created_at, expires_at)
+         VALUES (?, ?, ?, ?, ?, ?, ?)
+         RETURNING *`
+      )
+      .get(
+        uuidv4(),
+        input.userId,
+        input.tokenHash,
+        input.kind,
+        input.name,
+        now(),
+        input.expiresAt?.toISOString() ?? null
+      )!;
+
+    return rowToAuthToken(row);
+  }
+
+  async useAuthToken(tokenHash: string): Promise<{ user: User; authToken: AuthToken } | null> {
+    const usedAt = now();
+    const row = this.db
+      .prepare<[string, string], AuthTokenRow>(
+        `SELECT * FROM auth_tokens
+         WHERE token_hash = ? AND (expires_at IS NULL OR expires_at > ?)`
+      )
+      .get(tokenHash, usedAt);
+
+    if (!row) {
+      return null;
+    }
+
+    this.db.prepare('UPDATE auth_tokens SET last_used_at = ? WHERE id = ?').run(usedAt, row.id);
+    const user = this.db.prepare<[string], UserRow>('SELECT * FROM users WHERE id = ?').get(row.user_id)!;
+
+    return { user: rowToUser(user), authToken: rowToAuthToken(row) };
+  }
+
+  async listAuthTokens(userId: string, kind?: AuthTokenKind): Promise<AuthToken[]> {
+    const rows = kind
+      ? this.db
+          .prepare<[string, string], AuthTokenRow>(
+            'SELECT * FROM auth_tokens WHERE user_id = ? AND kind = ? ORDER BY created_at DESC, rowid DESC'
+          )
+          .all(userId, kind)
+      : this.db
+          .prepare<[string], AuthTokenRow>(
+            'SELECT * FROM auth_tokens WHERE user_id = ? ORDER BY created_at DESC, rowid DESC'
+          )
+          .all(userId);
+
+    return rows.map(rowToAuthToken);
+  }
+
+  async deleteAuthToken(userId: string, id: string): Promise<boolean> {
+    const result = this.db.prepare('DELETE FROM auth_tokens WHERE id = ? AND user_id = ?').run(id, userId);
+    return result.changes > 0;
+  }
+}
@@ -0,0 +1,144 @@
+import type Database from 'better-sqlite3';
+import { v4 as uuidv4 } from 'uuid';
+import type {
+  Workspace,
+  WorkspaceMember,
+  WorkspaceRole,
+  CreateWorkspaceInput,
+} from '../../models/Workspace.js';
+import type { WorkspaceRepository } from '../types.js';
+import { now, toDate } from './database.js';
+
+// Database row types
+interface WorkspaceRow {
+  id: string;
+  name: string;
+  role: WorkspaceRole;
+  created_at: string;
+}
+
+interface WorkspaceMemberRow {
+  user_id: string;
+  username: string;
+  display_name: string;
+  role: WorkspaceRole;
+  created_at: string;
+}
+
+/**
+ * Convert database row to Workspace object
+ */
+function rowToWorkspace(row: WorkspaceRow): Workspace {
+  return {
+    id: row.id,
+    name: row.name,
+    role: row.role,
+    createdAt: toDate(row.created_at),
+  };
+}
+
+/**
+ * Convert database row to WorkspaceMember object
+ */
+function rowToMember(row: WorkspaceMemberRow): WorkspaceMember {
+  return {
+    userId: row.user_id,
+    username: row.username,
+    displayName: row.display_name,
+    role: row.role,
+    joinedAt: toDate(row.created_at),
+  };
+}
+
+/**
+ * Workspaces stored in a SQLite file
+ */
+export class SqliteWorkspaceRepository implements WorkspaceRepository {
+  constructor(private db: Database.Database) {}
+
+  async createWorkspace(input: CreateWorkspaceInput): Promise<Workspace> {
+    const id = uuidv4();
+    const createdAt = now();
+
+    this.db.transaction(() => {
+      this.db.prepare('INSERT INTO workspaces (id, name, created_at) VALUES (?, ?, ?)').run(id, input.name, createdAt);
+      this.db
+        .prepare(
+          `INSERT INTO workspace_members (workspace_id, user_id, role, created_at)
+           VALUES (?, ?, 'owner', ?)`
+        )
+        .run(id, input.ownerId, createdAt);
+    })();
+
+    return rowToWorkspace({ id, name: input.name, role: 'owner', created_at: createdAt });
+  }
+
+  async getWorkspacesForUser(userId: string): Promise<Workspace[]> {
+    return this.db
+      .prepare<[string], WorkspaceRow>(
+        `SELECT w.*, m.role
+         FROM workspaces w
+         JOIN workspace_members m ON m.workspace_id = w.id
+         WHERE m.user_id = ?
+         ORDER BY w.created_at ASC, w.rowid ASC`
+      )
+      .all(userId)
+      .map(rowToWorkspace);
+  }
+
+  async getWorkspaceForUser(id: string, userId: string): Promise<Workspace | null> {
+    const row = this.db
+      .prepare<[string, string], WorkspaceRow>(
+        `SELECT w.*, m.role
+         FROM workspaces w
+         JOIN workspace_members m ON m.workspace_id = w.id
+         WHERE w.id = ? AND m.user_id = ?`
+      )
+      .get(id, userId);
+
+    return row ? rowToWorkspace(row) : null;
+  }
+
+  async getMembers(workspaceId: string): Promise<WorkspaceMember[]> {
+    return this.db
+      .prepare<[string], WorkspaceMemberRow>(
+        `SELECT m.user_id, m.role, m.created_at, u.username, u.display_name
+         FROM workspace_members m
+         JOIN users u ON u.id = m.user_id
+         WHERE m.workspace_id = ?
+         ORDER BY m.role = 'owner' DESC, m.created_at ASC, m.rowid ASC`
+      )
+      .all(workspaceId)
+      .map(rowToMember);
+  }
+
+  async addMember(workspaceId: string, userId: string, role: WorkspaceRole): Promise<boolean> {
+    const result = this.db
+      .prepare(
+        `INSERT INTO workspace_members (workspace_id, user_id, role, created_at)
+         VALUES (?, ?, ?, ?)
+         ON CONFLICT (workspace_id, user_id) DO NOTHING`
+      )
+      .run(workspaceId, userId, role, now());
+    return result.changes > 0;
+  }
+
+  async removeMember(workspaceId: string, userId: string): Promise<boolean> {
+    const result = this.db
+      .prepare('DELETE FROM workspace_members WHERE workspace_id = ? AND user_id = ?')
+      .run(workspaceId, userId);
+    return result.changes > 0;
+  }
+
+  async claimWorkspace(workspaceId: string, userId: string): Promise<boolean> {
+    const result = this.db
+      .prepare(
+        `INSERT INTO workspace_members (workspace_id, user_id, role, created_at)
+         SELECT id, ?, 'owner', ? FROM workspaces
+         WHERE id = ? AND NOT EXISTS (SELECT 1 FROM workspace_members WHERE workspace_id = ?)
+         ON CONFLICT (workspace_id, user_id) DO NOTHING`
+      )
+      .run(userId, now(), workspaceId, workspaceId);
+    return result.changes > 0;
+  }
+}
@@ -0,0 +1,220 @@
+import Database from 'better-sqlite3';
+import { mkdirSync } from 'fs';
+import { dirname } from 'path';
+
+/**
+ * Schema of the SQLite store, created when the database is opened
+ * Mirrors the PostgreSQL migrations; timestamps are ISO 8601 strings and booleans 0/1
+ */
+const SCHEMA = `
+  CREATE TABLE IF NOT EXISTS users (
+    id TEXT PRIMARY KEY,
+    username TEXT NOT NULL UNIQUE,
+    display_name TEXT NOT NULL,
+    password_hash TEXT NOT NULL,
+    created_at TEXT NOT NULL
+  );
+
+  CREATE TABLE IF NOT EXISTS auth_tokens (
+    id TEXT PRIMARY KEY,
+    user_id TEXT NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    token_hash TEXT NOT NULL UNIQUE,
+    kind TEXT NOT NULL CHECK (kind IN ('session', 'api')),
+    name TEXT,
+    created_at TEXT NOT NULL,
+    last_used_at TEXT,
+    expires_at TEXT
+  );
+
+  CREATE INDEX IF NOT EXISTS idx_auth_tokens_user_id ON auth_tokens(user_id);
+
+  CREATE TABLE IF NOT EXISTS workspaces (
+    id TEXT PRIMARY KEY,
+    name TEXT NOT NULL,
+    created_at TEXT NOT NULL
+  );
+
+  CREATE TABLE IF NOT EXISTS workspace_members (
+    workspace_id TEXT NOT NULL REFERENCES workspaces(id) ON DELETE CASCADE,
+    user_id TEXT NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    role TEXT NOT NULL DEFAULT 'member' CHECK (role IN ('owner', 'member')),
+    created_at TEXT NOT NULL,
+    PRIMARY KEY (workspace_id, user_id)
+  );
+
+  CREATE INDEX IF NOT EXISTS idx_workspace_members_user_id ON workspace_members(user_id);
+
+  CREATE TABLE IF NOT EXISTS threads (
+    id TEXT PRIMARY KEY,
+    workspace_id TEXT REFERENCES workspaces(id) ON DELETE CASCADE,
+    file TEXT NOT NULL,
+    start_line INTEGER NOT NULL,
+    end_line INTEGER NOT NULL,
+    selected_code TEXT NOT NULL,
+    repository TEXT,
+    commit_sha TEXT,
+    path TEXT,
+    side TEXT,
+    base_revision TEXT,
+    head_revision TEXT,
+    anchor TEXT,
+    outdated INTEGER NOT NULL DEFAULT 0,
+    resolved INTEGER NOT NULL DEFAULT 0,
+    created_at TEXT NOT NULL,
+    updated_at TEXT NOT NULL
+  );
+
+  CREATE INDEX IF NOT EXISTS idx_threads_workspace_file ON threads(workspace_id, file);
+
+  CREATE TABLE IF NOT EXISTS comments (
+    id TEXT PRIMARY KEY,
+    thread_id TEXT NOT NULL REFERENCES threads(id) ON DELETE CASCADE,
+    author TEXT NOT NULL CHECK (author IN ('user', 'ai')),
+    author_id TEXT REFERENCES users(id) ON DELETE SET NULL,
+    author_name TEXT,
+    text TEXT NOT NULL,
+    diff TEXT,
+    applied_at TEXT,
+    created_at TEXT NOT NULL
+  );
+
+  CREATE INDEX IF NOT EXISTS idx_comments_thread_id ON comments(thread_id);
+
+  CREATE TABLE IF NOT EXISTS scan_runs (
+    id TEXT PRIMARY KEY,
+    workspace_id TEXT NOT NULL REFERENCES workspaces(id) ON DELETE CASCADE,
+    file TEXT NOT NULL,
+    mode TEXT NOT NULL DEFAULT 'general',
+    provider TEXT NOT NULL,
+    model TEXT NOT NULL,
+    created_at TEXT NOT NULL
+  );
+
+  CREATE INDEX IF NOT EXISTS idx_scan_runs_workspace_file ON scan_runs(workspace_id, file);
+
+  CREATE TABLE IF NOT EXISTS scan_issues (
+    id TEXT PRIMARY KEY,
+    run_id TEXT NOT NULL REFERENCES scan_runs(id) ON DELETE CASCADE,
+    position INTEGER NOT NULL,
+    fingerprint TEXT NOT NULL,
+    start_line INTEGER NOT NULL,
+    end_line INTEGER NOT NULL,
+    severity TEXT NOT NULL CHECK (severity IN ('error', 'warning', 'info')),
+    category TEXT NOT NULL,
+    message TEXT NOT NULL,
+    fix TEXT NOT NULL,
+    diff TEXT,
+    rule_id TEXT,
+    mode_fields TEXT,
+    status TEXT NOT NULL CHECK (status IN ('new', 'present', 'fixed')),
+    thread_id TEXT
+  );
+
+  CREATE INDEX IF NOT EXISTS idx_scan_issues_run_id ON scan_issues(run_id);
+
+  CREATE TABLE IF NOT EXISTS indexed_files (
+    id TEXT PRIMARY KEY,
+    workspace_id TEXT NOT NULL REFERENCES workspaces(id) ON DELETE CASCADE,
+    file TEXT NOT NULL,
+    language TEXT NOT NULL,
+    content_hash TEXT NOT NULL,
+    embedder TEXT NOT NULL,
+    indexed_at TEXT NOT NULL,
+    UNIQUE (workspace_id, file)
+  );
+
+  -- Embeddings are float32 arrays; similarity is computed in JavaScript
+  CREATE TABLE IF NOT EXISTS code_chunks (
+    id TEXT PRIMARY KEY,
+    indexed_file_id TEXT NOT NULL REFERENCES indexed_files(id) ON DELETE CASCADE,
+    start_line INTEGER NOT NULL,
+    end_line INTEGER NOT NULL,
+    symbol TEXT,
+    content TEXT NOT NULL,
+    embedding BLOB NOT NULL
+  );
+
+  CREATE INDEX IF NOT EXISTS idx_code_chunks_indexed_file_id ON code_chunks(indexed_file_id);
+
+  CREATE TABLE IF NOT EXISTS review_rules (
+    workspace_id TEXT NOT NULL REFERENCES workspaces(id) ON DELETE CASCADE,
+    rule_id TEXT NOT NULL,
+    description TEXT NOT NULL,
+    severity TEXT NOT NULL CHECK (severity IN ('error', 'warning', 'info')),
+    example TEXT,
+    updated_at TEXT NOT NULL,
+    PRIMARY KEY (workspace_id, rule_id)
+  );
+`;
+
+/**
+ * Open (or create) a SQLite database file, or an in-memory one with `:memory:`
+ */
+export function openSqliteDatabase(path: string): Database.Database {
+  if (path !== ':memory:') {
+    mkdirSync(dirname(path), { recursive: true });
+  }
+
+  const db = new Database(path);
+  db.pragma('journal_mode = WAL');
+  db.pragma('foreign_keys = ON');
+  db.exec(SCHEMA);
+  addMissingColumns(db);
+  return db;
+}
+
+/**
+ * Columns added after a table was first created, for databases created before them
+ */
+const ADDED_COLUMNS: Record<string, Record<string, string>> = {
+  threads: {
+    repository: 'TEXT',
+    commit_sha: 'TEXT',
+    path: 'TEXT',
+    side: 'TEXT',
+    base_revision: 'TEXT',
+    head_revision: 'TEXT',
+    anchor: 'TEXT',
+    outdated: 'INTEGER NOT NULL DEFAULT 0',
+  },
+  comments: {
+    applied_at: 'TEXT',
+  },
+  scan_runs: {
+    mode: "TEXT NOT NULL DEFAULT 'general'",
+  },
+  scan_issues: {
+    rule_id: 'TEXT',
+    mode_fields: 'TEXT',
+  },
+};
+
+function addMissingColumns(db: Database.Database): void {
+  for (const [table, columns] of Object.entries(ADDED_COLUMNS)) {
+    const existing = new Set(
+      db.prepare<unknown[], { name: string }>(`PRAGMA table_info(${table})`).all().map(column => column.name)
+    );
+    for (const [column, type] of Object.entries(columns)) {
+      if (!existing.has(column)) {
+        db.exec(`ALTER TABLE ${table} ADD COLUMN ${column} ${type}`);
+      }
+    }
+  }
+}
+
+/**
+ * Current time as stored in SQLite
+ * ISO strings sort in time order, so ORDER BY works on them
+ */
+export function now(): string {
+  return new Date().toISOString();
+}
+
+/**
+ * Convert a stored timestamp to a Date
+ */
+export function toDate(value: string): Date;
+export function toDate(value: string | null): Date | null;
+export function toDate(value: string | null): Date | null {
+  return value === null ? null : new Date(value);
+}
@@ -0,0 +1,202 @@
+import type {
+  Thread,
+  Comment,
+  CreateThreadInput,
+  UpdateThreadInput,
+  CreateCommentInput,
+  UpdateCommentInput,
+  ThreadListOptions,
+} from '../models/Thread.js';
+import type { User, AuthToken, AuthTokenKind } from '../models/User.js';
+import type { Workspace, WorkspaceMember, WorkspaceRole, CreateWorkspaceInput } from '../models/Workspace.js';
+import type { ScanRun, StoredScanIssue, ScanRunListOptions } from '../models/Scan.js';
+import type { IndexedFile, CodeSearchResult } from '../models/SearchIndex.js';
+import type { StoredReviewRule } from '../models/Ruleset.js';
+import type { CodeChunk } from '../services/search/chunker.js';
+import type { ReviewMode } from '../services/ai/types.js';
+
+/**
+ * Supported storage drivers
+ */
+export const STORAGE_DRIVERS = ['postgres', 'sqlite', 'memory'] as const;
+
+export type StorageDriver = (typeof STORAGE_DRIVERS)[number];
+
+/**
+ * Storage of review threads and their comments
+ * Every thread belongs to a workspace; reads and writes of a thread are scoped to it
+ */
+export interface ThreadRepository {
+  /** Returns null when a thread with the given ID already exists */
+  createThread(input: CreateThreadInput): Promise<Thread | null>;
+  getThreadById(id: string, workspaceId: string): Promise<Thread | null>;
+  /** Newest first */
+  getThreads(workspaceId: string, options?: ThreadListOptions): Promise<Thread[]>;
+  updateThread(id: string, workspaceId: string, input: UpdateThreadInput): Promise<Thread | null>;
+  deleteThread(id: string, workspaceId: string): Promise<boolean>;
+  /**
+   * Adding a comment with the ID of an existing comment of the thread returns the existing
+   * comment; returns null when the ID is taken by a comment of another thread
+   */
+  addComment(input: CreateCommentInput): Promise<Comment | null>;
+  /** Returns null when the thread has no such comment */
+  updateComment(id: string, threadId: string, input: UpdateCommentInput): Promise<Comment | null>;
+  /** Oldest first */
+  getComments(threadId: string, workspaceId: string): Promise<Comment[]>;
+}
+
+/**
+ * A new user, with the username already normalized and the password hashed
+ */
+export interface NewUser {
+  username: string;
+  displayName: string;
+  passwordHash: string;
+}
+
+/**
+ * A new bearer token; only the hash of the token is stored
+ */
+export interface NewAuthToken {
+  userId: string;
+  tokenHash: string;
+  kind: AuthTokenKind;
+  name: string | null;
+  expiresAt: Date | null;
+}
+
+/**
+ * Storage of users and their bearer tokens
+ * Password and token hashing happens in the User model, not here
+ */
+export interface UserRepository {
+  /** Returns null when the username is taken */
+  createUser(input: NewUser): Promise<User | null>;
+  getUserById(id: string): Promise<User | null>;
+  getUserByUsername(username: string): Promise<User | null>;
+  getPasswordHash(username: string): Promise<{ user: User; passwordHash: string } | null>;
+  createAuthToken(input: NewAuthToken): Promise<AuthToken>;
+  /** Returns null for unknown and expired tokens, and records the use of valid ones */
+  useAuthToken(tokenHash: string): Promise<{ user: User; authToken: AuthToken } | null>;
+  /** Newest first */
+  listAuthTokens(userId: string, kind?: AuthTokenKind): Promise<AuthToken[]>;
+  deleteAuthToken(userId: string, id: string): Promise<boolean>;
+}
+
+/**
+ * Storage of workspaces and their members
+ */
+export interface WorkspaceRepository {
+  /** Creates the workspace with its owner as the first member */
+  createWorkspace(input: CreateWorkspaceInput): Promise<Workspace>;
+  /** Oldest first */
+  getWorkspacesForUser(userId: string): Promise<Workspace[]>;
+  /** Returns null when the user is not a member */
+  getWorkspaceForUser(id: string, userId: string): Promise<Workspace | null>;
+  /** Owners first, then by join date */
+  getMembers(workspaceId: string): Promise<WorkspaceMember[]>;
+  /** Returns false when the user is already a member */
+  addMember(workspaceId: string, userId: string, role: WorkspaceRole): Promise<boolean>;
+  removeMember(workspaceId: string, userId: string): Promise<boolean>;
+  /** Makes the user the owner of a workspace without members; returns false when it has members or does not exist */
+  claimWorkspace(workspaceId: string, userId: string): Promise<boolean>;
+}
+
+/**
+ * An issue of a new scan run, with its fingerprint and status already worked out
+ */
+export type NewScanIssue = Omit<StoredScanIssue, 'id' | 'runId'>;
+
+export interface NewScanRun {
+  workspaceId: string;
+  file: string;
+  mode: ReviewMode;
+  provider: string;
+  model: string;
+  issues: NewScanIssue[];
+}
+
+/**
+ * Storage of scan runs and their issues
+ * Comparing a run with the previous one happens in the Scan model, not here
+ */
+export interface ScanRepository {
+  createScanRun(input: NewScanRun): Promise<ScanRun>;
+  getScanRunById(id: string, workspaceId: string): Promise<ScanRun | null>;
+  /** Newest first */
+  getScanRuns(workspaceId: string, options?: ScanRunListOptions): Promise<ScanRun[]>;
+  /** Returns null when the issue is not in the workspace */
+  setIssueThread(issueId: string, workspaceId: string, threadId: string | null): Promise<StoredScanIssue | null>;
+}
+
+/**
+ * A chunk of a file with its embedding
+ */
+export interface NewCodeChunk extends CodeChunk {
+  embedding: number[];
+}
+
+export interface NewIndexedFile {
+  workspaceId: string;
+  file: string;
+  language: string;
+  contentHash: string;
+  embedder: string;
+  chunks: NewCodeChunk[];
+}
+
+export interface ChunkSearchOptions {
+  limit: number;
+  excludeFile?: string;
+}
+
+/**
+ * Storage of the search index: files of a workspace split into embedded chunks
+ * Chunking and embedding happen in the SearchIndex model, not here
+ */
+export interface SearchRepository {
+  getIndexedFile(workspaceId: string, file: string): Promise<IndexedFile | null>;
+  /** Replaces the chunks of the file when it is already indexed */
+  replaceIndexedFile(input: NewIndexedFile): Promise<IndexedFile>;
+  deleteIndexedFile(workspaceId: string, file: string): Promise<boolean>;
+  /** Chunks embedded by the given embedder, most similar to the embedding first */
+  searchChunks(
+    workspaceId: string,
+    embedder: string,
+    embedding: number[],
+    options: ChunkSearchOptions
+  ): Promise<CodeSearchResult[]>;
+}
+
+/**
+ * A rule to store, with an empty example already turned into null
+ */
+export type NewReviewRule = Omit<StoredReviewRule, 'updatedAt'>;
+
+/**
+ * Storage of the team rules of workspaces
+ */
+export interface RuleRepository {
+  /** Ordered by ID */
+  getRules(workspaceId: string): Promise<StoredReviewRule[]>;
+  /** Removes the workspace's rules that are not given */
+  replaceRules(workspaceId: string, rules: NewReviewRule[]): Promise<StoredReviewRule[]>;
+  /** Updates the rule with the same ID when there is one */
+  saveRule(workspaceId: string, rule: NewReviewRule): Promise<{ rule: StoredReviewRule; created: boolean }>;
+  deleteRule(workspaceId: string, ruleId: string): Promise<boolean>;
+}
+
+/**
+ * The repositories of one storage driver
+ */
+export interface Repositories {
+  driver: StorageDriver;
+  threads: ThreadRepository;
+  users: UserRepository;
+  workspaces: WorkspaceRepository;
+  scans: ScanRepository;
+  search: SearchRepository;
+  rules: RuleRepository;
+  /** Release connections or file handles */
+  close(): Promise<void>;
+}
@@ -0,0 +1,275 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import request from 'supertest';
+import express from 'express';
+import authRoutes from '../auth.js';
+import { errorHandler } from '../../middleware/errorHandler.js';
+
+// Mock the User model
+vi.mock('../../models/User.js', () => ({
+  createUser: vi.fn(),
+  verifyCredentials: vi.fn(),
+  createAuthToken: vi.fn(),
+  getUserByToken: vi.fn(),
+  listAuthTokens: vi.fn(),
+  deleteAuthToken: vi.fn(),
+}));
+
+// Mock the Workspace model
+vi.mock('../../models/Workspace.js', () => ({
+  SHARED_THREADS_WORKSPACE_ID: '00000000-0000-4000-8000-000000000001',
+  createWorkspace: vi.fn(),
+  claimWorkspace: vi.fn(),
+}));
+
+import * as UserModel from '../../models/User.js';
+import * as WorkspaceModel from '../../models/Workspace.js';
+
+const app = express();
+app.use(express.json());
+app.use('/api/auth', authRoutes);
+app.use(errorHandler);
+
+const user = {
+  id: '123e4567-e89b-12d3-a456-426614174000',
+  username: 'ada',
+  displayName: 'Ada Lovelace',
+  createdAt: new Date(),
+};
+
+const authToken = (kind: UserModel.AuthTokenKind, updates: Partial<UserModel.AuthToken> = {}) => ({
+  id: '223e4567-e89b-12d3-a456-426614174001',
+  userId: user.id,
+  kind,
+  name: null,
+  createdAt: new Date(),
+  lastUsedAt: null,
+  expiresAt: null,
+  ...updates,
+});
+
+const signIn = () => {
+  vi.mocked(UserModel.getUserByToken).mockResolvedValue({ user, authToken: authToken('session') });
+};
+
+describe('Auth Routes', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+    vi.unstubAllEnvs();
+  });
+
+  describe('POST /api/auth/register', () => {
+    it('creates a user with a personal workspace and starts a session', async () => {
+      vi.mocked(UserModel.createUser).mockResolvedValue(user);
+      vi.mocked(UserModel.createAuthToken).mockResolvedValue({
+        token: 'session-token',
+        authToken: authToken('session', { expiresAt: new Date('2030-01-01T00:00:00Z') }),
+      });
+
+      const response = await request(app)
+        .post('/api/auth/register')
+        .send({ username: 'ada', password: 'secret123', displayName: 'Ada Lovelace' });
+
+      expect(response.status).toBe(201);
+      expect(response.body).toMatchObject({
+        token: 'session-token',
+        user: { id: user.id, displayName: 'Ada Lovelace' },
+        expiresAt: '2030-01-01T00:00:00.000Z',
+      });
+      expect(UserModel.createAuthToken).toHaveBeenCalledWith(
+        expect.objectContaining({ userId: user.id, kind: 'session', expiresAt: expect.any(Date) })
+      );
+      expect(WorkspaceModel.createWorkspace).toHaveBeenCalledWith({
+        name: "Ada Lovelace's workspace",
+        ownerId: user.id,
+      });
+      expect(WorkspaceModel.claimWorkspace).not.toHaveBeenCalled();
+    });
+
+    it('gives threads from before workspaces to the account named as their owner', async () => {
+      vi.stubEnv('AUTH_SHARED_THREADS_OWNER', 'ada');
+      vi.mocked(UserModel.createUser).mockResolvedValue(user);
+      vi.mocked(UserModel.createAuthToken).mockResolvedValue({ token: 'session-token', authToken: authToken('session') });
+
+      const response = await request(app)
+        .post('/api/auth/register')
+        .send({ username: 'ada', password: 'secret123' });
+
+      expect(response.status).toBe(201);
+      expect(WorkspaceModel.claimWorkspace).toHaveBeenCalledWith('00000000-0000-4000-8000-000000000001', user.id);
+    });
+
+    it('returns 409 for a taken username', async () => {
+      vi.mocked(UserModel.createUser).mockResolvedValue(null);
+
+      const response = await request(app)
+        .post('/api/auth/register')
+        .send({ username: 'ada', password: 'secret123' });
+
+      expect(response.status).toBe(409);
+    });
+
+    it('returns 400 for short passwords and invalid usernames', async () => {
+      const response = await request(app)
+        .post('/api/auth/register')
+        .send({ username: 'a b', password: 'short' });
+
+      expect(response.status).toBe(400);
+      expect(UserModel.createUser).not.toHaveBeenCalled();
+    });
+
+    it('returns 403 when registration is disabled', async () => {
+      vi.stubEnv('AUTH_ALLOW_REGISTRATION', 'false');
+
+      const response = await request(app)
+        .post('/api/auth/register')
+        .send({ username: 'ada', password: 'secret123' });
+
+      expect(response.status).toBe(403);
+    });
+  });
+
+  describe('POST /api/auth/login', () => {
+    it('returns a session token for valid credentials', async () => {
+      vi.mocked(UserModel.verifyCredentials).mockResolvedValue(user);
+      vi.mocked(UserModel.createAuthToken).mockResolvedValue({
+        token: 'session-token',
+        authToken: authToken('session'),
+      });
+
+      const response = await request(app)
+        .post('/api/auth/login')
+        .send({ username: 'ada', password: 'secret123' });
+
+      expect(response.status).toBe(200);
+      expect(response.body.token).toBe('session-token');
+      expect(UserModel.verifyCredentials).toHaveBeenCalledWith('ada', 'secret123');
+      expect(WorkspaceModel.claimWorkspace).not.toHaveBeenCalled();
+    });
+
+    it('lets the account named as owner of threads from before workspaces claim them', async () => {
+      vi.stubEnv('AUTH_SHARED_THREADS_OWNER', 'ada');
+      vi.mocked(UserModel.verifyCredentials).mockResolvedValue(user);
+      vi.mocked(UserModel.createAuthToken).mockResolvedValue({ token: 'session-token', authToken: authToken('session') });
+
+      const response = await request(app)
+        .post('/api/auth/login')
+        .send({ username: 'ada', password: 'secret123' });
+
+      expect(response.status).toBe(200);
+      expect(WorkspaceModel.claimWorkspace).toHaveBeenCalledWith('00000000-0000-4000-8000-000000000001', user.id);
+    });
+
+    it('returns 401 for invalid credentials', async () => {
+      vi.mocked(UserModel.verifyCredentials).mockResolvedValue(null);
+
+      const response = await request(app)
+        .post('/api/auth/login')
+        .send({ username: 'ada', password: 'wrong' });
+
+      expect(response.status).toBe(401);
+      expect(UserModel.createAuthToken).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('GET /api/auth/me', () => {
+    it('returns the user of the bearer token', async () => {
+      signIn();
+
+      const response = await request(app)
+        .get('/api/auth/me')
+        .set('Authorization', 'Bearer session-token');
+
+      expect(response.status).toBe(200);
+      expect(response.body.username).toBe('ada');
+      expect(UserModel.getUserByToken).toHaveBeenCalledWith('session-token');
+    });
+
+    it('returns 401 without a bearer token', async () => {
+      const response = await request(app)
+        .get('/api/auth/me')
+        .set('Authorization', 'Basic YWRhOnNlY3JldA==');
+
+      expect(response.status).toBe(401);
+      expect(response.body.error).toBe('Authentication required');
+    });
+
+    it('returns 401 for unknown or expired tokens', async () => {
+      vi.mocked(UserModel.getUserByToken).mockResolvedValue(null);
+
+      const response = await request(app)
+        .get('/api/auth/me')
+        .set('Authorization', 'Bearer expired');
+
+      expect(response.status).toBe(401);
+      expect(response.body.error).toBe('Invalid or expired token');
+    });
+  });
+
+  describe('POST /api/auth/logout', () => {
+    it('revokes the token of the request', async () => {
+      signIn();
+      vi.mocked(UserModel.deleteAuthToken).mockResolvedValue(true);
+
+      const response = await request(app)
+        .post('/api/auth/logout')
+        .set('Authorization', 'Bearer session-token');
+
+      expect(response.status).toBe(204);
+      expect(UserModel.deleteAuthToken).toHaveBeenCalledWith(user.id, '223e4567-e89b-12d3-a456-426614174001');
+    });
+  });
+
+  describe('API tokens', () => {
+    it('creates a named API token', async () => {
+      signIn();
+      vi.mocked(UserModel.createAuthToken).mockResolvedValue({
+        token: 'api-token',
+        authToken: authToken('api', { name: 'CI' }),
+      });
+
+      const response = await request(app)
+        .post('/api/auth/tokens')
+        .set('Authorization', 'Bearer session-token')
+        .send({ name: 'CI' });
+
+      expect(response.status).toBe(201);
+      expect(response.body).toMatchObject({ token: 'api-token', kind: 'api', name: 'CI' });
+      expect(UserModel.createAuthToken).toHaveBeenCalledWith({
+        userId: user.id,
+        kind: 'api',
+        name: 'CI',
+        expiresAt: undefined,
+      });
+    });
+
+    it('lists API tokens without their secrets', async () => {
+      signIn();
+      vi.mocked(UserModel.listAuthTokens).mockResolvedValue([authToken('api', { name: 'CI' })]);
+
+      const response = await request(app)
+        .get('/api/auth/tokens')
+        .set('Authorization', 'Bearer session-token');
+
+      expect(response.status).toBe(200);
+      expect(response.body).toHaveLength(1);
+      expect(response.body[0]).not.toHaveProperty('token');
+      expect(UserModel.listAuthTokens).toHaveBeenCalledWith(user.id, 'api');
+    });
+
+    it('returns 404 when deleting an unknown token', async () => {
+      signIn();
+      vi.mocked(UserModel.deleteAuthToken).mockResolvedValue(false);
+
+      const response = await request(app)
+        .delete('/api/auth/tokens/323e4567-e89b-12d3-a456-426614174002')
+        .set('Authorization', 'Bearer session-token');
+
+      expect(response.status).toBe(404);
+    });
+  });
+});
@@ -0,0 +1,316 @@
+import { describe, it, expect, vi, beforeAll, afterAll, beforeEach, afterEach } from 'vitest';
+import request from 'supertest';
+import express from 'express';
+import { execFileSync } from 'child_process';
+import { mkdtempSync, mkdirSync, readFileSync, rmSync, symlinkSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import gitRoutes from '../git.js';
+import { errorHandler } from '../../middleware/errorHandler.js';
+
+const USER_ID = '123e4567-e89b-12d3-a456-426614174000';
+const OTHER_USER_ID = '223e4567-e89b-12d3-a456-426614174001';
+
+// Stand in for requireAuth; tests pick the user with a header
+const app = express();
+app.use(express.json());
+app.use((req, _res, next) => {
+  const id = req.get('X-Test-User') || USER_ID;
+  req.user = { id, username: 'ada', displayName: 'Ada', createdAt: new Date() };
+  next();
+});
+app.use('/api/git', gitRoutes);
+app.use(errorHandler);
+
+let root: string;
+let repo: string;
+let firstCommit: string;
+
+const git = (...args: string[]) => execFileSync('git', args, { cwd: repo }).toString().trim();
+
+/**
+ * Parse a Server-Sent Events body
+ */
+const parseEvents = (text: string) =>
+  text
+    .split('\n\n')
+    .filter(Boolean)
+    .map(block => {
+      const [event, data] = block.split('\n');
+      return { event: event.slice('event: '.length), data: JSON.parse(data.slice('data: '.length)) };
+    });
+
+const openRepository = async () => {
+  const response = await request(app).post('/api/git/repositories').send({ path: repo });
+  expect(response.status).toBe(201);
+  return response.body.id as string;
+};
+
+describe('Git Routes', () => {
+  beforeAll(() => {
+    root = mkdtempSync(join(tmpdir(), 'git-routes-'));
+    repo = join(root, 'project');
+    mkdirSync(repo);
+
+    git('init', '--quiet', '--initial-branch=main');
+    git('config', 'user.email', 'ada@example.com');
+    git('config', 'user.name', 'Ada');
+    writeFileSync(join(repo, 'index.ts'), 'export const answer = 1;\n');
+    writeFileSync(join(repo, 'logo.png'), Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x00, 0x01]));
+    writeFileSync(join(repo, '.gitignore'), 'dist/\n');
+    git('add', '.');
+    git('commit', '--quiet', '-m', 'First');
+    git('tag', 'v1');
+    firstCommit = git('rev-parse', 'HEAD');
+
+    git('checkout', '--quiet', '-b', 'feature');
+    writeFileSync(join(repo, 'index.ts'), 'export const answer = 42;\n');
+    git('commit', '--quiet', '-am', 'Second');
+    git('checkout', '--quiet', 'main');
+
+    // Working tree changes
+    writeFileSync(join(repo, 'index.ts'), 'export const answer = 2;\n');
+    writeFileSync(join(repo, 'notes.md'), '# Notes\n');
+    mkdirSync(join(repo, 'dist'));
+    writeFileSync(join(repo, 'dist', 'index.js'), 'ignored');
+  });
+
+  afterAll(() => {
+    rmSync(root, { recursive: true, force: true });
+  });
+
+  beforeEach(() => {
+    vi.stubEnv('GIT_REPOSITORY_ROOTS', root);
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+    vi.mocked(console.error).mockRestore();
+  });
+
+  describe('local repositories', () => {
+    it('opens a repository with its branches and tags', async () => {
+      const response = await request(app).post('/api/git/repositories').send({ path: repo });
+
+      expect(response.status).toBe(201);
+      expect(response.body).toMatchObject({
+        workingTree: true,
+        currentBranch: 'main',
+        head: firstCommit,
+        branches: ['feature', 'main'],
+        tags: ['v1'],
+      });
+    });
+
+    it('refuses local repositories when no directories are allowed', async () => {
+      vi.stubEnv('GIT_REPOSITORY_ROOTS', '');
+
+      const response = await request(app).post('/api/git/repositories').send({ path: repo });
+
+      expect(response.status).toBe(403);
+    });
+
+    it('refuses paths outside the allowed directories', async () => {
+      vi.stubEnv('GIT_REPOSITORY_ROOTS', join(root, 'elsewhere'));
+
+      const response = await request(app).post('/api/git/repositories').send({ path: repo });
+
+      expect(response.status).toBe(403);
+    });
+
+    it('rejects directories that are not repositories', async () => {
+      const response = await request(app).post('/api/git/repositories').send({ path: root });
+
+      expect(response.status).toBe(400);
+    });
+
+    it('lists working tree files without ignored files', async () => {
+      const id = await openRepository();
+
+      const response = await request(app).get(`/api/git/repositories/${id}/files`);
+
+      expect(response.status).toBe(200);
+      expect(response.body.ref).toBeNull();
+      expect(response.body.commit).toBe(firstCommit);
+      expect(response.body.files.map((f: { path: string }) => f.path).sort()).toEqual([
+        '.gitignore',
+        'index.ts',
+        'logo.png',
+        'notes.md',
+      ]);
+    });
+
+    it('lists the files of a branch', async () => {
+      const id = await openRepository();
+
+      const response = await request(app).get(`/api/git/repositories/${id}/files?ref=feature`);
+
+      expect(response.body.ref).toBe('feature');
+      expect(response.body.commit).toBe(git('rev-parse', 'feature'));
+      expect(response.body.files).toContainEqual({ path: 'index.ts', size: 26 });
+      expect(response.body.files.map((f: { path: string }) => f.path)).not.toContain('notes.md');
+    });
+
+    it('rejects unknown refs and refs that look like options', async () => {
+      const id = await openRepository();
+
+      const unknown = await request(app).get(`/api/git/repositories/${id}/files?ref=nope`);
+      const option = await request(app).get(`/api/git/repositories/${id}/files?ref=--output=x`);
+
+      expect(unknown.status).toBe(404);
+      expect(option.status).toBe(400);
+    });
+
+    it('streams file contents at a ref and skips binary and unknown files', async () => {
+      const id = await openRepository();
+
+      const response = await request(app)
+        .post(`/api/git/repositories/${id}/files/stream`)
+        .send({ ref: 'v1', paths: ['index.ts', 'logo.png', 'missing.ts'] });
+
+      expect(response.headers['content-type']).toContain('text/event-stream');
+      expect(parseEvents(response.text)).toEqual([
+        { event: 'file', data: { path: 'index.ts', content: 'export const answer = 1;\n' } },
+        { event: 'skipped', data: { path: 'logo.png', reason: 'binary' } },
+        { event: 'skipped', data: { path: 'missing.ts', reason: 'missing' } },
+        { event: 'done', data: { ref: 'v1', commit: firstCommit, files: 1, skipped: 2 } },
+      ]);
+    });
+
+    it('streams working tree contents', async () => {
+      const id = await openRepository();
+
+      const response = await request(app)
+        .post(`/api/git/repositories/${id}/files/stream`)
+        .send({ paths: ['index.ts'] });
+
+      expect(parseEvents(response.text)[0].data.content).toBe('export const answer = 2;\n');
+    });
+
+    it('leaves out symbolic links that lead out of the repository', async () => {
+      const outside = mkdtempSync(join(tmpdir(), 'git-secrets-'));
+      writeFileSync(join(outside, 'secret.txt'), 'password');
+      symlinkSync(join(outside, 'secret.txt'), join(repo, 'link.txt'));
+      symlinkSync(outside, join(repo, 'secrets'));
+      try {
+        const id = await openRepository();
+
+        const listed = await request(app).get(`/api/git/repositories/${id}/files`);
+        const streamed = await request(app)
+          .post(`/api/git/repositories/${id}/files/stream`)
+          .send({ paths: ['link.txt', 'secrets/secret.txt'] });
+
+        expect(listed.body.files.map((f: { path: string }) => f.path)).not.toContain('link.txt');
+        expect(streamed.text).not.toContain('password');
+        expect(parseEvents(streamed.text).filter(e => e.event === 'file')).toEqual([]);
+      } finally {
+        rmSync(join(repo, 'link.txt'));
+        rmSync(join(repo, 'secrets'));
+        rmSync(outside, { recursive: true, force: true });
+      }
+    });
+
+    it('lists the files changed between two refs', async () => {
+      const id = await openRepository();
+
+      const response = await request(app).get(`/api/git/repositories/${id}/changes?base=v1&head=feature`);
+
+      expect(response.status).toBe(200);
+      expect(response.body).toEqual({
+        base: { ref: 'v1', commit: firstCommit },
+        head: { ref: 'feature', commit: git('rev-parse', 'feature') },
+        files: [{ path: 'index.ts', status: 'modified' }],
+      });
+    });
+
+    it('compares the working tree when no head is given', async () => {
+      const id = await openRepository();
+
+      const response = await request(app).get(`/api/git/repositories/${id}/changes?base=main`);
+
+      expect(response.body.head).toEqual({ ref: null, commit: firstCommit });
+      expect(response.body.files).toEqual([
+        { path: 'index.ts', status: 'modified' },
+        { path: 'notes.md', status: 'added' },
+      ]);
+    });
+
+    it('requires a base ref to list changes', async () => {
+      const id = await openRepository();
+
+      const response = await request(app).get(`/api/git/repositories/${id}/changes`);
+
+      expect(response.status).toBe(400);
+    });
+
+    it('hides repositories from other users', async () => {
+      const id = await openRepository();
+
+      const response = await request(app).get(`/api/git/repositories/${id}`).set('X-Test-User', OTHER_USER_ID);
+
+      expect(response.status).toBe(404);
+    });
+  });
+
+  describe('uploaded repositories', () => {
+    const upload = (data: Buffer, name: string) =>
+      request(app)
+        .post(`/api/git/repositories/upload?name=${name}`)
+        .set('Content-Type', 'application/octet-stream')
+        .send(data);
+
+    it('imports a git bundle and reads its commits', async () => {
+      const bundle = join(root, 'project.bundle');
+      git('bundle', 'create', '--quiet', bundle, '--all');
+
+      const response = await upload(readFileSync(bundle), 'project.bundle');
+
+      expect(response.status).toBe(201);
+      expect(response.body).toMatchObject({ name: 'project.bundle', workingTree: false, branches: ['feature', 'main'] });
+
+      const files = await request(app).get(`/api/git/repositories/${response.body.id}/files`);
+      expect(files.body).toMatchObject({ ref: 'HEAD', commit: firstCommit });
+    });
+
+    it('imports a tar archive of a repository', async () => {
+      const archive = join(root, 'project.tar.gz');
+      execFileSync('tar', ['-czf', archive, '-C', root, 'project']);
+
+      const response = await upload(readFileSync(archive), 'project.tar.gz');
+
+      expect(response.status).toBe(201);
+      expect(response.body.tags).toEqual(['v1']);
+    });
+
+    it('rejects archives with a .git file pointing at another repository', async () => {
+      const linked = join(root, 'linked');
+      mkdirSync(linked);
+      writeFileSync(join(linked, '.git'), `gitdir: ${join(repo, '.git')}\n`);
+      const archive = join(root, 'linked.tar');
+      execFileSync('tar', ['-cf', archive, '-C', root, 'linked']);
+
+      const response = await upload(readFileSync(archive), 'linked.tar');
+
+      expect(response.status).toBe(400);
+    });
+
+    it('rejects uploads without a repository', async () => {
+      const response = await upload(Buffer.from('not a repository'), 'notes.txt');
+
+      expect(response.status).toBe(400);
+    });
+
+    it('deletes an uploaded repository when it is closed', async () => {
+      const bundle = join(root, 'closed.bundle');
+      git('bundle', 'create', '--quiet', bundle, 'main');
+      const { body } = await upload(readFileSync(bundle), 'closed.bundle');
+
+      const closed = await request(app).delete(`/api/git/repositories/${body.id}`);
+      const after = await request(app).get(`/api/git/repositories/${body.id}`);
+
+      expect(closed.status).toBe(204);
+      expect(after.status).toBe(404);
+    });
+  });
+});
@@ -0,0 +1,143 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import request from 'supertest';
+import express from 'express';
+import rulesRoutes from '../rules.js';
+import { errorHandler } from '../../middleware/errorHandler.js';
+import type { WorkspaceRole } from '../../models/Workspace.js';
+
+// Mock the Ruleset model, keeping its limits
+vi.mock('../../models/Ruleset.js', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('../../models/Ruleset.js')>()),
+  getRules: vi.fn(),
+  replaceRules: vi.fn(),
+  saveRule: vi.fn(),
+  deleteRule: vi.fn(),
+}));
+
+import * as RulesetModel from '../../models/Ruleset.js';
+
+const WORKSPACE_ID = '923e4567-e89b-12d3-a456-426614174000';
+
+let role: WorkspaceRole = 'owner';
+
+// Stand in for requireAuth and requireWorkspace
+const app = express();
+app.use(express.json());
+app.use((req, _res, next) => {
+  req.user = { id: 'user-1', username: 'ada', displayName: 'Ada', createdAt: new Date() };
+  req.workspace = { id: WORKSPACE_ID, name: 'Team', role, createdAt: new Date() };
+  next();
+});
+app.use('/api/rules', rulesRoutes);
+app.use(errorHandler);
+
+const rule = {
+  id: 'no-moment',
+  description: 'Use date-fns instead of moment',
+  severity: 'warning' as const,
+  example: null,
+  updatedAt: new Date(),
+};
+
+describe('Rules Routes', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    role = 'owner';
+  });
+
+  it('GET /api/rules lists the rules of the workspace', async () => {
+    vi.mocked(RulesetModel.getRules).mockResolvedValue([rule]);
+
+    const response = await request(app).get('/api/rules');
+
+    expect(response.status).toBe(200);
+    expect(response.body).toMatchObject([{ id: 'no-moment', severity: 'warning' }]);
+    expect(RulesetModel.getRules).toHaveBeenCalledWith(WORKSPACE_ID);
+  });
+
+  describe('PUT /api/rules', () => {
+    it('replaces the rules of the workspace', async () => {
+      vi.mocked(RulesetModel.replaceRules).mockResolvedValue([rule]);
+
+      const response = await request(app)
+        .put('/api/rules')
+        .send({ rules: [{ id: 'no-moment', description: ' Use date-fns instead of moment ', severity: 'warning', extra: 1 }] });
+
+      expect(response.status).toBe(200);
+      expect(RulesetModel.replaceRules).toHaveBeenCalledWith(WORKSPACE_ID, [
+        { id: 'no-moment', description: 'Use date-fns instead of moment', severity: 'warning', example: undefined },
+      ]);
+    });
+
+    it('rejects invalid and duplicate rules', async () => {
+      const invalid = await request(app)
+        .put('/api/rules')
+        .send({ rules: [{ id: 'no moment!', description: '', severity: 'fatal' }] });
+      const duplicate = await request(app).put('/api/rules').send({
+        rules: [
+          { id: 'no-var', description: 'a', severity: 'info' },
+          { id: 'no-var', description: 'b', severity: 'info' },
+        ],
+      });
+
+      expect(invalid.status).toBe(400);
+      expect(invalid.body.error).toContain('Rule ID must be');
+      expect(duplicate.status).toBe(400);
+      expect(duplicate.body.error).toBe('Duplicate rule ID: no-var');
+      expect(RulesetModel.replaceRules).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('PUT /api/rules/:id', () => {
+    it('adds a rule and updates it', async () => {
+      vi.mocked(RulesetModel.getRules).mockResolvedValue([]);
+      vi.mocked(RulesetModel.saveRule).mockResolvedValueOnce({ rule, created: true });
+      vi.mocked(RulesetModel.saveRule).mockResolvedValueOnce({ rule, created: false });
+      const body = { description: 'Use date-fns instead of moment', severity: 'warning', example: "import moment from 'moment';" };
+
+      expect((await request(app).put('/api/rules/no-moment').send(body)).status).toBe(201);
+      expect((await request(app).put('/api/rules/no-moment').send(body)).status).toBe(200);
+      expect(RulesetModel.saveRule).toHaveBeenCalledWith(WORKSPACE_ID, { id: 'no-moment', ...body });
+    });
+
+    it('rejects new rules beyond the limit', async () => {
+      vi.mocked(RulesetModel.getRules).mockResolvedValue(
+        Array.from({ length: RulesetModel.MAX_RULES }, (_, i) => ({ ...rule, id: `rule-${i}` }))
+      );
+
+      const response = await request(app).put('/api/rules/no-var').send({ description: 'No var', severity: 'info' });
+
+      expect(response.status).toBe(400);
+      expect(RulesetModel.saveRule).not.toHaveBeenCalled();
+    });
+
+    it('only lets owners change rules', async () => {
+      role = 'member';
+
+      const response = await request(app).put('/api/rules/no-var').send({ description: 'No var', severity: 'info' });
+
+      expect(response.status).toBe(403);
+      expect(response.body.error).toBe('Only workspace owners can change review rules');
+    });
+  });
+
+  describe('DELETE /api/rules/:id', () => {
+    it('deletes a rule', async () => {
+      vi.mocked(RulesetModel.deleteRule).mockResolvedValue(true);
+
+      const response = await request(app).delete('/api/rules/no-moment');
+
+      expect(response.status).toBe(204);
+      expect(RulesetModel.deleteRule).toHaveBeenCalledWith(WORKSPACE_ID, 'no-moment');
+    });
+
+    it('returns 404 for unknown rules', async () => {
+      vi.mocked(RulesetModel.deleteRule).mockResolvedValue(false);
+
+      const response = await request(app).delete('/api/rules/no-var');
+
+      expect(response.status).toBe(404);
+      expect(response.body.error).toBe('Rule not found');
+    });
+  });
+});
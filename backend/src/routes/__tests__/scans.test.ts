@@ -0,0 +1,157 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import request from 'supertest';
+import express from 'express';
+import scanRoutes from '../scans.js';
+import { errorHandler } from '../../middleware/errorHandler.js';
+
+// Mock the Scan model
+vi.mock('../../models/Scan.js', () => ({
+  recordScan: vi.fn(),
+  getScanRunById: vi.fn(),
+  getScanRuns: vi.fn(),
+  setIssueThread: vi.fn(),
+}));
+
+import * as ScanModel from '../../models/Scan.js';
+
+const WORKSPACE_ID = '923e4567-e89b-12d3-a456-426614174000';
+const RUN_ID = '223e4567-e89b-12d3-a456-426614174000';
+const ISSUE_ID = '323e4567-e89b-12d3-a456-426614174000';
+const THREAD_ID = '123e4567-e89b-12d3-a456-426614174000';
+
+// Stand in for requireAuth and requireWorkspace
+const app = express();
+app.use(express.json());
+app.use((req, _res, next) => {
+  req.user = { id: 'user-1', username: 'ada', displayName: 'Ada', createdAt: new Date() };
+  req.workspace = { id: WORKSPACE_ID, name: 'Team', role: 'member', createdAt: new Date() };
+  next();
+});
+app.use('/api/scans', scanRoutes);
+app.use(errorHandler);
+
+const storedIssue = {
+  id: ISSUE_ID,
+  runId: RUN_ID,
+  fingerprint: 'a'.repeat(40),
+  startLine: 2,
+  endLine: 2,
+  severity: 'error' as const,
+  category: 'bug' as const,
+  message: 'Division by zero',
+  fix: 'Check the divisor',
+  diff: null,
+  status: 'new' as const,
+  threadId: null,
+};
+
+const run = {
+  id: RUN_ID,
+  workspaceId: WORKSPACE_ID,
+  file: 'a.ts',
+  mode: 'general' as const,
+  provider: 'openai',
+  model: 'gpt-4',
+  createdAt: new Date(),
+  issues: [storedIssue],
+};
+
+describe('Scan Routes', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  describe('GET /api/scans', () => {
+    it('lists the scans of a file in the workspace', async () => {
+      vi.mocked(ScanModel.getScanRuns).mockResolvedValue([run]);
+
+      const response = await request(app).get('/api/scans?file=a.ts&limit=1');
+
+      expect(response.status).toBe(200);
+      expect(response.body).toMatchObject([{ id: RUN_ID, issues: [{ id: ISSUE_ID, status: 'new' }] }]);
+      expect(ScanModel.getScanRuns).toHaveBeenCalledWith(WORKSPACE_ID, { file: 'a.ts', limit: 1 });
+    });
+
+    it('lists the scans of a mode', async () => {
+      vi.mocked(ScanModel.getScanRuns).mockResolvedValue([]);
+
+      const response = await request(app).get('/api/scans?mode=security');
+
+      expect(response.status).toBe(200);
+      expect(ScanModel.getScanRuns).toHaveBeenCalledWith(WORKSPACE_ID, { mode: 'security' });
+
+      expect((await request(app).get('/api/scans?mode=style')).status).toBe(400);
+    });
+
+    it('rejects limits out of range', async () => {
+      const response = await request(app).get('/api/scans?limit=500');
+
+      expect(response.status).toBe(400);
+      expect(ScanModel.getScanRuns).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('GET /api/scans/:id', () => {
+    it('returns a scan with its issues', async () => {
+      vi.mocked(ScanModel.getScanRunById).mockResolvedValue(run);
+
+      const response = await request(app).get(`/api/scans/${RUN_ID}`);
+
+      expect(response.status).toBe(200);
+      expect(response.body.issues).toHaveLength(1);
+      expect(ScanModel.getScanRunById).toHaveBeenCalledWith(RUN_ID, WORKSPACE_ID);
+    });
+
+    it('returns 404 for scans of other workspaces', async () => {
+      vi.mocked(ScanModel.getScanRunById).mockResolvedValue(null);
+
+      const response = await request(app).get(`/api/scans/${RUN_ID}`);
+
+      expect(response.status).toBe(404);
+    });
+  });
+
+  describe('PUT /api/scans/issues/:id/thread', () => {
+    it('links an issue to a thread', async () => {
+      vi.mocked(ScanModel.setIssueThread).mockResolvedValue({ ...storedIssue, threadId: THREAD_ID });
+
+      const response = await request(app)
+        .put(`/api/scans/issues/${ISSUE_ID}/thread`)
+        .send({ threadId: THREAD_ID });
+
+      expect(response.status).toBe(200);
+      expect(response.body.threadId).toBe(THREAD_ID);
+      expect(ScanModel.setIssueThread).toHaveBeenCalledWith(ISSUE_ID, WORKSPACE_ID, THREAD_ID);
+    });
+
+    it('unlinks an issue with a null thread ID', async () => {
+      vi.mocked(ScanModel.setIssueThread).mockResolvedValue(storedIssue);
+
+      const response = await request(app)
+        .put(`/api/scans/issues/${ISSUE_ID}/thread`)
+        .send({ threadId: null });
+
+      expect(response.status).toBe(200);
+      expect(ScanModel.setIssueThread).toHaveBeenCalledWith(ISSUE_ID, WORKSPACE_ID, null);
+    });
+
+    it('rejects invalid thread IDs', async () => {
+      const response = await request(app)
+        .put(`/api/scans/issues/${ISSUE_ID}/thread`)
+        .send({ threadId: 'thread-1' });
+
+      expect(response.status).toBe(400);
+      expect(ScanModel.setIssueThread).not.toHaveBeenCalled();
+    });
+
+    it('returns 404 for issues of other workspaces', async () => {
+      vi.mocked(ScanModel.setIssueThread).mockResolvedValue(null);
+
+      const response = await request(app)
+        .put(`/api/scans/issues/${ISSUE_ID}/thread`)
+        .send({ threadId: THREAD_ID });
+
+      expect(response.status).toBe(404);
+    });
+  });
+});
@@ -0,0 +1,120 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import request from 'supertest';
+import express from 'express';
+import searchRoutes from '../search.js';
+import { errorHandler } from '../../middleware/errorHandler.js';
+
+// Mock the SearchIndex model
+vi.mock('../../models/SearchIndex.js', () => ({
+  indexFile: vi.fn(),
+  removeFile: vi.fn(),
+  searchCode: vi.fn(),
+}));
+
+import * as SearchIndexModel from '../../models/SearchIndex.js';
+
+const WORKSPACE_ID = '923e4567-e89b-12d3-a456-426614174000';
+
+// Stand in for requireAuth and requireWorkspace
+const app = express();
+app.use(express.json());
+app.use((req, _res, next) => {
+  req.user = { id: 'user-1', username: 'ada', displayName: 'Ada', createdAt: new Date() };
+  req.workspace = { id: WORKSPACE_ID, name: 'Team', role: 'member', createdAt: new Date() };
+  next();
+});
+app.use('/api/search', searchRoutes);
+app.use(errorHandler);
+
+const indexedFile = {
+  workspaceId: WORKSPACE_ID,
+  file: 'src/orders.ts',
+  language: 'typescript',
+  contentHash: 'a'.repeat(64),
+  embedder: 'local-hash-512',
+  chunkCount: 2,
+  indexedAt: new Date(),
+};
+
+describe('Search Routes', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  describe('GET /api/search', () => {
+    it('searches the indexed files of the workspace', async () => {
+      vi.mocked(SearchIndexModel.searchCode).mockResolvedValue([
+        {
+          file: 'src/orders.ts',
+          language: 'typescript',
+          startLine: 1,
+          endLine: 3,
+          symbol: 'parseOrder',
+          content: 'export function parseOrder() {}',
+          score: 0.8,
+        },
+      ]);
+
+      const response = await request(app).get('/api/search?q=parse%20order&limit=5&exclude=src/app.ts');
+
+      expect(response.status).toBe(200);
+      expect(response.body).toMatchObject([{ file: 'src/orders.ts', symbol: 'parseOrder', score: 0.8 }]);
+      expect(SearchIndexModel.searchCode).toHaveBeenCalledWith(WORKSPACE_ID, 'parse order', {
+        limit: 5,
+        excludeFile: 'src/app.ts',
+      });
+    });
+
+    it('rejects blank queries and limits out of range', async () => {
+      expect((await request(app).get('/api/search?q=%20')).status).toBe(400);
+      expect((await request(app).get('/api/search?q=parse&limit=500')).status).toBe(400);
+      expect(SearchIndexModel.searchCode).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('PUT /api/search/files', () => {
+    it('indexes a file', async () => {
+      vi.mocked(SearchIndexModel.indexFile).mockResolvedValue({ file: indexedFile, updated: true });
+
+      const response = await request(app)
+        .put('/api/search/files')
+        .send({ name: 'src/orders.ts', content: 'export {};', language: 'typescript' });
+
+      expect(response.status).toBe(200);
+      expect(response.body).toMatchObject({ file: 'src/orders.ts', chunkCount: 2, updated: true });
+      expect(SearchIndexModel.indexFile).toHaveBeenCalledWith({
+        workspaceId: WORKSPACE_ID,
+        file: 'src/orders.ts',
+        language: 'typescript',
+        content: 'export {};',
+      });
+    });
+
+    it('rejects files without a name or language', async () => {
+      const response = await request(app).put('/api/search/files').send({ content: 'x' });
+
+      expect(response.status).toBe(400);
+      expect(response.body.error).toContain('File name is required');
+      expect(SearchIndexModel.indexFile).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('DELETE /api/search/files', () => {
+    it('removes a file from the index', async () => {
+      vi.mocked(SearchIndexModel.removeFile).mockResolvedValue(true);
+
+      const response = await request(app).delete('/api/search/files?name=src/orders.ts');
+
+      expect(response.status).toBe(204);
+      expect(SearchIndexModel.removeFile).toHaveBeenCalledWith(WORKSPACE_ID, 'src/orders.ts');
+    });
+
+    it('returns 404 for files that are not indexed', async () => {
+      vi.mocked(SearchIndexModel.removeFile).mockResolvedValue(false);
+
+      const response = await request(app).delete('/api/search/files?name=src/orders.ts');
+
+      expect(response.status).toBe(404);
+    });
+  });
+});
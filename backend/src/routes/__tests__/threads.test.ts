@@ -12,13 +12,22 @@ vi.mock('../../models/Thread.js', () => ({
   updateThread: vi.fn(),
   deleteThread: vi.fn(),
   addComment: vi.fn(),
+  updateComment: vi.fn(),
   getComments: vi.fn(),
 }));
 
 import * as ThreadModel from '../../models/Thread.js';
 
+const WORKSPACE_ID = '923e4567-e89b-12d3-a456-426614174000';
+
+// Stand in for requireAuth and requireWorkspace
 const app = express();
 app.use(express.json());
+app.use((req, _res, next) => {
+  req.user = { id: 'user-1', username: 'ada', displayName: 'Ada', createdAt: new Date() };
+  req.workspace = { id: WORKSPACE_ID, name: 'Team', role: 'member', createdAt: new Date() };
+  next();
+});
 app.use('/api/threads', threadRoutes);
 app.use(errorHandler);
 
@@ -55,14 +64,65 @@ describe('Thread Routes', () => {
       expect(response.status).toBe(201);
       expect(response.body.id).toBe(mockThread.id);
       expect(ThreadModel.createThread).toHaveBeenCalledWith({
+        workspaceId: WORKSPACE_ID,
         file: 'test.ts',
         startLine: 1,
         endLine: 5,
         selectedCode: 'const x = 1;',
         initialComment: undefined,
+        authorId: 'user-1',
+        authorName: 'Ada',
       });
     });
 
+    it('returns 409 when the ID is used by a thread of another workspace', async () => {
+      vi.mocked(ThreadModel.getThreadById).mockResolvedValue(null);
+      vi.mocked(ThreadModel.createThread).mockResolvedValue(null);
+
+      const response = await request(app)
+        .post('/api/threads')
+        .send({
+          id: '123e4567-e89b-12d3-a456-426614174000',
+          file: 'test.ts',
+          startLine: 1,
+          endLine: 5,
+          selectedCode: 'const x = 1;',
+        });
+
+      expect(response.status).toBe(409);
+      expect(ThreadModel.getThreadById).toHaveBeenCalledWith('123e4567-e89b-12d3-a456-426614174000', WORKSPACE_ID);
+    });
+
+    it('returns the existing thread when created again with the same ID', async () => {
+      const mockThread = {
+        id: '123e4567-e89b-12d3-a456-426614174000',
+        file: 'test.ts',
+        startLine: 1,
+        endLine: 5,
+        selectedCode: 'const x = 1;',
+        resolved: false,
+        createdAt: new Date(),
+        updatedAt: new Date(),
+        comments: [],
+      };
+
+      vi.mocked(ThreadModel.getThreadById).mockResolvedValue(mockThread);
+
+      const response = await request(app)
+        .post('/api/threads')
+        .send({
+          id: mockThread.id,
+          file: 'test.ts',
+          startLine: 1,
+          endLine: 5,
+          selectedCode: 'const x = 1;',
+        });
+
+      expect(response.status).toBe(200);
+      expect(response.body.id).toBe(mockThread.id);
+      expect(ThreadModel.createThread).not.toHaveBeenCalled();
+    });
+
     it('returns 400 for invalid input', async () => {
       const response = await request(app)
         .post('/api/threads')
@@ -74,6 +134,83 @@ describe('Thread Routes', () => {
       expect(response.status).toBe(400);
       expect(response.body.error).toContain('Validation failed');
     });
+
+    it('records the repository version of the file', async () => {
+      const source = { repository: '/repos/project', commitSha: 'a'.repeat(40), path: 'src/test.ts' };
+      vi.mocked(ThreadModel.createThread).mockResolvedValue(null);
+
+      await request(app)
+        .post('/api/threads')
+        .send({ file: 'src/test.ts', startLine: 1, endLine: 5, selectedCode: 'const x = 1;', source });
+
+      expect(ThreadModel.createThread).toHaveBeenCalledWith(expect.objectContaining({ source }));
+    });
+
+    it('returns 400 for a source without a full commit SHA', async () => {
+      const response = await request(app)
+        .post('/api/threads')
+        .send({
+          file: 'test.ts',
+          startLine: 1,
+          endLine: 5,
+          selectedCode: 'const x = 1;',
+          source: { repository: '/repos/project', commitSha: 'main', path: 'test.ts' },
+        });
+
+      expect(response.status).toBe(400);
+      expect(response.body.error).toContain('Source commit must be a full commit SHA');
+    });
+
+    it('records the diff side and revisions of a thread on a change', async () => {
+      vi.mocked(ThreadModel.createThread).mockResolvedValue(null);
+
+      await request(app)
+        .post('/api/threads')
+        .send({
+          file: 'src/test.ts',
+          startLine: 3,
+          endLine: 4,
+          selectedCode: 'const x = 1;',
+          side: 'old',
+          baseRevision: 'main',
+          headRevision: 'b'.repeat(40),
+        });
+
+      expect(ThreadModel.createThread).toHaveBeenCalledWith(
+        expect.objectContaining({ side: 'old', baseRevision: 'main', headRevision: 'b'.repeat(40) })
+      );
+    });
+
+    it('records the code a thread was created on', async () => {
+      vi.mocked(ThreadModel.createThread).mockResolvedValue(null);
+      const anchor = { lines: ['const x = 1;'], contextBefore: ['// Values'], contextAfter: [] };
+
+      await request(app)
+        .post('/api/threads')
+        .send({ file: 'test.ts', startLine: 2, endLine: 2, selectedCode: 'const x = 1;', anchor: { ...anchor, extra: 1 } });
+
+      expect(ThreadModel.createThread).toHaveBeenCalledWith(expect.objectContaining({ anchor }));
+    });
+
+    it('returns 400 for an anchor without lines', async () => {
+      const response = await request(app)
+        .post('/api/threads')
+        .send({ file: 'test.ts', startLine: 1, endLine: 1, selectedCode: 'x', anchor: { lines: [1], contextBefore: [] } });
+
+      expect(response.status).toBe(400);
+      expect(response.body.error).toContain('Anchor lines must be arrays');
+      expect(response.body.error).toContain('Anchor lines must be strings');
+      expect(ThreadModel.createThread).not.toHaveBeenCalled();
+    });
+
+    it('returns 400 for an unknown diff side', async () => {
+      const response = await request(app)
+        .post('/api/threads')
+        .send({ file: 'test.ts', startLine: 1, endLine: 5, selectedCode: 'const x = 1;', side: 'left' });
+
+      expect(response.status).toBe(400);
+      expect(response.body.error).toContain('Side must be old or new');
+    });
   });
 
   describe('GET /api/threads/:id', () => {
@@ -145,7 +282,7 @@ describe('Thread Routes', () => {
 
       await request(app).get('/api/threads?file=test.ts');
 
-      expect(ThreadModel.getThreads).toHaveBeenCalledWith({
+      expect(ThreadModel.getThreads).toHaveBeenCalledWith(WORKSPACE_ID, {
         file: 'test.ts',
         resolved: undefined,
         limit: undefined,
@@ -158,7 +295,7 @@ describe('Thread Routes', () => {
 
       await request(app).get('/api/threads?resolved=true');
 
-      expect(ThreadModel.getThreads).toHaveBeenCalledWith({
+      expect(ThreadModel.getThreads).toHaveBeenCalledWith(WORKSPACE_ID, {
         file: undefined,
         resolved: true,
         limit: undefined,
@@ -167,6 +304,89 @@ describe('Thread Routes', () => {
     });
   });
 
+  describe('GET /api/threads/export', () => {
+    const openThread = {
+      id: '123e4567-e89b-12d3-a456-426614174000',
+      file: 'test.ts',
+      startLine: 1,
+      endLine: 5,
+      selectedCode: 'const x = 1;',
+      source: null,
+      side: null,
+      resolved: false,
+      createdAt: new Date(),
+      updatedAt: new Date(),
+      comments: [],
+    };
+
+    it('exports the unresolved threads as SARIF', async () => {
+      vi.mocked(ThreadModel.getThreads).mockResolvedValue([openThread] as never);
+
+      const response = await request(app).get('/api/threads/export?format=sarif');
+
+      expect(response.status).toBe(200);
+      expect(response.headers['content-type']).toMatch(/^application\/sarif\+json/);
+      expect(ThreadModel.getThreads).toHaveBeenCalledWith(WORKSPACE_ID, { resolved: false });
+      const log = JSON.parse(response.text);
+      expect(log.version).toBe('2.1.0');
+      expect(log.runs[0].results).toHaveLength(1);
+    });
+
+    it('adds the scan issues posted by the client', async () => {
+      vi.mocked(ThreadModel.getThreads).mockResolvedValue([]);
+
+      const response = await request(app)
+        .post('/api/threads/export?format=sarif')
+        .send({
+          scans: [
+            {
+              file: 'calc.js',
+              issues: [{ startLine: 2, endLine: 2, severity: 'warning', category: 'bug', message: 'Off by one', fix: 'Use <' }],
+            },
+          ],
+        });
+
+      expect(response.status).toBe(200);
+      const [result] = JSON.parse(response.text).runs[0].results;
+      expect(result).toMatchObject({ ruleId: 'scan/bug', level: 'warning', message: { text: 'Off by one' } });
+    });
+
+    it('renders a Markdown report of all threads', async () => {
+      vi.mocked(ThreadModel.getThreads).mockResolvedValue([{ ...openThread, comments: [] }] as never);
+
+      const response = await request(app).get('/api/threads/export?format=markdown');
+
+      expect(response.status).toBe(200);
+      expect(response.headers['content-type']).toMatch(/^text\/markdown/);
+      expect(ThreadModel.getThreads).toHaveBeenCalledWith(WORKSPACE_ID);
+      expect(response.text).toContain('# Code review: Team');
+      expect(response.text).toContain('## test.ts');
+    });
+
+    it('renders an HTML report', async () => {
+      vi.mocked(ThreadModel.getThreads).mockResolvedValue([]);
+
+      const response = await request(app).get('/api/threads/export?format=html');
+
+      expect(response.status).toBe(200);
+      expect(response.headers['content-type']).toMatch(/^text\/html/);
+      expect(response.text).toContain('<h1>Code review: Team</h1>');
+    });
+
+    it('rejects unknown formats and invalid issues', async () => {
+      const format = await request(app).get('/api/threads/export?format=csv');
+      const issue = await request(app)
+        .post('/api/threads/export')
+        .send({ scans: [{ file: 'a.js', issues: [{ startLine: 0, endLine: 1, severity: 'fatal', category: 'bug', message: 'x' }] }] });
+
+      expect(format.status).toBe(400);
+      expect(format.body.error).toContain('Format must be sarif, markdown or html');
+      expect(issue.status).toBe(400);
+      expect(issue.body.error).toContain('Invalid issue severity');
+      expect(ThreadModel.getThreads).not.toHaveBeenCalled();
+    });
+  });
+
   describe('PUT /api/threads/:id', () => {
     it('updates a thread', async () => {
       const mockThread = {
@@ -191,6 +411,32 @@ describe('Thread Routes', () => {
       expect(response.body.resolved).toBe(true);
     });
 
+    it('moves a thread after an edit of its file', async () => {
+      vi.mocked(ThreadModel.updateThread).mockResolvedValue(null);
+
+      await request(app)
+        .put('/api/threads/123e4567-e89b-12d3-a456-426614174000')
+        .send({ startLine: 4, endLine: 6, outdated: true });
+
+      expect(ThreadModel.updateThread).toHaveBeenCalledWith('123e4567-e89b-12d3-a456-426614174000', WORKSPACE_ID, {
+        resolved: undefined,
+        startLine: 4,
+        endLine: 6,
+        outdated: true,
+      });
+    });
+
+    it('returns 400 for a range without both ends or in the wrong order', async () => {
+      for (const body of [{ startLine: 4 }, { startLine: 6, endLine: 4 }, { outdated: 'yes' }]) {
+        const response = await request(app)
+          .put('/api/threads/123e4567-e89b-12d3-a456-426614174000')
+          .send(body);
+
+        expect(response.status).toBe(400);
+      }
+      expect(ThreadModel.updateThread).not.toHaveBeenCalled();
+    });
+
     it('returns 404 for non-existent thread', async () => {
       vi.mocked(ThreadModel.updateThread).mockResolvedValue(null);
 
@@ -210,6 +456,7 @@ describe('Thread Routes', () => {
         .delete('/api/threads/123e4567-e89b-12d3-a456-426614174000');
 
       expect(response.status).toBe(204);
+      expect(ThreadModel.deleteThread).toHaveBeenCalledWith('123e4567-e89b-12d3-a456-426614174000', WORKSPACE_ID);
     });
 
     it('returns 404 for non-existent thread', async () => {
@@ -259,6 +506,124 @@ describe('Thread Routes', () => {
       expect(response.body.text).toBe('Test comment');
     });
 
+    it('stamps user comments with the signed-in user', async () => {
+      vi.mocked(ThreadModel.getThreadById).mockResolvedValue({
+        id: '123e4567-e89b-12d3-a456-426614174000',
+        file: 'test.ts',
+        startLine: 1,
+        endLine: 1,
+        selectedCode: 'const x = 1;',
+        resolved: false,
+        createdAt: new Date(),
+        updatedAt: new Date(),
+        comments: [],
+      });
+      vi.mocked(ThreadModel.addComment).mockResolvedValue({
+        id: '223e4567-e89b-12d3-a456-426614174001',
+        threadId: '123e4567-e89b-12d3-a456-426614174000',
+        author: 'user',
+        authorId: 'user-1',
+        authorName: 'Ada',
+        text: 'Why const?',
+        createdAt: new Date(),
+      });
+
+      const response = await request(app)
+        .post('/api/threads/123e4567-e89b-12d3-a456-426614174000/comments')
+        .send({ author: 'user', text: 'Why const?' });
+
+      expect(response.status).toBe(201);
+      expect(response.body.authorName).toBe('Ada');
+      expect(ThreadModel.addComment).toHaveBeenCalledWith(
+        expect.objectContaining({ author: 'user', authorId: 'user-1', authorName: 'Ada' })
+      );
+    });
+
+    it('normalizes the diff of a comment and keeps its client ID', async () => {
+      vi.mocked(ThreadModel.getThreadById).mockResolvedValue({
+        id: '123e4567-e89b-12d3-a456-426614174000',
+        file: 'test.ts',
+        startLine: 10,
+        endLine: 11,
+        selectedCode: 'let x = 1;\nlet y = 2;',
+        resolved: false,
+        createdAt: new Date(),
+        updatedAt: new Date(),
+        comments: [],
+      });
+      vi.mocked(ThreadModel.addComment).mockResolvedValue({
+        id: '223e4567-e89b-12d3-a456-426614174001',
+        threadId: '123e4567-e89b-12d3-a456-426614174000',
+        author: 'user',
+        text: 'Use const',
+        diff: null,
+        createdAt: new Date(),
+      });
+
+      const response = await request(app)
+        .post('/api/threads/123e4567-e89b-12d3-a456-426614174000/comments')
+        .send({
+          id: '323e4567-e89b-12d3-a456-426614174002',
+          author: 'user',
+          text: 'Use const',
+          diff: '-let y = 2;\n+const y = 2;',
+        });
+
+      expect(response.status).toBe(201);
+      expect(ThreadModel.addComment).toHaveBeenCalledWith({
+        id: '323e4567-e89b-12d3-a456-426614174002',
+        threadId: '123e4567-e89b-12d3-a456-426614174000',
+        author: 'user',
+        authorId: 'user-1',
+        authorName: 'Ada',
+        text: 'Use const',
+        diff: '@@ -11,1 +11,1 @@\n-let y = 2;\n+const y = 2;',
+      });
+    });
+
+    it('returns 409 when the comment ID is taken by another thread', async () => {
+      vi.mocked(ThreadModel.getThreadById).mockResolvedValue({
+        id: '123e4567-e89b-12d3-a456-426614174000',
+        file: 'test.ts',
+        startLine: 1,
+        endLine: 1,
+        selectedCode: 'const x = 1;',
+        resolved: false,
+        createdAt: new Date(),
+        updatedAt: new Date(),
+        comments: [],
+      });
+      vi.mocked(ThreadModel.addComment).mockResolvedValue(null);
+
+      const response = await request(app)
+        .post('/api/threads/123e4567-e89b-12d3-a456-426614174000/comments')
+        .send({ id: '323e4567-e89b-12d3-a456-426614174002', author: 'user', text: 'Hi' });
+
+      expect(response.status).toBe(409);
+      expect(response.body.error).toBe('Comment ID is already in use');
+    });
+
+    it('returns 400 for a diff without changes', async () => {
+      vi.mocked(ThreadModel.getThreadById).mockResolvedValue({
+        id: '123e4567-e89b-12d3-a456-426614174000',
+        file: 'test.ts',
+        startLine: 1,
+        endLine: 1,
+        selectedCode: 'const x = 1;',
+        resolved: false,
+        createdAt: new Date(),
+        updatedAt: new Date(),
+        comments: [],
+      });
+
+      const response = await request(app)
+        .post('/api/threads/123e4567-e89b-12d3-a456-426614174000/comments')
+        .send({ author: 'user', text: 'Looks good', diff: 'No changes' });
+
+      expect(response.status).toBe(400);
+      expect(ThreadModel.addComment).not.toHaveBeenCalled();
+    });
+
     it('returns 404 for non-existent thread', async () => {
       vi.mocked(ThreadModel.getThreadById).mockResolvedValue(null);
 
@@ -272,6 +637,16 @@ describe('Thread Routes', () => {
       expect(response.status).toBe(404);
     });
 
+    it('returns 400 for AI comments, which only reviews save', async () => {
+      const response = await request(app)
+        .post('/api/threads/123e4567-e89b-12d3-a456-426614174000/comments')
+        .send({ author: 'ai', text: 'Looks good' });
+
+      expect(response.status).toBe(400);
+      expect(response.body.error).toContain('Author must be "user"');
+      expect(ThreadModel.addComment).not.toHaveBeenCalled();
+    });
+
     it('returns 400 for invalid author', async () => {
       const response = await request(app)
         .post('/api/threads/123e4567-e89b-12d3-a456-426614174000/comments')
@@ -283,5 +658,118 @@ describe('Thread Routes', () => {
       expect(response.status).toBe(400);
     });
   });
+
+  describe('PATCH /api/threads/:id/comments/:commentId', () => {
+    const threadWithSuggestion = () => ({
+      id: '123e4567-e89b-12d3-a456-426614174000',
+      file: 'test.ts',
+      startLine: 1,
+      endLine: 1,
+      selectedCode: 'const x = 1;',
+      resolved: false,
+      createdAt: new Date(),
+      updatedAt: new Date(),
+      comments: [
+        {
+          id: '323e4567-e89b-12d3-a456-426614174002',
+          threadId: '123e4567-e89b-12d3-a456-426614174000',
+          author: 'ai' as const,
+          text: 'Use const',
+          diff: '--- a/test.ts\n+++ b/test.ts\n@@ -1 +1 @@\n-const x = 1;\n+const x = 2;\n',
+          createdAt: new Date(),
+        },
+        {
+          id: '423e4567-e89b-12d3-a456-426614174003',
+          threadId: '123e4567-e89b-12d3-a456-426614174000',
+          author: 'user' as const,
+          text: 'Thanks',
+          createdAt: new Date(),
+        },
+      ],
+    });
+
+    it('marks the suggestion of a comment as applied', async () => {
+      const thread = threadWithSuggestion();
+      vi.mocked(ThreadModel.getThreadById).mockResolvedValue(thread);
+      vi.mocked(ThreadModel.updateComment).mockResolvedValue({
+        ...thread.comments[0],
+        appliedAt: new Date('2024-01-02T03:04:05.000Z'),
+      });
+
+      const response = await request(app)
+        .patch('/api/threads/123e4567-e89b-12d3-a456-426614174000/comments/323e4567-e89b-12d3-a456-426614174002')
+        .send({ appliedAt: '2024-01-02T03:04:05.000Z' });
+
+      expect(response.status).toBe(200);
+      expect(response.body.appliedAt).toBe('2024-01-02T03:04:05.000Z');
+      expect(ThreadModel.getThreadById).toHaveBeenCalledWith('123e4567-e89b-12d3-a456-426614174000', WORKSPACE_ID);
+      expect(ThreadModel.updateComment).toHaveBeenCalledWith(
+        '323e4567-e89b-12d3-a456-426614174002',
+        '123e4567-e89b-12d3-a456-426614174000',
+        { appliedAt: new Date('2024-01-02T03:04:05.000Z') }
+      );
+    });
+
+    it('marks a suggestion as not applied with a null date', async () => {
+      const thread = threadWithSuggestion();
+      vi.mocked(ThreadModel.getThreadById).mockResolvedValue(thread);
+      vi.mocked(ThreadModel.updateComment).mockResolvedValue({ ...thread.comments[0], appliedAt: null });
+
+      const response = await request(app)
+        .patch('/api/threads/123e4567-e89b-12d3-a456-426614174000/comments/323e4567-e89b-12d3-a456-426614174002')
+        .send({ appliedAt: null });
+
+      expect(response.status).toBe(200);
+      expect(ThreadModel.updateComment).toHaveBeenCalledWith(
+        '323e4567-e89b-12d3-a456-426614174002',
+        '123e4567-e89b-12d3-a456-426614174000',
+        { appliedAt: null }
+      );
+    });
+
+    it('returns 400 for a comment without a suggestion', async () => {
+      vi.mocked(ThreadModel.getThreadById).mockResolvedValue(threadWithSuggestion());
+
+      const response = await request(app)
+        .patch('/api/threads/123e4567-e89b-12d3-a456-426614174000/comments/423e4567-e89b-12d3-a456-426614174003')
+        .send({ appliedAt: '2024-01-02T03:04:05.000Z' });
+
+      expect(response.status).toBe(400);
+      expect(ThreadModel.updateComment).not.toHaveBeenCalled();
+    });
+
+    it('returns 400 without a valid date', async () => {
+      for (const body of [{}, { appliedAt: 'yesterday' }]) {
+        const response = await request(app)
+          .patch('/api/threads/123e4567-e89b-12d3-a456-426614174000/comments/323e4567-e89b-12d3-a456-426614174002')
+          .send(body);
+
+        expect(response.status).toBe(400);
+      }
+      expect(ThreadModel.getThreadById).not.toHaveBeenCalled();
+    });
+
+    it('returns 404 for a comment of another thread', async () => {
+      vi.mocked(ThreadModel.getThreadById).mockResolvedValue(threadWithSuggestion());
+
+      const response = await request(app)
+        .patch('/api/threads/123e4567-e89b-12d3-a456-426614174000/comments/523e4567-e89b-12d3-a456-426614174004')
+        .send({ appliedAt: '2024-01-02T03:04:05.000Z' });
+
+      expect(response.status).toBe(404);
+      expect(ThreadModel.updateComment).not.toHaveBeenCalled();
+    });
+
+    it('returns 404 for a thread of another workspace', async () => {
+      vi.mocked(ThreadModel.getThreadById).mockResolvedValue(null);
+
+      const response = await request(app)
+        .patch('/api/threads/123e4567-e89b-12d3-a456-426614174000/comments/323e4567-e89b-12d3-a456-426614174002')
+        .send({ appliedAt: '2024-01-02T03:04:05.000Z' });
+
+      expect(response.status).toBe(404);
+      expect(ThreadModel.updateComment).not.toHaveBeenCalled();
+    });
+  });
 });
 
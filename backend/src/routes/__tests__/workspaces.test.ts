@@ -0,0 +1,153 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import request from 'supertest';
+import express from 'express';
+import workspaceRoutes from '../workspaces.js';
+import { errorHandler } from '../../middleware/errorHandler.js';
+
+// Mock the Workspace and User models
+vi.mock('../../models/Workspace.js', () => ({
+  createWorkspace: vi.fn(),
+  getWorkspacesForUser: vi.fn(),
+  getWorkspaceForUser: vi.fn(),
+  getMembers: vi.fn(),
+  addMember: vi.fn(),
+  removeMember: vi.fn(),
+}));
+
+vi.mock('../../models/User.js', () => ({
+  getUserByUsername: vi.fn(),
+}));
+
+import * as WorkspaceModel from '../../models/Workspace.js';
+import * as UserModel from '../../models/User.js';
+
+const USER_ID = '123e4567-e89b-12d3-a456-426614174000';
+const OTHER_USER_ID = '223e4567-e89b-12d3-a456-426614174001';
+const WORKSPACE_ID = '923e4567-e89b-12d3-a456-426614174000';
+
+// Stand in for requireAuth
+const app = express();
+app.use(express.json());
+app.use((req, _res, next) => {
+  req.user = { id: USER_ID, username: 'ada', displayName: 'Ada', createdAt: new Date() };
+  next();
+});
+app.use('/api/workspaces', workspaceRoutes);
+app.use(errorHandler);
+
+const workspace = (role: WorkspaceModel.WorkspaceRole) => ({
+  id: WORKSPACE_ID,
+  name: 'Team',
+  role,
+  createdAt: new Date(),
+});
+
+const member = (userId: string, role: WorkspaceModel.WorkspaceRole) => ({
+  userId,
+  username: userId === USER_ID ? 'ada' : 'grace',
+  displayName: userId === USER_ID ? 'Ada' : 'Grace',
+  role,
+  joinedAt: new Date(),
+});
+
+describe('Workspace Routes', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  it('lists the workspaces of the user', async () => {
+    vi.mocked(WorkspaceModel.getWorkspacesForUser).mockResolvedValue([workspace('owner')]);
+
+    const response = await request(app).get('/api/workspaces');
+
+    expect(response.status).toBe(200);
+    expect(response.body).toHaveLength(1);
+    expect(WorkspaceModel.getWorkspacesForUser).toHaveBeenCalledWith(USER_ID);
+  });
+
+  it('creates a workspace owned by the user', async () => {
+    vi.mocked(WorkspaceModel.createWorkspace).mockResolvedValue(workspace('owner'));
+
+    const response = await request(app).post('/api/workspaces').send({ name: ' Team ' });
+
+    expect(response.status).toBe(201);
+    expect(WorkspaceModel.createWorkspace).toHaveBeenCalledWith({ name: 'Team', ownerId: USER_ID });
+  });
+
+  it('returns 404 for workspaces the user is not a member of', async () => {
+    vi.mocked(WorkspaceModel.getWorkspaceForUser).mockResolvedValue(null);
+
+    const response = await request(app).get(`/api/workspaces/${WORKSPACE_ID}/members`);
+
+    expect(response.status).toBe(404);
+    expect(WorkspaceModel.getMembers).not.toHaveBeenCalled();
+  });
+
+  describe('members', () => {
+    it('lets owners add members by username', async () => {
+      vi.mocked(WorkspaceModel.getWorkspaceForUser).mockResolvedValue(workspace('owner'));
+      vi.mocked(UserModel.getUserByUsername).mockResolvedValue({
+        id: OTHER_USER_ID,
+        username: 'grace',
+        displayName: 'Grace',
+        createdAt: new Date(),
+      });
+      vi.mocked(WorkspaceModel.addMember).mockResolvedValue(true);
+      vi.mocked(WorkspaceModel.getMembers).mockResolvedValue([member(USER_ID, 'owner'), member(OTHER_USER_ID, 'member')]);
+
+      const response = await request(app)
+        .post(`/api/workspaces/${WORKSPACE_ID}/members`)
+        .send({ username: 'grace' });
+
+      expect(response.status).toBe(201);
+      expect(response.body).toHaveLength(2);
+      expect(WorkspaceModel.addMember).toHaveBeenCalledWith(WORKSPACE_ID, OTHER_USER_ID, 'member');
+    });
+
+    it('does not let members add members', async () => {
+      vi.mocked(WorkspaceModel.getWorkspaceForUser).mockResolvedValue(workspace('member'));
+
+      const response = await request(app)
+        .post(`/api/workspaces/${WORKSPACE_ID}/members`)
+        .send({ username: 'grace' });
+
+      expect(response.status).toBe(403);
+      expect(WorkspaceModel.addMember).not.toHaveBeenCalled();
+    });
+
+    it('returns 404 for unknown users', async () => {
+      vi.mocked(WorkspaceModel.getWorkspaceForUser).mockResolvedValue(workspace('owner'));
+      vi.mocked(UserModel.getUserByUsername).mockResolvedValue(null);
+
+      const response = await request(app)
+        .post(`/api/workspaces/${WORKSPACE_ID}/members`)
+        .send({ username: 'nobody' });
+
+      expect(response.status).toBe(404);
+    });
+
+    it('lets members leave but not remove others', async () => {
+      vi.mocked(WorkspaceModel.getWorkspaceForUser).mockResolvedValue(workspace('member'));
+      vi.mocked(WorkspaceModel.getMembers).mockResolvedValue([member(OTHER_USER_ID, 'owner'), member(USER_ID, 'member')]);
+      vi.mocked(WorkspaceModel.removeMember).mockResolvedValue(true);
+
+      const leave = await request(app).delete(`/api/workspaces/${WORKSPACE_ID}/members/${USER_ID}`);
+      const remove = await request(app).delete(`/api/workspaces/${WORKSPACE_ID}/members/${OTHER_USER_ID}`);
+
+      expect(leave.status).toBe(204);
+      expect(remove.status).toBe(403);
+      expect(WorkspaceModel.removeMember).toHaveBeenCalledTimes(1);
+    });
+
+    it('does not remove owners', async () => {
+      vi.mocked(WorkspaceModel.getWorkspaceForUser).mockResolvedValue(workspace('owner'));
+      vi.mocked(WorkspaceModel.getMembers).mockResolvedValue([member(USER_ID, 'owner')]);
+
+      const response = await request(app).delete(`/api/workspaces/${WORKSPACE_ID}/members/${USER_ID}`);
+
+      expect(response.status).toBe(400);
+      expect(WorkspaceModel.removeMember).not.toHaveBeenCalled();
+    });
+  });
+});
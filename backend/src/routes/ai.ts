@@ -1,26 +1,243 @@
-import { Router } from 'express';
+import { Router, Request } from 'express';
 import { body } from 'express-validator';
 import { asyncHandler, createError } from '../middleware/errorHandler.js';
 import { validationResult } from 'express-validator';
-import { generateReview, generateReviewWithFallback, AIServiceFactory } from '../services/ai/index.js';
+import {
+  generateReview,
+  generateReviewWithFallback,
+  streamReview,
+  scanCode,
+  AIServiceFactory,
+  AI_PROVIDERS,
+  REVIEW_MODES,
+  ReviewInput,
+  ReviewOutput,
+  ScanInput,
+  ConversationTurn,
+} from '../services/ai/index.js';
 import * as ThreadModel from '../models/Thread.js';
+import * as ScanModel from '../models/Scan.js';
+import * as SearchIndexModel from '../models/SearchIndex.js';
+import * as RulesetModel from '../models/Ruleset.js';
+import { formatModeFields } from '@ai-code-review/shared';
+import { fingerprintIssues } from '../utils/fingerprint.js';
+import { startEventStream, sendEvent } from '../utils/sse.js';
+import { WORKSPACE_HEADER } from '../middleware/workspace.js';
 
 const router = Router();
 
+/** Chunks of the workspace's other indexed files sent with a review */
+const RELATED_CODE_LIMIT = 3;
+
+/**
+ * Format a review as the text of an AI thread comment
+ */
+function formatReviewComment(review: ReviewOutput): string {
+  const modeFields = formatModeFields(review);
+  return review.explanation +
+    (review.suggestions.length > 0
+      ? '\n\nSuggestions:\n' + review.suggestions.map((s, i) => `${i + 1}. ${s}`).join('\n')
+      : '') +
+    (review.findings?.length
+      ? '\n\nRule violations:\n' + review.findings.map((f) => `- [${f.ruleId}] ${f.message}`).join('\n')
+      : '') +
+    (modeFields.length > 0 ? '\n\n' + modeFields.join('\n') : '');
+}
+
+/**
+ * Save a review as an AI comment on a thread, if the thread exists in the workspace
+ * Returns the stored comment, so the client shows it without saving it again
+ */
+async function saveReviewComment(
+  threadId: string,
+  workspaceId: string,
+  review: ReviewOutput
+): Promise<ThreadModel.Comment | null> {
+  const thread = await ThreadModel.getThreadById(threadId, workspaceId);
+  if (!thread) {
+    return null;
+  }
+  return ThreadModel.addComment({
+    threadId,
+    author: 'ai',
+    text: formatReviewComment(review),
+    diff: review.diff,
+  });
+}
+
+/**
+ * Load a thread's comments as conversation history for a follow-up review
+ * Threads are only found in the request's workspace
+ */
+async function loadThreadHistory(
+  threadId: string | undefined,
+  workspaceId: string | undefined
+): Promise<ConversationTurn[] | undefined> {
+  if (!threadId || !workspaceId) {
+    return undefined;
+  }
+
+  const comments = await ThreadModel.getComments(threadId, workspaceId);
+  return comments.map((comment) => ({
+    role: comment.author === 'ai' ? 'assistant' : 'user',
+    content: comment.diff ? `${comment.text}\n\nSuggested diff:\n${comment.diff}` : comment.text,
+  }));
+}
+
+/**
+ * Build the review input from a validated request body
+ * With `fileContent`, the selection is read from the file and the AI service slices
+ * the context around it to fit the model
+ */
+function getReviewInput(requestBody: Request['body']): ReviewInput {
+  const {
+    codeContext,
+    selectedCode,
+    language,
+    query,
+    fileName,
+    additionalFiles,
+    fileContent,
+    startLine,
+    endLine,
+    hunk,
+    mode,
+  } = requestBody;
+
+  if (fileContent === undefined) {
+    return { codeContext, selectedCode, language, query, fileName, additionalFiles, hunk, mode };
+  }
+
+  const lineCount = fileContent.split('\n').length;
+  if (endLine < startLine || endLine > lineCount) {
+    throw createError(`Lines ${startLine}-${endLine} are outside the file (lines 1-${lineCount})`, 400);
+  }
+
+  const selection = selectedCode || fileContent.split('\n').slice(startLine - 1, endLine).join('\n');
+
+  return {
+    codeContext: selection,
+    selectedCode: selection,
+    language,
+    query,
+    fileName,
+    additionalFiles,
+    file: { content: fileContent, startLine, endLine },
+    hunk,
+    mode,
+  };
+}
+
+/**
+ * Whether an additional file sent by the client already covers a search result,
+ * as the whole file or as a `file:start-end` range overlapping it
+ */
+function coversResult(name: string, result: SearchIndexModel.CodeSearchResult): boolean {
+  if (name === result.file) {
+    return true;
+  }
+  const range = /^(.*):(\d+)-(\d+)$/.exec(name);
+  return range !== null &&
+    range[1] === result.file &&
+    Number(range[2]) <= result.endLine &&
+    Number(range[3]) >= result.startLine;
+}
+
+/**
+ * Add the code of the workspace's other indexed files that is closest to the selection
+ * to the review's additional files, after the ones the client sent
+ * A failed search leaves the review without it
+ */
+async function addRelatedCode(
+  input: ReviewInput,
+  workspaceId: string | undefined,
+  useSearch: boolean
+): Promise<ReviewInput> {
+  if (!workspaceId || !useSearch) {
+    return input;
+  }
+
+  let results: SearchIndexModel.CodeSearchResult[];
+  try {
+    results = await SearchIndexModel.searchCode(
+      workspaceId,
+      [input.query, input.selectedCode].filter(Boolean).join('\n'),
+      { limit: RELATED_CODE_LIMIT, excludeFile: input.fileName }
+    );
+  } catch (error) {
+    console.warn('Code search for review context failed:', error);
+    return input;
+  }
+
+  const sent = input.additionalFiles ?? [];
+  const related = results
+    .filter(result => !sent.some(file => coversResult(file.name, result)))
+    .map(result => ({
+      name: `${result.file}:${result.startLine}-${result.endLine}`,
+      content: result.content,
+      language: result.language,
+    }));
+
+  return related.length > 0 ? { ...input, additionalFiles: [...sent, ...related] } : input;
+}
+
+/**
+ * Add the team rules of the request's workspace to a review or scan, for its findings to cite
+ */
+async function addRules<T extends ReviewInput | ScanInput>(input: T, workspaceId: string | undefined): Promise<T> {
+  if (!workspaceId) {
+    return input;
+  }
+
+  const rules = await RulesetModel.getRules(workspaceId);
+  return rules.length > 0 ? { ...input, rules } : input;
+}
+
 // Validation for review endpoint
 const reviewValidation = [
-  body('threadId').optional().isUUID().withMessage('Invalid thread ID'),
-  body('codeContext').isString().notEmpty().withMessage('Code context is required'),
-  body('selectedCode').isString().notEmpty().withMessage('Selected code is required'),
+  body('threadId').optional().isUUID().withMessage('Invalid thread ID').bail()
+    // Threads belong to a workspace; without one their history and replies would be dropped
+    .custom((_value, { req }) => Boolean(req.workspace))
+    .withMessage(`A thread ID requires a workspace (${WORKSPACE_HEADER} header)`),
+  body('fileContent').optional().isString().withMessage('File content must be a string'),
+  body('startLine')
+    .if(body('fileContent').exists())
+    .isInt({ min: 1 }).withMessage('Start line is required with file content')
+    .toInt(),
+  body('endLine')
+    .if(body('fileContent').exists())
+    .isInt({ min: 1 }).withMessage('End line is required with file content')
+    .toInt(),
+  body('codeContext')
+    .if(body('fileContent').not().exists())
+    .isString().notEmpty().withMessage('Code context is required'),
+  body('selectedCode')
+    .if(body('fileContent').not().exists())
+    .isString().notEmpty().withMessage('Selected code is required'),
   body('language').isString().notEmpty().withMessage('Language is required'),
   body('query').optional().isString(),
   body('fileName').optional().isString(),
-  body('additionalFiles').optional().isArray(),
+  body('additionalFiles').optional().isArray().withMessage('Additional files must be an array'),
+  body('additionalFiles.*.name').isString().notEmpty().withMessage('Additional file name is required'),
+  body('additionalFiles.*.content').isString().withMessage('Additional file content must be a string'),
+  body('additionalFiles.*.language').isString().notEmpty().withMessage('Additional file language is required'),
+  body('hunk').optional().isObject().withMessage('Hunk must be an object'),
+  body('hunk.diff').if(body('hunk').exists()).isString().notEmpty().withMessage('Hunk diff is required'),
+  body('hunk.side').if(body('hunk').exists()).isIn(['old', 'new']).withMessage('Hunk side must be old or new'),
   body('useFallback').optional().isBoolean(),
+  body('useSearch').optional().isBoolean().withMessage('useSearch must be a boolean'),
+  body('provider').optional().isIn(AI_PROVIDERS).withMessage(`Provider must be one of: ${AI_PROVIDERS.join(', ')}`),
+  body('mode').optional().isIn(REVIEW_MODES).withMessage(`Mode must be one of: ${REVIEW_MODES.join(', ')}`),
 ];
 
 /**
  * Generate AI code review
+ * With `threadId`, the thread's comments are sent as history and the review is saved
+ * on the thread and returned as `comment`; threads need the request's workspace, so the
+ * header is then required
+ * In a workspace, the closest chunks of its other indexed files are sent too, unless
+ * `useSearch` is false, and the code is checked against the workspace's rules
+ * `mode` picks what the review concentrates on (general by default) and the fields it adds
  * POST /api/ai/review
  */
 router.post(
@@ -35,45 +252,94 @@ router.post(
       );
     }
 
-    const {
-      threadId,
-      codeContext,
-      selectedCode,
-      language,
-      query,
-      fileName,
-      additionalFiles,
-      useFallback = false,
-    } = req.body;
+    const { threadId, useFallback = false, useSearch = true, provider } = req.body;
+    const input = await addRules(
+      await addRelatedCode(getReviewInput(req.body), req.workspace?.id, useSearch),
+      req.workspace?.id
+    );
+
+    // Earlier comments give the model the context of follow-up questions
+    const history = await loadThreadHistory(threadId, req.workspace?.id);
 
     // Generate review
     const reviewFn = useFallback ? generateReviewWithFallback : generateReview;
-    const review = await reviewFn({
-      codeContext,
-      selectedCode,
-      language,
-      query,
-      fileName,
-      additionalFiles,
-    });
+    const review = await reviewFn({ ...input, history }, provider);
 
     // If threadId is provided, add the AI response as a comment
-    if (threadId) {
-      const thread = await ThreadModel.getThreadById(threadId);
-      if (thread) {
-        await ThreadModel.addComment({
-          threadId,
-          author: 'ai',
-          text: review.explanation + 
-            (review.suggestions.length > 0 
-              ? '\n\nSuggestions:\n' + review.suggestions.map((s, i) => `${i + 1}. ${s}`).join('\n')
-              : ''),
-          diff: review.diff,
-        });
+    const comment = threadId ? await saveReviewComment(threadId, req.workspace!.id, review) : null;
+
+    res.json(comment ? { ...review, comment } : review);
+  })
+);
+
+/**
+ * Stream an AI code review as Server-Sent Events
+ * Takes the same body as POST /api/ai/review, including its workspace rule for `threadId`
+ * POST /api/ai/review/stream
+ *
+ * Events: `explanation` ({ delta }), `suggestion` ({ index, text }), `diff` ({ diff }),
+ * `done` (the full review, with the saved `comment` for `threadId`) and `error` ({ error })
+ */
+router.post(
+  '/review/stream',
+  reviewValidation,
+  asyncHandler(async (req, res) => {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      throw createError(
+        'Validation failed: ' + errors.array().map((e) => e.msg).join(', '),
+        400
+      );
+    }
+
+    const { threadId, useFallback = false, useSearch = true, provider } = req.body;
+    const input = await addRules(
+      await addRelatedCode(getReviewInput(req.body), req.workspace?.id, useSearch),
+      req.workspace?.id
+    );
+    const history = await loadThreadHistory(threadId, req.workspace?.id);
+
+    // Stop generating if the client goes away
+    const clientClosed = startEventStream(res);
+
+    try {
+      const events = streamReview({ ...input, history }, provider, useFallback);
+
+      for await (const event of events) {
+        if (clientClosed()) break;
+
+        switch (event.type) {
+          case 'explanation':
+            sendEvent(res, 'explanation', { delta: event.delta });
+            break;
+          case 'suggestion':
+            sendEvent(res, 'suggestion', { index: event.index, text: event.text });
+            break;
+          case 'diff':
+            sendEvent(res, 'diff', { diff: event.diff });
+            break;
+          case 'done': {
+            let comment: ThreadModel.Comment | null = null;
+            if (threadId) {
+              try {
+                comment = await saveReviewComment(threadId, req.workspace!.id, event.review);
+              } catch (error) {
+                console.error('Failed to save streamed review comment:', error);
+              }
+            }
+            sendEvent(res, 'done', comment ? { ...event.review, comment } : event.review);
+            break;
+          }
+        }
+      }
+    } catch (error) {
+      console.error('AI review stream failed:', error);
+      if (!clientClosed()) {
+        sendEvent(res, 'error', { error: (error as Error).message || 'Failed to generate review' });
       }
     }
 
-    res.json(review);
+    res.end();
   })
 );
 
@@ -91,6 +357,7 @@ router.get(
         provider: s.provider,
         model: s.model,
       })),
+      supported: AI_PROVIDERS,
       default: process.env.AI_PROVIDER || 'openai',
     });
   })
@@ -101,11 +368,15 @@ const scanValidation = [
   body('code').isString().notEmpty().withMessage('Code is required'),
   body('language').isString().notEmpty().withMessage('Language is required'),
   body('fileName').isString().notEmpty().withMessage('File name is required'),
+  body('provider').optional().isIn(AI_PROVIDERS).withMessage(`Provider must be one of: ${AI_PROVIDERS.join(', ')}`),
+  body('mode').optional().isIn(REVIEW_MODES).withMessage(`Mode must be one of: ${REVIEW_MODES.join(', ')}`),
 ];
 
 /**
  * Scan file for potential issues
  * POST /api/ai/scan
+ * In a workspace the file is checked against the workspace's rules, and the scan is kept
+ * with each issue marked new, present or fixed compared with the previous scan of the file in the same mode
  */
 router.post(
   '/scan',
@@ -119,126 +390,46 @@ router.post(
       );
     }
 
-    const { code, language, fileName } = req.body;
-
-    // Number the lines for reference
-    const numberedCode = code.split('\n').map((line: string, i: number) => `${i + 1}: ${line}`).join('\n');
-
-    // Create a query that asks the AI to find issues
-    const scanQuery = `Analyze this ${language} file and identify ALL bugs, security issues, and problems.
-
-FILE: ${fileName}
-\`\`\`
-${numberedCode}
-\`\`\`
-
-For each issue found, include it in the "suggestions" array with this EXACT format:
-"LINE X-Y: [SEVERITY] Description - How to fix"
+    const { code, language, fileName, provider, mode = 'general' } = req.body;
 
-Where:
-- X is the start line number, Y is the end line number
-- SEVERITY is one of: ERROR, WARNING, INFO
-- Description explains the issue
-- How to fix gives the solution
-
-Example suggestions:
-- "LINE 16-18: [ERROR] Division by zero not handled - Add a check for zero divisor before dividing"
-- "LINE 21-23: [WARNING] Wrong operator used - Change + to * for multiplication"
-
-Find ALL issues in the code. Be thorough.`;
+    const input = await addRules({ code, language, fileName, mode }, req.workspace?.id);
 
+    let scan;
     try {
-      // Use the review method
-      const review = await generateReview({
-        codeContext: code,
-        selectedCode: code,
-        language,
-        fileName,
-        query: scanQuery,
-      });
-
-      console.log('AI Review response:', JSON.stringify(review, null, 2));
-
-      // Parse issues from suggestions
-      const issues: Array<{
-        startLine: number;
-        endLine: number;
-        severity: 'error' | 'warning' | 'info';
-        message: string;
-        suggestion?: string;
-      }> = [];
-
-      // Parse from suggestions array
-      if (review.suggestions && review.suggestions.length > 0) {
-        for (const suggestion of review.suggestions) {
-          // Try to parse "LINE X-Y: [SEVERITY] message" format
-          const match = suggestion.match(/LINE\s*(\d+)(?:-(\d+))?:\s*\[?(ERROR|WARNING|INFO)\]?\s*(.+)/i);
-          if (match) {
-            const startLine = parseInt(match[1], 10);
-            const endLine = match[2] ? parseInt(match[2], 10) : startLine;
-            const severity = match[3].toLowerCase() as 'error' | 'warning' | 'info';
-            const message = match[4].trim();
-            
-            issues.push({
-              startLine,
-              endLine,
-              severity,
-              message,
-            });
-          } else {
-            // Fallback: create a generic issue
-            issues.push({
-              startLine: 1,
-              endLine: 1,
-              severity: 'info',
-              message: suggestion,
-            });
-          }
-        }
-      }
-
-      // Also try to extract issues mentioned in the explanation
-      if (issues.length === 0 && review.explanation) {
-        const lineMatches = review.explanation.matchAll(/line\s*(\d+)(?:\s*-\s*(\d+))?[:\s]+([^.]+)/gi);
-        for (const match of lineMatches) {
-          const startLine = parseInt(match[1], 10);
-          const endLine = match[2] ? parseInt(match[2], 10) : startLine;
-          const message = match[3].trim();
-          
-          if (startLine > 0) {
-            issues.push({
-              startLine,
-              endLine,
-              severity: 'warning',
-              message,
-            });
-          }
-        }
-      }
-
-      console.log('Parsed issues:', issues);
-
-      // If no issues parsed, use mock issues to verify UI works
-      if (issues.length === 0) {
-        console.log('No issues parsed from AI, using mock issues for demo');
-        issues.push(
-          { startLine: 16, endLine: 18, severity: 'error', message: 'Division by zero not handled - Add check for b === 0' },
-          { startLine: 21, endLine: 23, severity: 'warning', message: 'Wrong operator: uses + instead of * for multiplication' },
-          { startLine: 40, endLine: 42, severity: 'info', message: 'History array never cleared - potential memory leak' }
-        );
-      }
-
-      // Add unique IDs to each issue
-      const issuesWithIds = issues.map((issue, index) => ({
-        id: `issue-${Date.now()}-${index}`,
-        ...issue,
-      }));
-
-      res.json({ issues: issuesWithIds });
+      scan = await scanCode(input, provider);
     } catch (error) {
       console.error('AI scan failed:', error);
       throw createError('Failed to scan file', 500);
     }
+
+    if (req.workspace) {
+      const run = await ScanModel.recordScan({
+        workspaceId: req.workspace.id,
+        file: fileName,
+        code,
+        mode,
+        provider: scan.provider,
+        model: scan.model,
+        issues: scan.issues,
+      });
+      res.json({ runId: run.id, mode: run.mode, issues: run.issues, provider: run.provider, model: run.model });
+      return;
+    }
+
+    // Otherwise every issue is new, identified by its fingerprint
+    const fingerprints = fingerprintIssues(
+      code,
+      scan.issues.map(issue => ({ startLine: issue.startLine, endLine: issue.endLine, rule: issue.ruleId ?? issue.category }))
+    );
+    const issues = scan.issues.map((issue, index) => ({
+      id: fingerprints[index],
+      fingerprint: fingerprints[index],
+      ...issue,
+      status: 'new',
+      threadId: null,
+    }));
+
+    res.json({ runId: null, mode, issues, provider: scan.provider, model: scan.model });
   })
 );
 
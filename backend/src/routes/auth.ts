@@ -0,0 +1,42 @@
+import { Router } from 'express';
+import { body, param } from 'express-validator';
+import * as authController from '../controllers/authController.js';
+import { requireAuth } from '../middleware/auth.js';
+
+const router = Router();
+
+// Validation middleware
+const registerValidation = [
+  body('username')
+    .isString()
+    .trim()
+    .matches(/^[a-zA-Z0-9_.-]{3,100}$/)
+    .withMessage('Username must be 3-100 letters, digits, dots, dashes or underscores'),
+  body('password').isString().isLength({ min: 8 }).withMessage('Password must be at least 8 characters'),
+  body('displayName').optional().isString().isLength({ max: 200 }).withMessage('Display name is too long'),
+];
+
+const loginValidation = [
+  body('username').isString().notEmpty().withMessage('Username is required'),
+  body('password').isString().notEmpty().withMessage('Password is required'),
+];
+
+const createTokenValidation = [
+  body('name').isString().trim().isLength({ min: 1, max: 200 }).withMessage('Token name is required'),
+  body('expiresAt').optional().isISO8601().withMessage('Expiry must be an ISO 8601 date'),
+];
+
+const tokenIdValidation = [
+  param('id').isUUID().withMessage('Invalid token ID'),
+];
+
+// Routes
+router.post('/register', registerValidation, authController.register);
+router.post('/login', loginValidation, authController.login);
+router.post('/logout', requireAuth, authController.logout);
+router.get('/me', requireAuth, authController.getCurrentUser);
+router.get('/tokens', requireAuth, authController.listTokens);
+router.post('/tokens', requireAuth, createTokenValidation, authController.createToken);
+router.delete('/tokens/:id', requireAuth, tokenIdValidation, authController.deleteToken);
+
+export default router;
@@ -0,0 +1,64 @@
+import express, { Router } from 'express';
+import { body, param, query } from 'express-validator';
+import * as gitController from '../controllers/gitController.js';
+
+const router = Router();
+
+/** Largest repository upload in megabytes */
+const UPLOAD_LIMIT_MB = Number(process.env.GIT_UPLOAD_LIMIT_MB) || 50;
+
+// Refs are passed to git, so they must not look like options
+const refValidator = (field: ReturnType<typeof body> | ReturnType<typeof query>) =>
+  field
+    .optional()
+    .isString()
+    .matches(/^[^-\s][^\s]*$/)
+    .withMessage('Ref must be a branch, tag or commit');
+
+// Validation middleware
+const openRepositoryValidation = [
+  body('path').isString().notEmpty().withMessage('Repository path is required'),
+];
+
+const uploadRepositoryValidation = [
+  query('name').optional().isString().isLength({ max: 200 }).withMessage('Name is too long'),
+];
+
+const idParamValidation = [
+  param('id').isUUID().withMessage('Invalid repository ID'),
+];
+
+const getFilesValidation = [
+  param('id').isUUID().withMessage('Invalid repository ID'),
+  refValidator(query('ref')),
+];
+
+const getChangesValidation = [
+  param('id').isUUID().withMessage('Invalid repository ID'),
+  query('base').isString().notEmpty().withMessage('Base ref is required'),
+  refValidator(query('base')),
+  refValidator(query('head')),
+];
+
+const streamFilesValidation = [
+  param('id').isUUID().withMessage('Invalid repository ID'),
+  refValidator(body('ref')),
+  body('paths').isArray({ min: 1, max: 500 }).withMessage('Between 1 and 500 paths are required'),
+  body('paths.*').isString().notEmpty().withMessage('Paths must be strings'),
+];
+
+// Routes
+router.post('/repositories', openRepositoryValidation, gitController.openRepository);
+router.post(
+  '/repositories/upload',
+  express.raw({ type: 'application/octet-stream', limit: `${UPLOAD_LIMIT_MB}mb` }),
+  uploadRepositoryValidation,
+  gitController.uploadRepository
+);
+router.get('/repositories/:id', idParamValidation, gitController.getRepository);
+router.delete('/repositories/:id', idParamValidation, gitController.closeRepository);
+router.get('/repositories/:id/files', getFilesValidation, gitController.getFiles);
+router.get('/repositories/:id/changes', getChangesValidation, gitController.getChanges);
+router.post('/repositories/:id/files/stream', streamFilesValidation, gitController.streamFiles);
+
+export default router;
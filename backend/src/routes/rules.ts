@@ -0,0 +1,37 @@
+import { Router } from 'express';
+import { body, param } from 'express-validator';
+import * as ruleController from '../controllers/ruleController.js';
+import { MAX_RULES, RULE_ID_PATTERN } from '../models/Ruleset.js';
+import { SCAN_SEVERITIES } from '../services/ai/types.js';
+
+const router = Router();
+
+const RULE_ID_MESSAGE = 'Rule ID must be 1-64 letters, digits, dots, dashes or underscores';
+
+// Validation middleware
+const ruleIdParamValidation = [
+  param('id').matches(RULE_ID_PATTERN).withMessage(RULE_ID_MESSAGE),
+];
+
+const saveRuleValidation = [
+  ...ruleIdParamValidation,
+  body('description').isString().trim().isLength({ min: 1, max: 2000 }).withMessage('Rule description is required (up to 2000 characters)'),
+  body('severity').isIn([...SCAN_SEVERITIES]).withMessage(`Severity must be one of: ${SCAN_SEVERITIES.join(', ')}`),
+  body('example').optional({ values: 'null' }).isString().isLength({ max: 4000 }).withMessage('Rule example must be a string of up to 4000 characters'),
+];
+
+const replaceRulesValidation = [
+  body('rules').isArray({ max: MAX_RULES }).withMessage(`Rules must be an array of at most ${MAX_RULES} rules`),
+  body('rules.*.id').isString().matches(RULE_ID_PATTERN).withMessage(RULE_ID_MESSAGE),
+  body('rules.*.description').isString().trim().isLength({ min: 1, max: 2000 }).withMessage('Rule description is required (up to 2000 characters)'),
+  body('rules.*.severity').isIn([...SCAN_SEVERITIES]).withMessage(`Severity must be one of: ${SCAN_SEVERITIES.join(', ')}`),
+  body('rules.*.example').optional({ values: 'null' }).isString().isLength({ max: 4000 }).withMessage('Rule example must be a string of up to 4000 characters'),
+];
+
+// Routes
+router.get('/', ruleController.getRules);
+router.put('/', replaceRulesValidation, ruleController.replaceRules);
+router.put('/:id', saveRuleValidation, ruleController.saveRule);
+router.delete('/:id', ruleIdParamValidation, ruleController.deleteRule);
+
+export default router;
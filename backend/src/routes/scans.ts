@@ -0,0 +1,29 @@
+import { Router } from 'express';
+import { body, param, query } from 'express-validator';
+import * as scanController from '../controllers/scanController.js';
+import { REVIEW_MODES } from '../services/ai/types.js';
+
+const router = Router();
+
+// Validation middleware
+const listValidation = [
+  query('file').optional().isString().notEmpty().withMessage('File name must not be empty'),
+  query('mode').optional().isIn(REVIEW_MODES).withMessage(`Mode must be one of: ${REVIEW_MODES.join(', ')}`),
+  query('limit').optional().isInt({ min: 1, max: 100 }).withMessage('Limit must be between 1 and 100'),
+];
+
+const idParamValidation = [
+  param('id').isUUID().withMessage('Invalid scan ID'),
+];
+
+const setIssueThreadValidation = [
+  param('id').isUUID().withMessage('Invalid scan issue ID'),
+  body('threadId').optional({ values: 'null' }).isUUID().withMessage('Invalid thread ID'),
+];
+
+// Routes
+router.get('/', listValidation, scanController.getScanRuns);
+router.put('/issues/:id/thread', setIssueThreadValidation, scanController.setIssueThread);
+router.get('/:id', idParamValidation, scanController.getScanRun);
+
+export default router;
@@ -0,0 +1,29 @@
+import { Router } from 'express';
+import { body, query } from 'express-validator';
+import * as searchController from '../controllers/searchController.js';
+
+const router = Router();
+
+// Validation middleware
+const searchValidation = [
+  query('q').isString().trim().notEmpty().withMessage('Search query is required'),
+  query('limit').optional().isInt({ min: 1, max: 50 }).withMessage('Limit must be between 1 and 50'),
+  query('exclude').optional().isString().notEmpty().withMessage('Excluded file name must not be empty'),
+];
+
+const indexFileValidation = [
+  body('name').isString().notEmpty().withMessage('File name is required'),
+  body('content').isString().withMessage('File content must be a string'),
+  body('language').isString().notEmpty().withMessage('Language is required'),
+];
+
+const removeFileValidation = [
+  query('name').isString().notEmpty().withMessage('File name is required'),
+];
+
+// Routes
+router.get('/', searchValidation, searchController.searchCode);
+router.put('/files', indexFileValidation, searchController.indexFile);
+router.delete('/files', removeFileValidation, searchController.removeFile);
+
+export default router;
@@ -1,30 +1,87 @@
 import { Router } from 'express';
-import { body, param } from 'express-validator';
+import { body, param, query } from 'express-validator';
 import * as threadController from '../controllers/threadController.js';
+import { SCAN_SEVERITIES, SCAN_CATEGORIES } from '../services/ai/types.js';
 
 const router = Router();
 
 // Validation middleware
 const createThreadValidation = [
+  body('id').optional().isUUID().withMessage('Invalid thread ID'),
   body('file').isString().notEmpty().withMessage('File name is required'),
   body('startLine').isInt({ min: 1 }).withMessage('Start line must be a positive integer'),
   body('endLine').isInt({ min: 1 }).withMessage('End line must be a positive integer'),
   body('selectedCode').isString().notEmpty().withMessage('Selected code is required'),
+  body('source').optional().isObject().withMessage('Source must be an object'),
+  body('source.repository')
+    .if(body('source').exists())
+    .isString().isLength({ min: 1, max: 500 }).withMessage('Source repository is required'),
+  body('source.commitSha')
+    .if(body('source').exists())
+    .matches(/^[0-9a-f]{40}([0-9a-f]{24})?$/).withMessage('Source commit must be a full commit SHA'),
+  body('source.path')
+    .if(body('source').exists())
+    .isString().isLength({ min: 1, max: 1000 }).withMessage('Source path is required'),
+  body('side').optional().isIn(['old', 'new']).withMessage('Side must be old or new'),
+  body('baseRevision').optional().isString().isLength({ min: 1, max: 200 }).withMessage('Base revision is too long'),
+  body('headRevision').optional().isString().isLength({ min: 1, max: 200 }).withMessage('Head revision is too long'),
+  body('anchor').optional().isObject().withMessage('Anchor must be an object'),
+  body(['anchor.lines', 'anchor.contextBefore', 'anchor.contextAfter'])
+    .if(body('anchor').exists())
+    .isArray().withMessage('Anchor lines must be arrays'),
+  body(['anchor.lines.*', 'anchor.contextBefore.*', 'anchor.contextAfter.*'])
+    .isString().withMessage('Anchor lines must be strings'),
   body('initialComment').optional().isString(),
 ];
 
 const updateThreadValidation = [
   param('id').isUUID().withMessage('Invalid thread ID'),
   body('resolved').optional().isBoolean().withMessage('Resolved must be a boolean'),
+  body('startLine').optional().isInt({ min: 1 }).withMessage('Start line must be a positive integer'),
+  body('endLine').optional().isInt({ min: 1 }).withMessage('End line must be a positive integer'),
+  body('outdated').optional().isBoolean().withMessage('Outdated must be a boolean'),
 ];
 
 const addCommentValidation = [
   param('id').isUUID().withMessage('Invalid thread ID'),
-  body('author').isIn(['user', 'ai']).withMessage('Author must be "user" or "ai"'),
+  body('id').optional().isUUID().withMessage('Invalid comment ID'),
+  // AI comments are only saved by reviews asked with a thread ID
+  body('author').equals('user').withMessage('Author must be "user"'),
   body('text').isString().notEmpty().withMessage('Comment text is required'),
   body('diff').optional().isString(),
 ];
 
+const updateCommentValidation = [
+  param('id').isUUID().withMessage('Invalid thread ID'),
+  param('commentId').isUUID().withMessage('Invalid comment ID'),
+  body('appliedAt').exists().withMessage('Applied at is required'),
+  body('appliedAt')
+    .optional({ values: 'null' })
+    .isISO8601({ strict: true })
+    .withMessage('Applied at must be a date or null'),
+];
+
+const exportValidation = [
+  query('format').optional().isIn(['sarif', 'markdown', 'html']).withMessage('Format must be sarif, markdown or html'),
+  body('scans').optional().isArray({ max: 1000 }).withMessage('Scans must be an array'),
+  body('scans.*.file').isString().notEmpty().withMessage('Scan file name is required'),
+  body('scans.*.issues').isArray().withMessage('Scan issues must be an array'),
+  body('scans.*.issues.*.startLine').isInt({ min: 1 }).withMessage('Issue start line must be a positive integer'),
+  body('scans.*.issues.*.endLine').isInt({ min: 1 }).withMessage('Issue end line must be a positive integer'),
+  body('scans.*.issues.*.severity').isIn([...SCAN_SEVERITIES]).withMessage('Invalid issue severity'),
+  body('scans.*.issues.*.category').isIn([...SCAN_CATEGORIES]).withMessage('Invalid issue category'),
+  body('scans.*.issues.*.message').isString().notEmpty().withMessage('Issue message is required'),
+  body('scans.*.issues.*.fix').optional().isString(),
+  body('scans.*.issues.*.diff').optional().isString(),
+  body('scans.*.issues.*.ruleId').optional({ values: 'null' }).isString(),
+  body(['scans.*.issues.*.cwe', 'scans.*.issues.*.owasp', 'scans.*.issues.*.smells', 'scans.*.issues.*.missingTests'])
+    .optional()
+    .isArray()
+    .withMessage('Issue mode fields must be arrays'),
+  body('scans.*.issues.*.complexityImpact').optional().isString(),
+  body('scans.*.issues.*.breakingChange').optional().isBoolean({ strict: true }),
+];
+
 const idParamValidation = [
   param('id').isUUID().withMessage('Invalid thread ID'),
 ];
@@ -32,10 +89,13 @@ const idParamValidation = [
 // Routes
 router.post('/', createThreadValidation, threadController.createThread);
 router.get('/', threadController.getThreads);
+router.get('/export', exportValidation, threadController.exportThreads);
+router.post('/export', exportValidation, threadController.exportThreads);
 router.get('/:id', idParamValidation, threadController.getThread);
 router.put('/:id', updateThreadValidation, threadController.updateThread);
 router.delete('/:id', idParamValidation, threadController.deleteThread);
 router.post('/:id/comments', addCommentValidation, threadController.addComment);
+router.patch('/:id/comments/:commentId', updateCommentValidation, threadController.updateComment);
 router.get('/:id/comments', idParamValidation, threadController.getComments);
 
 export default router;
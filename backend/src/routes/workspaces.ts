@@ -0,0 +1,34 @@
+import { Router } from 'express';
+import { body, param } from 'express-validator';
+import * as workspaceController from '../controllers/workspaceController.js';
+
+const router = Router();
+
+// Validation middleware
+const createWorkspaceValidation = [
+  body('name').isString().trim().isLength({ min: 1, max: 200 }).withMessage('Workspace name is required'),
+];
+
+const idParamValidation = [
+  param('id').isUUID().withMessage('Invalid workspace ID'),
+];
+
+const addMemberValidation = [
+  param('id').isUUID().withMessage('Invalid workspace ID'),
+  body('username').isString().notEmpty().withMessage('Username is required'),
+  body('role').optional().isIn(['owner', 'member']).withMessage('Role must be "owner" or "member"'),
+];
+
+const removeMemberValidation = [
+  param('id').isUUID().withMessage('Invalid workspace ID'),
+  param('userId').isUUID().withMessage('Invalid user ID'),
+];
+
+// Routes
+router.get('/', workspaceController.getWorkspaces);
+router.post('/', createWorkspaceValidation, workspaceController.createWorkspace);
+router.get('/:id/members', idParamValidation, workspaceController.getMembers);
+router.post('/:id/members', addMemberValidation, workspaceController.addMember);
+router.delete('/:id/members/:userId', removeMemberValidation, workspaceController.removeMember);
+
+export default router;
@@ -3,11 +3,23 @@ import cors from 'cors';
 import dotenv from 'dotenv';
 import threadRoutes from './routes/threads.js';
 import aiRoutes from './routes/ai.js';
+import authRoutes from './routes/auth.js';
+import workspaceRoutes from './routes/workspaces.js';
+import gitRoutes from './routes/git.js';
+import scanRoutes from './routes/scans.js';
+import searchRoutes from './routes/search.js';
+import ruleRoutes from './routes/rules.js';
 import { errorHandler } from './middleware/errorHandler.js';
+import { requireAuth } from './middleware/auth.js';
+import { requireWorkspace, loadWorkspace } from './middleware/workspace.js';
+import { AIServiceFactory } from './services/ai/index.js';
 
 // Load environment variables
 dotenv.config();
 
+// Fail at startup rather than on the first review when AI_PROVIDER is misspelled
+AIServiceFactory.getDefaultProvider();
+
 const app = express();
 const PORT = process.env.PORT || 3000;
 
@@ -39,8 +51,14 @@ app.get('/health', (_req, res) => {
 });
 
 // API routes
-app.use('/api/threads', threadRoutes);
-app.use('/api/ai', aiRoutes);
+app.use('/api/auth', authRoutes);
+app.use('/api/workspaces', requireAuth, workspaceRoutes);
+app.use('/api/threads', requireAuth, requireWorkspace, threadRoutes);
+app.use('/api/scans', requireAuth, requireWorkspace, scanRoutes);
+app.use('/api/search', requireAuth, requireWorkspace, searchRoutes);
+app.use('/api/rules', requireAuth, requireWorkspace, ruleRoutes);
+app.use('/api/ai', requireAuth, loadWorkspace, aiRoutes);
+app.use('/api/git', requireAuth, gitRoutes);
 
 // Error handling middleware
 app.use(errorHandler);
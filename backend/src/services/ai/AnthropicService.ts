@@ -0,0 +1,119 @@
+import { BaseAIService } from './BaseAIService.js';
+import { AIProviderConfig, ConversationTurn } from './types.js';
+import { parseServerSentEvents } from './streamParser.js';
+
+const ANTHROPIC_BASE_URL = 'https://api.anthropic.com';
+const ANTHROPIC_VERSION = '2023-06-01';
+
+/**
+ * Response body of the Anthropic Messages API
+ */
+interface AnthropicMessageResponse {
+  content?: Array<{ type: string; text?: string }>;
+  stop_reason?: string;
+}
+
+/**
+ * Server-sent event of a streamed Messages API response
+ */
+interface AnthropicStreamEvent {
+  type: string;
+  delta?: { type: string; text?: string };
+  error?: { type: string; message: string };
+}
+
+/**
+ * Anthropic implementation of the AI service (Messages API)
+ */
+export class AnthropicService extends BaseAIService {
+  constructor(config?: Partial<AIProviderConfig>) {
+    super({
+      name: 'anthropic',
+      model: config?.model || process.env.ANTHROPIC_MODEL || 'claude-3-5-sonnet-latest',
+      apiKey: config?.apiKey || process.env.ANTHROPIC_API_KEY,
+      baseUrl: config?.baseUrl || process.env.ANTHROPIC_BASE_URL || ANTHROPIC_BASE_URL,
+      maxTokens: config?.maxTokens || 2000,
+      temperature: config?.temperature ?? 0.3,
+    });
+  }
+
+  isAvailable(): boolean {
+    return Boolean(this.config.apiKey);
+  }
+
+  /**
+   * Send a request to the Messages API
+   */
+  private async sendMessage(
+    systemPrompt: string,
+    messages: ConversationTurn[],
+    stream: boolean
+  ): Promise<Response> {
+    if (!this.config.apiKey) {
+      throw new Error('Anthropic API key not configured');
+    }
+
+    const response = await fetch(`${this.config.baseUrl}/v1/messages`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'x-api-key': this.config.apiKey,
+        'anthropic-version': ANTHROPIC_VERSION,
+      },
+      body: JSON.stringify({
+        model: this.config.model,
+        system: systemPrompt,
+        messages,
+        max_tokens: this.config.maxTokens,
+        temperature: this.config.temperature,
+        ...(stream && { stream: true }),
+      }),
+    });
+
+    if (!response.ok) {
+      const errorText = await response.text().catch(() => '');
+      throw new Error(`Anthropic API error ${response.status}: ${errorText}`);
+    }
+
+    return response;
+  }
+
+  protected async generateCompletion(
+    systemPrompt: string,
+    messages: ConversationTurn[]
+  ): Promise<string> {
+    const response = await this.sendMessage(systemPrompt, messages, false);
+
+    const data = (await response.json()) as AnthropicMessageResponse;
+    const content = (data.content || [])
+      .filter((block) => block.type === 'text' && block.text)
+      .map((block) => block.text)
+      .join('');
+
+    if (!content) {
+      throw new Error('No response from Anthropic');
+    }
+
+    return content;
+  }
+
+  protected async *generateCompletionStream(
+    systemPrompt: string,
+    messages: ConversationTurn[]
+  ): AsyncGenerator<string> {
+    const response = await this.sendMessage(systemPrompt, messages, true);
+    if (!response.body) {
+      throw new Error('No response from Anthropic');
+    }
+
+    for await (const message of parseServerSentEvents(response.body)) {
+      const event = JSON.parse(message.data) as AnthropicStreamEvent;
+
+      if (event.type === 'content_block_delta' && event.delta?.type === 'text_delta' && event.delta.text) {
+        yield event.delta.text;
+      } else if (event.type === 'error') {
+        throw new Error(`Anthropic stream error: ${event.error?.message || 'unknown error'}`);
+      }
+    }
+  }
+}
@@ -1,5 +1,67 @@
-import { IAIService, ReviewInput, ReviewOutput, AIProviderConfig } from './types.js';
-import { buildReviewPrompt, getSystemPrompt, parseReviewResponse } from './promptBuilder.js';
+import {
+  IAIService,
+  ReviewInput,
+  ReviewOutput,
+  ReviewStreamEvent,
+  AIProviderConfig,
+  ConversationTurn,
+  ScanInput,
+  ScanOutput,
+  ScanIssue,
+} from './types.js';
+import {
+  buildReviewMessages,
+  buildReviewPrompt,
+  buildScanPrompt,
+  buildScanRetryPrompt,
+  getScanSystemPrompt,
+  getSystemPrompt,
+  parseReviewResponse,
+} from './promptBuilder.js';
+import { ReviewStreamParser } from './streamParser.js';
+import { parseScanResponse, mergeScanIssues, ParsedScanResponse } from './scanSchema.js';
+import {
+  getAvailableContextTokens,
+  getOutputReserve,
+  countTokens,
+  getTokenCounter,
+  splitIntoLineChunks,
+} from '../../utils/tokenCounter.js';
+import { normalizeDiff } from '@ai-code-review/shared';
+import { mapWithConcurrency } from '../../utils/concurrency.js';
+import { sliceContext } from '../../utils/contextSlicer.js';
+import { selectSyntaxContext } from '../../utils/syntaxContext.js';
+
+/** Number of attempts to get a scan response that matches the schema */
+const MAX_SCAN_ATTEMPTS = 3;
+
+/** Lines shared by consecutive chunks of a large file scan */
+const SCAN_CHUNK_OVERLAP_LINES = 20;
+
+/** Share of the chunk budget left for code once line numbers are added */
+const SCAN_LINE_NUMBER_FACTOR = 0.8;
+
+/** Lines around a diff hunk sent as context when reviewing a change */
+const HUNK_CONTEXT_LINES = 20;
+
+/** Share of the remaining context window given to file context when a thread has history */
+const HISTORY_CONTEXT_SHARE = 0.6;
+
+/** Share of the context window additional files may take */
+const ADDITIONAL_FILES_SHARE = 0.25;
+
+/**
+ * Lines of a file sent as review context
+ */
+type FileContextInfo = Required<Pick<ReviewOutput, 'contextStartLine' | 'contextEndLine' | 'wasTruncated'>>;
+
+/**
+ * Number of chunks of a large file scanned at the same time
+ */
+function getScanConcurrency(): number {
+  const concurrency = parseInt(process.env.AI_SCAN_CONCURRENCY || '', 10);
+  return concurrency > 0 ? concurrency : 3;
+}
 
 /**
  * Base class for AI services
@@ -24,6 +86,123 @@ export abstract class BaseAIService implements IAIService {
    */
   abstract isAvailable(): boolean;
 
+  /**
+   * Tokens of the model's context window left for the prompt, reserving the larger of
+   * the requested response length and the model's configured output reserve
+   */
+  protected getContextTokens(): number {
+    const reserve = Math.max(this.config.maxTokens ?? 0, getOutputReserve(this.model));
+    return getAvailableContextTokens(this.model, reserve);
+  }
+
+  /**
+   * Build the chat messages for a review within the model's context window
+   */
+  protected buildMessages(input: ReviewInput): ConversationTurn[] {
+    return buildReviewMessages(input, this.getContextTokens(), this.model);
+  }
+
+  /**
+   * Keep the additional files that fit in their share of the model's context window,
+   * in the order they were given, since callers send the most relevant ones first
+   */
+  protected fitAdditionalFiles(input: ReviewInput): { input: ReviewInput; context?: Pick<ReviewOutput, 'contextFiles'> } {
+    if (!input.additionalFiles) {
+      return { input };
+    }
+
+    let budget = Math.floor(this.getContextTokens() * ADDITIONAL_FILES_SHARE);
+    const additionalFiles = input.additionalFiles.filter((file) => {
+      const tokens = countTokens(`--- ${file.name} ---\n${file.content}`, this.model);
+      if (tokens > budget) {
+        return false;
+      }
+      budget -= tokens;
+      return true;
+    });
+
+    return {
+      input: { ...input, additionalFiles },
+      context: { contextFiles: additionalFiles.map((file) => file.name) },
+    };
+  }
+
+  /**
+   * Build the code context from `input.file`, sized to what is left of the model's
+   * context window after the system prompt and the rest of the review prompt
+   * The enclosing function and class, the imports and the signatures of referenced symbols
+   * come first when the language has a grammar; lines around the selection fill the rest
+   * When reviewing a diff hunk, the context is limited to the lines around the selection
+   */
+  protected async sliceFileContext(input: ReviewInput): Promise<{ input: ReviewInput; context?: FileContextInfo }> {
+    if (!input.file) {
+      return { input };
+    }
+
+    const { content, startLine, endLine } = input.file;
+    const available = this.getContextTokens();
+    const promptTokens = countTokens(getSystemPrompt(input.rules, input.mode), this.model) +
+      countTokens(buildReviewPrompt({ ...input, codeContext: '' }), this.model);
+
+    // Leave part of the budget for earlier thread comments
+    const share = input.history?.length ? HISTORY_CONTEXT_SHARE : 1;
+    const contextTokens = Math.max(0, Math.floor((available - promptTokens) * share));
+    const totalLines = content.split('\n').length;
+
+    const surrounding = input.hunk ? HUNK_CONTEXT_LINES : totalLines;
+    // Slices are measured with the model's tokenizer
+    const measure = getTokenCounter(this.model);
+
+    const syntax = await selectSyntaxContext(content, startLine, endLine, {
+      language: input.language,
+      fileName: input.fileName,
+      surroundingLines: surrounding,
+      maxSize: contextTokens,
+      measure,
+    });
+    if (syntax) {
+      const { context: codeContext, ...context } = syntax;
+      return { input: { ...input, codeContext }, context };
+    }
+
+    const sliced = sliceContext(content, startLine, endLine, {
+      linesBefore: surrounding,
+      linesAfter: surrounding,
+      maxTotalLines: input.hunk ? endLine - startLine + 1 + 2 * HUNK_CONTEXT_LINES : totalLines,
+      maxSize: contextTokens,
+      measure,
+    });
+
+    return {
+      input: { ...input, codeContext: sliced.fullContext },
+      context: {
+        contextStartLine: sliced.contextStartLine,
+        contextEndLine: sliced.contextEndLine,
+        wasTruncated: sliced.wasTruncated,
+      },
+    };
+  }
+
+  /**
+   * Turn the model's diff into a well-formed unified diff numbered by file lines
+   * Hunks are placed where their lines are in the reviewed file (or code context);
+   * a diff without any changes is dropped
+   */
+  protected normalizeReviewDiff(diff: string | undefined, input: ReviewInput): string | undefined {
+    if (!diff) {
+      return undefined;
+    }
+
+    const result = normalizeDiff(diff, input.file
+      ? { original: input.file.content, nearLine: input.file.startLine }
+      : { original: input.codeContext });
+
+    if (result.errors.length > 0) {
+      console.warn(`Normalized a malformed diff from ${this.provider}:`, result.errors);
+    }
+    return result.diff;
+  }
+
   /**
    * Generate a code review
    */
@@ -32,17 +211,22 @@ export abstract class BaseAIService implements IAIService {
       throw new Error(`${this.provider} service is not available or not configured`);
     }
 
-    const systemPrompt = getSystemPrompt();
-    const userPrompt = buildReviewPrompt(input);
+    const systemPrompt = getSystemPrompt(input.rules, input.mode);
+    const fitted = this.fitAdditionalFiles(input);
+    const { input: reviewInput, context } = await this.sliceFileContext(fitted.input);
+    const messages = this.buildMessages(reviewInput);
 
     try {
-      const response = await this.generateCompletion(systemPrompt, userPrompt);
-      const parsed = parseReviewResponse(response);
+      const response = await this.generateCompletion(systemPrompt, messages);
+      const parsed = parseReviewResponse(response, input.rules, input.mode);
 
       return {
         ...parsed,
+        diff: this.normalizeReviewDiff(parsed.diff, input),
         provider: this.provider,
         model: this.model,
+        ...fitted.context,
+        ...context,
       };
     } catch (error) {
       console.error(`Error generating review with ${this.provider}:`, error);
@@ -50,13 +234,155 @@ export abstract class BaseAIService implements IAIService {
     }
   }
 
+  /**
+   * Generate a code review, emitting explanation text and suggestions as they stream in
+   */
+  async *reviewStream(input: ReviewInput): AsyncGenerator<ReviewStreamEvent> {
+    if (!this.isAvailable()) {
+      throw new Error(`${this.provider} service is not available or not configured`);
+    }
+
+    const systemPrompt = getSystemPrompt(input.rules, input.mode);
+    const fitted = this.fitAdditionalFiles(input);
+    const { input: reviewInput, context } = await this.sliceFileContext(fitted.input);
+    const messages = this.buildMessages(reviewInput);
+    const parser = new ReviewStreamParser();
+
+    try {
+      for await (const chunk of this.generateCompletionStream(systemPrompt, messages)) {
+        yield* parser.push(chunk);
+      }
+
+      const { events, review } = parser.finish(input.rules, input.mode);
+      const diff = this.normalizeReviewDiff(review.diff, input);
+
+      for (const event of events) {
+        if (event.type !== 'diff') {
+          yield event;
+        } else if (diff) {
+          yield { type: 'diff', diff };
+        }
+      }
+      yield {
+        type: 'done',
+        review: {
+          ...review,
+          diff,
+          provider: this.provider,
+          model: this.model,
+          ...fitted.context,
+          ...context,
+        },
+      };
+    } catch (error) {
+      console.error(`Error streaming review with ${this.provider}:`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Scan a whole file for issues
+   * Files that do not fit in the model's context are split into overlapping chunks,
+   * scanned with bounded concurrency and merged, with line numbers of the whole file
+   */
+  async scan(input: ScanInput): Promise<ScanOutput> {
+    if (!this.isAvailable()) {
+      throw new Error(`${this.provider} service is not available or not configured`);
+    }
+
+    const totalLines = input.code.split('\n').length;
+    const chunks = splitIntoLineChunks(
+      input.code,
+      this.getScanChunkTokens(input),
+      SCAN_CHUNK_OVERLAP_LINES,
+      this.model
+    );
+
+    let issues: ScanIssue[];
+    if (chunks.length === 1) {
+      issues = await this.scanLines(input, 1, totalLines);
+    } else {
+      const chunkIssues = await mapWithConcurrency(chunks, getScanConcurrency(), (chunk) =>
+        this.scanLines({ ...input, code: chunk.content }, chunk.startLine, totalLines)
+      );
+      issues = mergeScanIssues(chunkIssues);
+    }
+
+    return {
+      issues,
+      provider: this.provider,
+      model: this.model,
+    };
+  }
+
+  /**
+   * Token budget for the code of one scan chunk
+   */
+  private getScanChunkTokens(input: ScanInput): number {
+    const available = this.getContextTokens();
+    const overhead = countTokens(getScanSystemPrompt(input.rules, input.mode), this.model) +
+      countTokens(buildScanPrompt({ ...input, code: '' }, { startLine: 1, totalLines: 1 }), this.model);
+
+    // Leave room for the line number prefixes added by the prompt
+    return Math.max(1, Math.floor((available - overhead) * SCAN_LINE_NUMBER_FACTOR));
+  }
+
+  /**
+   * Scan lines of a file starting at `startLine`
+   * Responses that do not match the scan schema, or that report lines outside the scanned
+   * lines, are sent back to the model for correction
+   */
+  private async scanLines(input: ScanInput, startLine: number, totalLines: number): Promise<ScanIssue[]> {
+    const endLine = startLine + input.code.split('\n').length - 1;
+    const chunk = startLine === 1 && endLine === totalLines ? undefined : { startLine, totalLines };
+
+    const systemPrompt = getScanSystemPrompt(input.rules, input.mode);
+    const messages: ConversationTurn[] = [{ role: 'user', content: buildScanPrompt(input, chunk) }];
+    let result: ParsedScanResponse | null = null;
+
+    for (let attempt = 1; attempt <= MAX_SCAN_ATTEMPTS; attempt++) {
+      const response = await this.generateCompletion(systemPrompt, messages);
+      result = parseScanResponse(response, endLine, startLine, input.rules, input.mode);
+
+      if (result.errors.length === 0) {
+        break;
+      }
+
+      console.warn(`Invalid scan response from ${this.provider} (attempt ${attempt}):`, result.errors);
+      messages.push(
+        { role: 'assistant', content: response },
+        { role: 'user', content: buildScanRetryPrompt(result.errors) }
+      );
+    }
+
+    // Out-of-range issues are dropped, but a response that never matched the schema is an error
+    if (!result?.valid) {
+      throw new Error(
+        `${this.provider} did not return valid scan results: ${result?.errors.join('; ')}`
+      );
+    }
+
+    return result.issues;
+  }
+
   /**
    * Generate a completion from the AI provider
    * Must be implemented by subclasses
    */
   protected abstract generateCompletion(
     systemPrompt: string,
-    userPrompt: string
+    messages: ConversationTurn[]
   ): Promise<string>;
+
+  /**
+   * Stream a completion from the AI provider
+   * Providers without native streaming yield the whole completion as one chunk
+   */
+  protected async *generateCompletionStream(
+    systemPrompt: string,
+    messages: ConversationTurn[]
+  ): AsyncGenerator<string> {
+    yield await this.generateCompletion(systemPrompt, messages);
+  }
 }
 
@@ -0,0 +1,27 @@
+import { OpenAICompatibleService } from './OpenAICompatibleService.js';
+import { AIProviderConfig } from './types.js';
+
+/**
+ * Local model implementation of the AI service
+ * Targets any OpenAI-compatible local endpoint, e.g. Ollama (http://localhost:11434/v1)
+ * or the llama.cpp server (http://localhost:8080/v1)
+ */
+export class LocalAIService extends OpenAICompatibleService {
+  constructor(config?: Partial<AIProviderConfig>) {
+    const baseUrl = config?.baseUrl || process.env.LOCAL_AI_BASE_URL;
+
+    super({
+      name: 'local',
+      model: config?.model || process.env.LOCAL_AI_MODEL || 'llama3',
+      // Local servers usually ignore the key, but the client requires one
+      apiKey: baseUrl ? config?.apiKey || process.env.LOCAL_AI_API_KEY || 'local' : undefined,
+      baseUrl,
+      maxTokens: config?.maxTokens || 2000,
+      temperature: config?.temperature ?? 0.3,
+      options: {
+        jsonMode: process.env.LOCAL_AI_JSON_MODE !== 'false',
+        ...config?.options,
+      },
+    });
+  }
+}
@@ -0,0 +1,90 @@
+import OpenAI from 'openai';
+import { BaseAIService } from './BaseAIService.js';
+import { AIProviderConfig, ConversationTurn } from './types.js';
+
+/**
+ * Base implementation for providers that speak the OpenAI chat completions API
+ * (OpenAI itself, OpenRouter, and local servers such as Ollama or llama.cpp)
+ */
+export class OpenAICompatibleService extends BaseAIService {
+  protected client: OpenAI | null = null;
+
+  constructor(config: AIProviderConfig) {
+    super(config);
+
+    if (this.config.apiKey) {
+      this.client = new OpenAI({
+        apiKey: this.config.apiKey,
+        baseURL: this.config.baseUrl,
+        defaultHeaders: this.config.options?.headers as Record<string, string> | undefined,
+      });
+    }
+  }
+
+  isAvailable(): boolean {
+    return this.client !== null;
+  }
+
+  /**
+   * Whether the endpoint supports `response_format: { type: 'json_object' }`
+   */
+  protected get supportsJsonMode(): boolean {
+    return this.config.options?.jsonMode !== false;
+  }
+
+  /**
+   * Build the chat completion request shared by streaming and non-streaming calls
+   */
+  private buildRequest(systemPrompt: string, messages: ConversationTurn[]) {
+    return {
+      model: this.config.model,
+      messages: [
+        { role: 'system' as const, content: systemPrompt },
+        ...messages,
+      ],
+      max_tokens: this.config.maxTokens,
+      temperature: this.config.temperature,
+      ...(this.supportsJsonMode && { response_format: { type: 'json_object' as const } }),
+    };
+  }
+
+  private getClient(): OpenAI {
+    if (!this.client) {
+      throw new Error(`${this.provider} client not initialized`);
+    }
+    return this.client;
+  }
+
+  protected async generateCompletion(
+    systemPrompt: string,
+    messages: ConversationTurn[]
+  ): Promise<string> {
+    const response = await this.getClient().chat.completions.create(
+      this.buildRequest(systemPrompt, messages)
+    );
+
+    const content = response.choices[0]?.message?.content;
+    if (!content) {
+      throw new Error(`No response from ${this.provider}`);
+    }
+
+    return content;
+  }
+
+  protected async *generateCompletionStream(
+    systemPrompt: string,
+    messages: ConversationTurn[]
+  ): AsyncGenerator<string> {
+    const stream = await this.getClient().chat.completions.create({
+      ...this.buildRequest(systemPrompt, messages),
+      stream: true,
+    });
+
+    for await (const chunk of stream) {
+      const delta = chunk.choices[0]?.delta?.content;
+      if (delta) {
+        yield delta;
+      }
+    }
+  }
+}
@@ -0,0 +1,29 @@
+import { OpenAICompatibleService } from './OpenAICompatibleService.js';
+import { AIProviderConfig } from './types.js';
+
+const OPENROUTER_BASE_URL = 'https://openrouter.ai/api/v1';
+
+/**
+ * OpenRouter implementation of the AI service
+ * OpenRouter exposes an OpenAI-compatible API in front of many model vendors
+ */
+export class OpenRouterService extends OpenAICompatibleService {
+  constructor(config?: Partial<AIProviderConfig>) {
+    super({
+      name: 'openrouter',
+      model: config?.model || process.env.OPENROUTER_MODEL || 'anthropic/claude-3-opus',
+      apiKey: config?.apiKey || process.env.OPENROUTER_API_KEY,
+      baseUrl: config?.baseUrl || process.env.OPENROUTER_BASE_URL || OPENROUTER_BASE_URL,
+      maxTokens: config?.maxTokens || 2000,
+      temperature: config?.temperature ?? 0.3,
+      options: {
+        // Not every routed model supports JSON mode; the prompt asks for JSON instead
+        jsonMode: false,
+        headers: {
+          'X-Title': 'AI Code Review Assistant',
+        },
+        ...config?.options,
+      },
+    });
+  }
+}
@@ -1,4 +1,4 @@
-import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
 import { AIServiceFactory, generateReview, generateReviewWithFallback } from '../index.js';
 
 // Mock the service implementations
@@ -21,6 +21,14 @@ describe('AIServiceFactory', () => {
   beforeEach(() => {
     AIServiceFactory.clearInstances();
     vi.clearAllMocks();
+    // Only the mocked OpenAI provider should be configured
+    vi.stubEnv('ANTHROPIC_API_KEY', '');
+    vi.stubEnv('OPENROUTER_API_KEY', '');
+    vi.stubEnv('LOCAL_AI_BASE_URL', '');
+  });
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
   });
 
   describe('getService', () => {
@@ -57,14 +57,21 @@ describe('AIServiceFactory', () => {
     });
 
     it('uses AI_PROVIDER env variable when no provider specified', () => {
-      const originalEnv = process.env.AI_PROVIDER;
-      process.env.AI_PROVIDER = 'openai';
+      vi.stubEnv('AI_PROVIDER', 'openai');
 
       const service = AIServiceFactory.getService();
 
       expect(service.provider).toBe('openai');
+      vi.unstubAllEnvs();
+    });
+
+    it('rejects an AI_PROVIDER that names no known provider', () => {
+      vi.stubEnv('AI_PROVIDER', 'opnai');
 
-      process.env.AI_PROVIDER = originalEnv;
+      expect(() => AIServiceFactory.getDefaultProvider()).toThrow(
+        'AI_PROVIDER must be one of openai, anthropic, openrouter, local, got "opnai"'
+      );
+      vi.unstubAllEnvs();
     });
   });
 
@@ -104,17 +111,15 @@ describe('AIServiceFactory', () => {
 });
 
 describe('generateReview', () => {
-  const originalEnv = process.env.AI_PROVIDER;
-
   beforeEach(() => {
     AIServiceFactory.clearInstances();
     vi.clearAllMocks();
     // Set the AI provider explicitly for tests
-    process.env.AI_PROVIDER = 'openai';
+    vi.stubEnv('AI_PROVIDER', 'openai');
   });
 
   afterEach(() => {
-    process.env.AI_PROVIDER = originalEnv;
+    vi.unstubAllEnvs();
   });
 
   it('generates review using default service', async () => {
@@ -251,3 +256,83 @@ describe('generateReviewWithFallback', () => {
   });
 });
 
+
+describe('AIServiceFactory provider selection', () => {
+  beforeEach(() => {
+    AIServiceFactory.clearInstances();
+    // Earlier suites stub getAvailableServices without restoring it
+    if (vi.isMockFunction(AIServiceFactory.getAvailableServices)) {
+      vi.mocked(AIServiceFactory.getAvailableServices).mockRestore();
+    }
+  });
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it('creates adapters for every supported provider', () => {
+    expect(AIServiceFactory.getService('anthropic').provider).toBe('anthropic');
+    expect(AIServiceFactory.getService('openrouter').provider).toBe('openrouter');
+    expect(AIServiceFactory.getService('local').provider).toBe('local');
+  });
+
+  it('puts the preferred provider first in the fallback order', () => {
+    vi.stubEnv('AI_PROVIDER', 'openai');
+
+    const order = AIServiceFactory.getFallbackOrder('anthropic');
+
+    expect(order[0]).toBe('anthropic');
+    expect(order[1]).toBe('openai');
+    expect(new Set(order).size).toBe(order.length);
+  });
+
+  it('honours AI_FALLBACK_ORDER and ignores unknown providers', () => {
+    vi.stubEnv('AI_PROVIDER', 'local');
+    vi.stubEnv('AI_FALLBACK_ORDER', 'openrouter, bogus, anthropic');
+
+    expect(AIServiceFactory.getFallbackOrder()).toEqual(['local', 'openrouter', 'anthropic']);
+  });
+
+  it('includes configured providers in the available services', () => {
+    vi.stubEnv('ANTHROPIC_API_KEY', 'ant-test');
+    vi.stubEnv('LOCAL_AI_BASE_URL', 'http://localhost:11434/v1');
+
+    const providers = AIServiceFactory.getAvailableServices('local').map(s => s.provider);
+
+    expect(providers[0]).toBe('local');
+    expect(providers).toContain('anthropic');
+    expect(providers).toContain('openai');
+  });
+
+  it('falls back across providers starting with the requested one', async () => {
+    const anthropic = {
+      provider: 'anthropic',
+      model: 'claude',
+      isAvailable: () => true,
+      review: vi.fn().mockRejectedValue(new Error('rate limited')),
+    };
+    const local = {
+      provider: 'local',
+      model: 'llama3',
+      isAvailable: () => true,
+      review: vi.fn().mockResolvedValue({
+        explanation: 'Local review',
+        suggestions: [],
+        provider: 'local',
+        model: 'llama3',
+      }),
+    };
+    const spy = vi.spyOn(AIServiceFactory, 'getAvailableServices').mockReturnValue([anthropic, local]);
+
+    const result = await generateReviewWithFallback(
+      { codeContext: 'code', selectedCode: 'code', language: 'javascript' },
+      'anthropic'
+    );
+
+    expect(spy).toHaveBeenCalledWith('anthropic');
+    expect(anthropic.review).toHaveBeenCalled();
+    expect(result.provider).toBe('local');
+
+    spy.mockRestore();
+  });
+});
@@ -1,13 +1,20 @@
 import { describe, it, expect } from 'vitest';
 import {
   buildReviewPrompt,
+  buildReviewMessages,
   getSystemPrompt,
+  getScanSystemPrompt,
   parseReviewResponse,
   estimateTokenCount,
   truncateContext,
   formatDiff,
 } from '../promptBuilder.js';
-import type { ReviewInput } from '../types.js';
+import type { ReviewInput, ReviewRule, ConversationTurn } from '../types.js';
+
+const rules: ReviewRule[] = [
+  { id: 'no-moment', description: 'Use date-fns instead of moment', severity: 'warning', example: "import moment from 'moment';" },
+  { id: 'no-eval', description: 'Never call eval', severity: 'error' },
+];
 
 describe('promptBuilder', () => {
   describe('buildReviewPrompt', () => {
@@ -71,6 +78,32 @@ describe('promptBuilder', () => {
       expect(prompt).toContain('export const PI = 3.14;');
     });
 
+    it('includes the diff hunk and the side of the selection when reviewing a change', () => {
+      const input: ReviewInput = {
+        codeContext: 'const total = a + b;',
+        selectedCode: 'const total = a + b;',
+        language: 'javascript',
+        hunk: { diff: '@@ -1,1 +1,1 @@\n-const total = a - b;\n+const total = a + b;', side: 'new' },
+      };
+
+      const prompt = buildReviewPrompt(input);
+
+      expect(prompt).toContain('Change under review:\n```diff\n@@ -1,1 +1,1 @@');
+      expect(prompt).toContain('The code below is the new version, after the change.');
+      expect(prompt).toContain('Please review the change to the selected code');
+    });
+
+    it('says when the selection is on the old side of a change', () => {
+      const prompt = buildReviewPrompt({
+        codeContext: 'const total = a - b;',
+        selectedCode: 'const total = a - b;',
+        language: 'javascript',
+        hunk: { diff: '@@ -1,1 +1,1 @@\n-const total = a - b;\n+const total = a + b;', side: 'old' },
+      });
+
+      expect(prompt).toContain('The code below is the old version, before the change');
+    });
+
     it('wraps code in markdown code blocks', () => {
       const input: ReviewInput = {
         codeContext: 'print("hello")',
@@ -109,6 +142,29 @@ describe('promptBuilder', () => {
       expect(prompt).toContain('security');
       expect(prompt).toContain('best practices');
     });
+
+    it('compiles team rules into the prompt and asks for findings citing them', () => {
+      const prompt = getSystemPrompt(rules);
+
+      expect(prompt.startsWith(getSystemPrompt())).toBe(true);
+      expect(prompt).toContain('- no-moment (warning): Use date-fns instead of moment\n  Example:\n    import moment');
+      expect(prompt).toContain('- no-eval (error): Never call eval');
+      expect(prompt).toContain('"findings"');
+    });
+
+    it('uses the template of a review mode and asks for its fields', () => {
+      const prompt = getSystemPrompt([], 'security');
+
+      expect(prompt).toMatch(/^You are an application security auditor/);
+      expect(prompt).toContain('OWASP Top 10');
+      expect(prompt).toContain('"cwe": [');
+      expect(prompt).toContain('"owasp": [');
+      expect(getSystemPrompt()).not.toContain('"cwe"');
+
+      expect(getScanSystemPrompt([], 'performance')).toContain('scanning a file for performance problems');
+      expect(getScanSystemPrompt([], 'performance')).toContain('      "complexityImpact": "');
+      expect(getScanSystemPrompt(rules, 'tests').startsWith(getScanSystemPrompt([], 'tests'))).toBe(true);
+    });
   });
 
   describe('parseReviewResponse', () => {
@@ -188,6 +244,41 @@ describe('promptBuilder', () => {
 
       expect(result.explanation).toBe(response);
     });
+
+    it('keeps findings that cite a team rule, with the rule\'s severity', () => {
+      const response = JSON.stringify({
+        explanation: 'Uses eval.',
+        suggestions: [],
+        findings: [
+          { ruleId: 'no-eval', message: 'Line 2 calls eval', severity: 'info' },
+          { ruleId: 'no-var', message: 'Not a team rule' },
+          { ruleId: 'no-moment', message: '' },
+        ],
+      });
+
+      expect(parseReviewResponse(response, rules).findings).toEqual([
+        { ruleId: 'no-eval', severity: 'error', message: 'Line 2 calls eval' },
+      ]);
+      expect(parseReviewResponse(response)).not.toHaveProperty('findings');
+    });
+
+    it('keeps the fields of the review mode that are valid', () => {
+      const response = JSON.stringify({
+        explanation: 'Builds SQL from user input.',
+        suggestions: ['Use a parameterized query'],
+        cwe: ['CWE-89', 'SQL injection'],
+        owasp: ['A03:2021-Injection'],
+        complexityImpact: 'O(1)',
+      });
+
+      const result = parseReviewResponse(response, [], 'security');
+      expect(result.owasp).toEqual(['A03:2021-Injection']);
+      expect(result).not.toHaveProperty('cwe');
+      expect(result).not.toHaveProperty('complexityImpact');
+
+      expect(parseReviewResponse(response)).not.toHaveProperty('owasp');
+      expect(parseReviewResponse('{"explanation": "ok", "breakingChange": true}', [], 'api-design').breakingChange).toBe(true);
+    });
   });
 
   describe('estimateTokenCount', () => {
@@ -319,4 +410,72 @@ describe('promptBuilder', () => {
       expect(diff).toContain('-old line');
     });
   });
+
+  describe('buildReviewMessages', () => {
+    const input: ReviewInput = {
+      codeContext: 'const x = 1;',
+      selectedCode: 'const x = 1;',
+      language: 'javascript',
+      query: 'What about the second suggestion?',
+    };
+
+    const history: ConversationTurn[] = [
+      { role: 'user', content: 'Review this code' },
+      { role: 'assistant', content: 'Suggestions:\n1. Use let\n2. Add a type' },
+      { role: 'user', content: 'What about the second suggestion?' },
+    ];
+
+    it('returns only the review prompt without history', () => {
+      const messages = buildReviewMessages(input, 4000);
+
+      expect(messages).toEqual([{ role: 'user', content: buildReviewPrompt(input) }]);
+    });
+
+    it('sends earlier thread comments as prior turns', () => {
+      const messages = buildReviewMessages({ ...input, history }, 4000);
+
+      expect(messages.map((m) => m.role)).toEqual(['user', 'assistant', 'user']);
+      expect(messages[0].content).toBe('Review this code');
+      expect(messages[1].content).toContain('2. Add a type');
+      // The latest comment is the query itself, so it is not repeated
+      expect(messages[2].content).toBe(buildReviewPrompt(input));
+    });
+
+    it('starts with a user turn when the thread starts with an AI comment', () => {
+      const messages = buildReviewMessages({
+        ...input,
+        history: [{ role: 'assistant', content: 'Possible null dereference' }],
+      }, 4000);
+
+      expect(messages[0].role).toBe('user');
+      expect(messages[0].content).toContain('Possible null dereference');
+      expect(messages).toHaveLength(1);
+    });
+
+    it('summarizes older turns once the token limit is near', () => {
+      const longHistory: ConversationTurn[] = Array.from({ length: 20 }, (_, i) => ({
+        role: i % 2 === 0 ? 'user' : 'assistant',
+        content: `Message ${i} ` + 'lorem ipsum dolor sit amet '.repeat(40),
+      }));
+
+      const messages = buildReviewMessages({ ...input, history: longHistory }, 1500);
+
+      expect(messages[0].role).toBe('user');
+      expect(messages[0].content).toContain('Summary of earlier messages in this thread:');
+      expect(messages[messages.length - 1].content).toBe(buildReviewPrompt(input));
+      // The most recent turn is kept verbatim
+      expect(messages.some((m) => m.content.includes(longHistory[19].content))).toBe(true);
+      expect(messages.some((m) => m.content.includes(longHistory[0].content))).toBe(false);
+
+      for (let i = 1; i < messages.length; i++) {
+        expect(messages[i].role).not.toBe(messages[i - 1].role);
+      }
+    });
+
+    it('notes omitted turns when even the summary does not fit', () => {
+      const messages = buildReviewMessages({ ...input, history }, 0);
+
+      expect(messages[0].content).toContain('earlier messages omitted');
+    });
+  });
 });
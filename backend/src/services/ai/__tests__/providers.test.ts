@@ -0,0 +1,388 @@
+import { describe, it, expect, vi, beforeAll, afterAll, beforeEach, afterEach } from 'vitest';
+import http from 'http';
+import { AddressInfo } from 'net';
+import { OpenAIService } from '../OpenAIService.js';
+import { AnthropicService } from '../AnthropicService.js';
+import { OpenRouterService } from '../OpenRouterService.js';
+import { LocalAIService } from '../LocalAIService.js';
+
+interface RecordedRequest {
+  method?: string;
+  url?: string;
+  headers: http.IncomingHttpHeaders;
+  body: Record<string, unknown>;
+}
+
+const reviewJson = JSON.stringify({
+  explanation: 'Looks fine',
+  suggestions: ['Add a test'],
+  diff: '-a\n+b',
+});
+
+/**
+ * Start a local HTTP stub that records requests and answers like the
+ * OpenAI chat completions API or the Anthropic Messages API
+ */
+function startStub(): Promise<{ server: http.Server; baseUrl: string; requests: RecordedRequest[] }> {
+  const requests: RecordedRequest[] = [];
+
+  const server = http.createServer((req, res) => {
+    let raw = '';
+    req.on('data', (chunk) => (raw += chunk));
+    req.on('end', () => {
+      requests.push({
+        method: req.method,
+        url: req.url,
+        headers: req.headers,
+        body: raw ? JSON.parse(raw) : {},
+      });
+
+      const body = raw ? JSON.parse(raw) : {};
+      res.setHeader('Content-Type', body.stream ? 'text/event-stream' : 'application/json');
+
+      if (req.url?.startsWith('/unavailable')) {
+        res.statusCode = 503;
+        res.end(JSON.stringify({ error: 'overloaded' }));
+        return;
+      }
+
+      const chunks = [reviewJson.slice(0, 20), reviewJson.slice(20)];
+
+      if (req.url?.endsWith('/v1/messages') && body.stream) {
+        res.write('event: message_start\ndata: {"type":"message_start"}\n\n');
+        for (const text of chunks) {
+          const event = { type: 'content_block_delta', index: 0, delta: { type: 'text_delta', text } };
+          res.write(`event: content_block_delta\ndata: ${JSON.stringify(event)}\n\n`);
+        }
+        res.end('event: message_stop\ndata: {"type":"message_stop"}\n\n');
+        return;
+      }
+
+      if (req.url?.endsWith('/chat/completions') && body.stream) {
+        for (const content of chunks) {
+          const chunk = {
+            id: 'chatcmpl-1',
+            object: 'chat.completion.chunk',
+            created: 0,
+            model: 'stub',
+            choices: [{ index: 0, finish_reason: null, delta: { content } }],
+          };
+          res.write(`data: ${JSON.stringify(chunk)}\n\n`);
+        }
+        res.end('data: [DONE]\n\n');
+        return;
+      }
+
+      if (req.url?.endsWith('/v1/messages')) {
+        res.end(JSON.stringify({
+          id: 'msg_1',
+          type: 'message',
+          role: 'assistant',
+          content: [{ type: 'text', text: reviewJson }],
+          stop_reason: 'end_turn',
+        }));
+        return;
+      }
+
+      if (req.url?.endsWith('/chat/completions')) {
+        res.end(JSON.stringify({
+          id: 'chatcmpl-1',
+          object: 'chat.completion',
+          created: 0,
+          model: 'stub',
+          choices: [{ index: 0, finish_reason: 'stop', message: { role: 'assistant', content: reviewJson } }],
+        }));
+        return;
+      }
+
+      res.statusCode = 404;
+      res.end(JSON.stringify({ error: 'not found' }));
+    });
+  });
+
+  return new Promise((resolve) => {
+    server.listen(0, '127.0.0.1', () => {
+      const { port } = server.address() as AddressInfo;
+      resolve({ server, baseUrl: `http://127.0.0.1:${port}`, requests });
+    });
+  });
+}
+
+/**
+ * Collect every event of a review stream
+ */
+async function collect<T>(events: AsyncIterable<T>): Promise<T[]> {
+  const result: T[] = [];
+  for await (const event of events) {
+    result.push(event);
+  }
+  return result;
+}
+
+const input = {
+  codeContext: 'const x = 1;',
+  selectedCode: 'const x = 1;',
+  language: 'javascript',
+};
+
+describe('AI provider adapters', () => {
+  let stub: Awaited<ReturnType<typeof startStub>>;
+
+  beforeAll(async () => {
+    stub = await startStub();
+  });
+
+  afterAll(async () => {
+    await new Promise((resolve) => stub.server.close(resolve));
+  });
+
+  beforeEach(() => {
+    stub.requests.length = 0;
+  });
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  describe('OpenAIService', () => {
+    it('sends a chat completion request in JSON mode', async () => {
+      const service = new OpenAIService({ apiKey: 'sk-test', baseUrl: `${stub.baseUrl}/v1`, model: 'gpt-4o' });
+
+      const result = await service.review(input);
+
+      expect(result.explanation).toBe('Looks fine');
+      expect(result.provider).toBe('openai');
+      expect(stub.requests[0].url).toBe('/v1/chat/completions');
+      expect(stub.requests[0].headers.authorization).toBe('Bearer sk-test');
+      expect(stub.requests[0].body.model).toBe('gpt-4o');
+      expect(stub.requests[0].body.response_format).toEqual({ type: 'json_object' });
+    });
+
+    it('keeps a temperature of zero', async () => {
+      const service = new OpenAIService({ apiKey: 'sk-test', baseUrl: `${stub.baseUrl}/v1`, temperature: 0 });
+
+      await service.review(input);
+
+      expect(stub.requests[0].body.temperature).toBe(0);
+    });
+
+    it('builds the context from the whole file to fit the model', async () => {
+      const service = new OpenAIService({
+        apiKey: 'sk-test',
+        baseUrl: `${stub.baseUrl}/v1`,
+        model: 'gpt-4',
+        maxTokens: 6000,
+      });
+      const content = Array.from({ length: 2000 }, (_, i) => `const line${i + 1} = ${i + 1};`).join('\n');
+
+      const result = await service.review({
+        codeContext: '',
+        selectedCode: '',
+        language: 'javascript',
+        file: { content, startLine: 1000, endLine: 1001 },
+      });
+
+      expect(result.wasTruncated).toBe(true);
+      expect(result.contextStartLine).toBeGreaterThan(1);
+      expect(result.contextStartLine).toBeLessThan(1000);
+      expect(result.contextEndLine).toBeGreaterThan(1001);
+      expect(result.contextEndLine).toBeLessThan(2000);
+
+      const messages = stub.requests[0].body.messages as Array<{ content: string }>;
+      const prompt = messages[messages.length - 1].content;
+      expect(prompt).toContain(`const line${result.contextStartLine} =`);
+      expect(prompt).toContain(`const line${result.contextEndLine} =`);
+      expect(prompt).not.toContain(`const line${result.contextEndLine + 1} =`);
+    });
+
+    it('only sends the lines around a diff hunk', async () => {
+      const service = new OpenAIService({ apiKey: 'sk-test', baseUrl: `${stub.baseUrl}/v1`, model: 'gpt-4o' });
+      const content = Array.from({ length: 200 }, (_, i) => `const line${i + 1} = ${i + 1};`).join('\n');
+
+      const result = await service.review({
+        codeContext: '',
+        selectedCode: '',
+        language: 'javascript',
+        file: { content, startLine: 100, endLine: 101 },
+        hunk: { diff: '@@ -100,2 +100,2 @@\n-a\n+const line100 = 100;', side: 'new' },
+      });
+
+      expect(result.contextStartLine).toBe(80);
+      expect(result.contextEndLine).toBe(121);
+
+      const messages = stub.requests[0].body.messages as Array<{ content: string }>;
+      const prompt = messages[messages.length - 1].content;
+      expect(prompt).toContain('const line80 =');
+      expect(prompt).not.toContain('const line79 =');
+      expect(prompt).not.toContain('const line122 =');
+    });
+
+    it('sends the function and imports around a hunk instead of unrelated lines', async () => {
+      const service = new OpenAIService({ apiKey: 'sk-test', baseUrl: `${stub.baseUrl}/v1`, model: 'gpt-4o' });
+      const unrelated = (from: number) =>
+        Array.from({ length: 50 }, (_, i) => `const line${from + i} = ${from + i};`).join('\n');
+      const content = [
+        "import { audit } from './audit';",
+        unrelated(2),
+        'function handle(event: string) {',
+        '  audit(event);',
+        '}',
+        unrelated(55),
+      ].join('\n');
+
+      const result = await service.review({
+        codeContext: '',
+        selectedCode: '',
+        language: 'typescript',
+        fileName: 'handler.ts',
+        file: { content, startLine: 53, endLine: 53 },
+        hunk: { diff: '@@ -53,1 +53,1 @@\n-a\n+  audit(event);', side: 'new' },
+      });
+
+      expect(result.contextStartLine).toBe(1);
+      expect(result.contextEndLine).toBe(54);
+
+      const messages = stub.requests[0].body.messages as Array<{ content: string }>;
+      const prompt = messages[messages.length - 1].content;
+      expect(prompt).toContain("import { audit } from './audit';\n...\nfunction handle(event: string) {\n  audit(event);\n}");
+      expect(prompt).not.toContain('const line51 =');
+      expect(prompt).not.toContain('const line55 =');
+    });
+
+    it('sends the additional files that fit in their share of the context', async () => {
+      const service = new OpenAIService({
+        apiKey: 'sk-test',
+        baseUrl: `${stub.baseUrl}/v1`,
+        model: 'gpt-4',
+        maxTokens: 2000,
+      });
+      const snippet = (name: string, lines: number) => ({
+        name,
+        content: Array.from({ length: lines }, (_, i) => `export const value${i} = ${i};`).join('\n'),
+        language: 'typescript',
+      });
+
+      const result = await service.review({
+        ...input,
+        additionalFiles: [snippet('a.ts:1-10', 10), snippet('huge.ts:1-500', 500), snippet('b.ts:1-10', 10)],
+      });
+
+      expect(result.contextFiles).toEqual(['a.ts:1-10', 'b.ts:1-10']);
+      const messages = stub.requests[0].body.messages as Array<{ content: string }>;
+      expect(messages[messages.length - 1].content).not.toContain('--- huge.ts:1-500 ---');
+    });
+
+    it('streams review events from a streamed completion', async () => {
+      const service = new OpenAIService({ apiKey: 'sk-test', baseUrl: `${stub.baseUrl}/v1` });
+
+      const events = await collect(service.reviewStream(input));
+
+      expect(stub.requests[0].body.stream).toBe(true);
+      expect(events.filter((e) => e.type === 'explanation').map((e) => e.delta).join('')).toBe('Looks fine');
+      expect(events).toContainEqual({ type: 'suggestion', index: 0, text: 'Add a test' });
+      expect(events).toContainEqual({ type: 'diff', diff: '@@ -1,1 +1,1 @@\n-a\n+b' });
+      expect(events[events.length - 1]).toEqual({
+        type: 'done',
+        review: expect.objectContaining({ explanation: 'Looks fine', provider: 'openai' }),
+      });
+    });
+  });
+
+  describe('AnthropicService', () => {
+    it('is unavailable without an API key', () => {
+      vi.stubEnv('ANTHROPIC_API_KEY', '');
+
+      expect(new AnthropicService({ baseUrl: stub.baseUrl }).isAvailable()).toBe(false);
+    });
+
+    it('calls the Messages API with the system prompt separated', async () => {
+      const service = new AnthropicService({ apiKey: 'ant-test', baseUrl: stub.baseUrl, model: 'claude-test' });
+
+      const result = await service.review(input);
+
+      expect(result.explanation).toBe('Looks fine');
+      expect(result.suggestions).toEqual(['Add a test']);
+      expect(result.provider).toBe('anthropic');
+
+      const request = stub.requests[0];
+      expect(request.url).toBe('/v1/messages');
+      expect(request.headers['x-api-key']).toBe('ant-test');
+      expect(request.headers['anthropic-version']).toBeDefined();
+      expect(request.body.model).toBe('claude-test');
+      expect(typeof request.body.system).toBe('string');
+      expect(request.body.messages).toEqual([
+        expect.objectContaining({ role: 'user' }),
+      ]);
+    });
+
+    it('streams text deltas from the Messages API', async () => {
+      const service = new AnthropicService({ apiKey: 'ant-test', baseUrl: stub.baseUrl });
+
+      const events = await collect(service.reviewStream(input));
+
+      expect(stub.requests[0].body.stream).toBe(true);
+      expect(events.filter((e) => e.type === 'explanation').length).toBeGreaterThan(0);
+      expect(events[events.length - 1]).toEqual({
+        type: 'done',
+        review: expect.objectContaining({ suggestions: ['Add a test'], provider: 'anthropic' }),
+      });
+    });
+
+    it('sends thread history as alternating messages', async () => {
+      const service = new AnthropicService({ apiKey: 'ant-test', baseUrl: stub.baseUrl });
+
+      await service.review({
+        ...input,
+        query: 'And the second one?',
+        history: [
+          { role: 'user', content: 'Review this' },
+          { role: 'assistant', content: '1. Rename x\n2. Add a test' },
+        ],
+      });
+
+      const messages = stub.requests[0].body.messages as Array<{ role: string; content: string }>;
+      expect(messages.map((m) => m.role)).toEqual(['user', 'assistant', 'user']);
+      expect(messages[1].content).toContain('Add a test');
+      expect(messages[2].content).toContain('And the second one?');
+    });
+
+    it('throws on API errors', async () => {
+      const service = new AnthropicService({ apiKey: 'ant-test', baseUrl: `${stub.baseUrl}/unavailable` });
+
+      await expect(service.review(input)).rejects.toThrow('Anthropic API error 503');
+    });
+  });
+
+  describe('OpenRouterService', () => {
+    it('uses the OpenRouter key and does not force JSON mode', async () => {
+      const service = new OpenRouterService({ apiKey: 'or-test', baseUrl: `${stub.baseUrl}/api/v1` });
+
+      const result = await service.review(input);
+
+      expect(result.provider).toBe('openrouter');
+      expect(stub.requests[0].url).toBe('/api/v1/chat/completions');
+      expect(stub.requests[0].headers.authorization).toBe('Bearer or-test');
+      expect(stub.requests[0].headers['x-title']).toBe('AI Code Review Assistant');
+      expect(stub.requests[0].body.response_format).toBeUndefined();
+    });
+  });
+
+  describe('LocalAIService', () => {
+    it('is unavailable until a base URL is configured', () => {
+      vi.stubEnv('LOCAL_AI_BASE_URL', '');
+
+      expect(new LocalAIService().isAvailable()).toBe(false);
+    });
+
+    it('talks to an OpenAI-compatible local endpoint without an API key', async () => {
+      const service = new LocalAIService({ baseUrl: `${stub.baseUrl}/v1`, model: 'llama3' });
+
+      const result = await service.review(input);
+
+      expect(service.isAvailable()).toBe(true);
+      expect(result.provider).toBe('local');
+      expect(result.model).toBe('llama3');
+      expect(stub.requests[0].url).toBe('/v1/chat/completions');
+    });
+  });
+});
@@ -0,0 +1,105 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { BaseAIService } from '../BaseAIService.js';
+import type { AIProviderConfig, ReviewStreamEvent } from '../types.js';
+
+/**
+ * Service that answers every request with the same response
+ */
+class FakeService extends BaseAIService {
+  response = '';
+
+  constructor(config: Partial<AIProviderConfig> = {}) {
+    super({ name: 'fake', model: 'fake-model', ...config });
+  }
+
+  isAvailable(): boolean {
+    return true;
+  }
+
+  protected async generateCompletion(): Promise<string> {
+    return this.response;
+  }
+}
+
+const file = [
+  'function add(a, b) {',
+  '  return a + b;',
+  '}',
+  '',
+  'function divide(a, b) {',
+  '  return a / b;',
+  '}',
+].join('\n');
+
+const input = {
+  codeContext: '',
+  selectedCode: '  return a / b;',
+  language: 'javascript',
+  file: { content: file, startLine: 6, endLine: 6 },
+};
+
+const respondWith = (service: FakeService, diff: string) => {
+  service.response = JSON.stringify({ explanation: 'Guard against zero', suggestions: [], diff });
+};
+
+async function collect(stream: AsyncGenerator<ReviewStreamEvent>): Promise<ReviewStreamEvent[]> {
+  const events: ReviewStreamEvent[] = [];
+  for await (const event of stream) {
+    events.push(event);
+  }
+  return events;
+}
+
+describe('review diffs', () => {
+  let service: FakeService;
+
+  beforeEach(() => {
+    service = new FakeService();
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('numbers headerless diffs by the lines of the reviewed file', async () => {
+    respondWith(service, '-  return a / b;\n+  return b === 0 ? 0 : a / b;');
+
+    const result = await service.review(input);
+
+    expect(result.diff).toBe('@@ -6,1 +6,1 @@\n-  return a / b;\n+  return b === 0 ? 0 : a / b;');
+    expect(console.warn).toHaveBeenCalled();
+  });
+
+  it('keeps well-formed diffs', async () => {
+    const diff = '@@ -2,1 +2,1 @@\n-  return a + b;\n+  return Number(a) + Number(b);';
+    respondWith(service, diff);
+
+    expect((await service.review(input)).diff).toBe(diff);
+    expect(console.warn).not.toHaveBeenCalled();
+  });
+
+  it('drops diffs without changes', async () => {
+    respondWith(service, 'No changes needed');
+
+    expect((await service.review(input)).diff).toBeUndefined();
+  });
+
+  it('streams the normalized diff', async () => {
+    respondWith(service, '```diff\n-  return a / b;\n+  return b ? a / b : 0;\n```');
+
+    const events = await collect(service.reviewStream(input));
+    const diff = '@@ -6,1 +6,1 @@\n-  return a / b;\n+  return b ? a / b : 0;';
+
+    expect(events.filter((e) => e.type === 'diff')).toEqual([{ type: 'diff', diff }]);
+    expect(events[events.length - 1]).toMatchObject({ type: 'done', review: { diff } });
+  });
+
+  it('streams no diff event for diffs without changes', async () => {
+    respondWith(service, ' unchanged');
+
+    const events = await collect(service.reviewStream(input));
+
+    expect(events.some((e) => e.type === 'diff')).toBe(false);
+  });
+});
@@ -0,0 +1,243 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { BaseAIService } from '../BaseAIService.js';
+import { parseScanResponse, mergeScanIssues } from '../scanSchema.js';
+import { buildScanPrompt } from '../promptBuilder.js';
+import type { AIProviderConfig, ConversationTurn, ScanIssue } from '../types.js';
+
+/**
+ * Service that answers with queued responses and records the messages it was sent
+ */
+class FakeService extends BaseAIService {
+  responses: string[] = [];
+  calls: ConversationTurn[][] = [];
+  respond?: (messages: ConversationTurn[]) => Promise<string>;
+
+  constructor(config: Partial<AIProviderConfig> = {}) {
+    super({ name: 'fake', model: 'fake-model', ...config });
+  }
+
+  isAvailable(): boolean {
+    return true;
+  }
+
+  protected async generateCompletion(_systemPrompt: string, messages: ConversationTurn[]): Promise<string> {
+    this.calls.push(messages.map((m) => ({ ...m })));
+    if (this.respond) {
+      return this.respond(messages);
+    }
+    const response = this.responses.shift();
+    if (response === undefined) {
+      throw new Error('No more responses');
+    }
+    return response;
+  }
+}
+
+const code = ['function divide(a, b) {', '  return a / b;', '}'].join('\n');
+
+const issue = {
+  startLine: 2,
+  endLine: 2,
+  severity: 'error',
+  category: 'bug',
+  message: 'Division by zero is not handled',
+  fix: 'Check that b is not zero',
+};
+
+describe('parseScanResponse', () => {
+  it('accepts issues matching the schema', () => {
+    const result = parseScanResponse(JSON.stringify({ issues: [{ ...issue, diff: '-a\n+b' }] }), 3);
+
+    expect(result.valid).toBe(true);
+    expect(result.errors).toEqual([]);
+    expect(result.issues).toEqual([{ ...issue, diff: '-a\n+b' }]);
+  });
+
+  it('accepts an empty issue list', () => {
+    expect(parseScanResponse('{"issues": []}', 3)).toEqual({ valid: true, issues: [], errors: [] });
+  });
+
+  it('extracts JSON wrapped in prose', () => {
+    const result = parseScanResponse(`Here you go:\n${JSON.stringify({ issues: [issue] })}`, 3);
+
+    expect(result.issues).toHaveLength(1);
+  });
+
+  it('rejects responses without JSON', () => {
+    const result = parseScanResponse('LINE 2-2: [ERROR] Division by zero', 3);
+
+    expect(result.valid).toBe(false);
+    expect(result.errors[0]).toContain('does not contain a JSON object');
+  });
+
+  it('reports schema violations', () => {
+    const result = parseScanResponse(JSON.stringify({
+      issues: [{ ...issue, severity: 'critical', startLine: '2' }],
+    }), 3);
+
+    expect(result.valid).toBe(false);
+    expect(result.issues).toEqual([]);
+    expect(result.errors).toContain('issues/0/startLine must be integer');
+    expect(result.errors.some((e) => e.startsWith('issues/0/severity'))).toBe(true);
+  });
+
+  it('rejects line ranges outside the file', () => {
+    const result = parseScanResponse(JSON.stringify({
+      issues: [issue, { ...issue, startLine: 16, endLine: 18 }, { ...issue, startLine: 3, endLine: 2 }],
+    }), 3);
+
+    expect(result.valid).toBe(true);
+    expect(result.issues).toEqual([issue]);
+    expect(result.errors).toHaveLength(2);
+    expect(result.errors[0]).toContain('lines 16-18 are outside the scanned lines 1-3');
+  });
+
+  it('gives issues citing a team rule the rule\'s severity and reports unknown rules', () => {
+    const rules = [{ id: 'no-eval', description: 'Never call eval', severity: 'warning' as const }];
+    const result = parseScanResponse(JSON.stringify({
+      issues: [{ ...issue, ruleId: 'no-eval' }, { ...issue, ruleId: 'no-var' }, { ...issue, ruleId: null }],
+    }), 3, 1, rules);
+
+    expect(result.valid).toBe(true);
+    expect(result.issues).toEqual([{ ...issue, severity: 'warning', ruleId: 'no-eval' }, issue, issue]);
+    expect(result.errors).toEqual(['issues/1 ruleId "no-var" is not one of the team rules']);
+  });
+
+  it('checks and keeps the output fields of the scan\'s mode', () => {
+    const security = { ...issue, category: 'security', cwe: ['CWE-89'], owasp: ['A03:2021-Injection'] };
+
+    expect(parseScanResponse(JSON.stringify({ issues: [security] }), 3, 1, [], 'security').issues).toEqual([security]);
+    expect(parseScanResponse(JSON.stringify({ issues: [security] }), 3).issues).toEqual([
+      { ...issue, category: 'security' },
+    ]);
+
+    const invalid = parseScanResponse(JSON.stringify({ issues: [{ ...security, cwe: 'SQL injection' }] }), 3, 1, [], 'security');
+    expect(invalid.valid).toBe(false);
+    expect(invalid.errors).toContain('issues/0/cwe must be array');
+  });
+});
+
+describe('mergeScanIssues', () => {
+  const base: ScanIssue = { ...issue, severity: 'error', category: 'bug' };
+
+  it('drops findings repeated by an overlapping chunk', () => {
+    const merged = mergeScanIssues([
+      [base, { ...base, startLine: 30, endLine: 31, message: 'Unused variable' }],
+      [{ ...base, message: 'Possible division by zero' }, { ...base, startLine: 31, endLine: 31, message: 'unused variable!' }],
+    ]);
+
+    expect(merged).toEqual([base, { ...base, startLine: 30, endLine: 31, message: 'Unused variable' }]);
+  });
+
+  it('keeps distinct findings on the same lines from one chunk and sorts by line', () => {
+    const security: ScanIssue = { ...base, startLine: 1, endLine: 1, category: 'security', message: 'Eval' };
+    const merged = mergeScanIssues([[base, { ...base, category: 'style', message: 'Naming' }], [security]]);
+
+    expect(merged.map((i) => i.category)).toEqual(['security', 'bug', 'style']);
+  });
+});
+
+describe('BaseAIService.scan', () => {
+  let service: FakeService;
+
+  beforeEach(() => {
+    service = new FakeService();
+    vi.spyOn(console, 'warn').mockImplementation(() => undefined);
+  });
+
+  it('returns validated issues', async () => {
+    service.responses.push(JSON.stringify({ issues: [issue] }));
+
+    const result = await service.scan({ code, language: 'javascript', fileName: 'math.js' });
+
+    expect(result).toEqual({ issues: [issue], provider: 'fake', model: 'fake-model' });
+    expect(service.calls[0]).toEqual([
+      { role: 'user', content: buildScanPrompt({ code, language: 'javascript', fileName: 'math.js' }) },
+    ]);
+  });
+
+  it('re-prompts with the validation errors when the response does not match the schema', async () => {
+    service.responses.push('{"issues": [{"line": 2}]}', JSON.stringify({ issues: [issue] }));
+
+    const result = await service.scan({ code, language: 'javascript' });
+
+    expect(result.issues).toEqual([issue]);
+    expect(service.calls).toHaveLength(2);
+    expect(service.calls[1][1]).toEqual({ role: 'assistant', content: '{"issues": [{"line": 2}]}' });
+    expect(service.calls[1][2].content).toContain("issues/0 must have required property 'startLine'");
+  });
+
+  it('re-prompts for out-of-range lines and drops them if they are not corrected', async () => {
+    const outOfRange = JSON.stringify({ issues: [issue, { ...issue, startLine: 40, endLine: 42 }] });
+    service.responses.push(outOfRange, outOfRange, outOfRange);
+
+    const result = await service.scan({ code, language: 'javascript' });
+
+    expect(service.calls).toHaveLength(3);
+    expect(result.issues).toEqual([issue]);
+  });
+
+  it('throws instead of returning made-up issues when the model never matches the schema', async () => {
+    service.responses.push('not json', 'still not json', '{"problems": []}');
+
+    await expect(service.scan({ code, language: 'javascript' })).rejects.toThrow(
+      'fake did not return valid scan results'
+    );
+  });
+
+  describe('large files', () => {
+    // 300 lines with a marked bug every 25 lines
+    const bugLines = Array.from({ length: 12 }, (_, i) => (i + 1) * 25);
+    const largeCode = Array.from({ length: 300 }, (_, i) =>
+      bugLines.includes(i + 1) ? `const value${i + 1} = total / count; // BUG` : `const value${i + 1} = compute(${i + 1});`
+    ).join('\n');
+
+    /**
+     * Report every marked line, using the line numbers from the prompt
+     */
+    const reportMarkedLines = async (messages: ConversationTurn[]) => {
+      const prompt = messages[0].content;
+      const issues = [...prompt.matchAll(/^(\d+): .*BUG/gm)].map((match) => ({
+        ...issue,
+        startLine: Number(match[1]),
+        endLine: Number(match[1]),
+      }));
+      return JSON.stringify({ issues });
+    };
+
+    afterEach(() => {
+      vi.unstubAllEnvs();
+    });
+
+    it('scans overlapping chunks and maps findings back to file lines without duplicates', async () => {
+      service = new FakeService({ model: 'gpt-4', maxTokens: 7000 });
+      service.respond = reportMarkedLines;
+
+      const result = await service.scan({ code: largeCode, language: 'javascript', fileName: 'big.js' });
+
+      expect(service.calls.length).toBeGreaterThan(1);
+      expect(service.calls[1][0].content).toMatch(/Lines: \d+-\d+ of 300/);
+      expect(result.issues.map((i) => i.startLine)).toEqual(bugLines);
+    });
+
+    it('limits the number of chunks scanned at once', async () => {
+      vi.stubEnv('AI_SCAN_CONCURRENCY', '2');
+      service = new FakeService({ model: 'gpt-4', maxTokens: 7000 });
+
+      let inFlight = 0;
+      let maxInFlight = 0;
+      service.respond = async (messages) => {
+        inFlight++;
+        maxInFlight = Math.max(maxInFlight, inFlight);
+        await new Promise((resolve) => setTimeout(resolve, 5));
+        inFlight--;
+        return reportMarkedLines(messages);
+      };
+
+      await service.scan({ code: largeCode, language: 'javascript' });
+
+      expect(service.calls.length).toBeGreaterThan(2);
+      expect(maxInFlight).toBe(2);
+    });
+  });
+});
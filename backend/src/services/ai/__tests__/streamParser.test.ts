@@ -0,0 +1,88 @@
+import { describe, it, expect } from 'vitest';
+import { ReviewStreamParser, parseServerSentEvents } from '../streamParser.js';
+import type { ReviewStreamEvent } from '../types.js';
+
+function streamFrom(chunks: string[]): ReadableStream<Uint8Array> {
+  const encoder = new TextEncoder();
+  return new ReadableStream({
+    start(controller) {
+      chunks.forEach((chunk) => controller.enqueue(encoder.encode(chunk)));
+      controller.close();
+    },
+  });
+}
+
+describe('ReviewStreamParser', () => {
+  it('emits explanation deltas as the JSON string arrives', () => {
+    const parser = new ReviewStreamParser();
+
+    expect(parser.push('{"explanation": "Hel')).toEqual([{ type: 'explanation', delta: 'Hel' }]);
+    expect(parser.push('lo\\nwor')).toEqual([{ type: 'explanation', delta: 'lo\nwor' }]);
+    expect(parser.push('ld", ')).toEqual([{ type: 'explanation', delta: 'ld' }]);
+  });
+
+  it('waits for an escape sequence split across chunks', () => {
+    const parser = new ReviewStreamParser();
+
+    expect(parser.push('{"explanation": "a\\')).toEqual([{ type: 'explanation', delta: 'a' }]);
+    expect(parser.push('"b"')).toEqual([{ type: 'explanation', delta: '"b' }]);
+  });
+
+  it('emits each suggestion once it is complete', () => {
+    const parser = new ReviewStreamParser();
+    const events: ReviewStreamEvent[] = [];
+
+    events.push(...parser.push('{"explanation": "x", "suggestions": ["Add a te'));
+    expect(events.filter((e) => e.type === 'suggestion')).toEqual([]);
+
+    events.push(...parser.push('st", "Rename'));
+    events.push(...parser.push(' it"]'));
+
+    expect(events.filter((e) => e.type === 'suggestion')).toEqual([
+      { type: 'suggestion', index: 0, text: 'Add a test' },
+      { type: 'suggestion', index: 1, text: 'Rename it' },
+    ]);
+  });
+
+  it('returns the parsed review and the diff on finish', () => {
+    const parser = new ReviewStreamParser();
+    parser.push(JSON.stringify({ explanation: 'Fine', suggestions: ['One'], diff: '-a\n+b' }));
+
+    const { events, review } = parser.finish();
+
+    expect(events).toEqual([{ type: 'diff', diff: '-a\n+b' }]);
+    expect(review).toEqual({ explanation: 'Fine', suggestions: ['One'], diff: '-a\n+b' });
+  });
+
+  it('falls back to plain text responses', () => {
+    const parser = new ReviewStreamParser();
+
+    expect(parser.push('This code ')).toEqual([]);
+    parser.push('looks fine.');
+
+    const { events, review } = parser.finish();
+    expect(review.explanation).toBe('This code looks fine.');
+    expect(events).toEqual([{ type: 'explanation', delta: 'This code looks fine.' }]);
+  });
+});
+
+describe('parseServerSentEvents', () => {
+  it('parses events split across chunks', async () => {
+    const messages = [];
+    const body = streamFrom([
+      'event: content_block_delta\ndata: {"a"',
+      ':1}\n\nevent: ping\ndata: {}\n',
+      '\ndata: line1\ndata: line2\n\n',
+    ]);
+
+    for await (const message of parseServerSentEvents(body)) {
+      messages.push(message);
+    }
+
+    expect(messages).toEqual([
+      { event: 'content_block_delta', data: '{"a":1}' },
+      { event: 'ping', data: '{}' },
+      { event: undefined, data: 'line1\nline2' },
+    ]);
+  });
+});
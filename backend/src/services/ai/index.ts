@@ -1,11 +1,26 @@
-import { IAIService, ReviewInput, ReviewOutput } from './types.js';
+import {
+  IAIService,
+  ReviewInput,
+  ReviewOutput,
+  ReviewStreamEvent,
+  ScanInput,
+  ScanOutput,
+  AIProvider,
+  AI_PROVIDERS,
+} from './types.js';
 import { OpenAIService } from './OpenAIService.js';
+import { AnthropicService } from './AnthropicService.js';
+import { OpenRouterService } from './OpenRouterService.js';
+import { LocalAIService } from './LocalAIService.js';
 
 export * from './types.js';
 export * from './promptBuilder.js';
+export { ReviewStreamParser } from './streamParser.js';
+export { parseScanResponse, scanResponseSchema, SCAN_RESPONSE_SCHEMA } from './scanSchema.js';
 export { OpenAIService } from './OpenAIService.js';
-
-type AIProvider = 'openai';
+export { AnthropicService } from './AnthropicService.js';
+export { OpenRouterService } from './OpenRouterService.js';
+export { LocalAIService } from './LocalAIService.js';
 
 /**
  * AI Service Factory
@@ -18,7 +33,7 @@ export class AIServiceFactory {
    * Get an AI service instance
    */
   static getService(provider?: AIProvider): IAIService {
-    const selectedProvider = provider || (process.env.AI_PROVIDER as AIProvider) || 'openai';
+    const selectedProvider = provider || this.getDefaultProvider();
 
     // Return cached instance if available
     if (this.instances.has(selectedProvider)) {
@@ -31,6 +46,15 @@ export class AIServiceFactory {
       case 'openai':
         service = new OpenAIService();
         break;
+      case 'anthropic':
+        service = new AnthropicService();
+        break;
+      case 'openrouter':
+        service = new OpenRouterService();
+        break;
+      case 'local':
+        service = new LocalAIService();
+        break;
       default:
         throw new Error(`Unknown AI provider: ${selectedProvider}`);
     }
@@ -40,10 +64,42 @@ export class AIServiceFactory {
   }
 
   /**
-   * Get all available services
+   * Get the default provider from the AI_PROVIDER environment variable
+   * Throws when it names no known provider, so a typo fails at startup
+   */
+  static getDefaultProvider(): AIProvider {
+    const provider = process.env.AI_PROVIDER || 'openai';
+    if (!(AI_PROVIDERS as readonly string[]).includes(provider)) {
+      throw new Error(`AI_PROVIDER must be one of ${AI_PROVIDERS.join(', ')}, got "${provider}"`);
+    }
+    return provider as AIProvider;
+  }
+
+  /**
+   * Get the order in which providers are tried when falling back
+   * The preferred provider comes first, then the default provider, then the
+   * order from AI_FALLBACK_ORDER (comma-separated) or the built-in order
+   */
+  static getFallbackOrder(preferred?: AIProvider): AIProvider[] {
+    const configured = (process.env.AI_FALLBACK_ORDER || '')
+      .split(',')
+      .map((p) => p.trim())
+      .filter((p): p is AIProvider => (AI_PROVIDERS as readonly string[]).includes(p));
+
+    const order = [
+      ...(preferred ? [preferred] : []),
+      this.getDefaultProvider(),
+      ...(configured.length > 0 ? configured : AI_PROVIDERS),
+    ];
+
+    return Array.from(new Set(order));
+  }
+
+  /**
+   * Get all available services, in fallback order
    */
-  static getAvailableServices(): IAIService[] {
-    const providers: AIProvider[] = ['openai'];
+  static getAvailableServices(preferred?: AIProvider): IAIService[] {
+    const providers = this.getFallbackOrder(preferred);
     const available: IAIService[] = [];
 
     for (const provider of providers) {
@@ -69,20 +125,25 @@ export class AIServiceFactory {
 }
 
 /**
- * Generate a code review using the configured AI provider
+ * Generate a code review using the requested or configured AI provider
  */
-export async function generateReview(input: ReviewInput): Promise<ReviewOutput> {
-  const service = AIServiceFactory.getService();
+export async function generateReview(
+  input: ReviewInput,
+  provider?: AIProvider
+): Promise<ReviewOutput> {
+  const service = AIServiceFactory.getService(provider);
   return service.review(input);
 }
 
 /**
  * Generate a code review with fallback to other providers
+ * The requested provider (if any) is tried first
  */
 export async function generateReviewWithFallback(
-  input: ReviewInput
+  input: ReviewInput,
+  provider?: AIProvider
 ): Promise<ReviewOutput> {
-  const services = AIServiceFactory.getAvailableServices();
+  const services = AIServiceFactory.getAvailableServices(provider);
 
   if (services.length === 0) {
     throw new Error('No AI services available. Please configure at least one provider.');
@@ -102,3 +163,77 @@ export async function generateReviewWithFallback(
   throw lastError || new Error('All AI services failed');
 }
 
+/**
+ * Scan a whole file for issues using the requested or configured AI provider
+ */
+export async function scanCode(
+  input: ScanInput,
+  provider?: AIProvider
+): Promise<ScanOutput> {
+  const service = AIServiceFactory.getService(provider);
+  return service.scan(input);
+}
+
+/**
+ * Emit a non-streaming review as stream events
+ */
+async function* reviewAsStream(
+  service: IAIService,
+  input: ReviewInput
+): AsyncGenerator<ReviewStreamEvent> {
+  const review = await service.review(input);
+
+  yield { type: 'explanation', delta: review.explanation };
+  for (const [index, text] of review.suggestions.entries()) {
+    yield { type: 'suggestion', index, text };
+  }
+  if (review.diff) {
+    yield { type: 'diff', diff: review.diff };
+  }
+  yield { type: 'done', review };
+}
+
+/**
+ * Stream a code review
+ * With fallback enabled, the next provider is tried only if the previous one
+ * failed before emitting anything
+ */
+export async function* streamReview(
+  input: ReviewInput,
+  provider?: AIProvider,
+  useFallback: boolean = false
+): AsyncGenerator<ReviewStreamEvent> {
+  const services = useFallback
+    ? AIServiceFactory.getAvailableServices(provider)
+    : [AIServiceFactory.getService(provider)];
+
+  if (services.length === 0) {
+    throw new Error('No AI services available. Please configure at least one provider.');
+  }
+
+  let lastError: Error | null = null;
+
+  for (const service of services) {
+    let started = false;
+
+    try {
+      const events = service.reviewStream
+        ? service.reviewStream(input)
+        : reviewAsStream(service, input);
+
+      for await (const event of events) {
+        started = true;
+        yield event;
+      }
+      return;
+    } catch (error) {
+      if (started || !useFallback) {
+        throw error;
+      }
+      console.warn(`Failed to stream review with ${service.provider}:`, error);
+      lastError = error as Error;
+    }
+  }
+
+  throw lastError || new Error('All AI services failed');
+}
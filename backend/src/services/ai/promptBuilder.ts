@@ -1,25 +1,43 @@
-import { ReviewInput } from './types.js';
+import {
+  ReviewInput,
+  ReviewRule,
+  ReviewFinding,
+  ConversationTurn,
+  ScanInput,
+  ReviewMode,
+  ReviewModeFields,
+  SCAN_CATEGORIES,
+} from './types.js';
+import { REVIEW_MODE_PROMPTS, formatModeFieldPrompts, readModeFields } from './reviewModes.js';
+import { getTokenCounter, TokenCounter } from '../../utils/tokenCounter.js';
+
+/** Maximum characters of each earlier turn kept in a history summary */
+const SUMMARY_TURN_LENGTH = 160;
 
 /**
- * System prompt for the AI code reviewer
+ * System prompt for the AI code reviewer, from the template of the review mode
  */
-const SYSTEM_PROMPT = `You are an expert code reviewer. Your task is to analyze code and provide helpful, constructive feedback.
+function buildSystemPrompt(mode: ReviewMode): string {
+  const { reviewer, checklist } = REVIEW_MODE_PROMPTS[mode];
+  const fields = [
+    '  "explanation": "A clear explanation of what the code does and any issues found"',
+    '  "suggestions": ["Array of specific suggestions for improvement"]',
+    '  "diff": "Optional: A GitHub-style diff showing suggested changes (use - for removed lines, + for added lines)"',
+    ...formatModeFieldPrompts(mode, '  '),
+  ];
+
+  return `${reviewer}
 
 When reviewing code, you should:
-1. Identify potential bugs, errors, or issues
-2. Suggest improvements for code quality, readability, and maintainability
-3. Point out security vulnerabilities if any
-4. Recommend best practices and design patterns
-5. Provide clear explanations for your suggestions
+${checklist.map((item, i) => `${i + 1}. ${item}`).join('\n')}
 
 Format your response as JSON with the following structure:
 {
-  "explanation": "A clear explanation of what the code does and any issues found",
-  "suggestions": ["Array of specific suggestions for improvement"],
-  "diff": "Optional: A GitHub-style diff showing suggested changes (use - for removed lines, + for added lines)"
+${fields.join(',\n')}
 }
 
 Be concise but thorough. Focus on the most important issues first.`;
+}
 
 /**
  * Build the user prompt for code review
@@ -40,6 +58,14 @@ export function buildReviewPrompt(input: ReviewInput): string {
     prompt += `User question: ${input.query}\n\n`;
   }
 
+  // Add the change being reviewed
+  if (input.hunk) {
+    prompt += `Change under review:\n\`\`\`diff\n${input.hunk.diff}\n\`\`\`\n`;
+    prompt += input.hunk.side === 'old'
+      ? 'The code below is the old version, before the change; the selected code was removed or replaced.\n\n'
+      : 'The code below is the new version, after the change.\n\n';
+  }
+
   // Add the code context
   prompt += `Code context:\n\`\`\`${input.language}\n${input.codeContext}\n\`\`\`\n\n`;
 
@@ -54,26 +80,262 @@ export function buildReviewPrompt(input: ReviewInput): string {
     }
   }
 
-  prompt += 'Please review the selected code and provide your analysis in JSON format.';
+  prompt += input.hunk
+    ? 'Please review the change to the selected code and provide your analysis in JSON format.'
+    : 'Please review the selected code and provide your analysis in JSON format.';
+
+  return prompt;
+}
+
+/**
+ * Build the chat messages for a review: earlier thread turns followed by the review prompt
+ * Once the history no longer fits in `maxContextTokens` (which also covers the system
+ * prompt and the review prompt), the oldest turns are condensed into a short summary.
+ * Tokens are counted with the tokenizer of `model`
+ */
+export function buildReviewMessages(
+  input: ReviewInput,
+  maxContextTokens: number,
+  model?: string
+): ConversationTurn[] {
+  const countTokens = getTokenCounter(model);
+  const prompt = buildReviewPrompt(input);
+  const history = (input.history || []).filter((turn) => turn.content.trim());
+
+  // The question being asked is usually also the thread's latest comment
+  const last = history[history.length - 1];
+  if (last && last.role === 'user' && input.query && last.content.trim() === input.query.trim()) {
+    history.pop();
+  }
+
+  let budget = maxContextTokens - countTokens(getSystemPrompt(input.rules, input.mode)) - countTokens(prompt);
+
+  // Keep the most recent turns that fit
+  const kept: ConversationTurn[] = [];
+  for (let i = history.length - 1; i >= 0; i--) {
+    const tokens = countTokens(history[i].content);
+    if (tokens > budget) break;
+    kept.unshift(history[i]);
+    budget -= tokens;
+  }
+
+  const messages: ConversationTurn[] = [];
+  const dropped = history.slice(0, history.length - kept.length);
+  if (dropped.length > 0) {
+    messages.push({ role: 'user', content: summarizeTurns(dropped, budget, countTokens) });
+  }
+  messages.push(...kept, { role: 'user', content: prompt });
+
+  return normalizeTurns(messages);
+}
+
+/**
+ * Condense turns into a summary that fits in `maxTokens`, keeping the most recent ones
+ */
+function summarizeTurns(
+  turns: ConversationTurn[],
+  maxTokens: number,
+  countTokens: TokenCounter
+): string {
+  const header = 'Summary of earlier messages in this thread:';
+  const lines: string[] = [];
+  let budget = maxTokens - countTokens(header);
+
+  for (let i = turns.length - 1; i >= 0; i--) {
+    const text = turns[i].content.replace(/\s+/g, ' ').trim();
+    const line = `- ${turns[i].role === 'user' ? 'User' : 'Assistant'}: ` +
+      (text.length > SUMMARY_TURN_LENGTH ? text.slice(0, SUMMARY_TURN_LENGTH) + '...' : text);
+    const tokens = countTokens(line);
+    if (tokens > budget) break;
+    lines.unshift(line);
+    budget -= tokens;
+  }
+
+  const omitted = turns.length - lines.length;
+  if (omitted > 0) {
+    lines.unshift(`- (${omitted} earlier ${omitted === 1 ? 'message' : 'messages'} omitted)`);
+  }
+
+  return `${header}\n${lines.join('\n')}`;
+}
+
+/**
+ * Make turns alternate between user and assistant, starting with the user,
+ * as required by chat APIs such as Anthropic's
+ */
+function normalizeTurns(turns: ConversationTurn[]): ConversationTurn[] {
+  const result: ConversationTurn[] = [];
+
+  for (const turn of turns) {
+    const current = result.length === 0 && turn.role === 'assistant'
+      ? { role: 'user' as const, content: `Previous review comment:\n${turn.content}` }
+      : turn;
+
+    const previous = result[result.length - 1];
+    if (previous && previous.role === current.role) {
+      previous.content += `\n\n${current.content}`;
+    } else {
+      result.push({ ...current });
+    }
+  }
+
+  return result;
+}
+
+/**
+ * System prompt for scanning a whole file, from the template of the scan's mode
+ */
+function buildScanSystemPrompt(mode: ReviewMode): string {
+  const fields = [
+    '      "startLine": 12',
+    '      "endLine": 14',
+    '      "severity": "error | warning | info"',
+    `      "category": "${SCAN_CATEGORIES.join(' | ')}"`,
+    '      "message": "What is wrong and why it matters"',
+    '      "fix": "How to fix it"',
+    '      "diff": "Optional: a GitHub-style diff of the fix (use - for removed lines, + for added lines)"',
+    ...formatModeFieldPrompts(mode, '      '),
+  ];
+
+  return `You are an expert code reviewer scanning a file for ${REVIEW_MODE_PROMPTS[mode].scanFocus}.
+
+Respond with ONLY a JSON object of the following structure:
+{
+  "issues": [
+    {
+${fields.join(',\n')}
+    }
+  ]
+}
+
+Line numbers refer to the numbered lines of the file and must be within the file.
+Use "error" for bugs and vulnerabilities, "warning" for likely problems and "info" for minor improvements.
+Return {"issues": []} if you find no issues. Do not invent issues.`;
+}
+
+/**
+ * List team rules for a system prompt, with their examples indented under them
+ */
+function formatRules(rules: ReviewRule[]): string {
+  return rules
+    .map((rule) => {
+      const line = `- ${rule.id} (${rule.severity}): ${rule.description}`;
+      return rule.example
+        ? `${line}\n  Example:\n${rule.example.replace(/^/gm, '    ')}`
+        : line;
+    })
+    .join('\n');
+}
+
+/**
+ * Get the system prompt for file scans in a mode, with the team's rules when given
+ */
+export function getScanSystemPrompt(rules: ReviewRule[] = [], mode: ReviewMode = 'general'): string {
+  const prompt = buildScanSystemPrompt(mode);
+  if (rules.length === 0) {
+    return prompt;
+  }
+
+  return `${prompt}
+
+The team that owns this code also requires it to follow these rules:
+${formatRules(rules)}
+
+Report every place that breaks one of these rules as an issue with the rule's severity, and add
+"ruleId": "<rule ID>" to it. Only cite the rule IDs listed above.`;
+}
+
+/**
+ * Build the user prompt for a file scan, with numbered lines for reference
+ * When scanning one chunk of a larger file, `chunk` gives the file line number of the
+ * chunk's first line and the file's total line count
+ */
+export function buildScanPrompt(
+  input: ScanInput,
+  chunk?: { startLine: number; totalLines: number }
+): string {
+  const lines = input.code.split('\n');
+  const startLine = chunk?.startLine ?? 1;
+  const endLine = startLine + lines.length - 1;
+  const numberedCode = lines.map((line, i) => `${startLine + i}: ${line}`).join('\n');
+
+  let prompt = '';
+
+  if (input.fileName) {
+    prompt += `File: ${input.fileName}\n`;
+  }
+
+  prompt += `Language: ${input.language}\n`;
+
+  if (chunk) {
+    prompt += `Lines: ${startLine}-${endLine} of ${chunk.totalLines} (this is one part of a larger file; `;
+    prompt += 'only report issues within these lines)\n\n';
+  } else {
+    prompt += `Lines: 1-${lines.length}\n\n`;
+  }
+
+  prompt += `\`\`\`${input.language}\n${numberedCode}\n\`\`\`\n\n`;
+  prompt += 'Find all issues in this file and respond with the JSON object.';
 
   return prompt;
 }
 
 /**
- * Get the system prompt
+ * Build the follow-up prompt asking the model to correct an invalid scan response
+ */
+export function buildScanRetryPrompt(errors: string[]): string {
+  return 'Your response did not match the required format:\n' +
+    errors.map((error) => `- ${error}`).join('\n') +
+    '\n\nRespond again with only the corrected JSON object.';
+}
+
+/**
+ * Get the system prompt of a review mode, with the team's rules compiled into it when given
  */
-export function getSystemPrompt(): string {
-  return SYSTEM_PROMPT;
+export function getSystemPrompt(rules: ReviewRule[] = [], mode: ReviewMode = 'general'): string {
+  const prompt = buildSystemPrompt(mode);
+  if (rules.length === 0) {
+    return prompt;
+  }
+
+  return `${prompt}
+
+The team that owns this code also requires it to follow these rules:
+${formatRules(rules)}
+
+Add a "findings" array to the JSON with one entry for every place the code breaks one of these rules:
+"findings": [{"ruleId": "ID of the rule", "message": "Where and how the code breaks it"}]
+Only cite the rule IDs listed above, and leave "findings" empty when no rule is broken.`;
+}
+
+/**
+ * Findings of a review response that cite one of the rules, with the rule's severity
+ */
+function parseFindings(findings: unknown, rules: ReviewRule[]): ReviewFinding[] {
+  if (!Array.isArray(findings)) {
+    return [];
+  }
+
+  return findings.flatMap((finding) => {
+    const rule = rules.find((r) => r.id === finding?.ruleId);
+    if (!rule || typeof finding.message !== 'string' || !finding.message.trim()) {
+      return [];
+    }
+    return [{ ruleId: rule.id, severity: rule.severity, message: finding.message }];
+  });
 }
 
 /**
  * Parse the AI response into structured output
+ * With team rules, the response's findings are kept when they cite one of them;
+ * the fields of the review mode are kept when they are valid
  */
-export function parseReviewResponse(response: string): {
+export function parseReviewResponse(response: string, rules: ReviewRule[] = [], mode: ReviewMode = 'general'): {
   explanation: string;
   suggestions: string[];
   diff?: string;
-} {
+  findings?: ReviewFinding[];
+} & ReviewModeFields {
   try {
     // Try to extract JSON from the response
     const jsonMatch = response.match(/\{[\s\S]*\}/);
@@ -83,6 +345,8 @@ export function parseReviewResponse(response: string): {
         explanation: parsed.explanation || 'No explanation provided.',
         suggestions: Array.isArray(parsed.suggestions) ? parsed.suggestions : [],
         diff: parsed.diff || undefined,
+        ...(rules.length > 0 && { findings: parseFindings(parsed.findings, rules) }),
+        ...readModeFields(parsed, mode),
       };
     }
   } catch {
@@ -95,6 +359,7 @@ export function parseReviewResponse(response: string): {
     explanation: response,
     suggestions: [],
     diff: undefined,
+    ...(rules.length > 0 && { findings: [] }),
   };
 }
 
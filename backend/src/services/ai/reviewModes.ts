@@ -0,0 +1,145 @@
+import { Ajv } from 'ajv';
+import { REVIEW_MODE_FIELDS, type ReviewMode, type ReviewModeField, type ReviewModeFields } from '@ai-code-review/shared';
+
+/**
+ * Prompt template of a review mode
+ */
+export interface ReviewModePrompt {
+  /** Opening of the review system prompt: who the reviewer is and what the review is for */
+  reviewer: string;
+  /** What reviews look for, most important first */
+  checklist: string[];
+  /** What scans look for */
+  scanFocus: string;
+}
+
+export const REVIEW_MODE_PROMPTS: Record<ReviewMode, ReviewModePrompt> = {
+  general: {
+    reviewer: 'You are an expert code reviewer. Your task is to analyze code and provide helpful, constructive feedback.',
+    checklist: [
+      'Identify potential bugs, errors, or issues',
+      'Suggest improvements for code quality, readability, and maintainability',
+      'Point out security vulnerabilities if any',
+      'Recommend best practices and design patterns',
+      'Provide clear explanations for your suggestions',
+    ],
+    scanFocus: 'bugs, security vulnerabilities, performance problems and maintainability issues',
+  },
+  security: {
+    reviewer: 'You are an application security auditor. Your task is to find vulnerabilities in code and explain how to fix them.',
+    checklist: [
+      'Trace untrusted input to where it is used: queries, commands, file paths, URLs, HTML and deserialization',
+      'Check authentication, authorization and session handling',
+      'Check secrets, randomness and the use of cryptography',
+      'Map every vulnerability to its CWE and its OWASP Top 10 2021 category',
+      'Explain how each vulnerability could be exploited and how to fix it',
+    ],
+    scanFocus: 'security vulnerabilities, such as those of the OWASP Top 10',
+  },
+  performance: {
+    reviewer: 'You are a performance engineer reviewing code. Your task is to find what makes it slow or wasteful and how to make it faster.',
+    checklist: [
+      'Find algorithms with needless time or space complexity, such as nested loops over the same data',
+      'Look for repeated work: calls, queries or allocations inside loops, and results that could be cached',
+      'Check I/O: N+1 queries, sequential awaits that could run in parallel, and blocking calls',
+      'Point out memory leaks and data that grows without bound',
+      'Estimate how each fix changes the time or space complexity',
+    ],
+    scanFocus: 'performance problems: needless complexity, repeated work, slow I/O and memory leaks',
+  },
+  readability: {
+    reviewer: 'You are a code reviewer focused on readability. Your task is to make code easier to read, understand and change.',
+    checklist: [
+      'Point out unclear names, long functions and deep nesting',
+      'Find duplicated code and logic that could be simpler',
+      'Check that comments explain why, and that none are outdated or misleading',
+      'Name each code smell you find, such as long method or feature envy',
+      'Suggest concrete rewrites that keep the behaviour the same',
+    ],
+    scanFocus: 'readability problems: unclear names, long functions, deep nesting, duplication and misleading comments',
+  },
+  tests: {
+    reviewer: 'You are a code reviewer analyzing test coverage. Your task is to find the behaviour of code that its tests are likely to miss.',
+    checklist: [
+      'List the branches, edge cases and error paths of the code',
+      'Point out inputs that need a test: empty, missing, boundary, invalid and concurrent ones',
+      'Check that the code can be tested, and suggest how to make it testable if not',
+      'Describe each missing test case by the behaviour it checks',
+      'Give example tests where you can',
+    ],
+    scanFocus: 'behaviour that needs tests: untested branches, edge cases and error paths, and code that is hard to test',
+  },
+  'api-design': {
+    reviewer: 'You are a code reviewer focused on API design. Your task is to review the interfaces code exposes to its callers.',
+    checklist: [
+      'Check the naming and consistency of functions, parameters and return values',
+      'Look for leaking internals, surprising side effects and unclear error handling',
+      'Check that the API is hard to misuse: types, defaults, required parameters and validation',
+      'Point out changes that break existing callers',
+      'Suggest how to evolve the API without breaking callers',
+    ],
+    scanFocus: 'API design problems: unclear or inconsistent interfaces, leaking internals, poor error handling and breaking changes',
+  },
+};
+
+/**
+ * How each mode field is asked for in the JSON of a prompt, and the schema its value must match
+ */
+const FIELD_PROMPTS: Record<ReviewModeField, { value: string; schema: object }> = {
+  cwe: {
+    value: '["CWE ID of each weakness, such as CWE-89"]',
+    schema: { type: 'array', items: { type: 'string', pattern: '^CWE-\\d+$' } },
+  },
+  owasp: {
+    value: '["OWASP Top 10 2021 category of each weakness, such as A03:2021-Injection"]',
+    schema: { type: 'array', items: { type: 'string', minLength: 1 } },
+  },
+  complexityImpact: {
+    value: '"How the fix changes the time or space complexity, such as O(n^2) -> O(n)"',
+    schema: { type: 'string', minLength: 1 },
+  },
+  smells: {
+    value: '["Name of each code smell, such as long method"]',
+    schema: { type: 'array', items: { type: 'string', minLength: 1 } },
+  },
+  missingTests: {
+    value: '["Each missing test case, described by the behaviour it checks"]',
+    schema: { type: 'array', items: { type: 'string', minLength: 1 } },
+  },
+  breakingChange: {
+    value: 'true if existing callers have to change, otherwise false',
+    schema: { type: 'boolean' },
+  },
+};
+
+/**
+ * Lines of the mode's fields for the JSON structure of a prompt, indented by `indent`
+ */
+export function formatModeFieldPrompts(mode: ReviewMode, indent: string): string[] {
+  return REVIEW_MODE_FIELDS[mode].map(field => `${indent}"${field}": ${FIELD_PROMPTS[field].value}`);
+}
+
+/**
+ * JSON schemas of the mode's fields, for the schema of scan issues
+ */
+export function modeFieldSchemas(mode: ReviewMode): Record<string, object> {
+  return Object.fromEntries(REVIEW_MODE_FIELDS[mode].map(field => [field, FIELD_PROMPTS[field].schema]));
+}
+
+const ajv = new Ajv();
+const validators = new Map(
+  (Object.keys(FIELD_PROMPTS) as ReviewModeField[]).map(field => [field, ajv.compile(FIELD_PROMPTS[field].schema)])
+);
+
+/**
+ * The mode's fields of a parsed response that match their schema; others are left out
+ */
+export function readModeFields(parsed: Record<string, unknown>, mode: ReviewMode): ReviewModeFields {
+  const fields: Record<string, unknown> = {};
+  for (const field of REVIEW_MODE_FIELDS[mode]) {
+    if (parsed[field] !== undefined && validators.get(field)!(parsed[field])) {
+      fields[field] = parsed[field];
+    }
+  }
+  return fields as ReviewModeFields;
+}
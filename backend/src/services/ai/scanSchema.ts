@@ -0,0 +1,168 @@
+import { Ajv, ErrorObject, ValidateFunction } from 'ajv';
+import { ScanIssue, ReviewRule, ReviewMode, SCAN_SEVERITIES, SCAN_CATEGORIES } from './types.js';
+import { modeFieldSchemas, readModeFields } from './reviewModes.js';
+
+/**
+ * JSON schema of the scan response requested from the model in a mode
+ */
+export function scanResponseSchema(mode: ReviewMode) {
+  return {
+    type: 'object',
+    required: ['issues'],
+    properties: {
+      issues: {
+        type: 'array',
+        items: {
+          type: 'object',
+          required: ['startLine', 'endLine', 'severity', 'category', 'message', 'fix'],
+          properties: {
+            startLine: { type: 'integer', minimum: 1 },
+            endLine: { type: 'integer', minimum: 1 },
+            severity: { enum: [...SCAN_SEVERITIES] },
+            category: { enum: [...SCAN_CATEGORIES] },
+            message: { type: 'string', minLength: 1 },
+            fix: { type: 'string' },
+            diff: { type: 'string' },
+            ruleId: { type: ['string', 'null'] },
+            ...modeFieldSchemas(mode),
+          },
+        },
+      },
+    },
+  };
+}
+
+/**
+ * JSON schema of the scan response of a general scan
+ */
+export const SCAN_RESPONSE_SCHEMA = scanResponseSchema('general');
+
+type ScanResponse = { issues: Array<Omit<ScanIssue, 'ruleId'> & { ruleId?: string | null }> };
+
+const ajv = new Ajv({ allErrors: true });
+const validators = new Map<ReviewMode, ValidateFunction<ScanResponse>>();
+
+/**
+ * Validator of the scan response of a mode, compiled on first use
+ */
+function getValidator(mode: ReviewMode): ValidateFunction<ScanResponse> {
+  let validate = validators.get(mode);
+  if (!validate) {
+    validate = ajv.compile<ScanResponse>(scanResponseSchema(mode));
+    validators.set(mode, validate);
+  }
+  return validate;
+}
+
+/**
+ * Result of parsing a scan response
+ */
+export interface ParsedScanResponse {
+  /** Whether the response matched the schema */
+  valid: boolean;
+  /** Issues that matched the schema and lie within the file */
+  issues: ScanIssue[];
+  /** Problems found in the response, suitable for asking the model to correct them */
+  errors: string[];
+}
+
+function formatSchemaError(error: ErrorObject): string {
+  const path = error.instancePath ? error.instancePath.slice(1) : 'response';
+  const allowed = error.params.allowedValues as string[] | undefined;
+  return `${path} ${error.message}${allowed ? ` (${allowed.join(', ')})` : ''}`;
+}
+
+/**
+ * Parse and validate a scan response against the schema and the scanned lines
+ * Issues whose line range lies outside `firstLine`-`lastLine` are rejected and reported as errors
+ * Issues citing one of the team `rules` take the rule's severity; citing any other rule is an error,
+ * and the issue is kept without it. Issues keep the output fields of the scan's `mode`
+ */
+export function parseScanResponse(
+  response: string,
+  lastLine: number,
+  firstLine: number = 1,
+  rules: ReviewRule[] = [],
+  mode: ReviewMode = 'general'
+): ParsedScanResponse {
+  const jsonMatch = response.match(/\{[\s\S]*\}/);
+  if (!jsonMatch) {
+    return { valid: false, issues: [], errors: ['response does not contain a JSON object'] };
+  }
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(jsonMatch[0]);
+  } catch (error) {
+    return { valid: false, issues: [], errors: [`response is not valid JSON: ${(error as Error).message}`] };
+  }
+
+  const validate = getValidator(mode);
+  if (!validate(parsed)) {
+    return { valid: false, issues: [], errors: (validate.errors || []).map(formatSchemaError) };
+  }
+
+  const issues: ScanIssue[] = [];
+  const errors: string[] = [];
+
+  parsed.issues.forEach((issue, index) => {
+    if (issue.startLine > issue.endLine || issue.startLine < firstLine || issue.endLine > lastLine) {
+      errors.push(
+        `issues/${index} lines ${issue.startLine}-${issue.endLine} are outside the scanned lines ${firstLine}-${lastLine}`
+      );
+      return;
+    }
+
+    const rule = issue.ruleId ? rules.find(r => r.id === issue.ruleId) : undefined;
+    if (issue.ruleId && !rule) {
+      errors.push(`issues/${index} ruleId "${issue.ruleId}" is not one of the team rules`);
+    }
+
+    issues.push({
+      startLine: issue.startLine,
+      endLine: issue.endLine,
+      severity: rule?.severity ?? issue.severity,
+      category: issue.category,
+      message: issue.message,
+      fix: issue.fix,
+      ...(issue.diff && { diff: issue.diff }),
+      ...(rule && { ruleId: rule.id }),
+      ...readModeFields(issue, mode),
+    });
+  });
+
+  return { valid: true, issues, errors };
+}
+
+/**
+ * Whether two findings describe the same problem
+ */
+function isSameIssue(a: ScanIssue, b: ScanIssue): boolean {
+  const normalize = (message: string) => message.toLowerCase().replace(/\W+/g, ' ').trim();
+  const sameRange = a.startLine === b.startLine && a.endLine === b.endLine;
+  const overlapping = a.startLine <= b.endLine && b.startLine <= a.endLine;
+
+  return (sameRange && a.category === b.category) ||
+    (overlapping && normalize(a.message) === normalize(b.message));
+}
+
+/**
+ * Merge the findings of overlapping chunk scans
+ * A finding reported again by a later chunk (from the overlapping lines) is dropped
+ */
+export function mergeScanIssues(chunkIssues: ScanIssue[][]): ScanIssue[] {
+  const merged: Array<{ issue: ScanIssue; chunk: number }> = [];
+
+  chunkIssues.forEach((issues, chunk) => {
+    for (const issue of issues) {
+      const duplicate = merged.some((existing) => existing.chunk !== chunk && isSameIssue(existing.issue, issue));
+      if (!duplicate) {
+        merged.push({ issue, chunk });
+      }
+    }
+  });
+
+  return merged
+    .map(({ issue }) => issue)
+    .sort((a, b) => a.startLine - b.startLine || a.endLine - b.endLine);
+}
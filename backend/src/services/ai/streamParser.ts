@@ -0,0 +1,209 @@
+import { ReviewStreamEvent, ReviewRule, ReviewMode } from './types.js';
+import { parseReviewResponse } from './promptBuilder.js';
+
+const JSON_ESCAPES: Record<string, string> = {
+  '"': '"',
+  '\\': '\\',
+  '/': '/',
+  b: '\b',
+  f: '\f',
+  n: '\n',
+  r: '\r',
+  t: '\t',
+};
+
+/**
+ * Decode a (possibly unterminated) JSON string literal starting at the opening quote
+ * Stops before an incomplete escape sequence so it can be completed by a later chunk
+ */
+function readJsonString(
+  text: string,
+  start: number
+): { value: string; end: number; complete: boolean } {
+  let value = '';
+  let i = start + 1;
+
+  while (i < text.length) {
+    const ch = text[i];
+
+    if (ch === '"') {
+      return { value, end: i + 1, complete: true };
+    }
+
+    if (ch === '\\') {
+      if (i + 1 >= text.length) break;
+      const next = text[i + 1];
+
+      if (next === 'u') {
+        if (i + 6 > text.length) break;
+        value += String.fromCharCode(parseInt(text.slice(i + 2, i + 6), 16));
+        i += 6;
+        continue;
+      }
+
+      value += JSON_ESCAPES[next] ?? next;
+      i += 2;
+      continue;
+    }
+
+    value += ch;
+    i++;
+  }
+
+  return { value, end: i, complete: false };
+}
+
+/**
+ * Incrementally extracts review fields from a streamed JSON completion
+ * The model is asked for `{ explanation, suggestions, diff }`; explanation text is
+ * emitted as it arrives and each suggestion once its string is complete
+ */
+export class ReviewStreamParser {
+  private buffer = '';
+  private streamedExplanation = '';
+  private suggestionsSent = 0;
+
+  /**
+   * Add a chunk of the completion and return any new events
+   */
+  push(chunk: string): ReviewStreamEvent[] {
+    this.buffer += chunk;
+    const events: ReviewStreamEvent[] = [];
+
+    const explanation = this.readStringField('explanation');
+    if (explanation && explanation.length > this.streamedExplanation.length) {
+      events.push({ type: 'explanation', delta: explanation.slice(this.streamedExplanation.length) });
+      this.streamedExplanation = explanation;
+    }
+
+    const suggestions = this.readSuggestions();
+    while (this.suggestionsSent < suggestions.length) {
+      events.push({
+        type: 'suggestion',
+        index: this.suggestionsSent,
+        text: suggestions[this.suggestionsSent],
+      });
+      this.suggestionsSent++;
+    }
+
+    return events;
+  }
+
+  /**
+   * Parse the complete response and return the remaining events
+   * Falls back to plain text when the model did not answer with JSON
+   * Findings are only parsed for the given team rules, and mode fields for the given mode
+   */
+  finish(
+    rules: ReviewRule[] = [],
+    mode: ReviewMode = 'general'
+  ): { events: ReviewStreamEvent[]; review: ReturnType<typeof parseReviewResponse> } {
+    const review = parseReviewResponse(this.buffer, rules, mode);
+    const events: ReviewStreamEvent[] = [];
+
+    if (
+      review.explanation.length > this.streamedExplanation.length &&
+      review.explanation.startsWith(this.streamedExplanation)
+    ) {
+      events.push({ type: 'explanation', delta: review.explanation.slice(this.streamedExplanation.length) });
+    }
+
+    for (let index = this.suggestionsSent; index < review.suggestions.length; index++) {
+      events.push({ type: 'suggestion', index, text: review.suggestions[index] });
+    }
+
+    if (review.diff) {
+      events.push({ type: 'diff', diff: review.diff });
+    }
+
+    return { events, review };
+  }
+
+  /**
+   * Read the (partial) value of a top-level string field
+   */
+  private readStringField(key: string): string | null {
+    const match = new RegExp(`"${key}"\\s*:\\s*"`).exec(this.buffer);
+    if (!match) {
+      return null;
+    }
+
+    return readJsonString(this.buffer, match.index + match[0].length - 1).value;
+  }
+
+  /**
+   * Read the complete strings of the suggestions array seen so far
+   */
+  private readSuggestions(): string[] {
+    const match = /"suggestions"\s*:\s*\[/.exec(this.buffer);
+    if (!match) {
+      return [];
+    }
+
+    const suggestions: string[] = [];
+    let i = match.index + match[0].length;
+
+    while (i < this.buffer.length) {
+      const ch = this.buffer[i];
+
+      if (ch === ']') break;
+      if (ch === ',' || /\s/.test(ch)) {
+        i++;
+        continue;
+      }
+      if (ch !== '"') break;
+
+      const result = readJsonString(this.buffer, i);
+      if (!result.complete) break;
+
+      suggestions.push(result.value);
+      i = result.end;
+    }
+
+    return suggestions;
+  }
+}
+
+/**
+ * Parse a Server-Sent Events response body into `{ event, data }` messages
+ */
+export async function* parseServerSentEvents(
+  body: ReadableStream<Uint8Array>
+): AsyncGenerator<{ event?: string; data: string }> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+
+      buffer += decoder.decode(value, { stream: true });
+
+      let separator = buffer.search(/\r?\n\r?\n/);
+      while (separator !== -1) {
+        const block = buffer.slice(0, separator);
+        buffer = buffer.slice(separator).replace(/^\r?\n\r?\n/, '');
+
+        let event: string | undefined;
+        const data: string[] = [];
+        for (const line of block.split(/\r?\n/)) {
+          if (line.startsWith('event:')) {
+            event = line.slice(6).trim();
+          } else if (line.startsWith('data:')) {
+            data.push(line.slice(5).replace(/^ /, ''));
+          }
+        }
+
+        if (data.length > 0) {
+          yield { event, data: data.join('\n') };
+        }
+
+        separator = buffer.search(/\r?\n\r?\n/);
+      }
+    }
+  } finally {
+    reader.releaseLock();
+  }
+}
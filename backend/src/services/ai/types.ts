@@ -1,3 +1,22 @@
+import type { ReviewMode, ReviewModeFields } from '@ai-code-review/shared';
+
+export { REVIEW_MODES, type ReviewMode, type ReviewModeFields } from '@ai-code-review/shared';
+
+/**
+ * Supported AI providers
+ */
+export const AI_PROVIDERS = ['openai', 'anthropic', 'openrouter', 'local'] as const;
+
+export type AIProvider = (typeof AI_PROVIDERS)[number];
+
+/**
+ * A chat message sent to the model; earlier thread comments are passed as these turns
+ */
+export interface ConversationTurn {
+  role: 'user' | 'assistant';
+  content: string;
+}
+
 /**
  * Input for AI code review
  */
@@ -18,24 +37,153 @@ export interface ReviewInput {
     content: string;
     language: string;
   }>;
+  /** Optional earlier comments of the thread, oldest first, for follow-up questions */
+  history?: ConversationTurn[];
+  /**
+   * Optional whole file the selection belongs to
+   * When given, `codeContext` is rebuilt from the file to fit the model's context window
+   */
+  file?: {
+    content: string;
+    /** First selected line (1-based) */
+    startLine: number;
+    /** Last selected line (1-based, inclusive) */
+    endLine: number;
+  };
+  /**
+   * Optional diff hunk the selection belongs to, when reviewing a change
+   * `file` is then the version on `side`, and only the lines around the hunk are sent
+   */
+  hunk?: {
+    /** The hunk as a unified diff */
+    diff: string;
+    /** Side of the diff the selection is on: the old (base) or new (head) version */
+    side: 'old' | 'new';
+  };
+  /** Optional team rules the code is checked against; findings cite the rule they break */
+  rules?: ReviewRule[];
+  /** What the review concentrates on, and which mode fields it adds (general by default) */
+  mode?: ReviewMode;
 }
 
 /**
- * Output from AI code review
+ * A team rule the reviewer enforces, such as a style rule, a banned API or an architectural convention
  */
-export interface ReviewOutput {
+export interface ReviewRule {
+  /** Short identifier findings cite, such as `no-moment` */
+  id: string;
+  description: string;
+  severity: ScanSeverity;
+  /** Optional code showing what the rule forbids or asks for */
+  example?: string | null;
+}
+
+/**
+ * A place where the reviewed code breaks a team rule
+ */
+export interface ReviewFinding {
+  ruleId: string;
+  /** Severity of the rule */
+  severity: ScanSeverity;
+  /** Where and how the code breaks the rule */
+  message: string;
+}
+
+/**
+ * Output from AI code review, with the output fields of the review's mode
+ */
+export interface ReviewOutput extends ReviewModeFields {
   /** Explanation of the code and any issues found */
   explanation: string;
   /** List of suggestions for improvement */
   suggestions: string[];
   /** GitHub-style diff suggestion (optional) */
   diff?: string;
+  /** Team rules the code breaks (when `rules` were given) */
+  findings?: ReviewFinding[];
   /** Confidence score (0-1) */
   confidence?: number;
   /** Provider that generated the response */
   provider: string;
   /** Model used */
   model: string;
+  /** First file line included in the context sent to the model (when `file` was given) */
+  contextStartLine?: number;
+  /** Last file line included in the context sent to the model (when `file` was given) */
+  contextEndLine?: number;
+  /** Whether the file context had to be cut to fit the model (when `file` was given) */
+  wasTruncated?: boolean;
+  /** Names of the additional files that fit in the prompt (when `additionalFiles` was given) */
+  contextFiles?: string[];
+}
+
+/**
+ * Event emitted while a review is streamed
+ */
+export type ReviewStreamEvent =
+  /** A chunk of the explanation text */
+  | { type: 'explanation'; delta: string }
+  /** A complete suggestion */
+  | { type: 'suggestion'; index: number; text: string }
+  /** The complete diff suggestion */
+  | { type: 'diff'; diff: string }
+  /** The finished review */
+  | { type: 'done'; review: ReviewOutput };
+
+/**
+ * Severities and categories of scan findings
+ */
+export const SCAN_SEVERITIES = ['error', 'warning', 'info'] as const;
+export const SCAN_CATEGORIES = ['bug', 'security', 'performance', 'maintainability', 'style'] as const;
+
+export type ScanSeverity = (typeof SCAN_SEVERITIES)[number];
+export type ScanCategory = (typeof SCAN_CATEGORIES)[number];
+
+/**
+ * Input for an AI scan of a whole file
+ */
+export interface ScanInput {
+  /** The file content */
+  code: string;
+  /** Programming language */
+  language: string;
+  /** Optional file name for additional context */
+  fileName?: string;
+  /** Optional team rules the code is checked against */
+  rules?: ReviewRule[];
+  /** What the scan looks for, and which mode fields its issues have (general by default) */
+  mode?: ReviewMode;
+}
+
+/**
+ * Issue found by an AI scan, with the output fields of the scan's mode
+ */
+export interface ScanIssue extends ReviewModeFields {
+  /** First line of the issue (1-based) */
+  startLine: number;
+  /** Last line of the issue (1-based, inclusive) */
+  endLine: number;
+  severity: ScanSeverity;
+  category: ScanCategory;
+  /** Description of the problem */
+  message: string;
+  /** How to fix it */
+  fix: string;
+  /** Optional GitHub-style diff of the fix */
+  diff?: string;
+  /** Team rule the issue breaks, if it breaks one */
+  ruleId?: string;
+}
+
+/**
+ * Output from an AI scan
+ */
+export interface ScanOutput {
+  issues: ScanIssue[];
+  /** Provider that generated the response */
+  provider: string;
+  /** Model used */
+  model: string;
 }
 
 /**
@@ -48,6 +196,8 @@ export interface AIProviderConfig {
   apiKey?: string;
   /** Model to use */
   model: string;
+  /** Base URL of the provider API (for proxies, local endpoints and test stubs) */
+  baseUrl?: string;
   /** Maximum tokens for response */
   maxTokens?: number;
   /** Temperature for response generation */
@@ -69,6 +219,16 @@ export interface IAIService {
    * Generate a code review
    */
   review(input: ReviewInput): Promise<ReviewOutput>;
+
+  /**
+   * Generate a code review, emitting partial results as they arrive
+   */
+  reviewStream?(input: ReviewInput): AsyncIterable<ReviewStreamEvent>;
+
+  /**
+   * Scan a whole file for issues
+   */
+  scan(input: ScanInput): Promise<ScanOutput>;
   
   /**
    * Check if the service is available/configured
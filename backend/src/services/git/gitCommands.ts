@@ -0,0 +1,273 @@
+import { execFile } from 'child_process';
+import { promisify } from 'util';
+import { lstat, readFile, realpath } from 'fs/promises';
+import { join, sep } from 'path';
+
+const execFileAsync = promisify(execFile);
+
+/** Files larger than this are listed but not read */
+export const MAX_FILE_BYTES = 1024 * 1024;
+
+const GIT_TIMEOUT_MS = 60_000;
+
+/**
+ * A file of a repository at some version
+ */
+export interface RepositoryFile {
+  path: string;
+  size: number;
+}
+
+export interface RepositoryRefs {
+  /** Branch checked out in the working tree, null when HEAD is detached or the repository is bare */
+  currentBranch: string | null;
+  /** Commit HEAD points at, null before the first commit */
+  head: string | null;
+  branches: string[];
+  tags: string[];
+}
+
+/**
+ * A file that differs between two versions of a repository
+ */
+export interface ChangedFile {
+  /** Path in the head version, or in the base version for deleted files */
+  path: string;
+  /** Path in the base version of a renamed or copied file */
+  oldPath?: string;
+  status: 'added' | 'modified' | 'deleted' | 'renamed' | 'copied';
+}
+
+const CHANGE_STATUSES: Record<string, ChangedFile['status']> = {
+  A: 'added',
+  M: 'modified',
+  T: 'modified',
+  D: 'deleted',
+  R: 'renamed',
+  C: 'copied',
+};
+
+/**
+ * Contents of a file, or why it was not read
+ */
+export type FileContent =
+  | { path: string; content: string }
+  | { path: string; skipped: 'binary' | 'too-large' | 'missing' };
+
+/**
+ * Run git in a repository and return its standard output
+ * Git never prompts; a non-zero exit rejects with git's error message
+ */
+export async function runGit(cwd: string, args: string[]): Promise<Buffer> {
+  try {
+    const { stdout } = await execFileAsync('git', args, {
+      cwd,
+      encoding: 'buffer',
+      maxBuffer: 64 * 1024 * 1024,
+      timeout: GIT_TIMEOUT_MS,
+      env: { ...process.env, GIT_TERMINAL_PROMPT: '0' },
+    });
+    return stdout;
+  } catch (error) {
+    const stderr = (error as { stderr?: Buffer }).stderr?.toString().trim();
+    throw new Error(stderr || (error as Error).message);
+  }
+}
+
+async function runGitText(cwd: string, args: string[]): Promise<string> {
+  return (await runGit(cwd, args)).toString('utf8').trim();
+}
+
+/**
+ * Find the repository a directory belongs to
+ * Returns its top-level directory (the git directory for bare repositories) and its git
+ * directory, which a `.git` file can place elsewhere, or null if the directory is not in a repository
+ */
+export async function findRepository(
+  path: string
+): Promise<{ root: string; gitDir: string; bare: boolean } | null> {
+  let bare: boolean;
+  try {
+    bare = (await runGitText(path, ['rev-parse', '--is-bare-repository'])) === 'true';
+  } catch {
+    return null;
+  }
+
+  const gitDir = await runGitText(path, ['rev-parse', '--absolute-git-dir']);
+  const root = bare ? gitDir : await runGitText(path, ['rev-parse', '--show-toplevel']);
+  return { root, gitDir, bare };
+}
+
+/**
+ * Resolve a branch, tag or commit to a full commit SHA
+ * Returns null if the ref does not name a commit
+ */
+export async function resolveCommit(root: string, ref: string): Promise<string | null> {
+  try {
+    return await runGitText(root, ['rev-parse', '--verify', '--quiet', `${ref}^{commit}`]);
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Get the branches and tags of a repository
+ */
+export async function listRefs(root: string, bare: boolean): Promise<RepositoryRefs> {
+  const output = await runGitText(root, [
+    'for-each-ref',
+    '--format=%(refname)',
+    'refs/heads',
+    'refs/tags',
+  ]);
+  const refs = output ? output.split('\n') : [];
+
+  let currentBranch: string | null = null;
+  if (!bare) {
+    try {
+      currentBranch = await runGitText(root, ['symbolic-ref', '--quiet', '--short', 'HEAD']);
+    } catch {
+      // Detached HEAD
+    }
+  }
+
+  return {
+    currentBranch,
+    head: await resolveCommit(root, 'HEAD'),
+    branches: refs.filter(ref => ref.startsWith('refs/heads/')).map(ref => ref.slice('refs/heads/'.length)),
+    tags: refs.filter(ref => ref.startsWith('refs/tags/')).map(ref => ref.slice('refs/tags/'.length)),
+  };
+}
+
+/**
+ * List the files of a commit
+ * Submodules and symbolic links are left out
+ */
+export async function listCommitFiles(root: string, commit: string): Promise<RepositoryFile[]> {
+  const output = (await runGit(root, ['ls-tree', '-r', '-z', '--long', commit])).toString('utf8');
+
+  const files: RepositoryFile[] = [];
+  for (const entry of output.split('\0')) {
+    // <mode> <type> <object> <size>\t<path>
+    const match = /^(\d+) (\w+) [0-9a-f]+ +(\d+|-)\t(.+)$/s.exec(entry);
+    if (match && match[2] === 'blob' && match[1] !== '120000') {
+      files.push({ path: match[4], size: Number(match[3]) });
+    }
+  }
+  return files;
+}
+
+/**
+ * Size of a regular file of a working tree, or null when it is missing, a symbolic
+ * link, or reached through a symbolic link that leads out of the working tree
+ * Links could otherwise expose files outside the allowed repository roots
+ */
+async function getWorkingTreeFileSize(root: string, path: string): Promise<number | null> {
+  const fullPath = join(root, path);
+  try {
+    const info = await lstat(fullPath);
+    if (!info.isFile()) {
+      return null;
+    }
+    const realRoot = await realpath(root);
+    return (await realpath(fullPath)).startsWith(realRoot + sep) ? info.size : null;
+  } catch {
+    // Deleted but not yet staged
+    return null;
+  }
+}
+
+/**
+ * List the files of a working tree: tracked files that still exist and untracked
+ * files that are not ignored
+ * Symbolic links are left out, as they are for commits
+ */
+export async function listWorkingTreeFiles(root: string): Promise<RepositoryFile[]> {
+  const output = (
+    await runGit(root, ['ls-files', '-z', '--cached', '--others', '--exclude-standard', '--deduplicate'])
+  ).toString('utf8');
+
+  const files: RepositoryFile[] = [];
+  for (const path of output.split('\0').filter(Boolean)) {
+    const size = await getWorkingTreeFileSize(root, path);
+    if (size !== null) {
+      files.push({ path, size });
+    }
+  }
+  return files;
+}
+
+/**
+ * List the files that differ between a base commit and a head commit, or the
+ * working tree when `head` is null (including untracked files that are not ignored)
+ */
+export async function listChangedFiles(root: string, base: string, head: string | null): Promise<ChangedFile[]> {
+  const args = ['diff', '--name-status', '-z', '--find-renames', '--no-ext-diff', base];
+  if (head) {
+    args.push(head);
+  }
+  const fields = (await runGit(root, [...args, '--'])).toString('utf8').split('\0');
+
+  const files: ChangedFile[] = [];
+  // <status>\0<path>\0, with a second path for renames and copies
+  for (let i = 0; i + 1 < fields.length; ) {
+    const status = CHANGE_STATUSES[fields[i][0]];
+    if (status === 'renamed' || status === 'copied') {
+      files.push({ path: fields[i + 2], oldPath: fields[i + 1], status });
+      i += 3;
+    } else {
+      if (status) {
+        files.push({ path: fields[i + 1], status });
+      }
+      i += 2;
+    }
+  }
+
+  if (!head) {
+    const untracked = (await runGit(root, ['ls-files', '-z', '--others', '--exclude-standard'])).toString('utf8');
+    for (const path of untracked.split('\0').filter(Boolean)) {
+      files.push({ path, status: 'added' });
+    }
+  }
+
+  return files;
+}
+
+function toFileContent(path: string, data: Buffer): FileContent {
+  if (data.length > MAX_FILE_BYTES) {
+    return { path, skipped: 'too-large' };
+  }
+  // Text files do not contain NUL bytes; git uses the same test
+  if (data.subarray(0, 8000).includes(0)) {
+    return { path, skipped: 'binary' };
+  }
+  return { path, content: data.toString('utf8') };
+}
+
+/**
+ * Read a file of a commit
+ */
+export async function readCommitFile(root: string, commit: string, file: RepositoryFile): Promise<FileContent> {
+  if (file.size > MAX_FILE_BYTES) {
+    return { path: file.path, skipped: 'too-large' };
+  }
+  return toFileContent(file.path, await runGit(root, ['cat-file', 'blob', `${commit}:${file.path}`]));
+}
+
+/**
+ * Read a file of a working tree
+ * The file is checked again, as it may have been replaced by a symbolic link since it was listed
+ */
+export async function readWorkingTreeFile(root: string, file: RepositoryFile): Promise<FileContent> {
+  if (file.size > MAX_FILE_BYTES) {
+    return { path: file.path, skipped: 'too-large' };
+  }
+  if ((await getWorkingTreeFileSize(root, file.path)) === null) {
+    return { path: file.path, skipped: 'missing' };
+  }
+  try {
+    return toFileContent(file.path, await readFile(join(root, file.path)));
+  } catch {
+    return { path: file.path, skipped: 'missing' };
+  }
+}
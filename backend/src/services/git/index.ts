@@ -0,0 +1,2 @@
+export * from './gitCommands.js';
+export * from './repositoryStore.js';
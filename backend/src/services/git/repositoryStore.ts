@@ -0,0 +1,237 @@
+import { execFile } from 'child_process';
+import { promisify } from 'util';
+import { mkdtemp, mkdir, readdir, realpath, rm, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import { basename, join, relative, resolve, isAbsolute } from 'path';
+import { v4 as uuidv4 } from 'uuid';
+import { findRepository, runGit } from './gitCommands.js';
+
+const execFileAsync = promisify(execFile);
+
+/** Uploaded repositories not used for this long are deleted */
+const UPLOAD_IDLE_MS = 60 * 60 * 1000;
+
+/**
+ * A repository a user opened for review
+ */
+export interface OpenedRepository {
+  id: string;
+  userId: string;
+  /** Shown to the user and recorded on threads: the path of a local repository or the name of an upload */
+  name: string;
+  /** Top-level directory, or the git directory of a bare repository */
+  root: string;
+  /** Uploaded repositories are bare clones; only their commits can be read */
+  workingTree: boolean;
+  /** Temporary directory holding an uploaded repository */
+  tempDir: string | null;
+  lastUsedAt: Date;
+}
+
+const repositories = new Map<string, OpenedRepository>();
+
+/**
+ * Directories local repositories may be opened from, from GIT_REPOSITORY_ROOTS
+ * (comma-separated). Without it, only uploaded repositories can be reviewed
+ */
+export function getRepositoryRoots(): string[] {
+  return (process.env.GIT_REPOSITORY_ROOTS || '')
+    .split(',')
+    .map(root => root.trim())
+    .filter(Boolean)
+    .map(root => resolve(root));
+}
+
+function isInside(path: string, directory: string): boolean {
+  const rel = relative(directory, path);
+  return rel === '' || (!rel.startsWith('..') && !isAbsolute(rel));
+}
+
+/**
+ * Check a path is inside one of the configured repository roots
+ * Symbolic links are followed, so they cannot point outside the roots
+ */
+export async function isAllowedPath(path: string): Promise<boolean> {
+  const roots = getRepositoryRoots();
+  if (roots.length === 0 || !isAbsolute(path)) {
+    return false;
+  }
+
+  try {
+    const real = await realpath(path);
+    const realRoots = await Promise.all(roots.map(root => realpath(root).catch(() => root)));
+    return realRoots.some(root => isInside(real, root));
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Delete uploaded repositories that have not been used for a while
+ */
+async function pruneIdleRepositories(): Promise<void> {
+  const cutoff = Date.now() - UPLOAD_IDLE_MS;
+  for (const repository of [...repositories.values()]) {
+    if (repository.tempDir && repository.lastUsedAt.getTime() < cutoff) {
+      await closeRepository(repository.userId, repository.id);
+    }
+  }
+}
+
+/**
+ * Open a local repository
+ * The path must be allowed by `isAllowedPath`. Returns null if it is not in a repository
+ */
+export async function openLocalRepository(userId: string, path: string): Promise<OpenedRepository | null> {
+  const found = await findRepository(await realpath(path));
+  if (!found || !(await isAllowedPath(found.root))) {
+    return null;
+  }
+
+  const existing = [...repositories.values()].find(r => r.userId === userId && r.root === found.root);
+  if (existing) {
+    existing.lastUsedAt = new Date();
+    return existing;
+  }
+
+  const repository: OpenedRepository = {
+    id: uuidv4(),
+    userId,
+    name: found.root,
+    root: found.root,
+    workingTree: !found.bare,
+    tempDir: null,
+    lastUsedAt: new Date(),
+  };
+  repositories.set(repository.id, repository);
+  return repository;
+}
+
+/**
+ * Check whether an extracted archive has a `.git` entry that is not a directory
+ * A `.git` file or link can point git at any repository on the server
+ */
+async function hasGitFile(directory: string): Promise<boolean> {
+  for (const entry of await readdir(directory, { withFileTypes: true })) {
+    if (entry.name === '.git' && !entry.isDirectory()) {
+      return true;
+    }
+    if (entry.isDirectory() && (await hasGitFile(join(directory, entry.name)))) {
+      return true;
+    }
+  }
+  return false;
+}
+
+/**
+ * Find the repository in an extracted archive: at its top level or in its only directory
+ * Both its top level and its git directory must be inside the archive
+ */
+async function findExtractedRepository(directory: string): Promise<string | null> {
+  if (await hasGitFile(directory)) {
+    return null;
+  }
+
+  const entries = await readdir(directory, { withFileTypes: true });
+  const candidates = [directory];
+  if (entries.length === 1 && entries[0].isDirectory()) {
+    candidates.push(join(directory, entries[0].name));
+  }
+
+  // Git reports real paths, and the temporary directory may be behind a link
+  const realDirectory = await realpath(directory);
+  for (const candidate of candidates) {
+    const found = await findRepository(candidate);
+    // Git looks for repositories in parent directories too
+    if (found && isInside(found.root, realDirectory) && isInside(found.gitDir, realDirectory)) {
+      return found.root;
+    }
+  }
+  return null;
+}
+
+/**
+ * Import an uploaded git bundle, or a tar archive (optionally compressed) of a repository
+ * The repository is cloned, so hooks and configuration in an archive are not used.
+ * Returns null if the upload does not contain a repository
+ */
+export async function importRepositoryArchive(
+  userId: string,
+  name: string,
+  data: Buffer
+): Promise<OpenedRepository | null> {
+  await pruneIdleRepositories();
+
+  const tempDir = await mkdtemp(join(tmpdir(), 'code-review-repo-'));
+  const archive = join(tempDir, 'upload');
+  const clone = join(tempDir, 'repository.git');
+
+  try {
+    await writeFile(archive, data);
+
+    let source: string | null = archive;
+    if (!/^# v[23] git bundle\n/.test(data.subarray(0, 20).toString('latin1'))) {
+      const extracted = join(tempDir, 'extracted');
+      await mkdir(extracted);
+      try {
+        await execFileAsync('tar', ['-xf', archive, '-C', extracted, '--no-same-owner', '--no-same-permissions']);
+      } catch {
+        await rm(tempDir, { recursive: true, force: true });
+        return null;
+      }
+      source = await findExtractedRepository(extracted);
+    }
+
+    if (!source) {
+      await rm(tempDir, { recursive: true, force: true });
+      return null;
+    }
+
+    await runGit(tempDir, ['clone', '--mirror', '--no-local', '--quiet', source, clone]);
+    await rm(archive, { force: true });
+    await rm(join(tempDir, 'extracted'), { recursive: true, force: true });
+  } catch (error) {
+    await rm(tempDir, { recursive: true, force: true });
+    throw error;
+  }
+
+  const repository: OpenedRepository = {
+    id: uuidv4(),
+    userId,
+    name: basename(name),
+    root: clone,
+    workingTree: false,
+    tempDir,
+    lastUsedAt: new Date(),
+  };
+  repositories.set(repository.id, repository);
+  return repository;
+}
+
+/**
+ * Get a repository the user opened
+ */
+export function getRepository(userId: string, id: string): OpenedRepository | null {
+  const repository = repositories.get(id);
+  if (!repository || repository.userId !== userId) {
+    return null;
+  }
+  repository.lastUsedAt = new Date();
+  return repository;
+}
+
+/**
+ * Close a repository the user opened, deleting it if it was uploaded
+ */
+export async function closeRepository(userId: string, id: string): Promise<boolean> {
+  const repository = getRepository(userId, id);
+  if (!repository) {
+    return false;
+  }
+
+  repositories.delete(id);
+  if (repository.tempDir) {
+    await rm(repository.tempDir, { recursive: true, force: true });
+  }
+  return true;
+}
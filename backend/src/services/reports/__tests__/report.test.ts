@@ -0,0 +1,113 @@
+import { describe, it, expect } from 'vitest';
+import { buildReviewReport, renderMarkdownReport, renderHtmlReport } from '../index.js';
+import type { Thread } from '../../../models/Thread.js';
+
+const GENERATED_AT = new Date('2024-05-01T12:00:00.000Z');
+
+const thread = (overrides: Partial<Thread> = {}): Thread => ({
+  id: '123e4567-e89b-12d3-a456-426614174000',
+  workspaceId: '923e4567-e89b-12d3-a456-426614174000',
+  file: 'src/calc.js',
+  startLine: 10,
+  endLine: 12,
+  selectedCode: 'multiply(a, b) {\n  return a + b;\n}',
+  source: null,
+  side: null,
+  baseRevision: null,
+  headRevision: null,
+  resolved: false,
+  createdAt: GENERATED_AT,
+  updatedAt: GENERATED_AT,
+  comments: [
+    { id: 'c1', threadId: 't', author: 'user', authorName: 'Ada', text: 'Is this right?', createdAt: GENERATED_AT },
+    {
+      id: 'c2',
+      threadId: 't',
+      author: 'ai',
+      text: 'It adds instead of multiplying.',
+      diff: '@@ -11,1 +11,1 @@\n-  return a + b;\n+  return a * b;',
+      createdAt: GENERATED_AT,
+    },
+  ],
+  ...overrides,
+});
+
+const scans = [
+  {
+    file: 'src/calc.js',
+    issues: [
+      { startLine: 20, endLine: 20, severity: 'warning' as const, category: 'bug' as const, message: 'No zero check', fix: 'Check b' },
+      { startLine: 2, endLine: 2, severity: 'error' as const, category: 'security' as const, message: 'Uses eval', fix: 'Remove it' },
+    ],
+  },
+];
+
+describe('buildReviewReport', () => {
+  it('groups threads by file with open threads first and counts them', () => {
+    const report = buildReviewReport(
+      'Review',
+      [
+        thread({ id: 'a', resolved: true, startLine: 1 }),
+        thread({ id: 'b', startLine: 30 }),
+        thread({ id: 'c', file: 'README.md' }),
+      ],
+      [],
+      GENERATED_AT
+    );
+
+    expect(report.totals).toEqual({ threads: 3, open: 2, resolved: 1, issues: { error: 0, warning: 0, info: 0 } });
+    expect(report.files.map(file => [file.file, file.threads.map(t => t.id)])).toEqual([
+      ['README.md', ['c']],
+      ['src/calc.js', ['b', 'a']],
+    ]);
+  });
+
+  it('groups scan issues by severity, most severe first', () => {
+    const report = buildReviewReport('Review', [], scans, GENERATED_AT);
+
+    expect(report.totals.issues).toEqual({ error: 1, warning: 1, info: 0 });
+    expect(report.files[0].issues.map(group => [group.severity, group.issues.map(issue => issue.message)])).toEqual([
+      ['error', ['Uses eval']],
+      ['warning', ['No zero check']],
+    ]);
+  });
+});
+
+describe('renderMarkdownReport', () => {
+  it('renders counts, code excerpts, comments and suggested diffs', () => {
+    const markdown = renderMarkdownReport(buildReviewReport('Code review: Team', [thread()], scans, GENERATED_AT));
+
+    expect(markdown).toContain('# Code review: Team');
+    expect(markdown).toContain('| 1 | 1 | 0 | 1 | 1 | 0 |');
+    expect(markdown).toContain('## src/calc.js');
+    expect(markdown).toContain('### Error issues (1)\n\n- **Line 2** (security): Uses eval\n  Fix: Remove it');
+    expect(markdown).toContain('#### Lines 10-12 · Open\n\n```js\nmultiply(a, b) {');
+    expect(markdown).toContain('**Ada** (2024-05-01T12:00:00.000Z):\n\n> Is this right?');
+    expect(markdown).toContain('Suggested change:\n\n```diff\n@@ -11,1 +11,1 @@\n-  return a + b;\n+  return a * b;\n```');
+  });
+
+  it('uses longer fences for code containing backticks', () => {
+    const markdown = renderMarkdownReport(
+      buildReviewReport('Review', [thread({ file: 'a.md', selectedCode: '```\ncode\n```', comments: [] })], [], GENERATED_AT)
+    );
+
+    expect(markdown).toContain('````md\n```\ncode\n```\n````');
+  });
+});
+
+describe('renderHtmlReport', () => {
+  it('renders a self-contained page with escaped content and marked diff lines', () => {
+    const html = renderHtmlReport(
+      buildReviewReport('Review <team>', [thread({ selectedCode: 'if (a < b) {}' })], scans, GENERATED_AT)
+    );
+
+    expect(html).toMatch(/^<!DOCTYPE html>/);
+    expect(html).toContain('<title>Review &lt;team&gt;</title>');
+    expect(html).toContain('<style>');
+    expect(html).not.toMatch(/<(link|script)\b/);
+    expect(html).toContain('if (a &lt; b) {}');
+    expect(html).toContain('<span class="removed">-  return a + b;</span><span class="added">+  return a * b;</span>');
+    expect(html).toContain('<span class="badge error">error</span> 1 issue');
+    expect(html).toContain('<td>1</td><td>1</td><td>0</td>');
+  });
+});
@@ -0,0 +1,129 @@
+import { describe, it, expect } from 'vitest';
+import { readSarifFindings } from '@ai-code-review/shared';
+import { createSarifLog } from '../sarif.js';
+import type { Thread } from '../../../models/Thread.js';
+
+const thread = (overrides: Partial<Thread> = {}): Thread => ({
+  id: '123e4567-e89b-12d3-a456-426614174000',
+  workspaceId: '923e4567-e89b-12d3-a456-426614174000',
+  file: 'src/app.ts',
+  startLine: 3,
+  endLine: 5,
+  selectedCode: 'const x = 1;',
+  source: null,
+  side: null,
+  baseRevision: null,
+  headRevision: null,
+  resolved: false,
+  createdAt: new Date(),
+  updatedAt: new Date(),
+  comments: [
+    { id: 'c1', threadId: 't', author: 'user', authorName: 'Ada', text: 'Why a constant?', createdAt: new Date() },
+    { id: 'c2', threadId: 't', author: 'ai', text: 'It never changes.', createdAt: new Date() },
+  ],
+  ...overrides,
+});
+
+describe('createSarifLog', () => {
+  it('exports unresolved threads as notes with their location and conversation', () => {
+    const log = createSarifLog([thread(), thread({ id: 'resolved', resolved: true })]);
+
+    expect(log.version).toBe('2.1.0');
+    const [run] = log.runs;
+    expect(run.tool.driver.rules?.map(rule => rule.id)).toEqual(['review-thread']);
+    expect(run.results).toHaveLength(1);
+    expect(run.results?.[0]).toMatchObject({
+      ruleId: 'review-thread',
+      ruleIndex: 0,
+      level: 'note',
+      guid: '123e4567-e89b-12d3-a456-426614174000',
+      message: { text: 'Ada: Why a constant?\n\nAI: It never changes.' },
+      locations: [
+        {
+          physicalLocation: {
+            artifactLocation: { uri: 'src/app.ts' },
+            region: { startLine: 3, endLine: 5, snippet: { text: 'const x = 1;' } },
+          },
+        },
+      ],
+    });
+  });
+
+  it('uses the repository path and commit of threads on imported files', () => {
+    const log = createSarifLog([
+      thread({ file: 'app.ts', source: { repository: 'project', commitSha: 'a'.repeat(40), path: 'src/my app.ts' } }),
+    ]);
+
+    const [result] = log.runs[0].results ?? [];
+    expect(result.locations?.[0].physicalLocation?.artifactLocation?.uri).toBe('src/my%20app.ts');
+    expect(result.properties).toEqual({ repository: 'project', commitSha: 'a'.repeat(40) });
+  });
+
+  it('exports scan issues with their severity as the level', () => {
+    const log = createSarifLog([], [
+      {
+        file: 'calc.js',
+        issues: [
+          { startLine: 1, endLine: 2, severity: 'error', category: 'bug', message: 'Wrong operator', fix: 'Use *' },
+          { startLine: 4, endLine: 4, severity: 'info', category: 'style', message: 'Long line', fix: 'Wrap it' },
+        ],
+      },
+    ]);
+
+    const [run] = log.runs;
+    expect(run.tool.driver.rules?.map(rule => rule.id)).toEqual(['scan/bug', 'scan/style']);
+    expect(run.results?.map(result => [result.ruleId, result.ruleIndex, result.level])).toEqual([
+      ['scan/bug', 0, 'error'],
+      ['scan/style', 1, 'note'],
+    ]);
+  });
+
+  it('reports issues that break a team rule under the rule', () => {
+    const log = createSarifLog([], [
+      {
+        file: 'calc.js',
+        issues: [
+          { startLine: 1, endLine: 1, severity: 'error', category: 'security', message: 'Calls eval', fix: '', ruleId: 'no-eval' },
+        ],
+      },
+    ]);
+
+    const [run] = log.runs;
+    expect(run.tool.driver.rules).toEqual([{ id: 'rule/no-eval', shortDescription: { text: 'Team rule: no-eval' } }]);
+    expect(run.results?.[0]).toMatchObject({ ruleId: 'rule/no-eval', properties: { category: 'security' } });
+  });
+
+  it('exports the fields of a scan\'s mode, with CWE IDs as tags', () => {
+    const log = createSarifLog([], [
+      {
+        file: 'db.js',
+        issues: [
+          {
+            startLine: 4,
+            endLine: 4,
+            severity: 'error',
+            category: 'security',
+            message: 'Builds SQL from user input',
+            fix: 'Use a parameterized query',
+            cwe: ['CWE-89'],
+            owasp: ['A03:2021-Injection'],
+          },
+        ],
+      },
+    ]);
+
+    expect(log.runs[0].results?.[0].properties).toMatchObject({
+      cwe: ['CWE-89'],
+      owasp: ['A03:2021-Injection'],
+      tags: ['external/cwe/cwe-89'],
+    });
+  });
+
+  it('can be read back as findings', () => {
+    const { findings } = readSarifFindings(JSON.parse(JSON.stringify(createSarifLog([thread()]))));
+
+    expect(findings).toEqual([
+      expect.objectContaining({ tool: 'AI Code Review Assistant', uri: 'src/app.ts', startLine: 3, endLine: 5 }),
+    ]);
+  });
+});
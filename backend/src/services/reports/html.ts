@@ -0,0 +1,125 @@
+import { formatModeFields } from '@ai-code-review/shared';
+import type { Thread } from '../../models/Thread.js';
+import type { ScanIssue } from '../ai/types.js';
+import { commentAuthor, type ReviewReport } from './report.js';
+
+const STYLES = `
+body { font-family: -apple-system, "Segoe UI", Helvetica, Arial, sans-serif; color: #1f2328; max-width: 960px; margin: 2rem auto; padding: 0 1rem; line-height: 1.5; }
+h1 { border-bottom: 1px solid #d0d7de; padding-bottom: .3rem; }
+h2 { margin-top: 2.5rem; font-family: ui-monospace, Consolas, monospace; font-size: 1.15rem; }
+table.totals { border-collapse: collapse; }
+table.totals th, table.totals td { border: 1px solid #d0d7de; padding: .3rem .8rem; text-align: center; }
+pre { background: #f6f8fa; border: 1px solid #d0d7de; border-radius: 6px; padding: .6rem; overflow-x: auto; font-size: .85rem; }
+.thread { border: 1px solid #d0d7de; border-radius: 6px; padding: .5rem 1rem; margin: 1rem 0; }
+.thread.resolved { opacity: .7; }
+.badge { display: inline-block; font-size: .75rem; padding: 0 .5rem; border-radius: 1rem; background: #ddf4ff; color: #0969da; }
+.badge.resolved, .badge.info { background: #dafbe1; color: #1a7f37; }
+.badge.error { background: #ffebe9; color: #cf222e; }
+.badge.warning { background: #fff8c5; color: #9a6700; }
+.comment { border-left: 3px solid #d0d7de; padding-left: .8rem; margin: .6rem 0; }
+.comment.ai { border-color: #1a7f37; }
+.comment p { white-space: pre-wrap; margin: .2rem 0; }
+.meta { color: #656d76; font-size: .8rem; }
+.diff span { display: block; }
+.diff .added { background: #dafbe1; }
+.diff .removed { background: #ffebe9; }
+.diff .hunk { color: #0969da; }
+`;
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+const lines = (start: number, end: number): string => (start === end ? `Line ${start}` : `Lines ${start}-${end}`);
+
+/**
+ * Render a unified diff with added, removed and hunk header lines marked
+ */
+function renderDiff(diff: string): string {
+  const rendered = diff.split('\n').map(line => {
+    const kind = line.startsWith('@@')
+      ? 'hunk'
+      : line.startsWith('+') && !line.startsWith('+++')
+        ? 'added'
+        : line.startsWith('-') && !line.startsWith('---')
+          ? 'removed'
+          : 'context';
+    return `<span class="${kind}">${escapeHtml(line) || ' '}</span>`;
+  });
+  return `<pre class="diff">${rendered.join('')}</pre>`;
+}
+
+function renderThread(thread: Thread): string {
+  const status = thread.resolved ? 'resolved' : 'open';
+  const comments = thread.comments.map(comment => `
+      <div class="comment ${comment.author}">
+        <div class="meta"><strong>${escapeHtml(commentAuthor(comment))}</strong> · ${comment.createdAt.toISOString()}</div>
+        <p>${escapeHtml(comment.text)}</p>
+        ${comment.diff ? `<div class="meta">Suggested change:</div>${renderDiff(comment.diff)}` : ''}
+      </div>`);
+
+  return `
+    <div class="thread ${status}">
+      <h4>${lines(thread.startLine, thread.endLine)} <span class="badge ${status}">${thread.resolved ? 'Resolved' : 'Open'}</span></h4>
+      <pre><code>${escapeHtml(thread.selectedCode)}</code></pre>
+      ${comments.join('')}
+    </div>`;
+}
+
+function renderIssue(issue: ScanIssue): string {
+  const kind = issue.ruleId ? `${issue.category}, rule ${issue.ruleId}` : issue.category;
+  return `
+      <li>
+        <strong>${lines(issue.startLine, issue.endLine)}</strong> (${escapeHtml(kind)}): ${escapeHtml(issue.message)}
+        ${issue.fix ? `<div class="meta">Fix: ${escapeHtml(issue.fix)}</div>` : ''}
+        ${formatModeFields(issue).map(line => `<div class="meta">${escapeHtml(line)}</div>`).join('')}
+        ${issue.diff ? renderDiff(issue.diff) : ''}
+      </li>`;
+}
+
+/**
+ * Render a review report as a self-contained HTML page: styles are inline and
+ * nothing is loaded from elsewhere
+ */
+export function renderHtmlReport(report: ReviewReport): string {
+  const { totals } = report;
+  const files = report.files.map(file => {
+    const open = file.threads.filter(thread => !thread.resolved).length;
+    const issueGroups = file.issues.map(group => `
+    <h3><span class="badge ${group.severity}">${group.severity}</span> ${group.issues.length} ${group.issues.length === 1 ? 'issue' : 'issues'}</h3>
+    <ul>${group.issues.map(renderIssue).join('')}
+    </ul>`);
+
+    return `
+  <section>
+    <h2>${escapeHtml(file.file)}</h2>${issueGroups.join('')}
+    ${file.threads.length > 0 ? `<h3>Threads (${open} open, ${file.threads.length - open} resolved)</h3>` : ''}
+    ${file.threads.map(renderThread).join('')}
+  </section>`;
+  });
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>${escapeHtml(report.title)}</title>
+<style>${STYLES}</style>
+</head>
+<body>
+  <h1>${escapeHtml(report.title)}</h1>
+  <p class="meta">Generated ${report.generatedAt.toISOString()}</p>
+  <table class="totals">
+    <tr><th>Threads</th><th>Open</th><th>Resolved</th><th>Errors</th><th>Warnings</th><th>Info</th></tr>
+    <tr><td>${totals.threads}</td><td>${totals.open}</td><td>${totals.resolved}</td><td>${totals.issues.error}</td><td>${totals.issues.warning}</td><td>${totals.issues.info}</td></tr>
+  </table>
+  ${report.files.length === 0 ? '<p>No threads or scan issues.</p>' : ''}${files.join('')}
+</body>
+</html>
+`;
+}
@@ -0,0 +1,4 @@
+export * from './sarif.js';
+export * from './report.js';
+export * from './markdown.js';
+export * from './html.js';
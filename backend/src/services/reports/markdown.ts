@@ -0,0 +1,83 @@
+import { formatModeFields } from '@ai-code-review/shared';
+import type { Thread } from '../../models/Thread.js';
+import type { ScanIssue } from '../ai/types.js';
+import { commentAuthor, excerptLanguage, type ReviewReport } from './report.js';
+
+/**
+ * Fence a block so backticks inside it cannot close it
+ */
+function fence(text: string, language = ''): string {
+  const longestRun = Math.max(2, ...(text.match(/`+/g) ?? []).map(run => run.length));
+  const marker = '`'.repeat(longestRun + 1);
+  return `${marker}${language}\n${text.replace(/\n$/, '')}\n${marker}`;
+}
+
+const quote = (text: string): string => text.split('\n').map(line => `> ${line}`.trimEnd()).join('\n');
+
+const lines = (start: number, end: number): string => (start === end ? `Line ${start}` : `Lines ${start}-${end}`);
+
+function renderThread(thread: Thread): string {
+  const parts = [
+    `#### ${lines(thread.startLine, thread.endLine)} · ${thread.resolved ? 'Resolved' : 'Open'}`,
+    fence(thread.selectedCode, excerptLanguage(thread.file)),
+  ];
+
+  for (const comment of thread.comments) {
+    parts.push(`**${commentAuthor(comment)}** (${comment.createdAt.toISOString()}):\n\n${quote(comment.text)}`);
+    if (comment.diff) {
+      parts.push(`Suggested change:\n\n${fence(comment.diff, 'diff')}`);
+    }
+  }
+
+  return parts.join('\n\n');
+}
+
+function renderIssue(issue: ScanIssue): string {
+  const kind = issue.ruleId ? `${issue.category}, rule ${issue.ruleId}` : issue.category;
+  const parts = [`- **${lines(issue.startLine, issue.endLine)}** (${kind}): ${issue.message}`];
+  if (issue.fix) {
+    parts.push(`  Fix: ${issue.fix}`);
+  }
+  parts.push(...formatModeFields(issue).map(line => `  ${line}`));
+  if (issue.diff) {
+    parts.push(fence(issue.diff, 'diff').replace(/^/gm, '  '));
+  }
+  return parts.join('\n');
+}
+
+/**
+ * Render a review report as Markdown
+ */
+export function renderMarkdownReport(report: ReviewReport): string {
+  const { totals } = report;
+  const sections = [
+    `# ${report.title}`,
+    `Generated ${report.generatedAt.toISOString()}`,
+    [
+      '| Threads | Open | Resolved | Errors | Warnings | Info |',
+      '|---|---|---|---|---|---|',
+      `| ${totals.threads} | ${totals.open} | ${totals.resolved} | ${totals.issues.error} | ${totals.issues.warning} | ${totals.issues.info} |`,
+    ].join('\n'),
+  ];
+
+  if (report.files.length === 0) {
+    sections.push('No threads or scan issues.');
+  }
+
+  for (const file of report.files) {
+    sections.push(`## ${file.file}`);
+
+    for (const group of file.issues) {
+      sections.push(`### ${group.severity[0].toUpperCase()}${group.severity.slice(1)} issues (${group.issues.length})`);
+      sections.push(group.issues.map(renderIssue).join('\n'));
+    }
+
+    if (file.threads.length > 0) {
+      const open = file.threads.filter(thread => !thread.resolved).length;
+      sections.push(`### Threads (${open} open, ${file.threads.length - open} resolved)`);
+      sections.push(...file.threads.map(renderThread));
+    }
+  }
+
+  return sections.join('\n\n') + '\n';
+}
@@ -0,0 +1,104 @@
+import type { Comment, Thread } from '../../models/Thread.js';
+import { SCAN_SEVERITIES, type ScanIssue, type ScanSeverity } from '../ai/types.js';
+import type { ScannedFile } from './sarif.js';
+
+/**
+ * Threads and scan issues of one file
+ */
+export interface ReportFile {
+  file: string;
+  /** Open threads first, each in line order */
+  threads: Thread[];
+  /** Scan issues by severity, most severe first; severities without issues are left out */
+  issues: Array<{ severity: ScanSeverity; issues: ScanIssue[] }>;
+}
+
+/**
+ * Everything a review report shows, independent of its format
+ */
+export interface ReviewReport {
+  title: string;
+  generatedAt: Date;
+  totals: {
+    threads: number;
+    open: number;
+    resolved: number;
+    issues: Record<ScanSeverity, number>;
+  };
+  files: ReportFile[];
+}
+
+/**
+ * Group threads and scan issues by file for a review report
+ */
+export function buildReviewReport(
+  title: string,
+  threads: Thread[],
+  scans: ScannedFile[] = [],
+  generatedAt = new Date()
+): ReviewReport {
+  const byFile = new Map<string, ReportFile>();
+  const fileEntry = (file: string) => {
+    let entry = byFile.get(file);
+    if (!entry) {
+      entry = { file, threads: [], issues: [] };
+      byFile.set(file, entry);
+    }
+    return entry;
+  };
+
+  for (const thread of threads) {
+    fileEntry(thread.file).threads.push(thread);
+  }
+  for (const entry of byFile.values()) {
+    entry.threads.sort((a, b) => Number(a.resolved) - Number(b.resolved) || a.startLine - b.startLine);
+  }
+
+  const scannedIssues = new Map<string, ScanIssue[]>();
+  for (const scan of scans) {
+    fileEntry(scan.file);
+    scannedIssues.set(scan.file, [...(scannedIssues.get(scan.file) ?? []), ...scan.issues]);
+  }
+
+  const issueTotals = Object.fromEntries(SCAN_SEVERITIES.map(severity => [severity, 0])) as Record<ScanSeverity, number>;
+  for (const [file, fileIssues] of scannedIssues) {
+    for (const severity of SCAN_SEVERITIES) {
+      const issues = fileIssues
+        .filter(issue => issue.severity === severity)
+        .sort((a, b) => a.startLine - b.startLine);
+      if (issues.length > 0) {
+        fileEntry(file).issues.push({ severity, issues });
+        issueTotals[severity] += issues.length;
+      }
+    }
+  }
+
+  const resolved = threads.filter(thread => thread.resolved).length;
+
+  return {
+    title,
+    generatedAt,
+    totals: {
+      threads: threads.length,
+      open: threads.length - resolved,
+      resolved,
+      issues: issueTotals,
+    },
+    files: [...byFile.values()].sort((a, b) => a.file.localeCompare(b.file)),
+  };
+}
+
+/**
+ * Name shown for the author of a comment
+ */
+export function commentAuthor(comment: Comment): string {
+  return comment.author === 'ai' ? 'AI' : comment.authorName ?? 'User';
+}
+
+/**
+ * Language of a code excerpt, from the file extension, for syntax highlighting hints
+ */
+export function excerptLanguage(file: string): string {
+  const extension = /\.([a-z0-9]+)$/i.exec(file)?.[1]?.toLowerCase();
+  return extension ?? '';
+}
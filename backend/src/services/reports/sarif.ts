@@ -0,0 +1,123 @@
+import {
+  SARIF_SCHEMA,
+  SARIF_VERSION,
+  severityToSarifLevel,
+  pickModeFields,
+  type SarifLog,
+  type SarifResult,
+  type SarifRule,
+} from '@ai-code-review/shared';
+import type { Thread } from '../../models/Thread.js';
+import type { ScanIssue } from '../ai/types.js';
+
+const TOOL_NAME = 'AI Code Review Assistant';
+const THREAD_RULE_ID = 'review-thread';
+const SCAN_RULE_PREFIX = 'scan/';
+const TEAM_RULE_PREFIX = 'rule/';
+
+/**
+ * Issues an AI scan found in a file
+ */
+export interface ScannedFile {
+  file: string;
+  issues: ScanIssue[];
+}
+
+/**
+ * Paths are relative URI references in SARIF, so characters like spaces are escaped
+ */
+const toUri = (path: string): string => encodeURI(path);
+
+function threadResult(thread: Thread): SarifResult {
+  const conversation = thread.comments
+    .map(comment => `${comment.author === 'ai' ? 'AI' : comment.authorName ?? 'User'}: ${comment.text}`)
+    .join('\n\n');
+
+  return {
+    ruleId: THREAD_RULE_ID,
+    level: 'note',
+    message: { text: conversation || 'Open review thread' },
+    locations: [
+      {
+        physicalLocation: {
+          artifactLocation: { uri: toUri(thread.source?.path ?? thread.file) },
+          region: { startLine: thread.startLine, endLine: thread.endLine, snippet: { text: thread.selectedCode } },
+        },
+      },
+    ],
+    guid: thread.id,
+    properties: {
+      ...(thread.source && { repository: thread.source.repository, commitSha: thread.source.commitSha }),
+      ...(thread.side && { side: thread.side, baseRevision: thread.baseRevision, headRevision: thread.headRevision }),
+    },
+  };
+}
+
+/**
+ * Issues that break a team rule are reported under the rule, others under their category
+ * The fields of the scan's mode are properties; CWE IDs are also tags, as code scanning tools read them
+ */
+function scanResult(file: string, issue: ScanIssue): SarifResult {
+  return {
+    ruleId: issue.ruleId ? `${TEAM_RULE_PREFIX}${issue.ruleId}` : `${SCAN_RULE_PREFIX}${issue.category}`,
+    level: severityToSarifLevel(issue.severity),
+    message: { text: issue.message },
+    locations: [
+      {
+        physicalLocation: {
+          artifactLocation: { uri: toUri(file) },
+          region: { startLine: issue.startLine, endLine: issue.endLine },
+        },
+      },
+    ],
+    properties: {
+      fix: issue.fix,
+      ...(issue.diff && { diff: issue.diff }),
+      ...(issue.ruleId && { category: issue.category }),
+      ...pickModeFields(issue),
+      ...(issue.cwe?.length && { tags: issue.cwe.map(id => `external/cwe/${id.toLowerCase()}`) }),
+    },
+  };
+}
+
+/**
+ * Build a SARIF 2.1.0 log of unresolved review threads and AI scan issues
+ * Threads are notes; scan issues keep their severity as the SARIF level
+ */
+export function createSarifLog(threads: Thread[], scans: ScannedFile[] = []): SarifLog {
+  const results = [
+    ...threads.filter(thread => !thread.resolved).map(threadResult),
+    ...scans.flatMap(scan => scan.issues.map(issue => scanResult(scan.file, issue))),
+  ];
+
+  const usedRules = new Set(results.map(result => result.ruleId));
+  const threadRule: SarifRule = {
+    id: THREAD_RULE_ID,
+    name: 'ReviewThread',
+    shortDescription: { text: 'Unresolved code review thread' },
+    defaultConfiguration: { level: 'note' },
+  };
+  const scanRules: SarifRule[] = [...usedRules]
+    .filter((id): id is string => id !== undefined && id !== THREAD_RULE_ID)
+    .sort()
+    .map(id => ({
+      id,
+      shortDescription: {
+        text: id.startsWith(TEAM_RULE_PREFIX)
+          ? `Team rule: ${id.slice(TEAM_RULE_PREFIX.length)}`
+          : `AI scan finding: ${id.slice(SCAN_RULE_PREFIX.length)}`,
+      },
+    }));
+  const rules = [threadRule, ...scanRules].filter(rule => usedRules.has(rule.id));
+
+  return {
+    $schema: SARIF_SCHEMA,
+    version: SARIF_VERSION,
+    runs: [
+      {
+        tool: { driver: { name: TOOL_NAME, rules } },
+        results: results.map(result => ({ ...result, ruleIndex: rules.findIndex(rule => rule.id === result.ruleId) })),
+      },
+    ],
+  };
+}
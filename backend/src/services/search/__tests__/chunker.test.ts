@@ -0,0 +1,61 @@
+import { describe, it, expect } from 'vitest';
+import { chunkFile } from '../chunker.js';
+
+const summary = (chunks: Awaited<ReturnType<typeof chunkFile>>) =>
+  chunks.map(chunk => [chunk.startLine, chunk.endLine, chunk.symbol]);
+
+describe('chunkFile', () => {
+  it('makes a chunk of each top-level declaration with its comments, and of the code between them', async () => {
+    const content = [
+      "import { readFile } from 'fs/promises';",
+      '',
+      'export const HALF = 0.5;',
+      '',
+      '/** Twice the value */',
+      'export function double(x: number): number {',
+      '  return x * 2;',
+      '}',
+      '',
+      'export const half = (x: number) => x * HALF;',
+      '',
+      'class Totals {',
+      '  total = 0;',
+      '}',
+    ].join('\n');
+
+    const chunks = await chunkFile(content, 'typescript', 'math.ts');
+
+    expect(summary(chunks)).toEqual([
+      [1, 4, null],
+      [5, 8, 'double'],
+      [10, 10, 'half'],
+      [12, 14, 'Totals'],
+    ]);
+    expect(chunks[1].content).toBe('/** Twice the value */\nexport function double(x: number): number {\n  return x * 2;\n}');
+  });
+
+  it('splits classes too long for one chunk into their methods', async () => {
+    const method = (name: string) => [`    def ${name}(self):`, ...Array.from({ length: 30 }, (_, i) => `        x${i} = ${i}`)];
+    const content = ['class Service:', '    rate = 2', '', ...method('load'), ...method('save')].join('\n');
+
+    const chunks = await chunkFile(content, 'python', 'service.py');
+
+    expect(summary(chunks)).toEqual([
+      [1, 3, 'Service'],
+      [4, 34, 'load'],
+      [35, 65, 'save'],
+    ]);
+  });
+
+  it('splits files without a grammar into windows of lines', async () => {
+    const content = Array.from({ length: 100 }, (_, i) => `key${i}: ${i}`).join('\n');
+
+    const chunks = await chunkFile(content, 'yaml', 'config.yaml');
+
+    expect(summary(chunks)).toEqual([
+      [1, 40, null],
+      [41, 80, null],
+      [81, 100, null],
+    ]);
+  });
+});
@@ -0,0 +1,67 @@
+import { describe, it, expect, afterEach, vi } from 'vitest';
+import {
+  tokenize,
+  cosineSimilarity,
+  LocalEmbeddingProvider,
+  OpenAIEmbeddingProvider,
+  createEmbeddingProvider,
+} from '../embeddings.js';
+
+describe('embeddings', () => {
+  describe('tokenize', () => {
+    it('splits identifiers into words and drops keywords', () => {
+      expect(tokenize('const parseOrderID = order_total2 + HTTPServer;')).toEqual([
+        'parse', 'order', 'id', 'parseorderid',
+        'order', 'total', 'order_total2',
+        'http', 'server', 'httpserver',
+      ]);
+    });
+  });
+
+  describe('LocalEmbeddingProvider', () => {
+    const provider = new LocalEmbeddingProvider();
+
+    it('embeds the same text to the same normalized vector', async () => {
+      const [a, b] = await provider.embed(['function parseOrder() {}', 'function parseOrder() {}']);
+
+      expect(a).toEqual(b);
+      expect(a).toHaveLength(512);
+      expect(cosineSimilarity(a, a)).toBeCloseTo(1);
+    });
+
+    it('finds code that shares words with a query closer than unrelated code', async () => {
+      const [query, related, unrelated] = await provider.embed([
+        'parse order total',
+        'function parseOrder(text) { return { total: Number(text) }; }',
+        'function renderHeader(title) { return `<h1>${title}</h1>`; }',
+      ]);
+
+      expect(cosineSimilarity(query, related)).toBeGreaterThan(0.3);
+      expect(cosineSimilarity(query, related)).toBeGreaterThan(cosineSimilarity(query, unrelated));
+    });
+  });
+
+  describe('createEmbeddingProvider', () => {
+    afterEach(() => {
+      vi.unstubAllEnvs();
+    });
+
+    it('uses local embeddings unless another provider is configured', () => {
+      expect(createEmbeddingProvider()).toBeInstanceOf(LocalEmbeddingProvider);
+
+      vi.stubEnv('EMBEDDING_MODEL', 'nomic-embed-text');
+      vi.stubEnv('EMBEDDING_BASE_URL', 'http://localhost:11434/v1');
+      const provider = createEmbeddingProvider('openai');
+      expect(provider).toBeInstanceOf(OpenAIEmbeddingProvider);
+      expect(provider.id).toBe('openai:nomic-embed-text');
+    });
+
+    it('rejects unknown providers and OpenAI without a key', () => {
+      vi.stubEnv('OPENAI_API_KEY', '');
+      vi.stubEnv('EMBEDDING_API_KEY', '');
+
+      expect(() => createEmbeddingProvider('word2vec')).toThrow('Unknown EMBEDDING_PROVIDER "word2vec"');
+      expect(() => createEmbeddingProvider('openai')).toThrow('needs EMBEDDING_API_KEY or OPENAI_API_KEY');
+    });
+  });
+});
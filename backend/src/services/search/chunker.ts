@@ -0,0 +1,146 @@
+import {
+  readSyntaxTree,
+  isFunction,
+  isClass,
+  rowsOf,
+  nameOf,
+  outermost,
+  type SyntaxNode,
+} from '../../utils/syntaxContext.js';
+
+/** Longest chunk, in lines; longer declarations are split into their members or into windows */
+const MAX_CHUNK_LINES = 60;
+
+/** Lines of a window of a file that has no grammar or of code outside declarations */
+const WINDOW_LINES = 40;
+
+/**
+ * A piece of a file that is embedded and searched on its own
+ */
+export interface CodeChunk {
+  /** First line, 1-based */
+  startLine: number;
+  /** Last line, 1-based */
+  endLine: number;
+  /** Name of the function or class the chunk is, if it is one */
+  symbol: string | null;
+  content: string;
+}
+
+/**
+ * Split a file into chunks along its syntax: a chunk per top-level function or class,
+ * a chunk per method of classes too long for one, and windows of the code in between
+ * Files without a grammar, or that fail to parse, are split into line windows
+ */
+export async function chunkFile(content: string, language: string, fileName?: string): Promise<CodeChunk[]> {
+  const lines = content.split('\n');
+
+  let ranges: ChunkRange[] | null = null;
+  try {
+    ranges = await readSyntaxTree(content, language, fileName, root => declarationRanges(root));
+  } catch (error) {
+    console.warn(`Could not parse ${fileName ?? language} for indexing:`, error);
+  }
+
+  return fillGaps(ranges ?? [], lines.length)
+    .map(range => ({
+      startLine: range.start + 1,
+      endLine: range.end + 1,
+      symbol: range.symbol,
+      content: lines.slice(range.start, range.end + 1).join('\n'),
+    }))
+    .filter(chunk => chunk.content.trim() !== '');
+}
+
+/** Rows of a chunk, 0-based */
+interface ChunkRange {
+  start: number;
+  end: number;
+  symbol: string | null;
+}
+
+/**
+ * Rows of the outermost functions and classes, split into members or windows when too long
+ */
+function declarationRanges(root: SyntaxNode): ChunkRange[] {
+  const ranges: ChunkRange[] = [];
+  let lastRow = -1;
+
+  const visit = (node: SyntaxNode) => {
+    if (!isFunction(node) && !isClass(node)) {
+      node.namedChildren.forEach(visit);
+      return;
+    }
+
+    const [declarationStart, end] = rowsOf(node);
+    // Declarations sharing a line with the previous one, like two callbacks, stay in it
+    if (declarationStart <= lastRow) {
+      return;
+    }
+    const start = Math.max(lastRow + 1, commentStart(node));
+
+    const symbol = symbolOf(node);
+    if (end - start < MAX_CHUNK_LINES) {
+      ranges.push({ start, end, symbol });
+    } else if (isClass(node)) {
+      // Members get their own chunks, the lines between them fill the gaps
+      const members = declarationRanges(node).filter(range => range.start >= start && range.end <= end);
+      ranges.push(...fillGaps(members, end + 1, start).map(range => ({ ...range, symbol: range.symbol ?? symbol })));
+    } else {
+      ranges.push(...windows(start, end).map(range => ({ ...range, symbol })));
+    }
+    lastRow = end;
+  };
+
+  // The root is skipped: Python names it `module`, like Ruby modules
+  root.namedChildren.forEach(visit);
+  return ranges;
+}
+
+/**
+ * First row of a declaration including the comments right above it
+ */
+function commentStart(node: SyntaxNode): number {
+  let first = outermost(node);
+  let previous = first.previousNamedSibling;
+  while (previous?.type.includes('comment') && previous.endPosition.row === first.startPosition.row - 1) {
+    first = previous;
+    previous = first.previousNamedSibling;
+  }
+  return first.startPosition.row;
+}
+
+function symbolOf(node: SyntaxNode): string | null {
+  // Arrow functions and function expressions are named by the variable they are assigned to
+  if (!nameOf(node) && node.parent?.type === 'variable_declarator') {
+    return nameOf(node.parent);
+  }
+  return nameOf(node);
+}
+
+/**
+ * Ranges in order, with windows of the rows between them from `from` up to `rowCount`
+ */
+function fillGaps(ranges: ChunkRange[], rowCount: number, from = 0): ChunkRange[] {
+  const filled: ChunkRange[] = [];
+  let next = from;
+  for (const range of ranges) {
+    if (range.start > next) {
+      filled.push(...windows(next, range.start - 1));
+    }
+    filled.push(range);
+    next = range.end + 1;
+  }
+  if (next < rowCount) {
+    filled.push(...windows(next, rowCount - 1));
+  }
+  return filled;
+}
+
+function windows(start: number, end: number): ChunkRange[] {
+  const ranges: ChunkRange[] = [];
+  for (let row = start; row <= end; row += WINDOW_LINES) {
+    ranges.push({ start: row, end: Math.min(end, row + WINDOW_LINES - 1), symbol: null });
+  }
+  return ranges;
+}
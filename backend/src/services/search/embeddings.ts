@@ -0,0 +1,192 @@
+import OpenAI from 'openai';
+
+/**
+ * Turns text into vectors whose cosine similarity tells how related the texts are
+ */
+export interface EmbeddingProvider {
+  /**
+   * Identifies the provider and model; vectors of different embedders are never compared
+   */
+  readonly id: string;
+  embed(texts: string[]): Promise<number[][]>;
+}
+
+export const EMBEDDING_PROVIDERS = ['local', 'openai'] as const;
+
+export type EmbeddingProviderName = (typeof EMBEDDING_PROVIDERS)[number];
+
+/** Dimensions of the local embeddings */
+const LOCAL_DIMENSIONS = 512;
+
+/** Texts sent in one embeddings request */
+const EMBEDDING_BATCH_SIZE = 64;
+
+/** Characters of a text that are embedded; longer texts are cut */
+const MAX_EMBEDDED_CHARACTERS = 8000;
+
+/**
+ * Keywords and words so common in code that they say nothing about what it does
+ * Left out of local embeddings, as a fixed stand-in for inverse document frequency
+ */
+const STOP_WORDS = new Set([
+  'a', 'an', 'and', 'as', 'async', 'await', 'bool', 'boolean', 'break', 'case', 'catch', 'class', 'const',
+  'continue', 'def', 'default', 'do', 'elif', 'else', 'end', 'export', 'false', 'fn', 'for', 'from', 'func',
+  'function', 'if', 'import', 'in', 'int', 'is', 'let', 'new', 'nil', 'none', 'not', 'null', 'number', 'of',
+  'or', 'pass', 'private', 'protected', 'pub', 'public', 'return', 'self', 'static', 'string', 'the', 'this',
+  'to', 'true', 'try', 'type', 'undefined', 'use', 'var', 'void', 'while', 'with',
+]);
+
+/**
+ * Words of code and queries: identifiers are split at camelCase, snake_case and digits,
+ * and kept whole too, so both `parseOrder` and "parse order" find it
+ */
+export function tokenize(text: string): string[] {
+  const tokens: string[] = [];
+  for (const identifier of text.match(/[A-Za-z0-9_$]+/g) ?? []) {
+    const parts = identifier
+      .replace(/([a-z0-9])([A-Z])/g, '$1 $2')
+      .replace(/([A-Z]+)([A-Z][a-z])/g, '$1 $2')
+      .split(/[\s_$]+|(?<=\D)(?=\d)|(?<=\d)(?=\D)/)
+      .map(part => part.toLowerCase())
+      .filter(part => part.length > 1 && !/^\d+$/.test(part) && !STOP_WORDS.has(part));
+    tokens.push(...parts);
+
+    const whole = identifier.toLowerCase();
+    if (parts.length > 1 && !STOP_WORDS.has(whole)) {
+      tokens.push(whole);
+    }
+  }
+  return tokens;
+}
+
+/**
+ * 32-bit FNV-1a hash
+ */
+function hash(text: string): number {
+  let value = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    value ^= text.charCodeAt(i);
+    value = Math.imul(value, 0x01000193);
+  }
+  return value >>> 0;
+}
+
+/**
+ * Embeddings computed in-process from the words of a text, without a model or network
+ * Words are hashed into a fixed number of dimensions with a hashed sign, weighted by
+ * 1 + log of their count and normalized: similar texts are ones that share words
+ */
+export class LocalEmbeddingProvider implements EmbeddingProvider {
+  readonly id = `local-hash-${LOCAL_DIMENSIONS}`;
+
+  async embed(texts: string[]): Promise<number[][]> {
+    return texts.map(text => this.embedOne(text.slice(0, MAX_EMBEDDED_CHARACTERS)));
+  }
+
+  private embedOne(text: string): number[] {
+    const counts = new Map<string, number>();
+    for (const token of tokenize(text)) {
+      counts.set(token, (counts.get(token) ?? 0) + 1);
+    }
+
+    const vector = new Array<number>(LOCAL_DIMENSIONS).fill(0);
+    for (const [token, count] of counts) {
+      const bucket = hash(token);
+      const sign = bucket & 0x80000000 ? -1 : 1;
+      vector[bucket % LOCAL_DIMENSIONS] += sign * (1 + Math.log(count));
+    }
+    return normalize(vector);
+  }
+}
+
+/**
+ * Embeddings from the OpenAI embeddings API, or an OpenAI-compatible server such as Ollama
+ */
+export class OpenAIEmbeddingProvider implements EmbeddingProvider {
+  readonly id: string;
+  private client: OpenAI;
+
+  constructor(private readonly model: string, apiKey: string, baseUrl?: string) {
+    this.id = `openai:${model}`;
+    this.client = new OpenAI({ apiKey, baseURL: baseUrl });
+  }
+
+  async embed(texts: string[]): Promise<number[][]> {
+    const vectors: number[][] = [];
+    for (let i = 0; i < texts.length; i += EMBEDDING_BATCH_SIZE) {
+      const response = await this.client.embeddings.create({
+        model: this.model,
+        input: texts.slice(i, i + EMBEDDING_BATCH_SIZE).map(text => text.slice(0, MAX_EMBEDDED_CHARACTERS)),
+      });
+      vectors.push(...response.data.sort((a, b) => a.index - b.index).map(item => normalize(item.embedding)));
+    }
+    return vectors;
+  }
+}
+
+/**
+ * Scale a vector to length 1, so that cosine similarity is its dot product
+ */
+function normalize(vector: number[]): number[] {
+  const length = Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0));
+  return length === 0 ? vector : vector.map(value => value / length);
+}
+
+/**
+ * Cosine similarity of two normalized vectors of the same embedder
+ */
+export function cosineSimilarity(a: ArrayLike<number>, b: ArrayLike<number>): number {
+  let dot = 0;
+  for (let i = 0; i < Math.min(a.length, b.length); i++) {
+    dot += a[i] * b[i];
+  }
+  return dot;
+}
+
+let provider: EmbeddingProvider | null = null;
+
+/**
+ * Create the embedding provider named by EMBEDDING_PROVIDER, local by default
+ * The OpenAI provider uses EMBEDDING_MODEL, and EMBEDDING_API_KEY or OPENAI_API_KEY;
+ * EMBEDDING_BASE_URL points it at another OpenAI-compatible server
+ */
+export function createEmbeddingProvider(
+  name: string = process.env.EMBEDDING_PROVIDER || 'local'
+): EmbeddingProvider {
+  switch (name as EmbeddingProviderName) {
+    case 'local':
+      return new LocalEmbeddingProvider();
+    case 'openai': {
+      const apiKey = process.env.EMBEDDING_API_KEY || process.env.OPENAI_API_KEY;
+      const baseUrl = process.env.EMBEDDING_BASE_URL;
+      if (!apiKey && !baseUrl) {
+        throw new Error('EMBEDDING_PROVIDER=openai needs EMBEDDING_API_KEY or OPENAI_API_KEY');
+      }
+      return new OpenAIEmbeddingProvider(
+        process.env.EMBEDDING_MODEL || 'text-embedding-3-small',
+        // Local servers accept any key
+        apiKey || 'local',
+        baseUrl
+      );
+    }
+    default:
+      throw new Error(`Unknown EMBEDDING_PROVIDER "${name}", expected one of: ${EMBEDDING_PROVIDERS.join(', ')}`);
+  }
+}
+
+/**
+ * Get the configured embedding provider, created on first use
+ */
+export function getEmbeddingProvider(): EmbeddingProvider {
+  if (!provider) {
+    provider = createEmbeddingProvider();
+  }
+  return provider;
+}
+
+/**
+ * Replace the embedding provider, or go back to the configured one with null
+ */
+export function setEmbeddingProvider(next: EmbeddingProvider | null): void {
+  provider = next;
+}
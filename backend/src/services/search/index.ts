@@ -0,0 +1,2 @@
+export * from './chunker.js';
+export * from './embeddings.js';
@@ -57,18 +57,64 @@ describe('contextSlicer', () => {
       expect(result.afterContext).toBe('');
     });
 
-    it('truncates when exceeding maxCharacters', () => {
+    it('truncates when exceeding maxSize', () => {
       const longLine = 'x'.repeat(1000);
       const content = Array.from({ length: 50 }, () => longLine).join('\n');
       
       const result = sliceContext(content, 20, 25, {
-        maxCharacters: 5000,
+        maxSize: 5000,
       });
 
       expect(result.wasTruncated).toBe(true);
       expect(result.fullContext.length).toBeLessThanOrEqual(6000); // Some overhead allowed
     });
 
+    it('drops whole lines and reports the lines actually included when truncating', () => {
+      const content = Array.from({ length: 100 }, (_, i) => `line ${i + 1} `.padEnd(40, 'x')).join('\n');
+
+      const result = sliceContext(content, 50, 50, {
+        linesBefore: 100,
+        linesAfter: 100,
+        maxTotalLines: 100,
+        maxSize: 500,
+      });
+
+      const lines = content.split('\n');
+      expect(result.wasTruncated).toBe(true);
+      expect(result.contextStartLine).toBeGreaterThan(1);
+      expect(result.contextEndLine).toBeLessThan(100);
+      expect(result.beforeContext).toBe(
+        ['...', ...lines.slice(result.contextStartLine - 1, 49)].join('\n')
+      );
+      expect(result.afterContext).toBe(
+        [...lines.slice(50, result.contextEndLine), '...'].join('\n')
+      );
+    });
+
+    it('measures the context with the given counter, such as the tokens of the model', () => {
+      const content = Array.from({ length: 100 }, () => 'a b c d').join('\n');
+      const words = (text: string) => text.split(/\s+/).filter(Boolean).length;
+
+      // Four words for the selection leave 18 for each side, where a line costs five
+      const result = sliceContext(content, 50, 50, {
+        linesBefore: 100,
+        linesAfter: 100,
+        maxTotalLines: 100,
+        maxSize: 40,
+        measure: words,
+      });
+
+      expect(result.wasTruncated).toBe(true);
+      expect(result.contextStartLine).toBe(47);
+      expect(result.contextEndLine).toBe(53);
+    });
+
+    it('cuts a selection too large for the budget to what fits', () => {
+      const result = sliceContext('a b c d e f', 1, 1, { maxSize: 3, measure: text => text.split(/\s+/).filter(Boolean).length });
+
+      expect(result.selectedCode).toBe('a b c \n... (truncated)');
+    });
+
     it('includes original line count', () => {
       const content = createContent(150);
       const result = sliceContext(content, 50, 60);
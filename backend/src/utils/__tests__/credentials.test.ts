@@ -0,0 +1,31 @@
+import { describe, it, expect } from 'vitest';
+import { hashPassword, verifyPassword, generateToken, hashToken } from '../credentials.js';
+
+describe('credentials', () => {
+  it('verifies passwords against their hash', async () => {
+    const hash = await hashPassword('correct horse');
+
+    expect(hash).toMatch(/^scrypt\$[0-9a-f]{32}\$[0-9a-f]{128}$/);
+    expect(await verifyPassword('correct horse', hash)).toBe(true);
+    expect(await verifyPassword('wrong horse', hash)).toBe(false);
+  });
+
+  it('salts every hash', async () => {
+    expect(await hashPassword('secret123')).not.toBe(await hashPassword('secret123'));
+  });
+
+  it('never matches malformed hashes', async () => {
+    expect(await verifyPassword('secret123', '')).toBe(false);
+    expect(await verifyPassword('secret123', 'bcrypt$abc$def')).toBe(false);
+    expect(await verifyPassword('secret123', 'scrypt$00$00')).toBe(false);
+  });
+
+  it('generates distinct tokens with stable hashes', () => {
+    const token = generateToken();
+
+    expect(token).toMatch(/^[A-Za-z0-9_-]{43}$/);
+    expect(generateToken()).not.toBe(token);
+    expect(hashToken(token)).toBe(hashToken(token));
+    expect(hashToken(token)).toMatch(/^[0-9a-f]{64}$/);
+  });
+});
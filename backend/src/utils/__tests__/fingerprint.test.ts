@@ -0,0 +1,40 @@
+import { describe, it, expect } from 'vitest';
+import { normalizeCode, fingerprintIssues } from '../fingerprint.js';
+
+describe('fingerprint', () => {
+  it('normalizes indentation, spacing and blank lines', () => {
+    expect(normalizeCode('  const a  =\t1;\r\n\n    return a;  ')).toBe('const a = 1;\nreturn a;');
+  });
+
+  it('keeps fingerprints when code moves or is reindented', () => {
+    const before = 'const a = 1;\nconst b = a / 0;\n';
+    const after = '// header\n\nfunction f() {\n    const b  =  a / 0;\n}\n';
+
+    const [first] = fingerprintIssues(before, [{ startLine: 2, endLine: 2, rule: 'bug' }]);
+    const [moved] = fingerprintIssues(after, [{ startLine: 4, endLine: 4, rule: 'bug' }]);
+
+    expect(first).toMatch(/^[0-9a-f]{40}$/);
+    expect(moved).toBe(first);
+  });
+
+  it('changes with the rule and the code', () => {
+    const code = 'const b = a / 0;\nconst c = a / 1;';
+    const [bug, style, other] = fingerprintIssues(code, [
+      { startLine: 1, endLine: 1, rule: 'bug' },
+      { startLine: 1, endLine: 1, rule: 'style' },
+      { startLine: 2, endLine: 2, rule: 'bug' },
+    ]);
+
+    expect(new Set([bug, style, other]).size).toBe(3);
+  });
+
+  it('tells repeated issues on identical code apart', () => {
+    const code = 'eval(input);\nfoo();\neval(input);';
+    const fingerprints = fingerprintIssues(code, [
+      { startLine: 1, endLine: 1, rule: 'security' },
+      { startLine: 3, endLine: 3, rule: 'security' },
+    ]);
+
+    expect(fingerprints[1]).toBe(`${fingerprints[0]}-2`);
+  });
+});
@@ -0,0 +1,137 @@
+import { describe, it, expect } from 'vitest';
+import { selectSyntaxContext, getGrammarName } from '../syntaxContext.js';
+
+const typescript = `import { readFile } from 'fs/promises';
+import { parse } from './parser';
+
+const unrelated = () => 'not referenced';
+
+export function double(x: number): number {
+  return x * 2;
+}
+
+export class Totals {
+  private total = 0;
+
+  async add(path: string) {
+    const text = await readFile(path, 'utf8');
+    for (const value of parse(text)) {
+      this.total += double(value);
+    }
+    return this.total;
+  }
+}
+`;
+
+const select = (content: string, startLine: number, endLine: number, language = 'typescript', maxSize = 10000) =>
+  selectSyntaxContext(content, startLine, endLine, { language, surroundingLines: 20, maxSize });
+
+describe('syntaxContext', () => {
+  describe('getGrammarName', () => {
+    it('maps editor languages to bundled grammars', () => {
+      expect(getGrammarName('typescript', 'App.tsx')).toBe('tsx');
+      expect(getGrammarName('typescript', 'app.ts')).toBe('typescript');
+      expect(getGrammarName('csharp')).toBe('c_sharp');
+      expect(getGrammarName('shell')).toBe('bash');
+      expect(getGrammarName('yaml')).toBeNull();
+    });
+  });
+
+  describe('selectSyntaxContext', () => {
+    it('sends the enclosing function and class, the imports and referenced signatures', async () => {
+      const result = await select(typescript, 16, 16);
+
+      expect(result).toEqual({
+        context: [
+          "import { readFile } from 'fs/promises';",
+          "import { parse } from './parser';",
+          '...',
+          'export function double(x: number): number {',
+          '...',
+          'export class Totals {',
+          '  private total = 0;',
+          '...',
+          '  async add(path: string) {',
+          "    const text = await readFile(path, 'utf8');",
+          '    for (const value of parse(text)) {',
+          '      this.total += double(value);',
+          '    }',
+          '    return this.total;',
+          '  }',
+        ].join('\n'),
+        contextStartLine: 1,
+        contextEndLine: 19,
+        wasTruncated: false,
+      });
+    });
+
+    it('keeps the signature of a function too long to send whole', async () => {
+      const body = Array.from({ length: 200 }, (_, i) => `  const value${i} = input + ${i};`).join('\n');
+      const content = `function compute(input: number) {\n${body}\n  return input;\n}\n`;
+
+      const result = await select(content, 150, 150, 'typescript', 400);
+
+      expect(result?.context.split('\n')[0]).toBe('function compute(input: number) {');
+      expect(result?.context).toContain('const value148 = input + 148;');
+      expect(result?.context.length).toBeLessThanOrEqual(400);
+      expect(result?.wasTruncated).toBe(true);
+    });
+
+    it('finds indented bodies and declarations in Python', async () => {
+      const content = [
+        'import os',
+        '',
+        'def helper(x):',
+        '    return x * 2',
+        '',
+        'class Service:',
+        '    def run(self, items):',
+        '        return [helper(item) for item in items]',
+      ].join('\n');
+
+      const result = await select(content, 8, 8, 'python');
+
+      expect(result?.context).toBe([
+        'import os',
+        '...',
+        'def helper(x):',
+        '...',
+        'class Service:',
+        '    def run(self, items):',
+        '        return [helper(item) for item in items]',
+      ].join('\n'));
+    });
+
+    it('fills the budget with lines around a selection outside functions', async () => {
+      const content = Array.from({ length: 100 }, (_, i) => `const line${i + 1} = ${i + 1};`).join('\n');
+
+      const result = await select(content, 50, 50, 'javascript', 200);
+
+      expect(result?.contextStartLine).toBeLessThan(50);
+      expect(result?.contextEndLine).toBeGreaterThan(50);
+      expect(result?.context).not.toContain('...');
+      expect(result?.wasTruncated).toBe(true);
+    });
+
+    it('measures the context with the given counter, such as the tokens of the model', async () => {
+      const content = Array.from({ length: 100 }, (_, i) => `const line${i + 1} = ${i + 1};`).join('\n');
+      const words = (text: string) => text.split(/\s+/).filter(Boolean).length;
+
+      // Four words and a newline per line
+      const result = await selectSyntaxContext(content, 50, 50, {
+        language: 'javascript',
+        surroundingLines: 20,
+        maxSize: 50,
+        measure: words,
+      });
+
+      expect(result!.contextEndLine - result!.contextStartLine + 1).toBe(10);
+      expect(words(result!.context)).toBeLessThanOrEqual(50);
+    });
+
+    it('leaves languages without a grammar and oversized selections to line-based slicing', async () => {
+      expect(await select('key: value', 1, 1, 'yaml')).toBeNull();
+      expect(await select(typescript, 1, 20, 'typescript', 100)).toBeNull();
+    });
+  });
+});
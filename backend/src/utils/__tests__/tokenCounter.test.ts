@@ -1,14 +1,24 @@
-import { describe, it, expect } from 'vitest';
+import { describe, it, expect, vi, afterEach } from 'vitest';
 import {
   estimateTokenCount,
+  countTokens,
+  getTokenCounter,
+  registerTokenCounter,
+  unregisterTokenCounter,
+  getOutputReserve,
   getModelTokenLimit,
   getAvailableContextTokens,
   fitsWithinLimit,
   truncateToFitLimit,
   splitIntoChunks,
+  splitIntoLineChunks,
 } from '../tokenCounter.js';
 
 describe('tokenCounter', () => {
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
   describe('estimateTokenCount', () => {
     it('estimates tokens for simple text', () => {
       const text = 'Hello world';
@@ -34,6 +44,67 @@ describe('tokenCounter', () => {
     });
   });
 
+  describe('countTokens', () => {
+    it('counts exact tokens with the model family encoding', () => {
+      expect(countTokens('tiktoken is great!', 'gpt-4')).toBe(6);
+      expect(countTokens('const total = items.reduce((sum, item) => sum + item.price, 0);', 'gpt-4o')).toBe(19);
+    });
+
+    it('uses o200k_base for newer OpenAI models and cl100k_base for older ones', () => {
+      const text = 'こんにちは世界、お元気ですか';
+
+      expect(countTokens(text, 'gpt-3.5-turbo')).toBe(10);
+      expect(countTokens(text, 'gpt-4o-mini')).toBe(7);
+      expect(countTokens(text, 'o3-mini')).toBe(7);
+    });
+
+    it('falls back to cl100k_base for other models', () => {
+      expect(countTokens('tiktoken is great!', 'llama3')).toBe(6);
+      expect(countTokens('tiktoken is great!')).toBe(6);
+      expect(countTokens('')).toBe(0);
+    });
+
+    it('estimates very long runs instead of encoding them', () => {
+      const start = Date.now();
+      const tokens = countTokens('data = "' + 'A'.repeat(200000) + '"', 'gpt-4');
+
+      expect(tokens).toBeGreaterThan(10000);
+      expect(Date.now() - start).toBeLessThan(2000);
+    });
+  });
+
+  describe('registerTokenCounter', () => {
+    it('uses a registered counter for matching models', () => {
+      const counter = (text: string) => text.length;
+      registerTokenCounter('claude', counter);
+
+      try {
+        expect(getTokenCounter('claude-3-5-sonnet-latest')).toBe(counter);
+        expect(countTokens('hello world', 'anthropic/Claude-3-opus')).toBe(11);
+        expect(countTokens('hello world', 'gpt-4')).toBe(2);
+      } finally {
+        unregisterTokenCounter(counter);
+      }
+
+      expect(countTokens('hello world', 'claude-3-5-sonnet-latest')).toBe(2);
+    });
+
+    it('accepts regular expressions and prefers later registrations', () => {
+      const first = () => 1;
+      const second = () => 2;
+      registerTokenCounter(/^llama/, first);
+      registerTokenCounter('llama3', second);
+
+      try {
+        expect(countTokens('hello', 'llama2')).toBe(1);
+        expect(countTokens('hello', 'llama3:8b')).toBe(2);
+      } finally {
+        unregisterTokenCounter(first);
+        unregisterTokenCounter(second);
+      }
+    });
+  });
+
   describe('getModelTokenLimit', () => {
     it('returns correct limit for known models', () => {
       expect(getModelTokenLimit('gpt-4')).toBe(8192);
@@ -48,6 +119,41 @@ describe('tokenCounter', () => {
     it('matches partial model names', () => {
       expect(getModelTokenLimit('gpt-4-something')).toBe(8192);
     });
+
+    it('prefers the longest matching model name', () => {
+      expect(getModelTokenLimit('gpt-4o-2024-08-06')).toBe(128000);
+      expect(getModelTokenLimit('gpt-4-32k-0613')).toBe(32768);
+      expect(getModelTokenLimit('claude-3-5-sonnet-latest')).toBe(200000);
+    });
+
+    it('uses limits configured through AI_MODEL_LIMITS', () => {
+      vi.stubEnv('AI_MODEL_LIMITS', JSON.stringify({
+        'my-model': 32000,
+        'gpt-4': { contextWindow: 16000, outputReserve: 4000 },
+        default: 8000,
+      }));
+
+      expect(getModelTokenLimit('my-model-v2')).toBe(32000);
+      expect(getModelTokenLimit('gpt-4')).toBe(16000);
+      expect(getModelTokenLimit('gpt-4o')).toBe(128000);
+      expect(getModelTokenLimit('unknown-model')).toBe(8000);
+      expect(getOutputReserve('gpt-4')).toBe(4000);
+      expect(getOutputReserve('my-model')).toBe(2000);
+    });
+
+    it('ignores invalid AI_MODEL_LIMITS', () => {
+      const warn = vi.spyOn(console, 'warn').mockImplementation(() => undefined);
+      vi.stubEnv('AI_MODEL_LIMITS', '{"my-model": ');
+
+      expect(getModelTokenLimit('my-model')).toBe(4096);
+      expect(warn).toHaveBeenCalled();
+
+      vi.stubEnv('AI_MODEL_LIMITS', '{"my-model": "big", "other-model": {"contextWindow": 9000}}');
+      expect(getModelTokenLimit('my-model')).toBe(4096);
+      expect(getModelTokenLimit('other-model')).toBe(9000);
+
+      warn.mockRestore();
+    });
   });
 
   describe('getAvailableContextTokens', () => {
@@ -65,6 +171,13 @@ describe('tokenCounter', () => {
       const available = getAvailableContextTokens('gpt-3.5-turbo', 5000);
       expect(available).toBe(0);
     });
+
+    it('uses the configured output reserve by default', () => {
+      vi.stubEnv('AI_MODEL_LIMITS', '{"gpt-4": {"contextWindow": 8192, "outputReserve": 3000}}');
+
+      expect(getAvailableContextTokens('gpt-4')).toBe(8192 - 3000);
+      expect(getAvailableContextTokens('gpt-4', 1000)).toBe(8192 - 1000);
+    });
   });
 
   describe('fitsWithinLimit', () => {
@@ -97,6 +210,18 @@ describe('tokenCounter', () => {
       expect(result.content).toContain('[content truncated]');
     });
 
+    it('truncates to the exact token budget', () => {
+      const content = Array.from({ length: 2000 }, (_, i) => `const value${i} = compute(${i});`).join('\n');
+      const result = truncateToFitLimit(content, 'gpt-4', 6000);
+
+      expect(result.wasTruncated).toBe(true);
+      expect(result.finalTokens).toBe(countTokens(result.content, 'gpt-4'));
+      expect(result.finalTokens).toBeLessThanOrEqual(8192 - 6000);
+      expect(result.finalTokens).toBeGreaterThan((8192 - 6000) * 0.8);
+      expect(result.content.startsWith('const value0 = compute(0);')).toBe(true);
+      expect(result.content.endsWith('const value1999 = compute(1999);')).toBe(true);
+    });
+
     it('returns token counts', () => {
       const content = 'Hello world';
       const result = truncateToFitLimit(content, 'gpt-4');
@@ -132,6 +257,65 @@ describe('tokenCounter', () => {
         expect(chunk.length).toBeGreaterThan(0);
       }
     });
+
+    it('keeps every chunk within the token budget', () => {
+      const content = Array.from({ length: 1000 }, (_, i) => `const value${i} = compute(${i});`).join('\n');
+      const chunks = splitIntoChunks(content, 'gpt-3.5-turbo', 3000, 10);
+
+      expect(chunks.length).toBeGreaterThan(1);
+      for (const chunk of chunks) {
+        expect(countTokens(chunk, 'gpt-3.5-turbo')).toBeLessThanOrEqual(4096 - 3000);
+      }
+      expect(chunks[chunks.length - 1].endsWith('const value999 = compute(999);')).toBe(true);
+    });
   });
-});
 
+  describe('splitIntoLineChunks', () => {
+    const content = Array.from({ length: 100 }, (_, i) => `const line${i + 1} = ${i + 1};`).join('\n');
+
+    it('returns a single chunk covering all lines when content fits', () => {
+      const chunks = splitIntoLineChunks(content, 100000);
+
+      expect(chunks).toEqual([{ content, startLine: 1, endLine: 100 }]);
+    });
+
+    it('splits into overlapping chunks with original line numbers', () => {
+      const chunks = splitIntoLineChunks(content, 200, 5);
+      const lines = content.split('\n');
+
+      expect(chunks.length).toBeGreaterThan(1);
+      expect(chunks[0].startLine).toBe(1);
+      expect(chunks[chunks.length - 1].endLine).toBe(100);
+
+      for (const chunk of chunks) {
+        expect(chunk.content).toBe(lines.slice(chunk.startLine - 1, chunk.endLine).join('\n'));
+        expect(countTokens(chunk.content)).toBeLessThanOrEqual(200);
+      }
+
+      for (let i = 1; i < chunks.length; i++) {
+        expect(chunks[i].startLine).toBe(chunks[i - 1].endLine - 4);
+      }
+    });
+
+    it('always makes progress when a line exceeds the budget', () => {
+      const chunks = splitIntoLineChunks('short\n' + 'x'.repeat(1000) + '\nshort', 10, 5);
+
+      expect(chunks.map((c) => [c.startLine, c.endLine])).toEqual([[1, 1], [2, 2], [3, 3]]);
+    });
+
+    it('caps the overlap at half a chunk when few long lines fit', () => {
+      const longLines = Array.from({ length: 200 }, (_, i) => `const value${i} = '${'x'.repeat(200)}';`).join('\n');
+      const chunks = splitIntoLineChunks(longLines, 500);
+      const linesPerChunk = chunks[0].endLine - chunks[0].startLine + 1;
+
+      expect(linesPerChunk).toBeLessThan(20);
+      // Each chunk advances by at least half its lines, not by one line
+      expect(chunks.length).toBeLessThanOrEqual(Math.ceil(200 / Math.floor(linesPerChunk / 2)) + 1);
+      expect(chunks[chunks.length - 1].endLine).toBe(200);
+      for (let i = 1; i < chunks.length; i++) {
+        expect(chunks[i].startLine).toBeGreaterThan(chunks[i - 1].startLine + 1);
+        expect(chunks[i].startLine).toBeLessThanOrEqual(chunks[i - 1].endLine);
+      }
+    });
+  });
+});
@@ -8,15 +8,18 @@ export interface ContextSlicerConfig {
     linesAfter: number;
     /** Maximum total lines to include */
     maxTotalLines: number;
-    /** Maximum characters to include */
-    maxCharacters: number;
+    /** Maximum size of the context, as measured by `measure` */
+    maxSize: number;
+    /** Size of a piece of context, such as its tokens for the model; its length in characters by default */
+    measure: (text: string) => number;
 }
 
 const DEFAULT_CONFIG: ContextSlicerConfig = {
     linesBefore: 20,
     linesAfter: 20,
     maxTotalLines: 100,
-    maxCharacters: 10000,
+    maxSize: 10000,
+    measure: text => text.length,
 };
 
 /**
@@ -77,29 +80,39 @@ export function sliceContext(
     let selectedCode = selectedLines.join('\n');
     let afterContext = afterLines.join('\n');
 
-    // Check character limit and truncate if needed
+    // Check the size limit and truncate if needed
+    const { maxSize, measure } = mergedConfig;
     let wasTruncated = false;
-    const totalChars = beforeContext.length + selectedCode.length + afterContext.length;
+    const beforeSize = measure(beforeContext);
+    const selectedSize = measure(selectedCode);
+    const afterSize = measure(afterContext);
 
-    if (totalChars > mergedConfig.maxCharacters) {
+    if (beforeSize + selectedSize + afterSize > maxSize) {
         wasTruncated = true;
-        const availableChars = mergedConfig.maxCharacters - selectedCode.length;
+        const available = maxSize - selectedSize;
 
-        if (availableChars > 0) {
-            const halfAvailable = Math.floor(availableChars / 2);
+        if (available > 0) {
+            const halfAvailable = Math.floor(available / 2);
 
-            if (beforeContext.length > halfAvailable) {
-                beforeContext = '...\n' + beforeContext.slice(-halfAvailable);
+            // Drop whole lines farthest from the selection so the reported range stays accurate
+            if (beforeSize > halfAvailable) {
+                const kept = takeLinesWithin([...beforeLines].reverse(), halfAvailable, measure).reverse();
+                beforeContext = ['...', ...kept].join('\n');
+                contextStartLine = selectionStartLine - kept.length;
             }
 
-            if (afterContext.length > halfAvailable) {
-                afterContext = afterContext.slice(0, halfAvailable) + '\n...';
+            if (afterSize > halfAvailable) {
+                const kept = takeLinesWithin(afterLines, halfAvailable, measure);
+                afterContext = [...kept, '...'].join('\n');
+                contextEndLine = selectionEndLine + kept.length;
             }
         } else {
             // Selection itself is too large, truncate it
-            selectedCode = selectedCode.slice(0, mergedConfig.maxCharacters) + '\n... (truncated)';
+            selectedCode = truncateWithin(selectedCode, maxSize, measure) + '\n... (truncated)';
             beforeContext = '';
             afterContext = '';
+            contextStartLine = selectionStartLine;
+            contextEndLine = selectionEndLine;
         }
     }
 
@@ -119,6 +132,41 @@ export function sliceContext(
     };
 }
 
+/**
+ * Take lines from the start of `lines` while they fit in `maxSize`, counting a newline after each
+ */
+function takeLinesWithin(lines: string[], maxSize: number, measure: (text: string) => number): string[] {
+    const kept: string[] = [];
+    let size = 0;
+
+    for (const line of lines) {
+        size += measure(line) + 1;
+        if (size > maxSize) break;
+        kept.push(line);
+    }
+
+    return kept;
+}
+
+/**
+ * Longest start of `text` that fits in `maxSize`, found by bisecting its length
+ */
+function truncateWithin(text: string, maxSize: number, measure: (text: string) => number): string {
+    let low = 0;
+    let high = text.length;
+
+    while (low < high) {
+        const mid = Math.ceil((low + high) / 2);
+        if (measure(text.slice(0, mid)) <= maxSize) {
+            low = mid;
+        } else {
+            high = mid - 1;
+        }
+    }
+
+    return text.slice(0, low);
+}
+
 /**
  * Check if a file is considered "large"
  */
@@ -0,0 +1,55 @@
+import { createHash, randomBytes, scrypt, timingSafeEqual } from 'crypto';
+
+const SALT_BYTES = 16;
+const KEY_LENGTH = 64;
+const TOKEN_BYTES = 32;
+
+function deriveKey(password: string, salt: Buffer): Promise<Buffer> {
+    return new Promise((resolve, reject) => {
+        scrypt(password, salt, KEY_LENGTH, (err, key) => (err ? reject(err) : resolve(key)));
+    });
+}
+
+/**
+ * Hash a password with scrypt and a random salt
+ * The result is `scrypt$<salt>$<hash>` in hex, so it can be stored as one column
+ */
+export async function hashPassword(password: string): Promise<string> {
+    const salt = randomBytes(SALT_BYTES);
+    const key = await deriveKey(password, salt);
+    return `scrypt$${salt.toString('hex')}$${key.toString('hex')}`;
+}
+
+/**
+ * Check a password against a hash from hashPassword
+ * Malformed hashes never match
+ */
+export async function verifyPassword(password: string, stored: string): Promise<boolean> {
+    const [scheme, saltHex, keyHex] = stored.split('$');
+    if (scheme !== 'scrypt' || !saltHex || !keyHex) {
+        return false;
+    }
+
+    const expected = Buffer.from(keyHex, 'hex');
+    if (expected.length !== KEY_LENGTH) {
+        return false;
+    }
+
+    const key = await deriveKey(password, Buffer.from(saltHex, 'hex'));
+    return timingSafeEqual(key, expected);
+}
+
+/**
+ * Generate a random bearer token
+ */
+export function generateToken(): string {
+    return randomBytes(TOKEN_BYTES).toString('base64url');
+}
+
+/**
+ * Hash a bearer token for storage and lookup
+ * Tokens are random enough that a plain SHA-256 is sufficient
+ */
+export function hashToken(token: string): string {
+    return createHash('sha256').update(token).digest('hex');
+}
@@ -0,0 +1,41 @@
+import { createHash } from 'crypto';
+
+/**
+ * The parts of a scan issue that identify it across scans
+ */
+export interface FingerprintedIssue {
+  startLine: number;
+  endLine: number;
+  /** Rule or category that reported the issue */
+  rule: string;
+}
+
+/**
+ * Normalize code so that indentation and spacing changes keep a fingerprint:
+ * trim lines, collapse runs of whitespace and drop blank lines
+ */
+export function normalizeCode(code: string): string {
+  return code
+    .split(/\r?\n/)
+    .map(line => line.trim().replace(/\s+/g, ' '))
+    .filter(line => line !== '')
+    .join('\n');
+}
+
+/**
+ * Fingerprint issues of a file by their rule and the normalized code of their lines
+ * Line numbers are left out, so issues keep their fingerprint when code above them
+ * moves; repeated issues on identical code are told apart by their order in the file
+ */
+export function fingerprintIssues(code: string, issues: FingerprintedIssue[]): string[] {
+  const lines = code.split(/\r?\n/);
+  const seen = new Map<string, number>();
+
+  return issues.map(issue => {
+    const excerpt = normalizeCode(lines.slice(issue.startLine - 1, issue.endLine).join('\n'));
+    const hash = createHash('sha256').update(`${issue.rule}\n${excerpt}`).digest('hex').slice(0, 40);
+    const occurrence = seen.get(hash) ?? 0;
+    seen.set(hash, occurrence + 1);
+    return occurrence === 0 ? hash : `${hash}-${occurrence + 1}`;
+  });
+}
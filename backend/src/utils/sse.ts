@@ -0,0 +1,28 @@
+import { Response } from 'express';
+
+/**
+ * Start a Server-Sent Events response
+ * Returns a function telling whether the client has gone away
+ */
+export function startEventStream(res: Response): () => boolean {
+    res.status(200).set({
+        'Content-Type': 'text/event-stream',
+        'Cache-Control': 'no-cache',
+        Connection: 'keep-alive',
+        'X-Accel-Buffering': 'no',
+    });
+    res.flushHeaders();
+
+    let clientClosed = false;
+    res.on('close', () => {
+        clientClosed = !res.writableEnded;
+    });
+    return () => clientClosed;
+}
+
+/**
+ * Write a Server-Sent Event
+ */
+export function sendEvent(res: Response, event: string, data: unknown): void {
+    res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+}
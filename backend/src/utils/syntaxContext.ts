@@ -0,0 +1,529 @@
+import { createRequire } from 'module';
+import type TreeSitter from 'web-tree-sitter';
+
+export type SyntaxNode = TreeSitter.SyntaxNode;
+
+const require = createRequire(import.meta.url);
+
+// Required rather than imported: the ESM interop of test runners can hand out the
+// Emscripten module that the package also assigns to `module.exports`
+const Parser: typeof TreeSitter = require('web-tree-sitter');
+
+/**
+ * tree-sitter grammar of each editor language, as named in `tree-sitter-wasms`
+ * Languages without one (markup, styles, data and config files) get line-based context
+ */
+const GRAMMARS: Record<string, string> = {
+  javascript: 'javascript',
+  typescript: 'typescript',
+  python: 'python',
+  java: 'java',
+  kotlin: 'kotlin',
+  scala: 'scala',
+  c: 'c',
+  cpp: 'cpp',
+  csharp: 'c_sharp',
+  go: 'go',
+  rust: 'rust',
+  ruby: 'ruby',
+  php: 'php',
+  shell: 'bash',
+};
+
+/** Functions, methods and lambdas of the supported grammars */
+const FUNCTION_TYPES = [
+  'function_declaration',
+  'function_definition',
+  'function_expression',
+  'function',
+  'generator_function',
+  'generator_function_declaration',
+  'arrow_function',
+  'method_definition',
+  'method_declaration',
+  'constructor_declaration',
+  'local_function_statement',
+  'function_item',
+  'func_literal',
+  'method',
+  'singleton_method',
+];
+
+/** Classes and other declarations that group members */
+const CLASS_TYPES = [
+  'class_declaration',
+  'abstract_class_declaration',
+  'class_definition',
+  'class',
+  'class_specifier',
+  'struct_specifier',
+  'interface_declaration',
+  'enum_declaration',
+  'struct_declaration',
+  'record_declaration',
+  'trait_declaration',
+  'object_declaration',
+  'object_definition',
+  'trait_definition',
+  'namespace_definition',
+  'namespace_declaration',
+  'internal_module',
+  'module',
+  'impl_item',
+  'trait_item',
+  'struct_item',
+  'enum_item',
+  'mod_item',
+];
+
+/** Imports, includes and package declarations */
+const IMPORT_TYPES = [
+  'import_statement',
+  'import_from_statement',
+  'future_import_statement',
+  'import_declaration',
+  'import_header',
+  'package_declaration',
+  'package_clause',
+  'package_header',
+  'use_declaration',
+  'extern_crate_declaration',
+  'using_directive',
+  'namespace_use_declaration',
+  'preproc_include',
+];
+
+/** Declarations whose signature is worth sending when the selection refers to them */
+const DECLARATION_TYPES = [
+  ...FUNCTION_TYPES,
+  ...CLASS_TYPES,
+  'type_alias_declaration',
+  'type_definition',
+  'type_spec',
+  'type_item',
+  'const_item',
+  'static_item',
+  'method_signature',
+  'abstract_method_signature',
+  'public_field_definition',
+  'field_definition',
+  'variable_declarator',
+];
+
+/** Nodes wrapping a declaration that belong to its signature, such as `export` or decorators */
+const WRAPPER_TYPES = new Set([
+  'export_statement',
+  'decorated_definition',
+  'lexical_declaration',
+  'variable_declaration',
+]);
+
+/** Bodies of declarations that have no `body` field */
+const BODY_TYPES = new Set([
+  'block',
+  'statement_block',
+  'body_statement',
+  'class_body',
+  'function_body',
+  'enum_class_body',
+  'template_body',
+  'declaration_list',
+  'field_declaration_list',
+  'compound_statement',
+]);
+
+/** Names a selection refers to other code by */
+const IDENTIFIER_TYPES = [
+  'identifier',
+  'type_identifier',
+  'property_identifier',
+  'field_identifier',
+  'shorthand_property_identifier',
+  'simple_identifier',
+  'constant',
+  'name',
+];
+
+/** Longest declaration without a body that is sent whole as its signature */
+const MAX_SIGNATURE_LINES = 10;
+
+/** Line standing for the lines left out between two parts of the context */
+const GAP_MARKER = '...';
+
+/**
+ * Options for syntax-aware context selection
+ */
+export interface SyntaxContextOptions {
+  /** Editor language of the file */
+  language: string;
+  /** Picks the TSX grammar for `.tsx` files */
+  fileName?: string;
+  /** Lines around the selection added once the rest fits, when it is not inside a function */
+  surroundingLines: number;
+  /** Maximum size of the context, as measured by `measure` */
+  maxSize: number;
+  /** Size of a piece of context, such as its tokens for the model; its length in characters by default */
+  measure?: (text: string) => number;
+}
+
+/**
+ * Code context made of the parts of a file that matter to a selection
+ */
+export interface SyntaxContext {
+  /** The parts in file order, with `...` lines where lines were left out */
+  context: string;
+  /** First line of the context */
+  contextStartLine: number;
+  /** Last line of the context */
+  contextEndLine: number;
+  /** Whether a part of the context was dropped or cut to fit */
+  wasTruncated: boolean;
+}
+
+let parserReady: Promise<void> | null = null;
+const languages = new Map<string, Promise<TreeSitter.Language>>();
+
+/**
+ * Name of the grammar for a file, or null when it has none
+ */
+export function getGrammarName(language: string, fileName?: string): string | null {
+  if (language === 'typescript' && fileName?.toLowerCase().endsWith('.tsx')) {
+    return 'tsx';
+  }
+  return GRAMMARS[language] ?? null;
+}
+
+/**
+ * Load a grammar from the WASM files bundled with `tree-sitter-wasms`, once
+ */
+function loadLanguage(grammar: string): Promise<TreeSitter.Language> {
+  let language = languages.get(grammar);
+  if (!language) {
+    parserReady ??= Parser.init();
+    language = parserReady.then(() =>
+      Parser.Language.load(require.resolve(`tree-sitter-wasms/out/tree-sitter-${grammar}.wasm`))
+    );
+    // Let a failed load be retried
+    language.catch(() => languages.delete(grammar));
+    languages.set(grammar, language);
+  }
+  return language;
+}
+
+/**
+ * Lines of a file picked for the context, keeping track of the size of the rendered context
+ * Each line counts as its own size plus one for its newline
+ */
+class ContextLines {
+  private readonly rows = new Set<number>();
+  /** Size of the rendered context plus one */
+  private size = 0;
+  private readonly lineSizes = new Map<number, number>();
+  private readonly gapSize: number;
+
+  constructor(
+    private readonly lines: string[],
+    private readonly maxSize: number,
+    private readonly measure: (text: string) => number
+  ) {
+    this.gapSize = measure(GAP_MARKER) + 1;
+  }
+
+  has(row: number): boolean {
+    return this.rows.has(row);
+  }
+
+  /**
+   * Add rows `from` to `to` (0-based) if they all fit, returning whether they did
+   */
+  tryAdd(from: number, to: number): boolean {
+    const added: number[] = [];
+    for (let row = from; row <= to; row++) {
+      if (!this.rows.has(row)) {
+        this.size += this.cost(row);
+        this.rows.add(row);
+        added.push(row);
+      }
+    }
+
+    if (this.size - 1 <= this.maxSize) {
+      return true;
+    }
+    for (const row of added.reverse()) {
+      this.rows.delete(row);
+      this.size -= this.cost(row);
+    }
+    return false;
+  }
+
+  /**
+   * Size a row not in the context adds to it, including gap markers it opens or closes
+   */
+  private cost(row: number): number {
+    let gaps = 0;
+    if (this.rows.size > 0) {
+      const neighbors = Number(this.rows.has(row - 1)) + Number(this.rows.has(row + 1));
+      gaps = 1 - neighbors;
+    }
+    let lineSize = this.lineSizes.get(row);
+    if (lineSize === undefined) {
+      lineSize = this.measure(this.lines[row]) + 1;
+      this.lineSizes.set(row, lineSize);
+    }
+    return lineSize + gaps * this.gapSize;
+  }
+
+  render(): { context: string; firstRow: number; lastRow: number } {
+    const rows = [...this.rows].sort((a, b) => a - b);
+    const parts: string[] = [];
+    rows.forEach((row, i) => {
+      if (i > 0 && row !== rows[i - 1] + 1) {
+        parts.push(GAP_MARKER);
+      }
+      parts.push(this.lines[row]);
+    });
+    return { context: parts.join('\n'), firstRow: rows[0], lastRow: rows[rows.length - 1] };
+  }
+}
+
+/**
+ * Select code context for lines `startLine` to `endLine` (1-based) of a file from its syntax tree
+ * In order, while they fit in `maxSize`: the selection, the innermost enclosing
+ * function (or its signature when it is too long), the signatures of the outer functions
+ * and classes, the imports, the signatures of declarations the selection refers to and
+ * lines around the selection, kept within the innermost function
+ * Returns null for languages without a grammar, when parsing fails or when the selection
+ * alone does not fit, leaving the context to line-based slicing
+ */
+export async function selectSyntaxContext(
+  content: string,
+  startLine: number,
+  endLine: number,
+  options: SyntaxContextOptions
+): Promise<SyntaxContext | null> {
+  try {
+    return await readSyntaxTree(content, options.language, options.fileName, root =>
+      buildContext(root, content.split('\n'), startLine - 1, endLine - 1, options)
+    );
+  } catch (error) {
+    console.warn(`Could not parse ${options.fileName ?? options.language} for context:`, error);
+    return null;
+  }
+}
+
+/**
+ * Parse a file with the grammar of its language and read its syntax tree, which is freed afterwards
+ * Returns null for languages without a grammar; loading and parsing errors are thrown
+ */
+export async function readSyntaxTree<T>(
+  content: string,
+  language: string,
+  fileName: string | undefined,
+  read: (root: SyntaxNode) => T
+): Promise<T | null> {
+  const grammar = getGrammarName(language, fileName);
+  if (!grammar) {
+    return null;
+  }
+
+  let parser: TreeSitter | null = null;
+  let tree: TreeSitter.Tree | null = null;
+  try {
+    const loaded = await loadLanguage(grammar);
+    parser = new Parser();
+    parser.setLanguage(loaded);
+    tree = parser.parse(content);
+    return read(tree.rootNode);
+  } finally {
+    tree?.delete();
+    parser?.delete();
+  }
+}
+
+function buildContext(
+  root: SyntaxNode,
+  lines: string[],
+  startRow: number,
+  endRow: number,
+  options: SyntaxContextOptions
+): SyntaxContext | null {
+  const lastRow = Math.min(Math.max(endRow, startRow), lines.length - 1);
+  const picked = new ContextLines(lines, options.maxSize, options.measure ?? (text => text.length));
+  if (!picked.tryAdd(startRow, lastRow)) {
+    return null;
+  }
+
+  let wasTruncated = false;
+  const add = (range: [number, number]) => {
+    if (!picked.tryAdd(range[0], range[1])) {
+      wasTruncated = true;
+    }
+  };
+
+  const indent = lines[startRow].length - lines[startRow].trimStart().length;
+  const selected = root.descendantForPosition(
+    { row: startRow, column: indent },
+    { row: lastRow, column: Math.max(0, lines[lastRow].length - 1) }
+  );
+  // The root is left out: Python names it `module`, like Ruby modules
+  const enclosing = ancestors(selected).filter(node => node.parent && (isFunction(node) || isClass(node)));
+  const innermostFunction = enclosing.find(isFunction);
+
+  if (innermostFunction && !picked.tryAdd(...rowsOf(innermostFunction))) {
+    wasTruncated = true;
+    add(signatureRows(innermostFunction, lines));
+  }
+  for (const node of enclosing) {
+    add(signatureRows(node, lines));
+  }
+
+  for (const node of root.descendantsOfType(IMPORT_TYPES)) {
+    add(rowsOf(node));
+  }
+
+  for (const node of referencedDeclarations(root, startRow, lastRow)) {
+    add(signatureRows(node, lines));
+  }
+
+  // Lines around the selection, nearest first, staying inside the innermost function
+  const [minRow, maxRow] = innermostFunction ? rowsOf(innermostFunction) : [0, lines.length - 1];
+  const above = Math.max(minRow, startRow - options.surroundingLines);
+  const below = Math.min(maxRow, lastRow + options.surroundingLines);
+  let up = startRow - 1;
+  let down = lastRow + 1;
+  while (up >= above || down <= below) {
+    if (up >= above && !picked.has(up) && !picked.tryAdd(up, up)) {
+      wasTruncated = true;
+      break;
+    }
+    if (down <= below && !picked.has(down) && !picked.tryAdd(down, down)) {
+      wasTruncated = true;
+      break;
+    }
+    up--;
+    down++;
+  }
+
+  const { context, firstRow, lastRow: contextLastRow } = picked.render();
+  return {
+    context,
+    contextStartLine: firstRow + 1,
+    contextEndLine: contextLastRow + 1,
+    wasTruncated,
+  };
+}
+
+export function isFunction(node: SyntaxNode): boolean {
+  return FUNCTION_TYPES.includes(node.type);
+}
+
+export function isClass(node: SyntaxNode): boolean {
+  return CLASS_TYPES.includes(node.type);
+}
+
+/**
+ * A node and its ancestors, innermost first
+ */
+function ancestors(node: SyntaxNode): SyntaxNode[] {
+  const nodes: SyntaxNode[] = [];
+  for (let current: SyntaxNode | null = node; current; current = current.parent) {
+    nodes.push(current);
+  }
+  return nodes;
+}
+
+/**
+ * The declaration a node belongs to, including `export`, decorators and `const x =`
+ */
+export function outermost(node: SyntaxNode): SyntaxNode {
+  let current = node;
+  while (current.parent && WRAPPER_TYPES.has(current.parent.type)) {
+    current = current.parent;
+  }
+  return current;
+}
+
+/**
+ * First and last row (0-based) of a declaration, including `export`, decorators and `const x =`
+ */
+export function rowsOf(node: SyntaxNode): [number, number] {
+  const { startPosition, endPosition } = outermost(node);
+  // Some nodes, like C includes, end at the start of the next line
+  const endRow = endPosition.column === 0 && endPosition.row > startPosition.row ? endPosition.row - 1 : endPosition.row;
+  return [startPosition.row, endRow];
+}
+
+function bodyOf(node: SyntaxNode): SyntaxNode | null {
+  const value = node.type === 'variable_declarator' ? node.childForFieldName('value') : node;
+  if (!value) {
+    return null;
+  }
+  return value.childForFieldName('body') ?? value.namedChildren.find(child => BODY_TYPES.has(child.type)) ?? null;
+}
+
+/**
+ * Lines of a declaration up to where its body starts
+ * Declarations without a body are signatures themselves when they are short enough
+ */
+function signatureRows(node: SyntaxNode, lines: string[]): [number, number] {
+  const [start, end] = rowsOf(node);
+  const body = bodyOf(node);
+  if (!body) {
+    return end - start < MAX_SIGNATURE_LINES ? [start, end] : [start, start];
+  }
+
+  const { row, column } = body.startPosition;
+  // Indented bodies (Python, Ruby) start on the line after the signature
+  const startsLine = lines[row].slice(0, column).trim() === '';
+  if (row > start && startsLine && !body.text.startsWith('{')) {
+    return [start, row - 1];
+  }
+  return [start, Math.max(start, row)];
+}
+
+/**
+ * Name a declaration is referred to by, including C and C++ functions named by their declarator
+ */
+export function nameOf(node: SyntaxNode): string | null {
+  const name = node.childForFieldName('name');
+  if (name) {
+    return name.text;
+  }
+
+  let declarator = node.childForFieldName('declarator');
+  while (declarator) {
+    if (declarator.type === 'qualified_identifier') {
+      declarator = declarator.childForFieldName('name');
+    } else if (IDENTIFIER_TYPES.includes(declarator.type)) {
+      return declarator.text;
+    } else {
+      declarator = declarator.childForFieldName('declarator');
+    }
+  }
+  return null;
+}
+
+/**
+ * Module and class level declarations the selection refers to, in the order it first does
+ * Declarations inside functions are left out: the enclosing function already covers them
+ */
+function referencedDeclarations(root: SyntaxNode, startRow: number, endRow: number): SyntaxNode[] {
+  const declarations = new Map<string, SyntaxNode[]>();
+  for (const node of root.descendantsOfType(DECLARATION_TYPES)) {
+    const name = nameOf(node);
+    const [start, end] = rowsOf(node);
+    const isLocal = ancestors(node).slice(1).some(isFunction);
+    const isSelected = start >= startRow && end <= endRow;
+    const enclosesSelection = start <= startRow && end >= endRow;
+    if (name && !isLocal && !isSelected && !enclosesSelection) {
+      declarations.set(name, [...(declarations.get(name) ?? []), node]);
+    }
+  }
+
+  const names = root
+    .descendantsOfType(IDENTIFIER_TYPES, { row: startRow, column: 0 }, { row: endRow + 1, column: 0 })
+    .filter(node => node.startPosition.row >= startRow && node.startPosition.row <= endRow)
+    .map(node => node.text);
+
+  return [...new Set(names)].flatMap(name => declarations.get(name) ?? []);
+}
@@ -1,18 +1,81 @@
+import { Tiktoken } from 'js-tiktoken/lite';
+import cl100kBase from 'js-tiktoken/ranks/cl100k_base';
+import o200kBase from 'js-tiktoken/ranks/o200k_base';
+
 /**
  * Token limits for different models
+ * Extend or override them without code changes through the AI_MODEL_LIMITS environment
+ * variable, e.g. {"my-model": 32000, "gpt-4o": {"contextWindow": 128000, "outputReserve": 4000}}
  */
 export const MODEL_TOKEN_LIMITS: Record<string, number> = {
     // OpenAI models
+    'gpt-4o': 128000,
+    'gpt-4o-mini': 128000,
+    'gpt-4.1': 1047576,
+    'gpt-4-turbo': 128000,
     'gpt-4-turbo-preview': 128000,
     'gpt-4': 8192,
     'gpt-4-32k': 32768,
     'gpt-3.5-turbo': 4096,
     'gpt-3.5-turbo-16k': 16384,
+    'o1': 200000,
+    'o3': 200000,
+    'o4-mini': 200000,
+
+    // Anthropic models
+    'claude': 200000,
+
+    // Local models
+    'llama3': 8192,
+    'llama3.1': 131072,
+    'codellama': 16384,
+    'mistral': 32768,
 
     // Default
     'default': 4096,
 };
 
+/** Tokens reserved for the response when neither the caller nor the model configuration sets one */
+export const DEFAULT_OUTPUT_RESERVE = 2000;
+
+/**
+ * Token limits configured for a model
+ */
+export interface ModelLimit {
+    contextWindow: number;
+    /** Tokens reserved for the response */
+    outputReserve?: number;
+}
+
+/**
+ * Counts the tokens of a string for a particular tokenizer
+ */
+export type TokenCounter = (text: string) => number;
+
+type EncodingName = 'cl100k_base' | 'o200k_base';
+
+/** BPE ranks bundled for each encoding */
+const ENCODING_RANKS = {
+    cl100k_base: cl100kBase,
+    o200k_base: o200kBase,
+};
+
+/** Encoding used by each OpenAI model family, checked in order */
+const MODEL_ENCODINGS: Array<[RegExp, EncodingName]> = [
+    [/gpt-4o|gpt-4\.1|gpt-5|(^|\/)o\d/, 'o200k_base'],
+    [/gpt-4|gpt-3\.5|text-embedding/, 'cl100k_base'],
+];
+
+/**
+ * Runs of non-whitespace longer than this (minified code, embedded data) are estimated
+ * instead of encoded, as BPE merging is quadratic in the length of a run
+ */
+const MAX_ENCODED_RUN_LENGTH = 200;
+const LONG_RUN_PATTERN = new RegExp(`\\S{${MAX_ENCODED_RUN_LENGTH + 1},}`, 'g');
+
+const encoders = new Map<EncodingName, Tiktoken>();
+const customCounters: Array<{ pattern: string | RegExp; counter: TokenCounter }> = [];
+
 /**
  * Estimate token count for a string
  * Uses a simple heuristic: ~4 characters per token for English text
@@ -32,33 +95,172 @@ export function estimateTokenCount(text: string): number {
 }
 
 /**
- * Get the token limit for a model
+ * Get the encoder for an encoding, building it from the ranks on first use
  */
-export function getModelTokenLimit(model: string): number {
-    // Check for exact match
-    if (MODEL_TOKEN_LIMITS[model]) {
-        return MODEL_TOKEN_LIMITS[model];
+function getEncoder(encoding: EncodingName): Tiktoken {
+    let encoder = encoders.get(encoding);
+    if (!encoder) {
+        encoder = new Tiktoken(ENCODING_RANKS[encoding]);
+        encoders.set(encoding, encoder);
     }
+    return encoder;
+}
+
+/**
+ * Create a counter for a BPE encoding
+ */
+function createEncodingCounter(encoding: EncodingName): TokenCounter {
+    return (text: string) => {
+        if (!text) {
+            return 0;
+        }
+
+        const encoder = getEncoder(encoding);
+        let tokens = 0;
+        let offset = 0;
 
-    // Check for partial match (model name contains key)
-    for (const [key, limit] of Object.entries(MODEL_TOKEN_LIMITS)) {
-        if (model.toLowerCase().includes(key.toLowerCase())) {
-            return limit;
+        for (const match of text.matchAll(LONG_RUN_PATTERN)) {
+            tokens += encoder.encode(text.slice(offset, match.index), [], []).length;
+            tokens += estimateTokenCount(match[0]);
+            offset = (match.index ?? 0) + match[0].length;
         }
+
+        return tokens + encoder.encode(text.slice(offset), [], []).length;
+    };
+}
+
+const encodingCounters: Record<EncodingName, TokenCounter> = {
+    cl100k_base: createEncodingCounter('cl100k_base'),
+    o200k_base: createEncodingCounter('o200k_base'),
+};
+
+/**
+ * Register a token counter for models matching `pattern` (a substring or a regular expression)
+ * Use this for providers whose tokenizer is not bundled; later registrations take precedence
+ */
+export function registerTokenCounter(pattern: string | RegExp, counter: TokenCounter): void {
+    customCounters.unshift({ pattern, counter });
+}
+
+/**
+ * Remove a counter added with registerTokenCounter
+ */
+export function unregisterTokenCounter(counter: TokenCounter): void {
+    const index = customCounters.findIndex(entry => entry.counter === counter);
+    if (index !== -1) {
+        customCounters.splice(index, 1);
+    }
+}
+
+/**
+ * Get the token counter for a model
+ * Registered counters come first, then the model family's BPE encoding. Other models
+ * (and calls without a model) are counted with cl100k_base, which is close to most
+ * modern tokenizers
+ */
+export function getTokenCounter(model?: string): TokenCounter {
+    const name = (model || '').toLowerCase();
+
+    const custom = customCounters.find(({ pattern }) =>
+        typeof pattern === 'string' ? name.includes(pattern.toLowerCase()) : pattern.test(name)
+    );
+    if (custom) {
+        return custom.counter;
     }
 
-    return MODEL_TOKEN_LIMITS['default'];
+    const family = MODEL_ENCODINGS.find(([pattern]) => pattern.test(name));
+    return encodingCounters[family ? family[1] : 'cl100k_base'];
+}
+
+/**
+ * Count the tokens of a string with the model's tokenizer
+ */
+export function countTokens(text: string, model?: string): number {
+    return getTokenCounter(model)(text);
+}
+
+let configuredLimitsSource: string | undefined;
+let configuredLimits: Record<string, ModelLimit> = {};
+
+/**
+ * Model limits configured through AI_MODEL_LIMITS, parsed once per value
+ */
+function getConfiguredLimits(): Record<string, ModelLimit> {
+    const source = process.env.AI_MODEL_LIMITS;
+    if (source === configuredLimitsSource) {
+        return configuredLimits;
+    }
+
+    configuredLimitsSource = source;
+    configuredLimits = {};
+    if (!source) {
+        return configuredLimits;
+    }
+
+    try {
+        const parsed = JSON.parse(source) as Record<string, unknown>;
+        for (const [model, value] of Object.entries(parsed)) {
+            const limit = typeof value === 'number' ? { contextWindow: value } : value as ModelLimit;
+            if (!limit || !Number.isInteger(limit.contextWindow) || limit.contextWindow <= 0) {
+                console.warn(`Ignoring invalid AI_MODEL_LIMITS entry for ${model}`);
+                continue;
+            }
+            configuredLimits[model.toLowerCase()] = limit;
+        }
+    } catch (error) {
+        console.warn('Ignoring AI_MODEL_LIMITS: ' + (error as Error).message);
+    }
+
+    return configuredLimits;
+}
+
+/**
+ * Get the token limits for a model
+ * Configured limits are merged over the built-in ones; an exact match wins, else the
+ * longest model name contained in `model`
+ */
+export function getModelLimit(model: string): ModelLimit {
+    const limits: Record<string, ModelLimit> = {};
+    for (const [key, contextWindow] of Object.entries(MODEL_TOKEN_LIMITS)) {
+        limits[key.toLowerCase()] = { contextWindow };
+    }
+    Object.assign(limits, getConfiguredLimits());
+
+    const name = model.toLowerCase();
+    if (limits[name]) {
+        return limits[name];
+    }
+
+    const partial = Object.keys(limits)
+        .filter(key => key !== 'default' && name.includes(key))
+        .sort((a, b) => b.length - a.length)[0];
+    return limits[partial ?? 'default'];
+}
+
+/**
+ * Get the token limit for a model
+ */
+export function getModelTokenLimit(model: string): number {
+    return getModelLimit(model).contextWindow;
+}
+
+/**
+ * Get the tokens to reserve for a model's response
+ */
+export function getOutputReserve(model: string): number {
+    return getModelLimit(model).outputReserve ?? DEFAULT_OUTPUT_RESERVE;
 }
 
 /**
  * Calculate available tokens for context after reserving space for response
+ * Without an explicit reserve, the model's configured output reserve is used
  */
 export function getAvailableContextTokens(
     model: string,
-    reserveForResponse: number = 2000
+    reserveForResponse?: number
 ): number {
     const limit = getModelTokenLimit(model);
-    return Math.max(0, limit - reserveForResponse);
+    return Math.max(0, limit - (reserveForResponse ?? getOutputReserve(model)));
 }
 
 /**
@@ -67,9 +269,9 @@ export function getAvailableContextTokens(
 export function fitsWithinLimit(
     content: string,
     model: string,
-    reserveForResponse: number = 2000
+    reserveForResponse?: number
 ): boolean {
-    const tokens = estimateTokenCount(content);
+    const tokens = countTokens(content, model);
     const available = getAvailableContextTokens(model, reserveForResponse);
     return tokens <= available;
 }
@@ -80,9 +282,9 @@ export function fitsWithinLimit(
 export function truncateToFitLimit(
     content: string,
     model: string,
-    reserveForResponse: number = 2000
+    reserveForResponse?: number
 ): { content: string; wasTruncated: boolean; originalTokens: number; finalTokens: number } {
-    const originalTokens = estimateTokenCount(content);
+    const originalTokens = countTokens(content, model);
     const available = getAvailableContextTokens(model, reserveForResponse);
 
     if (originalTokens <= available) {
@@ -94,21 +296,25 @@ export function truncateToFitLimit(
         };
     }
 
-    // Calculate approximate character limit
-    // Using a more conservative ratio for truncation
-    const targetChars = Math.floor(available * 3);
+    // Truncate from the middle to preserve start and end context, starting from the
+    // content's own characters-per-token ratio and shrinking until the count fits
+    const marker = '\n\n... [content truncated] ...\n\n';
+    let targetChars = Math.floor(content.length * (available - countTokens(marker, model)) / originalTokens);
+    let truncated = '';
+    let finalTokens = 0;
 
-    // Truncate from the middle to preserve start and end context
-    const halfTarget = Math.floor(targetChars / 2);
-    const truncated = content.slice(0, halfTarget) +
-        '\n\n... [content truncated] ...\n\n' +
-        content.slice(-halfTarget);
+    do {
+        const halfTarget = Math.max(0, Math.floor(targetChars / 2));
+        truncated = content.slice(0, halfTarget) + marker + (halfTarget > 0 ? content.slice(-halfTarget) : '');
+        finalTokens = countTokens(truncated, model);
+        targetChars = Math.floor(targetChars * 0.9);
+    } while (finalTokens > available && targetChars > 0);
 
     return {
         content: truncated,
         wasTruncated: true,
         originalTokens,
-        finalTokens: estimateTokenCount(truncated),
+        finalTokens,
     };
 }
 
@@ -118,43 +324,108 @@ export function truncateToFitLimit(
 export function splitIntoChunks(
     content: string,
     model: string,
-    reserveForResponse: number = 2000,
+    reserveForResponse?: number,
     overlap: number = 100
 ): string[] {
     const available = getAvailableContextTokens(model, reserveForResponse);
-    const targetChars = Math.floor(available * 3);
+    const count = getTokenCounter(model);
 
-    if (content.length <= targetChars) {
+    if (count(content) <= available) {
         return [content];
     }
 
     const chunks: string[] = [];
-    const lines = content.split('\n');
-    let currentChunk = '';
-
-    for (const line of lines) {
-        const potentialChunk = currentChunk + (currentChunk ? '\n' : '') + line;
-
-        if (estimateTokenCount(potentialChunk) > available) {
-            if (currentChunk) {
-                chunks.push(currentChunk);
-                // Start new chunk with overlap
-                const overlapLines = currentChunk.split('\n').slice(-overlap);
-                currentChunk = overlapLines.join('\n') + '\n' + line;
-            } else {
+    // Lines of the current chunk with their token counts, each including its newline
+    let current: Array<{ line: string; tokens: number }> = [];
+    let currentTokens = 0;
+
+    for (const line of content.split('\n')) {
+        const tokens = count(line) + 1;
+
+        if (currentTokens + tokens > available) {
+            if (current.length > 0) {
+                chunks.push(current.map(entry => entry.line).join('\n'));
+                // Start new chunk with overlap, as long as it leaves room for the line
+                current = current.slice(-overlap);
+                currentTokens = current.reduce((sum, entry) => sum + entry.tokens, 0);
+                while (current.length > 0 && currentTokens + tokens > available) {
+                    currentTokens -= current.shift()!.tokens;
+                }
+            }
+
+            if (tokens > available) {
                 // Single line exceeds limit, truncate it
-                chunks.push(line.slice(0, targetChars));
-                currentChunk = '';
+                chunks.push(truncateToFitLimit(line, model, reserveForResponse).content);
+                current = [];
+                currentTokens = 0;
+                continue;
             }
-        } else {
-            currentChunk = potentialChunk;
         }
+
+        current.push({ line, tokens });
+        currentTokens += tokens;
     }
 
-    if (currentChunk) {
-        chunks.push(currentChunk);
+    if (current.length > 0) {
+        chunks.push(current.map(entry => entry.line).join('\n'));
     }
 
     return chunks;
 }
 
+/**
+ * A chunk of content with the line numbers it covers in the original content
+ */
+export interface LineChunk {
+    content: string;
+    /** First line of the chunk (1-based) */
+    startLine: number;
+    /** Last line of the chunk (1-based, inclusive) */
+    endLine: number;
+}
+
+/**
+ * Split content into chunks of whole lines that fit within a token budget
+ * Consecutive chunks share `overlapLines` lines, so code spanning a chunk boundary
+ * is seen whole by at least one chunk; the overlap is capped at half a chunk,
+ * so chunks of a few long lines still advance by half their length
+ */
+export function splitIntoLineChunks(
+    content: string,
+    maxTokens: number,
+    overlapLines: number = 20,
+    model?: string
+): LineChunk[] {
+    const lines = content.split('\n');
+    const count = getTokenCounter(model);
+    // Count each line with its newline
+    const lineTokens = lines.map(line => count(line) + 1);
+    const chunks: LineChunk[] = [];
+    let start = 0;
+
+    while (start < lines.length) {
+        let end = start;
+        let tokens = 0;
+
+        // Always take at least one line, even if it exceeds the budget on its own
+        while (end < lines.length && (end === start || tokens + lineTokens[end] <= maxTokens)) {
+            tokens += lineTokens[end];
+            end++;
+        }
+
+        chunks.push({
+            content: lines.slice(start, end).join('\n'),
+            startLine: start + 1,
+            endLine: end,
+        });
+
+        if (end >= lines.length) {
+            break;
+        }
+
+        // Step back for the overlap, but never by more than half the chunk
+        start = end - Math.min(overlapLines, Math.floor((end - start) / 2));
+    }
+
+    return chunks;
+}
@@ -1,34 +1,88 @@
-import { useState, useCallback, useRef } from 'react';
+import { useState, useCallback, useEffect, useRef, useMemo } from 'react';
+import { pickModeFields, type ReviewMode } from '@ai-code-review/shared';
 import CodeEditor, { CodeEditorHandle, CodeIssue } from './components/CodeEditor';
 import FileUpload from './components/FileUpload';
 import ThreadPanel from './components/ThreadPanel';
+import SyncStatus from './components/SyncStatus';
+import LoginForm from './components/LoginForm';
+import WorkspaceSwitcher from './components/WorkspaceSwitcher';
+import RepositoryImport, { ImportedFile } from './components/RepositoryImport';
+import DiffReviewSetup from './components/DiffReviewSetup';
+import DiffReviewEditor, { DiffSelection } from './components/DiffReviewEditor';
+import ScanResults from './components/ScanResults';
+import SearchPanel from './components/SearchPanel';
+import ReviewModeSelect from './components/ReviewModeSelect';
 import { ThreadProvider, useThreads } from './context/ThreadContext';
+import { AuthProvider } from './context/AuthContext';
+import { useAuth } from './context/useAuth';
+import { WorkspaceProvider } from './context/WorkspaceContext';
+import { useWorkspaces } from './context/useWorkspaces';
 import { SelectionRange } from './utils/selectionUtils';
-import { scanFile } from './services/apiService';
+import {
+  scanFile,
+  getLatestScan,
+  linkScanIssue,
+  exportThreadsSarif,
+  indexFile,
+  removeIndexedFile,
+  ScanIssue,
+  ExportedScan,
+  SearchResult,
+} from './services/apiService';
+import { ApplyDiffResult } from './utils/diffUtils';
+import { DiffReview } from './utils/diffReview';
+import { issuesFromSarif } from './utils/sarifImport';
+import { readFileContent, downloadFile } from './utils/fileUtils';
+import { Thread, ThreadSource } from './types/thread';
 
 interface FileData {
   name: string;
   content: string;
   language: string;
+  /** Repository version the file was read from */
+  source?: ThreadSource;
 }
 
+/** Wait after the last edit before indexing a file for code search */
+const INDEX_DELAY_MS = 2000;
+
 interface FileIssues {
   [fileName: string]: CodeIssue[];
 }
 
+/**
+ * Issues of a scan as shown in the editor
+ */
+function toCodeIssues(fileName: string, issues: ScanIssue[]): CodeIssue[] {
+  return issues.map(issue => ({ ...issue, diff: issue.diff ?? undefined, fileName }));
+}
+
 function AppContent() {
   const [files, setFiles] = useState<FileData[]>([]);
   const [activeFileIndex, setActiveFileIndex] = useState<number>(0);
   const [selection, setSelection] = useState<SelectionRange | null>(null);
   const [showThreadPanel, setShowThreadPanel] = useState(true);
   const [showNewFileModal, setShowNewFileModal] = useState(false);
+  const [showRepositoryImport, setShowRepositoryImport] = useState(false);
+  const [showDiffReviewSetup, setShowDiffReviewSetup] = useState(false);
+  const [diffReview, setDiffReview] = useState<DiffReview | null>(null);
+  const [activeDiffFileIndex, setActiveDiffFileIndex] = useState(0);
+  const [diffSelection, setDiffSelection] = useState<DiffSelection | null>(null);
   const [newFileName, setNewFileName] = useState('untitled.js');
   const [isScanning, setIsScanning] = useState(false);
+  const [scanMode, setScanMode] = useState<ReviewMode>('general');
   const [fileIssues, setFileIssues] = useState<FileIssues>({});
+  const [fixedIssues, setFixedIssues] = useState<FileIssues>({});
   
   const editorRef = useRef<CodeEditorHandle>(null);
+  const sarifInputRef = useRef<HTMLInputElement>(null);
+  const previousContentRef = useRef<Record<string, string>>({});
+  const scansLoadedRef = useRef(new Set<string>());
+  /** Content of each file as last sent to the search index */
+  const indexedContentRef = useRef<Record<string, string>>({});
 
-  const { createThread, setActiveThread } = useThreads();
+  const { createThread, setActiveThread, relocateThreads, getThreadById } = useThreads();
+  const { user, logout } = useAuth();
 
   const handleNewFile = useCallback(() => {
     const extension = newFileName.split('.').pop() || 'js';
@@ -256,6 +310,19 @@ handler = APIHandler()
     });
   }, []);
 
+  // A file read again from a repository replaces its open tab
+  const handleFileImported = useCallback((file: ImportedFile) => {
+    setFiles(prev => {
+      const index = prev.findIndex(f => f.name === file.name);
+      if (index === -1) {
+        return [...prev, file];
+      }
+      const updated = [...prev];
+      updated[index] = file;
+      return updated;
+    });
+  }, []);
+
   const handleCodeChange = useCallback((newCode: string) => {
     setFiles(prev => {
       if (prev.length === 0 || activeFileIndex >= prev.length) {
@@ -270,6 +337,25 @@ handler = APIHandler()
     });
   }, [activeFileIndex]);
 
+  // Keep threads on their code as files are edited
+  useEffect(() => {
+    const previous = previousContentRef.current;
+    for (const file of files) {
+      if (previous[file.name] !== undefined && previous[file.name] !== file.content) {
+        relocateThreads(file.name, previous[file.name], file.content);
+      }
+    }
+    previousContentRef.current = Object.fromEntries(files.map(file => [file.name, file.content]));
+  }, [files, relocateThreads]);
+
+  const handleApplySuggestion = useCallback((thread: Thread, diff: string): ApplyDiffResult => {
+    if (!editorRef.current) {
+      return { applied: false, conflicts: [{ expected: [], reason: 'The editor is not ready' }] };
+    }
+    // The buffer change reaches the file through the editor's onChange
+    return editorRef.current.applyDiff(diff, { nearLine: thread.range.startLine });
+  }, []);
+
   const handleSelectionChange = useCallback((newSelection: SelectionRange | null) => {
     setSelection(newSelection);
   }, []);
@@ -315,30 +401,29 @@ handler = APIHandler()
         code: currentFile.content,
         language: currentFile.language,
         fileName: currentFile.name,
+        mode: scanMode,
       });
 
       console.log('Scan result:', result);
-      console.log('Issues found:', result.issues);
 
-      // Add file name to each issue for tracking
-      const issuesWithFile = result.issues.map(issue => ({
-        ...issue,
-        fileName: currentFile.name,
-      }));
+      // Fixed issues are listed but have no markers, since their code is gone
+      const issues = toCodeIssues(currentFile.name, result.issues);
+      const foundIssues = issues.filter(issue => issue.status !== 'fixed');
 
-      // Store issues for this file
+      // Store issues for this file, keeping the ones imported from other analyzers
+      const importedIssues = (fileIssues[currentFile.name] ?? []).filter(issue => issue.tool);
+      const allIssues = [...importedIssues, ...foundIssues];
       setFileIssues(prev => ({
         ...prev,
-        [currentFile.name]: issuesWithFile,
+        [currentFile.name]: allIssues,
+      }));
+      setFixedIssues(prev => ({
+        ...prev,
+        [currentFile.name]: issues.filter(issue => issue.status === 'fixed'),
       }));
 
-      // Show issues in editor (use issuesWithFile to include file name)
-      if (editorRef.current && issuesWithFile.length > 0) {
-        console.log('Setting issue markers for', issuesWithFile.length, 'issues');
-        editorRef.current.setIssueMarkers(issuesWithFile);
-      } else {
-        console.log('No issues to display or editor not ready');
-      }
+      // Show issues in editor
+      editorRef.current?.setIssueMarkers(allIssues);
     } catch (error) {
       console.error('Failed to scan file:', error);
       // Show error to user
@@ -346,10 +431,133 @@ handler = APIHandler()
     } finally {
       setIsScanning(false);
     }
-  }, [files, activeFileIndex, isScanning]);
+  }, [files, activeFileIndex, isScanning, fileIssues, scanMode]);
+
+  // Show the last stored scan of each opened file, unless the file was scanned since
+  useEffect(() => {
+    for (const file of files) {
+      if (scansLoadedRef.current.has(file.name)) continue;
+      scansLoadedRef.current.add(file.name);
+
+      getLatestScan(file.name)
+        .then(run => {
+          if (!run) return;
+          const issues = toCodeIssues(file.name, run.issues);
+          setFileIssues(prev => {
+            const current = prev[file.name] ?? [];
+            if (current.some(issue => !issue.tool)) return prev;
+            return { ...prev, [file.name]: [...current, ...issues.filter(issue => issue.status !== 'fixed')] };
+          });
+          setFixedIssues(prev =>
+            prev[file.name] ? prev : { ...prev, [file.name]: issues.filter(issue => issue.status === 'fixed') }
+          );
+        })
+        .catch(error => {
+          // Scans are only kept by the backend; offline there is nothing to show
+          console.error('Failed to load the last scan of', file.name, error);
+        });
+    }
+  }, [files]);
+
+  // Keep the workspace's search index in step with the open files, once editing pauses
+  useEffect(() => {
+    const timer = setTimeout(() => {
+      const indexed = indexedContentRef.current;
+      for (const file of files) {
+        if (indexed[file.name] === file.content) continue;
+        indexed[file.name] = file.content;
+        indexFile({ name: file.name, content: file.content, language: file.language }).catch(error => {
+          // Try again with the next change
+          delete indexed[file.name];
+          console.error('Failed to index', file.name, 'for code search:', error);
+        });
+      }
+      for (const name of Object.keys(indexed)) {
+        if (files.some(file => file.name === name)) continue;
+        delete indexed[name];
+        removeIndexedFile(name).catch(error => {
+          console.error('Failed to remove', name, 'from code search:', error);
+        });
+      }
+    }, INDEX_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [files]);
+
+  // Show the findings of ESLint, Semgrep, CodeQL and other SARIF producers on the open files
+  const handleSarifImport = useCallback(async (file: File) => {
+    try {
+      const { issues, unmatched, skipped } = issuesFromSarif(
+        JSON.parse(await readFileContent(file)),
+        files.map(f => f.name)
+      );
+
+      const tools = new Set(Object.values(issues).flat().map(issue => issue.tool));
+      const updated = { ...fileIssues };
+      for (const [fileName, imported] of Object.entries(issues)) {
+        // Importing a tool's results again replaces its earlier ones
+        const kept = (updated[fileName] ?? []).filter(issue => !issue.tool || !tools.has(issue.tool));
+        updated[fileName] = [...kept, ...imported];
+      }
+      setFileIssues(updated);
+
+      const currentFile = files[activeFileIndex];
+      if (editorRef.current && currentFile) {
+        editorRef.current.setIssueMarkers(updated[currentFile.name] ?? []);
+      }
+
+      if (unmatched > 0 || skipped > 0) {
+        alert(
+          `Skipped ${unmatched + skipped} of the findings: ` +
+          `${unmatched} on files that are not open, ${skipped} without a file location.`
+        );
+      }
+    } catch (error) {
+      console.error('Failed to import SARIF:', error);
+      alert(`Failed to import SARIF: ${error instanceof Error ? error.message : 'invalid file'}`);
+    }
+  }, [files, activeFileIndex, fileIssues]);
+
+  // AI scan issues of the open files, for exports
+  const scannedFiles = useMemo<ExportedScan[]>(() =>
+    Object.entries(fileIssues)
+      .map(([file, issues]) => ({
+        file,
+        issues: issues
+          .filter(issue => !issue.tool)
+          .map(issue => ({
+            startLine: issue.startLine,
+            endLine: issue.endLine,
+            severity: issue.severity,
+            category: issue.category as ScanIssue['category'],
+            message: issue.message,
+            fix: issue.fix ?? '',
+            diff: issue.diff,
+            ruleId: issue.ruleId,
+            ...pickModeFields(issue),
+          })),
+      }))
+      .filter(scan => scan.issues.length > 0),
+  [fileIssues]);
 
-  // Handle clicking on an issue marker
+  // Download the open threads and the AI scan issues as a SARIF log
+  const handleExportSarif = useCallback(async () => {
+    try {
+      const log = await exportThreadsSarif(scannedFiles);
+      downloadFile(JSON.stringify(log, null, 2), 'code-review.sarif', 'application/sarif+json');
+    } catch (error) {
+      console.error('Failed to export SARIF:', error);
+      alert('Failed to export SARIF. Please check if the backend is running.');
+    }
+  }, [scannedFiles]);
+
+  // Handle clicking on an issue marker: open the issue's thread, creating it the first time
   const handleIssueClick = useCallback((issue: CodeIssue) => {
+    if (issue.threadId && getThreadById(issue.threadId)) {
+      setActiveThread(issue.threadId);
+      setShowThreadPanel(true);
+      return;
+    }
+
     // Get the file this issue belongs to (from issue.fileName or fall back to current file)
     const issueFileName = (issue as CodeIssue & { fileName?: string }).fileName;
     const targetFile = issueFileName 
@@ -382,12 +590,53 @@ handler = APIHandler()
         endLine: issue.endLine,
       },
       selectedCode: targetFile.content.split('\n').slice(issue.startLine - 1, issue.endLine).join('\n'),
-      initialComment: `Review this code: ${issue.message}`,
+      fileContent: targetFile.content,
+      source: targetFile.source,
+      initialComment: issue.tool
+        ? `Explain this ${issue.tool} finding${issue.category ? ` (${issue.category})` : ''} and how to fix it: ${issue.message}`
+        : `Review this code: ${issue.message}`,
+    });
+
+    // Stored issues remember their thread, also in later scans that still find them
+    if (issue.runId) {
+      const link = (issues: FileIssues) => {
+        const list = issues[targetFile.name];
+        return list?.some(i => i.id === issue.id)
+          ? { ...issues, [targetFile.name]: list.map(i => (i.id === issue.id ? { ...i, threadId: thread.id } : i)) }
+          : issues;
+      };
+      setFileIssues(link);
+      setFixedIssues(link);
+      linkScanIssue(issue.id, thread.id).catch(error => {
+        console.error('Failed to link the issue to its thread:', error);
+      });
+    }
+
+    setActiveThread(thread.id);
+    setShowThreadPanel(true);
+  }, [files, activeFileIndex, createThread, setActiveThread, getThreadById]);
+
+  const handleAskAIOnDiff = useCallback(() => {
+    const diffFile = diffReview?.files[activeDiffFileIndex];
+    if (!diffReview || !diffFile || !diffSelection) return;
+
+    const thread = createThread({
+      file: diffFile.path,
+      range: {
+        startLine: diffSelection.startLine,
+        endLine: diffSelection.endLine,
+      },
+      selectedCode: diffSelection.selectedText,
+      fileContent: diffSelection.side === 'old' ? diffFile.original : diffFile.modified,
+      side: diffSelection.side,
+      baseRevision: diffReview.baseRevision,
+      headRevision: diffReview.headRevision,
+      initialComment: 'Review this change and suggest improvements.',
     });
 
     setActiveThread(thread.id);
     setShowThreadPanel(true);
-  }, [files, activeFileIndex, createThread, setActiveThread]);
+  }, [diffReview, activeDiffFileIndex, diffSelection, createThread, setActiveThread]);
 
   const handleAskAI = useCallback(() => {
     const currentFile = files[activeFileIndex];
@@ -400,6 +649,8 @@ handler = APIHandler()
         endLine: selection.endLine,
       },
       selectedCode: selection.selectedText,
+      fileContent: currentFile.content,
+      source: currentFile.source,
       initialComment: 'Review this code and suggest improvements.',
     });
 
@@ -408,6 +659,15 @@ handler = APIHandler()
   }, [selection, createThread, setActiveThread, files, activeFileIndex]);
 
   const activeFile = files[activeFileIndex];
+  const activeDiffFile = diffReview?.files[activeDiffFileIndex];
+  const activeFileName = activeFile?.name;
+
+  // Keep the markers in step with the issues of the active file, e.g. when its last scan loads
+  useEffect(() => {
+    if (activeFileName && !diffReview) {
+      editorRef.current?.setIssueMarkers(fileIssues[activeFileName] ?? []);
+    }
+  }, [fileIssues, activeFileName, diffReview]);
 
   // Clear and re-apply issue markers when switching files
   const handleFileChange = useCallback((index: number) => {
@@ -429,6 +689,40 @@ handler = APIHandler()
     }
   }, [files, fileIssues, setActiveThread]);
 
+  // Show the lines of a code search result, switching to its file first
+  const handleSelectSearchResult = useCallback((result: SearchResult) => {
+    const index = files.findIndex(f => f.name === result.file);
+    if (index === -1) return;
+
+    if (diffReview || index !== activeFileIndex) {
+      setDiffReview(null);
+      handleFileChange(index);
+    }
+    // After the editor shows the file
+    setTimeout(() => {
+      editorRef.current?.selectLines(result.startLine, result.endLine);
+    }, 0);
+  }, [files, activeFileIndex, diffReview, handleFileChange]);
+
+  const handleDiffReviewStart = useCallback((review: DiffReview) => {
+    setDiffReview(review);
+    setActiveDiffFileIndex(0);
+    setDiffSelection(null);
+    setActiveThread(null);
+  }, [setActiveThread]);
+
+  const handleDiffFileChange = useCallback((index: number) => {
+    setActiveDiffFileIndex(index);
+    setDiffSelection(null);
+    setActiveThread(null);
+  }, [setActiveThread]);
+
+  const handleExitDiffReview = useCallback(() => {
+    setDiffReview(null);
+    setDiffSelection(null);
+    setActiveThread(null);
+  }, [setActiveThread]);
+
   return (
     <div className="flex flex-col h-screen bg-[#1e1e1e]">
       {/* Header */}
@@ -436,7 +730,10 @@ handler = APIHandler()
         <h1 className="text-lg font-semibold text-white">AI Code Review Assistant</h1>
         <div className="flex items-center gap-4">
           {/* Scan File Button */}
-          {activeFile && (
+          {activeFile && !diffReview && (
+            <ReviewModeSelect value={scanMode} onChange={setScanMode} disabled={isScanning} label="Scan mode" />
+          )}
+          {activeFile && !diffReview && (
             <button
               className={`px-3 py-1 text-white rounded text-sm transition-colors flex items-center gap-2 ${
                 isScanning 
@@ -466,7 +763,7 @@ handler = APIHandler()
             </button>
           )}
           {/* Issue Count Badge */}
-          {activeFile && fileIssues[activeFile.name]?.length > 0 && (
+          {activeFile && !diffReview && fileIssues[activeFile.name]?.length > 0 && (
             <div className="flex items-center gap-1 text-sm">
               <span className="px-2 py-0.5 bg-red-600 text-white rounded-full text-xs font-medium">
                 {fileIssues[activeFile.name].length} {fileIssues[activeFile.name].length === 1 ? 'issue' : 'issues'}
@@ -474,7 +771,20 @@ handler = APIHandler()
             </div>
           )}
           {/* Selection Info and Ask AI */}
-          {selection && (
+          {diffReview && diffSelection && (
+            <div className="flex items-center gap-2 text-sm text-gray-400">
+              <span>
+                Selected: {diffSelection.side === 'old' ? 'Old' : 'New'} lines {diffSelection.startLine}-{diffSelection.endLine}
+              </span>
+              <button
+                className="px-3 py-1 bg-accent hover:bg-accent-hover text-white rounded text-sm transition-colors"
+                onClick={handleAskAIOnDiff}
+              >
+                Ask AI
+              </button>
+            </div>
+          )}
+          {!diffReview && selection && (
             <div className="flex items-center gap-2 text-sm text-gray-400">
               <span>Selected: Lines {selection.startLine}-{selection.endLine}</span>
               <button
@@ -485,6 +795,45 @@ handler = APIHandler()
               </button>
             </div>
           )}
+          <button
+            className="px-2 py-1 rounded text-xs text-gray-400 hover:bg-[#3c3c3c] hover:text-white"
+            onClick={() => sarifInputRef.current?.click()}
+            title="Show findings of ESLint, Semgrep, CodeQL or another analyzer on the open files"
+          >
+            Import SARIF
+          </button>
+          <input
+            ref={sarifInputRef}
+            type="file"
+            accept=".sarif,.json"
+            className="hidden"
+            aria-label="SARIF file"
+            onChange={(e) => {
+              const file = e.target.files?.[0];
+              e.target.value = '';
+              if (file) void handleSarifImport(file);
+            }}
+          />
+          <button
+            className="px-2 py-1 rounded text-xs text-gray-400 hover:bg-[#3c3c3c] hover:text-white"
+            onClick={() => void handleExportSarif()}
+            title="Download the open threads and scan issues as SARIF"
+          >
+            Export SARIF
+          </button>
+          <SyncStatus />
+          <WorkspaceSwitcher />
+          {user && (
+            <div className="flex items-center gap-2 text-sm text-gray-400">
+              <span title={user.username}>{user.displayName}</span>
+              <button
+                className="px-2 py-1 rounded text-xs hover:bg-[#3c3c3c] hover:text-white"
+                onClick={() => void logout()}
+              >
+                Sign out
+              </button>
+            </div>
+          )}
           <button
             className={`p-2 rounded hover:bg-[#3c3c3c] ${showThreadPanel ? 'text-accent' : 'text-gray-400'}`}
             onClick={() => setShowThreadPanel(!showThreadPanel)}
@@ -508,24 +857,73 @@ handler = APIHandler()
         <aside className="w-64 bg-[#252526] border-r border-[#3c3c3c] flex flex-col">
           <div className="p-3 border-b border-[#3c3c3c] flex justify-between items-center">
             <h2 className="text-sm font-medium text-gray-300 uppercase tracking-wide">Files</h2>
-            <button
-              className="text-gray-400 hover:text-white p-1 hover:bg-[#3c3c3c] rounded"
-              onClick={() => setShowNewFileModal(true)}
-              title="New file"
-            >
-              <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
-                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 4v16m8-8H4" />
-              </svg>
-            </button>
+            <div className="flex gap-1">
+              <button
+                className="text-gray-400 hover:text-white p-1 hover:bg-[#3c3c3c] rounded"
+                onClick={() => setShowNewFileModal(true)}
+                title="New file"
+              >
+                <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 4v16m8-8H4" />
+                </svg>
+              </button>
+              <button
+                className="text-gray-400 hover:text-white p-1 hover:bg-[#3c3c3c] rounded"
+                onClick={() => setShowRepositoryImport(true)}
+                title="Open repository"
+              >
+                <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M3 7a2 2 0 012-2h4l2 2h8a2 2 0 012 2v8a2 2 0 01-2 2H5a2 2 0 01-2-2V7z" />
+                </svg>
+              </button>
+              <button
+                className="text-gray-400 hover:text-white p-1 hover:bg-[#3c3c3c] rounded"
+                onClick={() => setShowDiffReviewSetup(true)}
+                title="Review changes"
+              >
+                <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M8 7h12m0 0l-4-4m4 4l-4 4m0 6H4m0 0l4 4m-4-4l4-4" />
+                </svg>
+              </button>
+            </div>
           </div>
+          {diffReview && (
+            <div className="flex flex-col border-b border-[#3c3c3c]" data-testid="diff-review-files">
+              <div className="flex items-center justify-between px-3 py-2">
+                <span
+                  className="text-xs text-gray-400 font-mono truncate"
+                  title={`${diffReview.baseRevision}..${diffReview.headRevision}`}
+                >
+                  {diffReview.baseRevision.slice(0, 12)}..{diffReview.headRevision.slice(0, 12)}
+                </span>
+                <button className="text-xs text-gray-400 hover:text-white" onClick={handleExitDiffReview}>
+                  Exit diff review
+                </button>
+              </div>
+              {diffReview.files.map((file, index) => (
+                <div
+                  key={file.path}
+                  className={`px-3 py-2 cursor-pointer hover:bg-[#2a2d2e] ${
+                    index === activeDiffFileIndex ? 'bg-[#37373d]' : ''
+                  }`}
+                  onClick={() => handleDiffFileChange(index)}
+                >
+                  <span className="text-sm text-gray-300 truncate">{file.path}</span>
+                </div>
+              ))}
+            </div>
+          )}
           <div className="flex-1 overflow-y-auto">
             {files.map((file, index) => (
               <div
                 key={`${file.name}-${index}`}
                 className={`flex items-center justify-between px-3 py-2 cursor-pointer hover:bg-[#2a2d2e] ${
-                  index === activeFileIndex ? 'bg-[#37373d]' : ''
+                  !diffReview && index === activeFileIndex ? 'bg-[#37373d]' : ''
                 }`}
-                onClick={() => handleFileChange(index)}
+                onClick={() => {
+                  setDiffReview(null);
+                  handleFileChange(index);
+                }}
               >
                 <span className="text-sm text-gray-300 truncate">{file.name}</span>
                 <button
@@ -540,6 +938,9 @@ handler = APIHandler()
               </div>
             ))}
           </div>
+          {files.length > 0 && (
+            <SearchPanel openFiles={files.map(f => f.name)} onSelectResult={handleSelectSearchResult} />
+          )}
           <div className="p-3 border-t border-[#3c3c3c]">
             <FileUpload onFilesUploaded={handleFilesUploaded} />
           </div>
@@ -547,7 +948,27 @@ handler = APIHandler()
 
         {/* Editor area */}
         <main className="flex-1 flex flex-col overflow-hidden">
-          {files.length > 0 ? (
+          {diffReview && activeDiffFile ? (
+            <>
+              <div className="flex justify-between px-4 py-2 bg-[#252526] border-b border-[#3c3c3c] text-sm">
+                <span className="text-gray-400 font-mono truncate" title={diffReview.baseRevision}>
+                  {activeDiffFile.path} @ {diffReview.baseRevision.slice(0, 12)}
+                </span>
+                <span className="text-white font-mono truncate" title={diffReview.headRevision}>
+                  {activeDiffFile.path} @ {diffReview.headRevision.slice(0, 12)}
+                </span>
+              </div>
+              <div className="flex-1 overflow-hidden">
+                <DiffReviewEditor
+                  key={activeDiffFile.path}
+                  original={activeDiffFile.original}
+                  modified={activeDiffFile.modified}
+                  language={activeDiffFile.language}
+                  onSelectionChange={setDiffSelection}
+                />
+              </div>
+            </>
+          ) : files.length > 0 ? (
             <>
               {/* Tab bar */}
               <div className="flex bg-[#252526] border-b border-[#3c3c3c] overflow-x-auto">
@@ -585,6 +1006,15 @@ handler = APIHandler()
                   onIssueClick={handleIssueClick}
                 />
               </div>
+              {(fileIssues[activeFile.name]?.length > 0 || fixedIssues[activeFile.name]?.length > 0) && (
+                <ScanResults
+                  issues={fileIssues[activeFile.name] ?? []}
+                  fixed={fixedIssues[activeFile.name] ?? []}
+                  onSelectIssue={(issue) => editorRef.current?.selectLines(issue.startLine, issue.endLine)}
+                  onOpenThread={handleIssueClick}
+                  hasThread={(threadId) => getThreadById(threadId) !== undefined}
+                />
+              )}
             </>
           ) : (
             <div className="flex-1 flex items-center justify-center">
@@ -615,6 +1045,24 @@ handler = APIHandler()
                       </svg>
                       Load Demo Files
                     </button>
+                    <button
+                      className="px-6 py-3 bg-[#3c3c3c] hover:bg-[#4c4c4c] text-white rounded-lg transition-colors flex items-center gap-2"
+                      onClick={() => setShowRepositoryImport(true)}
+                    >
+                      <svg className="w-5 h-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M3 7a2 2 0 012-2h4l2 2h8a2 2 0 012 2v8a2 2 0 01-2 2H5a2 2 0 01-2-2V7z" />
+                      </svg>
+                      Open Repository
+                    </button>
+                    <button
+                      className="px-6 py-3 bg-[#3c3c3c] hover:bg-[#4c4c4c] text-white rounded-lg transition-colors flex items-center gap-2"
+                      onClick={() => setShowDiffReviewSetup(true)}
+                    >
+                      <svg className="w-5 h-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M8 7h12m0 0l-4-4m4 4l-4 4m0 6H4m0 0l4 4m-4-4l4-4" />
+                      </svg>
+                      Review Changes
+                    </button>
                   </div>
                 </div>
               </div>
@@ -625,7 +1073,26 @@ handler = APIHandler()
         {/* Thread panel */}
         {showThreadPanel && (
           <aside className="w-80 bg-[#252526] border-l border-[#3c3c3c]">
-            <ThreadPanel currentFile={activeFile?.name || null} />
+            {diffReview && activeDiffFile ? (
+              <ThreadPanel
+                currentFile={activeDiffFile.path}
+                scans={scannedFiles}
+                diff={{
+                  file: activeDiffFile,
+                  baseRevision: diffReview.baseRevision,
+                  headRevision: diffReview.headRevision,
+                }}
+              />
+            ) : (
+              <ThreadPanel
+                currentFile={activeFile?.name || null}
+                fileContent={activeFile?.content}
+                language={activeFile?.language}
+                onApplySuggestion={handleApplySuggestion}
+                scans={scannedFiles}
+                openFiles={files}
+              />
+            )}
           </aside>
         )}
       </div>
@@ -667,16 +1134,81 @@ handler = APIHandler()
           </div>
         </div>
       )}
+
+      {showRepositoryImport && (
+        <RepositoryImport onFileImported={handleFileImported} onClose={() => setShowRepositoryImport(false)} />
+      )}
+
+      {showDiffReviewSetup && (
+        <DiffReviewSetup onStart={handleDiffReviewStart} onClose={() => setShowDiffReviewSetup(false)} />
+      )}
     </div>
   );
 }
 
-function App() {
+/**
+ * Shows the threads of the selected workspace
+ * Threads are remounted and stored per workspace, so switching shows only that workspace's threads
+ * Threads stored in this browser before workspaces move to the first workspace opened
+ * Changes waiting to sync are queued per user, so they are only ever sent with their author's session
+ */
+function WorkspaceGate({ userId, authorName }: { userId: string; authorName: string }) {
+  const { workspaceId, isLoading, error } = useWorkspaces();
+
+  if (isLoading) {
+    return <div className="h-screen bg-[#1e1e1e]" />;
+  }
+
+  if (!workspaceId) {
+    return (
+      <div className="flex items-center justify-center h-screen bg-[#1e1e1e] text-sm text-red-400" role="alert">
+        {error ?? 'No workspace available'}
+      </div>
+    );
+  }
+
   return (
-    <ThreadProvider>
+    <ThreadProvider
+      key={workspaceId}
+      storageKey={`code-review-threads-${workspaceId}`}
+      legacyStorageKey="code-review-threads"
+      workspaceId={workspaceId}
+      syncQueueKey={`code-review-sync-queue-${userId}`}
+      authorName={authorName}
+    >
       <AppContent />
     </ThreadProvider>
   );
 }
 
+/**
+ * Shows the sign-in form until a user is signed in
+ * Workspaces are remounted per user, so one user's state never leaks to the next
+ */
+function AuthGate() {
+  const { user, isLoading } = useAuth();
+
+  if (isLoading) {
+    return <div className="h-screen bg-[#1e1e1e]" />;
+  }
+
+  if (!user) {
+    return <LoginForm />;
+  }
+
+  return (
+    <WorkspaceProvider key={user.id} defaultWorkspaceName={`${user.displayName}'s workspace`}>
+      <WorkspaceGate userId={user.id} authorName={user.displayName} />
+    </WorkspaceProvider>
+  );
+}
+
+function App() {
+  return (
+    <AuthProvider>
+      <AuthGate />
+    </AuthProvider>
+  );
+}
+
 export default App;
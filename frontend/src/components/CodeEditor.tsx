@@ -1,25 +1,42 @@
 import { useRef, useCallback, useEffect, useImperativeHandle, forwardRef } from 'react';
 import Editor, { OnMount, OnChange } from '@monaco-editor/react';
 import type { editor } from 'monaco-editor';
+import { formatModeFields, type ReviewModeFields } from '@ai-code-review/shared';
 import { getSelectionRange, SelectionRange } from '../utils/selectionUtils';
+import { applyUnifiedDiff, ApplyDiffOptions, ApplyDiffResult } from '../utils/diffUtils';
 
 // Issue detected by AI scan
-export interface CodeIssue {
+export interface CodeIssue extends ReviewModeFields {
   id: string;
   startLine: number;
   endLine: number;
   severity: 'error' | 'warning' | 'info';
+  category?: string;
   message: string;
-  suggestion?: string;
+  fix?: string;
+  diff?: string;
   fileName?: string; // File this issue belongs to
+  tool?: string; // Analyzer that reported an imported issue; absent for AI scan issues
+  runId?: string; // Stored scan the issue belongs to
+  status?: 'new' | 'present' | 'fixed'; // Compared with the previous scan of the file
+  threadId?: string | null; // Thread the issue was turned into
+  ruleId?: string | null; // Workspace rule the issue breaks
 }
 
+const STATUS_NOTES: Record<NonNullable<CodeIssue['status']>, string> = {
+  new: 'New in this scan',
+  present: 'Also found by the previous scan',
+  fixed: 'Fixed since the previous scan',
+};
+
 // Methods exposed to parent via ref
 export interface CodeEditorHandle {
   setIssueMarkers: (issues: CodeIssue[]) => void;
   clearIssueMarkers: () => void;
   goToLine: (line: number) => void;
   selectLines: (startLine: number, endLine: number) => void;
+  /** Apply a unified diff to the buffer as a single undoable edit, unless it conflicts */
+  applyDiff: (diff: string, options?: ApplyDiffOptions) => ApplyDiffResult;
 }
 
 interface CodeEditorProps {
@@ -67,7 +84,14 @@ const CodeEditor = forwardRef<CodeEditorHandle, CodeEditorProps>(function CodeEd
         options: {
           isWholeLine: true,
           glyphMarginClassName: `issue-glyph-${issue.severity}`,
-          glyphMarginHoverMessage: { value: `**${issue.severity.toUpperCase()}**: ${issue.message}` },
+          glyphMarginHoverMessage: {
+            value: `**${issue.severity.toUpperCase()}**${issue.category ? ` (${issue.category})` : ''}: ${issue.message}` +
+              (issue.tool ? `\n\n*Reported by ${issue.tool}*` : '') +
+              (issue.ruleId ? `\n\n*Breaks rule ${issue.ruleId}*` : '') +
+              formatModeFields(issue).map(line => `\n\n${line}`).join('') +
+              (issue.status ? `\n\n*${STATUS_NOTES[issue.status]}*` : '') +
+              (issue.fix ? `\n\n**Fix:** ${issue.fix}` : ''),
+          },
           className: `issue-line-${issue.severity}`,
           overviewRuler: {
             color: issue.severity === 'error' ? '#f85149' : issue.severity === 'warning' ? '#d29922' : '#58a6ff',
@@ -104,6 +128,39 @@ const CodeEditor = forwardRef<CodeEditorHandle, CodeEditorProps>(function CodeEd
       editorRef.current.revealLineInCenter(startLine);
       editorRef.current.focus();
     },
+
+    applyDiff: (diff: string, options?: ApplyDiffOptions): ApplyDiffResult => {
+      const editor = editorRef.current;
+      const model = editor?.getModel();
+      if (!editor || !model) {
+        return { applied: false, conflicts: [{ expected: [], reason: 'The editor is not ready' }] };
+      }
+
+      const result = applyUnifiedDiff(model.getValue(), diff, options);
+      if (!result.applied) {
+        return result;
+      }
+
+      // Undo stops on both sides make the whole suggestion one undo step
+      editor.pushUndoStop();
+      editor.executeEdits('ai-suggestion', result.edits.map(edit => {
+        const start = model.getPositionAt(edit.start);
+        const end = model.getPositionAt(edit.end);
+        return {
+          range: {
+            startLineNumber: start.lineNumber,
+            startColumn: start.column,
+            endLineNumber: end.lineNumber,
+            endColumn: end.column,
+          },
+          text: edit.text,
+          forceMoveMarkers: true,
+        };
+      }));
+      editor.pushUndoStop();
+
+      return result;
+    },
   }), []);
 
   const handleEditorDidMount: OnMount = useCallback((editor, monaco) => {
@@ -0,0 +1,82 @@
+import { useRef, useEffect, useCallback } from 'react';
+import { DiffEditor, DiffOnMount } from '@monaco-editor/react';
+import { getSelectionRange, SelectionRange } from '../utils/selectionUtils';
+import { DiffSide } from '../types/thread';
+
+/**
+ * A selection on one side of a diff
+ */
+export interface DiffSelection extends SelectionRange {
+  side: DiffSide;
+}
+
+interface DiffReviewEditorProps {
+  original: string;
+  modified: string;
+  language: string;
+  onSelectionChange?: (selection: DiffSelection | null) => void;
+  theme?: string;
+}
+
+/**
+ * Side-by-side, read-only diff of two revisions of a file
+ * Selections report the side they were made on
+ */
+export default function DiffReviewEditor({
+  original,
+  modified,
+  language,
+  onSelectionChange,
+  theme = 'vs-dark',
+}: DiffReviewEditorProps) {
+  const onSelectionChangeRef = useRef(onSelectionChange);
+
+  // Keep the ref updated with the latest callback
+  useEffect(() => {
+    onSelectionChangeRef.current = onSelectionChange;
+  }, [onSelectionChange]);
+
+  const handleMount: DiffOnMount = useCallback((diffEditor) => {
+    const sides: Array<[DiffSide, ReturnType<typeof diffEditor.getOriginalEditor>]> = [
+      ['old', diffEditor.getOriginalEditor()],
+      ['new', diffEditor.getModifiedEditor()],
+    ];
+
+    for (const [side, sideEditor] of sides) {
+      sideEditor.onDidChangeCursorSelection((e) => {
+        const selection = getSelectionRange(e.selection, sideEditor.getModel());
+        onSelectionChangeRef.current?.(selection && { ...selection, side });
+      });
+    }
+  }, []);
+
+  return (
+    <div className="h-full w-full" data-testid="diff-review-editor">
+      <DiffEditor
+        height="100%"
+        width="100%"
+        language={language}
+        original={original}
+        modified={modified}
+        theme={theme}
+        onMount={handleMount}
+        options={{
+          readOnly: true,
+          originalEditable: false,
+          renderSideBySide: true,
+          hideUnchangedRegions: { enabled: true },
+          minimap: { enabled: false },
+          automaticLayout: true,
+          scrollBeyondLastLine: false,
+          fontSize: 14,
+          fontFamily: "'Consolas', 'Monaco', 'Courier New', monospace",
+        }}
+        loading={
+          <div className="flex items-center justify-center h-full bg-editor-bg">
+            <div className="text-gray-400">Loading diff...</div>
+          </div>
+        }
+      />
+    </div>
+  );
+}
@@ -0,0 +1,318 @@
+import { useState, useEffect, useRef } from 'react';
+import {
+  getRepositoryChanges,
+  closeRepository,
+  streamRepositoryFiles,
+  GitRepository,
+} from '../services/apiService';
+import { DiffReview, pairFiles, filesFromUnifiedDiff, createDiffFile } from '../utils/diffReview';
+import { readFileContent } from '../utils/fileUtils';
+import RepositoryOpener from './RepositoryOpener';
+
+interface DiffReviewSetupProps {
+  onStart: (review: DiffReview) => void;
+  onClose: () => void;
+}
+
+type Source = 'uploads' | 'git' | 'paste';
+
+const SOURCES: Array<{ id: Source; label: string }> = [
+  { id: 'uploads', label: 'Uploads' },
+  { id: 'git', label: 'Git refs' },
+  { id: 'paste', label: 'Paste diff' },
+];
+
+const WORKING_TREE = 'working tree';
+
+const inputClassName =
+  'w-full px-3 py-2 bg-[#1e1e1e] border border-[#3c3c3c] rounded text-white focus:outline-none focus:border-accent';
+
+const readFiles = (files: FileList | null) =>
+  Promise.all(
+    Array.from(files ?? []).map(async file => ({ name: file.name, content: await readFileContent(file) }))
+  );
+
+/**
+ * Modal to pick the two revisions of a review: two sets of uploaded files,
+ * two refs of a git repository, or a pasted unified diff
+ */
+export default function DiffReviewSetup({ onStart, onClose }: DiffReviewSetupProps) {
+  const [source, setSource] = useState<Source>('uploads');
+  const [baseFiles, setBaseFiles] = useState<FileList | null>(null);
+  const [headFiles, setHeadFiles] = useState<FileList | null>(null);
+  const [baseLabel, setBaseLabel] = useState('base');
+  const [headLabel, setHeadLabel] = useState('head');
+  const [diffText, setDiffText] = useState('');
+  const [repository, setRepository] = useState<GitRepository | null>(null);
+  const [baseRef, setBaseRef] = useState('');
+  const [headRef, setHeadRef] = useState('');
+  const [isBusy, setIsBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const abortRef = useRef<AbortController | null>(null);
+  const repositoryIdRef = useRef<string | null>(null);
+
+  // Stop streaming and release the repository when the modal closes
+  useEffect(() => {
+    return () => {
+      abortRef.current?.abort();
+      if (repositoryIdRef.current) {
+        closeRepository(repositoryIdRef.current).catch(() => {});
+      }
+    };
+  }, []);
+
+  const start = async (load: () => Promise<DiffReview>) => {
+    setIsBusy(true);
+    setError(null);
+    try {
+      const review = await load();
+      if (review.files.length === 0) {
+        setError('The two revisions have no differences');
+        return;
+      }
+      onStart(review);
+      onClose();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Something went wrong');
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const loadUploads = async (): Promise<DiffReview> => ({
+    baseRevision: baseLabel.trim() || 'base',
+    headRevision: headLabel.trim() || 'head',
+    files: pairFiles(await readFiles(baseFiles), await readFiles(headFiles)),
+  });
+
+  const loadPastedDiff = async (): Promise<DiffReview> => ({
+    baseRevision: baseLabel.trim() || 'base',
+    headRevision: headLabel.trim() || 'head',
+    files: filesFromUnifiedDiff(diffText),
+  });
+
+  const loadGitChanges = async (): Promise<DiffReview> => {
+    if (!repository) throw new Error('Open a repository first');
+
+    const changes = await getRepositoryChanges(repository.id, baseRef.trim(), headRef.trim() || undefined);
+    const basePaths = changes.files
+      .filter(file => file.status !== 'added')
+      .map(file => file.oldPath ?? file.path);
+    const headPaths = changes.files.filter(file => file.status !== 'deleted').map(file => file.path);
+
+    const controller = new AbortController();
+    abortRef.current = controller;
+
+    // Binary and oversized files are skipped by the stream and left out of the review
+    const read = async (paths: string[], ref: string | undefined) => {
+      const contents = new Map<string, string>();
+      const skipped = new Set<string>();
+      if (paths.length > 0) {
+        await streamRepositoryFiles(
+          repository.id,
+          { ref, paths },
+          {
+            onFile: (filePath, content) => contents.set(filePath, content),
+            onSkipped: (filePath) => skipped.add(filePath),
+          },
+          controller.signal
+        );
+      }
+      return { contents, skipped };
+    };
+
+    const base = await read(basePaths, changes.base.commit);
+    const head = await read(headPaths, changes.head.ref === null ? undefined : changes.head.commit ?? undefined);
+    abortRef.current = null;
+
+    const files = changes.files
+      .filter(file => {
+        const basePath = file.oldPath ?? file.path;
+        return !base.skipped.has(basePath) && !head.skipped.has(file.path);
+      })
+      .map(file =>
+        createDiffFile(
+          file.path,
+          base.contents.get(file.oldPath ?? file.path) ?? '',
+          head.contents.get(file.path) ?? ''
+        )
+      );
+
+    return {
+      baseRevision: changes.base.commit,
+      headRevision: changes.head.ref === null ? WORKING_TREE : (changes.head.commit ?? changes.head.ref),
+      files,
+    };
+  };
+
+  const handleCompare = () => {
+    if (source === 'uploads') {
+      void start(loadUploads);
+    } else if (source === 'paste') {
+      void start(loadPastedDiff);
+    } else {
+      void start(loadGitChanges);
+    }
+  };
+
+  const handleOpened = (opened: GitRepository) => {
+    repositoryIdRef.current = opened.id;
+    setRepository(opened);
+  };
+
+  const canStart =
+    source === 'uploads'
+      ? (baseFiles?.length ?? 0) + (headFiles?.length ?? 0) > 0
+      : source === 'paste'
+        ? diffText.trim() !== ''
+        : repository !== null && baseRef.trim() !== '';
+
+  const labelInputs = (
+    <div className="flex gap-2">
+      <input
+        type="text"
+        value={baseLabel}
+        onChange={(e) => setBaseLabel(e.target.value)}
+        aria-label="Base revision label"
+        className={inputClassName}
+      />
+      <input
+        type="text"
+        value={headLabel}
+        onChange={(e) => setHeadLabel(e.target.value)}
+        aria-label="Head revision label"
+        className={inputClassName}
+      />
+    </div>
+  );
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50">
+      <div
+        className="bg-[#252526] rounded-lg p-6 w-[36rem] max-h-[80vh] border border-[#3c3c3c] flex flex-col gap-3"
+        role="dialog"
+        aria-label="Review changes"
+      >
+        <h3 className="text-lg font-medium text-white">Review Changes</h3>
+
+        <div className="flex gap-1 border-b border-[#3c3c3c]" role="tablist">
+          {SOURCES.map(({ id, label }) => (
+            <button
+              key={id}
+              role="tab"
+              aria-selected={source === id}
+              className={`px-3 py-1 text-sm transition-colors ${
+                source === id ? 'text-white border-b-2 border-accent' : 'text-gray-400 hover:text-white'
+              }`}
+              onClick={() => {
+                setSource(id);
+                setError(null);
+              }}
+            >
+              {label}
+            </button>
+          ))}
+        </div>
+
+        {source === 'uploads' && (
+          <>
+            <label className="text-sm text-gray-400">
+              Base files
+              <input
+                type="file"
+                multiple
+                onChange={(e) => setBaseFiles(e.target.files)}
+                aria-label="Base files"
+                className="block mt-1 text-sm text-gray-300"
+              />
+            </label>
+            <label className="text-sm text-gray-400">
+              Head files
+              <input
+                type="file"
+                multiple
+                onChange={(e) => setHeadFiles(e.target.files)}
+                aria-label="Head files"
+                className="block mt-1 text-sm text-gray-300"
+              />
+            </label>
+            {labelInputs}
+          </>
+        )}
+
+        {source === 'git' &&
+          (!repository ? (
+            <RepositoryOpener onOpened={handleOpened} />
+          ) : (
+            <>
+              <p className="text-sm text-gray-300 truncate" title={repository.name}>
+                {repository.name}
+              </p>
+              <div className="flex gap-2">
+                <input
+                  type="text"
+                  value={baseRef}
+                  onChange={(e) => setBaseRef(e.target.value)}
+                  placeholder="Base, e.g. main"
+                  aria-label="Base ref"
+                  list="diff-review-refs"
+                  className={inputClassName}
+                />
+                <input
+                  type="text"
+                  value={headRef}
+                  onChange={(e) => setHeadRef(e.target.value)}
+                  placeholder={repository.workingTree ? 'Head, or the working tree' : 'Head'}
+                  aria-label="Head ref"
+                  list="diff-review-refs"
+                  className={inputClassName}
+                />
+                <datalist id="diff-review-refs">
+                  {repository.branches.map(branch => (
+                    <option key={`branch-${branch}`} value={branch} />
+                  ))}
+                  {repository.tags.map(tag => (
+                    <option key={`tag-${tag}`} value={tag} />
+                  ))}
+                </datalist>
+              </div>
+            </>
+          ))}
+
+        {source === 'paste' && (
+          <>
+            <textarea
+              value={diffText}
+              onChange={(e) => setDiffText(e.target.value)}
+              placeholder="Paste a unified diff, e.g. the output of git diff"
+              aria-label="Unified diff"
+              rows={12}
+              className={`${inputClassName} font-mono text-xs resize-none`}
+            />
+            {labelInputs}
+          </>
+        )}
+
+        {error && (
+          <p className="text-sm text-red-400" role="alert">
+            {error}
+          </p>
+        )}
+
+        <div className="flex justify-end gap-2">
+          <button className="px-4 py-2 text-gray-400 hover:text-white transition-colors" onClick={onClose}>
+            Cancel
+          </button>
+          <button
+            className="px-4 py-2 bg-accent hover:bg-accent-hover text-white rounded transition-colors disabled:opacity-50"
+            onClick={handleCompare}
+            disabled={isBusy || !canStart}
+          >
+            Compare
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -1,63 +1,55 @@
 import { useMemo } from 'react';
+import { formatHunkHeader, normalizeDiff, parseUnifiedDiff } from '@ai-code-review/shared';
 
 interface DiffViewerProps {
   diff: string;
   className?: string;
 }
 
-interface DiffLine {
-  type: 'added' | 'removed' | 'unchanged' | 'header';
+interface DiffRow {
+  type: 'added' | 'removed' | 'unchanged' | 'header' | 'file';
   content: string;
-  lineNumber?: number;
+  oldLine?: number;
+  newLine?: number;
 }
 
 /**
- * Parse a diff string into structured lines
+ * Parse a unified diff into rows for display
+ * Diffs saved before they were normalized may be malformed; they are read leniently,
+ * and text that is not a diff at all is shown as is
  */
-function parseDiff(diff: string): DiffLine[] {
-  const lines = diff.split('\n');
-  const result: DiffLine[] = [];
-  let oldLineNum = 0;
-  let newLineNum = 0;
-
-  for (const line of lines) {
-    if (line.startsWith('@@')) {
-      // Parse hunk header
-      const match = line.match(/@@ -(\d+),?\d* \+(\d+),?\d* @@/);
-      if (match) {
-        oldLineNum = parseInt(match[1], 10);
-        newLineNum = parseInt(match[2], 10);
+function parseDiff(diff: string): DiffRow[] {
+  const parsed = parseUnifiedDiff(diff);
+  const files = parsed.errors.length === 0 ? parsed.files : normalizeDiff(diff).files;
+
+  if (files.length === 0) {
+    return diff
+      .split('\n')
+      .filter(line => line.trim() !== '')
+      .map(line => ({ type: 'unchanged', content: line }));
+  }
+
+  const rows: DiffRow[] = [];
+  for (const file of files) {
+    const path = file.newPath ?? file.oldPath;
+    if (path) {
+      rows.push({ type: 'file', content: path });
+    }
+
+    for (const hunk of file.hunks) {
+      rows.push({ type: 'header', content: formatHunkHeader(hunk) });
+      for (const line of hunk.lines) {
+        rows.push({
+          type: line.type === 'context' ? 'unchanged' : line.type,
+          content: line.content,
+          oldLine: line.oldLine,
+          newLine: line.newLine,
+        });
       }
-      result.push({ type: 'header', content: line });
-    } else if (line.startsWith('+')) {
-      result.push({
-        type: 'added',
-        content: line.slice(1),
-        lineNumber: newLineNum++,
-      });
-    } else if (line.startsWith('-')) {
-      result.push({
-        type: 'removed',
-        content: line.slice(1),
-        lineNumber: oldLineNum++,
-      });
-    } else if (line.startsWith(' ')) {
-      result.push({
-        type: 'unchanged',
-        content: line.slice(1),
-        lineNumber: newLineNum++,
-      });
-      oldLineNum++;
-    } else if (line.trim() !== '') {
-      // Treat as unchanged if no prefix
-      result.push({
-        type: 'unchanged',
-        content: line,
-      });
     }
   }
 
-  return result;
+  return rows;
 }
 
 /**
@@ -92,7 +84,7 @@ export default function DiffViewer({ diff, className = '' }: DiffViewerProps) {
 }
 
 interface DiffLineRowProps {
-  line: DiffLine;
+  line: DiffRow;
 }
 
 function DiffLineRow({ line }: DiffLineRowProps) {
@@ -104,6 +96,8 @@ function DiffLineRow({ line }: DiffLineRowProps) {
         return 'bg-[#2e1a1a]';
       case 'header':
         return 'bg-[#1e2a3a]';
+      case 'file':
+        return 'bg-[#161b22]';
       default:
         return 'bg-transparent';
     }
@@ -117,6 +111,8 @@ function DiffLineRow({ line }: DiffLineRowProps) {
         return 'text-[#f85149]';
       case 'header':
         return 'text-[#79c0ff]';
+      case 'file':
+        return 'text-gray-200 font-medium';
       default:
         return 'text-gray-300';
     }
@@ -129,13 +125,14 @@ function DiffLineRow({ line }: DiffLineRowProps) {
       case 'removed':
         return '-';
       case 'header':
+      case 'file':
         return '';
       default:
         return ' ';
     }
   };
 
-  if (line.type === 'header') {
+  if (line.type === 'header' || line.type === 'file') {
     return (
       <tr className={getBgColor()}>
         <td colSpan={3} className={`px-3 py-1 ${getTextColor()}`}>
@@ -148,11 +145,10 @@ function DiffLineRow({ line }: DiffLineRowProps) {
   return (
     <tr className={`${getBgColor()} hover:brightness-110`}>
       <td className="w-8 px-2 py-0.5 text-right text-gray-500 select-none border-r border-[#30363d]">
-        {line.type === 'removed' && line.lineNumber}
+        {line.oldLine}
       </td>
       <td className="w-8 px-2 py-0.5 text-right text-gray-500 select-none border-r border-[#30363d]">
-        {line.type === 'added' && line.lineNumber}
-        {line.type === 'unchanged' && line.lineNumber}
+        {line.newLine}
       </td>
       <td className={`px-3 py-0.5 ${getTextColor()} whitespace-pre`}>
         <span className="select-none mr-2">{getPrefix()}</span>
@@ -1,5 +1,6 @@
 import { useRef, useState, useCallback, DragEvent, ChangeEvent } from 'react';
 import { detectLanguageFromFilename, detectLanguageFromContent } from '../utils/selectionUtils';
+import { readFileContent } from '../utils/fileUtils';
 
 interface FileData {
   name: string;
@@ -167,24 +168,6 @@ export default function FileUpload({ onFilesUploaded, variant = 'default' }: Fil
   );
 }
 
-/**
- * Reads file content as text
- */
-function readFileContent(file: File): Promise<string> {
-  return new Promise((resolve, reject) => {
-    const reader = new FileReader();
-    reader.onload = () => {
-      if (typeof reader.result === 'string') {
-        resolve(reader.result);
-      } else {
-        reject(new Error('Failed to read file as text'));
-      }
-    };
-    reader.onerror = () => reject(reader.error);
-    reader.readAsText(file);
-  });
-}
-
 /**
  * Checks if a file is a code file based on extension
  */
@@ -1,16 +1,91 @@
-import { useState, useCallback } from 'react';
+import { useState, useCallback, useEffect, useRef } from 'react';
+import { formatModeFields, type ReviewMode, type ReviewModeFields } from '@ai-code-review/shared';
 import { Thread, Comment } from '../types/thread';
 import { useThreads } from '../context/ThreadContext';
+import { streamReview, ReviewResponse, ReviewFinding } from '../services/apiService';
+import { fromApiComment } from '../utils/fallbackStorage';
+import { ApplyDiffResult, DiffConflict, formatDiffConflicts } from '../utils/diffUtils';
+import { buildProjectIndex, collectDefinitions, ContextSnippet, SourceFile } from '../utils/projectIndex';
+import ReviewModeSelect from './ReviewModeSelect';
 
 interface InlineThreadProps {
   thread: Thread;
   onClose?: () => void;
+  /** Content of the thread's file, used as context for AI reviews */
+  fileContent?: string;
+  /** Language of the thread's file */
+  language?: string;
+  /** Apply a suggested diff to the thread's file; absent when the file is not open */
+  onApplySuggestion?: (diff: string) => ApplyDiffResult;
+  /** Hunk of a diff review the thread is on, sent to the AI instead of the whole file */
+  hunk?: string;
+  /** Files open in the editor; definitions the selection imports from them are sent to the AI */
+  openFiles?: SourceFile[];
 }
 
-export default function InlineThread({ thread, onClose }: InlineThreadProps) {
-  const { addComment, resolveThread, unresolveThread, deleteThread } = useThreads();
+/**
+ * AI comment that is still being streamed; mode fields arrive with the finished review
+ */
+interface StreamingReview extends ReviewModeFields {
+  explanation: string;
+  suggestions: string[];
+  diff?: string;
+  findings?: ReviewFinding[];
+}
+
+/**
+ * Format a review as the text of an AI comment
+ */
+function formatReviewText(review: StreamingReview): string {
+  const modeFields = formatModeFields(review);
+  return review.explanation +
+    (review.suggestions.length > 0
+      ? '\n\nSuggestions:\n' + review.suggestions.map((s, i) => `${i + 1}. ${s}`).join('\n')
+      : '') +
+    (review.findings?.length
+      ? '\n\nRule violations:\n' + review.findings.map(f => `- [${f.ruleId}] ${f.message}`).join('\n')
+      : '') +
+    (modeFields.length > 0 ? '\n\n' + modeFields.join('\n') : '');
+}
+
+export default function InlineThread({
+  thread,
+  onClose,
+  fileContent,
+  language,
+  onApplySuggestion,
+  hunk,
+  openFiles,
+}: InlineThreadProps) {
+  const {
+    addComment,
+    addStoredComment,
+    resolveThread,
+    unresolveThread,
+    deleteThread,
+    markSuggestionApplied,
+    syncThread,
+  } = useThreads();
   const [newComment, setNewComment] = useState('');
   const [isExpanded, setIsExpanded] = useState(true);
+  const [streaming, setStreaming] = useState<StreamingReview | null>(null);
+  const [aiError, setAiError] = useState<string | null>(null);
+  const [mode, setMode] = useState<ReviewMode>('general');
+  const [lastContext, setLastContext] = useState<Pick<
+    ReviewResponse,
+    'contextStartLine' | 'contextEndLine' | 'wasTruncated'
+  > | null>(null);
+  const [lastDefinitions, setLastDefinitions] = useState<ContextSnippet[]>([]);
+  /** Code the server found in the workspace's search index and sent */
+  const [lastRelated, setLastRelated] = useState<string[]>([]);
+  const [applyConflicts, setApplyConflicts] = useState<{
+    commentId: string;
+    conflicts: DiffConflict[];
+  } | null>(null);
+  const abortRef = useRef<AbortController | null>(null);
+
+  // Stop an in-flight review when the thread is closed
+  useEffect(() => () => abortRef.current?.abort(), []);
 
   const handleSubmitComment = useCallback(
     (e: React.FormEvent) => {
@@ -27,6 +102,94 @@ export default function InlineThread({ thread, onClose }: InlineThreadProps) {
     [addComment, newComment, thread.id]
   );
 
+  const handleAskAI = useCallback(async () => {
+    const lastUserComment = [...thread.comments].reverse().find(c => c.author === 'user');
+    const controller = new AbortController();
+    abortRef.current = controller;
+    setAiError(null);
+    setStreaming({ explanation: '', suggestions: [] });
+
+    // Only the definitions the selection uses are sent, not whole files
+    const definitions = openFiles
+      ? collectDefinitions(buildProjectIndex(openFiles), thread.file, thread.selectedCode)
+      : [];
+
+    try {
+      // Once the backend has the thread, it sends the thread's comments as history and saves the review
+      const synced = await syncThread(thread.id);
+      const review = await streamReview(
+        {
+          ...(synced && { threadId: thread.id }),
+          // With the whole file, the server picks as much context as fits the model.
+          // An outdated thread's range no longer points at its code
+          ...(fileContent && !thread.outdated
+            ? {
+                fileContent,
+                startLine: thread.range.startLine,
+                endLine: thread.range.endLine,
+              }
+            : { codeContext: thread.selectedCode }),
+          ...(hunk && thread.side && { hunk: { diff: hunk, side: thread.side } }),
+          ...(definitions.length > 0 && {
+            additionalFiles: definitions.map(({ name, content, language }) => ({ name, content, language })),
+          }),
+          selectedCode: thread.selectedCode,
+          language: language || 'plaintext',
+          query: lastUserComment?.text,
+          fileName: thread.file,
+          mode,
+        },
+        {
+          onExplanation: delta =>
+            setStreaming(prev => prev && { ...prev, explanation: prev.explanation + delta }),
+          onSuggestion: text =>
+            setStreaming(prev => prev && { ...prev, suggestions: [...prev.suggestions, text] }),
+          onDiff: diff => setStreaming(prev => prev && { ...prev, diff }),
+        },
+        controller.signal
+      );
+
+      if (review.comment) {
+        addStoredComment(thread.id, fromApiComment(review.comment));
+      } else {
+        addComment({
+          threadId: thread.id,
+          author: 'ai',
+          text: formatReviewText(review),
+          diff: review.diff,
+        });
+      }
+      setLastContext(review.contextStartLine !== undefined ? review : null);
+      // The server drops definitions that do not fit the model
+      setLastDefinitions(definitions.filter(definition => review.contextFiles?.includes(definition.name)));
+      setLastRelated(review.contextFiles?.filter(name => !definitions.some(definition => definition.name === name)) ?? []);
+    } catch (error) {
+      if (!controller.signal.aborted) {
+        setAiError(error instanceof Error ? error.message : 'Failed to generate review');
+      }
+    } finally {
+      if (abortRef.current === controller) {
+        abortRef.current = null;
+        setStreaming(null);
+      }
+    }
+  }, [addComment, addStoredComment, fileContent, hunk, language, mode, openFiles, syncThread, thread]);
+
+  const handleApplySuggestion = useCallback(
+    (comment: Comment) => {
+      if (!onApplySuggestion || !comment.diff) return;
+
+      const result = onApplySuggestion(comment.diff);
+      if (result.applied) {
+        markSuggestionApplied(thread.id, comment.id);
+        setApplyConflicts(null);
+      } else {
+        setApplyConflicts({ commentId: comment.id, conflicts: result.conflicts });
+      }
+    },
+    [markSuggestionApplied, onApplySuggestion, thread.id]
+  );
+
   const handleToggleResolved = useCallback(() => {
     if (thread.resolved) {
       unresolveThread(thread.id);
@@ -89,6 +252,30 @@ export default function InlineThread({ thread, onClose }: InlineThreadProps) {
               Resolved
             </span>
           )}
+          {thread.outdated && (
+            <span
+              className="text-xs px-2 py-0.5 bg-warning/20 text-warning rounded"
+              title="The code this thread was on has changed"
+            >
+              Outdated
+            </span>
+          )}
+          {thread.side && (
+            <span
+              className="text-xs px-2 py-0.5 bg-[#3c3c3c] text-gray-300 rounded"
+              title={thread.side === 'old' ? `Before the change, at ${thread.baseRevision}` : `After the change, at ${thread.headRevision}`}
+            >
+              {thread.side === 'old' ? 'Old' : 'New'}
+            </span>
+          )}
+          {thread.source && (
+            <span
+              className="text-xs px-2 py-0.5 bg-[#3c3c3c] text-gray-300 rounded font-mono"
+              title={`${thread.source.repository}: ${thread.source.path} at ${thread.source.commitSha}`}
+            >
+              {thread.source.commitSha.slice(0, 7)}
+            </span>
+          )}
         </div>
         <div className="flex items-center gap-1">
           <button
@@ -154,10 +341,64 @@ export default function InlineThread({ thread, onClose }: InlineThreadProps) {
           {/* Comments */}
           <div className="max-h-64 overflow-y-auto">
             {thread.comments.map(comment => (
-              <CommentItem key={comment.id} comment={comment} formatTime={formatTime} />
+              <CommentItem
+                key={comment.id}
+                comment={comment}
+                formatTime={formatTime}
+                isApplied={thread.appliedSuggestion?.commentId === comment.id}
+                onApply={
+                  onApplySuggestion && comment.author === 'ai' && comment.diff
+                    ? () => handleApplySuggestion(comment)
+                    : undefined
+                }
+                conflicts={applyConflicts?.commentId === comment.id ? applyConflicts.conflicts : undefined}
+              />
             ))}
+            {streaming && (
+              <CommentItem
+                comment={{
+                  id: 'streaming',
+                  author: 'ai',
+                  text: formatReviewText(streaming) || 'Thinking...',
+                  timestamp: new Date(),
+                  diff: streaming.diff,
+                }}
+                formatTime={formatTime}
+              />
+            )}
           </div>
 
+          {lastContext && !streaming && (
+            <div className="px-3 py-1 text-xs text-gray-500 border-t border-thread-border" data-testid="ai-context">
+              AI saw lines {lastContext.contextStartLine}-{lastContext.contextEndLine}
+              {lastContext.wasTruncated && ' (file truncated to fit the model)'}
+            </div>
+          )}
+
+          {lastDefinitions.length > 0 && !streaming && (
+            <div className="px-3 py-1 text-xs text-gray-500 border-t border-thread-border" data-testid="ai-definitions">
+              Definitions sent:{' '}
+              {lastDefinitions.map((definition, index) => (
+                <span key={definition.name} title={definition.content}>
+                  {index > 0 && ', '}
+                  <span className="text-gray-400">{definition.symbol}</span> ({definition.name})
+                </span>
+              ))}
+            </div>
+          )}
+
+          {lastRelated.length > 0 && !streaming && (
+            <div className="px-3 py-1 text-xs text-gray-500 border-t border-thread-border" data-testid="ai-related-code">
+              Related code sent: {lastRelated.join(', ')}
+            </div>
+          )}
+
+          {aiError && (
+            <div className="px-3 py-2 text-xs text-error border-t border-thread-border" role="alert">
+              {aiError}
+            </div>
+          )}
+
           {/* Add comment form */}
           {!thread.resolved && (
             <form onSubmit={handleSubmitComment} className="p-3 border-t border-thread-border">
@@ -168,7 +409,16 @@ export default function InlineThread({ thread, onClose }: InlineThreadProps) {
                 className="w-full px-3 py-2 bg-[#1e1e1e] border border-thread-border rounded text-sm text-white placeholder-gray-500 resize-none focus:outline-none focus:border-accent"
                 rows={2}
               />
-              <div className="flex justify-end mt-2">
+              <div className="flex justify-end gap-2 mt-2">
+                <ReviewModeSelect value={mode} onChange={setMode} disabled={streaming !== null} label="Review mode" />
+                <button
+                  type="button"
+                  onClick={handleAskAI}
+                  disabled={streaming !== null}
+                  className="px-3 py-1 bg-[#3c3c3c] hover:bg-[#4c4c4c] disabled:opacity-50 disabled:cursor-not-allowed text-white text-sm rounded transition-colors"
+                >
+                  {streaming ? 'Reviewing...' : 'Ask AI'}
+                </button>
                 <button
                   type="submit"
                   disabled={!newComment.trim()}
@@ -188,9 +438,14 @@ export default function InlineThread({ thread, onClose }: InlineThreadProps) {
 interface CommentItemProps {
   comment: Comment;
   formatTime: (date: Date | string) => string;
+  /** Whether this comment's suggestion was applied to the file */
+  isApplied?: boolean;
+  onApply?: () => void;
+  /** Conflicts from the last attempt to apply this comment's suggestion */
+  conflicts?: DiffConflict[];
 }
 
-function CommentItem({ comment, formatTime }: CommentItemProps) {
+function CommentItem({ comment, formatTime, isApplied = false, onApply, conflicts }: CommentItemProps) {
   return (
     <div
       className={`px-3 py-2 border-b border-thread-border last:border-b-0 ${
@@ -204,7 +459,7 @@ function CommentItem({ comment, formatTime }: CommentItemProps) {
             comment.author === 'ai' ? 'text-success' : 'text-accent'
           }`}
         >
-          {comment.author === 'ai' ? 'AI Assistant' : 'You'}
+          {comment.author === 'ai' ? 'AI Assistant' : comment.authorName ?? 'You'}
         </span>
         <span className="text-xs text-gray-500">{formatTime(comment.timestamp)}</span>
       </div>
@@ -213,7 +468,24 @@ function CommentItem({ comment, formatTime }: CommentItemProps) {
       {/* Diff suggestion */}
       {comment.diff && (
         <div className="mt-2 p-2 bg-[#1e1e1e] rounded border border-thread-border">
-          <div className="text-xs text-gray-400 mb-1">Suggested change:</div>
+          <div className="flex items-center justify-between mb-1">
+            <span className="text-xs text-gray-400">Suggested change:</span>
+            {isApplied ? (
+              <span className="text-xs px-2 py-0.5 bg-success/20 text-success rounded" data-testid="suggestion-applied">
+                Applied
+              </span>
+            ) : (
+              onApply && (
+                <button
+                  type="button"
+                  onClick={onApply}
+                  className="text-xs px-2 py-0.5 bg-accent hover:bg-accent-hover text-white rounded transition-colors"
+                >
+                  Apply suggestion
+                </button>
+              )
+            )}
+          </div>
           <pre className="text-xs font-mono overflow-x-auto">
             {comment.diff.split('\n').map((line, i) => (
               <div
@@ -230,6 +502,21 @@ function CommentItem({ comment, formatTime }: CommentItemProps) {
               </div>
             ))}
           </pre>
+          {conflicts && (
+            <div className="mt-2 text-xs text-error" role="alert" data-testid="apply-conflicts">
+              <div className="font-medium">Could not apply the suggestion; the file was not changed.</div>
+              {conflicts.map((conflict, i) => (
+                <div key={i} className="mt-1">
+                  <div>{formatDiffConflicts([conflict])[0]}</div>
+                  {conflict.expected.length > 0 && (
+                    <pre className="mt-1 p-1 font-mono text-gray-400 bg-error/10 overflow-x-auto">
+                      {conflict.expected.join('\n')}
+                    </pre>
+                  )}
+                </div>
+              ))}
+            </div>
+          )}
         </div>
       )}
     </div>
@@ -0,0 +1,97 @@
+import { useState, FormEvent } from 'react';
+import { useAuth } from '../context/useAuth';
+
+/**
+ * Sign-in form, which can switch to creating an account
+ */
+export default function LoginForm() {
+  const { login, register, error } = useAuth();
+  const [mode, setMode] = useState<'login' | 'register'>('login');
+  const [username, setUsername] = useState('');
+  const [password, setPassword] = useState('');
+  const [displayName, setDisplayName] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const isRegister = mode === 'register';
+
+  const handleSubmit = async (e: FormEvent) => {
+    e.preventDefault();
+    setIsSubmitting(true);
+    try {
+      if (isRegister) {
+        await register({ username, password, displayName: displayName.trim() || undefined });
+      } else {
+        await login(username, password);
+      }
+    } catch {
+      // The error is shown from the auth context
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const inputClassName =
+    'w-full px-3 py-2 bg-[#1e1e1e] border border-[#3c3c3c] rounded text-white focus:outline-none focus:border-accent';
+
+  return (
+    <div className="flex items-center justify-center h-screen bg-[#1e1e1e]">
+      <form
+        className="bg-[#252526] rounded-lg p-6 w-96 border border-[#3c3c3c] flex flex-col gap-3"
+        onSubmit={handleSubmit}
+        data-testid="login-form"
+      >
+        <h1 className="text-lg font-semibold text-white">AI Code Review Assistant</h1>
+        <h2 className="text-sm text-gray-400">{isRegister ? 'Create an account' : 'Sign in to continue'}</h2>
+        <input
+          type="text"
+          value={username}
+          onChange={(e) => setUsername(e.target.value)}
+          placeholder="Username"
+          autoComplete="username"
+          className={inputClassName}
+          required
+          autoFocus
+        />
+        {isRegister && (
+          <input
+            type="text"
+            value={displayName}
+            onChange={(e) => setDisplayName(e.target.value)}
+            placeholder="Display name (optional)"
+            autoComplete="name"
+            className={inputClassName}
+          />
+        )}
+        <input
+          type="password"
+          value={password}
+          onChange={(e) => setPassword(e.target.value)}
+          placeholder="Password"
+          autoComplete={isRegister ? 'new-password' : 'current-password'}
+          minLength={isRegister ? 8 : undefined}
+          className={inputClassName}
+          required
+        />
+        {error && (
+          <p className="text-sm text-red-400" role="alert">
+            {error}
+          </p>
+        )}
+        <button
+          type="submit"
+          className="px-4 py-2 bg-accent hover:bg-accent-hover text-white rounded transition-colors disabled:opacity-50"
+          disabled={isSubmitting}
+        >
+          {isRegister ? 'Create account' : 'Sign in'}
+        </button>
+        <button
+          type="button"
+          className="text-sm text-gray-400 hover:text-white transition-colors"
+          onClick={() => setMode(isRegister ? 'login' : 'register')}
+        >
+          {isRegister ? 'Already have an account? Sign in' : 'No account yet? Create one'}
+        </button>
+      </form>
+    </div>
+  );
+}
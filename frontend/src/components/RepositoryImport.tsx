@@ -0,0 +1,281 @@
+import { useState, useEffect, useRef, useMemo } from 'react';
+import {
+  getRepositoryFiles,
+  closeRepository,
+  streamRepositoryFiles,
+  GitRepository,
+  GitRepositoryFiles,
+} from '../services/apiService';
+import { detectLanguageFromFilename, detectLanguageFromContent } from '../utils/selectionUtils';
+import { ThreadSource } from '../types/thread';
+import RepositoryOpener from './RepositoryOpener';
+
+/**
+ * A file read from a repository
+ */
+export interface ImportedFile {
+  name: string;
+  content: string;
+  language: string;
+  /** Missing for working tree files that are not committed yet */
+  source?: ThreadSource;
+}
+
+interface RepositoryImportProps {
+  onFileImported: (file: ImportedFile) => void;
+  onClose: () => void;
+}
+
+const inputClassName =
+  'w-full px-3 py-2 bg-[#1e1e1e] border border-[#3c3c3c] rounded text-white focus:outline-none focus:border-accent';
+
+/**
+ * Modal to open a git repository, pick a working tree, branch, tag or commit
+ * and stream the chosen files into editor tabs
+ */
+export default function RepositoryImport({ onFileImported, onClose }: RepositoryImportProps) {
+  const [repository, setRepository] = useState<GitRepository | null>(null);
+  const [ref, setRef] = useState('');
+  const [listing, setListing] = useState<GitRepositoryFiles | null>(null);
+  const [filter, setFilter] = useState('');
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  const [skipped, setSkipped] = useState<Array<{ path: string; reason: string }>>([]);
+  const [isBusy, setIsBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const abortRef = useRef<AbortController | null>(null);
+  const repositoryIdRef = useRef<string | null>(null);
+
+  // Stop streaming and release the repository when the modal closes
+  useEffect(() => {
+    return () => {
+      abortRef.current?.abort();
+      if (repositoryIdRef.current) {
+        closeRepository(repositoryIdRef.current).catch(() => {});
+      }
+    };
+  }, []);
+
+  const shownFiles = useMemo(() => {
+    const files = listing?.files ?? [];
+    const term = filter.trim().toLowerCase();
+    return term ? files.filter(file => file.path.toLowerCase().includes(term)) : files;
+  }, [listing, filter]);
+
+  const run = async (action: () => Promise<void>) => {
+    setIsBusy(true);
+    setError(null);
+    try {
+      await action();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Something went wrong');
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const listFiles = (opened: GitRepository, requestedRef: string) =>
+    run(async () => {
+      const result = await getRepositoryFiles(opened.id, requestedRef.trim() || undefined);
+      setListing(result);
+      setSelected(new Set());
+      setSkipped([]);
+    });
+
+  const handleOpened = async (opened: GitRepository) => {
+    // Closed on unmount even if listing its files fails
+    repositoryIdRef.current = opened.id;
+    setListing(await getRepositoryFiles(opened.id));
+    setRef('');
+    setRepository(opened);
+  };
+
+  const toggleFile = (filePath: string) => {
+    setSelected(prev => {
+      const next = new Set(prev);
+      if (next.has(filePath)) {
+        next.delete(filePath);
+      } else {
+        next.add(filePath);
+      }
+      return next;
+    });
+  };
+
+  const toggleShown = () => {
+    const allShown = shownFiles.length > 0 && shownFiles.every(file => selected.has(file.path));
+    setSelected(prev => {
+      const next = new Set(prev);
+      for (const file of shownFiles) {
+        if (allShown) {
+          next.delete(file.path);
+        } else {
+          next.add(file.path);
+        }
+      }
+      return next;
+    });
+  };
+
+  const handleImport = () => {
+    if (!repository || !listing || selected.size === 0) return;
+
+    const commit = listing.commit;
+    // Working tree files may differ from HEAD, so only committed versions are recorded
+    const recordSource = commit !== null && listing.ref !== null;
+    const controller = new AbortController();
+    abortRef.current = controller;
+
+    void run(async () => {
+      const skippedFiles: Array<{ path: string; reason: string }> = [];
+      await streamRepositoryFiles(
+        repository.id,
+        { ref: listing.ref ?? undefined, paths: [...selected] },
+        {
+          onFile: (filePath, content) => {
+            onFileImported({
+              name: filePath,
+              content,
+              language: detectLanguageFromFilename(filePath) || detectLanguageFromContent(content),
+              source: recordSource ? { repository: repository.name, commitSha: commit, path: filePath } : undefined,
+            });
+          },
+          onSkipped: (filePath, reason) => {
+            skippedFiles.push({ path: filePath, reason });
+          },
+        },
+        controller.signal
+      );
+      abortRef.current = null;
+
+      if (skippedFiles.length === 0) {
+        onClose();
+      } else {
+        setSkipped(skippedFiles);
+      }
+    });
+  };
+
+  const refPlaceholder = repository?.workingTree ? 'Working tree' : 'HEAD';
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50">
+      <div
+        className="bg-[#252526] rounded-lg p-6 w-[32rem] max-h-[80vh] border border-[#3c3c3c] flex flex-col gap-3"
+        role="dialog"
+        aria-label="Open repository"
+      >
+        <h3 className="text-lg font-medium text-white">Open Repository</h3>
+
+        {!repository ? (
+          <RepositoryOpener onOpened={handleOpened} />
+        ) : (
+          <>
+            <p className="text-sm text-gray-300 truncate" title={repository.name}>
+              {repository.name}
+            </p>
+            <form
+              className="flex gap-2"
+              onSubmit={(e) => {
+                e.preventDefault();
+                void listFiles(repository, ref);
+              }}
+            >
+              <input
+                type="text"
+                value={ref}
+                onChange={(e) => setRef(e.target.value)}
+                placeholder={refPlaceholder}
+                aria-label="Branch, tag or commit"
+                list="repository-refs"
+                className={inputClassName}
+              />
+              <datalist id="repository-refs">
+                {repository.branches.map(branch => (
+                  <option key={`branch-${branch}`} value={branch} />
+                ))}
+                {repository.tags.map(tag => (
+                  <option key={`tag-${tag}`} value={tag} />
+                ))}
+              </datalist>
+              <button
+                type="submit"
+                className="px-4 py-2 bg-[#3c3c3c] hover:bg-[#4c4c4c] text-white rounded transition-colors disabled:opacity-50"
+                disabled={isBusy}
+              >
+                Show
+              </button>
+            </form>
+
+            {listing && (
+              <>
+                <p className="text-xs text-gray-500">
+                  {listing.ref === null ? 'Working tree' : listing.ref}
+                  {listing.commit && ` at ${listing.commit.slice(0, 7)}`} · {listing.files.length} files
+                </p>
+                <div className="flex gap-2 items-center">
+                  <input
+                    type="text"
+                    value={filter}
+                    onChange={(e) => setFilter(e.target.value)}
+                    placeholder="Filter files"
+                    aria-label="Filter files"
+                    className={inputClassName}
+                  />
+                  <button
+                    className="text-xs text-gray-400 hover:text-white whitespace-nowrap"
+                    onClick={toggleShown}
+                  >
+                    Toggle all
+                  </button>
+                </div>
+                <ul className="flex-1 min-h-0 overflow-y-auto border border-[#3c3c3c] rounded" data-testid="repository-files">
+                  {shownFiles.map(file => (
+                    <li key={file.path}>
+                      <label className="flex items-center gap-2 px-2 py-1 text-sm text-gray-300 hover:bg-[#2a2d2e] cursor-pointer">
+                        <input
+                          type="checkbox"
+                          checked={selected.has(file.path)}
+                          onChange={() => toggleFile(file.path)}
+                        />
+                        <span className="truncate">{file.path}</span>
+                      </label>
+                    </li>
+                  ))}
+                </ul>
+              </>
+            )}
+
+            {skipped.length > 0 && (
+              <div className="text-xs text-warning" role="status">
+                Skipped {skipped.length} {skipped.length === 1 ? 'file' : 'files'}:{' '}
+                {skipped.map(file => `${file.path} (${file.reason})`).join(', ')}
+              </div>
+            )}
+          </>
+        )}
+
+        {error && (
+          <p className="text-sm text-red-400" role="alert">
+            {error}
+          </p>
+        )}
+
+        <div className="flex justify-end gap-2">
+          <button className="px-4 py-2 text-gray-400 hover:text-white transition-colors" onClick={onClose}>
+            {skipped.length > 0 ? 'Done' : 'Cancel'}
+          </button>
+          {repository && (
+            <button
+              className="px-4 py-2 bg-accent hover:bg-accent-hover text-white rounded transition-colors disabled:opacity-50"
+              onClick={handleImport}
+              disabled={isBusy || selected.size === 0}
+            >
+              Open {selected.size} {selected.size === 1 ? 'file' : 'files'}
+            </button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
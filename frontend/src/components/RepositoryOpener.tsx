@@ -0,0 +1,83 @@
+import { useState, FormEvent, ChangeEvent } from 'react';
+import { openRepository, uploadRepository, GitRepository } from '../services/apiService';
+
+interface RepositoryOpenerProps {
+  /** Called with the opened repository; errors it throws are shown in the form */
+  onOpened: (repository: GitRepository) => Promise<void> | void;
+}
+
+const inputClassName =
+  'w-full px-3 py-2 bg-[#1e1e1e] border border-[#3c3c3c] rounded text-white focus:outline-none focus:border-accent';
+
+/**
+ * Open a repository by its path on the server, or by uploading a bundle or tar archive
+ */
+export default function RepositoryOpener({ onOpened }: RepositoryOpenerProps) {
+  const [path, setPath] = useState('');
+  const [isOpening, setIsOpening] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const open = async (request: () => Promise<GitRepository>) => {
+    setIsOpening(true);
+    setError(null);
+    try {
+      await onOpened(await request());
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to open the repository');
+    } finally {
+      setIsOpening(false);
+    }
+  };
+
+  const handleOpenPath = (e: FormEvent) => {
+    e.preventDefault();
+    if (!path.trim()) return;
+    void open(() => openRepository(path.trim()));
+  };
+
+  const handleUpload = (e: ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    void open(() => uploadRepository(file));
+  };
+
+  return (
+    <div className="flex flex-col gap-3">
+      <form className="flex gap-2" onSubmit={handleOpenPath}>
+        <input
+          type="text"
+          value={path}
+          onChange={(e) => setPath(e.target.value)}
+          placeholder="Path on the server, e.g. /srv/repos/project"
+          aria-label="Repository path"
+          className={inputClassName}
+          autoFocus
+        />
+        <button
+          type="submit"
+          className="px-4 py-2 bg-accent hover:bg-accent-hover text-white rounded transition-colors disabled:opacity-50"
+          disabled={isOpening || !path.trim()}
+        >
+          Open
+        </button>
+      </form>
+      <label className="text-sm text-gray-400">
+        or upload a git bundle or tar archive
+        <input
+          type="file"
+          accept=".bundle,.tar,.tar.gz,.tgz,.tar.bz2,.tar.xz"
+          onChange={handleUpload}
+          disabled={isOpening}
+          aria-label="Repository archive"
+          className="block mt-1 text-sm text-gray-300"
+        />
+      </label>
+      {error && (
+        <p className="text-sm text-red-400" role="alert">
+          {error}
+        </p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,30 @@
+import { REVIEW_MODES, REVIEW_MODE_LABELS, type ReviewMode } from '@ai-code-review/shared';
+
+interface ReviewModeSelectProps {
+  value: ReviewMode;
+  onChange: (mode: ReviewMode) => void;
+  disabled?: boolean;
+  /** Accessible name, such as "Review mode" or "Scan mode" */
+  label: string;
+}
+
+/**
+ * Picker of what an AI review or scan concentrates on, such as a security audit or test gaps
+ */
+export default function ReviewModeSelect({ value, onChange, disabled, label }: ReviewModeSelectProps) {
+  return (
+    <select
+      value={value}
+      onChange={(e) => onChange(e.target.value as ReviewMode)}
+      disabled={disabled}
+      className="px-2 py-1 bg-[#1e1e1e] border border-[#3c3c3c] rounded text-sm text-gray-300 focus:outline-none focus:border-accent disabled:opacity-50"
+      aria-label={label}
+    >
+      {REVIEW_MODES.map(mode => (
+        <option key={mode} value={mode}>
+          {REVIEW_MODE_LABELS[mode]}
+        </option>
+      ))}
+    </select>
+  );
+}
@@ -0,0 +1,101 @@
+import { useState } from 'react';
+import { CodeIssue } from './CodeEditor';
+
+interface ScanResultsProps {
+  /** Issues found on the file, by the last AI scan and by imported analyzers */
+  issues: CodeIssue[];
+  /** Issues of the previous scan that the last scan no longer finds */
+  fixed: CodeIssue[];
+  onSelectIssue: (issue: CodeIssue) => void;
+  /** Open the thread of an issue, creating it first if there is none */
+  onOpenThread: (issue: CodeIssue) => void;
+  hasThread: (threadId: string) => boolean;
+}
+
+const STATUS_LABELS: Record<NonNullable<CodeIssue['status']>, string> = {
+  new: 'New',
+  present: 'Still present',
+  fixed: 'Fixed',
+};
+
+const STATUS_CLASSES: Record<NonNullable<CodeIssue['status']>, string> = {
+  new: 'bg-orange-600/30 text-orange-300',
+  present: 'bg-[#3c3c3c] text-gray-300',
+  fixed: 'bg-green-600/30 text-green-300',
+};
+
+const SEVERITY_CLASSES: Record<CodeIssue['severity'], string> = {
+  error: 'bg-red-500',
+  warning: 'bg-yellow-500',
+  info: 'bg-blue-400',
+};
+
+/**
+ * Issues of the active file below the editor, with where each one stands compared
+ * to the previous scan and a button to discuss it in a thread
+ */
+export default function ScanResults({ issues, fixed, onSelectIssue, onOpenThread, hasThread }: ScanResultsProps) {
+  const [isExpanded, setIsExpanded] = useState(true);
+
+  const count = (status: CodeIssue['status']) => issues.filter(issue => issue.status === status).length;
+  const summary = [
+    count('new') > 0 && `${count('new')} new`,
+    count('present') > 0 && `${count('present')} still present`,
+    fixed.length > 0 && `${fixed.length} fixed`,
+  ].filter(Boolean).join(' · ');
+
+  const rows = [...issues, ...fixed].sort((a, b) => a.startLine - b.startLine);
+
+  return (
+    <section className="border-t border-[#3c3c3c] bg-[#252526] text-sm" aria-label="Problems">
+      <button
+        className="flex items-center gap-2 w-full px-4 py-1 text-left text-gray-300 hover:bg-[#2a2d2e]"
+        onClick={() => setIsExpanded(!isExpanded)}
+        aria-expanded={isExpanded}
+      >
+        <span className="text-xs">{isExpanded ? '▾' : '▸'}</span>
+        <span className="font-medium">Problems ({issues.length})</span>
+        {summary && <span className="text-xs text-gray-500">{summary}</span>}
+      </button>
+
+      {isExpanded && (
+        <ul className="max-h-48 overflow-y-auto">
+          {rows.map(issue => {
+            const isFixed = issue.status === 'fixed';
+            const threadExists = issue.threadId ? hasThread(issue.threadId) : false;
+            return (
+              <li
+                key={`${issue.tool ?? 'scan'}-${issue.id}`}
+                className="flex items-center gap-2 px-4 py-1 hover:bg-[#2a2d2e] cursor-pointer"
+                onClick={() => !isFixed && onSelectIssue(issue)}
+              >
+                <span className={`w-2 h-2 rounded-full shrink-0 ${SEVERITY_CLASSES[issue.severity]}`} />
+                <span className="text-xs text-gray-500 w-12 shrink-0">Ln {issue.startLine}</span>
+                <span className={`flex-1 truncate ${isFixed ? 'text-gray-500 line-through' : 'text-gray-300'}`} title={issue.message}>
+                  {issue.message}
+                </span>
+                <span className="text-xs text-gray-500 shrink-0">{issue.tool ?? issue.ruleId ?? issue.category}</span>
+                {issue.status && (
+                  <span className={`px-1.5 rounded text-xs shrink-0 ${STATUS_CLASSES[issue.status]}`}>
+                    {STATUS_LABELS[issue.status]}
+                  </span>
+                )}
+                {(!isFixed || threadExists) && (
+                  <button
+                    className="px-2 rounded text-xs text-accent hover:bg-[#3c3c3c] shrink-0"
+                    onClick={(e) => {
+                      e.stopPropagation();
+                      onOpenThread(issue);
+                    }}
+                  >
+                    {threadExists ? 'Open thread' : 'Create thread'}
+                  </button>
+                )}
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </section>
+  );
+}
@@ -0,0 +1,89 @@
+import { useState, FormEvent } from 'react';
+import { searchCode, SearchResult } from '../services/apiService';
+
+interface SearchPanelProps {
+  /** Names of the open files; results in other files can be read but not shown in the editor */
+  openFiles: string[];
+  /** Show the lines of a result in the editor */
+  onSelectResult: (result: SearchResult) => void;
+}
+
+/** Results shown for a query */
+const RESULT_LIMIT = 20;
+
+/**
+ * Semantic search of the workspace's indexed files: finds code by what it does,
+ * not only by the words it contains
+ */
+export default function SearchPanel({ openFiles, onSelectResult }: SearchPanelProps) {
+  const [query, setQuery] = useState('');
+  const [results, setResults] = useState<SearchResult[] | null>(null);
+  const [isSearching, setIsSearching] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleSubmit = async (e: FormEvent) => {
+    e.preventDefault();
+    if (!query.trim() || isSearching) return;
+
+    setIsSearching(true);
+    setError(null);
+    try {
+      setResults(await searchCode(query.trim(), { limit: RESULT_LIMIT }));
+    } catch (err) {
+      setResults(null);
+      setError(err instanceof Error ? err.message : 'Search failed');
+    } finally {
+      setIsSearching(false);
+    }
+  };
+
+  return (
+    <section className="border-t border-[#3c3c3c] text-sm" aria-label="Code search">
+      <form className="p-3 flex gap-1" onSubmit={handleSubmit}>
+        <input
+          type="search"
+          className="flex-1 min-w-0 px-2 py-1 bg-[#3c3c3c] text-white rounded text-xs focus:outline-none focus:ring-1 focus:ring-accent"
+          placeholder="Search code..."
+          aria-label="Search code"
+          value={query}
+          onChange={(e) => setQuery(e.target.value)}
+        />
+        <button
+          type="submit"
+          className="px-2 py-1 rounded text-xs text-gray-300 hover:bg-[#3c3c3c] disabled:opacity-50"
+          disabled={isSearching || !query.trim()}
+        >
+          {isSearching ? 'Searching...' : 'Search'}
+        </button>
+      </form>
+
+      {error && <p className="px-3 pb-2 text-xs text-red-400">{error}</p>}
+
+      {results && results.length === 0 && <p className="px-3 pb-2 text-xs text-gray-500">No matching code</p>}
+
+      {results && results.length > 0 && (
+        <ul className="max-h-64 overflow-y-auto pb-2">
+          {results.map(result => {
+            const isOpen = openFiles.includes(result.file);
+            return (
+              <li
+                key={`${result.file}:${result.startLine}`}
+                className={`px-3 py-1 ${isOpen ? 'cursor-pointer hover:bg-[#2a2d2e]' : 'opacity-60'}`}
+                onClick={() => isOpen && onSelectResult(result)}
+                title={isOpen ? result.content : `${result.file} is not open`}
+              >
+                <div className="flex items-center gap-2">
+                  <span className="flex-1 truncate text-gray-300">{result.symbol ?? result.file.split('/').pop()}</span>
+                  <span className="text-xs text-gray-500 shrink-0">{Math.round(result.score * 100)}%</span>
+                </div>
+                <div className="text-xs text-gray-500 truncate">
+                  {result.file}:{result.startLine}-{result.endLine}
+                </div>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </section>
+  );
+}
@@ -0,0 +1,49 @@
+import { useThreads } from '../context/ThreadContext';
+
+/**
+ * Shows whether threads are saved to the backend and how many changes are waiting to sync,
+ * why syncing is paused and how many changes the backend rejected
+ * Clicking it syncs right away
+ */
+export default function SyncStatus() {
+  const { syncStatus, syncNow } = useThreads();
+
+  if (!syncStatus) {
+    return null;
+  }
+
+  const { isOnline, pendingChanges, lastSuccessfulSync, error, rejectedChanges } = syncStatus;
+  const changes = `${pendingChanges} ${pendingChanges === 1 ? 'change' : 'changes'}`;
+  const rejected = `${rejectedChanges} ${rejectedChanges === 1 ? 'change' : 'changes'}`;
+
+  let label = 'Synced';
+  let dotColor = 'bg-green-500';
+  let title = lastSuccessfulSync ? `Last synced ${lastSuccessfulSync.toLocaleString()}` : 'Not synced yet';
+  if (error) {
+    label = 'Sync paused';
+    dotColor = 'bg-red-500';
+    title = `${error}. Click to retry`;
+  } else if (rejectedChanges > 0) {
+    label = `${rejected} rejected`;
+    dotColor = 'bg-red-500';
+    title = `The server rejected ${rejected}, which were discarded. Click to dismiss`;
+  } else if (!isOnline) {
+    label = pendingChanges > 0 ? `Offline, ${changes} pending` : 'Offline';
+    dotColor = 'bg-gray-500';
+  } else if (pendingChanges > 0) {
+    label = `${changes} pending`;
+    dotColor = 'bg-yellow-500';
+  }
+
+  return (
+    <button
+      className="flex items-center gap-2 px-2 py-1 rounded text-xs text-gray-400 hover:bg-[#3c3c3c]"
+      onClick={syncNow}
+      title={title}
+      data-testid="sync-status"
+    >
+      <span className={`w-2 h-2 rounded-full ${dotColor}`} />
+      {label}
+    </button>
+  );
+}
@@ -1,17 +1,84 @@
-import { useMemo } from 'react';
+import { useMemo, useCallback, useState } from 'react';
 import { useThreads } from '../context/ThreadContext';
 import { Thread } from '../types/thread';
 import InlineThread from './InlineThread';
+import { ApplyDiffResult } from '../utils/diffUtils';
+import { DiffReviewFile, findHunk, formatHunk } from '../utils/diffReview';
+import { exportReport, ExportedScan } from '../services/apiService';
+import { downloadFile } from '../utils/fileUtils';
+import { SourceFile } from '../utils/projectIndex';
 
 interface ThreadPanelProps {
   /** Current file name to filter threads */
   currentFile: string | null;
   /** Whether to show all threads or just for current file */
   showAllFiles?: boolean;
+  /** Content of the current file, passed to threads as AI review context */
+  fileContent?: string;
+  /** Language of the current file */
+  language?: string;
+  /** Apply a thread's suggested diff to the current file */
+  onApplySuggestion?: (thread: Thread, diff: string) => ApplyDiffResult;
+  /** File of a diff review; shows the threads on its two revisions instead of the open file's */
+  diff?: {
+    file: DiffReviewFile;
+    baseRevision: string;
+    headRevision: string;
+  };
+  /** Scan issues of the open files, included in exported reports */
+  scans?: ExportedScan[];
+  /** Files open in the editor, for the definitions AI reviews of the current file use */
+  openFiles?: SourceFile[];
 }
 
-export default function ThreadPanel({ currentFile, showAllFiles = false }: ThreadPanelProps) {
+const REPORT_FORMATS = [
+  { format: 'markdown', label: 'Markdown', fileName: 'code-review.md', type: 'text/markdown' },
+  { format: 'html', label: 'HTML', fileName: 'code-review.html', type: 'text/html' },
+] as const;
+
+export default function ThreadPanel({
+  currentFile,
+  showAllFiles = false,
+  fileContent,
+  language,
+  onApplySuggestion,
+  diff,
+  scans,
+  openFiles,
+}: ThreadPanelProps) {
   const { state, setActiveThread, clearThreads } = useThreads();
+  const [showReportFormats, setShowReportFormats] = useState(false);
+  const [isExporting, setIsExporting] = useState(false);
+  const [exportError, setExportError] = useState<string | null>(null);
+
+  // Reports cover every thread of the workspace, not just the current file's
+  const handleExportReport = async (option: (typeof REPORT_FORMATS)[number]) => {
+    setShowReportFormats(false);
+    setIsExporting(true);
+    setExportError(null);
+    try {
+      const report = await exportReport(option.format, scans);
+      downloadFile(report, option.fileName, option.type);
+    } catch (error) {
+      setExportError(error instanceof Error ? error.message : 'Failed to export the report');
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  // Threads on a diff belong to its two revisions, not to the open file
+  const isOnCurrentFile = useCallback(
+    (thread: Thread) => {
+      if (thread.file !== currentFile) return false;
+      if (!diff) return !thread.side;
+      return (
+        thread.side !== undefined &&
+        thread.baseRevision === diff.baseRevision &&
+        thread.headRevision === diff.headRevision
+      );
+    },
+    [currentFile, diff]
+  );
 
   const filteredThreads = useMemo(() => {
     if (showAllFiles) {
@@ -20,8 +87,8 @@ export default function ThreadPanel({ currentFile, showAllFiles = false }: Threa
     if (!currentFile) {
       return [];
     }
-    return state.threads.filter(thread => thread.file === currentFile);
-  }, [state.threads, currentFile, showAllFiles]);
+    return state.threads.filter(isOnCurrentFile);
+  }, [state.threads, currentFile, showAllFiles, isOnCurrentFile]);
 
   const groupedThreads = useMemo(() => {
     const groups: Record<string, Thread[]> = {};
@@ -48,11 +115,32 @@ export default function ThreadPanel({ currentFile, showAllFiles = false }: Threa
     if (!thread) return null;
     // If showing all files, always show active thread
     // Otherwise, only show if it matches the current file
-    if (showAllFiles || thread.file === currentFile) {
+    if (showAllFiles || isOnCurrentFile(thread)) {
       return thread;
     }
     return null;
-  }, [state.activeThreadId, state.threads, currentFile, showAllFiles]);
+  }, [state.activeThreadId, state.threads, showAllFiles, isOnCurrentFile]);
+
+  // A thread on a diff is reviewed with its side of the file and the hunk it is in
+  const activeThreadProps = useMemo(() => {
+    if (!activeThread || !isOnCurrentFile(activeThread)) {
+      return {};
+    }
+    if (!diff || !activeThread.side) {
+      return {
+        fileContent,
+        language,
+        onApplySuggestion: onApplySuggestion && ((patch: string) => onApplySuggestion(activeThread, patch)),
+        openFiles,
+      };
+    }
+    const hunk = findHunk(diff.file.hunks, activeThread.side, activeThread.range);
+    return {
+      fileContent: activeThread.side === 'old' ? diff.file.original : diff.file.modified,
+      language: diff.file.language,
+      hunk: hunk ? formatHunk(diff.file.path, hunk) : undefined,
+    };
+  }, [activeThread, isOnCurrentFile, diff, fileContent, language, onApplySuggestion, openFiles]);
 
   const unresolvedCount = filteredThreads.filter(t => !t.resolved).length;
   const resolvedCount = filteredThreads.filter(t => t.resolved).length;
@@ -82,26 +170,56 @@ export default function ThreadPanel({ currentFile, showAllFiles = false }: Threa
             </span>
           )}
         </div>
-        {filteredThreads.length > 0 && (
+        <div className="relative flex items-center gap-2">
           <button
-            onClick={() => {
-              if (confirm('Clear all threads?')) {
-                clearThreads();
-              }
-            }}
-            className="text-xs text-gray-500 hover:text-gray-300"
+            onClick={() => setShowReportFormats(!showReportFormats)}
+            disabled={isExporting}
+            className="text-xs text-gray-500 hover:text-gray-300 disabled:opacity-50"
+            aria-expanded={showReportFormats}
           >
-            Clear all
+            {isExporting ? 'Exporting...' : 'Export report'}
           </button>
-        )}
+          {showReportFormats && (
+            <div className="absolute right-0 top-full mt-1 z-10 flex flex-col bg-[#2d2d2d] border border-thread-border rounded shadow-lg">
+              {REPORT_FORMATS.map(option => (
+                <button
+                  key={option.format}
+                  onClick={() => void handleExportReport(option)}
+                  className="px-3 py-1 text-xs text-left text-gray-300 hover:bg-[#37373d]"
+                >
+                  {option.label}
+                </button>
+              ))}
+            </div>
+          )}
+          {filteredThreads.length > 0 && (
+            <button
+              onClick={() => {
+                if (confirm('Clear all threads?')) {
+                  clearThreads();
+                }
+              }}
+              className="text-xs text-gray-500 hover:text-gray-300"
+            >
+              Clear all
+            </button>
+          )}
+        </div>
       </div>
 
+      {exportError && (
+        <div className="px-3 py-1 text-xs text-error border-b border-thread-border" role="alert">
+          {exportError}
+        </div>
+      )}
+
       {/* Active thread view */}
       {activeThread && (
         <div className="p-3 border-b border-thread-border">
           <InlineThread
             thread={activeThread}
             onClose={() => setActiveThread(null)}
+            {...activeThreadProps}
           />
         </div>
       )}
@@ -172,6 +290,19 @@ function ThreadListItem({ thread, isActive, onClick }: ThreadListItemProps) {
           Lines {thread.range.startLine}-{thread.range.endLine}
         </span>
         <div className="flex items-center gap-1">
+          {thread.side && (
+            <span className="text-xs px-1 bg-[#3c3c3c] text-gray-300 rounded">
+              {thread.side === 'old' ? 'Old' : 'New'}
+            </span>
+          )}
+          {thread.outdated && (
+            <span
+              className="text-xs px-1 bg-warning/20 text-warning rounded"
+              title="The code this thread was on has changed"
+            >
+              Outdated
+            </span>
+          )}
           {thread.resolved && (
             <svg className="w-3 h-3 text-success" fill="currentColor" viewBox="0 0 20 20">
               <path
@@ -189,7 +320,7 @@ function ThreadListItem({ thread, isActive, onClick }: ThreadListItemProps) {
       {lastComment && (
         <p className="text-xs text-gray-400 truncate">
           <span className={lastComment.author === 'ai' ? 'text-success' : 'text-accent'}>
-            {lastComment.author === 'ai' ? 'AI' : 'You'}:
+            {lastComment.author === 'ai' ? 'AI' : lastComment.authorName ?? 'You'}:
           </span>{' '}
           {lastComment.text.slice(0, 50)}
           {lastComment.text.length > 50 && '...'}
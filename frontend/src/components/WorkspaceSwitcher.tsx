@@ -0,0 +1,81 @@
+import { useState, FormEvent } from 'react';
+import { useWorkspaces } from '../context/useWorkspaces';
+
+const NEW_WORKSPACE = '__new__';
+
+/**
+ * Header control that selects the workspace threads are shown for, or creates one
+ */
+export default function WorkspaceSwitcher() {
+  const { workspaces, workspaceId, error, switchWorkspace, createWorkspace } = useWorkspaces();
+  const [isCreating, setIsCreating] = useState(false);
+  const [name, setName] = useState('');
+
+  if (workspaces.length === 0) {
+    return null;
+  }
+
+  const handleCreate = async (e: FormEvent) => {
+    e.preventDefault();
+    if (!name.trim()) return;
+    try {
+      await createWorkspace(name.trim());
+      setName('');
+      setIsCreating(false);
+    } catch {
+      // The error is shown from the workspace context
+    }
+  };
+
+  if (isCreating) {
+    return (
+      <form className="flex items-center gap-1 text-sm" onSubmit={handleCreate}>
+        <input
+          type="text"
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          placeholder="Workspace name"
+          className="px-2 py-1 bg-[#1e1e1e] border border-[#3c3c3c] rounded text-white text-xs focus:outline-none focus:border-accent"
+          autoFocus
+        />
+        <button type="submit" className="px-2 py-1 bg-accent hover:bg-accent-hover text-white rounded text-xs">
+          Create
+        </button>
+        <button
+          type="button"
+          className="px-2 py-1 rounded text-xs text-gray-400 hover:bg-[#3c3c3c] hover:text-white"
+          onClick={() => setIsCreating(false)}
+        >
+          Cancel
+        </button>
+        {error && (
+          <span className="text-xs text-red-400" role="alert">
+            {error}
+          </span>
+        )}
+      </form>
+    );
+  }
+
+  return (
+    <select
+      value={workspaceId ?? ''}
+      onChange={(e) => {
+        if (e.target.value === NEW_WORKSPACE) {
+          setIsCreating(true);
+        } else {
+          switchWorkspace(e.target.value);
+        }
+      }}
+      className="px-2 py-1 bg-[#1e1e1e] border border-[#3c3c3c] rounded text-sm text-gray-300 focus:outline-none focus:border-accent"
+      aria-label="Workspace"
+    >
+      {workspaces.map(workspace => (
+        <option key={workspace.id} value={workspace.id}>
+          {workspace.name}
+        </option>
+      ))}
+      <option value={NEW_WORKSPACE}>New workspace…</option>
+    </select>
+  );
+}
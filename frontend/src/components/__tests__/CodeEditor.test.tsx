@@ -1,6 +1,8 @@
-import { describe, it, expect, vi } from 'vitest';
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { createRef } from 'react';
 import { render, screen, waitFor } from '@testing-library/react';
-import CodeEditor from '../CodeEditor';
+import Editor from '@monaco-editor/react';
+import CodeEditor, { CodeEditorHandle } from '../CodeEditor';
 
 describe('CodeEditor', () => {
   const defaultProps = {
@@ -75,6 +77,80 @@ describe('CodeEditor', () => {
     expect(screen.getByTestId('code-editor')).toBeInTheDocument();
   });
 
+  describe('applyDiff', () => {
+    const code = 'function divide(a, b) {\n  return a / b;\n}\n';
+    const originalEditor = vi.mocked(Editor).getMockImplementation();
+
+    const editorMock = {
+      updateOptions: vi.fn(),
+      onDidChangeCursorSelection: vi.fn(),
+      onMouseDown: vi.fn(),
+      focus: vi.fn(),
+      pushUndoStop: vi.fn(),
+      executeEdits: vi.fn(() => true),
+      getModel: () => ({
+        getValue: () => code,
+        getPositionAt: (offset: number) => {
+          const before = code.slice(0, offset).split('\n');
+          return { lineNumber: before.length, column: before[before.length - 1].length + 1 };
+        },
+      }),
+    };
+
+    afterEach(() => {
+      vi.mocked(Editor).mockImplementation(originalEditor!);
+      vi.clearAllMocks();
+    });
+
+    const renderEditor = () => {
+      vi.mocked(Editor).mockImplementation(({ onMount }) => {
+        onMount?.(editorMock as never, { editor: { MouseTargetType: {} } } as never);
+        return null;
+      });
+      const ref = createRef<CodeEditorHandle>();
+      render(<CodeEditor ref={ref} code={code} language="javascript" />);
+      return ref.current!;
+    };
+
+    it('applies the suggestion as a single undoable edit', () => {
+      const handle = renderEditor();
+
+      const result = handle.applyDiff(
+        ' function divide(a, b) {\n-  return a / b;\n+  if (b === 0) throw new Error("Division by zero");\n+  return a / b;',
+        { nearLine: 1 }
+      );
+
+      expect(result.applied).toBe(true);
+      expect(editorMock.executeEdits).toHaveBeenCalledTimes(1);
+      expect(editorMock.executeEdits).toHaveBeenCalledWith('ai-suggestion', [
+        {
+          range: { startLineNumber: 1, startColumn: 1, endLineNumber: 3, endColumn: 1 },
+          text: 'function divide(a, b) {\n  if (b === 0) throw new Error("Division by zero");\n  return a / b;\n',
+          forceMoveMarkers: true,
+        },
+      ]);
+      // Undo stops before and after the edit
+      expect(editorMock.pushUndoStop).toHaveBeenCalledTimes(2);
+      expect(editorMock.pushUndoStop.mock.invocationCallOrder[0])
+        .toBeLessThan(editorMock.executeEdits.mock.invocationCallOrder[0]);
+      expect(editorMock.pushUndoStop.mock.invocationCallOrder[1])
+        .toBeGreaterThan(editorMock.executeEdits.mock.invocationCallOrder[0]);
+    });
+
+    it('reports conflicts without editing the buffer', () => {
+      const handle = renderEditor();
+
+      const result = handle.applyDiff('-  return a * b;\n+  return a / b;');
+
+      expect(result).toEqual({
+        applied: false,
+        conflicts: [expect.objectContaining({ hunk: 1, expected: ['  return a * b;'] })],
+      });
+      expect(editorMock.executeEdits).not.toHaveBeenCalled();
+      expect(editorMock.pushUndoStop).not.toHaveBeenCalled();
+    });
+  });
+
   it('applies custom theme', async () => {
     render(<CodeEditor {...defaultProps} theme="vs-light" />);
     
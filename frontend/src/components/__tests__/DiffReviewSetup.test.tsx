@@ -0,0 +1,184 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { render, screen, fireEvent, waitFor } from '@testing-library/react';
+import DiffReviewSetup from '../DiffReviewSetup';
+import {
+  openRepository,
+  closeRepository,
+  getRepositoryChanges,
+  streamRepositoryFiles,
+} from '../../services/apiService';
+
+vi.mock('../../services/apiService', () => ({
+  openRepository: vi.fn(),
+  uploadRepository: vi.fn(),
+  closeRepository: vi.fn(),
+  getRepositoryChanges: vi.fn(),
+  streamRepositoryFiles: vi.fn(),
+}));
+
+const BASE = 'a'.repeat(40);
+const HEAD = 'b'.repeat(40);
+
+const repository = {
+  id: 'repo-1',
+  name: '/srv/repos/project',
+  workingTree: true,
+  currentBranch: 'main',
+  head: HEAD,
+  branches: ['feature', 'main'],
+  tags: [],
+};
+
+const onStart = vi.fn();
+const onClose = vi.fn();
+
+const renderSetup = () => render(<DiffReviewSetup onStart={onStart} onClose={onClose} />);
+
+describe('DiffReviewSetup', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(openRepository).mockResolvedValue(repository);
+    vi.mocked(closeRepository).mockResolvedValue();
+  });
+
+  it('compares two sets of uploaded files', async () => {
+    renderSetup();
+
+    fireEvent.change(screen.getByLabelText('Base files'), {
+      target: { files: [new File(['const a = 1;'], 'a.ts'), new File(['same'], 'b.ts')] },
+    });
+    fireEvent.change(screen.getByLabelText('Head files'), {
+      target: { files: [new File(['const a = 2;'], 'a.ts'), new File(['same'], 'b.ts')] },
+    });
+    fireEvent.change(screen.getByLabelText('Head revision label'), { target: { value: 'v2' } });
+    fireEvent.click(screen.getByRole('button', { name: 'Compare' }));
+
+    await waitFor(() => expect(onStart).toHaveBeenCalled());
+    const review = onStart.mock.calls[0][0];
+    expect(review.baseRevision).toBe('base');
+    expect(review.headRevision).toBe('v2');
+    expect(review.files.map((f: { path: string }) => f.path)).toEqual(['a.ts']);
+    expect(onClose).toHaveBeenCalled();
+  });
+
+  it('reports uploads without differences', async () => {
+    renderSetup();
+
+    fireEvent.change(screen.getByLabelText('Base files'), { target: { files: [new File(['x'], 'a.ts')] } });
+    fireEvent.change(screen.getByLabelText('Head files'), { target: { files: [new File(['x'], 'a.ts')] } });
+    fireEvent.click(screen.getByRole('button', { name: 'Compare' }));
+
+    expect(await screen.findByRole('alert')).toHaveTextContent('no differences');
+    expect(onStart).not.toHaveBeenCalled();
+  });
+
+  it('reads a pasted unified diff', async () => {
+    renderSetup();
+
+    fireEvent.click(screen.getByRole('tab', { name: 'Paste diff' }));
+    fireEvent.change(screen.getByLabelText('Unified diff'), {
+      target: { value: '--- a/app.py\n+++ b/app.py\n@@ -1 +1 @@\n-x = 1\n+x = 2' },
+    });
+    fireEvent.click(screen.getByRole('button', { name: 'Compare' }));
+
+    await waitFor(() => expect(onStart).toHaveBeenCalled());
+    const [file] = onStart.mock.calls[0][0].files;
+    expect(file).toMatchObject({ path: 'app.py', language: 'python', original: 'x = 1', modified: 'x = 2' });
+  });
+
+  it('shows where a pasted diff is malformed', async () => {
+    renderSetup();
+
+    fireEvent.click(screen.getByRole('tab', { name: 'Paste diff' }));
+    fireEvent.change(screen.getByLabelText('Unified diff'), { target: { value: 'not a diff' } });
+    fireEvent.click(screen.getByRole('button', { name: 'Compare' }));
+
+    expect(await screen.findByRole('alert')).toHaveTextContent(/^Line 1:/);
+  });
+
+  it('reads both versions of the files changed between two refs', async () => {
+    vi.mocked(getRepositoryChanges).mockResolvedValue({
+      base: { ref: 'main', commit: BASE },
+      head: { ref: 'feature', commit: HEAD },
+      files: [
+        { path: 'src/new.ts', oldPath: 'src/old.ts', status: 'renamed' },
+        { path: 'src/added.ts', status: 'added' },
+        { path: 'logo.png', status: 'modified' },
+      ],
+    });
+    vi.mocked(streamRepositoryFiles).mockImplementation(async (_id, data, handlers) => {
+      if (data.ref === BASE) {
+        handlers?.onFile?.('src/old.ts', 'export const a = 1;');
+        handlers?.onSkipped?.('logo.png', 'binary');
+      } else {
+        handlers?.onFile?.('src/new.ts', 'export const a = 2;');
+        handlers?.onFile?.('src/added.ts', 'export const b = 1;');
+        handlers?.onSkipped?.('logo.png', 'binary');
+      }
+      return { ref: data.ref ?? null, commit: data.ref ?? null, files: 1, skipped: 1 };
+    });
+    const { unmount } = renderSetup();
+
+    fireEvent.click(screen.getByRole('tab', { name: 'Git refs' }));
+    fireEvent.change(screen.getByLabelText('Repository path'), { target: { value: '/srv/repos/project' } });
+    fireEvent.click(screen.getByRole('button', { name: 'Open' }));
+    fireEvent.change(await screen.findByLabelText('Base ref'), { target: { value: 'main' } });
+    fireEvent.change(screen.getByLabelText('Head ref'), { target: { value: 'feature' } });
+    fireEvent.click(screen.getByRole('button', { name: 'Compare' }));
+
+    await waitFor(() => expect(onStart).toHaveBeenCalled());
+    expect(getRepositoryChanges).toHaveBeenCalledWith('repo-1', 'main', 'feature');
+    expect(streamRepositoryFiles).toHaveBeenCalledWith(
+      'repo-1',
+      { ref: BASE, paths: ['src/old.ts', 'logo.png'] },
+      expect.any(Object),
+      expect.any(AbortSignal)
+    );
+    expect(streamRepositoryFiles).toHaveBeenCalledWith(
+      'repo-1',
+      { ref: HEAD, paths: ['src/new.ts', 'src/added.ts', 'logo.png'] },
+      expect.any(Object),
+      expect.any(AbortSignal)
+    );
+
+    const review = onStart.mock.calls[0][0];
+    expect(review.baseRevision).toBe(BASE);
+    expect(review.headRevision).toBe(HEAD);
+    expect(review.files.map((f: { path: string; original: string }) => [f.path, f.original])).toEqual([
+      ['src/new.ts', 'export const a = 1;'],
+      ['src/added.ts', ''],
+    ]);
+
+    unmount();
+    expect(closeRepository).toHaveBeenCalledWith('repo-1');
+  });
+
+  it('compares a ref with the working tree when no head is given', async () => {
+    vi.mocked(getRepositoryChanges).mockResolvedValue({
+      base: { ref: 'main', commit: BASE },
+      head: { ref: null, commit: HEAD },
+      files: [{ path: 'a.ts', status: 'modified' }],
+    });
+    vi.mocked(streamRepositoryFiles).mockImplementation(async (_id, data, handlers) => {
+      handlers?.onFile?.('a.ts', data.ref === BASE ? 'old' : 'new');
+      return { ref: data.ref ?? null, commit: BASE, files: 1, skipped: 0 };
+    });
+    renderSetup();
+
+    fireEvent.click(screen.getByRole('tab', { name: 'Git refs' }));
+    fireEvent.change(screen.getByLabelText('Repository path'), { target: { value: '/srv/repos/project' } });
+    fireEvent.click(screen.getByRole('button', { name: 'Open' }));
+    fireEvent.change(await screen.findByLabelText('Base ref'), { target: { value: 'main' } });
+    fireEvent.click(screen.getByRole('button', { name: 'Compare' }));
+
+    await waitFor(() => expect(onStart).toHaveBeenCalled());
+    expect(getRepositoryChanges).toHaveBeenCalledWith('repo-1', 'main', undefined);
+    expect(streamRepositoryFiles).toHaveBeenLastCalledWith(
+      'repo-1',
+      { ref: undefined, paths: ['a.ts'] },
+      expect.any(Object),
+      expect.any(AbortSignal)
+    );
+    expect(onStart.mock.calls[0][0].headRevision).toBe('working tree');
+  });
+});
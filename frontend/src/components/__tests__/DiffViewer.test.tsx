@@ -43,6 +43,23 @@ describe('DiffViewer', () => {
     expect(screen.getByText('@@ -1,3 +1,3 @@')).toBeInTheDocument();
   });
 
+  it('renders file headers and line numbers from the hunk header', () => {
+    render(<DiffViewer diff={'--- a/src/app.ts\n+++ b/src/app.ts\n@@ -10,2 +10,2 @@\n keep\n-old\n+new'} />);
+
+    expect(screen.getByText('src/app.ts')).toBeInTheDocument();
+    const rows = screen.getAllByRole('row').map(row => row.textContent);
+    expect(rows).toContain('1010 keep');
+    expect(rows).toContain('11-old');
+    expect(rows).toContain('11+new');
+  });
+
+  it('shows diffs without hunk headers with a rebuilt header', () => {
+    render(<DiffViewer diff={'-const y = 2;\n+const y: number = 2;'} />);
+
+    expect(screen.getByText('@@ -1,1 +1,1 @@')).toBeInTheDocument();
+    expect(screen.getByText('const y: number = 2;')).toBeInTheDocument();
+  });
+
   it('returns null for empty diff', () => {
     const { container } = render(<DiffViewer diff="" />);
     
@@ -1,8 +1,18 @@
 import { describe, it, expect, vi } from 'vitest';
-import { render, screen, fireEvent } from '@testing-library/react';
+import { render, screen, fireEvent, waitFor, act } from '@testing-library/react';
 import InlineThread from '../InlineThread';
 import { ThreadProvider } from '../../context/ThreadContext';
 import { Thread } from '../../types/thread';
+import { streamReview, ReviewStreamHandlers } from '../../services/apiService';
+import { ApplyDiffResult } from '../../utils/diffUtils';
+
+vi.mock('../../services/apiService', () => ({
+  API_URL: 'http://api',
+  streamReview: vi.fn(),
+  getThreads: vi.fn(async () => []),
+  getAuthHeaders: () => ({}),
+  getWorkspaceHeaders: () => ({}),
+}));
 
 const mockThread: Thread = {
   id: 'thread-1',
@@ -43,7 +53,7 @@ vi.spyOn(window, 'confirm').mockImplementation(() => true);
 
 const renderWithProvider = (thread: Thread, onClose?: () => void) => {
   return render(
-    <ThreadProvider storageKey="test-threads">
+    <ThreadProvider storageKey="test-threads" sync={false}>
       <InlineThread thread={thread} onClose={onClose} />
     </ThreadProvider>
   );
@@ -83,6 +93,12 @@ describe('InlineThread', () => {
     expect(screen.getByText('Resolved')).toBeInTheDocument();
   });
 
+  it('shows outdated badge when the thread lost its code', () => {
+    renderWithProvider({ ...mockThread, outdated: true });
+
+    expect(screen.getByText('Outdated')).toBeInTheDocument();
+  });
+
   it('shows selected code preview', () => {
     renderWithProvider(mockThread);
     
@@ -151,5 +167,238 @@ describe('InlineThread', () => {
     const submitButton = screen.getByRole('button', { name: 'Comment' });
     expect(submitButton).not.toBeDisabled();
   });
-});
 
+  it('renders the AI comment while it streams and saves it when done', async () => {
+    let handlers: ReviewStreamHandlers = {};
+    let finish: (review: Awaited<ReturnType<typeof streamReview>>) => void = () => {};
+    vi.mocked(streamReview).mockImplementationOnce((_data, h) => {
+      handlers = h ?? {};
+      return new Promise(resolve => {
+        finish = resolve;
+      });
+    });
+
+    render(
+      <ThreadProvider storageKey="test-threads" sync={false}>
+        <InlineThread thread={mockThread} fileContent={'const x = 1;\nconst y = 2;'} language="typescript" />
+      </ThreadProvider>
+    );
+
+    fireEvent.click(screen.getByRole('button', { name: 'Ask AI' }));
+
+    await waitFor(() => expect(streamReview).toHaveBeenCalledWith(
+        expect.objectContaining({
+          fileContent: 'const x = 1;\nconst y = 2;',
+          startLine: 1,
+          endLine: 5,
+          language: 'typescript',
+          query: 'What does this do?',
+          mode: 'general',
+        }),
+        expect.any(Object),
+        expect.any(AbortSignal)
+    ));
+    expect(screen.getByRole('button', { name: 'Reviewing...' })).toBeDisabled();
+
+    act(() => handlers.onExplanation?.('Declares '));
+    act(() => handlers.onExplanation?.('constants.'));
+    expect(screen.getByText('Declares constants.')).toBeInTheDocument();
+
+    await act(async () => {
+      finish({
+        explanation: 'Declares constants.',
+        suggestions: ['Use let'],
+        provider: 'openai',
+        model: 'gpt-4',
+        contextStartLine: 1,
+        contextEndLine: 2,
+        wasTruncated: false,
+      });
+    });
+
+    await waitFor(() => {
+      expect(screen.getByRole('button', { name: 'Ask AI' })).not.toBeDisabled();
+    });
+    expect(screen.getByTestId('ai-context')).toHaveTextContent('AI saw lines 1-2');
+  });
+
+  it('sends the definitions the selection imports from open files and lists the ones used', async () => {
+    vi.mocked(streamReview).mockResolvedValueOnce({
+      explanation: 'Doubles the total.',
+      suggestions: [],
+      provider: 'openai',
+      model: 'gpt-4',
+      // The server adds related code from the workspace's search index
+      contextFiles: ['math.ts:1-3', 'orders.ts:10-14'],
+    });
+    const thread = { ...mockThread, selectedCode: 'const y = double(HALF);' };
+    const openFiles = [
+      { name: 'test.ts', content: "import { double, HALF } from './math';\nconst y = double(HALF);", language: 'typescript' },
+      { name: 'math.ts', content: 'export function double(x: number) {\n  return x * 2;\n}\nexport const HALF = 0.5;', language: 'typescript' },
+    ];
+
+    render(
+      <ThreadProvider storageKey="test-threads" sync={false}>
+        <InlineThread thread={thread} language="typescript" openFiles={openFiles} />
+      </ThreadProvider>
+    );
+
+    fireEvent.click(screen.getByRole('button', { name: 'Ask AI' }));
+
+    await waitFor(() => expect(streamReview).toHaveBeenCalledWith(
+        expect.objectContaining({
+          additionalFiles: [
+            { name: 'math.ts:1-3', content: 'export function double(x: number) {\n  return x * 2;\n}', language: 'typescript' },
+            { name: 'math.ts:4-4', content: 'export const HALF = 0.5;', language: 'typescript' },
+          ],
+        }),
+        expect.any(Object),
+        expect.any(AbortSignal)
+    ));
+    // The server only had room for one of them
+    expect(await screen.findByTestId('ai-definitions')).toHaveTextContent('Definitions sent: double (math.ts:1-3)');
+    expect(screen.getByTestId('ai-related-code')).toHaveTextContent('Related code sent: orders.ts:10-14');
+  });
+
+  it('sends the thread ID once the backend has the thread and shows the review it saved', async () => {
+    vi.stubGlobal('fetch', vi.fn(async () => ({ ok: true, status: 200, json: async () => ({}) })));
+    vi.mocked(streamReview).mockResolvedValueOnce({
+      explanation: 'Declares constants.',
+      suggestions: [],
+      provider: 'openai',
+      model: 'gpt-4',
+      comment: {
+        id: 'comment-3',
+        threadId: 'thread-1',
+        author: 'ai',
+        text: 'Declares constants.',
+        diff: null,
+        createdAt: '2024-01-01T10:02:00.000Z',
+      },
+    });
+    localStorageMock.setItem.mockClear();
+
+    render(
+      <ThreadProvider storageKey="test-threads" syncIntervalMs={60000}>
+        <InlineThread thread={mockThread} language="typescript" />
+      </ThreadProvider>
+    );
+    fireEvent.click(screen.getByRole('button', { name: 'Ask AI' }));
+
+    await waitFor(() => expect(streamReview).toHaveBeenCalledWith(
+      expect.objectContaining({ threadId: 'thread-1', query: 'What does this do?' }),
+      expect.any(Object),
+      expect.any(AbortSignal)
+    ));
+    await waitFor(() => expect(screen.getByRole('button', { name: 'Ask AI' })).not.toBeDisabled());
+    // The backend saved the review, so it is not sent again
+    expect(localStorageMock.setItem.mock.calls.filter(([key]) => key === 'code-review-sync-queue')).toEqual([]);
+    vi.unstubAllGlobals();
+  });
+
+  it('shows an error when the AI review fails', async () => {
+    vi.mocked(streamReview).mockRejectedValueOnce(new Error('No AI service available'));
+    renderWithProvider(mockThread);
+
+    fireEvent.click(screen.getByRole('button', { name: 'Ask AI' }));
+
+    expect(await screen.findByRole('alert')).toHaveTextContent('No AI service available');
+  });
+
+  it('asks for a review in the picked mode', async () => {
+    vi.mocked(streamReview).mockRejectedValueOnce(new Error('stop'));
+    renderWithProvider(mockThread);
+
+    fireEvent.change(screen.getByRole('combobox', { name: 'Review mode' }), { target: { value: 'security' } });
+    expect(screen.getByRole('option', { name: 'Security audit' })).toHaveProperty('selected', true);
+    fireEvent.click(screen.getByRole('button', { name: 'Ask AI' }));
+
+    await waitFor(() => expect(streamReview).toHaveBeenCalledWith(
+        expect.objectContaining({ mode: 'security' }),
+        expect.any(Object),
+        expect.any(AbortSignal)
+    ));
+    await screen.findByRole('alert');
+  });
+
+  it('sends the hunk of a diff thread with its side', async () => {
+    vi.mocked(streamReview).mockRejectedValueOnce(new Error('stop'));
+    const hunk = '--- a/test.ts\n+++ b/test.ts\n@@ -1,1 +1,1 @@\n-const x = 0;\n+const x = 1;';
+
+    render(
+      <ThreadProvider storageKey="test-threads" sync={false}>
+        <InlineThread
+          thread={{ ...mockThread, side: 'new', baseRevision: 'base', headRevision: 'head' }}
+          fileContent={'const x = 1;\nconst y = 2;'}
+          language="typescript"
+          hunk={hunk}
+        />
+      </ThreadProvider>
+    );
+
+    expect(screen.getByText('New')).toBeInTheDocument();
+    fireEvent.click(screen.getByRole('button', { name: 'Ask AI' }));
+
+    await waitFor(() => expect(streamReview).toHaveBeenCalledWith(
+        expect.objectContaining({ hunk: { diff: hunk, side: 'new' }, startLine: 1, endLine: 5 }),
+        expect.any(Object),
+        expect.any(AbortSignal)
+    ));
+    await screen.findByRole('alert');
+  });
+
+  describe('applying suggestions', () => {
+    const renderWithApply = (thread: Thread, onApplySuggestion?: (diff: string) => ApplyDiffResult) =>
+      render(
+        <ThreadProvider storageKey="test-threads" sync={false}>
+          <InlineThread thread={thread} onApplySuggestion={onApplySuggestion} />
+        </ThreadProvider>
+      );
+
+    it('only offers to apply when the file is open', () => {
+      renderWithProvider(mockThread);
+
+      expect(screen.queryByRole('button', { name: 'Apply suggestion' })).not.toBeInTheDocument();
+    });
+
+    it('applies the suggested diff', () => {
+      const onApply = vi.fn((): ApplyDiffResult => ({ applied: true, content: '', edits: [] }));
+      renderWithApply(mockThread, onApply);
+
+      fireEvent.click(screen.getByRole('button', { name: 'Apply suggestion' }));
+
+      expect(onApply).toHaveBeenCalledWith('- const x = 1;\n+ const x: number = 1;');
+      expect(screen.queryByTestId('apply-conflicts')).not.toBeInTheDocument();
+    });
+
+    it('reports conflicts when the suggestion no longer matches the file', () => {
+      const onApply = vi.fn((): ApplyDiffResult => ({
+        applied: false,
+        conflicts: [{
+          hunk: 1,
+          expected: ['const x = 1;'],
+          reason: 'The code the suggestion changes was not found in the file',
+        }],
+      }));
+      renderWithApply(mockThread, onApply);
+
+      fireEvent.click(screen.getByRole('button', { name: 'Apply suggestion' }));
+
+      const report = screen.getByTestId('apply-conflicts');
+      expect(report).toHaveAttribute('role', 'alert');
+      expect(report).toHaveTextContent('the file was not changed');
+      expect(report).toHaveTextContent('Hunk 1: The code the suggestion changes was not found in the file');
+      expect(report).toHaveTextContent('const x = 1;');
+    });
+
+    it('shows which suggestion was applied', () => {
+      renderWithApply(
+        { ...mockThread, appliedSuggestion: { commentId: 'comment-2', appliedAt: new Date() } },
+        vi.fn()
+      );
+
+      expect(screen.getByTestId('suggestion-applied')).toHaveTextContent('Applied');
+      expect(screen.queryByRole('button', { name: 'Apply suggestion' })).not.toBeInTheDocument();
+    });
+  });
+});
@@ -0,0 +1,59 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { render, screen, fireEvent, waitFor } from '@testing-library/react';
+import LoginForm from '../LoginForm';
+import { useAuth } from '../../context/useAuth';
+
+const mockLogin = vi.fn();
+const mockRegister = vi.fn();
+
+vi.mock('../../context/useAuth', () => ({
+  useAuth: vi.fn(),
+}));
+
+const renderWithError = (error: string | null = null) => {
+  vi.mocked(useAuth).mockReturnValue({
+    login: mockLogin,
+    register: mockRegister,
+    error,
+  } as unknown as ReturnType<typeof useAuth>);
+  return render(<LoginForm />);
+};
+
+describe('LoginForm', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockLogin.mockResolvedValue(undefined);
+    mockRegister.mockResolvedValue(undefined);
+  });
+
+  it('signs in with the username and password', async () => {
+    renderWithError();
+
+    fireEvent.change(screen.getByPlaceholderText('Username'), { target: { value: 'ada' } });
+    fireEvent.change(screen.getByPlaceholderText('Password'), { target: { value: 'secret123' } });
+    fireEvent.click(screen.getByText('Sign in'));
+
+    await waitFor(() => expect(mockLogin).toHaveBeenCalledWith('ada', 'secret123'));
+  });
+
+  it('registers with an optional display name', async () => {
+    renderWithError();
+
+    fireEvent.click(screen.getByText('No account yet? Create one'));
+    fireEvent.change(screen.getByPlaceholderText('Username'), { target: { value: 'ada' } });
+    fireEvent.change(screen.getByPlaceholderText('Display name (optional)'), { target: { value: 'Ada' } });
+    fireEvent.change(screen.getByPlaceholderText('Password'), { target: { value: 'secret123' } });
+    fireEvent.click(screen.getByText('Create account'));
+
+    await waitFor(() =>
+      expect(mockRegister).toHaveBeenCalledWith({ username: 'ada', password: 'secret123', displayName: 'Ada' })
+    );
+    expect(mockLogin).not.toHaveBeenCalled();
+  });
+
+  it('shows auth errors', () => {
+    renderWithError('Invalid username or password');
+
+    expect(screen.getByRole('alert')).toHaveTextContent('Invalid username or password');
+  });
+});
@@ -0,0 +1,182 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { render, screen, fireEvent, waitFor } from '@testing-library/react';
+import RepositoryImport from '../RepositoryImport';
+import {
+  openRepository,
+  uploadRepository,
+  getRepositoryFiles,
+  closeRepository,
+  streamRepositoryFiles,
+} from '../../services/apiService';
+
+vi.mock('../../services/apiService', () => ({
+  openRepository: vi.fn(),
+  uploadRepository: vi.fn(),
+  getRepositoryFiles: vi.fn(),
+  closeRepository: vi.fn(),
+  streamRepositoryFiles: vi.fn(),
+}));
+
+const COMMIT = 'a'.repeat(40);
+
+const repository = {
+  id: 'repo-1',
+  name: '/srv/repos/project',
+  workingTree: true,
+  currentBranch: 'main',
+  head: COMMIT,
+  branches: ['feature', 'main'],
+  tags: ['v1'],
+};
+
+const files = [
+  { path: 'src/index.ts', size: 20 },
+  { path: 'src/util.py', size: 10 },
+  { path: 'README.md', size: 5 },
+];
+
+const onFileImported = vi.fn();
+const onClose = vi.fn();
+
+const renderImport = () => render(<RepositoryImport onFileImported={onFileImported} onClose={onClose} />);
+
+const openLocal = async () => {
+  fireEvent.change(screen.getByLabelText('Repository path'), { target: { value: '/srv/repos/project' } });
+  fireEvent.click(screen.getByRole('button', { name: 'Open' }));
+  await screen.findByTestId('repository-files');
+};
+
+describe('RepositoryImport', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(openRepository).mockResolvedValue(repository);
+    vi.mocked(closeRepository).mockResolvedValue();
+    vi.mocked(getRepositoryFiles).mockImplementation(async (_id, ref) => ({
+      ref: ref ?? null,
+      commit: COMMIT,
+      files,
+    }));
+  });
+
+  it('opens a local repository and lists its working tree', async () => {
+    renderImport();
+
+    await openLocal();
+
+    expect(openRepository).toHaveBeenCalledWith('/srv/repos/project');
+    expect(getRepositoryFiles).toHaveBeenCalledWith('repo-1');
+    expect(screen.getByText(/Working tree at aaaaaaa/)).toBeInTheDocument();
+    expect(screen.getAllByRole('checkbox')).toHaveLength(3);
+  });
+
+  it('uploads an archive', async () => {
+    vi.mocked(uploadRepository).mockResolvedValue({ ...repository, name: 'project.bundle', workingTree: false });
+    renderImport();
+
+    const file = new File(['bundle'], 'project.bundle');
+    fireEvent.change(screen.getByLabelText('Repository archive'), { target: { files: [file] } });
+
+    await screen.findByTestId('repository-files');
+    expect(uploadRepository).toHaveBeenCalledWith(file);
+    expect(screen.getByLabelText('Branch, tag or commit')).toHaveAttribute('placeholder', 'HEAD');
+  });
+
+  it('lists the files of another ref', async () => {
+    renderImport();
+    await openLocal();
+
+    fireEvent.change(screen.getByLabelText('Branch, tag or commit'), { target: { value: 'v1' } });
+    fireEvent.click(screen.getByRole('button', { name: 'Show' }));
+
+    await waitFor(() => expect(getRepositoryFiles).toHaveBeenLastCalledWith('repo-1', 'v1'));
+  });
+
+  it('filters files and toggles the shown ones', async () => {
+    renderImport();
+    await openLocal();
+
+    fireEvent.change(screen.getByLabelText('Filter files'), { target: { value: 'src/' } });
+    fireEvent.click(screen.getByText('Toggle all'));
+
+    expect(screen.getAllByRole('checkbox')).toHaveLength(2);
+    expect(screen.getByRole('button', { name: 'Open 2 files' })).toBeEnabled();
+  });
+
+  it('streams files at a ref with their source and closes', async () => {
+    vi.mocked(streamRepositoryFiles).mockImplementation(async (_id, _data, handlers) => {
+      handlers?.onFile?.('src/index.ts', 'export const a = 1;\n');
+      return { ref: 'main', commit: COMMIT, files: 1, skipped: 0 };
+    });
+    renderImport();
+    await openLocal();
+    fireEvent.change(screen.getByLabelText('Branch, tag or commit'), { target: { value: 'main' } });
+    fireEvent.click(screen.getByRole('button', { name: 'Show' }));
+    await screen.findByText(/main at aaaaaaa/);
+
+    fireEvent.click(screen.getByLabelText('src/index.ts'));
+    fireEvent.click(screen.getByRole('button', { name: 'Open 1 file' }));
+
+    await waitFor(() => expect(onClose).toHaveBeenCalled());
+    expect(streamRepositoryFiles).toHaveBeenCalledWith(
+      'repo-1',
+      { ref: 'main', paths: ['src/index.ts'] },
+      expect.any(Object),
+      expect.any(AbortSignal)
+    );
+    expect(onFileImported).toHaveBeenCalledWith({
+      name: 'src/index.ts',
+      content: 'export const a = 1;\n',
+      language: 'typescript',
+      source: { repository: '/srv/repos/project', commitSha: COMMIT, path: 'src/index.ts' },
+    });
+  });
+
+  it('does not record a source for working tree files', async () => {
+    vi.mocked(streamRepositoryFiles).mockImplementation(async (_id, _data, handlers) => {
+      handlers?.onFile?.('src/util.py', 'x = 1\n');
+      return { ref: null, commit: COMMIT, files: 1, skipped: 0 };
+    });
+    renderImport();
+    await openLocal();
+
+    fireEvent.click(screen.getByLabelText('src/util.py'));
+    fireEvent.click(screen.getByRole('button', { name: 'Open 1 file' }));
+
+    await waitFor(() => expect(onFileImported).toHaveBeenCalled());
+    expect(onFileImported.mock.calls[0][0]).toMatchObject({ name: 'src/util.py', language: 'python', source: undefined });
+  });
+
+  it('shows skipped files instead of closing', async () => {
+    vi.mocked(streamRepositoryFiles).mockImplementation(async (_id, _data, handlers) => {
+      handlers?.onSkipped?.('README.md', 'too-large');
+      return { ref: null, commit: COMMIT, files: 0, skipped: 1 };
+    });
+    renderImport();
+    await openLocal();
+
+    fireEvent.click(screen.getByLabelText('README.md'));
+    fireEvent.click(screen.getByRole('button', { name: 'Open 1 file' }));
+
+    expect(await screen.findByRole('status')).toHaveTextContent('Skipped 1 file: README.md (too-large)');
+    expect(onClose).not.toHaveBeenCalled();
+  });
+
+  it('shows errors from the server', async () => {
+    vi.mocked(openRepository).mockRejectedValue(new Error('Path is not inside an allowed repository directory'));
+    renderImport();
+
+    fireEvent.change(screen.getByLabelText('Repository path'), { target: { value: '/etc' } });
+    fireEvent.click(screen.getByRole('button', { name: 'Open' }));
+
+    expect(await screen.findByRole('alert')).toHaveTextContent('Path is not inside an allowed repository directory');
+  });
+
+  it('closes the repository when unmounted', async () => {
+    const { unmount } = renderImport();
+    await openLocal();
+
+    unmount();
+
+    expect(closeRepository).toHaveBeenCalledWith('repo-1');
+  });
+});
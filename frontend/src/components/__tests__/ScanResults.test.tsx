@@ -0,0 +1,94 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { render, screen, fireEvent, within } from '@testing-library/react';
+import ScanResults from '../ScanResults';
+import type { CodeIssue } from '../CodeEditor';
+
+const issue = (id: string, startLine: number, updates: Partial<CodeIssue> = {}): CodeIssue => ({
+  id,
+  startLine,
+  endLine: startLine,
+  severity: 'error',
+  category: 'bug',
+  message: `Issue ${id}`,
+  status: 'new',
+  threadId: null,
+  ...updates,
+});
+
+const onSelectIssue = vi.fn();
+const onOpenThread = vi.fn();
+
+const renderResults = (issues: CodeIssue[], fixed: CodeIssue[] = [], threads: string[] = []) =>
+  render(
+    <ScanResults
+      issues={issues}
+      fixed={fixed}
+      onSelectIssue={onSelectIssue}
+      onOpenThread={onOpenThread}
+      hasThread={(threadId) => threads.includes(threadId)}
+    />
+  );
+
+const row = (message: string) => screen.getByText(message).closest('li')!;
+
+describe('ScanResults', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('summarizes new, still present and fixed issues', () => {
+    renderResults(
+      [issue('a', 3), issue('b', 1, { status: 'present' }), issue('c', 9, { status: 'present', ruleId: 'no-eval' })],
+      [issue('d', 5, { status: 'fixed' })]
+    );
+
+    expect(screen.getByRole('button', { name: /Problems \(3\)/ })).toHaveTextContent('1 new · 2 still present · 1 fixed');
+    expect(screen.getAllByRole('listitem').map(item => item.textContent)).toEqual([
+      expect.stringContaining('Issue b'),
+      expect.stringContaining('Issue a'),
+      expect.stringContaining('Issue d'),
+      expect.stringContaining('Issue c'),
+    ]);
+    expect(within(row('Issue a')).getByText('New')).toBeInTheDocument();
+    expect(within(row('Issue b')).getByText('Still present')).toBeInTheDocument();
+    expect(within(row('Issue d')).getByText('Fixed')).toBeInTheDocument();
+    expect(within(row('Issue c')).getByText('no-eval')).toBeInTheDocument();
+  });
+
+  it('creates a thread for an issue with one click', () => {
+    renderResults([issue('a', 3)]);
+
+    fireEvent.click(within(row('Issue a')).getByRole('button', { name: 'Create thread' }));
+
+    expect(onOpenThread).toHaveBeenCalledWith(expect.objectContaining({ id: 'a' }));
+    expect(onSelectIssue).not.toHaveBeenCalled();
+  });
+
+  it('opens the existing thread of an issue', () => {
+    renderResults([issue('a', 3, { threadId: 'thread-1' }), issue('b', 4, { threadId: 'deleted' })], [], ['thread-1']);
+
+    expect(within(row('Issue a')).getByRole('button', { name: 'Open thread' })).toBeInTheDocument();
+    expect(within(row('Issue b')).getByRole('button', { name: 'Create thread' })).toBeInTheDocument();
+  });
+
+  it('offers no new threads on fixed issues', () => {
+    renderResults([], [issue('a', 3, { status: 'fixed' }), issue('b', 4, { status: 'fixed', threadId: 'thread-1' })], ['thread-1']);
+
+    expect(within(row('Issue a')).queryByRole('button')).not.toBeInTheDocument();
+    expect(within(row('Issue b')).getByRole('button', { name: 'Open thread' })).toBeInTheDocument();
+
+    fireEvent.click(row('Issue a'));
+    expect(onSelectIssue).not.toHaveBeenCalled();
+  });
+
+  it('selects the lines of an issue and collapses', () => {
+    renderResults([issue('a', 3, { status: undefined, tool: 'ESLint' })]);
+
+    fireEvent.click(row('Issue a'));
+    expect(onSelectIssue).toHaveBeenCalledWith(expect.objectContaining({ id: 'a' }));
+    expect(within(row('Issue a')).getByText('ESLint')).toBeInTheDocument();
+
+    fireEvent.click(screen.getByRole('button', { name: /Problems/ }));
+    expect(screen.queryByText('Issue a')).not.toBeInTheDocument();
+  });
+});
@@ -0,0 +1,72 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { render, screen, fireEvent, waitFor } from '@testing-library/react';
+import SearchPanel from '../SearchPanel';
+import { searchCode, SearchResult } from '../../services/apiService';
+
+vi.mock('../../services/apiService', () => ({
+  searchCode: vi.fn(),
+}));
+
+const result = (file: string, startLine: number, symbol: string | null): SearchResult => ({
+  file,
+  language: 'typescript',
+  startLine,
+  endLine: startLine + 2,
+  symbol,
+  content: `// ${symbol}`,
+  score: 0.42,
+});
+
+const onSelectResult = vi.fn();
+
+const search = (query: string) => {
+  fireEvent.change(screen.getByRole('searchbox', { name: 'Search code' }), { target: { value: query } });
+  fireEvent.click(screen.getByRole('button', { name: 'Search' }));
+};
+
+describe('SearchPanel', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('lists the code closest to a query and shows open results in the editor', async () => {
+    vi.mocked(searchCode).mockResolvedValue([result('src/orders.ts', 4, 'parseOrder'), result('src/old.ts', 1, null)]);
+    render(<SearchPanel openFiles={['src/orders.ts']} onSelectResult={onSelectResult} />);
+
+    search('  parse an order  ');
+
+    expect(await screen.findByText('parseOrder')).toBeInTheDocument();
+    expect(searchCode).toHaveBeenCalledWith('parse an order', { limit: 20 });
+    expect(screen.getByText('src/orders.ts:4-6')).toBeInTheDocument();
+    expect(screen.getAllByText('42%')).toHaveLength(2);
+
+    fireEvent.click(screen.getByText('parseOrder'));
+    expect(onSelectResult).toHaveBeenCalledWith(expect.objectContaining({ file: 'src/orders.ts', startLine: 4 }));
+
+    // Files that are not open are named by their file and cannot be shown
+    fireEvent.click(screen.getByText('old.ts'));
+    expect(onSelectResult).toHaveBeenCalledTimes(1);
+    expect(screen.getByText('old.ts').closest('li')).toHaveAttribute('title', 'src/old.ts is not open');
+  });
+
+  it('says when nothing matches and when the search fails', async () => {
+    vi.mocked(searchCode).mockResolvedValueOnce([]).mockRejectedValueOnce(new Error('Workspace not found'));
+    render(<SearchPanel openFiles={[]} onSelectResult={onSelectResult} />);
+
+    search('parse');
+    expect(await screen.findByText('No matching code')).toBeInTheDocument();
+
+    search('render');
+    expect(await screen.findByText('Workspace not found')).toBeInTheDocument();
+    expect(screen.queryByText('No matching code')).not.toBeInTheDocument();
+  });
+
+  it('does not search blank queries', async () => {
+    render(<SearchPanel openFiles={[]} onSelectResult={onSelectResult} />);
+
+    search('   ');
+
+    await waitFor(() => expect(screen.getByRole('button', { name: 'Search' })).toBeDisabled());
+    expect(searchCode).not.toHaveBeenCalled();
+  });
+});
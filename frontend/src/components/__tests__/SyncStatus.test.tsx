@@ -0,0 +1,78 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { render, screen, fireEvent } from '@testing-library/react';
+import SyncStatus from '../SyncStatus';
+import { useThreads } from '../../context/ThreadContext';
+import type { SyncStatus as SyncState } from '../../utils/fallbackStorage';
+
+const mockSyncNow = vi.fn();
+
+vi.mock('../../context/ThreadContext', () => ({
+  useThreads: vi.fn(),
+}));
+
+const renderWithStatus = (syncStatus: SyncState | null) => {
+  vi.mocked(useThreads).mockReturnValue({ syncStatus, syncNow: mockSyncNow } as unknown as ReturnType<typeof useThreads>);
+  return render(<SyncStatus />);
+};
+
+const status = (updates: Partial<SyncState>): SyncState => ({
+  lastSyncAttempt: null,
+  lastSuccessfulSync: null,
+  pendingChanges: 0,
+  isOnline: true,
+  error: null,
+  rejectedChanges: 0,
+  ...updates,
+});
+
+describe('SyncStatus', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('shows synced when nothing is pending', () => {
+    renderWithStatus(status({ lastSuccessfulSync: new Date() }));
+
+    expect(screen.getByTestId('sync-status')).toHaveTextContent('Synced');
+  });
+
+  it('shows the number of pending changes', () => {
+    renderWithStatus(status({ pendingChanges: 3 }));
+
+    expect(screen.getByTestId('sync-status')).toHaveTextContent('3 changes pending');
+  });
+
+  it('shows pending changes while offline', () => {
+    renderWithStatus(status({ isOnline: false, pendingChanges: 1 }));
+
+    expect(screen.getByTestId('sync-status')).toHaveTextContent('Offline, 1 change pending');
+  });
+
+  it('shows why syncing is paused', () => {
+    renderWithStatus(status({ pendingChanges: 2, error: 'Your session has expired, sign in again to sync your changes' }));
+
+    const button = screen.getByTestId('sync-status');
+    expect(button).toHaveTextContent('Sync paused');
+    expect(button).toHaveAttribute('title', 'Your session has expired, sign in again to sync your changes. Click to retry');
+  });
+
+  it('shows how many changes the server rejected', () => {
+    renderWithStatus(status({ rejectedChanges: 1 }));
+
+    expect(screen.getByTestId('sync-status')).toHaveTextContent('1 change rejected');
+  });
+
+  it('syncs when clicked', () => {
+    renderWithStatus(status({}));
+
+    fireEvent.click(screen.getByTestId('sync-status'));
+
+    expect(mockSyncNow).toHaveBeenCalled();
+  });
+
+  it('renders nothing when syncing is off', () => {
+    const { container } = renderWithStatus(null);
+
+    expect(container.firstChild).toBeNull();
+  });
+});
@@ -1,8 +1,20 @@
 import { describe, it, expect, vi, beforeEach } from 'vitest';
-import { render, screen, fireEvent } from '@testing-library/react';
+import { render, screen, fireEvent, waitFor } from '@testing-library/react';
 import ThreadPanel from '../ThreadPanel';
 import { ThreadProvider, useThreads } from '../../context/ThreadContext';
 import { Thread } from '../../types/thread';
+import { createDiffFile } from '../../utils/diffReview';
+import { exportReport } from '../../services/apiService';
+import { downloadFile } from '../../utils/fileUtils';
+
+vi.mock('../../services/apiService', async () => ({
+  ...(await vi.importActual('../../services/apiService')),
+  exportReport: vi.fn(),
+}));
+
+vi.mock('../../utils/fileUtils', () => ({
+  downloadFile: vi.fn(),
+}));
 
 // Mock the ThreadContext
 const mockThreads: Thread[] = [
@@ -82,9 +94,21 @@ vi.mock('../../context/ThreadContext', async () => {
 
 // Mock InlineThread component
 vi.mock('../InlineThread', () => ({
-  default: ({ thread, onClose }: { thread: Thread; onClose: () => void }) => (
+  default: ({
+    thread,
+    onClose,
+    fileContent,
+    hunk,
+  }: {
+    thread: Thread;
+    onClose: () => void;
+    fileContent?: string;
+    hunk?: string;
+  }) => (
     <div data-testid="inline-thread">
       <span>Thread: {thread.id}</span>
+      <pre data-testid="inline-thread-content">{fileContent}</pre>
+      <pre data-testid="inline-thread-hunk">{hunk}</pre>
       <button onClick={onClose}>Close</button>
     </div>
   ),
@@ -202,6 +226,13 @@ describe('ThreadPanel', () => {
       expect(resolvedThread.querySelector('svg')).toBeInTheDocument();
     });
 
+    it('marks outdated threads', () => {
+      mockState.threads = [{ ...mockThreads[0], outdated: true }, mockThreads[1]];
+      render(<ThreadPanel currentFile="test.ts" />);
+
+      expect(screen.getAllByText('Outdated')).toHaveLength(1);
+    });
+
     it('shows last comment preview', () => {
       render(<ThreadPanel currentFile="test.ts" />);
 
@@ -347,5 +378,84 @@ describe('ThreadPanel', () => {
       expect(secondLineText).toContain('Lines 10-15');
     });
   });
-});
 
+  describe('diff review', () => {
+    const diff = {
+      file: createDiffFile('test.ts', 'const x = 0;\nconst y = 2;', 'const x = 1;\nconst y = 2;'),
+      baseRevision: 'base',
+      headRevision: 'head',
+    };
+    const diffThread: Thread = {
+      ...mockThreads[0],
+      id: 'diff-thread',
+      range: { startLine: 1, endLine: 1 },
+      side: 'old',
+      baseRevision: 'base',
+      headRevision: 'head',
+    };
+
+    beforeEach(() => {
+      mockState.threads = [
+        ...mockThreads,
+        diffThread,
+        { ...diffThread, id: 'other-review', headRevision: 'other' },
+      ];
+    });
+
+    it('only lists threads on the two revisions', () => {
+      render(<ThreadPanel currentFile="test.ts" diff={diff} />);
+
+      const items = screen.getAllByTestId('thread-list-item');
+      expect(items).toHaveLength(1);
+      expect(items[0]).toHaveTextContent('Old');
+    });
+
+    it('leaves diff threads out of the open file', () => {
+      render(<ThreadPanel currentFile="test.ts" />);
+
+      expect(screen.getAllByTestId('thread-list-item')).toHaveLength(2);
+    });
+
+    it('reviews the active thread with its side of the file and its hunk', () => {
+      mockState.activeThreadId = 'diff-thread';
+
+      render(<ThreadPanel currentFile="test.ts" diff={diff} />);
+
+      expect(screen.getByTestId('inline-thread-content').textContent).toBe('const x = 0;\nconst y = 2;');
+      expect(screen.getByTestId('inline-thread-hunk').textContent).toBe(
+        '--- a/test.ts\n+++ b/test.ts\n@@ -1,2 +1,2 @@\n-const x = 0;\n+const x = 1;\n const y = 2;'
+      );
+    });
+  });
+
+  describe('export report', () => {
+    const scans = [
+      {
+        file: 'test.ts',
+        issues: [{ startLine: 1, endLine: 1, severity: 'error' as const, category: 'bug' as const, message: 'Bug', fix: '' }],
+      },
+    ];
+
+    it('downloads the report in the chosen format with the scan issues', async () => {
+      vi.mocked(exportReport).mockResolvedValue('# Report');
+      render(<ThreadPanel currentFile="test.ts" scans={scans} />);
+
+      fireEvent.click(screen.getByRole('button', { name: 'Export report' }));
+      fireEvent.click(screen.getByRole('button', { name: 'Markdown' }));
+
+      await waitFor(() => expect(downloadFile).toHaveBeenCalledWith('# Report', 'code-review.md', 'text/markdown'));
+      expect(exportReport).toHaveBeenCalledWith('markdown', scans);
+    });
+
+    it('shows why an export failed', async () => {
+      vi.mocked(exportReport).mockRejectedValue(new Error('Network error'));
+      render(<ThreadPanel currentFile="test.ts" />);
+
+      fireEvent.click(screen.getByRole('button', { name: 'Export report' }));
+      fireEvent.click(screen.getByRole('button', { name: 'HTML' }));
+
+      expect(await screen.findByRole('alert')).toHaveTextContent('Network error');
+      expect(downloadFile).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,68 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { render, screen, fireEvent } from '@testing-library/react';
+import WorkspaceSwitcher from '../WorkspaceSwitcher';
+import { useWorkspaces } from '../../context/useWorkspaces';
+
+const mockSwitchWorkspace = vi.fn();
+const mockCreateWorkspace = vi.fn();
+
+vi.mock('../../context/useWorkspaces', () => ({
+  useWorkspaces: vi.fn(),
+}));
+
+const workspaces = [
+  { id: 'ws-1', name: 'Team', role: 'owner' as const, createdAt: '2024-01-01T00:00:00.000Z' },
+  { id: 'ws-2', name: 'Side', role: 'member' as const, createdAt: '2024-01-01T00:00:00.000Z' },
+];
+
+const renderSwitcher = (state: Partial<ReturnType<typeof useWorkspaces>> = {}) => {
+  vi.mocked(useWorkspaces).mockReturnValue({
+    workspaces,
+    workspaceId: 'ws-1',
+    isLoading: false,
+    error: null,
+    switchWorkspace: mockSwitchWorkspace,
+    createWorkspace: mockCreateWorkspace,
+    ...state,
+  });
+  return render(<WorkspaceSwitcher />);
+};
+
+describe('WorkspaceSwitcher', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('shows the selected workspace', () => {
+    renderSwitcher();
+
+    expect(screen.getByLabelText('Workspace')).toHaveValue('ws-1');
+    expect(screen.getByRole('option', { name: 'Side' })).toBeInTheDocument();
+  });
+
+  it('switches workspaces', () => {
+    renderSwitcher();
+
+    fireEvent.change(screen.getByLabelText('Workspace'), { target: { value: 'ws-2' } });
+
+    expect(mockSwitchWorkspace).toHaveBeenCalledWith('ws-2');
+  });
+
+  it('creates a workspace', async () => {
+    mockCreateWorkspace.mockResolvedValue(undefined);
+    renderSwitcher();
+
+    fireEvent.change(screen.getByLabelText('Workspace'), { target: { value: '__new__' } });
+    fireEvent.change(screen.getByPlaceholderText('Workspace name'), { target: { value: ' Research ' } });
+    fireEvent.click(screen.getByText('Create'));
+
+    expect(mockCreateWorkspace).toHaveBeenCalledWith('Research');
+    expect(await screen.findByLabelText('Workspace')).toBeInTheDocument();
+  });
+
+  it('renders nothing without workspaces', () => {
+    const { container } = renderSwitcher({ workspaces: [] });
+
+    expect(container.firstChild).toBeNull();
+  });
+});
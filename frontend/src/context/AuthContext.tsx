@@ -0,0 +1,120 @@
+import {
+  useCallback,
+  useEffect,
+  useState,
+  ReactNode,
+} from 'react';
+import {
+  User,
+  ApiError,
+  getAuthToken,
+  setAuthToken,
+  setWorkspaceId,
+  setUnauthorizedHandler,
+  getCurrentUser,
+  login as apiLogin,
+  register as apiRegister,
+  logout as apiLogout,
+} from '../services/apiService';
+import { AuthContext, type AuthContextValue } from './useAuth';
+
+interface AuthProviderProps {
+  children: ReactNode;
+}
+
+const errorMessage = (error: unknown, fallback: string): string =>
+  error instanceof ApiError ? error.message : fallback;
+
+export function AuthProvider({ children }: AuthProviderProps) {
+  const [user, setUser] = useState<User | null>(null);
+  const [isLoading, setIsLoading] = useState(() => getAuthToken() !== null);
+  const [error, setError] = useState<string | null>(null);
+
+  // Changes still queued wait in the user's own sync queue until they sign in again
+  const signOut = useCallback(() => {
+    setAuthToken(null);
+    setWorkspaceId(null);
+    setUser(null);
+  }, []);
+
+  // Restore the session of a stored token
+  useEffect(() => {
+    if (!getAuthToken()) {
+      return;
+    }
+
+    let cancelled = false;
+    getCurrentUser()
+      .then(current => {
+        if (!cancelled) setUser(current);
+      })
+      .catch(err => {
+        // Keep the token when the backend is unreachable; only a rejected token signs out
+        if (!cancelled && err instanceof ApiError && err.statusCode === 401) {
+          signOut();
+        }
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [signOut]);
+
+  // Sign out when the API rejects the token, e.g. after the session expired
+  useEffect(() => {
+    setUnauthorizedHandler(() => {
+      signOut();
+      setError('Your session has expired, please sign in again');
+    });
+    return () => setUnauthorizedHandler(null);
+  }, [signOut]);
+
+  const login = useCallback(async (username: string, password: string) => {
+    setError(null);
+    try {
+      const result = await apiLogin(username, password);
+      setUser(result.user);
+    } catch (err) {
+      setError(errorMessage(err, 'Failed to sign in'));
+      throw err;
+    }
+  }, []);
+
+  const register = useCallback(
+    async (data: { username: string; password: string; displayName?: string }) => {
+      setError(null);
+      try {
+        const result = await apiRegister(data);
+        setUser(result.user);
+      } catch (err) {
+        setError(errorMessage(err, 'Failed to register'));
+        throw err;
+      }
+    },
+    []
+  );
+
+  const logout = useCallback(async () => {
+    try {
+      await apiLogout();
+    } catch (err) {
+      console.error('Failed to end the session on the server:', err);
+    } finally {
+      signOut();
+    }
+  }, [signOut]);
+
+  const value: AuthContextValue = {
+    user,
+    isLoading,
+    error,
+    login,
+    register,
+    logout,
+  };
+
+  return <AuthContext.Provider value={value}>{children}</AuthContext.Provider>;
+}
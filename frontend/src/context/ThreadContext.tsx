@@ -4,6 +4,8 @@ import {
   useReducer,
   useCallback,
   useEffect,
+  useRef,
+  useState,
   ReactNode,
 } from 'react';
 import { v4 as uuidv4 } from 'uuid';
@@ -16,7 +18,21 @@ import {
   AddCommentInput,
   LineRange,
 } from '../types/thread';
-import { loadThreads, saveThreads } from '../utils/storageUtils';
+import { loadThreads, moveStoredThreads, saveThreads } from '../utils/storageUtils';
+import {
+  QueuedOperation,
+  SyncStatus,
+  addToSyncQueue,
+  replaceInSyncQueue,
+  createSyncManager,
+  fromApiThread,
+  getOperationThreadId,
+  getSyncQueue,
+  getSyncStatus,
+  mergeThreads,
+} from '../utils/fallbackStorage';
+import { createAnchor, relocateThreads as relocate } from '../utils/threadAnchoring';
+import { API_URL, getThreads } from '../services/apiService';
 
 const initialState: ThreadState = {
   threads: [],
@@ -98,6 +114,17 @@ function threadReducer(state: ThreadState, action: ThreadAction): ThreadState {
         threads: action.payload,
       };
 
+    case 'RELOCATE_THREADS': {
+      // Moving with the code is not a change to the thread, so updatedAt is kept
+      const relocated = new Map(action.payload.map(({ id, ...position }) => [id, position]));
+      return {
+        ...state,
+        threads: state.threads.map(thread =>
+          relocated.has(thread.id) ? { ...thread, ...relocated.get(thread.id) } : thread
+        ),
+      };
+    }
+
     case 'SET_LOADING':
       return {
         ...state,
@@ -126,14 +153,32 @@ interface ThreadContextValue {
   state: ThreadState;
   createThread: (input: CreateThreadInput) => Thread;
   deleteThread: (threadId: string) => void;
+  /** AI comments are only kept locally; the backend stores those of reviews asked with a thread ID */
   addComment: (input: AddCommentInput) => Comment;
+  /** Show a comment the backend already stored, such as a review saved on the thread; nothing is queued */
+  addStoredComment: (threadId: string, comment: Comment) => void;
   setActiveThread: (threadId: string | null) => void;
   resolveThread: (threadId: string) => void;
   unresolveThread: (threadId: string) => void;
+  markSuggestionApplied: (threadId: string, commentId: string) => void;
+  /**
+   * Move the threads of a file along with its code after an edit, marking threads
+   * whose code is gone as outdated
+   */
+  relocateThreads: (file: string, previousContent: string, content: string) => void;
   getThreadsForFile: (file: string) => Thread[];
   getThreadsForRange: (file: string, range: LineRange) => Thread[];
   getThreadById: (threadId: string) => Thread | undefined;
   clearThreads: () => void;
+  /** Backend sync state, null when syncing is off */
+  syncStatus: SyncStatus | null;
+  /** Send queued changes and fetch threads from the backend now, resuming syncing if it was paused */
+  syncNow: () => void;
+  /**
+   * Send queued changes now; resolves to whether the backend has the thread with all its
+   * changes, and false when syncing is off
+   */
+  syncThread: (threadId: string) => Promise<boolean>;
 }
 
 const ThreadContext = createContext<ThreadContextValue | null>(null);
@@ -142,29 +187,100 @@ interface ThreadProviderProps {
   children: ReactNode;
   /** Storage key for localStorage persistence */
   storageKey?: string;
+  /** Key threads were stored under before, such as before they were stored per workspace; they move to `storageKey` on mount */
+  legacyStorageKey?: string;
+  /** Sync threads with the backend; when off, threads are only kept in localStorage */
+  sync?: boolean;
+  /** Storage key of the queue of changes waiting to sync, kept per user */
+  syncQueueKey?: string;
+  /** How often queued changes are retried and threads fetched from the backend (ms) */
+  syncIntervalMs?: number;
+  /** Display name of the signed-in user, shown on their comments */
+  authorName?: string;
+  /** Workspace the threads belong to; queued changes are sent to it */
+  workspaceId?: string;
+}
+
+/**
+ * Reconcile local threads with the backend's
+ * The backend is the source of truth, except for threads with changes still queued
+ * (merged by update time, or kept where they moved locally) and threads whose deletion
+ * is queued. Anchors of threads created before the backend stored them are kept
+ */
+function reconcileThreads(local: Thread[], remote: Thread[], queue: QueuedOperation[]): Thread[] {
+  const pending = new Set(queue.map(getOperationThreadId));
+  const deleted = new Set(queue.filter(op => op.type === 'delete').map(getOperationThreadId));
+  const localById = new Map(local.map(thread => [thread.id, thread]));
+
+  return mergeThreads(
+    local.filter(thread => pending.has(thread.id) && !deleted.has(thread.id)),
+    remote.filter(thread => !deleted.has(thread.id))
+  ).map(thread => {
+    const known = localById.get(thread.id);
+    if (!known) {
+      return thread;
+    }
+    const anchor = thread.anchor ?? known.anchor;
+    // Moving with the code does not change the update time, so a queued move loses the merge
+    const { outdated, ...moved } = pending.has(thread.id)
+      ? { ...thread, range: known.range, outdated: known.outdated }
+      : thread;
+    return { ...moved, ...(anchor && { anchor }), ...(outdated && { outdated: true }) };
+  });
 }
 
 export function ThreadProvider({
   children,
   storageKey = 'code-review-threads',
+  legacyStorageKey,
+  sync = true,
+  syncQueueKey = 'code-review-sync-queue',
+  syncIntervalMs = 30000,
+  authorName,
+  workspaceId,
 }: ThreadProviderProps) {
   const [state, dispatch] = useReducer(threadReducer, initialState);
+  const [syncStatus, setSyncStatus] = useState<SyncStatus | null>(() => (sync ? getSyncStatus(syncQueueKey) : null));
+  const threadsRef = useRef(state.threads);
+  const syncManagerRef = useRef<ReturnType<typeof createSyncManager> | null>(null);
+
+  useEffect(() => {
+    threadsRef.current = state.threads;
+  }, [state.threads]);
 
   // Load threads from localStorage on mount
   useEffect(() => {
     dispatch({ type: 'SET_LOADING', payload: true });
     try {
+      if (legacyStorageKey) {
+        moveStoredThreads(legacyStorageKey, storageKey);
+      }
       const savedThreads = loadThreads(storageKey);
       if (savedThreads.length > 0) {
         dispatch({ type: 'SET_THREADS', payload: savedThreads });
       }
+
+      // Threads saved before syncing was turned on only exist in this browser
+      if (sync && getSyncStatus(syncQueueKey).lastSuccessfulSync === null && getSyncQueue(syncQueueKey).length === 0) {
+        for (const thread of savedThreads) {
+          addToSyncQueue({ type: 'create', data: thread, workspaceId }, syncQueueKey);
+          // The backend only takes AI comments from the reviews it runs
+          for (const comment of thread.comments.filter(comment => comment.author === 'user')) {
+            addToSyncQueue({ type: 'comment', data: { threadId: thread.id, comment }, workspaceId }, syncQueueKey);
+          }
+          if (thread.resolved || thread.outdated) {
+            const updates = { ...(thread.resolved && { resolved: true }), ...(thread.outdated && { outdated: true }) };
+            addToSyncQueue({ type: 'update', data: { id: thread.id, updates }, workspaceId }, syncQueueKey);
+          }
+        }
+      }
     } catch (error) {
       console.error('Failed to load threads:', error);
       dispatch({ type: 'SET_ERROR', payload: 'Failed to load saved threads' });
     } finally {
       dispatch({ type: 'SET_LOADING', payload: false });
     }
-  }, [storageKey]);
+  }, [storageKey, legacyStorageKey, sync, syncQueueKey, workspaceId]);
 
   // Save threads to localStorage when they change
   useEffect(() => {
@@ -174,6 +290,85 @@ export function ThreadProvider({
     }
   }, [state.threads, storageKey, state.isLoading]);
 
+  // Fetch threads from the backend once queued changes have been sent
+  const refreshFromBackend = useCallback(async () => {
+    try {
+      const remote = (await getThreads()).map(fromApiThread);
+      dispatch({
+        type: 'SET_THREADS',
+        payload: reconcileThreads(threadsRef.current, remote, getSyncQueue(syncQueueKey)),
+      });
+    } catch (error) {
+      console.error('Failed to load threads from the server:', error);
+    }
+  }, [syncQueueKey]);
+
+  useEffect(() => {
+    if (!sync) {
+      setSyncStatus(null);
+      return;
+    }
+
+    const manager = createSyncManager(
+      API_URL,
+      success => {
+        setSyncStatus(getSyncStatus(syncQueueKey));
+        if (success && getSyncQueue(syncQueueKey).length === 0) {
+          void refreshFromBackend();
+        }
+      },
+      syncQueueKey
+    );
+    syncManagerRef.current = manager;
+    manager.start(syncIntervalMs);
+
+    const handleOnline = () => void manager.forceSync();
+    const handleOffline = () => setSyncStatus(getSyncStatus(syncQueueKey));
+    window.addEventListener('online', handleOnline);
+    window.addEventListener('offline', handleOffline);
+
+    return () => {
+      manager.stop();
+      syncManagerRef.current = null;
+      window.removeEventListener('online', handleOnline);
+      window.removeEventListener('offline', handleOffline);
+    };
+  }, [sync, syncQueueKey, syncIntervalMs, refreshFromBackend]);
+
+  // Changes are applied locally right away and queued for the backend
+  const queueChange = useCallback(
+    (operation: Pick<QueuedOperation, 'type' | 'data'>, isReplaced?: (queued: QueuedOperation) => boolean) => {
+      if (!sync) {
+        return;
+      }
+      if (isReplaced) {
+        replaceInSyncQueue({ ...operation, workspaceId }, isReplaced, syncQueueKey);
+      } else {
+        addToSyncQueue({ ...operation, workspaceId }, syncQueueKey);
+      }
+      setSyncStatus(getSyncStatus(syncQueueKey));
+      void syncManagerRef.current?.forceSync();
+    },
+    [sync, syncQueueKey, workspaceId]
+  );
+
+  const syncNow = useCallback(() => {
+    if (!syncManagerRef.current) {
+      return;
+    }
+    void syncManagerRef.current.resume();
+    setSyncStatus(getSyncStatus(syncQueueKey));
+  }, [syncQueueKey]);
+
+  const syncThread = useCallback(async (threadId: string): Promise<boolean> => {
+    const manager = syncManagerRef.current;
+    if (!sync || !manager) {
+      return false;
+    }
+    await manager.forceSync();
+    return !getSyncQueue(syncQueueKey).some(operation => getOperationThreadId(operation) === threadId);
+  }, [sync, syncQueueKey]);
+
   const createThread = useCallback((input: CreateThreadInput): Thread => {
     const now = new Date();
     const thread: Thread = {
@@ -181,11 +376,15 @@ export function ThreadProvider({
       file: input.file,
       range: input.range,
       selectedCode: input.selectedCode,
+      ...(input.source && { source: input.source }),
+      ...(input.side && { side: input.side, baseRevision: input.baseRevision, headRevision: input.headRevision }),
+      ...(input.fileContent !== undefined && { anchor: createAnchor(input.fileContent, input.range) }),
       comments: input.initialComment
         ? [
             {
               id: uuidv4(),
               author: 'user',
+              ...(authorName && { authorName }),
               text: input.initialComment,
               timestamp: now,
             },
@@ -197,17 +396,23 @@ export function ThreadProvider({
     };
 
     dispatch({ type: 'ADD_THREAD', payload: thread });
+    queueChange({ type: 'create', data: thread });
+    for (const comment of thread.comments) {
+      queueChange({ type: 'comment', data: { threadId: thread.id, comment } });
+    }
     return thread;
-  }, []);
+  }, [queueChange, authorName]);
 
   const deleteThread = useCallback((threadId: string) => {
     dispatch({ type: 'DELETE_THREAD', payload: threadId });
-  }, []);
+    queueChange({ type: 'delete', data: threadId });
+  }, [queueChange]);
 
   const addComment = useCallback((input: AddCommentInput): Comment => {
     const comment: Comment = {
       id: uuidv4(),
       author: input.author,
+      ...(input.author === 'user' && authorName && { authorName }),
       text: input.text,
       timestamp: new Date(),
       diff: input.diff,
@@ -217,8 +422,15 @@ export function ThreadProvider({
       type: 'ADD_COMMENT',
       payload: { threadId: input.threadId, comment },
     });
+    if (input.author === 'user') {
+      queueChange({ type: 'comment', data: { threadId: input.threadId, comment } });
+    }
 
     return comment;
+  }, [queueChange, authorName]);
+
+  const addStoredComment = useCallback((threadId: string, comment: Comment) => {
+    dispatch({ type: 'ADD_COMMENT', payload: { threadId, comment } });
   }, []);
 
   const setActiveThread = useCallback((threadId: string | null) => {
@@ -227,11 +439,42 @@ export function ThreadProvider({
 
   const resolveThread = useCallback((threadId: string) => {
     dispatch({ type: 'RESOLVE_THREAD', payload: threadId });
-  }, []);
+    queueChange({ type: 'update', data: { id: threadId, updates: { resolved: true } } });
+  }, [queueChange]);
 
   const unresolveThread = useCallback((threadId: string) => {
     dispatch({ type: 'UNRESOLVE_THREAD', payload: threadId });
-  }, []);
+    queueChange({ type: 'update', data: { id: threadId, updates: { resolved: false } } });
+  }, [queueChange]);
+
+  const markSuggestionApplied = useCallback((threadId: string, commentId: string) => {
+    const appliedAt = new Date();
+    dispatch({
+      type: 'UPDATE_THREAD',
+      payload: { id: threadId, updates: { appliedSuggestion: { commentId, appliedAt } } },
+    });
+    queueChange({ type: 'apply', data: { threadId, commentId, appliedAt: appliedAt.toISOString() } });
+  }, [queueChange]);
+
+  const relocateThreads = useCallback((file: string, previousContent: string, content: string) => {
+    const relocated = relocate(
+      // Threads on a diff are on fixed revisions, not on the open file
+      threadsRef.current.filter(thread => thread.file === file && !thread.side),
+      previousContent,
+      content
+    );
+    if (relocated.length > 0) {
+      dispatch({ type: 'RELOCATE_THREADS', payload: relocated });
+    }
+    // Only the latest position of a thread is sent, not every move while typing
+    for (const { id, range, outdated } of relocated) {
+      queueChange(
+        { type: 'update', data: { id, updates: { range, outdated } } },
+        queued => queued.type === 'update' && getOperationThreadId(queued) === id &&
+          'range' in (queued.data as { updates: Partial<Thread> }).updates
+      );
+    }
+  }, [queueChange]);
 
   const getThreadsForFile = useCallback(
     (file: string): Thread[] => {
@@ -260,21 +503,30 @@ export function ThreadProvider({
   );
 
   const clearThreads = useCallback(() => {
+    for (const thread of threadsRef.current) {
+      queueChange({ type: 'delete', data: thread.id });
+    }
     dispatch({ type: 'CLEAR_THREADS' });
-  }, []);
+  }, [queueChange]);
 
   const value: ThreadContextValue = {
     state,
     createThread,
     deleteThread,
     addComment,
+    addStoredComment,
     setActiveThread,
     resolveThread,
     unresolveThread,
+    markSuggestionApplied,
+    relocateThreads,
     getThreadsForFile,
     getThreadsForRange,
     getThreadById,
     clearThreads,
+    syncStatus,
+    syncNow,
+    syncThread,
   };
 
   return (
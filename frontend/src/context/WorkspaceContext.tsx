@@ -0,0 +1,98 @@
+import {
+  useCallback,
+  useEffect,
+  useState,
+  ReactNode,
+} from 'react';
+import {
+  Workspace,
+  ApiError,
+  getWorkspaceId,
+  setWorkspaceId,
+  getWorkspaces,
+  createWorkspace as apiCreateWorkspace,
+} from '../services/apiService';
+import { WorkspaceContext, type WorkspaceContextValue } from './useWorkspaces';
+
+interface WorkspaceProviderProps {
+  children: ReactNode;
+  /** Name of the workspace created for users that have none */
+  defaultWorkspaceName?: string;
+}
+
+export function WorkspaceProvider({ children, defaultWorkspaceName }: WorkspaceProviderProps) {
+  const [workspaces, setWorkspaces] = useState<Workspace[]>([]);
+  const [workspaceId, setCurrentWorkspaceId] = useState<string | null>(() => getWorkspaceId());
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const select = useCallback((id: string | null) => {
+    setWorkspaceId(id);
+    setCurrentWorkspaceId(id);
+  }, []);
+
+  // Load the workspaces and select the stored one, or the first
+  useEffect(() => {
+    let cancelled = false;
+
+    const load = async () => {
+      let list = await getWorkspaces();
+      if (list.length === 0 && defaultWorkspaceName) {
+        list = [await apiCreateWorkspace(defaultWorkspaceName)];
+      }
+      if (cancelled) return;
+
+      setWorkspaces(list);
+      const stored = getWorkspaceId();
+      select((list.find(workspace => workspace.id === stored) ?? list[0])?.id ?? null);
+    };
+
+    load()
+      .catch(err => {
+        // The stored workspace stays selected so threads still work offline
+        console.error('Failed to load workspaces:', err);
+        if (!cancelled) setError('Failed to load workspaces');
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [defaultWorkspaceName, select]);
+
+  const switchWorkspace = useCallback(
+    (id: string) => {
+      setError(null);
+      select(id);
+    },
+    [select]
+  );
+
+  const createWorkspace = useCallback(
+    async (name: string) => {
+      setError(null);
+      try {
+        const workspace = await apiCreateWorkspace(name);
+        setWorkspaces(prev => [...prev, workspace]);
+        select(workspace.id);
+      } catch (err) {
+        setError(err instanceof ApiError ? err.message : 'Failed to create workspace');
+        throw err;
+      }
+    },
+    [select]
+  );
+
+  const value: WorkspaceContextValue = {
+    workspaces,
+    workspaceId,
+    isLoading,
+    error,
+    switchWorkspace,
+    createWorkspace,
+  };
+
+  return <WorkspaceContext.Provider value={value}>{children}</WorkspaceContext.Provider>;
+}
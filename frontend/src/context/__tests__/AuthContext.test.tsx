@@ -0,0 +1,94 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { renderHook, act, waitFor } from '@testing-library/react';
+import { AuthProvider } from '../AuthContext';
+import { useAuth } from '../useAuth';
+import * as apiService from '../../services/apiService';
+import { addToSyncQueue, getSyncQueue } from '../../utils/fallbackStorage';
+
+vi.mock('../../services/apiService', async (importOriginal) => {
+  const actual = await importOriginal<typeof import('../../services/apiService')>();
+  return {
+    ...actual,
+    getCurrentUser: vi.fn(),
+    login: vi.fn(),
+    register: vi.fn(),
+    logout: vi.fn(),
+  };
+});
+
+const user = { id: 'user-1', username: 'ada', displayName: 'Ada', createdAt: '2024-01-01T00:00:00.000Z' };
+
+describe('AuthContext', () => {
+  beforeEach(() => {
+    localStorage.clear();
+    vi.clearAllMocks();
+  });
+
+  it('starts signed out without a stored token', () => {
+    const { result } = renderHook(() => useAuth(), { wrapper: AuthProvider });
+
+    expect(result.current.user).toBeNull();
+    expect(result.current.isLoading).toBe(false);
+    expect(apiService.getCurrentUser).not.toHaveBeenCalled();
+  });
+
+  it('restores the user of a stored token', async () => {
+    apiService.setAuthToken('session-token');
+    vi.mocked(apiService.getCurrentUser).mockResolvedValue(user);
+
+    const { result } = renderHook(() => useAuth(), { wrapper: AuthProvider });
+
+    expect(result.current.isLoading).toBe(true);
+    await waitFor(() => expect(result.current.isLoading).toBe(false));
+    expect(result.current.user).toEqual(user);
+  });
+
+  it('forgets a stored token the API rejects', async () => {
+    apiService.setAuthToken('expired-token');
+    vi.mocked(apiService.getCurrentUser).mockRejectedValue(new apiService.ApiError('Invalid or expired token', 401));
+
+    const { result } = renderHook(() => useAuth(), { wrapper: AuthProvider });
+
+    await waitFor(() => expect(result.current.isLoading).toBe(false));
+    expect(result.current.user).toBeNull();
+    expect(apiService.getAuthToken()).toBeNull();
+  });
+
+  it('signs in and shows login errors', async () => {
+    vi.mocked(apiService.login)
+      .mockRejectedValueOnce(new apiService.ApiError('Invalid username or password', 401))
+      .mockResolvedValueOnce({ token: 'session-token', user, expiresAt: null });
+
+    const { result } = renderHook(() => useAuth(), { wrapper: AuthProvider });
+
+    await act(async () => {
+      await expect(result.current.login('ada', 'wrong')).rejects.toThrow();
+    });
+    expect(result.current.error).toBe('Invalid username or password');
+
+    await act(async () => {
+      await result.current.login('ada', 'secret123');
+    });
+    expect(result.current.user).toEqual(user);
+    expect(result.current.error).toBeNull();
+  });
+
+  it('keeps queued changes on logout for when the user signs in again', async () => {
+    vi.mocked(apiService.register).mockResolvedValue({ token: 'session-token', user, expiresAt: null });
+    vi.mocked(apiService.logout).mockResolvedValue(undefined);
+
+    const { result } = renderHook(() => useAuth(), { wrapper: AuthProvider });
+
+    await act(async () => {
+      await result.current.register({ username: 'ada', password: 'secret123' });
+    });
+    addToSyncQueue({ type: 'delete', data: 'thread-1' }, `code-review-sync-queue-${user.id}`);
+
+    await act(async () => {
+      await result.current.logout();
+    });
+
+    expect(result.current.user).toBeNull();
+    expect(getSyncQueue(`code-review-sync-queue-${user.id}`)).toHaveLength(1);
+  });
+});
@@ -1,5 +1,5 @@
-import { describe, it, expect, vi, beforeEach } from 'vitest';
-import { renderHook, act } from '@testing-library/react';
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { renderHook, act, waitFor } from '@testing-library/react';
 import { ThreadProvider, useThreads } from '../ThreadContext';
 import { ReactNode } from 'react';
 
@@ -29,7 +29,7 @@ describe('ThreadContext', () => {
   });
 
   const wrapper = ({ children }: { children: ReactNode }) => (
-    <ThreadProvider storageKey="test-threads">{children}</ThreadProvider>
+    <ThreadProvider storageKey="test-threads" sync={false}>{children}</ThreadProvider>
   );
 
   describe('createThread', () => {
@@ -153,6 +153,30 @@ describe('ThreadContext', () => {
       expect(result.current.state.threads[0].comments[0].text).toBe('This is a comment');
     });
 
+    it('stamps user comments with the author name', () => {
+      const { result } = renderHook(() => useThreads(), {
+        wrapper: ({ children }: { children: ReactNode }) => (
+          <ThreadProvider storageKey="test-threads" sync={false} authorName="Ada">{children}</ThreadProvider>
+        ),
+      });
+
+      let threadId: string;
+      act(() => {
+        threadId = result.current.createThread({
+          file: 'test.ts',
+          range: { startLine: 1, endLine: 5 },
+          selectedCode: 'const x = 1;',
+          initialComment: 'Why?',
+        }).id;
+      });
+
+      act(() => {
+        result.current.addComment({ threadId, text: 'Because', author: 'ai' });
+      });
+
+      expect(result.current.state.threads[0].comments.map(c => c.authorName)).toEqual(['Ada', undefined]);
+    });
+
     it('adds AI comment with diff', () => {
       const { result } = renderHook(() => useThreads(), { wrapper });
 
@@ -232,6 +256,91 @@ describe('ThreadContext', () => {
     });
   });
 
+  describe('markSuggestionApplied', () => {
+    it('records the applied suggestion and persists it', () => {
+      const { result } = renderHook(() => useThreads(), { wrapper });
+
+      let threadId: string;
+      let commentId: string;
+      act(() => {
+        threadId = result.current.createThread({
+          file: 'test.ts',
+          range: { startLine: 1, endLine: 5 },
+          selectedCode: 'const x = 1;',
+        }).id;
+      });
+      act(() => {
+        commentId = result.current.addComment({
+          threadId,
+          text: 'Add a type',
+          author: 'ai',
+          diff: '-const x = 1;\n+const x: number = 1;',
+        }).id;
+      });
+
+      act(() => {
+        result.current.markSuggestionApplied(threadId, commentId);
+      });
+
+      const applied = result.current.state.threads[0].appliedSuggestion;
+      expect(applied?.commentId).toBe(commentId);
+      expect(applied?.appliedAt).toBeInstanceOf(Date);
+
+      const saved = JSON.parse(localStorageMock.setItem.mock.calls.at(-1)![1]);
+      expect(saved.threads[0].appliedSuggestion.commentId).toBe(commentId);
+    });
+  });
+
+  describe('relocateThreads', () => {
+    const content = 'const a = 1;\nconst b = 2;\nconst c = 3;';
+
+    it('moves threads with their code without touching their update time', () => {
+      const { result } = renderHook(() => useThreads(), { wrapper });
+
+      act(() => {
+        result.current.createThread({
+          file: 'test.ts',
+          range: { startLine: 2, endLine: 3 },
+          selectedCode: 'const b = 2;\nconst c = 3;',
+          fileContent: content,
+        });
+        result.current.createThread({
+          file: 'other.ts',
+          range: { startLine: 2, endLine: 3 },
+          selectedCode: 'const b = 2;\nconst c = 3;',
+        });
+      });
+      const [thread, other] = result.current.state.threads;
+      expect(thread.anchor).toEqual({ lines: ['const b = 2;', 'const c = 3;'], contextBefore: ['const a = 1;'], contextAfter: [] });
+
+      act(() => {
+        result.current.relocateThreads('test.ts', content, `// Constants\n${content}`);
+      });
+
+      expect(result.current.state.threads[0]).toMatchObject({ range: { startLine: 3, endLine: 4 }, outdated: false });
+      expect(result.current.state.threads[0].updatedAt).toBe(thread.updatedAt);
+      expect(result.current.state.threads[1]).toBe(other);
+    });
+
+    it('marks threads whose code was removed as outdated', () => {
+      const { result } = renderHook(() => useThreads(), { wrapper });
+
+      act(() => {
+        result.current.createThread({
+          file: 'test.ts',
+          range: { startLine: 3, endLine: 3 },
+          selectedCode: 'const c = 3;',
+          fileContent: content,
+        });
+      });
+      act(() => {
+        result.current.relocateThreads('test.ts', content, 'const a = 1;\nconst b = 2;');
+      });
+
+      expect(result.current.state.threads[0]).toMatchObject({ range: { startLine: 3, endLine: 3 }, outdated: true });
+    });
+  });
+
   describe('getThreadsForFile', () => {
     it('returns threads for a specific file', () => {
       const { result } = renderHook(() => useThreads(), { wrapper });
@@ -319,6 +428,376 @@ describe('ThreadContext', () => {
     });
   });
 
+  describe('backend sync', () => {
+    const remoteThread = {
+      id: 'remote-thread',
+      file: 'remote.ts',
+      startLine: 3,
+      endLine: 4,
+      selectedCode: 'let y = 2;',
+      resolved: false,
+      createdAt: '2024-01-01T00:00:00.000Z',
+      updatedAt: '2024-01-01T00:00:00.000Z',
+      comments: [
+        {
+          id: 'remote-comment',
+          threadId: 'remote-thread',
+          author: 'ai',
+          text: 'Use const',
+          diff: null,
+          createdAt: '2024-01-01T00:00:00.000Z',
+        },
+      ],
+    };
+
+    let backendUp: boolean;
+    let serverThreads: Array<typeof remoteThread>;
+
+    // A backend that keeps created and updated threads, their comments and when suggestions were applied
+    const fetchMock = vi.fn(async (url: string, init?: RequestInit) => {
+      if (!backendUp) {
+        throw new TypeError('Failed to fetch');
+      }
+      const path = new URL(url).pathname;
+      const body = init?.body ? JSON.parse(init.body as string) : {};
+      const now = new Date().toISOString();
+
+      if (init?.method === 'POST' && path === '/api/threads') {
+        serverThreads.push({ ...body, resolved: false, createdAt: now, updatedAt: now, comments: [] });
+      } else if (init?.method === 'POST') {
+        const thread = serverThreads.find(t => path === `/api/threads/${t.id}/comments`);
+        thread?.comments.push({ ...body, threadId: thread.id, diff: null, createdAt: now });
+      } else if (init?.method === 'PUT') {
+        const thread = serverThreads.find(t => path === `/api/threads/${t.id}`);
+        Object.assign(thread ?? {}, body, { updatedAt: now });
+      } else if (init?.method === 'PATCH') {
+        const thread = serverThreads.find(t => path.startsWith(`/api/threads/${t.id}/comments/`));
+        const comment = thread?.comments.find(c => path.endsWith(`/comments/${c.id}`));
+        Object.assign(comment ?? {}, body);
+        Object.assign(thread ?? {}, { updatedAt: now });
+      }
+
+      const data = path === '/api/threads' && !init?.method ? serverThreads : {};
+      return { ok: true, status: init?.method === 'POST' ? 201 : 200, json: async () => data };
+    });
+
+    const syncWrapper = ({ children }: { children: ReactNode }) => (
+      <ThreadProvider storageKey="test-threads" syncIntervalMs={60000}>{children}</ThreadProvider>
+    );
+
+    const requests = () =>
+      fetchMock.mock.calls.map(([url, init]) => ({
+        method: init?.method ?? 'GET',
+        path: new URL(url).pathname,
+        body: init?.body ? JSON.parse(init.body as string) : undefined,
+      }));
+
+    beforeEach(() => {
+      backendUp = true;
+      serverThreads = [structuredClone(remoteThread)];
+      fetchMock.mockClear();
+      vi.stubGlobal('fetch', fetchMock);
+    });
+
+    afterEach(() => {
+      vi.unstubAllGlobals();
+    });
+
+    it('loads threads from the backend', async () => {
+      const { result } = renderHook(() => useThreads(), { wrapper: syncWrapper });
+
+      await waitFor(() => expect(result.current.state.threads).toHaveLength(1));
+
+      const thread = result.current.state.threads[0];
+      expect(thread.id).toBe('remote-thread');
+      expect(thread.range).toEqual({ startLine: 3, endLine: 4 });
+      expect(thread.comments[0]).toMatchObject({ id: 'remote-comment', author: 'ai', text: 'Use const' });
+      expect(result.current.syncStatus).toMatchObject({ isOnline: true, pendingChanges: 0 });
+    });
+
+    it('sends new threads and comments with their client IDs', async () => {
+      const { result } = renderHook(() => useThreads(), { wrapper: syncWrapper });
+      await waitFor(() => expect(result.current.state.threads).toHaveLength(1));
+
+      let threadId = '';
+      act(() => {
+        threadId = result.current.createThread({
+          file: 'test.ts',
+          range: { startLine: 1, endLine: 5 },
+          selectedCode: 'const x = 1;',
+          initialComment: 'Why?',
+        }).id;
+      });
+
+      // Shown right away, before the backend has it
+      expect(result.current.getThreadById(threadId)).toBeDefined();
+
+      await waitFor(() => expect(result.current.syncStatus?.pendingChanges).toBe(0));
+      await waitFor(() => expect(result.current.state.threads).toHaveLength(2));
+      const commentId = result.current.getThreadById(threadId)!.comments[0].id;
+
+      expect(requests()).toContainEqual({
+        method: 'POST',
+        path: '/api/threads',
+        body: { id: threadId, file: 'test.ts', startLine: 1, endLine: 5, selectedCode: 'const x = 1;' },
+      });
+      expect(requests()).toContainEqual({
+        method: 'POST',
+        path: `/api/threads/${threadId}/comments`,
+        body: { id: commentId, author: 'user', text: 'Why?' },
+      });
+    });
+
+    it('queues changes while the backend is unreachable and sends them when it is back', async () => {
+      backendUp = false;
+      const { result } = renderHook(() => useThreads(), { wrapper: syncWrapper });
+      await waitFor(() => expect(result.current.syncStatus?.isOnline).toBe(false));
+
+      act(() => {
+        result.current.createThread({
+          file: 'test.ts',
+          range: { startLine: 1, endLine: 5 },
+          selectedCode: 'const x = 1;',
+        });
+      });
+
+      await waitFor(() => expect(result.current.syncStatus).toMatchObject({ isOnline: false, pendingChanges: 1 }));
+      expect(result.current.state.threads).toHaveLength(1);
+
+      backendUp = true;
+      act(() => {
+        result.current.syncNow();
+      });
+
+      await waitFor(() => expect(result.current.syncStatus).toMatchObject({ isOnline: true, pendingChanges: 0 }));
+      expect(requests().filter(r => r.method === 'POST' && r.path === '/api/threads')).toHaveLength(1);
+      await waitFor(() => expect(result.current.state.threads).toHaveLength(2));
+    });
+
+    it('sends changes to the workspace of the provider', async () => {
+      const workspaceWrapper = ({ children }: { children: ReactNode }) => (
+        <ThreadProvider storageKey="test-threads" syncIntervalMs={60000} workspaceId="workspace-1">
+          {children}
+        </ThreadProvider>
+      );
+      const { result } = renderHook(() => useThreads(), { wrapper: workspaceWrapper });
+      await waitFor(() => expect(result.current.state.threads).toHaveLength(1));
+
+      act(() => {
+        result.current.createThread({
+          file: 'test.ts',
+          range: { startLine: 1, endLine: 5 },
+          selectedCode: 'const x = 1;',
+        });
+      });
+
+      await waitFor(() => expect(result.current.syncStatus?.pendingChanges).toBe(0));
+      const create = fetchMock.mock.calls.find(([url, init]) => init?.method === 'POST' && url.endsWith('/api/threads'));
+      expect(create?.[1]?.headers).toMatchObject({ 'X-Workspace-Id': 'workspace-1' });
+    });
+
+    it('moves threads stored before workspaces into the workspace and sends them to it', async () => {
+      localStorageMock.setItem('code-review-threads', JSON.stringify({
+        version: '1.0',
+        updatedAt: '2024-01-01T00:00:00.000Z',
+        threads: [{
+          id: 'local-thread',
+          file: 'local.ts',
+          range: { startLine: 1, endLine: 1 },
+          selectedCode: 'let x = 1;',
+          resolved: false,
+          createdAt: '2024-01-01T00:00:00.000Z',
+          updatedAt: '2024-01-01T00:00:00.000Z',
+          comments: [
+            { id: 'user-comment', author: 'user', text: 'Why let?', timestamp: '2024-01-01T00:00:00.000Z' },
+            { id: 'ai-comment', author: 'ai', text: 'Use const', timestamp: '2024-01-01T00:00:00.000Z' },
+          ],
+        }],
+      }));
+      const legacyWrapper = ({ children }: { children: ReactNode }) => (
+        <ThreadProvider
+          storageKey="test-threads-workspace-1"
+          legacyStorageKey="code-review-threads"
+          syncIntervalMs={60000}
+          workspaceId="workspace-1"
+        >
+          {children}
+        </ThreadProvider>
+      );
+
+      const { result } = renderHook(() => useThreads(), { wrapper: legacyWrapper });
+
+      await waitFor(() => expect(result.current.state.threads.map(t => t.id).sort()).toEqual(['local-thread', 'remote-thread']));
+      const create = fetchMock.mock.calls.find(([url, init]) => init?.method === 'POST' && url.endsWith('/api/threads'));
+      expect(JSON.parse(create?.[1]?.body as string)).toMatchObject({ id: 'local-thread' });
+      expect(create?.[1]?.headers).toMatchObject({ 'X-Workspace-Id': 'workspace-1' });
+      const comments = fetchMock.mock.calls.filter(([url]) => url.endsWith('/api/threads/local-thread/comments'));
+      expect(comments.map(([, init]) => JSON.parse(init?.body as string).id)).toEqual(['user-comment']);
+      expect(localStorageMock.getItem('code-review-threads')).toBeNull();
+    });
+
+    it('reports a thread as synced once its queued changes are sent, without sending AI comments', async () => {
+      const { result } = renderHook(() => useThreads(), { wrapper: syncWrapper });
+      await waitFor(() => expect(result.current.state.threads).toHaveLength(1));
+      backendUp = false;
+
+      let threadId = '';
+      act(() => {
+        threadId = result.current.createThread({
+          file: 'test.ts',
+          range: { startLine: 1, endLine: 5 },
+          selectedCode: 'const x = 1;',
+        }).id;
+        result.current.addComment({ threadId, author: 'ai', text: 'Looks fine' });
+      });
+
+      let synced = true;
+      await act(async () => {
+        synced = await result.current.syncThread(threadId);
+      });
+      expect(synced).toBe(false);
+      expect(result.current.syncStatus?.pendingChanges).toBe(1);
+
+      backendUp = true;
+      await act(async () => {
+        synced = await result.current.syncThread(threadId);
+      });
+      expect(synced).toBe(true);
+      expect(requests().filter(r => r.path.endsWith('/comments'))).toEqual([]);
+
+      act(() => {
+        result.current.addStoredComment(threadId, {
+          id: 'stored-comment',
+          author: 'ai',
+          text: 'Saved by the review',
+          timestamp: new Date(),
+        });
+      });
+      expect(result.current.getThreadById(threadId)!.comments.map(c => c.id)).toContain('stored-comment');
+      expect(result.current.syncStatus?.pendingChanges).toBe(0);
+    });
+
+    it('sends applied suggestions to the backend and keeps them when it is fetched again', async () => {
+      const { result } = renderHook(() => useThreads(), { wrapper: syncWrapper });
+      await waitFor(() => expect(result.current.state.threads).toHaveLength(1));
+
+      act(() => {
+        result.current.markSuggestionApplied('remote-thread', 'remote-comment');
+      });
+
+      await waitFor(() => expect(result.current.syncStatus?.pendingChanges).toBe(0));
+      const appliedAt = result.current.state.threads[0].appliedSuggestion!.appliedAt;
+      expect(requests()).toContainEqual({
+        method: 'PATCH',
+        path: '/api/threads/remote-thread/comments/remote-comment',
+        body: { appliedAt: appliedAt.toISOString() },
+      });
+
+      localStorageMock.clear();
+      const { result: reloaded } = renderHook(() => useThreads(), { wrapper: syncWrapper });
+      await waitFor(() => expect(reloaded.current.state.threads).toHaveLength(1));
+      expect(reloaded.current.state.threads[0].appliedSuggestion).toEqual({ commentId: 'remote-comment', appliedAt });
+    });
+
+    it('shows suggestions applied in another browser', async () => {
+      const { result } = renderHook(() => useThreads(), { wrapper: syncWrapper });
+      await waitFor(() => expect(result.current.state.threads).toHaveLength(1));
+      expect(result.current.state.threads[0].appliedSuggestion).toBeUndefined();
+
+      Object.assign(serverThreads[0].comments[0], { appliedAt: '2024-01-02T00:00:00.000Z' });
+      serverThreads[0].updatedAt = '2024-01-02T00:00:00.000Z';
+      act(() => {
+        result.current.syncNow();
+      });
+
+      await waitFor(() => expect(result.current.state.threads[0].appliedSuggestion).toEqual({
+        commentId: 'remote-comment',
+        appliedAt: new Date('2024-01-02T00:00:00.000Z'),
+      }));
+    });
+
+    it('sends where threads moved after edits and keeps them there when the backend is fetched again', async () => {
+      const { result } = renderHook(() => useThreads(), { wrapper: syncWrapper });
+      await waitFor(() => expect(result.current.state.threads).toHaveLength(1));
+
+      const content = 'let w = 0;\nlet x = 1;\nlet y = 2;\nlet z = 3;';
+      act(() => {
+        result.current.relocateThreads('remote.ts', content, `// Values\n${content}`);
+      });
+      expect(result.current.state.threads[0].range).toEqual({ startLine: 4, endLine: 5 });
+
+      await waitFor(() => expect(result.current.syncStatus?.pendingChanges).toBe(0));
+      expect(requests()).toContainEqual({
+        method: 'PUT',
+        path: '/api/threads/remote-thread',
+        body: { startLine: 4, endLine: 5, outdated: false },
+      });
+
+      serverThreads[0].comments.push({ ...remoteThread.comments[0], id: 'another-comment' });
+      act(() => {
+        result.current.syncNow();
+      });
+
+      await waitFor(() => expect(result.current.state.threads[0].comments).toHaveLength(2));
+      expect(result.current.state.threads[0].range).toEqual({ startLine: 4, endLine: 5 });
+    });
+
+    it('sends only the latest position of threads moved while the backend is unreachable', async () => {
+      const { result } = renderHook(() => useThreads(), { wrapper: syncWrapper });
+      await waitFor(() => expect(result.current.state.threads).toHaveLength(1));
+      backendUp = false;
+
+      const content = 'let w = 0;\nlet x = 1;\nlet y = 2;\nlet z = 3;';
+      act(() => {
+        result.current.relocateThreads('remote.ts', content, `// Values\n${content}`);
+      });
+      act(() => {
+        result.current.relocateThreads('remote.ts', `// Values\n${content}`, `// Values\n\n${content}`);
+      });
+
+      await waitFor(() => expect(result.current.syncStatus).toMatchObject({ isOnline: false, pendingChanges: 1 }));
+      act(() => {
+        result.current.syncNow();
+      });
+      await waitFor(() => expect(result.current.syncStatus?.isOnline).toBe(false));
+      // Not sent yet, so fetching the backend's threads does not move them back
+      expect(result.current.state.threads[0].range).toEqual({ startLine: 5, endLine: 6 });
+
+      backendUp = true;
+      act(() => {
+        result.current.syncNow();
+      });
+
+      await waitFor(() => expect(result.current.syncStatus).toMatchObject({ isOnline: true, pendingChanges: 0 }));
+      expect(requests().filter(r => r.method === 'PUT')).toEqual([
+        { method: 'PUT', path: '/api/threads/remote-thread', body: { startLine: 5, endLine: 6, outdated: false } },
+      ]);
+      expect(result.current.state.threads[0].range).toEqual({ startLine: 5, endLine: 6 });
+    });
+
+    it('sends the code new threads were created on', async () => {
+      const { result } = renderHook(() => useThreads(), { wrapper: syncWrapper });
+      await waitFor(() => expect(result.current.state.threads).toHaveLength(1));
+
+      act(() => {
+        result.current.createThread({
+          file: 'test.ts',
+          range: { startLine: 2, endLine: 2 },
+          selectedCode: 'const x = 1;',
+          fileContent: '// Values\nconst x = 1;\nconst y = 2;',
+        });
+      });
+
+      await waitFor(() => expect(result.current.syncStatus?.pendingChanges).toBe(0));
+      const create = requests().find(r => r.method === 'POST' && r.path === '/api/threads');
+      expect(create?.body.anchor).toEqual({
+        lines: ['const x = 1;'],
+        contextBefore: ['// Values'],
+        contextAfter: ['const y = 2;'],
+      });
+    });
+  });
+
   describe('useThreads hook', () => {
     it('throws error when used outside provider', () => {
       expect(() => {
@@ -0,0 +1,101 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { ReactNode } from 'react';
+import { renderHook, act, waitFor } from '@testing-library/react';
+import { WorkspaceProvider } from '../WorkspaceContext';
+import { useWorkspaces } from '../useWorkspaces';
+import * as apiService from '../../services/apiService';
+
+vi.mock('../../services/apiService', async (importOriginal) => {
+  const actual = await importOriginal<typeof import('../../services/apiService')>();
+  return {
+    ...actual,
+    getWorkspaces: vi.fn(),
+    createWorkspace: vi.fn(),
+  };
+});
+
+const workspace = (id: string, name: string): apiService.Workspace => ({
+  id,
+  name,
+  role: 'owner',
+  createdAt: '2024-01-01T00:00:00.000Z',
+});
+
+const wrapper = ({ children }: { children: ReactNode }) => (
+  <WorkspaceProvider defaultWorkspaceName="Ada's workspace">{children}</WorkspaceProvider>
+);
+
+describe('WorkspaceContext', () => {
+  beforeEach(() => {
+    localStorage.clear();
+    vi.clearAllMocks();
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  it('selects the first workspace', async () => {
+    vi.mocked(apiService.getWorkspaces).mockResolvedValue([workspace('ws-1', 'Team'), workspace('ws-2', 'Side')]);
+
+    const { result } = renderHook(() => useWorkspaces(), { wrapper });
+
+    await waitFor(() => expect(result.current.isLoading).toBe(false));
+    expect(result.current.workspaces).toHaveLength(2);
+    expect(result.current.workspaceId).toBe('ws-1');
+    expect(apiService.getWorkspaceId()).toBe('ws-1');
+  });
+
+  it('restores the stored workspace', async () => {
+    apiService.setWorkspaceId('ws-2');
+    vi.mocked(apiService.getWorkspaces).mockResolvedValue([workspace('ws-1', 'Team'), workspace('ws-2', 'Side')]);
+
+    const { result } = renderHook(() => useWorkspaces(), { wrapper });
+
+    await waitFor(() => expect(result.current.isLoading).toBe(false));
+    expect(result.current.workspaceId).toBe('ws-2');
+  });
+
+  it('creates a workspace for users without one', async () => {
+    vi.mocked(apiService.getWorkspaces).mockResolvedValue([]);
+    vi.mocked(apiService.createWorkspace).mockResolvedValue(workspace('ws-1', "Ada's workspace"));
+
+    const { result } = renderHook(() => useWorkspaces(), { wrapper });
+
+    await waitFor(() => expect(result.current.isLoading).toBe(false));
+    expect(apiService.createWorkspace).toHaveBeenCalledWith("Ada's workspace");
+    expect(result.current.workspaceId).toBe('ws-1');
+  });
+
+  it('keeps the stored workspace while the list cannot be loaded', async () => {
+    apiService.setWorkspaceId('ws-2');
+    vi.mocked(apiService.getWorkspaces).mockRejectedValue(new TypeError('Failed to fetch'));
+
+    const { result } = renderHook(() => useWorkspaces(), { wrapper });
+
+    await waitFor(() => expect(result.current.isLoading).toBe(false));
+    expect(result.current.workspaceId).toBe('ws-2');
+    expect(result.current.error).toBe('Failed to load workspaces');
+  });
+
+  it('switches to and creates workspaces', async () => {
+    vi.mocked(apiService.getWorkspaces).mockResolvedValue([workspace('ws-1', 'Team'), workspace('ws-2', 'Side')]);
+    vi.mocked(apiService.createWorkspace).mockResolvedValue(workspace('ws-3', 'New'));
+
+    const { result } = renderHook(() => useWorkspaces(), { wrapper });
+    await waitFor(() => expect(result.current.isLoading).toBe(false));
+
+    act(() => {
+      result.current.switchWorkspace('ws-2');
+    });
+    expect(result.current.workspaceId).toBe('ws-2');
+
+    await act(async () => {
+      await result.current.createWorkspace('New');
+    });
+    expect(result.current.workspaces.map(w => w.id)).toEqual(['ws-1', 'ws-2', 'ws-3']);
+    expect(result.current.workspaceId).toBe('ws-3');
+    expect(apiService.getWorkspaceId()).toBe('ws-3');
+  });
+
+  it('throws when used outside a provider', () => {
+    expect(() => renderHook(() => useWorkspaces())).toThrow('useWorkspaces must be used within a WorkspaceProvider');
+  });
+});
@@ -0,0 +1,29 @@
+import { createContext, useContext } from 'react';
+import { User } from '../services/apiService';
+
+/**
+ * Context value type
+ */
+export interface AuthContextValue {
+  /** Signed-in user, null when signed out */
+  user: User | null;
+  /** True while the stored token is being checked */
+  isLoading: boolean;
+  error: string | null;
+  login: (username: string, password: string) => Promise<void>;
+  register: (data: { username: string; password: string; displayName?: string }) => Promise<void>;
+  logout: () => Promise<void>;
+}
+
+/**
+ * Provided by AuthProvider
+ */
+export const AuthContext = createContext<AuthContextValue | null>(null);
+
+export function useAuth(): AuthContextValue {
+  const context = useContext(AuthContext);
+  if (!context) {
+    throw new Error('useAuth must be used within an AuthProvider');
+  }
+  return context;
+}
@@ -0,0 +1,30 @@
+import { createContext, useContext } from 'react';
+import { Workspace } from '../services/apiService';
+
+/**
+ * Context value type
+ */
+export interface WorkspaceContextValue {
+  /** Workspaces of the signed-in user, empty until loaded or while offline */
+  workspaces: Workspace[];
+  /** ID of the selected workspace, kept from the last visit while the list cannot be loaded */
+  workspaceId: string | null;
+  /** True while the workspaces are being loaded */
+  isLoading: boolean;
+  error: string | null;
+  switchWorkspace: (workspaceId: string) => void;
+  createWorkspace: (name: string) => Promise<void>;
+}
+
+/**
+ * Provided by WorkspaceProvider
+ */
+export const WorkspaceContext = createContext<WorkspaceContextValue | null>(null);
+
+export function useWorkspaces(): WorkspaceContextValue {
+  const context = useContext(WorkspaceContext);
+  if (!context) {
+    throw new Error('useWorkspaces must be used within a WorkspaceProvider');
+  }
+  return context;
+}
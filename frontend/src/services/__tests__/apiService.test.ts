@@ -8,15 +8,65 @@ import {
   deleteThread,
   addComment,
   generateReview,
+  streamReview,
   scanFile,
+  getLatestScan,
+  linkScanIssue,
+  indexFile,
+  removeIndexedFile,
+  searchCode,
+  getRules,
+  replaceRules,
+  saveRule,
+  deleteRule,
   getAIProviders,
   checkHealth,
+  login,
+  logout,
+  getAuthToken,
+  setAuthToken,
+  setUnauthorizedHandler,
+  getWorkspaces,
+  createWorkspace,
+  getWorkspaceId,
+  setWorkspaceId,
+  openRepository,
+  uploadRepository,
+  getRepositoryFiles,
+  getRepositoryChanges,
+  exportThreadsSarif,
+  exportReport,
+  closeRepository,
+  streamRepositoryFiles,
 } from '../apiService';
 
 // Mock fetch globally
 const mockFetch = vi.fn();
 global.fetch = mockFetch;
 
+/**
+ * Build a fetch response whose body yields the given chunks
+ */
+const sseResponse = (chunks: string[]) => {
+  const encoder = new TextEncoder();
+  const queue = [...chunks];
+  return {
+    ok: true,
+    status: 200,
+    body: {
+      getReader: () => ({
+        read: () =>
+          Promise.resolve(
+            queue.length > 0
+              ? { done: false, value: encoder.encode(queue.shift()) }
+              : { done: true, value: undefined }
+          ),
+        cancel: () => Promise.resolve(),
+      }),
+    },
+  };
+};
+
 describe('apiService', () => {
   beforeEach(() => {
     vi.clearAllMocks();
@@ -49,6 +99,84 @@ describe('apiService', () => {
     });
   });
 
+  describe('auth', () => {
+    afterEach(() => {
+      setAuthToken(null);
+      setUnauthorizedHandler(null);
+    });
+
+    it('stores the session token and sends it with later requests', async () => {
+      mockFetch
+        .mockResolvedValueOnce({
+          ok: true,
+          status: 200,
+          json: () => Promise.resolve({ token: 'session-token', user: { id: 'user-1' }, expiresAt: null }),
+        })
+        .mockResolvedValueOnce({ ok: true, status: 200, json: () => Promise.resolve([]) });
+
+      await login('ada', 'secret123');
+      await getThreads();
+
+      expect(getAuthToken()).toBe('session-token');
+      expect(mockFetch.mock.calls[0][1].headers).not.toHaveProperty('Authorization');
+      expect(mockFetch.mock.calls[1][1].headers).toMatchObject({ Authorization: 'Bearer session-token' });
+    });
+
+    it('forgets the token on logout even when the request fails', async () => {
+      setAuthToken('session-token');
+      mockFetch.mockRejectedValueOnce(new TypeError('Failed to fetch'));
+
+      await expect(logout()).rejects.toThrow('Failed to fetch');
+      expect(getAuthToken()).toBeNull();
+    });
+
+    it('calls the unauthorized handler when the token is rejected', async () => {
+      const onUnauthorized = vi.fn();
+      setUnauthorizedHandler(onUnauthorized);
+      setAuthToken('expired-token');
+      mockFetch.mockResolvedValueOnce({
+        ok: false,
+        status: 401,
+        json: () => Promise.resolve({ error: 'Invalid or expired token' }),
+      });
+
+      await expect(getThreads()).rejects.toThrow('Invalid or expired token');
+      expect(onUnauthorized).toHaveBeenCalled();
+    });
+  });
+
+  describe('workspaces', () => {
+    afterEach(() => {
+      setWorkspaceId(null);
+    });
+
+    it('sends the selected workspace with requests', async () => {
+      mockFetch.mockResolvedValue({ ok: true, status: 200, json: () => Promise.resolve([]) });
+
+      await getThreads();
+      setWorkspaceId('workspace-1');
+      await getThreads();
+
+      expect(getWorkspaceId()).toBe('workspace-1');
+      expect(mockFetch.mock.calls[0][1].headers).not.toHaveProperty('X-Workspace-Id');
+      expect(mockFetch.mock.calls[1][1].headers).toMatchObject({ 'X-Workspace-Id': 'workspace-1' });
+    });
+
+    it('lists and creates workspaces', async () => {
+      const workspace = { id: 'workspace-1', name: 'Team', role: 'owner', createdAt: '2024-01-01T00:00:00.000Z' };
+      mockFetch
+        .mockResolvedValueOnce({ ok: true, status: 200, json: () => Promise.resolve([workspace]) })
+        .mockResolvedValueOnce({ ok: true, status: 201, json: () => Promise.resolve(workspace) });
+
+      expect(await getWorkspaces()).toEqual([workspace]);
+      expect(await createWorkspace('Team')).toEqual(workspace);
+      expect(mockFetch.mock.calls[1]).toEqual([
+        expect.stringContaining('/api/workspaces'),
+        expect.objectContaining({ method: 'POST', body: JSON.stringify({ name: 'Team' }) }),
+      ]);
+    });
+  });
+
   describe('createThread', () => {
     it('creates a new thread successfully', async () => {
       const mockThread = {
@@ -193,6 +321,49 @@ describe('apiService', () => {
     });
   });
 
+  describe('exportThreadsSarif', () => {
+    it('posts the scan issues and returns the SARIF log', async () => {
+      const log = { version: '2.1.0', runs: [] };
+      mockFetch.mockResolvedValueOnce({
+        ok: true,
+        json: () => Promise.resolve(log),
+      });
+      const scans = [
+        {
+          file: 'calc.js',
+          issues: [
+            { startLine: 1, endLine: 1, severity: 'error' as const, category: 'bug' as const, message: 'Bug', fix: 'Fix' },
+          ],
+        },
+      ];
+
+      const result = await exportThreadsSarif(scans);
+
+      expect(mockFetch).toHaveBeenCalledWith(
+        'http://localhost:3000/api/threads/export?format=sarif',
+        expect.objectContaining({ method: 'POST', body: JSON.stringify({ scans }) })
+      );
+      expect(result).toEqual(log);
+    });
+  });
+
+  describe('exportReport', () => {
+    it('returns the rendered report', async () => {
+      mockFetch.mockResolvedValueOnce({
+        ok: true,
+        text: () => Promise.resolve('<!DOCTYPE html>'),
+      });
+
+      const report = await exportReport('html');
+
+      expect(mockFetch).toHaveBeenCalledWith(
+        'http://localhost:3000/api/threads/export?format=html',
+        expect.objectContaining({ method: 'POST', body: JSON.stringify({ scans: [] }) })
+      );
+      expect(report).toBe('<!DOCTYPE html>');
+    });
+  });
+
   describe('updateThread', () => {
     it('updates thread resolved status', async () => {
       const mockThread = { id: 'thread-1', resolved: true };
@@ -257,12 +428,12 @@ describe('apiService', () => {
       expect(result).toEqual(mockComment);
     });
 
-    it('adds an AI comment with diff', async () => {
+    it('adds a user comment with diff', async () => {
       const mockComment = {
         id: 'comment-2',
         threadId: 'thread-1',
-        author: 'ai',
-        text: 'AI response',
+        author: 'user',
+        text: 'Suggested change',
         diff: '- old\n+ new',
       };
 
@@ -272,8 +443,8 @@ describe('apiService', () => {
       });
 
       const result = await addComment('thread-1', {
-        author: 'ai',
-        text: 'AI response',
+        author: 'user',
+        text: 'Suggested change',
         diff: '- old\n+ new',
       });
 
@@ -281,6 +452,64 @@ describe('apiService', () => {
     });
   });
 
+  describe('streamReview', () => {
+    const request = {
+      codeContext: 'const x = 1;',
+      selectedCode: 'const x = 1;',
+      language: 'javascript',
+    };
+
+    it('dispatches streamed events and resolves with the final review', async () => {
+      const review = { explanation: 'Fine', suggestions: ['Add types'], diff: '-a\n+b', provider: 'openai', model: 'gpt-4' };
+      mockFetch.mockResolvedValueOnce(sseResponse([
+        'event: explanation\ndata: {"delta":"Fi"}\n\nevent: expla',
+        'nation\ndata: {"delta":"ne"}\n\n',
+        'event: suggestion\ndata: {"index":0,"text":"Add types"}\n\n',
+        'event: diff\ndata: {"diff":"-a\\n+b"}\n\n',
+        `event: done\ndata: ${JSON.stringify(review)}\n\n`,
+      ]));
+
+      const onExplanation = vi.fn();
+      const onSuggestion = vi.fn();
+      const onDiff = vi.fn();
+
+      const result = await streamReview(request, { onExplanation, onSuggestion, onDiff });
+
+      expect(mockFetch).toHaveBeenCalledWith(
+        'http://localhost:3000/api/ai/review/stream',
+        expect.objectContaining({ method: 'POST' })
+      );
+      expect(onExplanation.mock.calls).toEqual([['Fi'], ['ne']]);
+      expect(onSuggestion).toHaveBeenCalledWith('Add types', 0);
+      expect(onDiff).toHaveBeenCalledWith('-a\n+b');
+      expect(result).toEqual(review);
+    });
+
+    it('rejects on an error event', async () => {
+      mockFetch.mockResolvedValueOnce(sseResponse([
+        'event: error\ndata: {"error":"No AI service available"}\n\n',
+      ]));
+
+      await expect(streamReview(request)).rejects.toThrow('No AI service available');
+    });
+
+    it('rejects when the stream ends without a review', async () => {
+      mockFetch.mockResolvedValueOnce(sseResponse(['event: explanation\ndata: {"delta":"Fi"}\n\n']));
+
+      await expect(streamReview(request)).rejects.toThrow('Review stream ended unexpectedly');
+    });
+
+    it('throws ApiError on validation failure', async () => {
+      mockFetch.mockResolvedValueOnce({
+        ok: false,
+        status: 400,
+        json: () => Promise.resolve({ error: 'Validation failed' }),
+      });
+
+      await expect(streamReview(request)).rejects.toThrow('Validation failed');
+    });
+  });
+
   describe('generateReview', () => {
     it('generates an AI review', async () => {
       const mockReview = {
@@ -337,9 +566,13 @@ describe('apiService', () => {
             startLine: 5,
             endLine: 7,
             severity: 'error',
+            category: 'bug',
             message: 'Potential null reference',
+            fix: 'Check for null before use',
           },
         ],
+        provider: 'openai',
+        model: 'gpt-4',
       };
 
       mockFetch.mockResolvedValueOnce({
@@ -374,6 +607,122 @@ describe('apiService', () => {
         expect.any(Object)
       );
     });
+
+    it('sends the scan mode', async () => {
+      mockFetch.mockResolvedValueOnce({
+        ok: true,
+        json: () => Promise.resolve({ runId: null, mode: 'security', issues: [], provider: 'openai', model: 'gpt-4' }),
+      });
+
+      const result = await scanFile({ code: 'eval(input);', language: 'javascript', fileName: 'a.js', mode: 'security' });
+
+      expect(result.mode).toBe('security');
+      expect(JSON.parse(mockFetch.mock.calls[0][1].body)).toMatchObject({ mode: 'security' });
+    });
+  });
+
+  describe('getLatestScan', () => {
+    it('returns the newest stored scan of a file', async () => {
+      const run = { id: 'run-1', file: 'src/a b.ts', provider: 'openai', model: 'gpt-4', createdAt: '', issues: [] };
+      mockFetch.mockResolvedValueOnce({ ok: true, json: () => Promise.resolve([run]) });
+
+      expect(await getLatestScan('src/a b.ts')).toEqual(run);
+      expect(mockFetch).toHaveBeenCalledWith(
+        'http://localhost:3000/api/scans?file=src%2Fa+b.ts&limit=1',
+        expect.any(Object)
+      );
+    });
+
+    it('returns null for files that were never scanned', async () => {
+      mockFetch.mockResolvedValueOnce({ ok: true, json: () => Promise.resolve([]) });
+
+      expect(await getLatestScan('a.ts')).toBeNull();
+    });
+  });
+
+  describe('linkScanIssue', () => {
+    it('records the thread of an issue', async () => {
+      mockFetch.mockResolvedValueOnce({ ok: true, json: () => Promise.resolve({ id: 'issue-1', threadId: 'thread-1' }) });
+
+      await linkScanIssue('issue-1', 'thread-1');
+
+      expect(mockFetch).toHaveBeenCalledWith(
+        'http://localhost:3000/api/scans/issues/issue-1/thread',
+        expect.objectContaining({ method: 'PUT', body: JSON.stringify({ threadId: 'thread-1' }) })
+      );
+    });
+  });
+
+  describe('code search', () => {
+    it('indexes files and removes them from the index', async () => {
+      mockFetch
+        .mockResolvedValueOnce({ ok: true, json: () => Promise.resolve({ file: 'a.ts', chunkCount: 2, updated: true }) })
+        .mockResolvedValueOnce({ ok: true, status: 204 });
+
+      expect(await indexFile({ name: 'a.ts', content: 'x', language: 'typescript' })).toMatchObject({ chunkCount: 2 });
+      await removeIndexedFile('src/a b.ts');
+
+      expect(mockFetch).toHaveBeenNthCalledWith(
+        1,
+        'http://localhost:3000/api/search/files',
+        expect.objectContaining({ method: 'PUT', body: JSON.stringify({ name: 'a.ts', content: 'x', language: 'typescript' }) })
+      );
+      expect(mockFetch).toHaveBeenNthCalledWith(
+        2,
+        'http://localhost:3000/api/search/files?name=src%2Fa+b.ts',
+        expect.objectContaining({ method: 'DELETE' })
+      );
+    });
+
+    it('searches the index', async () => {
+      const result = { file: 'a.ts', language: 'typescript', startLine: 1, endLine: 3, symbol: 'parse', content: '', score: 0.5 };
+      mockFetch.mockResolvedValueOnce({ ok: true, json: () => Promise.resolve([result]) });
+
+      expect(await searchCode('parse order', { limit: 5, exclude: 'b.ts' })).toEqual([result]);
+      expect(mockFetch).toHaveBeenCalledWith(
+        'http://localhost:3000/api/search?q=parse+order&limit=5&exclude=b.ts',
+        expect.any(Object)
+      );
+    });
+  });
+
+  describe('review rules', () => {
+    const rule = { id: 'no-moment', description: 'Use date-fns', severity: 'warning' as const };
+
+    it('lists and replaces the rules of the workspace', async () => {
+      mockFetch
+        .mockResolvedValueOnce({ ok: true, json: () => Promise.resolve([]) })
+        .mockResolvedValueOnce({ ok: true, json: () => Promise.resolve([{ ...rule, example: null }]) });
+
+      expect(await getRules()).toEqual([]);
+      expect(await replaceRules([rule])).toMatchObject([{ id: 'no-moment' }]);
+      expect(mockFetch).toHaveBeenNthCalledWith(1, 'http://localhost:3000/api/rules', expect.any(Object));
+      expect(mockFetch).toHaveBeenNthCalledWith(
+        2,
+        'http://localhost:3000/api/rules',
+        expect.objectContaining({ method: 'PUT', body: JSON.stringify({ rules: [rule] }) })
+      );
+    });
+
+    it('saves and deletes a rule by ID', async () => {
+      mockFetch
+        .mockResolvedValueOnce({ ok: true, json: () => Promise.resolve({ ...rule, example: null }) })
+        .mockResolvedValueOnce({ ok: true, status: 204 });
+
+      await saveRule(rule);
+      await deleteRule('no-moment');
+
+      expect(mockFetch).toHaveBeenNthCalledWith(
+        1,
+        'http://localhost:3000/api/rules/no-moment',
+        expect.objectContaining({ method: 'PUT', body: JSON.stringify({ description: 'Use date-fns', severity: 'warning' }) })
+      );
+      expect(mockFetch).toHaveBeenNthCalledWith(
+        2,
+        'http://localhost:3000/api/rules/no-moment',
+        expect.objectContaining({ method: 'DELETE' })
+      );
+    });
   });
 
   describe('getAIProviders', () => {
@@ -397,6 +746,121 @@ describe('apiService', () => {
     });
   });
 
+  describe('git repositories', () => {
+    const repository = {
+      id: 'repo-1',
+      name: '/srv/repos/project',
+      workingTree: true,
+      currentBranch: 'main',
+      head: 'a'.repeat(40),
+      branches: ['main'],
+      tags: [],
+    };
+
+    it('opens a local repository', async () => {
+      mockFetch.mockResolvedValueOnce({
+        ok: true,
+        json: () => Promise.resolve(repository),
+      });
+
+      const result = await openRepository('/srv/repos/project');
+
+      expect(mockFetch).toHaveBeenCalledWith(
+        'http://localhost:3000/api/git/repositories',
+        expect.objectContaining({ method: 'POST', body: JSON.stringify({ path: '/srv/repos/project' }) })
+      );
+      expect(result).toEqual(repository);
+    });
+
+    it('uploads an archive as binary data', async () => {
+      const file = new File(['bundle'], 'my project.bundle');
+      mockFetch.mockResolvedValueOnce({
+        ok: true,
+        json: () => Promise.resolve({ ...repository, workingTree: false }),
+      });
+
+      await uploadRepository(file);
+
+      const [url, options] = mockFetch.mock.calls[0];
+      expect(url).toBe('http://localhost:3000/api/git/repositories/upload?name=my%20project.bundle');
+      expect(options.headers['Content-Type']).toBe('application/octet-stream');
+      expect(options.body).toBe(file);
+    });
+
+    it('lists the files at a ref', async () => {
+      mockFetch.mockResolvedValueOnce({
+        ok: true,
+        json: () => Promise.resolve({ ref: 'v1.0', commit: 'b'.repeat(40), files: [] }),
+      });
+
+      await getRepositoryFiles('repo-1', 'v1.0');
+
+      expect(mockFetch).toHaveBeenCalledWith(
+        'http://localhost:3000/api/git/repositories/repo-1/files?ref=v1.0',
+        expect.any(Object)
+      );
+    });
+
+    it('lists the files changed between two refs', async () => {
+      mockFetch.mockResolvedValueOnce({
+        ok: true,
+        json: () => Promise.resolve({ base: {}, head: {}, files: [] }),
+      });
+
+      await getRepositoryChanges('repo-1', 'main', 'feature/x');
+
+      expect(mockFetch).toHaveBeenCalledWith(
+        'http://localhost:3000/api/git/repositories/repo-1/changes?base=main&head=feature%2Fx',
+        expect.any(Object)
+      );
+    });
+
+    it('closes a repository', async () => {
+      mockFetch.mockResolvedValueOnce({
+        ok: true,
+        status: 204,
+        json: () => Promise.resolve({}),
+      });
+
+      await closeRepository('repo-1');
+
+      expect(mockFetch).toHaveBeenCalledWith(
+        'http://localhost:3000/api/git/repositories/repo-1',
+        expect.objectContaining({ method: 'DELETE' })
+      );
+    });
+
+    it('streams file contents and resolves with the version read', async () => {
+      const done = { ref: 'main', commit: 'c'.repeat(40), files: 1, skipped: 1 };
+      mockFetch.mockResolvedValueOnce(sseResponse([
+        'event: file\ndata: {"path":"src/a.ts","content":"export {};\\n"}\n\n',
+        'event: skipped\ndata: {"path":"logo.png","reason":"binary"}\n\n',
+        `event: done\ndata: ${JSON.stringify(done)}\n\n`,
+      ]));
+
+      const onFile = vi.fn();
+      const onSkipped = vi.fn();
+
+      const result = await streamRepositoryFiles(
+        'repo-1',
+        { ref: 'main', paths: ['src/a.ts', 'logo.png'] },
+        { onFile, onSkipped }
+      );
+
+      expect(onFile).toHaveBeenCalledWith('src/a.ts', 'export {};\n');
+      expect(onSkipped).toHaveBeenCalledWith('logo.png', 'binary');
+      expect(result).toEqual(done);
+    });
+
+    it('rejects on an error event while streaming files', async () => {
+      mockFetch.mockResolvedValueOnce(sseResponse([
+        'event: error\ndata: {"error":"Failed to read files"}\n\n',
+      ]));
+
+      await expect(streamRepositoryFiles('repo-1', { paths: ['a.ts'] })).rejects.toThrow('Failed to read files');
+    });
+  });
+
   describe('checkHealth', () => {
     it('returns health status', async () => {
       const mockHealth = {
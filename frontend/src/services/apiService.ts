@@ -1,4 +1,10 @@
-const API_URL = import.meta.env.VITE_API_URL || 'http://localhost:3000';
+import type { SarifLog, ReviewMode, ReviewModeFields } from '@ai-code-review/shared';
+import type { DiffSide, ThreadAnchor, ThreadSource } from '../types/thread';
+
+export const API_URL = import.meta.env.VITE_API_URL || 'http://localhost:3000';
+
+const AUTH_TOKEN_KEY = 'code-review-auth-token';
+const WORKSPACE_KEY = 'code-review-workspace';
 
 /**
  * Thread data from API
@@ -9,6 +15,16 @@ export interface Thread {
   startLine: number;
   endLine: number;
   selectedCode: string;
+  /** Repository version of the file, for files imported from git */
+  source?: ThreadSource | null;
+  /** For threads on a diff, the side the lines are on and the revisions compared */
+  side?: DiffSide | null;
+  baseRevision?: string | null;
+  headRevision?: string | null;
+  /** The code the thread was created on, null when it is unknown */
+  anchor?: ThreadAnchor | null;
+  /** The code of the thread could not be found after an edit */
+  outdated?: boolean;
   resolved: boolean;
   createdAt: string;
   updatedAt: string;
@@ -22,20 +38,85 @@ export interface Comment {
   id: string;
   threadId: string;
   author: 'user' | 'ai';
+  /** User who wrote the comment, null for AI comments */
+  authorId?: string | null;
+  authorName?: string | null;
   text: string;
   diff?: string | null;
+  /** When the suggested diff was applied, null when it was not */
+  appliedAt?: string | null;
+  createdAt: string;
+}
+
+/**
+ * Signed-in user
+ */
+export interface User {
+  id: string;
+  username: string;
+  displayName: string;
+  createdAt: string;
+}
+
+/**
+ * Workspace that threads are scoped to
+ */
+export interface Workspace {
+  id: string;
+  name: string;
+  /** Role of the signed-in user in the workspace */
+  role: 'owner' | 'member';
   createdAt: string;
 }
 
 /**
- * AI review response
+ * Member of a workspace
+ */
+export interface WorkspaceMember {
+  userId: string;
+  username: string;
+  displayName: string;
+  role: 'owner' | 'member';
+  joinedAt: string;
+}
+
+/**
+ * Response of logging in or registering
+ */
+export interface AuthResponse {
+  token: string;
+  user: User;
+  expiresAt: string | null;
+}
+
+/**
+ * A place where reviewed code breaks one of the workspace's rules
+ */
+export interface ReviewFinding {
+  ruleId: string;
+  severity: 'error' | 'warning' | 'info';
+  message: string;
+}
+
+/**
+ * AI review response, with the output fields of the review's mode
  */
-export interface ReviewResponse {
+export interface ReviewResponse extends ReviewModeFields {
   explanation: string;
   suggestions: string[];
   diff?: string;
+  /** Workspace rules the code breaks, when the workspace has rules */
+  findings?: ReviewFinding[];
   provider: string;
   model: string;
+  /** File lines the model saw, when the whole file was sent */
+  contextStartLine?: number;
+  contextEndLine?: number;
+  wasTruncated?: boolean;
+  /** Names of the `additionalFiles` that fit the model and were sent */
+  contextFiles?: string[];
+  /** The AI comment the review was saved as, when a `threadId` was sent */
+  comment?: Comment;
 }
 
 /**
@@ -52,6 +133,102 @@ export class ApiError extends Error {
   }
 }
 
+// Auth token
+
+let unauthorizedHandler: (() => void) | null = null;
+
+/**
+ * Get the stored bearer token
+ */
+export function getAuthToken(): string | null {
+  try {
+    return localStorage.getItem(AUTH_TOKEN_KEY);
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Store the bearer token sent with every API request, or remove it with null
+ */
+export function setAuthToken(token: string | null): void {
+  try {
+    if (token) {
+      localStorage.setItem(AUTH_TOKEN_KEY, token);
+    } else {
+      localStorage.removeItem(AUTH_TOKEN_KEY);
+    }
+  } catch (error) {
+    console.error('Failed to store auth token:', error);
+  }
+}
+
+/**
+ * Headers that authenticate a request, empty when signed out
+ */
+export function getAuthHeaders(): Record<string, string> {
+  const token = getAuthToken();
+  return token ? { Authorization: `Bearer ${token}` } : {};
+}
+
+/**
+ * Get the stored ID of the selected workspace
+ */
+export function getWorkspaceId(): string | null {
+  try {
+    return localStorage.getItem(WORKSPACE_KEY);
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Store the workspace sent with every API request, or remove it with null
+ */
+export function setWorkspaceId(workspaceId: string | null): void {
+  try {
+    if (workspaceId) {
+      localStorage.setItem(WORKSPACE_KEY, workspaceId);
+    } else {
+      localStorage.removeItem(WORKSPACE_KEY);
+    }
+  } catch (error) {
+    console.error('Failed to store workspace:', error);
+  }
+}
+
+/**
+ * Headers that select a workspace, empty when none is selected
+ */
+export function getWorkspaceHeaders(workspaceId = getWorkspaceId()): Record<string, string> {
+  return workspaceId ? { 'X-Workspace-Id': workspaceId } : {};
+}
+
+/**
+ * Set the function called when the API rejects the stored token
+ */
+export function setUnauthorizedHandler(handler: (() => void) | null): void {
+  unauthorizedHandler = handler;
+}
+
+/**
+ * Throw an ApiError for a failed response
+ */
+async function throwResponseError(response: Response): Promise<never> {
+  if (response.status === 401 && getAuthToken()) {
+    unauthorizedHandler?.();
+  }
+
+  let errorMessage = `API error: ${response.status}`;
+  try {
+    const errorData = await response.json();
+    errorMessage = errorData.error || errorMessage;
+  } catch {
+    // Ignore JSON parse error
+  }
+  throw new ApiError(errorMessage, response.status);
+}
+
 /**
  * Make an API request
  */
@@ -65,19 +242,14 @@ async function apiRequest<T>(
     ...options,
     headers: {
       'Content-Type': 'application/json',
+      ...getAuthHeaders(),
+      ...getWorkspaceHeaders(),
       ...options.headers,
     },
   });
 
   if (!response.ok) {
-    let errorMessage = `API error: ${response.status}`;
-    try {
-      const errorData = await response.json();
-      errorMessage = errorData.error || errorMessage;
-    } catch {
-      // Ignore JSON parse error
-    }
-    throw new ApiError(errorMessage, response.status);
+    return throwResponseError(response);
   }
 
   // Handle 204 No Content
@@ -88,6 +260,140 @@ async function apiRequest<T>(
   return response.json();
 }
 
+/**
+ * Read a Server-Sent Events body, passing each event to `handleEvent` until it
+ * returns a result
+ */
+async function readEventStream<T>(
+  body: ReadableStream<Uint8Array>,
+  handleEvent: (event: string, payload: ReturnType<typeof JSON.parse>) => T | undefined,
+  endedMessage: string
+): Promise<T> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  const parseBlock = (block: string): T | undefined => {
+    let event = 'message';
+    const dataLines: string[] = [];
+    for (const line of block.split('\n')) {
+      if (line.startsWith('event:')) {
+        event = line.slice(6).trim();
+      } else if (line.startsWith('data:')) {
+        dataLines.push(line.slice(5).trim());
+      }
+    }
+    if (dataLines.length === 0) return undefined;
+
+    return handleEvent(event, JSON.parse(dataLines.join('\n')));
+  };
+
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+
+    buffer += decoder.decode(value, { stream: true }).replace(/\r\n/g, '\n');
+
+    let separator = buffer.indexOf('\n\n');
+    while (separator !== -1) {
+      const result = parseBlock(buffer.slice(0, separator));
+      buffer = buffer.slice(separator + 2);
+      if (result !== undefined) {
+        reader.cancel().catch(() => undefined);
+        return result;
+      }
+      separator = buffer.indexOf('\n\n');
+    }
+  }
+
+  throw new ApiError(endedMessage, 502);
+}
+
+// Auth API
+
+/**
+ * Log in with a username and password, and store the session token
+ */
+export async function login(username: string, password: string): Promise<AuthResponse> {
+  const result = await apiRequest<AuthResponse>('/api/auth/login', {
+    method: 'POST',
+    body: JSON.stringify({ username, password }),
+  });
+  setAuthToken(result.token);
+  return result;
+}
+
+/**
+ * Register a new user, and store the session token
+ */
+export async function register(data: {
+  username: string;
+  password: string;
+  displayName?: string;
+}): Promise<AuthResponse> {
+  const result = await apiRequest<AuthResponse>('/api/auth/register', {
+    method: 'POST',
+    body: JSON.stringify(data),
+  });
+  setAuthToken(result.token);
+  return result;
+}
+
+/**
+ * End the session and forget the stored token
+ * The token is forgotten even when the request fails
+ */
+export async function logout(): Promise<void> {
+  try {
+    await apiRequest<void>('/api/auth/logout', { method: 'POST' });
+  } finally {
+    setAuthToken(null);
+  }
+}
+
+/**
+ * Get the user of the stored token
+ */
+export async function getCurrentUser(): Promise<User> {
+  return apiRequest<User>('/api/auth/me');
+}
+
+// Workspace API
+
+/**
+ * Get the workspaces of the signed-in user
+ */
+export async function getWorkspaces(): Promise<Workspace[]> {
+  return apiRequest<Workspace[]>('/api/workspaces');
+}
+
+/**
+ * Create a workspace owned by the signed-in user
+ */
+export async function createWorkspace(name: string): Promise<Workspace> {
+  return apiRequest<Workspace>('/api/workspaces', {
+    method: 'POST',
+    body: JSON.stringify({ name }),
+  });
+}
+
+/**
+ * Get the members of a workspace
+ */
+export async function getWorkspaceMembers(workspaceId: string): Promise<WorkspaceMember[]> {
+  return apiRequest<WorkspaceMember[]>(`/api/workspaces/${workspaceId}/members`);
+}
+
+/**
+ * Add a user to a workspace by username, returning the updated members
+ */
+export async function addWorkspaceMember(workspaceId: string, username: string): Promise<WorkspaceMember[]> {
+  return apiRequest<WorkspaceMember[]>(`/api/workspaces/${workspaceId}/members`, {
+    method: 'POST',
+    body: JSON.stringify({ username }),
+  });
+}
+
 // Thread API
 
 /**
@@ -98,6 +404,10 @@ export async function createThread(data: {
   startLine: number;
   endLine: number;
   selectedCode: string;
+  source?: ThreadSource;
+  side?: DiffSide;
+  baseRevision?: string;
+  headRevision?: string;
   initialComment?: string;
 }): Promise<Thread> {
   return apiRequest<Thread>('/api/threads', {
@@ -132,6 +442,47 @@ export async function getThreads(options?: {
   return apiRequest<Thread[]>(`/api/threads${query ? `?${query}` : ''}`);
 }
 
+/**
+ * Export the unresolved threads of the workspace as SARIF 2.1.0, with the scan issues
+ * of the open files
+ */
+export async function exportThreadsSarif(scans: ExportedScan[] = []): Promise<SarifLog> {
+  return apiRequest<SarifLog>('/api/threads/export?format=sarif', {
+    method: 'POST',
+    body: JSON.stringify({ scans }),
+  });
+}
+
+/**
+ * Scan issues of a file, sent with exports
+ */
+export type ExportedScan = {
+  file: string;
+  issues: Array<Omit<ScanIssue, 'id' | 'runId' | 'fingerprint' | 'status' | 'threadId'>>;
+};
+
+/**
+ * Render a review report of all threads of the workspace and the given scan issues,
+ * as Markdown or as a self-contained HTML page
+ */
+export async function exportReport(format: 'markdown' | 'html', scans: ExportedScan[] = []): Promise<string> {
+  const response = await fetch(`${API_URL}/api/threads/export?format=${format}`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      ...getAuthHeaders(),
+      ...getWorkspaceHeaders(),
+    },
+    body: JSON.stringify({ scans }),
+  });
+
+  if (!response.ok) {
+    return throwResponseError(response);
+  }
+
+  return response.text();
+}
+
 /**
  * Update a thread
  */
@@ -155,12 +506,13 @@ export async function deleteThread(id: string): Promise<void> {
 }
 
 /**
- * Add a comment to a thread
+ * Add a comment of the signed-in user to a thread
+ * AI comments are saved by the backend when a review is asked with a thread ID
  */
 export async function addComment(
   threadId: string,
   data: {
-    author: 'user' | 'ai';
+    author: 'user';
     text: string;
     diff?: string;
   }
@@ -175,11 +527,21 @@ export async function addComment(
 
 /**
  * Generate AI code review
+ * Send either `codeContext` and `selectedCode`, or the whole `fileContent` with the
+ * selected `startLine`/`endLine` to let the server pick the context
+ * When reviewing a change, `hunk` is the diff hunk of the selection and `fileContent`
+ * the version on its side; only the lines around the hunk are sent to the model
+ * `additionalFiles` are sent most relevant first; the server keeps those that fit the model
+ * In a workspace the server adds related code found in its search index, unless `useSearch` is false
+ * `mode` picks what the review concentrates on, such as a security audit; general by default
  */
 export async function generateReview(data: {
   threadId?: string;
-  codeContext: string;
-  selectedCode: string;
+  codeContext?: string;
+  selectedCode?: string;
+  fileContent?: string;
+  startLine?: number;
+  endLine?: number;
   language: string;
   query?: string;
   fileName?: string;
@@ -188,7 +550,11 @@ export async function generateReview(data: {
     content: string;
     language: string;
   }>;
+  hunk?: { diff: string; side: DiffSide };
+  mode?: ReviewMode;
   useFallback?: boolean;
+  useSearch?: boolean;
+  provider?: string;
 }): Promise<ReviewResponse> {
   return apiRequest<ReviewResponse>('/api/ai/review', {
     method: 'POST',
@@ -197,38 +563,406 @@ export async function generateReview(data: {
 }
 
 /**
- * Scan file for issues
+ * Handlers for streamed review events
+ */
+export interface ReviewStreamHandlers {
+  onExplanation?: (delta: string) => void;
+  onSuggestion?: (text: string, index: number) => void;
+  onDiff?: (diff: string) => void;
+}
+
+/**
+ * Generate AI code review, streamed as Server-Sent Events
+ * Resolves with the complete review once the `done` event arrives
+ */
+export async function streamReview(
+  data: Parameters<typeof generateReview>[0],
+  handlers: ReviewStreamHandlers = {},
+  signal?: AbortSignal
+): Promise<ReviewResponse> {
+  const response = await fetch(`${API_URL}/api/ai/review/stream`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      Accept: 'text/event-stream',
+      ...getAuthHeaders(),
+      ...getWorkspaceHeaders(),
+    },
+    body: JSON.stringify(data),
+    signal,
+  });
+
+  if (!response.ok || !response.body) {
+    return throwResponseError(response);
+  }
+
+  return readEventStream<ReviewResponse>(response.body, (event, payload) => {
+    switch (event) {
+      case 'explanation':
+        handlers.onExplanation?.(payload.delta);
+        break;
+      case 'suggestion':
+        handlers.onSuggestion?.(payload.text, payload.index);
+        break;
+      case 'diff':
+        handlers.onDiff?.(payload.diff);
+        break;
+      case 'error':
+        throw new ApiError(payload.error || 'Failed to generate review', 502);
+      case 'done':
+        return payload as ReviewResponse;
+    }
+    return undefined;
+  }, 'Review stream ended unexpectedly');
+}
+
+/**
+ * Where an issue stands compared to the previous scan of its file
+ */
+export type ScanIssueStatus = 'new' | 'present' | 'fixed';
+
+/**
+ * Scan file for issues, with the output fields of the scan's mode
  */
-export interface ScanIssue {
+export interface ScanIssue extends ReviewModeFields {
   id: string;
+  /** Scan the issue was stored with; absent for scans outside a workspace */
+  runId?: string;
+  /** Stable across scans of the file */
+  fingerprint: string;
   startLine: number;
   endLine: number;
   severity: 'error' | 'warning' | 'info';
+  category: 'bug' | 'security' | 'performance' | 'maintainability' | 'style';
   message: string;
-  suggestion?: string;
+  fix: string;
+  diff?: string | null;
+  /** Workspace rule the issue breaks, if it breaks one */
+  ruleId?: string | null;
+  /** Fixed issues were found by the previous scan but not by this one */
+  status: ScanIssueStatus;
+  /** Thread the issue was turned into */
+  threadId: string | null;
+}
+
+/**
+ * A stored scan of a file
+ */
+export interface ScanRun {
+  id: string;
+  file: string;
+  mode: ReviewMode;
+  provider: string;
+  model: string;
+  createdAt: string;
+  issues: ScanIssue[];
+}
+
+export interface ScanResult {
+  /** Null when the scan was not stored */
+  runId: string | null;
+  mode: ReviewMode;
+  issues: ScanIssue[];
+  provider: string;
+  model: string;
 }
 
+/**
+ * Scan a whole file for issues; in a workspace the scan is stored and compared with the
+ * previous scan of the file in the same `mode`
+ */
 export async function scanFile(data: {
   code: string;
   language: string;
   fileName: string;
-}): Promise<{ issues: ScanIssue[] }> {
-  return apiRequest<{ issues: ScanIssue[] }>('/api/ai/scan', {
+  mode?: ReviewMode;
+  provider?: string;
+}): Promise<ScanResult> {
+  return apiRequest<ScanResult>('/api/ai/scan', {
     method: 'POST',
     body: JSON.stringify(data),
   });
 }
 
+/**
+ * Get the last stored scan of a file in the workspace, or null if it was never scanned
+ */
+export async function getLatestScan(file: string): Promise<ScanRun | null> {
+  const params = new URLSearchParams({ file, limit: '1' });
+  const [run] = await apiRequest<ScanRun[]>(`/api/scans?${params}`);
+  return run ?? null;
+}
+
+/**
+ * Record the thread a scan issue was turned into, so later scans keep the link
+ */
+export async function linkScanIssue(issueId: string, threadId: string | null): Promise<ScanIssue> {
+  return apiRequest<ScanIssue>(`/api/scans/issues/${issueId}/thread`, {
+    method: 'PUT',
+    body: JSON.stringify({ threadId }),
+  });
+}
+
+// Code search API
+
+/**
+ * A chunk of an indexed file found by a code search
+ */
+export interface SearchResult {
+  file: string;
+  language: string;
+  startLine: number;
+  endLine: number;
+  /** Function or class the chunk is, if it is one */
+  symbol: string | null;
+  content: string;
+  /** Similarity to the query, higher is closer */
+  score: number;
+}
+
+/**
+ * A file in the workspace's search index
+ */
+export interface IndexedFile {
+  file: string;
+  language: string;
+  chunkCount: number;
+  indexedAt: string;
+  /** False when the file had not changed since it was last indexed */
+  updated: boolean;
+}
+
+/**
+ * Add a file to the workspace's search index, or update it
+ */
+export async function indexFile(file: { name: string; content: string; language: string }): Promise<IndexedFile> {
+  return apiRequest<IndexedFile>('/api/search/files', {
+    method: 'PUT',
+    body: JSON.stringify(file),
+  });
+}
+
+/**
+ * Remove a file from the workspace's search index
+ */
+export async function removeIndexedFile(name: string): Promise<void> {
+  const params = new URLSearchParams({ name });
+  return apiRequest<void>(`/api/search/files?${params}`, { method: 'DELETE' });
+}
+
+/**
+ * Search the workspace's indexed files, closest chunks first
+ */
+export async function searchCode(query: string, options: { limit?: number; exclude?: string } = {}): Promise<SearchResult[]> {
+  const params = new URLSearchParams({ q: query });
+  if (options.limit) params.set('limit', String(options.limit));
+  if (options.exclude) params.set('exclude', options.exclude);
+  return apiRequest<SearchResult[]>(`/api/search?${params}`);
+}
+
+// Review rules API
+
+/**
+ * A team rule of the workspace that reviews and scans enforce
+ */
+export interface ReviewRule {
+  id: string;
+  description: string;
+  severity: 'error' | 'warning' | 'info';
+  /** Code showing what the rule forbids or asks for */
+  example: string | null;
+  updatedAt: string;
+}
+
+export type ReviewRuleInput = Pick<ReviewRule, 'id' | 'description' | 'severity'> & { example?: string | null };
+
+/**
+ * Get the review rules of the workspace, ordered by ID
+ */
+export async function getRules(): Promise<ReviewRule[]> {
+  return apiRequest<ReviewRule[]>('/api/rules');
+}
+
+/**
+ * Replace all the review rules of the workspace (owners only)
+ */
+export async function replaceRules(rules: ReviewRuleInput[]): Promise<ReviewRule[]> {
+  return apiRequest<ReviewRule[]>('/api/rules', {
+    method: 'PUT',
+    body: JSON.stringify({ rules }),
+  });
+}
+
+/**
+ * Add a review rule to the workspace, or update the rule with its ID (owners only)
+ */
+export async function saveRule({ id, ...rule }: ReviewRuleInput): Promise<ReviewRule> {
+  return apiRequest<ReviewRule>(`/api/rules/${encodeURIComponent(id)}`, {
+    method: 'PUT',
+    body: JSON.stringify(rule),
+  });
+}
+
+/**
+ * Remove a review rule from the workspace (owners only)
+ */
+export async function deleteRule(id: string): Promise<void> {
+  return apiRequest<void>(`/api/rules/${encodeURIComponent(id)}`, { method: 'DELETE' });
+}
+
 /**
  * Get available AI providers
  */
 export async function getAIProviders(): Promise<{
   available: Array<{ provider: string; model: string }>;
+  supported: string[];
   default: string;
 }> {
   return apiRequest('/api/ai/providers');
 }
 
+// Git API
+
+/**
+ * A git repository opened for review
+ */
+export interface GitRepository {
+  id: string;
+  /** Path of a local repository or name of an uploaded one */
+  name: string;
+  /** Uploaded repositories have no working tree; only their commits can be read */
+  workingTree: boolean;
+  currentBranch: string | null;
+  head: string | null;
+  branches: string[];
+  tags: string[];
+}
+
+/**
+ * Files of a repository at a ref, or of its working tree when `ref` is null
+ */
+export interface GitRepositoryFiles {
+  ref: string | null;
+  /** For the working tree, the commit HEAD points at */
+  commit: string | null;
+  files: Array<{ path: string; size: number }>;
+}
+
+/**
+ * Open a local repository; the server only allows paths inside its configured directories
+ */
+export async function openRepository(path: string): Promise<GitRepository> {
+  return apiRequest<GitRepository>('/api/git/repositories', {
+    method: 'POST',
+    body: JSON.stringify({ path }),
+  });
+}
+
+/**
+ * Upload a git bundle or a tar archive of a repository
+ */
+export async function uploadRepository(file: File): Promise<GitRepository> {
+  return apiRequest<GitRepository>(`/api/git/repositories/upload?name=${encodeURIComponent(file.name)}`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/octet-stream' },
+    body: file,
+  });
+}
+
+/**
+ * List the files of a repository at a branch, tag or commit, or of its working tree
+ */
+export async function getRepositoryFiles(id: string, ref?: string): Promise<GitRepositoryFiles> {
+  const query = ref ? `?ref=${encodeURIComponent(ref)}` : '';
+  return apiRequest<GitRepositoryFiles>(`/api/git/repositories/${id}/files${query}`);
+}
+
+/**
+ * Files changed between two versions of a repository
+ */
+export interface GitRepositoryChanges {
+  base: { ref: string; commit: string };
+  /** `ref` is null when the working tree was compared */
+  head: { ref: string | null; commit: string | null };
+  files: Array<{
+    /** Path in the head version, or in the base version for deleted files */
+    path: string;
+    /** Path in the base version of a renamed or copied file */
+    oldPath?: string;
+    status: 'added' | 'modified' | 'deleted' | 'renamed' | 'copied';
+  }>;
+}
+
+/**
+ * List the files changed between a base ref and a head ref, or the working tree
+ * when there is no head
+ */
+export async function getRepositoryChanges(id: string, base: string, head?: string): Promise<GitRepositoryChanges> {
+  const params = new URLSearchParams({ base });
+  if (head) {
+    params.set('head', head);
+  }
+  return apiRequest<GitRepositoryChanges>(`/api/git/repositories/${id}/changes?${params}`);
+}
+
+/**
+ * Close a repository, deleting it from the server if it was uploaded
+ */
+export async function closeRepository(id: string): Promise<void> {
+  return apiRequest<void>(`/api/git/repositories/${id}`, { method: 'DELETE' });
+}
+
+/**
+ * Handlers for streamed repository files
+ */
+export interface RepositoryFileStreamHandlers {
+  onFile?: (path: string, content: string) => void;
+  /** Binary, too large and unknown files are skipped */
+  onSkipped?: (path: string, reason: string) => void;
+}
+
+/**
+ * Stream the contents of files of a repository as Server-Sent Events
+ * Resolves with the version read once the `done` event arrives
+ */
+export async function streamRepositoryFiles(
+  id: string,
+  data: { ref?: string; paths: string[] },
+  handlers: RepositoryFileStreamHandlers = {},
+  signal?: AbortSignal
+): Promise<{ ref: string | null; commit: string | null; files: number; skipped: number }> {
+  const response = await fetch(`${API_URL}/api/git/repositories/${id}/files/stream`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      Accept: 'text/event-stream',
+      ...getAuthHeaders(),
+    },
+    body: JSON.stringify(data),
+    signal,
+  });
+
+  if (!response.ok || !response.body) {
+    return throwResponseError(response);
+  }
+
+  return readEventStream(response.body, (event, payload) => {
+    switch (event) {
+      case 'file':
+        handlers.onFile?.(payload.path, payload.content);
+        break;
+      case 'skipped':
+        handlers.onSkipped?.(payload.path, payload.reason);
+        break;
+      case 'error':
+        throw new ApiError(payload.error || 'Failed to read files', 502);
+      case 'done':
+        return payload;
+    }
+    return undefined;
+  }, 'File stream ended unexpectedly');
+}
+
 // Health check
 
 /**
@@ -49,6 +49,30 @@ vi.mock('@monaco-editor/react', () => ({
     );
   }),
   Editor: vi.fn(),
+  DiffEditor: vi.fn(({ original, modified, onMount }) => {
+    if (onMount) {
+      const mockSideEditor = (value: string) => ({
+        onDidChangeCursorSelection: vi.fn(),
+        getModel: vi.fn(() => ({
+          getValue: () => value,
+          getLineMaxColumn: vi.fn(() => 100),
+          getValueInRange: vi.fn(() => ''),
+        })),
+      });
+      const mockDiffEditor = {
+        getOriginalEditor: vi.fn(() => mockSideEditor(original)),
+        getModifiedEditor: vi.fn(() => mockSideEditor(modified)),
+      };
+      setTimeout(() => onMount(mockDiffEditor, {}), 0);
+    }
+
+    return createElement(
+      'div',
+      { 'data-testid': 'monaco-diff-editor-mock' },
+      createElement('pre', { 'data-testid': 'diff-original' }, original),
+      createElement('pre', { 'data-testid': 'diff-modified' }, modified)
+    );
+  }),
 }));
 
 // Mock window.matchMedia
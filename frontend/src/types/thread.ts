@@ -4,6 +4,8 @@
 export interface Comment {
   id: string;
   author: 'user' | 'ai';
+  /** Display name of the user who wrote a user comment */
+  authorName?: string;
   text: string;
   timestamp: Date;
   /** For AI comments, includes the diff suggestion if any */
@@ -18,6 +20,43 @@ export interface LineRange {
   endLine: number;
 }
 
+/**
+ * The version of a file in a git repository that a thread was created on
+ */
+export interface ThreadSource {
+  /** Path of a local repository or name of an uploaded one */
+  repository: string;
+  commitSha: string;
+  /** Path of the file in the repository */
+  path: string;
+}
+
+/**
+ * Side of a diff a thread is on: the base (old) or the head (new) revision
+ */
+export type DiffSide = 'old' | 'new';
+
+/**
+ * The code a thread was created on, used to find it again after the file is edited
+ */
+export interface ThreadAnchor {
+  /** The full lines of the thread's range */
+  lines: string[];
+  /** Lines just above the range */
+  contextBefore: string[];
+  /** Lines just below the range */
+  contextAfter: string[];
+}
+
+/**
+ * An AI suggestion that was applied to the file
+ */
+export interface AppliedSuggestion {
+  /** The AI comment whose diff was applied */
+  commentId: string;
+  appliedAt: Date;
+}
+
 /**
  * Represents a review thread tied to a code selection
  */
@@ -37,6 +76,19 @@ export interface Thread {
   resolved: boolean;
   /** The original selected code when thread was created */
   selectedCode: string;
+  /** Repository version of the file, for files imported from git */
+  source?: ThreadSource;
+  /** For threads on a diff, the side `range` refers to */
+  side?: DiffSide;
+  /** For threads on a diff, the revisions compared: commits, refs or labels of uploads */
+  baseRevision?: string;
+  headRevision?: string;
+  /** The suggestion applied to the file, if any */
+  appliedSuggestion?: AppliedSuggestion;
+  /** The code the thread was created on, if its file's content was known */
+  anchor?: ThreadAnchor;
+  /** The code the thread was on could not be found after an edit; `range` is where it last was */
+  outdated?: boolean;
 }
 
 /**
@@ -61,6 +113,7 @@ export type ThreadAction =
   | { type: 'RESOLVE_THREAD'; payload: string }
   | { type: 'UNRESOLVE_THREAD'; payload: string }
   | { type: 'SET_THREADS'; payload: Thread[] }
+  | { type: 'RELOCATE_THREADS'; payload: Array<{ id: string; range: LineRange; outdated: boolean }> }
   | { type: 'SET_LOADING'; payload: boolean }
   | { type: 'SET_ERROR'; payload: string | null }
   | { type: 'CLEAR_THREADS' };
@@ -72,6 +125,12 @@ export interface CreateThreadInput {
   file: string;
   range: LineRange;
   selectedCode: string;
+  source?: ThreadSource;
+  side?: DiffSide;
+  baseRevision?: string;
+  headRevision?: string;
+  /** Content of the file, to anchor the thread so it follows later edits */
+  fileContent?: string;
   initialComment?: string;
 }
 
@@ -0,0 +1,140 @@
+import { describe, it, expect } from 'vitest';
+import { formatUnifiedDiff } from '@ai-code-review/shared';
+import { computeHunks, createDiffFile, pairFiles, filesFromUnifiedDiff, findHunk, formatHunk } from '../diffReview';
+
+const lines = (count: number, prefix = 'line') => Array.from({ length: count }, (_, i) => `${prefix} ${i + 1}`);
+
+describe('diffReview', () => {
+  describe('computeHunks', () => {
+    it('returns no hunks for identical content', () => {
+      expect(computeHunks('a\nb', 'a\nb')).toEqual([]);
+    });
+
+    it('keeps three lines of context around a change', () => {
+      const original = lines(10);
+      const modified = [...original];
+      modified[4] = 'changed';
+
+      const hunks = computeHunks(original.join('\n'), modified.join('\n'));
+
+      expect(formatUnifiedDiff([{ hunks }])).toBe(
+        '@@ -2,7 +2,7 @@\n line 2\n line 3\n line 4\n-line 5\n+changed\n line 6\n line 7\n line 8'
+      );
+    });
+
+    it('splits distant changes into separate hunks and merges close ones', () => {
+      const original = lines(30);
+      const modified = [...original];
+      modified[2] = 'first';
+      modified[6] = 'second';
+      modified[25] = 'third';
+
+      const hunks = computeHunks(original.join('\n'), modified.join('\n'));
+
+      expect(hunks.map(h => [h.oldStart, h.oldLines, h.newStart, h.newLines])).toEqual([
+        [1, 10, 1, 10],
+        [23, 7, 23, 7],
+      ]);
+    });
+
+    it('numbers added and removed lines on their own side', () => {
+      const hunks = computeHunks('a\nb\nc', 'a\nnew\nb');
+
+      expect(hunks).toHaveLength(1);
+      expect(hunks[0].lines).toEqual([
+        { type: 'context', content: 'a', oldLine: 1, newLine: 1 },
+        { type: 'added', content: 'new', newLine: 2 },
+        { type: 'context', content: 'b', oldLine: 2, newLine: 3 },
+        { type: 'removed', content: 'c', oldLine: 3 },
+      ]);
+    });
+
+    it('positions the empty side of an added file before its first line', () => {
+      const [hunk] = computeHunks('', 'a\nb');
+
+      expect(hunk).toMatchObject({ oldStart: 0, oldLines: 0, newStart: 1, newLines: 2 });
+    });
+  });
+
+  describe('pairFiles', () => {
+    it('pairs files by name and keeps changed, added and deleted ones', () => {
+      const files = pairFiles(
+        [
+          { name: 'same.ts', content: 'x' },
+          { name: 'changed.ts', content: 'a' },
+          { name: 'deleted.py', content: 'print(1)' },
+        ],
+        [
+          { name: 'same.ts', content: 'x' },
+          { name: 'changed.ts', content: 'b' },
+          { name: 'added.ts', content: 'c' },
+        ]
+      );
+
+      expect(files.map(f => [f.path, f.original, f.modified])).toEqual([
+        ['added.ts', '', 'c'],
+        ['changed.ts', 'a', 'b'],
+        ['deleted.py', 'print(1)', ''],
+      ]);
+      expect(files[2].language).toBe('python');
+    });
+  });
+
+  describe('filesFromUnifiedDiff', () => {
+    it('rebuilds both sides with lines between hunks left blank', () => {
+      const diff = [
+        '--- a/src/app.ts',
+        '+++ b/src/app.ts',
+        '@@ -2,2 +2,2 @@',
+        ' const a = 1;',
+        '-const b = 2;',
+        '+const b = 3;',
+        '@@ -6,1 +6,2 @@',
+        ' export {};',
+        '+// end',
+      ].join('\n');
+
+      const [file] = filesFromUnifiedDiff(diff);
+
+      expect(file.path).toBe('src/app.ts');
+      expect(file.language).toBe('typescript');
+      expect(file.original.split('\n')).toEqual(['', 'const a = 1;', 'const b = 2;', '', '', 'export {};']);
+      expect(file.modified.split('\n')).toEqual(['', 'const a = 1;', 'const b = 3;', '', '', 'export {};', '// end']);
+      expect(file.hunks).toHaveLength(2);
+    });
+
+    it('reads every file of a multi-file diff', () => {
+      const diff = '--- a/a.ts\n+++ b/a.ts\n@@ -1 +1 @@\n-a\n+b\n--- /dev/null\n+++ b/new.md\n@@ -0,0 +1 @@\n+# New';
+
+      const files = filesFromUnifiedDiff(diff);
+
+      expect(files.map(f => f.path)).toEqual(['a.ts', 'new.md']);
+      expect(files[1].original).toBe('');
+    });
+
+    it('throws for malformed diffs', () => {
+      expect(() => filesFromUnifiedDiff('not a diff')).toThrow(/^Line 1:/);
+    });
+  });
+
+  describe('findHunk', () => {
+    const file = createDiffFile('a.ts', lines(30).join('\n'), [...lines(5), ...lines(25, 'new')].join('\n'));
+
+    it('finds the hunk a range overlaps on either side', () => {
+      expect(findHunk(file.hunks, 'new', { startLine: 7, endLine: 7 })).toBe(file.hunks[0]);
+      expect(findHunk(file.hunks, 'old', { startLine: 20, endLine: 21 })).toBe(file.hunks[0]);
+    });
+
+    it('returns null for a range outside every hunk', () => {
+      expect(findHunk(file.hunks, 'new', { startLine: 1, endLine: 1 })).toBeNull();
+    });
+  });
+
+  describe('formatHunk', () => {
+    it('formats a hunk with file headers', () => {
+      const [hunk] = computeHunks('a', 'b');
+
+      expect(formatHunk('x.ts', hunk)).toBe('--- a/x.ts\n+++ b/x.ts\n@@ -1,1 +1,1 @@\n-a\n+b');
+    });
+  });
+});
@@ -0,0 +1,131 @@
+import { describe, it, expect } from 'vitest';
+import { applyUnifiedDiff, formatDiffConflicts } from '../diffUtils';
+
+const file = [
+  'class Calculator {',
+  '  add(a, b) {',
+  '    return a + b;',
+  '  }',
+  '',
+  '  divide(a, b) {',
+  '    return a / b;',
+  '  }',
+  '}',
+  '',
+].join('\n');
+
+const expectApplied = (result: ReturnType<typeof applyUnifiedDiff>): string => {
+  if (!result.applied) {
+    throw new Error(`Expected the diff to apply: ${formatDiffConflicts(result.conflicts).join('; ')}`);
+  }
+  return result.content;
+};
+
+describe('applyUnifiedDiff', () => {
+  it('applies a hunk at its header position', () => {
+    const result = applyUnifiedDiff(file, [
+      '@@ -6,3 +6,4 @@',
+      '   divide(a, b) {',
+      '+    if (b === 0) throw new Error("Division by zero");',
+      '     return a / b;',
+      '   }',
+    ].join('\n'));
+
+    expect(expectApplied(result)).toBe(file.replace(
+      '  divide(a, b) {\n',
+      '  divide(a, b) {\n    if (b === 0) throw new Error("Division by zero");\n'
+    ));
+    expect(result.applied && result.edits).toHaveLength(1);
+  });
+
+  it('finds hunks whose header is off, as after earlier edits', () => {
+    const shifted = '// Calculator\n\n' + file;
+    const content = expectApplied(applyUnifiedDiff(shifted, '@@ -7,1 +7,1 @@\n-    return a / b;\n+    return b ? a / b : 0;'));
+
+    expect(content).toContain('    return b ? a / b : 0;');
+  });
+
+  it('locates diffs without headers near the given line', () => {
+    const twice = 'let x = 1;\nlet x = 1;\nlet x = 1;';
+    const content = expectApplied(applyUnifiedDiff(twice, '-let x = 1;\n+const x = 1;', { nearLine: 3 }));
+
+    expect(content).toBe('let x = 1;\nlet x = 1;\nconst x = 1;');
+  });
+
+  it('re-indents suggestions whose indentation differs from the file', () => {
+    const content = expectApplied(applyUnifiedDiff(file, '-return a + b;\n+return Number(a) + Number(b);'));
+
+    expect(content).toContain('    return Number(a) + Number(b);\n');
+  });
+
+  it('applies several hunks in one go', () => {
+    const result = applyUnifiedDiff(file, [
+      '@@ -3,1 +3,1 @@',
+      '-    return a + b;',
+      '+    return a + b; // sum',
+      '@@ -7,1 +7,1 @@',
+      '-    return a / b;',
+      '+    return a / b; // quotient',
+    ].join('\n'));
+
+    const content = expectApplied(result);
+    expect(content).toContain('return a + b; // sum');
+    expect(content).toContain('return a / b; // quotient');
+    expect(result.applied && result.edits.map(edit => edit.start)).toEqual([
+      file.indexOf('    return a + b;'),
+      file.indexOf('    return a / b;'),
+    ]);
+  });
+
+  it('inserts lines after the header position and deletes lines', () => {
+    expect(expectApplied(applyUnifiedDiff('a\nb\nc', '@@ -1,0 +2,1 @@\n+inserted'))).toBe('a\ninserted\nb\nc');
+    expect(expectApplied(applyUnifiedDiff('a\nb\nc', '-b'))).toBe('a\nc');
+    expect(expectApplied(applyUnifiedDiff('a\nb\nc', '-c'))).toBe('a\nb');
+    expect(expectApplied(applyUnifiedDiff('a\nb\nc', '-c\n+d'))).toBe('a\nb\nd');
+  });
+
+  it('keeps Windows line endings', () => {
+    expect(expectApplied(applyUnifiedDiff('a\r\nb\r\nc', '-b\n+x\n+y'))).toBe('a\r\nx\r\ny\r\nc');
+  });
+
+  it('reports stale hunks and applies nothing', () => {
+    const result = applyUnifiedDiff(file, [
+      '@@ -3,1 +3,1 @@',
+      '-    return a + b;',
+      '+    return a + b; // sum',
+      '@@ -7,1 +7,1 @@',
+      '-    return a * b;',
+      '+    return a / b;',
+    ].join('\n'));
+
+    expect(result).toEqual({
+      applied: false,
+      conflicts: [
+        {
+          hunk: 2,
+          expected: ['    return a * b;'],
+          startLine: 7,
+          reason: 'The code around line 7 has changed since the suggestion was made',
+        },
+      ],
+    });
+  });
+
+  it('reports overlapping hunks', () => {
+    const result = applyUnifiedDiff('a\nb\nc', '@@ -1,2 +1,2 @@\n-a\n+x\n b\n@@ -2,1 +2,1 @@\n-b\n+y');
+
+    expect(result.applied).toBe(false);
+    expect(!result.applied && formatDiffConflicts(result.conflicts)).toEqual(['Hunk 2: The hunk overlaps hunk 1']);
+  });
+
+  it('reports diffs without changes or without a way to locate them', () => {
+    expect(applyUnifiedDiff(file, 'just prose')).toEqual({
+      applied: false,
+      conflicts: [{ expected: [], reason: 'The suggestion does not contain any changes' }],
+    });
+    expect(applyUnifiedDiff(file, '+added')).toMatchObject({
+      applied: false,
+      conflicts: [{ hunk: 1, reason: 'The hunk has no context lines to locate it in the file' }],
+    });
+  });
+});
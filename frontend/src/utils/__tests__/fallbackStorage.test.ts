@@ -1,11 +1,16 @@
-import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
 import {
   getSyncQueue,
   addToSyncQueue,
+  replaceInSyncQueue,
   removeFromSyncQueue,
   clearSyncQueue,
   mergeThreads,
   getSyncStatus,
+  updateSyncStatus,
+  getOperationThreadId,
+  fromApiThread,
+  createSyncManager,
 } from '../fallbackStorage';
 import { Thread } from '../../types/thread';
 
@@ -33,6 +38,10 @@ vi.stubGlobal('crypto', {
   randomUUID: () => 'mock-uuid-' + Math.random().toString(36).substr(2, 9),
 });
 
+// Mock fetch for the sync manager
+const fetchMock = vi.fn();
+vi.stubGlobal('fetch', fetchMock);
+
 // Mock navigator.onLine
 Object.defineProperty(navigator, 'onLine', {
   value: true,
@@ -104,6 +113,24 @@ describe('fallbackStorage', () => {
     });
   });
 
+  describe('replaceInSyncQueue', () => {
+    it('adds the operation in place of the ones it replaces', () => {
+      addToSyncQueue({ type: 'update', data: { id: 'thread-1', updates: { resolved: true } } });
+      addToSyncQueue({ type: 'delete', data: 'thread-2' });
+      addToSyncQueue({ type: 'update', data: { id: 'thread-1', updates: { resolved: false } } });
+
+      replaceInSyncQueue(
+        { type: 'update', data: { id: 'thread-1', updates: { resolved: true } } },
+        queued => queued.type === 'update'
+      );
+
+      expect(getSyncQueue().map(op => [op.type, op.data])).toEqual([
+        ['delete', 'thread-2'],
+        ['update', { id: 'thread-1', updates: { resolved: true } }],
+      ]);
+    });
+  });
+
   describe('removeFromSyncQueue', () => {
     it('removes operation from queue', () => {
       addToSyncQueue({ type: 'create', data: { id: 'thread-1' } });
@@ -191,6 +218,306 @@ describe('fallbackStorage', () => {
       expect(status.lastSyncAttempt).toBeNull();
       expect(status.lastSuccessfulSync).toBeNull();
     });
+
+    it('reports offline when the backend did not answer', () => {
+      updateSyncStatus({ isOnline: false });
+
+      expect(getSyncStatus().isOnline).toBe(false);
+    });
+  });
+
+  describe('getOperationThreadId', () => {
+    it('returns the thread of every operation type', () => {
+      const thread = createMockThread('thread-1', new Date());
+      const comment = { id: 'c1', author: 'user' as const, text: 'Hi', timestamp: new Date() };
+
+      const applied = { threadId: 'thread-1', commentId: 'c1', appliedAt: '2024-01-01T00:00:00.000Z' };
+
+      expect(['create', 'update', 'delete', 'comment', 'apply'].map((type, i) => getOperationThreadId({
+        id: `op-${i}`,
+        type: type as 'create' | 'update' | 'delete' | 'comment' | 'apply',
+        data: [thread, { id: 'thread-1', updates: {} }, 'thread-1', { threadId: 'thread-1', comment }, applied][i],
+        timestamp: new Date(),
+        retryCount: 0,
+      }))).toEqual(['thread-1', 'thread-1', 'thread-1', 'thread-1', 'thread-1']);
+    });
+  });
+
+  describe('fromApiThread', () => {
+    it('converts API threads to local threads', () => {
+      const thread = fromApiThread({
+        id: 'thread-1',
+        file: 'a.ts',
+        startLine: 2,
+        endLine: 3,
+        selectedCode: 'x',
+        resolved: true,
+        createdAt: '2024-01-01T00:00:00.000Z',
+        updatedAt: '2024-01-02T00:00:00.000Z',
+        comments: [
+          { id: 'c1', threadId: 'thread-1', author: 'ai', text: 'Fix', diff: '-x\n+y', createdAt: '2024-01-02T00:00:00.000Z' },
+          { id: 'c2', threadId: 'thread-1', author: 'user', text: 'Ok', diff: null, createdAt: '2024-01-03T00:00:00.000Z' },
+        ],
+      });
+
+      expect(thread).toEqual({
+        id: 'thread-1',
+        file: 'a.ts',
+        range: { startLine: 2, endLine: 3 },
+        selectedCode: 'x',
+        resolved: true,
+        createdAt: new Date('2024-01-01T00:00:00.000Z'),
+        updatedAt: new Date('2024-01-02T00:00:00.000Z'),
+        comments: [
+          { id: 'c1', author: 'ai', text: 'Fix', diff: '-x\n+y', timestamp: new Date('2024-01-02T00:00:00.000Z') },
+          { id: 'c2', author: 'user', text: 'Ok', timestamp: new Date('2024-01-03T00:00:00.000Z') },
+        ],
+      });
+    });
+
+    it('keeps the display name of comment authors', () => {
+      const thread = fromApiThread({
+        id: 'thread-1',
+        file: 'a.ts',
+        startLine: 1,
+        endLine: 1,
+        selectedCode: 'x',
+        resolved: false,
+        createdAt: '2024-01-01T00:00:00.000Z',
+        updatedAt: '2024-01-01T00:00:00.000Z',
+        comments: [
+          { id: 'c1', threadId: 'thread-1', author: 'user', authorId: 'user-1', authorName: 'Ada', text: 'Hi', createdAt: '2024-01-01T00:00:00.000Z' },
+        ],
+      });
+
+      expect(thread.comments[0].authorName).toBe('Ada');
+    });
+
+    it('keeps the repository version a thread was created on', () => {
+      const source = { repository: 'project.bundle', commitSha: 'a'.repeat(40), path: 'src/a.ts' };
+      const thread = fromApiThread({
+        id: 'thread-1',
+        file: 'src/a.ts',
+        startLine: 1,
+        endLine: 1,
+        selectedCode: 'x',
+        resolved: false,
+        source,
+        createdAt: '2024-01-01T00:00:00.000Z',
+        updatedAt: '2024-01-01T00:00:00.000Z',
+        comments: [],
+      });
+
+      expect(thread.source).toEqual(source);
+    });
+
+    it('keeps the side and revisions of a thread on a diff', () => {
+      const thread = fromApiThread({
+        id: 'thread-1',
+        file: 'src/a.ts',
+        startLine: 1,
+        endLine: 1,
+        selectedCode: 'x',
+        resolved: false,
+        side: 'old',
+        baseRevision: 'main',
+        headRevision: 'feature',
+        createdAt: '2024-01-01T00:00:00.000Z',
+        updatedAt: '2024-01-01T00:00:00.000Z',
+        comments: [],
+      });
+
+      expect(thread).toMatchObject({ side: 'old', baseRevision: 'main', headRevision: 'feature' });
+    });
+
+    it('keeps the anchor of a thread and whether it is outdated', () => {
+      const anchor = { lines: ['x'], contextBefore: [], contextAfter: ['y'] };
+      const base = {
+        id: 'thread-1',
+        file: 'a.ts',
+        startLine: 1,
+        endLine: 1,
+        selectedCode: 'x',
+        resolved: false,
+        createdAt: '2024-01-01T00:00:00.000Z',
+        updatedAt: '2024-01-01T00:00:00.000Z',
+        comments: [],
+      };
+
+      expect(fromApiThread({ ...base, anchor, outdated: true })).toMatchObject({ anchor, outdated: true });
+      const current = fromApiThread({ ...base, anchor: null, outdated: false });
+      expect(current).not.toHaveProperty('anchor');
+      expect(current).not.toHaveProperty('outdated');
+    });
+
+    it('takes the applied suggestion from the comment applied last', () => {
+      const thread = fromApiThread({
+        id: 'thread-1',
+        file: 'a.ts',
+        startLine: 1,
+        endLine: 1,
+        selectedCode: 'x',
+        resolved: false,
+        createdAt: '2024-01-01T00:00:00.000Z',
+        updatedAt: '2024-01-04T00:00:00.000Z',
+        comments: [
+          { id: 'c1', threadId: 'thread-1', author: 'ai', text: 'Fix', diff: '-x\n+y', appliedAt: '2024-01-04T00:00:00.000Z', createdAt: '2024-01-01T00:00:00.000Z' },
+          { id: 'c2', threadId: 'thread-1', author: 'ai', text: 'Or', diff: '-x\n+z', appliedAt: '2024-01-03T00:00:00.000Z', createdAt: '2024-01-02T00:00:00.000Z' },
+          { id: 'c3', threadId: 'thread-1', author: 'ai', text: 'Also', diff: '-x\n+w', appliedAt: null, createdAt: '2024-01-03T00:00:00.000Z' },
+        ],
+      });
+
+      expect(thread.appliedSuggestion).toEqual({ commentId: 'c1', appliedAt: new Date('2024-01-04T00:00:00.000Z') });
+      expect(thread.comments[0]).not.toHaveProperty('appliedAt');
+    });
+  });
+
+  describe('createSyncManager', () => {
+    beforeEach(() => {
+      fetchMock.mockReset();
+      vi.spyOn(console, 'error').mockImplementation(() => {});
+    });
+
+    afterEach(() => {
+      vi.mocked(console.error).mockRestore();
+    });
+
+    it('sends queued operations in order and empties the queue', async () => {
+      fetchMock.mockResolvedValue({ ok: true, status: 200 });
+      addToSyncQueue({ type: 'create', data: createMockThread('thread-1', new Date()) });
+      addToSyncQueue({ type: 'delete', data: 'thread-1' });
+      const onSyncComplete = vi.fn();
+
+      await createSyncManager('http://api', onSyncComplete).forceSync();
+
+      expect(fetchMock.mock.calls.map(([url, init]) => `${init.method} ${url}`)).toEqual([
+        'GET http://api/health',
+        'POST http://api/api/threads',
+        'DELETE http://api/api/threads/thread-1',
+      ]);
+      expect(getSyncQueue()).toEqual([]);
+      expect(onSyncComplete).toHaveBeenCalledWith(true);
+    });
+
+    it('stops at an operation the server failed and keeps it queued', async () => {
+      fetchMock.mockImplementation(async (url: string) => ({ ok: url.endsWith('/health'), status: 500 }));
+      addToSyncQueue({ type: 'update', data: { id: 'thread-1', updates: { resolved: true } } });
+      addToSyncQueue({ type: 'delete', data: 'thread-2' });
+      const manager = createSyncManager('http://api');
+
+      await manager.forceSync();
+
+      expect(fetchMock).toHaveBeenCalledTimes(2);
+      expect(getSyncQueue().map(op => op.retryCount)).toEqual([1, 0]);
+
+      for (let i = 0; i < 10; i++) {
+        await manager.forceSync();
+      }
+
+      expect(getSyncQueue().map(op => op.type)).toEqual(['update', 'delete']);
+      expect(getSyncStatus().rejectedChanges).toBe(0);
+    });
+
+    it('drops an operation the server rejects for good and counts it', async () => {
+      fetchMock.mockImplementation(async (url: string, init: RequestInit) => ({
+        ok: url.endsWith('/health') || init.method === 'DELETE',
+        status: init.method === 'PUT' ? 400 : 200,
+      }));
+      addToSyncQueue({ type: 'update', data: { id: 'thread-1', updates: { resolved: true } } });
+      addToSyncQueue({ type: 'delete', data: 'thread-2' });
+      const manager = createSyncManager('http://api');
+
+      await manager.forceSync();
+
+      expect(getSyncQueue()).toEqual([]);
+      expect(getSyncStatus().rejectedChanges).toBe(1);
+
+      await manager.resume();
+
+      expect(getSyncStatus().rejectedChanges).toBe(0);
+    });
+
+    it('pauses syncing when the session is rejected until resumed', async () => {
+      fetchMock.mockImplementation(async (url: string) => ({ ok: url.endsWith('/health'), status: 401 }));
+      addToSyncQueue({ type: 'delete', data: 'thread-1' });
+      const onSyncComplete = vi.fn();
+      const manager = createSyncManager('http://api', onSyncComplete);
+
+      await manager.forceSync();
+      await manager.forceSync();
+
+      expect(fetchMock).toHaveBeenCalledTimes(2);
+      expect(getSyncQueue()).toHaveLength(1);
+      expect(getSyncStatus().error).toBe('Your session has expired, sign in again to sync your changes');
+      expect(onSyncComplete).toHaveBeenLastCalledWith(false);
+
+      fetchMock.mockResolvedValue({ ok: true, status: 200 });
+      await manager.resume();
+
+      expect(getSyncQueue()).toEqual([]);
+      expect(getSyncStatus().error).toBeNull();
+    });
+
+    it('keeps the queue and status of each user apart', async () => {
+      fetchMock.mockResolvedValue({ ok: true, status: 200 });
+      addToSyncQueue({ type: 'delete', data: 'thread-1' }, 'code-review-sync-queue-user-1');
+      addToSyncQueue({ type: 'delete', data: 'thread-2' }, 'code-review-sync-queue-user-2');
+
+      await createSyncManager('http://api', undefined, 'code-review-sync-queue-user-1').forceSync();
+
+      expect(fetchMock.mock.calls[1][0]).toBe('http://api/api/threads/thread-1');
+      expect(getSyncQueue('code-review-sync-queue-user-1')).toEqual([]);
+      expect(getSyncQueue('code-review-sync-queue-user-2')).toHaveLength(1);
+      expect(getSyncStatus('code-review-sync-queue-user-1').lastSuccessfulSync).not.toBeNull();
+      expect(getSyncStatus('code-review-sync-queue-user-2').lastSuccessfulSync).toBeNull();
+    });
+
+    it('sends where a thread moved as its start and end lines', async () => {
+      fetchMock.mockResolvedValue({ ok: true, status: 200 });
+      addToSyncQueue({
+        type: 'update',
+        data: { id: 'thread-1', updates: { range: { startLine: 4, endLine: 6 }, outdated: true } },
+      });
+
+      await createSyncManager('http://api').forceSync();
+
+      expect(fetchMock.mock.calls[1][0]).toBe('http://api/api/threads/thread-1');
+      expect(JSON.parse(fetchMock.mock.calls[1][1].body)).toEqual({ startLine: 4, endLine: 6, outdated: true });
+    });
+
+    it('sends the stored auth token', async () => {
+      fetchMock.mockResolvedValue({ ok: true, status: 200 });
+      localStorageMock.setItem('code-review-auth-token', 'session-token');
+      addToSyncQueue({ type: 'delete', data: 'thread-1' });
+
+      await createSyncManager('http://api').forceSync();
+
+      expect(fetchMock.mock.calls[1][1].headers).toEqual({ Authorization: 'Bearer session-token' });
+      localStorageMock.removeItem('code-review-auth-token');
+    });
+
+    it('sends each operation to the workspace it was queued in', async () => {
+      fetchMock.mockResolvedValue({ ok: true, status: 200 });
+      localStorageMock.setItem('code-review-workspace', 'workspace-2');
+      addToSyncQueue({ type: 'delete', data: 'thread-1', workspaceId: 'workspace-1' });
+
+      await createSyncManager('http://api').forceSync();
+
+      expect(fetchMock.mock.calls[1][1].headers).toEqual({ 'X-Workspace-Id': 'workspace-1' });
+      localStorageMock.removeItem('code-review-workspace');
+    });
+
+    it('keeps the queue when the backend is unreachable', async () => {
+      fetchMock.mockRejectedValue(new TypeError('Failed to fetch'));
+      addToSyncQueue({ type: 'delete', data: 'thread-1' });
+      const onSyncComplete = vi.fn();
+
+      await createSyncManager('http://api', onSyncComplete).forceSync();
+
+      expect(getSyncQueue()).toHaveLength(1);
+      expect(getSyncStatus().isOnline).toBe(false);
+      expect(onSyncComplete).toHaveBeenCalledWith(false);
+    });
   });
 });
 
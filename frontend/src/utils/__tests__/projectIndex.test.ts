@@ -0,0 +1,143 @@
+import { describe, it, expect } from 'vitest';
+import { buildProjectIndex, collectDefinitions, SourceFile } from '../projectIndex';
+
+const ts = (name: string, content: string): SourceFile => ({ name, content, language: 'typescript' });
+const py = (name: string, content: string): SourceFile => ({ name, content, language: 'python' });
+
+const mathFile = ts('src/utils/math.ts', [
+  "import { round } from './round';",
+  '',
+  '/** Twice the value */',
+  'export function double(x: number): number {',
+  '  return x * 2;',
+  '}',
+  '',
+  'export const HALF = 0.5;',
+  '',
+  'function internal() {',
+  '  return 1;',
+  '}',
+].join('\n'));
+
+const typesFile = ts('src/types.ts', [
+  'export interface Order {',
+  '  id: string;',
+  '  total: number;',
+  '}',
+  '',
+  'export type OrderId = string;',
+].join('\n'));
+
+const barrelFile = ts('src/index.ts', [
+  "export * from './types';",
+  "export { double as twice } from './utils/math';",
+].join('\n'));
+
+const appFile = ts('src/app.ts', [
+  "import Logger, * as math from './utils/math.js';",
+  "import type { Order } from './types';",
+  "import { twice, OrderId } from './index';",
+  "import express from 'express';",
+  '',
+  'function total(order: Order) {',
+  '  return twice(order.total) * math.HALF;',
+  '}',
+].join('\n'));
+
+describe('projectIndex', () => {
+  describe('buildProjectIndex', () => {
+    it('indexes imports, exports and top-level declarations of scripts', () => {
+      const index = buildProjectIndex([mathFile, appFile, barrelFile]);
+
+      expect(index.get('src/utils/math.ts')!.declarations).toEqual([
+        { name: 'double', kind: 'function', startLine: 3, endLine: 6 },
+        { name: 'HALF', kind: 'variable', startLine: 8, endLine: 8 },
+        { name: 'internal', kind: 'function', startLine: 10, endLine: 12 },
+      ]);
+      expect(index.get('src/utils/math.ts')!.exports.map(e => e.name)).toEqual(['double', 'HALF']);
+      expect(index.get('src/app.ts')!.imports).toEqual([
+        { local: 'Logger', imported: 'default', source: './utils/math.js' },
+        { local: 'math', imported: '*', source: './utils/math.js' },
+        { local: 'Order', imported: 'Order', source: './types' },
+        { local: 'twice', imported: 'twice', source: './index' },
+        { local: 'OrderId', imported: 'OrderId', source: './index' },
+        { local: 'express', imported: 'default', source: 'express' },
+      ]);
+      expect(index.get('src/index.ts')!.exports).toEqual([
+        { name: 'twice', local: 'double', source: './utils/math' },
+        { name: '*', local: '*', source: './types' },
+      ]);
+    });
+
+    it('indexes Python definitions with their decorators', () => {
+      const index = buildProjectIndex([py('app/models.py', [
+        'from dataclasses import dataclass',
+        '',
+        '@dataclass',
+        'class Order:',
+        '    total: float',
+        '',
+        'def _private():',
+        '    pass',
+        '',
+        'RATE = 0.2',
+      ].join('\n'))]);
+
+      const file = index.get('app/models.py')!;
+      expect(file.declarations).toEqual([
+        { name: 'Order', kind: 'class', startLine: 3, endLine: 5 },
+        { name: '_private', kind: 'function', startLine: 7, endLine: 8 },
+        { name: 'RATE', kind: 'variable', startLine: 10, endLine: 10 },
+      ]);
+      expect(file.exports.map(e => e.name)).toEqual(['Order', 'RATE']);
+      expect(file.imports).toEqual([{ local: 'dataclass', imported: 'dataclass', source: 'dataclasses' }]);
+    });
+  });
+
+  describe('collectDefinitions', () => {
+    const index = buildProjectIndex([mathFile, typesFile, barrelFile, appFile]);
+
+    it('sends the definitions the selection uses, following re-exports', () => {
+      const snippets = collectDefinitions(index, 'src/app.ts', 'function total(order: Order) {\n  return twice(order.total) * math.HALF;\n}');
+
+      expect(snippets.map(s => [s.name, s.symbol])).toEqual([
+        ['src/types.ts:1-4', 'Order'],
+        ['src/utils/math.ts:3-6', 'double'],
+        ['src/utils/math.ts:8-8', 'HALF'],
+      ]);
+      expect(snippets[1].content).toBe('/** Twice the value */\nexport function double(x: number): number {\n  return x * 2;\n}');
+      expect(snippets[1].language).toBe('typescript');
+    });
+
+    it('leaves out names declared in the file, packages and unused imports', () => {
+      expect(collectDefinitions(index, 'src/app.ts', 'express(); total(order);')).toEqual([]);
+    });
+
+    it('stays within the character budget', () => {
+      const snippets = collectDefinitions(index, 'src/app.ts', 'twice(math.HALF)', 30);
+
+      expect(snippets.map(s => s.symbol)).toEqual(['HALF']);
+    });
+
+    it('matches files opened without their directories', () => {
+      const flat = buildProjectIndex([
+        ts('math.ts', 'export const HALF = 0.5;'),
+        ts('app.ts', "import { HALF } from './utils/math';"),
+      ]);
+
+      expect(collectDefinitions(flat, 'app.ts', 'HALF')).toMatchObject([{ name: 'math.ts:1-1' }]);
+    });
+
+    it('resolves Python modules and package re-exports', () => {
+      const python = buildProjectIndex([
+        py('shop/pricing.py', 'def price(order):\n    return order.total\n'),
+        py('shop/__init__.py', 'from .pricing import price\n'),
+        py('app.py', 'from shop import price\nimport shop.pricing as pricing\n'),
+      ]);
+
+      expect(collectDefinitions(python, 'app.py', 'price(order) + pricing.price(order)')).toMatchObject([
+        { name: 'shop/pricing.py:1-2', symbol: 'price' },
+      ]);
+    });
+  });
+});
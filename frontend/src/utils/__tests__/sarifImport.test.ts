@@ -0,0 +1,67 @@
+import { describe, it, expect } from 'vitest';
+import { issuesFromSarif, matchFileName } from '../sarifImport';
+
+const log = (results: unknown[]) => ({
+  version: '2.1.0',
+  runs: [{ tool: { driver: { name: 'Semgrep' } }, results }],
+});
+
+const result = (uri: string, startLine: number, level = 'warning') => ({
+  ruleId: 'python.lang.security.audit.eval-detected',
+  level,
+  message: { text: 'Detected the use of eval()' },
+  locations: [{ physicalLocation: { artifactLocation: { uri }, region: { startLine } } }],
+});
+
+describe('sarifImport', () => {
+  describe('matchFileName', () => {
+    const names = ['api-handler.py', 'src/api-handler.py', 'src/util.ts'];
+
+    it('prefers an exact path', () => {
+      expect(matchFileName('src/api-handler.py', names)).toBe('src/api-handler.py');
+    });
+
+    it('matches absolute paths on their trailing segments', () => {
+      expect(matchFileName('/home/me/project/src/util.ts', names)).toBe('src/util.ts');
+      expect(matchFileName('/home/me/project/lib/api-handler.py', names)).toBe('api-handler.py');
+    });
+
+    it('does not match part of a file name', () => {
+      expect(matchFileName('src/myutil.ts', names)).toBeNull();
+    });
+  });
+
+  describe('issuesFromSarif', () => {
+    it('turns findings into issue markers on the open files', () => {
+      const imported = issuesFromSarif(
+        log([result('api-handler.py', 17, 'error'), result('other.py', 3)]),
+        ['api-handler.py']
+      );
+
+      expect(imported.unmatched).toBe(1);
+      expect(imported.skipped).toBe(0);
+      expect(imported.issues['api-handler.py']).toEqual([
+        {
+          id: 'sarif-0',
+          startLine: 17,
+          endLine: 17,
+          severity: 'error',
+          category: 'python.lang.security.audit.eval-detected',
+          message: 'Detected the use of eval()',
+          fileName: 'api-handler.py',
+          tool: 'Semgrep',
+        },
+      ]);
+    });
+
+    it('shows notes as info', () => {
+      const imported = issuesFromSarif(log([result('a.py', 1, 'note')]), ['a.py']);
+
+      expect(imported.issues['a.py'][0].severity).toBe('info');
+    });
+
+    it('throws for files that are not SARIF', () => {
+      expect(() => issuesFromSarif({ issues: [] }, ['a.py'])).toThrow('Not a SARIF log');
+    });
+  });
+});
@@ -3,6 +3,7 @@ import {
   loadThreads,
   saveThreads,
   clearStoredThreads,
+  moveStoredThreads,
   getStorageSize,
   isStorageAvailable,
   exportThreadsAsJson,
@@ -129,6 +130,30 @@ describe('storageUtils', () => {
     });
   });
 
+  describe('moveStoredThreads', () => {
+    it('moves threads to the new key once, after the threads already there', () => {
+      const other = { ...mockThread, id: 'thread-2' };
+      saveThreads('old-key', [mockThread, other]);
+      saveThreads('new-key', [other]);
+
+      expect(moveStoredThreads('old-key', 'new-key')).toBe(true);
+
+      expect(loadThreads('new-key').map(thread => thread.id)).toEqual(['thread-2', 'thread-1']);
+      expect(localStorageMock.store['old-key']).toBeUndefined();
+      expect(moveStoredThreads('old-key', 'new-key')).toBe(false);
+    });
+
+    it('keeps the old key when the threads cannot be saved', () => {
+      saveThreads('old-key', [mockThread]);
+      localStorageMock.setItem.mockImplementationOnce(() => {
+        throw new Error('QuotaExceededError');
+      });
+
+      expect(moveStoredThreads('old-key', 'new-key')).toBe(false);
+      expect(localStorageMock.store['old-key']).toBeDefined();
+    });
+  });
+
   describe('getStorageSize', () => {
     it('returns size of stored data', () => {
       saveThreads('test-key', [mockThread]);
@@ -0,0 +1,134 @@
+import { describe, it, expect } from 'vitest';
+import { createAnchor, mapLines, mapRange, findCode, relocateThreads } from '../threadAnchoring';
+import { LineRange } from '../../types/thread';
+
+const source = [
+  'import { db } from "./db";',
+  '',
+  'export function getUser(id: string) {',
+  '  const user = db.users.find(u => u.id === id);',
+  '  return user ?? null;',
+  '}',
+  '',
+  'export function deleteUser(id: string) {',
+  '  db.users.remove(id);',
+  '}',
+].join('\n');
+
+const threadOn = (content: string, range: LineRange, id = 'thread-1') => ({
+  id,
+  range,
+  selectedCode: content.split('\n').slice(range.startLine - 1, range.endLine).join('\n'),
+  anchor: createAnchor(content, range),
+});
+
+describe('threadAnchoring', () => {
+  describe('createAnchor', () => {
+    it('records the lines of the range and up to three lines around it', () => {
+      expect(createAnchor(source, { startLine: 2, endLine: 3 })).toEqual({
+        lines: ['', 'export function getUser(id: string) {'],
+        contextBefore: ['import { db } from "./db";'],
+        contextAfter: [
+          '  const user = db.users.find(u => u.id === id);',
+          '  return user ?? null;',
+          '}',
+        ],
+      });
+    });
+  });
+
+  describe('mapLines', () => {
+    it('maps unchanged lines around inserted and removed lines', () => {
+      expect(mapLines(['a', 'b', 'c', 'd'], ['a', 'x', 'b', 'd'])).toEqual([0, 2, null, 3]);
+    });
+
+    it('maps lines that moved between changes', () => {
+      expect(mapLines(['a', 'b', 'c', 'd', 'e'], ['x', 'b', 'c', 'y', 'e'])).toEqual([null, 1, 2, null, 4]);
+    });
+  });
+
+  describe('mapRange', () => {
+    it('keeps changed lines at the edges of the range', () => {
+      // Line 2 of the range [2, 4] was changed, lines 3-4 moved down by one
+      const map = [0, null, 3, 4, 5];
+
+      expect(mapRange({ startLine: 2, endLine: 4 }, map, 6)).toEqual({ startLine: 3, endLine: 5 });
+    });
+
+    it('returns null when every line of the range changed', () => {
+      expect(mapRange({ startLine: 2, endLine: 3 }, [0, null, null, 1], 2)).toBeNull();
+    });
+  });
+
+  describe('findCode', () => {
+    it('prefers the match with the same surrounding lines', () => {
+      const lines = ['function a() {', '  return 1;', '}', 'function b() {', '  return 1;', '}'];
+      const anchor = { lines: ['  return 1;'], contextBefore: ['function b() {'], contextAfter: ['}'] };
+
+      expect(findCode(lines, anchor.lines, anchor, 1)).toEqual({ startLine: 5, endLine: 5 });
+    });
+
+    it('returns null when nothing is similar enough', () => {
+      expect(findCode(['const a = 1;'], ['throw new Error("x");'], undefined, 1)).toBeNull();
+    });
+  });
+
+  describe('relocateThreads', () => {
+    it('moves threads down when lines are inserted above them', () => {
+      const edited = ['// Users', '// Lookups and removal', source].join('\n');
+
+      expect(relocateThreads([threadOn(source, { startLine: 3, endLine: 6 })], source, edited)).toEqual([
+        { id: 'thread-1', range: { startLine: 5, endLine: 8 }, outdated: false },
+      ]);
+    });
+
+    it('leaves threads above an edit alone', () => {
+      const edited = source.replace('db.users.remove(id);', 'db.users.delete(id);');
+
+      expect(relocateThreads([threadOn(source, { startLine: 3, endLine: 6 })], source, edited)).toEqual([]);
+    });
+
+    it('keeps a thread on its code when the code is edited a little', () => {
+      const edited = ['// Users', source.replace('return user ?? null;', 'return user ?? undefined;')].join('\n');
+
+      expect(relocateThreads([threadOn(source, { startLine: 4, endLine: 5 })], source, edited)).toEqual([
+        { id: 'thread-1', range: { startLine: 5, endLine: 6 }, outdated: false },
+      ]);
+    });
+
+    it('follows code that was moved elsewhere in the file', () => {
+      const lines = source.split('\n');
+      const edited = [...lines.slice(7), '', ...lines.slice(0, 6)].join('\n');
+
+      expect(relocateThreads([threadOn(source, { startLine: 8, endLine: 10 })], source, edited)).toEqual([
+        { id: 'thread-1', range: { startLine: 1, endLine: 3 }, outdated: false },
+      ]);
+    });
+
+    it('marks threads whose code was removed as outdated and keeps their range', () => {
+      const edited = source.split('\n').slice(0, 7).join('\n');
+
+      expect(relocateThreads([threadOn(source, { startLine: 8, endLine: 10 })], source, edited)).toEqual([
+        { id: 'thread-1', range: { startLine: 8, endLine: 10 }, outdated: true },
+      ]);
+    });
+
+    it('finds outdated threads again when their code comes back', () => {
+      const removed = source.split('\n').slice(0, 7).join('\n');
+      const thread = { ...threadOn(source, { startLine: 8, endLine: 10 }), outdated: true };
+
+      expect(relocateThreads([thread], removed, source)).toEqual([
+        { id: 'thread-1', range: { startLine: 8, endLine: 10 }, outdated: false },
+      ]);
+    });
+
+    it('finds threads without an anchor by their selected code', () => {
+      const thread = { id: 'thread-1', range: { startLine: 9, endLine: 9 }, selectedCode: '  db.users.remove(id);' };
+      const edited = source.replace('export function deleteUser', '// Removes a user\nexport function deleteUser');
+
+      expect(relocateThreads([thread], source, edited)).toEqual([
+        { id: 'thread-1', range: { startLine: 10, endLine: 10 }, outdated: false },
+      ]);
+    });
+  });
+});
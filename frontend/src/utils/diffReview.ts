@@ -0,0 +1,195 @@
+import { formatUnifiedDiff, parseUnifiedDiff, type DiffHunk, type DiffLine } from '@ai-code-review/shared';
+import { DiffSide, LineRange } from '../types/thread';
+import { mapLines } from './threadAnchoring';
+import { detectLanguageFromContent, detectLanguageFromFilename } from './selectionUtils';
+
+/** Unchanged lines kept around the changes of a hunk */
+const HUNK_CONTEXT_LINES = 3;
+
+/**
+ * A file compared between two revisions
+ */
+export interface DiffReviewFile {
+  path: string;
+  language: string;
+  /** Base version; empty for added files */
+  original: string;
+  /** Head version; empty for deleted files */
+  modified: string;
+  hunks: DiffHunk[];
+}
+
+/**
+ * Two revisions of a set of files under review
+ */
+export interface DiffReview {
+  /** Commit, ref or label of the base revision */
+  baseRevision: string;
+  /** Commit, ref or label of the head revision */
+  headRevision: string;
+  files: DiffReviewFile[];
+}
+
+const splitLines = (content: string): string[] => (content === '' ? [] : content.split('\n'));
+
+/**
+ * Compute the hunks turning `original` into `modified`, with a few unchanged lines
+ * around each change. Unchanged lines are the ones `mapLines` matches
+ */
+export function computeHunks(original: string, modified: string, contextLines = HUNK_CONTEXT_LINES): DiffHunk[] {
+  const oldLines = splitLines(original);
+  const newLines = splitLines(modified);
+  const map = mapLines(oldLines, newLines);
+
+  // Line-by-line edit script, with 1-based line numbers
+  const script: DiffLine[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < oldLines.length || j < newLines.length) {
+    if (i < oldLines.length && map[i] === j) {
+      script.push({ type: 'context', content: oldLines[i], oldLine: i + 1, newLine: j + 1 });
+      i++;
+      j++;
+    } else if (i < oldLines.length && map[i] === null) {
+      script.push({ type: 'removed', content: oldLines[i], oldLine: i + 1 });
+      i++;
+    } else {
+      script.push({ type: 'added', content: newLines[j], newLine: j + 1 });
+      j++;
+    }
+  }
+
+  // Group changes whose context would touch or overlap
+  const groups: Array<[number, number]> = [];
+  script.forEach((line, index) => {
+    if (line.type === 'context') return;
+    const start = Math.max(0, index - contextLines);
+    const end = Math.min(script.length - 1, index + contextLines);
+    const last = groups[groups.length - 1];
+    if (last && start <= last[1] + 1) {
+      last[1] = end;
+    } else {
+      groups.push([start, end]);
+    }
+  });
+
+  return groups.map(([start, end]) => {
+    const lines = script.slice(start, end + 1);
+    const oldNumbers = lines.filter(line => line.oldLine !== undefined).map(line => line.oldLine!);
+    const newNumbers = lines.filter(line => line.newLine !== undefined).map(line => line.newLine!);
+    // An empty side of a hunk is positioned at the line before it
+    const linesBefore = (side: 'oldLine' | 'newLine') =>
+      script.slice(0, start).filter(line => line[side] !== undefined).length;
+
+    return {
+      oldStart: oldNumbers[0] ?? linesBefore('oldLine'),
+      oldLines: oldNumbers.length,
+      newStart: newNumbers[0] ?? linesBefore('newLine'),
+      newLines: newNumbers.length,
+      lines,
+    };
+  });
+}
+
+/**
+ * Compare two versions of a file
+ */
+export function createDiffFile(path: string, original: string, modified: string): DiffReviewFile {
+  return {
+    path,
+    language: detectLanguageFromFilename(path) || detectLanguageFromContent(modified || original),
+    original,
+    modified,
+    hunks: computeHunks(original, modified),
+  };
+}
+
+/**
+ * Pair the files of two revisions by name, keeping the ones that differ
+ * Files only in the base revision were deleted and files only in the head revision added
+ */
+export function pairFiles(
+  baseFiles: Array<{ name: string; content: string }>,
+  headFiles: Array<{ name: string; content: string }>
+): DiffReviewFile[] {
+  const base = new Map(baseFiles.map(file => [file.name, file.content]));
+  const head = new Map(headFiles.map(file => [file.name, file.content]));
+  const names = [...new Set([...base.keys(), ...head.keys()])].sort();
+
+  return names
+    .filter(name => base.get(name) !== head.get(name))
+    .map(name => createDiffFile(name, base.get(name) ?? '', head.get(name) ?? ''));
+}
+
+/**
+ * Rebuild both sides of each file of a unified diff
+ * Only the lines in hunks are known; the lines between hunks are left blank so
+ * line numbers match the real files
+ * Throws if the text is not a well-formed unified diff
+ */
+export function filesFromUnifiedDiff(text: string): DiffReviewFile[] {
+  const parsed = parseUnifiedDiff(text);
+  if (parsed.errors.length > 0) {
+    const [error] = parsed.errors;
+    throw new Error(`Line ${error.line}: ${error.message}`);
+  }
+
+  return parsed.files
+    .filter(file => file.hunks.length > 0)
+    .map((file, index) => {
+      const oldLines: string[] = [];
+      const newLines: string[] = [];
+      const place = (lines: string[], lineNumber: number, content: string) => {
+        while (lines.length < lineNumber - 1) lines.push('');
+        lines.push(content);
+      };
+
+      for (const hunk of file.hunks) {
+        for (const line of hunk.lines) {
+          if (line.oldLine !== undefined) place(oldLines, line.oldLine, line.content);
+          if (line.newLine !== undefined) place(newLines, line.newLine, line.content);
+        }
+      }
+
+      const path = file.newPath ?? file.oldPath ?? `file-${index + 1}`;
+      const original = oldLines.join('\n');
+      const modified = newLines.join('\n');
+      return {
+        path,
+        language: detectLanguageFromFilename(path) || detectLanguageFromContent(modified || original),
+        original,
+        modified,
+        hunks: file.hunks,
+      };
+    });
+}
+
+/**
+ * Find the hunk whose lines on `side` overlap a range, the nearest one first
+ */
+export function findHunk(hunks: DiffHunk[], side: DiffSide, range: LineRange): DiffHunk | null {
+  let best: DiffHunk | null = null;
+  let bestDistance = Infinity;
+
+  for (const hunk of hunks) {
+    const start = side === 'old' ? hunk.oldStart : hunk.newStart;
+    const count = side === 'old' ? hunk.oldLines : hunk.newLines;
+    const end = start + Math.max(count, 1) - 1;
+    if (range.startLine <= end && range.endLine >= start) {
+      const distance = Math.abs(range.startLine - start);
+      if (distance < bestDistance) {
+        best = hunk;
+        bestDistance = distance;
+      }
+    }
+  }
+
+  return best;
+}
+
+/**
+ * Format one hunk of a file as a unified diff, with file headers
+ */
+export function formatHunk(path: string, hunk: DiffHunk): string {
+  return formatUnifiedDiff([{ oldPath: path, newPath: path, hunks: [hunk] }]);
+}
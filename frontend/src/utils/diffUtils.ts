@@ -0,0 +1,209 @@
+import { getHunkOldLines, locateLines, readLooseDiff, type LooseHunk } from '@ai-code-review/shared';
+
+/**
+ * A text replacement by character offsets in the original content
+ */
+export interface TextEdit {
+  start: number;
+  end: number;
+  text: string;
+}
+
+/**
+ * A hunk that could not be applied
+ */
+export interface DiffConflict {
+  /** 1-based index of the hunk, absent when the whole diff could not be applied */
+  hunk?: number;
+  /** Lines the hunk expected to find (context and removed lines) */
+  expected: string[];
+  /** Where the hunk expected them (1-based), if known */
+  startLine?: number;
+  reason: string;
+}
+
+/**
+ * Result of applying a diff to some content
+ */
+export type ApplyDiffResult =
+  | {
+      applied: true;
+      /** Content with the diff applied */
+      content: string;
+      /** Edits that turn the original content into `content`, in document order */
+      edits: TextEdit[];
+    }
+  | { applied: false; conflicts: DiffConflict[] };
+
+/**
+ * Options for applying a diff
+ */
+export interface ApplyDiffOptions {
+  /** Line to search from when a hunk has no @@ header, such as the thread's first line */
+  nearLine?: number;
+}
+
+const getIndent = (line: string) => line.match(/^\s*/)?.[0] ?? '';
+
+/**
+ * Lines that replace a hunk matched at `index`: context lines keep the file's text,
+ * and added lines are re-indented when the diff's indentation differs from the file's
+ * (judged by the first non-blank line the hunk matched)
+ */
+function buildNewLines(hunk: LooseHunk, fileLines: string[], index: number): string[] {
+  const oldLines = getHunkOldLines(hunk);
+  const matched = oldLines.findIndex(line => line.trim() !== '');
+  const diffIndent = matched === -1 ? '' : getIndent(oldLines[matched]);
+  const fileIndent = matched === -1 ? '' : getIndent(fileLines[index + matched]);
+  const result: string[] = [];
+  let oldIndex = index;
+
+  for (const line of hunk.lines) {
+    if (line.type === 'context') {
+      result.push(fileLines[oldIndex++]);
+    } else if (line.type === 'removed') {
+      oldIndex++;
+    } else if (diffIndent !== fileIndent && line.content.startsWith(diffIndent)) {
+      result.push(fileIndent + line.content.slice(diffIndent.length));
+    } else {
+      result.push(line.content);
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Apply a unified diff to content
+ * The diff is read leniently (see `readLooseDiff`), as AI suggestions often lack @@ headers.
+ * Every hunk's context and removed lines must be found in the content; if any hunk
+ * is stale or two hunks overlap, nothing is applied and the conflicts are returned
+ */
+export function applyUnifiedDiff(
+  content: string,
+  diff: string,
+  options: ApplyDiffOptions = {}
+): ApplyDiffResult {
+  const hunks = readLooseDiff(diff).flatMap(file => file.hunks);
+  if (hunks.length === 0) {
+    return {
+      applied: false,
+      conflicts: [{ expected: [], reason: 'The suggestion does not contain any changes' }],
+    };
+  }
+
+  const eol = content.includes('\r\n') ? '\r\n' : '\n';
+  const rawLines = content.split('\n');
+  const fileLines = rawLines.map(line => line.replace(/\r$/, ''));
+  const offsets: number[] = [];
+  rawLines.reduce((offset, line) => {
+    offsets.push(offset);
+    return offset + line.length + 1;
+  }, 0);
+
+  const conflicts: DiffConflict[] = [];
+  const located: Array<{ hunk: LooseHunk; number: number; index: number; count: number; newLines: string[] }> = [];
+
+  hunks.forEach((hunk, i) => {
+    const expected = getHunkOldLines(hunk);
+    const target = (hunk.oldStart ?? options.nearLine ?? 1) - 1;
+
+    if (expected.length === 0) {
+      // Pure insertion: only a header can say where it goes, after line `oldStart`
+      if (hunk.oldStart === undefined || hunk.oldStart > fileLines.length) {
+        conflicts.push({
+          hunk: i + 1,
+          expected,
+          startLine: hunk.oldStart,
+          reason: 'The hunk has no context lines to locate it in the file',
+        });
+      } else {
+        located.push({
+          hunk,
+          number: i + 1,
+          index: hunk.oldStart,
+          count: 0,
+          newLines: hunk.lines.map(line => line.content),
+        });
+      }
+      return;
+    }
+
+    const index = locateLines(fileLines, expected, target);
+    if (index === null) {
+      conflicts.push({
+        hunk: i + 1,
+        expected,
+        startLine: hunk.oldStart,
+        reason: hunk.oldStart !== undefined
+          ? `The code around line ${hunk.oldStart} has changed since the suggestion was made`
+          : 'The code the suggestion changes was not found in the file',
+      });
+      return;
+    }
+
+    located.push({
+      hunk,
+      number: i + 1,
+      index,
+      count: expected.length,
+      newLines: buildNewLines(hunk, fileLines, index),
+    });
+  });
+
+  located.sort((a, b) => a.index - b.index);
+  for (let i = 1; i < located.length; i++) {
+    const previous = located[i - 1];
+    if (located[i].index < previous.index + previous.count) {
+      conflicts.push({
+        hunk: located[i].number,
+        expected: getHunkOldLines(located[i].hunk),
+        startLine: located[i].index + 1,
+        reason: `The hunk overlaps hunk ${previous.number}`,
+      });
+    }
+  }
+
+  if (conflicts.length > 0) {
+    return { applied: false, conflicts: conflicts.sort((a, b) => (a.hunk ?? 0) - (b.hunk ?? 0)) };
+  }
+
+  const edits = located.map(({ index, count, newLines }): TextEdit => {
+    const throughEnd = index + count >= rawLines.length;
+
+    if (!throughEnd) {
+      return {
+        start: offsets[index],
+        end: offsets[index + count],
+        text: newLines.map(line => line + eol).join(''),
+      };
+    }
+
+    if (index >= rawLines.length) {
+      // Insertion after the last line
+      return { start: content.length, end: content.length, text: newLines.map(line => eol + line).join('') };
+    }
+
+    // Replacing the last lines, which have no newline after them
+    if (newLines.length === 0 && index > 0) {
+      return { start: offsets[index] - eol.length, end: content.length, text: '' };
+    }
+    return { start: offsets[index], end: content.length, text: newLines.join(eol) };
+  });
+
+  let result = content;
+  for (const edit of [...edits].reverse()) {
+    result = result.slice(0, edit.start) + edit.text + result.slice(edit.end);
+  }
+
+  return { applied: true, content: result, edits };
+}
+
+/**
+ * Describe conflicts for display
+ */
+export function formatDiffConflicts(conflicts: DiffConflict[]): string[] {
+  return conflicts.map(conflict =>
+    conflict.hunk !== undefined ? `Hunk ${conflict.hunk}: ${conflict.reason}` : conflict.reason
+  );
+}
@@ -1,9 +1,18 @@
-import { Thread } from '../types/thread';
+import { Comment, Thread } from '../types/thread';
+import {
+  getAuthHeaders,
+  getWorkspaceHeaders,
+  type Thread as ApiThread,
+  type Comment as ApiComment,
+} from '../services/apiService';
 import { loadThreads, saveThreads, isStorageAvailable } from './storageUtils';
 
 const FALLBACK_KEY = 'code-review-threads-fallback';
 const SYNC_QUEUE_KEY = 'code-review-sync-queue';
 
+/** Shown while syncing is paused because the backend no longer accepts the session */
+const SESSION_EXPIRED_ERROR = 'Your session has expired, sign in again to sync your changes';
+
 /**
  * Sync status for threads
  */
@@ -12,19 +21,78 @@ export interface SyncStatus {
   lastSuccessfulSync: Date | null;
   pendingChanges: number;
   isOnline: boolean;
+  /** Why syncing is paused, such as an expired session; cleared once a sync gets through */
+  error: string | null;
+  /** Changes the backend rejected for good and that were discarded, until the user syncs again */
+  rejectedChanges: number;
+}
+
+/**
+ * A queued operation the backend answered with an error status
+ */
+class SyncRequestError extends Error {
+  constructor(
+    message: string,
+    public status: number
+  ) {
+    super(message);
+    this.name = 'SyncRequestError';
+  }
+}
+
+/**
+ * Whether the backend will never accept an operation it failed with this status,
+ * unlike server errors, timeouts and rate limits that are worth retrying
+ */
+function isPermanentFailure(status: number): boolean {
+  return status >= 400 && status < 500 && status !== 401 && status !== 408 && status !== 429;
+}
+
+/**
+ * Key the sync status is stored under, next to the queue it describes
+ */
+function syncStatusKey(queueKey: string): string {
+  return queueKey.replace('-sync-queue', '-sync-status');
 }
 
 /**
  * Queued operation for syncing
+ * `comment` adds a comment to an existing thread, `apply` marks the suggestion of a comment as applied
  */
-interface QueuedOperation {
+export interface QueuedOperation {
   id: string;
-  type: 'create' | 'update' | 'delete';
-  data: Thread | { id: string; updates: Partial<Thread> } | string;
+  type: 'create' | 'update' | 'delete' | 'comment' | 'apply';
+  data:
+    | Thread
+    | { id: string; updates: Partial<Thread> }
+    | string
+    | { threadId: string; comment: Comment }
+    | AppliedSuggestionChange;
+  /** Workspace the change was made in, sent even if another one is selected by the time it syncs */
+  workspaceId?: string;
   timestamp: Date;
   retryCount: number;
 }
 
+/**
+ * Data of an `apply` operation; the date is kept as an ISO string in the queue
+ */
+export interface AppliedSuggestionChange {
+  threadId: string;
+  commentId: string;
+  appliedAt: string;
+}
+
+/**
+ * ID of the thread a queued operation changes
+ */
+export function getOperationThreadId(operation: QueuedOperation): string {
+  if (typeof operation.data === 'string') {
+    return operation.data;
+  }
+  return 'threadId' in operation.data ? operation.data.threadId : operation.data.id;
+}
+
 /**
  * Check if the backend API is available
  */
@@ -42,14 +110,15 @@ export async function checkBackendAvailability(apiUrl: string): Promise<boolean>
 
 /**
  * Get the sync queue from localStorage
+ * Each user has their own queue key, so changes wait for the user who made them
  */
-export function getSyncQueue(): QueuedOperation[] {
+export function getSyncQueue(queueKey: string = SYNC_QUEUE_KEY): QueuedOperation[] {
   if (!isStorageAvailable()) {
     return [];
   }
 
   try {
-    const data = localStorage.getItem(SYNC_QUEUE_KEY);
+    const data = localStorage.getItem(queueKey);
     if (!data) {
       return [];
     }
@@ -65,12 +134,15 @@ export function getSyncQueue(): QueuedOperation[] {
 /**
  * Add an operation to the sync queue
  */
-export function addToSyncQueue(operation: Omit<QueuedOperation, 'id' | 'timestamp' | 'retryCount'>): void {
+export function addToSyncQueue(
+  operation: Omit<QueuedOperation, 'id' | 'timestamp' | 'retryCount'>,
+  queueKey: string = SYNC_QUEUE_KEY
+): void {
   if (!isStorageAvailable()) {
     return;
   }
 
-  const queue = getSyncQueue();
+  const queue = getSyncQueue(queueKey);
   const newOp: QueuedOperation = {
     ...operation,
     id: crypto.randomUUID(),
@@ -79,30 +151,48 @@ export function addToSyncQueue(operation: Omit<QueuedOperation, 'id' | 'timestam
   };
 
   queue.push(newOp);
-  localStorage.setItem(SYNC_QUEUE_KEY, JSON.stringify(queue));
+  localStorage.setItem(queueKey, JSON.stringify(queue));
+}
+
+/**
+ * Add an operation to the sync queue in place of the queued operations it makes obsolete,
+ * such as earlier moves of a thread that has moved again
+ */
+export function replaceInSyncQueue(
+  operation: Omit<QueuedOperation, 'id' | 'timestamp' | 'retryCount'>,
+  isReplaced: (queued: QueuedOperation) => boolean,
+  queueKey: string = SYNC_QUEUE_KEY
+): void {
+  if (!isStorageAvailable()) {
+    return;
+  }
+
+  const queue = getSyncQueue(queueKey).filter(queued => !isReplaced(queued));
+  localStorage.setItem(queueKey, JSON.stringify(queue));
+  addToSyncQueue(operation, queueKey);
 }
 
 /**
  * Remove an operation from the sync queue
  */
-export function removeFromSyncQueue(operationId: string): void {
+export function removeFromSyncQueue(operationId: string, queueKey: string = SYNC_QUEUE_KEY): void {
   if (!isStorageAvailable()) {
     return;
   }
 
-  const queue = getSyncQueue();
+  const queue = getSyncQueue(queueKey);
   const filtered = queue.filter(op => op.id !== operationId);
-  localStorage.setItem(SYNC_QUEUE_KEY, JSON.stringify(filtered));
+  localStorage.setItem(queueKey, JSON.stringify(filtered));
 }
 
 /**
  * Clear the sync queue
  */
-export function clearSyncQueue(): void {
+export function clearSyncQueue(queueKey: string = SYNC_QUEUE_KEY): void {
   if (!isStorageAvailable()) {
     return;
   }
-  localStorage.removeItem(SYNC_QUEUE_KEY);
+  localStorage.removeItem(queueKey);
 }
 
 /**
@@ -154,21 +244,71 @@ export function mergeThreads(local: Thread[], remote: Thread[]): Thread[] {
   );
 }
 
+/**
+ * Convert a comment from the API into a local comment
+ */
+export function fromApiComment(comment: ApiComment): Comment {
+  return {
+    id: comment.id,
+    author: comment.author,
+    ...(comment.authorName && { authorName: comment.authorName }),
+    text: comment.text,
+    timestamp: new Date(comment.createdAt),
+    ...(comment.diff && { diff: comment.diff }),
+  };
+}
+
+/**
+ * Convert a thread from the API into a local thread
+ */
+export function fromApiThread(thread: ApiThread): Thread {
+  // The latest suggestion applied is the one the file has
+  const applied = thread.comments
+    .filter(comment => comment.appliedAt)
+    .sort((a, b) => new Date(b.appliedAt!).getTime() - new Date(a.appliedAt!).getTime())[0];
+
+  return {
+    id: thread.id,
+    file: thread.file,
+    range: { startLine: thread.startLine, endLine: thread.endLine },
+    selectedCode: thread.selectedCode,
+    ...(thread.source && { source: thread.source }),
+    ...(thread.side && {
+      side: thread.side,
+      baseRevision: thread.baseRevision ?? undefined,
+      headRevision: thread.headRevision ?? undefined,
+    }),
+    ...(thread.anchor && { anchor: thread.anchor }),
+    ...(thread.outdated && { outdated: true }),
+    resolved: thread.resolved,
+    createdAt: new Date(thread.createdAt),
+    updatedAt: new Date(thread.updatedAt),
+    comments: thread.comments.map(fromApiComment),
+    ...(applied && { appliedSuggestion: { commentId: applied.id, appliedAt: new Date(applied.appliedAt!) } }),
+  };
+}
+
 /**
  * Get sync status
  */
-export function getSyncStatus(): SyncStatus {
-  const queue = getSyncQueue();
+export function getSyncStatus(queueKey: string = SYNC_QUEUE_KEY): SyncStatus {
+  const queue = getSyncQueue(queueKey);
   
   let lastSyncAttempt: Date | null = null;
   let lastSuccessfulSync: Date | null = null;
+  let backendReachable = true;
+  let error: string | null = null;
+  let rejectedChanges = 0;
 
   try {
-    const statusData = localStorage.getItem('code-review-sync-status');
+    const statusData = localStorage.getItem(syncStatusKey(queueKey));
     if (statusData) {
       const status = JSON.parse(statusData);
       lastSyncAttempt = status.lastSyncAttempt ? new Date(status.lastSyncAttempt) : null;
       lastSuccessfulSync = status.lastSuccessfulSync ? new Date(status.lastSuccessfulSync) : null;
+      backendReachable = status.isOnline ?? true;
+      error = status.error ?? null;
+      rejectedChanges = status.rejectedChanges ?? 0;
     }
   } catch {
     // Ignore parse errors
@@ -178,22 +318,25 @@ export function getSyncStatus(): SyncStatus {
     lastSyncAttempt,
     lastSuccessfulSync,
     pendingChanges: queue.length,
-    isOnline: navigator.onLine,
+    // Online means the browser is online and the backend answered the last attempt
+    isOnline: navigator.onLine && backendReachable,
+    error,
+    rejectedChanges,
   };
 }
 
 /**
  * Update sync status
  */
-export function updateSyncStatus(updates: Partial<SyncStatus>): void {
+export function updateSyncStatus(updates: Partial<SyncStatus>, queueKey: string = SYNC_QUEUE_KEY): void {
   if (!isStorageAvailable()) {
     return;
   }
 
   try {
-    const current = getSyncStatus();
+    const current = getSyncStatus(queueKey);
     const updated = { ...current, ...updates };
-    localStorage.setItem('code-review-sync-status', JSON.stringify(updated));
+    localStorage.setItem(syncStatusKey(queueKey), JSON.stringify(updated));
   } catch {
     // Ignore storage errors
   }
@@ -201,39 +344,87 @@ export function updateSyncStatus(updates: Partial<SyncStatus>): void {
 
 /**
  * Create a sync manager that handles background syncing
+ * Operations are sent in the order they were queued; syncing stops at the first failure
+ * so later operations (such as a comment on a thread not yet created) wait their turn.
+ * Failed operations stay queued, except those the backend rejects for good, which are
+ * dropped and counted in the status. A 401 pauses syncing until `resume` is called
  */
-export function createSyncManager(apiUrl: string, onSyncComplete?: (success: boolean) => void) {
+export function createSyncManager(
+  apiUrl: string,
+  onSyncComplete?: (success: boolean) => void,
+  queueKey: string = SYNC_QUEUE_KEY
+) {
   let syncInterval: ReturnType<typeof setInterval> | null = null;
+  let running: Promise<void> | null = null;
+  let rerun = false;
+  let paused = false;
+
+  const syncOnce = async () => {
+    if (paused) {
+      onSyncComplete?.(false);
+      return;
+    }
 
-  const sync = async () => {
     const isAvailable = await checkBackendAvailability(apiUrl);
-    updateSyncStatus({ lastSyncAttempt: new Date(), isOnline: isAvailable });
+    updateSyncStatus({ lastSyncAttempt: new Date(), isOnline: isAvailable }, queueKey);
 
     if (!isAvailable) {
       onSyncComplete?.(false);
       return;
     }
 
-    const queue = getSyncQueue();
-    
-    for (const operation of queue) {
+    for (const operation of getSyncQueue(queueKey)) {
       try {
         await processOperation(apiUrl, operation);
-        removeFromSyncQueue(operation.id);
+        removeFromSyncQueue(operation.id, queueKey);
       } catch (error) {
+        const status = error instanceof SyncRequestError ? error.status : null;
+
+        if (status === 401) {
+          paused = true;
+          updateSyncStatus({ error: SESSION_EXPIRED_ERROR }, queueKey);
+          onSyncComplete?.(false);
+          return;
+        }
+
+        if (status !== null && isPermanentFailure(status)) {
+          console.error('Discarding operation rejected by the server:', operation, error);
+          removeFromSyncQueue(operation.id, queueKey);
+          updateSyncStatus({ rejectedChanges: getSyncStatus(queueKey).rejectedChanges + 1 }, queueKey);
+          continue;
+        }
+
         console.error('Failed to sync operation:', operation, error);
-        // Increment retry count
-        const updatedQueue = getSyncQueue().map(op =>
+        const updatedQueue = getSyncQueue(queueKey).map(op =>
           op.id === operation.id ? { ...op, retryCount: op.retryCount + 1 } : op
         );
-        localStorage.setItem(SYNC_QUEUE_KEY, JSON.stringify(updatedQueue));
+        localStorage.setItem(queueKey, JSON.stringify(updatedQueue));
+        onSyncComplete?.(false);
+        return;
       }
     }
 
-    updateSyncStatus({ lastSuccessfulSync: new Date() });
+    updateSyncStatus({ lastSuccessfulSync: new Date(), error: null }, queueKey);
     onSyncComplete?.(true);
   };
 
+  // Syncs requested while one is running run once it finishes
+  const sync = (): Promise<void> => {
+    if (running) {
+      rerun = true;
+      return running;
+    }
+    running = (async () => {
+      do {
+        rerun = false;
+        await syncOnce();
+      } while (rerun);
+    })().finally(() => {
+      running = null;
+    });
+    return running;
+  };
+
   const start = (intervalMs: number = 30000) => {
     if (syncInterval) {
       clearInterval(syncInterval);
@@ -252,7 +443,14 @@ export function createSyncManager(apiUrl: string, onSyncComplete?: (success: boo
 
   const forceSync = () => sync();
 
-  return { start, stop, forceSync, getSyncStatus };
+  // Syncing again after a 401 is up to the user, so one expired session is not retried over and over
+  const resume = () => {
+    paused = false;
+    updateSyncStatus({ error: null, rejectedChanges: 0 }, queueKey);
+    return sync();
+  };
+
+  return { start, stop, forceSync, resume, getSyncStatus: () => getSyncStatus(queueKey) };
 }
 
 /**
@@ -260,34 +458,71 @@ export function createSyncManager(apiUrl: string, onSyncComplete?: (success: boo
  */
 async function processOperation(apiUrl: string, operation: QueuedOperation): Promise<void> {
   const url = `${apiUrl}/api/threads`;
+  const headers = { ...getAuthHeaders(), ...getWorkspaceHeaders(operation.workspaceId) };
 
   switch (operation.type) {
     case 'create': {
       const thread = operation.data as Thread;
       const response = await fetch(url, {
         method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
+        headers: { 'Content-Type': 'application/json', ...headers },
         body: JSON.stringify({
+          id: thread.id,
           file: thread.file,
           startLine: thread.range.startLine,
           endLine: thread.range.endLine,
           selectedCode: thread.selectedCode,
+          source: thread.source,
+          side: thread.side,
+          baseRevision: thread.baseRevision,
+          headRevision: thread.headRevision,
+          anchor: thread.anchor,
         }),
       });
       if (!response.ok) {
-        throw new Error(`Failed to create thread: ${response.status}`);
+        throw new SyncRequestError(`Failed to create thread: ${response.status}`, response.status);
       }
       break;
     }
     case 'update': {
       const { id, updates } = operation.data as { id: string; updates: Partial<Thread> };
+      const { range, ...rest } = updates;
       const response = await fetch(`${url}/${id}`, {
         method: 'PUT',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify(updates),
+        headers: { 'Content-Type': 'application/json', ...headers },
+        body: JSON.stringify({ ...rest, ...(range && { startLine: range.startLine, endLine: range.endLine }) }),
+      });
+      if (!response.ok) {
+        throw new SyncRequestError(`Failed to update thread: ${response.status}`, response.status);
+      }
+      break;
+    }
+    case 'comment': {
+      const { threadId, comment } = operation.data as { threadId: string; comment: Comment };
+      const response = await fetch(`${url}/${threadId}/comments`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', ...headers },
+        body: JSON.stringify({
+          id: comment.id,
+          author: comment.author,
+          text: comment.text,
+          diff: comment.diff,
+        }),
+      });
+      if (!response.ok) {
+        throw new SyncRequestError(`Failed to add comment: ${response.status}`, response.status);
+      }
+      break;
+    }
+    case 'apply': {
+      const { threadId, commentId, appliedAt } = operation.data as AppliedSuggestionChange;
+      const response = await fetch(`${url}/${threadId}/comments/${commentId}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json', ...headers },
+        body: JSON.stringify({ appliedAt }),
       });
       if (!response.ok) {
-        throw new Error(`Failed to update thread: ${response.status}`);
+        throw new SyncRequestError(`Failed to mark suggestion applied: ${response.status}`, response.status);
       }
       break;
     }
@@ -295,9 +530,10 @@ async function processOperation(apiUrl: string, operation: QueuedOperation): Pro
       const id = operation.data as string;
       const response = await fetch(`${url}/${id}`, {
         method: 'DELETE',
+        headers,
       });
       if (!response.ok && response.status !== 404) {
-        throw new Error(`Failed to delete thread: ${response.status}`);
+        throw new SyncRequestError(`Failed to delete thread: ${response.status}`, response.status);
       }
       break;
     }
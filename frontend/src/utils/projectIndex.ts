@@ -0,0 +1,386 @@
+import { matchFileName } from './sarifImport';
+
+/** Characters of definitions sent along with a review by default */
+export const DEFINITIONS_MAX_CHARACTERS = 12000;
+
+/** Re-exports followed to find where a symbol is declared */
+const MAX_REEXPORT_DEPTH = 5;
+
+/** Extensions tried, in order, for an import path without one */
+const SCRIPT_EXTENSIONS = ['.ts', '.tsx', '.js', '.jsx', '.mjs', '.cjs'];
+
+/**
+ * A file open in the editor
+ */
+export interface SourceFile {
+  name: string;
+  content: string;
+  language: string;
+}
+
+export type DeclarationKind = 'function' | 'class' | 'interface' | 'type' | 'enum' | 'variable';
+
+/**
+ * A top-level declaration of a file
+ */
+export interface IndexedDeclaration {
+  name: string;
+  kind: DeclarationKind;
+  startLine: number;
+  endLine: number;
+}
+
+/**
+ * A name a file imports
+ */
+export interface IndexedImport {
+  /** Name the file uses */
+  local: string;
+  /** Name in the imported module: `default`, `*` for the whole module, or an exported name */
+  imported: string;
+  /** Module as written in the import */
+  source: string;
+}
+
+/**
+ * A name a file exports
+ */
+export interface IndexedExport {
+  /** Name other files import, or `*` for `export * from` */
+  name: string;
+  /** Declaration or import the name stands for, or the name in `source` for a re-export */
+  local: string;
+  /** Module of a re-export */
+  source?: string;
+}
+
+/**
+ * Imports, exports and top-level declarations of a file
+ */
+export interface IndexedFile extends SourceFile {
+  imports: IndexedImport[];
+  exports: IndexedExport[];
+  declarations: IndexedDeclaration[];
+}
+
+/**
+ * The open files, by name
+ */
+export type ProjectIndex = Map<string, IndexedFile>;
+
+/**
+ * Definition of a symbol from another file, sent as review context
+ */
+export interface ContextSnippet {
+  /** Name of the snippet in the prompt: the file and its lines */
+  name: string;
+  file: string;
+  symbol: string;
+  startLine: number;
+  endLine: number;
+  content: string;
+  language: string;
+}
+
+const SCRIPT_DECLARATION =
+  /^(export\s+)?(default\s+)?(?:declare\s+)?(?:abstract\s+)?(?:async\s+)?(function\*?|class|interface|type|const\s+enum|enum|const|let|var)\s+([A-Za-z_$][\w$]*)/;
+
+const PYTHON_DECLARATION = /^(?:async\s+)?(def|class)\s+([A-Za-z_]\w*)|^([A-Za-z_]\w*)\s*(?::[^=]+)?=(?!=)/;
+
+const KINDS: Record<string, DeclarationKind> = {
+  function: 'function',
+  'function*': 'function',
+  def: 'function',
+  class: 'class',
+  interface: 'interface',
+  type: 'type',
+  enum: 'enum',
+  'const enum': 'enum',
+};
+
+/**
+ * Whether a line starts a new top-level statement: it is not indented and does not
+ * close a bracket opened above
+ */
+function isTopLevelStart(line: string): boolean {
+  return line.length > 0 && !/^\s/.test(line) && !/^[}\])]/.test(line);
+}
+
+/**
+ * Last line (1-based) of the top-level statement starting on `index` (0-based),
+ * without trailing blank lines
+ */
+function findStatementEnd(lines: string[], index: number): number {
+  let end = index + 1;
+  while (end < lines.length && !isTopLevelStart(lines[end])) {
+    end++;
+  }
+  while (end - 1 > index && lines[end - 1].trim() === '') {
+    end--;
+  }
+  return end;
+}
+
+function parseNames(list: string): Array<{ imported: string; local: string }> {
+  return list
+    .split(',')
+    .map(item => item.replace(/^\s*type\s+/, '').trim())
+    .filter(Boolean)
+    .map(item => {
+      const [imported, local] = item.split(/\s+as\s+/).map(part => part.trim());
+      return { imported, local: local ?? imported };
+    });
+}
+
+/**
+ * Index a JavaScript or TypeScript file
+ */
+function indexScript(file: SourceFile): IndexedFile {
+  const lines = file.content.split('\n');
+  const imports: IndexedImport[] = [];
+  const exports: IndexedExport[] = [];
+  const declarations: IndexedDeclaration[] = [];
+
+  lines.forEach((line, index) => {
+    const match = SCRIPT_DECLARATION.exec(line);
+    if (!match) return;
+
+    const [, isExported, isDefault, keyword, name] = match;
+    // Doc comments belong to the declaration below them
+    let start = index;
+    while (start > 0 && /^(\/\/|\/\*|\s+\*)/.test(lines[start - 1])) {
+      start--;
+    }
+    declarations.push({
+      name,
+      kind: KINDS[keyword.replace(/\s+/, ' ')] ?? 'variable',
+      startLine: start + 1,
+      endLine: findStatementEnd(lines, index),
+    });
+    if (isExported) {
+      exports.push({ name: isDefault ? 'default' : name, local: name });
+    }
+  });
+
+  for (const [, clause, source] of file.content.matchAll(/^import\s+(?:type\s+)?([\s\S]*?)\s+from\s+['"]([^'"]+)['"]/gm)) {
+    const braces = clause.indexOf('{');
+    const head = braces === -1 ? clause : clause.slice(0, braces);
+    for (const part of head.split(',').map(item => item.trim()).filter(Boolean)) {
+      const namespace = /^\*\s+as\s+([\w$]+)$/.exec(part);
+      imports.push(namespace
+        ? { local: namespace[1], imported: '*', source }
+        : { local: part, imported: 'default', source });
+    }
+    if (braces !== -1) {
+      const named = clause.slice(braces + 1, clause.lastIndexOf('}'));
+      imports.push(...parseNames(named).map(({ imported, local }) => ({ local, imported, source })));
+    }
+  }
+
+  for (const [, list, source] of file.content.matchAll(/^export\s+(?:type\s+)?\{([^}]*)\}(?:\s*from\s+['"]([^'"]+)['"])?/gm)) {
+    exports.push(...parseNames(list).map(({ imported, local }) => ({ name: local, local: imported, source })));
+  }
+  for (const [, source] of file.content.matchAll(/^export\s+\*\s+from\s+['"]([^'"]+)['"]/gm)) {
+    exports.push({ name: '*', local: '*', source });
+  }
+  for (const [, local] of file.content.matchAll(/^export\s+default\s+([A-Za-z_$][\w$]*)\s*;?\s*$/gm)) {
+    exports.push({ name: 'default', local });
+  }
+
+  return { ...file, imports, exports, declarations };
+}
+
+/**
+ * Index a Python file; its public top-level names are its exports
+ */
+function indexPython(file: SourceFile): IndexedFile {
+  const lines = file.content.split('\n');
+  const imports: IndexedImport[] = [];
+  const declarations: IndexedDeclaration[] = [];
+
+  lines.forEach((line, index) => {
+    const match = PYTHON_DECLARATION.exec(line);
+    if (!match) return;
+
+    // Decorators belong to the definition below them
+    let start = index;
+    while (start > 0 && lines[start - 1].startsWith('@')) {
+      start--;
+    }
+    declarations.push({
+      name: match[2] ?? match[3],
+      kind: match[1] ? KINDS[match[1]] : 'variable',
+      startLine: start + 1,
+      endLine: findStatementEnd(lines, index),
+    });
+  });
+
+  for (const [, source, list] of file.content.matchAll(/^from\s+(\S+)\s+import\s+(\([^)]*\)|.+)$/gm)) {
+    imports.push(...parseNames(list.replace(/[()]/g, '')).map(({ imported, local }) => ({ local, imported, source })));
+  }
+  for (const [, list] of file.content.matchAll(/^import\s+(.+)$/gm)) {
+    for (const { imported, local } of parseNames(list)) {
+      imports.push({ local: local === imported ? imported.split('.')[0] : local, imported: '*', source: imported });
+    }
+  }
+
+  const exports = declarations
+    .filter(declaration => !declaration.name.startsWith('_'))
+    .map(declaration => ({ name: declaration.name, local: declaration.name }));
+
+  return { ...file, imports, exports, declarations };
+}
+
+/**
+ * Index the imports, exports and top-level declarations of the open files
+ * JavaScript, TypeScript and Python files are indexed from their top-level lines, so
+ * declarations are found in formatted code; other languages are listed without symbols
+ */
+export function buildProjectIndex(files: SourceFile[]): ProjectIndex {
+  return new Map(
+    files.map(file => {
+      if (file.language === 'javascript' || file.language === 'typescript') {
+        return [file.name, indexScript(file)];
+      }
+      if (file.language === 'python') {
+        return [file.name, indexPython(file)];
+      }
+      return [file.name, { ...file, imports: [], exports: [], declarations: [] }];
+    })
+  );
+}
+
+function normalizePath(path: string): string {
+  const parts: string[] = [];
+  for (const part of path.split('/')) {
+    if (part === '..') parts.pop();
+    else if (part && part !== '.') parts.push(part);
+  }
+  return parts.join('/');
+}
+
+/**
+ * Find the open file an import refers to
+ * Packages are not resolved; relative paths of files opened without their
+ * directories match on their trailing segments
+ */
+function resolveModule(index: ProjectIndex, from: IndexedFile, source: string): IndexedFile | undefined {
+  const directory = from.name.includes('/') ? from.name.slice(0, from.name.lastIndexOf('/')) : '';
+  let candidates: string[];
+
+  if (from.language === 'python') {
+    const dots = /^\.*/.exec(source)![0].length;
+    const modulePath = source.slice(dots).replace(/\./g, '/');
+    const base = dots > 0
+      ? normalizePath([directory, ...Array(dots - 1).fill('..'), modulePath].join('/'))
+      : modulePath;
+    candidates = [`${base}.py`, `${base}/__init__.py`];
+  } else {
+    if (!source.startsWith('.')) return undefined;
+    // TypeScript ESM imports name the compiled `.js` file
+    const base = normalizePath(`${directory}/${source}`).replace(/\.(m|c)?jsx?$/, '');
+    candidates = [base, ...SCRIPT_EXTENSIONS.map(ext => base + ext), ...SCRIPT_EXTENSIONS.map(ext => `${base}/index${ext}`)];
+  }
+
+  const names = [...index.keys()].filter(name => name !== from.name);
+  for (const candidate of candidates) {
+    const name = matchFileName(candidate, names);
+    if (name) return index.get(name);
+  }
+  return undefined;
+}
+
+/**
+ * Find the declaration of a name a file exports, following re-exports
+ */
+function resolveExport(
+  index: ProjectIndex,
+  file: IndexedFile | undefined,
+  name: string,
+  depth = 0
+): { file: IndexedFile; declaration: IndexedDeclaration } | null {
+  if (!file || depth > MAX_REEXPORT_DEPTH) return null;
+
+  for (const entry of file.exports.filter(e => e.name === name)) {
+    if (entry.source) {
+      return resolveExport(index, resolveModule(index, file, entry.source), entry.local, depth + 1);
+    }
+    const declaration = file.declarations.find(d => d.name === entry.local);
+    if (declaration) return { file, declaration };
+
+    // `export { name }` of an imported name
+    const binding = file.imports.find(i => i.local === entry.local);
+    if (binding) {
+      return resolveExport(index, resolveModule(index, file, binding.source), binding.imported, depth + 1);
+    }
+  }
+
+  // Python packages re-export what their `__init__.py` imports
+  const binding = file.language === 'python' && file.imports.find(i => i.local === name && i.imported !== '*');
+  if (binding) {
+    return resolveExport(index, resolveModule(index, file, binding.source), binding.imported, depth + 1);
+  }
+
+  for (const entry of file.exports.filter(e => e.name === '*')) {
+    const found = resolveExport(index, resolveModule(index, file, entry.source!), name, depth + 1);
+    if (found) return found;
+  }
+  return null;
+}
+
+/**
+ * Collect the definitions of the symbols a selection of `fileName` imports from other
+ * open files, in the order the selection uses them, while they fit in `maxCharacters`
+ * Names declared in the file itself are left to the server, which sends the file's
+ * own context; members of namespace imports (`ns.name`) are resolved in their module
+ */
+export function collectDefinitions(
+  index: ProjectIndex,
+  fileName: string,
+  selectedCode: string,
+  maxCharacters: number = DEFINITIONS_MAX_CHARACTERS
+): ContextSnippet[] {
+  const file = index.get(fileName);
+  if (!file) return [];
+
+  const local = new Set(file.declarations.map(d => d.name));
+  const references: Array<{ binding: IndexedImport; name: string }> = [];
+  for (const [, name, member] of selectedCode.matchAll(/([A-Za-z_$][\w$]*)(?:\s*\.\s*([A-Za-z_$][\w$]*))?/g)) {
+    const binding = local.has(name) ? undefined : file.imports.find(i => i.local === name);
+    if (!binding) continue;
+    if (binding.imported !== '*') {
+      references.push({ binding, name: binding.imported });
+    } else if (member) {
+      references.push({ binding, name: member });
+    }
+  }
+
+  const snippets: ContextSnippet[] = [];
+  let remaining = maxCharacters;
+  for (const { binding, name } of references) {
+    const found = resolveExport(index, resolveModule(index, file, binding.source), name);
+    if (!found) continue;
+
+    const { file: target, declaration } = found;
+    const snippetName = `${target.name}:${declaration.startLine}-${declaration.endLine}`;
+    if (snippets.some(snippet => snippet.name === snippetName)) continue;
+
+    const content = target.content
+      .split('\n')
+      .slice(declaration.startLine - 1, declaration.endLine)
+      .join('\n');
+    if (content.length > remaining) continue;
+
+    remaining -= content.length;
+    snippets.push({
+      name: snippetName,
+      file: target.name,
+      symbol: declaration.name,
+      startLine: declaration.startLine,
+      endLine: declaration.endLine,
+      content,
+      language: target.language,
+    });
+  }
+  return snippets;
+}
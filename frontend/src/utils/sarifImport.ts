@@ -0,0 +1,59 @@
+import { readSarifFindings, sarifLevelToSeverity } from '@ai-code-review/shared';
+import { CodeIssue } from '../components/CodeEditor';
+
+/**
+ * Issue markers read from a SARIF log, by the open file they are on
+ */
+export interface SarifImport {
+  issues: Record<string, CodeIssue[]>;
+  /** Findings on files that are not open */
+  unmatched: number;
+  /** Findings without a file location */
+  skipped: number;
+}
+
+/**
+ * Find the open file a SARIF location is on
+ * Analyzers report paths relative to the repository or absolute, while open files
+ * are named by their path or just their name, so paths match on whole trailing segments
+ */
+export function matchFileName(uri: string, fileNames: string[]): string | null {
+  const path = uri.replace(/\\/g, '/').replace(/^\.\//, '');
+  const exact = fileNames.find(name => name === path);
+  if (exact) return exact;
+
+  const matches = fileNames.filter(name => path.endsWith(`/${name}`) || name.endsWith(`/${path}`));
+  // The longest name is the most specific match
+  return matches.sort((a, b) => b.length - a.length)[0] ?? null;
+}
+
+/**
+ * Turn the findings of a SARIF log into issue markers on the open files
+ * Throws if the log is not SARIF 2.1.0
+ */
+export function issuesFromSarif(log: unknown, fileNames: string[]): SarifImport {
+  const { findings, skipped } = readSarifFindings(log);
+  const issues: Record<string, CodeIssue[]> = {};
+  let unmatched = 0;
+
+  findings.forEach((finding, index) => {
+    const fileName = matchFileName(finding.uri, fileNames);
+    if (!fileName) {
+      unmatched++;
+      return;
+    }
+
+    (issues[fileName] ??= []).push({
+      id: `sarif-${index}`,
+      startLine: finding.startLine,
+      endLine: finding.endLine,
+      severity: sarifLevelToSeverity(finding.level),
+      category: finding.ruleId,
+      message: finding.message,
+      fileName,
+      tool: finding.tool,
+    });
+  });
+
+  return { issues, unmatched, skipped };
+}
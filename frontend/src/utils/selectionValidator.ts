@@ -212,7 +212,7 @@ export function shouldAutoResolve(
 /**
  * Calculate similarity between two strings (simple Jaccard-like similarity)
  */
-function calculateSimilarity(str1: string, str2: string): number {
+export function calculateSimilarity(str1: string, str2: string): number {
   const set1 = new Set(str1.split(/\s+/));
   const set2 = new Set(str2.split(/\s+/));
 
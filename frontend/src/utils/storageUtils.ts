@@ -31,6 +31,12 @@ export function loadThreads(key: string): Thread[] {
       ...thread,
       createdAt: new Date(thread.createdAt),
       updatedAt: new Date(thread.updatedAt),
+      ...(thread.appliedSuggestion && {
+        appliedSuggestion: {
+          ...thread.appliedSuggestion,
+          appliedAt: new Date(thread.appliedSuggestion.appliedAt),
+        },
+      }),
       comments: thread.comments.map(comment => ({
         ...comment,
         timestamp: new Date(comment.timestamp),
@@ -74,6 +80,26 @@ export function clearStoredThreads(key: string): boolean {
   }
 }
 
+/**
+ * Moves threads saved under one key to another, after any threads already there
+ * The old key is removed, so threads are only moved once. Returns whether any moved
+ */
+export function moveStoredThreads(fromKey: string, toKey: string): boolean {
+  if (fromKey === toKey || localStorage.getItem(fromKey) === null) {
+    return false;
+  }
+
+  const existing = loadThreads(toKey);
+  const known = new Set(existing.map(thread => thread.id));
+  const moved = loadThreads(fromKey).filter(thread => !known.has(thread.id));
+  if (!saveThreads(toKey, [...existing, ...moved])) {
+    return false;
+  }
+
+  clearStoredThreads(fromKey);
+  return moved.length > 0;
+}
+
 /**
  * Gets the storage size used by threads
  */
@@ -0,0 +1,215 @@
+import { LineRange, Thread, ThreadAnchor } from '../types/thread';
+import { calculateSimilarity } from './selectionValidator';
+
+/** Lines kept above and below a thread's range in its anchor */
+const CONTEXT_LINES = 3;
+
+/** How similar the code at a location must be to the thread's code to keep the thread there */
+const MIN_SIMILARITY = 0.5;
+
+/** Larger changed regions are not diffed line by line; threads in them are found by searching */
+const MAX_DIFF_CELLS = 1_000_000;
+
+/**
+ * Where a thread is after an edit
+ */
+export interface RelocatedThread {
+  id: string;
+  range: LineRange;
+  outdated: boolean;
+}
+
+/**
+ * Record the code a thread is created on and the lines around it
+ */
+export function createAnchor(content: string, range: LineRange): ThreadAnchor {
+  const lines = content.split('\n');
+  return {
+    lines: lines.slice(range.startLine - 1, range.endLine),
+    contextBefore: lines.slice(Math.max(0, range.startLine - 1 - CONTEXT_LINES), range.startLine - 1),
+    contextAfter: lines.slice(range.endLine, range.endLine + CONTEXT_LINES),
+  };
+}
+
+/**
+ * Map each old line (0-based) to the new line it became, or null if it was changed
+ * or removed. Unchanged lines are the longest common subsequence of both versions
+ */
+export function mapLines(oldLines: string[], newLines: string[]): Array<number | null> {
+  const map: Array<number | null> = new Array(oldLines.length).fill(null);
+
+  // Edits are usually in one place, so only the region between the common
+  // prefix and suffix needs diffing
+  let prefix = 0;
+  while (prefix < oldLines.length && prefix < newLines.length && oldLines[prefix] === newLines[prefix]) {
+    map[prefix] = prefix;
+    prefix++;
+  }
+
+  let suffix = 0;
+  while (
+    suffix < oldLines.length - prefix &&
+    suffix < newLines.length - prefix &&
+    oldLines[oldLines.length - 1 - suffix] === newLines[newLines.length - 1 - suffix]
+  ) {
+    map[oldLines.length - 1 - suffix] = newLines.length - 1 - suffix;
+    suffix++;
+  }
+
+  const oldCount = oldLines.length - prefix - suffix;
+  const newCount = newLines.length - prefix - suffix;
+  if (oldCount === 0 || newCount === 0 || (oldCount + 1) * (newCount + 1) > MAX_DIFF_CELLS) {
+    return map;
+  }
+
+  // lengths[i * width + j]: LCS length of the old lines from i and the new lines from j
+  const width = newCount + 1;
+  const lengths = new Int32Array((oldCount + 1) * width);
+  for (let i = oldCount - 1; i >= 0; i--) {
+    for (let j = newCount - 1; j >= 0; j--) {
+      lengths[i * width + j] = oldLines[prefix + i] === newLines[prefix + j]
+        ? lengths[(i + 1) * width + j + 1] + 1
+        : Math.max(lengths[(i + 1) * width + j], lengths[i * width + j + 1]);
+    }
+  }
+
+  let i = 0;
+  let j = 0;
+  while (i < oldCount && j < newCount) {
+    if (oldLines[prefix + i] === newLines[prefix + j]) {
+      map[prefix + i] = prefix + j;
+      i++;
+      j++;
+    } else if (lengths[(i + 1) * width + j] >= lengths[i * width + j + 1]) {
+      i++;
+    } else {
+      j++;
+    }
+  }
+
+  return map;
+}
+
+/**
+ * Move a range along with its unchanged lines. Changed lines at its edges stay
+ * between the unchanged lines around them. Returns null if no line of the range
+ * is left unchanged
+ */
+export function mapRange(range: LineRange, map: Array<number | null>, newLineCount: number): LineRange | null {
+  const start = range.startLine - 1;
+  const end = range.endLine - 1;
+
+  let first = start;
+  while (first <= end && map[first] == null) first++;
+  if (first > end) {
+    return null;
+  }
+  let last = end;
+  while (map[last] == null) last--;
+
+  let before = start - 1;
+  while (before >= 0 && map[before] == null) before--;
+  let after = end + 1;
+  while (after < map.length && map[after] == null) after++;
+
+  const lowest = before >= 0 ? map[before]! + 1 : 0;
+  const highest = after < map.length ? map[after]! - 1 : newLineCount - 1;
+
+  return {
+    startLine: Math.max(map[first]! - (first - start), lowest) + 1,
+    endLine: Math.min(map[last]! + (end - last), highest) + 1,
+  };
+}
+
+/**
+ * Find the lines most similar to a thread's code, preferring matching context
+ * and then the location nearest `near` (1-based). Returns null if nothing is
+ * similar enough
+ */
+export function findCode(
+  lines: string[],
+  code: string[],
+  anchor: ThreadAnchor | undefined,
+  near: number
+): LineRange | null {
+  const text = code.join('\n');
+  let best: Match | null = null;
+
+  for (let index = 0; index + code.length <= lines.length; index++) {
+    const score = calculateSimilarity(text, lines.slice(index, index + code.length).join('\n'));
+    if (score < MIN_SIMILARITY || (best !== null && score < best.score)) {
+      continue;
+    }
+
+    const context = anchor
+      ? contextSimilarity(anchor.contextBefore, lines.slice(Math.max(0, index - anchor.contextBefore.length), index)) +
+        contextSimilarity(anchor.contextAfter, lines.slice(index + code.length, index + code.length + anchor.contextAfter.length))
+      : 0;
+    const candidate = { range: { startLine: index + 1, endLine: index + code.length }, score, context };
+    if (best === null || isBetterMatch(candidate, best, near)) {
+      best = candidate;
+    }
+  }
+
+  return best?.range ?? null;
+}
+
+interface Match {
+  range: LineRange;
+  score: number;
+  context: number;
+}
+
+function isBetterMatch(candidate: Match, best: Match, near: number): boolean {
+  if (candidate.score !== best.score) {
+    return candidate.score > best.score;
+  }
+  if (candidate.context !== best.context) {
+    return candidate.context > best.context;
+  }
+  return Math.abs(candidate.range.startLine - near) < Math.abs(best.range.startLine - near);
+}
+
+function contextSimilarity(expected: string[], actual: string[]): number {
+  return expected.length > 0 ? calculateSimilarity(expected.join('\n'), actual.join('\n')) : 0;
+}
+
+/**
+ * Follow threads of a file through an edit
+ * A thread moves with its unchanged lines while its code stays similar to the code
+ * it was created on; otherwise its code is searched for in the new content. Threads
+ * whose code is not found are marked outdated and keep their last range. Returns
+ * only the threads whose range or outdated state changed
+ */
+export function relocateThreads(
+  threads: Array<Pick<Thread, 'id' | 'range' | 'selectedCode' | 'anchor' | 'outdated'>>,
+  oldContent: string,
+  newContent: string
+): RelocatedThread[] {
+  const newLines = newContent.split('\n');
+  const map = mapLines(oldContent.split('\n'), newLines);
+  const relocated: RelocatedThread[] = [];
+
+  for (const thread of threads) {
+    const code = thread.anchor?.lines ?? thread.selectedCode.split('\n');
+
+    // The range of an outdated thread no longer says where its code is
+    const mapped = thread.outdated ? null : mapRange(thread.range, map, newLines.length);
+    const keepsCode = mapped !== null &&
+      calculateSimilarity(code.join('\n'), newLines.slice(mapped.startLine - 1, mapped.endLine).join('\n')) >= MIN_SIMILARITY;
+    const range = keepsCode
+      ? mapped
+      : findCode(newLines, code, thread.anchor, mapped?.startLine ?? thread.range.startLine);
+
+    const next = range ? { range, outdated: false } : { range: thread.range, outdated: true };
+    if (
+      next.outdated !== Boolean(thread.outdated) ||
+      next.range.startLine !== thread.range.startLine ||
+      next.range.endLine !== thread.range.endLine
+    ) {
+      relocated.push({ id: thread.id, ...next });
+    }
+  }
+
+  return relocated;
+}
@@ -0,0 +1,42 @@
+import { describe, it, expect } from 'vitest';
+import { formatModeFields, isReviewMode, pickModeFields } from '../reviewModes.js';
+
+describe('isReviewMode', () => {
+  it('accepts the review modes only', () => {
+    expect(isReviewMode('security')).toBe(true);
+    expect(isReviewMode('api-design')).toBe(true);
+    expect(isReviewMode('style')).toBe(false);
+    expect(isReviewMode(undefined)).toBe(false);
+  });
+});
+
+describe('pickModeFields', () => {
+  it('keeps the mode fields that are set', () => {
+    expect(pickModeFields({
+      cwe: ['CWE-89'],
+      breakingChange: false,
+      complexityImpact: undefined,
+      message: 'SQL injection',
+    } as Parameters<typeof pickModeFields>[0])).toEqual({ cwe: ['CWE-89'], breakingChange: false });
+  });
+});
+
+describe('formatModeFields', () => {
+  it('formats lists, booleans and text', () => {
+    expect(formatModeFields({
+      cwe: ['CWE-89', 'CWE-564'],
+      missingTests: ['returns 0 for an empty cart', 'rejects negative, zero and NaN quantities'],
+      complexityImpact: 'O(n^2) -> O(n)',
+      breakingChange: true,
+    })).toEqual([
+      'CWE: CWE-89, CWE-564',
+      'Complexity: O(n^2) -> O(n)',
+      'Missing tests: returns 0 for an empty cart; rejects negative, zero and NaN quantities',
+      'Breaking change: yes',
+    ]);
+  });
+
+  it('leaves out empty lists', () => {
+    expect(formatModeFields({ cwe: [], owasp: [] })).toEqual([]);
+  });
+});
@@ -0,0 +1,130 @@
+import { describe, it, expect } from 'vitest';
+import { readSarifFindings, severityToSarifLevel, sarifLevelToSeverity } from '../sarif.js';
+
+describe('readSarifFindings', () => {
+  it('reads results with their rule, level and location', () => {
+    const { findings, skipped } = readSarifFindings({
+      version: '2.1.0',
+      runs: [
+        {
+          tool: {
+            driver: {
+              name: 'ESLint',
+              rules: [
+                {
+                  id: 'no-unused-vars',
+                  shortDescription: { text: 'Disallow unused variables' },
+                  helpUri: 'https://eslint.org/docs/rules/no-unused-vars',
+                },
+              ],
+            },
+          },
+          results: [
+            {
+              ruleId: 'no-unused-vars',
+              ruleIndex: 0,
+              level: 'error',
+              message: { text: "'x' is assigned a value but never used." },
+              locations: [
+                {
+                  physicalLocation: {
+                    artifactLocation: { uri: 'file:///home/me/project/src/my%20app.js' },
+                    region: { startLine: 3, startColumn: 7, endLine: 4 },
+                  },
+                },
+              ],
+            },
+          ],
+        },
+      ],
+    });
+
+    expect(skipped).toBe(0);
+    expect(findings).toEqual([
+      {
+        tool: 'ESLint',
+        ruleId: 'no-unused-vars',
+        level: 'error',
+        message: "'x' is assigned a value but never used.",
+        uri: '/home/me/project/src/my app.js',
+        startLine: 3,
+        endLine: 4,
+        ruleDescription: 'Disallow unused variables',
+        helpUri: 'https://eslint.org/docs/rules/no-unused-vars',
+      },
+    ]);
+  });
+
+  it('resolves artifact indexes, message strings and default levels', () => {
+    const { findings } = readSarifFindings({
+      version: '2.1.0',
+      runs: [
+        {
+          tool: {
+            driver: {
+              name: 'CodeQL',
+              rules: [
+                {
+                  id: 'js/sql-injection',
+                  defaultConfiguration: { level: 'error' },
+                  messageStrings: { default: { text: 'Query built from {0}.' } },
+                },
+              ],
+            },
+          },
+          artifacts: [{ location: { uri: 'src/db.ts' } }],
+          results: [
+            {
+              ruleId: 'js/sql-injection',
+              message: { id: 'default', arguments: ['user input'] },
+              locations: [{ physicalLocation: { artifactLocation: { index: 0 }, region: { startLine: 12 } } }],
+            },
+          ],
+        },
+      ],
+    });
+
+    expect(findings[0]).toMatchObject({
+      tool: 'CodeQL',
+      level: 'error',
+      message: 'Query built from user input.',
+      uri: 'src/db.ts',
+      startLine: 12,
+      endLine: 12,
+    });
+  });
+
+  it('defaults to warning and skips results without a file', () => {
+    const { findings, skipped } = readSarifFindings({
+      version: '2.1.0',
+      runs: [
+        {
+          tool: { driver: { name: 'Semgrep' } },
+          results: [
+            { ruleId: 'a', message: { text: 'No location' } },
+            { ruleId: 'b', message: { text: 'Found' }, locations: [{ physicalLocation: { artifactLocation: { uri: 'a.py' } } }] },
+          ],
+        },
+      ],
+    });
+
+    expect(skipped).toBe(1);
+    expect(findings).toHaveLength(1);
+    expect(findings[0]).toMatchObject({ level: 'warning', startLine: 1, endLine: 1 });
+  });
+
+  it('rejects values that are not SARIF 2.1.0 logs', () => {
+    expect(() => readSarifFindings({ foo: 1 })).toThrow('Not a SARIF log');
+    expect(() => readSarifFindings({ version: '1.0.0', runs: [] })).toThrow('Unsupported SARIF version 1.0.0');
+  });
+});
+
+describe('SARIF levels', () => {
+  it('maps scan severities to levels and back', () => {
+    expect(severityToSarifLevel('info')).toBe('note');
+    expect(severityToSarifLevel('error')).toBe('error');
+    expect(sarifLevelToSeverity('note')).toBe('info');
+    expect(sarifLevelToSeverity('none')).toBe('info');
+    expect(sarifLevelToSeverity('warning')).toBe('warning');
+  });
+});
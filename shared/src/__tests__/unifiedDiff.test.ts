@@ -0,0 +1,318 @@
+import { describe, it, expect } from 'vitest';
+import {
+  parseUnifiedDiff,
+  isValidUnifiedDiff,
+  formatUnifiedDiff,
+  readLooseDiff,
+  locateLines,
+  normalizeDiff,
+} from '../unifiedDiff.js';
+
+const code = [
+  'class Calculator {',
+  '  add(a, b) {',
+  '    return a + b;',
+  '  }',
+  '',
+  '  divide(a, b) {',
+  '    return a / b;',
+  '  }',
+  '}',
+].join('\n');
+
+describe('parseUnifiedDiff', () => {
+  it('parses file headers, hunk headers and line numbers', () => {
+    const { files, errors } = parseUnifiedDiff([
+      'diff --git a/calc.js b/calc.js',
+      'index 83db48f..bf269f4 100644',
+      '--- a/calc.js\t2024-01-01 00:00:00',
+      '+++ b/calc.js',
+      '@@ -6,3 +6,4 @@ class Calculator {',
+      '   divide(a, b) {',
+      '+    if (b === 0) throw new Error("Division by zero");',
+      '     return a / b;',
+      '   }',
+    ].join('\n'));
+
+    expect(errors).toEqual([]);
+    expect(files).toEqual([
+      {
+        oldPath: 'calc.js',
+        newPath: 'calc.js',
+        hunks: [
+          {
+            oldStart: 6,
+            oldLines: 3,
+            newStart: 6,
+            newLines: 4,
+            section: 'class Calculator {',
+            lines: [
+              { type: 'context', content: '  divide(a, b) {', oldLine: 6, newLine: 6 },
+              { type: 'added', content: '    if (b === 0) throw new Error("Division by zero");', newLine: 7 },
+              { type: 'context', content: '    return a / b;', oldLine: 7, newLine: 8 },
+              { type: 'context', content: '  }', oldLine: 8, newLine: 9 },
+            ],
+          },
+        ],
+      },
+    ]);
+  });
+
+  it('parses multi-file diffs and created files', () => {
+    const { files, errors } = parseUnifiedDiff([
+      '--- a/one.js',
+      '+++ b/one.js',
+      '@@ -1 +1 @@',
+      '-a',
+      '+b',
+      '--- /dev/null',
+      '+++ b/two.js',
+      '@@ -0,0 +1,2 @@',
+      '+x',
+      '+y',
+      '',
+    ].join('\n'));
+
+    expect(errors).toEqual([]);
+    expect(files.map(f => [f.oldPath, f.newPath, f.hunks.length])).toEqual([
+      ['one.js', 'one.js', 1],
+      [undefined, 'two.js', 1],
+    ]);
+    expect(files[0].hunks[0]).toMatchObject({ oldStart: 1, oldLines: 1, newStart: 1, newLines: 1 });
+  });
+
+  it('attaches "\\ No newline at end of file" to the previous line', () => {
+    const { files, errors } = parseUnifiedDiff([
+      '@@ -1,2 +1,2 @@',
+      ' a',
+      '-b',
+      '\\ No newline at end of file',
+      '+c',
+      '\\ No newline at end of file',
+    ].join('\n'));
+
+    expect(errors).toEqual([]);
+    expect(files[0].hunks[0].lines).toEqual([
+      { type: 'context', content: 'a', oldLine: 1, newLine: 1 },
+      { type: 'removed', content: 'b', oldLine: 2, noNewlineAtEnd: true },
+      { type: 'added', content: 'c', newLine: 2, noNewlineAtEnd: true },
+    ]);
+  });
+
+  it('reads removed lines that look like file headers by the hunk counts', () => {
+    const { files, errors } = parseUnifiedDiff('@@ -1,1 +1,1 @@\n--- old comment\n+++ new comment');
+
+    expect(errors).toEqual([]);
+    expect(files[0].hunks[0].lines.map(line => line.content)).toEqual(['-- old comment', '++ new comment']);
+  });
+
+  it('reads an empty line inside a hunk as a context line', () => {
+    const { files, errors } = parseUnifiedDiff('@@ -1,3 +1,3 @@\n a\n\n-b\n+c');
+
+    expect(errors).toEqual([]);
+    expect(files[0].hunks[0].lines[1]).toEqual({ type: 'context', content: '', oldLine: 2, newLine: 2 });
+  });
+
+  it('reports counts that disagree with the header', () => {
+    const { errors } = parseUnifiedDiff('@@ -1,3 +1,3 @@\n-a\n+b');
+
+    expect(errors).toEqual([{ line: 1, message: 'Hunk expects 3 old and 3 new lines but has 1 and 1' }]);
+  });
+
+  it('reports lines without a prefix and text outside hunks', () => {
+    expect(parseUnifiedDiff('@@ -1,2 +1,2 @@\n-a\nb\n+c').errors).toEqual([
+      { line: 3, message: 'Line has no diff prefix: b' },
+    ]);
+    expect(parseUnifiedDiff('@@ -1,1 +1,1 @@\n-a\n+b\n+c').errors).toEqual([
+      { line: 4, message: 'Hunk has more lines than its header says' },
+    ]);
+    expect(parseUnifiedDiff('Here is the fix:\n@@ -1 +1 @@\n-a\n+b').errors).toEqual([
+      { line: 1, message: 'Unexpected text outside a hunk: Here is the fix:' },
+    ]);
+  });
+
+  it('reports hunks that overlap or are out of order', () => {
+    expect(parseUnifiedDiff('@@ -3 +3 @@\n-a\n+b\n@@ -1 +1 @@\n-c\n+d').errors).toEqual([
+      { line: 4, message: 'Hunk starts before the end of the previous hunk' },
+    ]);
+  });
+
+  it('reports text without hunks', () => {
+    expect(parseUnifiedDiff('-a\n+b').errors).toContainEqual({ line: 1, message: 'Diff contains no hunks' });
+    expect(isValidUnifiedDiff('')).toBe(false);
+  });
+});
+
+describe('formatUnifiedDiff', () => {
+  it('formats parsed diffs back to the same text', () => {
+    const diff = [
+      '--- a/calc.js',
+      '+++ b/calc.js',
+      '@@ -1,2 +1,2 @@ section',
+      ' a',
+      '-b',
+      '\\ No newline at end of file',
+      '+c',
+      '\\ No newline at end of file',
+    ].join('\n');
+
+    expect(formatUnifiedDiff(parseUnifiedDiff(diff).files)).toBe(diff);
+  });
+});
+
+describe('readLooseDiff', () => {
+  it('reads fenced diffs without headers as one hunk', () => {
+    expect(readLooseDiff('```diff\n-a\n+b\nunchanged\n```\n')).toEqual([
+      {
+        hunks: [
+          {
+            lines: [
+              { type: 'removed', content: 'a' },
+              { type: 'added', content: 'b' },
+              { type: 'context', content: 'unchanged' },
+            ],
+          },
+        ],
+      },
+    ]);
+  });
+
+  it('keeps header positions and drops hunks without changes', () => {
+    const files = readLooseDiff('--- a/x\n+++ b/x\n@@ -4,9 +4,9 @@\n-a\n+b\n@@ -9 +9 @@\n same');
+
+    expect(files).toEqual([
+      {
+        oldPath: 'x',
+        newPath: 'x',
+        hunks: [{ oldStart: 4, lines: [{ type: 'removed', content: 'a' }, { type: 'added', content: 'b' }] }],
+      },
+    ]);
+    expect(readLooseDiff('just prose')).toEqual([]);
+  });
+
+  it('keeps removed lines that look like file headers inside a hunk', () => {
+    const [file] = readLooseDiff('@@ -1,2 +1,1 @@\n--- old comment\n+++ new comment');
+
+    expect(file.hunks[0].lines).toEqual([
+      { type: 'removed', content: '-- old comment' },
+      { type: 'added', content: '++ new comment' },
+    ]);
+  });
+
+  it('attaches "\\ No newline at end of file" to the previous line', () => {
+    const [file] = readLooseDiff('-a\n\\ No newline at end of file\n+b');
+
+    expect(file.hunks[0].lines).toEqual([
+      { type: 'removed', content: 'a', noNewlineAtEnd: true },
+      { type: 'added', content: 'b' },
+    ]);
+  });
+});
+
+describe('locateLines', () => {
+  it('prefers exact matches nearest the target', () => {
+    const lines = ['x', '  y', 'x', 'y'];
+
+    expect(locateLines(lines, ['x'], 3)).toBe(2);
+    expect(locateLines(lines, ['x', 'y'], 0)).toBe(2);
+    expect(locateLines(lines, ['y'], 0)).toBe(3);
+    expect(locateLines(lines, ['z'], 0)).toBeNull();
+  });
+
+  it('falls back to matches that differ in indentation', () => {
+    expect(locateLines(['  a', '  b'], ['b'], 0)).toBe(1);
+  });
+});
+
+describe('normalizeDiff', () => {
+  it('returns well-formed diffs unchanged', () => {
+    const diff = '@@ -3,1 +3,1 @@\n-    return a + b;\n+    return Number(a) + Number(b);';
+
+    expect(normalizeDiff(diff, { original: code })).toMatchObject({ diff, errors: [] });
+  });
+
+  it('renumbers well-formed diffs numbered from the excerpt instead of the file', () => {
+    // The model saw only the divide method and numbered its diff from there
+    const result = normalizeDiff('@@ -1,3 +1,3 @@\n   divide(a, b) {\n-    return a / b;\n+    return b ? a / b : 0;\n   }', {
+      original: code,
+    });
+
+    expect(result.diff).toBe('@@ -6,3 +6,3 @@\n   divide(a, b) {\n-    return a / b;\n+    return b ? a / b : 0;\n   }');
+    expect(result.errors).toEqual(['Hunk 1 is numbered from line 1 but its lines are at line 6']);
+  });
+
+  it('renumbers well-formed diffs by file lines when the original is an excerpt', () => {
+    const result = normalizeDiff('@@ -2 +2 @@\n-    return a / b;\n+    return b ? a / b : 0;', {
+      original: '  divide(a, b) {\n    return a / b;\n  }',
+      firstLine: 20,
+    });
+
+    expect(result.diff).toBe('@@ -21,1 +21,1 @@\n-    return a / b;\n+    return b ? a / b : 0;');
+  });
+
+  it('places headerless hunks where their lines are in the code', () => {
+    const result = normalizeDiff('-return a / b;\n+return b ? a / b : 0;', { original: code });
+
+    expect(result.diff).toBe('@@ -7,1 +7,1 @@\n-return a / b;\n+return b ? a / b : 0;');
+    expect(result.errors).toContain('line 1: Diff contains no hunks');
+    expect(isValidUnifiedDiff(result.diff!)).toBe(true);
+  });
+
+  it('fixes wrong headers and counts, and numbers later hunks after earlier changes', () => {
+    const result = normalizeDiff([
+      '@@ -1,5 +1,5 @@',
+      '   add(a, b) {',
+      '+    // sum',
+      '     return a + b;',
+      '@@ -40 +40 @@',
+      '-    return a / b;',
+      '+    return b ? a / b : 0;',
+    ].join('\n'), { original: code });
+
+    expect(result.diff).toBe([
+      '@@ -2,2 +2,3 @@',
+      '   add(a, b) {',
+      '+    // sum',
+      '     return a + b;',
+      '@@ -7,1 +8,1 @@',
+      '-    return a / b;',
+      '+    return b ? a / b : 0;',
+    ].join('\n'));
+  });
+
+  it('numbers hunks by file lines when the original is an excerpt', () => {
+    const result = normalizeDiff('-    return a / b;\n+    return b ? a / b : 0;', {
+      original: '  divide(a, b) {\n    return a / b;\n  }',
+      firstLine: 20,
+    });
+
+    expect(result.diff).toBe('@@ -21,1 +21,1 @@\n-    return a / b;\n+    return b ? a / b : 0;');
+  });
+
+  it('places hunks at nearLine without the original, and numbers pure insertions and deletions', () => {
+    expect(normalizeDiff('-a\n+b', { nearLine: 12 }).diff).toBe('@@ -12,1 +12,1 @@\n-a\n+b');
+    expect(normalizeDiff('+added', { nearLine: 5 }).diff).toBe('@@ -4,0 +5,1 @@\n+added');
+    expect(normalizeDiff('@@ -3 +3 @@\n-gone', { nearLine: 5 }).diff).toBe('@@ -3,1 +2,0 @@\n-gone');
+  });
+
+  it('reports hunks that do not match the code and keeps them at their position', () => {
+    const result = normalizeDiff('-return a * b;\n+return a / b;', { original: code, nearLine: 7 });
+
+    expect(result.diff).toBe('@@ -7,1 +7,1 @@\n-return a * b;\n+return a / b;');
+    expect(result.errors).toContain('Hunk 1 does not match the code');
+  });
+
+  it('drops hunks that overlap after being placed', () => {
+    const result = normalizeDiff('@@ -1 +1 @@\n-x\n+y\n@@ -1 +1 @@\n-x\n+z', { original: 'x' });
+
+    expect(result.diff).toBe('@@ -1,1 +1,1 @@\n-x\n+y');
+    expect(result.errors).toContain('A hunk at line 1 overlaps the previous hunk and was dropped');
+  });
+
+  it('gives no diff for text without changes', () => {
+    expect(normalizeDiff('No changes needed.')).toEqual({
+      files: [],
+      errors: ['line 1: Unexpected text outside a hunk: No changes needed.', 'line 1: Diff contains no hunks', 'Diff contains no changes'],
+    });
+  });
+});
@@ -0,0 +1,3 @@
+export * from './unifiedDiff.js';
+export * from './sarif.js';
+export * from './reviewModes.js';
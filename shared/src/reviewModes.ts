@@ -0,0 +1,102 @@
+/**
+ * Review modes: what a review or scan concentrates on, and the fields it adds to its output
+ */
+
+export const REVIEW_MODES = ['general', 'security', 'performance', 'readability', 'tests', 'api-design'] as const;
+
+export type ReviewMode = (typeof REVIEW_MODES)[number];
+
+export const REVIEW_MODE_LABELS: Record<ReviewMode, string> = {
+  general: 'General review',
+  security: 'Security audit',
+  performance: 'Performance',
+  readability: 'Readability',
+  tests: 'Test gaps',
+  'api-design': 'API design',
+};
+
+/**
+ * Fields review modes add to reviews and to the issues of scans
+ */
+export interface ReviewModeFields {
+  /** CWE IDs of the weaknesses, such as `CWE-89` (security) */
+  cwe?: string[];
+  /** OWASP Top 10 2021 categories, such as `A03:2021-Injection` (security) */
+  owasp?: string[];
+  /** How the fix changes the time or space complexity, such as `O(n^2) -> O(n)` (performance) */
+  complexityImpact?: string;
+  /** Names of the code smells, such as `long method` (readability) */
+  smells?: string[];
+  /** Test cases the code is missing, described by the behaviour they check (tests) */
+  missingTests?: string[];
+  /** Whether existing callers of the API have to change (api-design) */
+  breakingChange?: boolean;
+}
+
+export type ReviewModeField = keyof ReviewModeFields;
+
+/**
+ * Output fields of each mode, in the order they are shown
+ */
+export const REVIEW_MODE_FIELDS: Record<ReviewMode, ReviewModeField[]> = {
+  general: [],
+  security: ['cwe', 'owasp'],
+  performance: ['complexityImpact'],
+  readability: ['smells'],
+  tests: ['missingTests'],
+  'api-design': ['breakingChange'],
+};
+
+const FIELD_LABELS: Record<ReviewModeField, string> = {
+  cwe: 'CWE',
+  owasp: 'OWASP',
+  complexityImpact: 'Complexity',
+  smells: 'Code smells',
+  missingTests: 'Missing tests',
+  breakingChange: 'Breaking change',
+};
+
+const ALL_FIELDS = Object.values(REVIEW_MODE_FIELDS).flat();
+
+export function isReviewMode(value: unknown): value is ReviewMode {
+  return REVIEW_MODES.includes(value as ReviewMode);
+}
+
+/**
+ * The mode fields of a review or scan issue that are set, without its other properties
+ */
+export function pickModeFields(source: ReviewModeFields): ReviewModeFields {
+  const fields: Record<string, unknown> = {};
+  for (const field of ALL_FIELDS) {
+    if (source[field] !== undefined) {
+      fields[field] = source[field];
+    }
+  }
+  return fields as ReviewModeFields;
+}
+
+/**
+ * One line per mode field that is set, such as `CWE: CWE-89, CWE-564`
+ * Empty lists are left out
+ */
+export function formatModeFields(source: ReviewModeFields): string[] {
+  const lines: string[] = [];
+  for (const field of ALL_FIELDS) {
+    const value = source[field];
+    if (value === undefined || (Array.isArray(value) && value.length === 0)) {
+      continue;
+    }
+
+    let text: string;
+    if (Array.isArray(value)) {
+      // Test cases are sentences that may contain commas
+      text = value.join(field === 'missingTests' ? '; ' : ', ');
+    } else if (typeof value === 'boolean') {
+      text = value ? 'yes' : 'no';
+    } else {
+      text = value;
+    }
+    lines.push(`${FIELD_LABELS[field]}: ${text}`);
+  }
+  return lines;
+}
@@ -0,0 +1,206 @@
+/**
+ * The subset of SARIF 2.1.0 (Static Analysis Results Interchange Format) read and written here
+ * https://docs.oasis-open.org/sarif/sarif/v2.1.0/sarif-v2.1.0.html
+ */
+
+export const SARIF_VERSION = '2.1.0';
+export const SARIF_SCHEMA = 'https://json.schemastore.org/sarif-2.1.0.json';
+
+/**
+ * Severity of a result
+ */
+export type SarifLevel = 'none' | 'note' | 'warning' | 'error';
+
+export interface SarifMessage {
+  text?: string;
+  markdown?: string;
+  /** ID of a message string of the result's rule */
+  id?: string;
+  arguments?: string[];
+}
+
+export interface SarifRegion {
+  startLine?: number;
+  endLine?: number;
+  startColumn?: number;
+  endColumn?: number;
+  snippet?: { text?: string };
+}
+
+export interface SarifArtifactLocation {
+  uri?: string;
+  uriBaseId?: string;
+  /** Index of the artifact in the run's `artifacts` */
+  index?: number;
+}
+
+export interface SarifLocation {
+  physicalLocation?: {
+    artifactLocation?: SarifArtifactLocation;
+    region?: SarifRegion;
+  };
+}
+
+export interface SarifRule {
+  id: string;
+  name?: string;
+  shortDescription?: { text: string };
+  fullDescription?: { text: string };
+  help?: { text: string; markdown?: string };
+  helpUri?: string;
+  defaultConfiguration?: { level?: SarifLevel };
+  messageStrings?: Record<string, { text: string }>;
+}
+
+export interface SarifResult {
+  ruleId?: string;
+  ruleIndex?: number;
+  level?: SarifLevel;
+  message: SarifMessage;
+  locations?: SarifLocation[];
+  /** Stable ID of the result across runs */
+  guid?: string;
+  properties?: Record<string, unknown>;
+}
+
+export interface SarifRun {
+  tool: {
+    driver: {
+      name: string;
+      version?: string;
+      semanticVersion?: string;
+      informationUri?: string;
+      rules?: SarifRule[];
+    };
+  };
+  artifacts?: Array<{ location?: SarifArtifactLocation }>;
+  results?: SarifResult[];
+}
+
+export interface SarifLog {
+  $schema?: string;
+  version: typeof SARIF_VERSION;
+  runs: SarifRun[];
+}
+
+/**
+ * A result of a SARIF log with the location and rule details resolved
+ */
+export interface SarifFinding {
+  /** Name of the tool that reported the result, e.g. ESLint, Semgrep or CodeQL */
+  tool: string;
+  ruleId?: string;
+  level: SarifLevel;
+  message: string;
+  /** Path of the file, without a file:// scheme */
+  uri: string;
+  startLine: number;
+  endLine: number;
+  /** Short description or help text of the rule */
+  ruleDescription?: string;
+  helpUri?: string;
+}
+
+/**
+ * Findings read from a SARIF log
+ */
+export interface ReadSarifResult {
+  findings: SarifFinding[];
+  /** Results without a file location, which cannot be shown on code */
+  skipped: number;
+}
+
+/**
+ * SARIF level of a scan severity
+ */
+export function severityToSarifLevel(severity: 'error' | 'warning' | 'info'): SarifLevel {
+  return severity === 'info' ? 'note' : severity;
+}
+
+/**
+ * Scan severity of a SARIF level
+ */
+export function sarifLevelToSeverity(level: SarifLevel): 'error' | 'warning' | 'info' {
+  return level === 'error' || level === 'warning' ? level : 'info';
+}
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+/**
+ * Turn a SARIF artifact URI into a path: drop a file:// scheme and decode escapes
+ */
+function uriToPath(uri: string): string {
+  const path = uri.replace(/^file:\/\/(localhost)?/i, '');
+  try {
+    return decodeURI(path);
+  } catch {
+    return path;
+  }
+}
+
+/**
+ * Fill a message template of a rule, e.g. "Unused variable {0}."
+ */
+function formatMessage(message: SarifMessage, rule: SarifRule | undefined): string {
+  const template = message.text
+    ?? message.markdown
+    ?? (message.id ? rule?.messageStrings?.[message.id]?.text : undefined)
+    ?? '';
+  return template.replace(/\{(\d+)\}/g, (match, index) => message.arguments?.[Number(index)] ?? match);
+}
+
+/**
+ * Read the results of every run of a SARIF 2.1.0 log, such as the output of
+ * ESLint, Semgrep or CodeQL
+ * Levels default to the rule's configured level, then to "warning" as in the spec
+ * Throws if the value is not a SARIF 2.1.0 log
+ */
+export function readSarifFindings(log: unknown): ReadSarifResult {
+  if (!isObject(log) || !Array.isArray(log.runs)) {
+    throw new Error('Not a SARIF log: "runs" is missing');
+  }
+  if (log.version !== SARIF_VERSION) {
+    throw new Error(`Unsupported SARIF version ${String(log.version)}; only ${SARIF_VERSION} is supported`);
+  }
+
+  const findings: SarifFinding[] = [];
+  let skipped = 0;
+
+  for (const run of log.runs as SarifRun[]) {
+    const driver = run?.tool?.driver;
+    const tool = driver?.name || 'SARIF';
+    const rules = driver?.rules ?? [];
+
+    for (const result of run?.results ?? []) {
+      const rule = (result.ruleIndex !== undefined ? rules[result.ruleIndex] : undefined)
+        ?? rules.find(candidate => candidate.id === result.ruleId);
+      const physical = result.locations?.[0]?.physicalLocation;
+      const artifact = physical?.artifactLocation;
+      const uri = artifact?.uri
+        ?? (artifact?.index !== undefined ? run.artifacts?.[artifact.index]?.location?.uri : undefined);
+
+      if (!uri) {
+        skipped++;
+        continue;
+      }
+
+      const startLine = Math.max(1, physical?.region?.startLine ?? 1);
+      const endLine = Math.max(startLine, physical?.region?.endLine ?? startLine);
+
+      findings.push({
+        tool,
+        ruleId: result.ruleId ?? rule?.id,
+        level: result.level ?? rule?.defaultConfiguration?.level ?? 'warning',
+        message: formatMessage(result.message ?? {}, rule),
+        uri: uriToPath(uri),
+        startLine,
+        endLine,
+        ruleDescription: rule?.shortDescription?.text ?? rule?.help?.text,
+        helpUri: rule?.helpUri,
+      });
+    }
+  }
+
+  return { findings, skipped };
+}
@@ -0,0 +1,544 @@
+/**
+ * Kind of a line in a diff hunk
+ */
+export type DiffLineType = 'context' | 'added' | 'removed';
+
+/**
+ * A line of a diff hunk
+ */
+export interface DiffLine {
+  type: DiffLineType;
+  /** The line without its diff prefix */
+  content: string;
+  /** Line number in the old file (context and removed lines) */
+  oldLine?: number;
+  /** Line number in the new file (context and added lines) */
+  newLine?: number;
+  /** Whether the line is followed by "\ No newline at end of file" */
+  noNewlineAtEnd?: boolean;
+}
+
+/**
+ * A hunk of a unified diff
+ */
+export interface DiffHunk {
+  oldStart: number;
+  oldLines: number;
+  newStart: number;
+  newLines: number;
+  /** Text after the closing @@, usually the enclosing function */
+  section?: string;
+  lines: DiffLine[];
+}
+
+/**
+ * The hunks of one file in a diff
+ * Paths are absent for diffs without file headers and for created or deleted files
+ */
+export interface FileDiff {
+  oldPath?: string;
+  newPath?: string;
+  hunks: DiffHunk[];
+}
+
+/**
+ * A problem found while parsing a diff
+ */
+export interface DiffError {
+  /** 1-based line of the diff text */
+  line: number;
+  message: string;
+}
+
+/**
+ * Result of parsing a unified diff
+ */
+export interface ParsedDiff {
+  files: FileDiff[];
+  /** Empty when the text is a well-formed unified diff */
+  errors: DiffError[];
+}
+
+/**
+ * A hunk read leniently; `oldStart` is only known when the hunk had an @@ header
+ */
+export interface LooseHunk {
+  oldStart?: number;
+  section?: string;
+  lines: DiffLine[];
+}
+
+/**
+ * The hunks of one file, read leniently
+ */
+export interface LooseFileDiff {
+  oldPath?: string;
+  newPath?: string;
+  hunks: LooseHunk[];
+}
+
+/**
+ * Options for normalizing a diff
+ */
+export interface NormalizeDiffOptions {
+  /** The code the diff applies to, used to place hunks at the right lines */
+  original?: string;
+  /** File line number of the first line of `original`, when it is an excerpt of the file (default 1) */
+  firstLine?: number;
+  /** Line to place hunks near when their header is missing, such as the reviewed selection's first line */
+  nearLine?: number;
+}
+
+/**
+ * Result of normalizing a diff
+ */
+export interface NormalizedDiff {
+  /** The well-formed diff, absent when the text contains no changes */
+  diff?: string;
+  files: FileDiff[];
+  /** Problems found in the original text */
+  errors: string[];
+}
+
+const HUNK_HEADER = /^@@ -(\d+)(?:,(\d+))? \+(\d+)(?:,(\d+))? @@ ?(.*)$/;
+const NO_NEWLINE_MARKER = '\\ No newline at end of file';
+
+/** Extended header lines of git diffs, which carry no line changes */
+const EXTENDED_HEADER = /^(diff |index |new file mode |deleted file mode |old mode |new mode |similarity index |dissimilarity index |rename from |rename to |copy from |copy to |Binary files )/;
+
+/**
+ * Read a path from a ---/+++ file header
+ */
+function parsePath(header: string): string | undefined {
+  const path = header.split('\t')[0].trim();
+  if (path === '/dev/null') {
+    return undefined;
+  }
+  return path.replace(/^[ab]\//, '');
+}
+
+/**
+ * Whether the lines at `index` are a ---/+++ file header pair
+ */
+function isFileHeader(lines: string[], index: number): boolean {
+  return lines[index].startsWith('--- ') && (lines[index + 1]?.startsWith('+++ ') ?? false);
+}
+
+/**
+ * Parse a unified diff, reporting anything that makes it malformed:
+ * hunk line counts that disagree with their header, lines without a diff prefix
+ * and text outside hunks. Multi-file diffs, git extended headers and
+ * "\ No newline at end of file" markers are supported
+ */
+export function parseUnifiedDiff(text: string): ParsedDiff {
+  const lines = text.replace(/\r\n/g, '\n').split('\n');
+  const files: FileDiff[] = [];
+  const errors: DiffError[] = [];
+  let file: FileDiff | null = null;
+  let hunk: DiffHunk | null = null;
+  let hunkLine = 0;
+  let remainingOld = 0;
+  let remainingNew = 0;
+  let oldLine = 0;
+  let newLine = 0;
+
+  const lastLine = () => hunk?.lines[hunk.lines.length - 1];
+
+  const closeHunk = () => {
+    if (hunk && (remainingOld > 0 || remainingNew > 0)) {
+      errors.push({
+        line: hunkLine,
+        message: `Hunk expects ${hunk.oldLines} old and ${hunk.newLines} new lines but has ` +
+          `${hunk.oldLines - remainingOld} and ${hunk.newLines - remainingNew}`,
+      });
+    }
+    hunk = null;
+    remainingOld = 0;
+    remainingNew = 0;
+  };
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i];
+    const lineNumber = i + 1;
+
+    if (line.startsWith('\\')) {
+      const last = lastLine();
+      if (last) {
+        last.noNewlineAtEnd = true;
+      } else {
+        errors.push({ line: lineNumber, message: 'Marker does not follow a diff line' });
+      }
+      continue;
+    }
+
+    if (hunk && (remainingOld > 0 || remainingNew > 0)) {
+      const prefix = line[0] ?? ' ';
+      const content = line.slice(1);
+
+      if (prefix === '+') {
+        if (remainingNew === 0) {
+          errors.push({ line: lineNumber, message: 'Hunk has more added lines than its header says' });
+        }
+        hunk.lines.push({ type: 'added', content, newLine: newLine++ });
+        remainingNew = Math.max(0, remainingNew - 1);
+        continue;
+      }
+
+      if (prefix === '-') {
+        if (remainingOld === 0) {
+          errors.push({ line: lineNumber, message: 'Hunk has more removed lines than its header says' });
+        }
+        hunk.lines.push({ type: 'removed', content, oldLine: oldLine++ });
+        remainingOld = Math.max(0, remainingOld - 1);
+        continue;
+      }
+
+      if (prefix !== ' ') {
+        errors.push({ line: lineNumber, message: `Line has no diff prefix: ${line}` });
+      } else if (remainingOld === 0 || remainingNew === 0) {
+        errors.push({ line: lineNumber, message: 'Hunk has more context lines than its header says' });
+      }
+      // An empty line is a context line whose trailing space was trimmed
+      hunk.lines.push({
+        type: 'context',
+        content: prefix === ' ' ? content : line,
+        oldLine: oldLine++,
+        newLine: newLine++,
+      });
+      remainingOld = Math.max(0, remainingOld - 1);
+      remainingNew = Math.max(0, remainingNew - 1);
+      continue;
+    }
+
+    const header = line.match(HUNK_HEADER);
+    if (header) {
+      closeHunk();
+      if (!file) {
+        file = { hunks: [] };
+        files.push(file);
+      }
+
+      const previous = file.hunks[file.hunks.length - 1];
+      const oldStart = parseInt(header[1], 10);
+      if (previous && oldStart < previous.oldStart + previous.oldLines) {
+        errors.push({ line: lineNumber, message: 'Hunk starts before the end of the previous hunk' });
+      }
+
+      const current: DiffHunk = {
+        oldStart,
+        oldLines: header[2] === undefined ? 1 : parseInt(header[2], 10),
+        newStart: parseInt(header[3], 10),
+        newLines: header[4] === undefined ? 1 : parseInt(header[4], 10),
+        ...(header[5].trim() && { section: header[5].trim() }),
+        lines: [],
+      };
+      file.hunks.push(current);
+      hunk = current;
+      hunkLine = lineNumber;
+      remainingOld = current.oldLines;
+      remainingNew = current.newLines;
+      oldLine = current.oldStart;
+      newLine = current.newStart;
+      continue;
+    }
+
+    if (isFileHeader(lines, i)) {
+      closeHunk();
+      file = { oldPath: parsePath(line.slice(4)), newPath: parsePath(lines[i + 1].slice(4)), hunks: [] };
+      files.push(file);
+      i++;
+      continue;
+    }
+
+    if (EXTENDED_HEADER.test(line)) {
+      closeHunk();
+      file = null;
+      continue;
+    }
+
+    if (hunk && /^[-+ ]/.test(line)) {
+      errors.push({ line: lineNumber, message: 'Hunk has more lines than its header says' });
+    } else if (line.trim() !== '') {
+      errors.push({ line: lineNumber, message: `Unexpected text outside a hunk: ${line}` });
+    }
+  }
+
+  closeHunk();
+
+  if (!files.some(f => f.hunks.length > 0)) {
+    errors.push({ line: 1, message: 'Diff contains no hunks' });
+  }
+
+  return { files, errors };
+}
+
+/**
+ * Whether the text is a well-formed unified diff
+ */
+export function isValidUnifiedDiff(text: string): boolean {
+  return parseUnifiedDiff(text).errors.length === 0;
+}
+
+/**
+ * Format a hunk header
+ */
+export function formatHunkHeader(hunk: Omit<DiffHunk, 'lines'>): string {
+  return `@@ -${hunk.oldStart},${hunk.oldLines} +${hunk.newStart},${hunk.newLines} @@` +
+    (hunk.section ? ` ${hunk.section}` : '');
+}
+
+/**
+ * Format files as a unified diff
+ */
+export function formatUnifiedDiff(files: FileDiff[]): string {
+  const output: string[] = [];
+
+  for (const file of files) {
+    if (file.oldPath !== undefined || file.newPath !== undefined) {
+      output.push(`--- ${file.oldPath !== undefined ? `a/${file.oldPath}` : '/dev/null'}`);
+      output.push(`+++ ${file.newPath !== undefined ? `b/${file.newPath}` : '/dev/null'}`);
+    }
+
+    for (const hunk of file.hunks) {
+      output.push(formatHunkHeader(hunk));
+      for (const line of hunk.lines) {
+        output.push((line.type === 'added' ? '+' : line.type === 'removed' ? '-' : ' ') + line.content);
+        if (line.noNewlineAtEnd) {
+          output.push(NO_NEWLINE_MARKER);
+        }
+      }
+    }
+  }
+
+  return output.join('\n');
+}
+
+/**
+ * Read a diff leniently, the way models tend to write them: code fences, hunks
+ * without @@ headers, header counts that do not match, and lines without a prefix
+ * (read as context). Hunks without changes are dropped
+ */
+export function readLooseDiff(text: string): LooseFileDiff[] {
+  const lines = text.replace(/\r\n/g, '\n').split('\n');
+  const files: LooseFileDiff[] = [];
+  let file: LooseFileDiff | null = null;
+  let hunk: LooseHunk | null = null;
+
+  // Code fences around the diff
+  if (lines[0]?.trim().startsWith('```')) {
+    lines.shift();
+    const fence = lines.map(line => line.trim()).lastIndexOf('```');
+    if (fence !== -1) {
+      lines.splice(fence);
+    }
+  }
+
+  // Trailing blank lines
+  while (lines.length > 0 && lines[lines.length - 1].trim() === '') {
+    lines.pop();
+  }
+
+  const startHunk = (current: LooseHunk) => {
+    if (!file) {
+      file = { hunks: [] };
+      files.push(file);
+    }
+    file.hunks.push(current);
+    hunk = current;
+  };
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i];
+    const header = line.match(HUNK_HEADER);
+
+    if (header) {
+      startHunk({ oldStart: parseInt(header[1], 10), ...(header[5].trim() && { section: header[5].trim() }), lines: [] });
+      continue;
+    }
+
+    if (!hunk && isFileHeader(lines, i)) {
+      file = { oldPath: parsePath(line.slice(4)), newPath: parsePath(lines[i + 1].slice(4)), hunks: [] };
+      files.push(file);
+      i++;
+      continue;
+    }
+
+    if (!hunk && EXTENDED_HEADER.test(line)) {
+      continue;
+    }
+
+    if (line.startsWith('\\')) {
+      const current = hunk as LooseHunk | null;
+      const last = current?.lines[current.lines.length - 1];
+      if (last) {
+        last.noNewlineAtEnd = true;
+      }
+      continue;
+    }
+
+    if (!hunk) {
+      startHunk({ lines: [] });
+    }
+
+    const current = hunk as unknown as LooseHunk;
+    if (line.startsWith('+')) {
+      current.lines.push({ type: 'added', content: line.slice(1) });
+    } else if (line.startsWith('-')) {
+      current.lines.push({ type: 'removed', content: line.slice(1) });
+    } else {
+      current.lines.push({ type: 'context', content: line.startsWith(' ') ? line.slice(1) : line });
+    }
+  }
+
+  return files
+    .map(f => ({ ...f, hunks: f.hunks.filter(h => h.lines.some(line => line.type !== 'context')) }))
+    .filter(f => f.hunks.length > 0);
+}
+
+/**
+ * Lines a hunk expects in the old file
+ */
+export function getHunkOldLines(hunk: Pick<LooseHunk, 'lines'>): string[] {
+  return hunk.lines.filter(line => line.type !== 'added').map(line => line.content);
+}
+
+/**
+ * Find where `expected` lines appear in `lines`, preferring the match nearest `target`
+ * (0-based). Exact matches (ignoring trailing whitespace) win over matches that only
+ * differ in indentation. Returns the 0-based index, or null if there is no match
+ */
+export function locateLines(lines: string[], expected: string[], target: number): number | null {
+  const matches = (index: number, ignoreIndent: boolean) =>
+    expected.every((line, i) =>
+      ignoreIndent ? line.trim() === lines[index + i].trim() : line.trimEnd() === lines[index + i].trimEnd()
+    );
+
+  for (const ignoreIndent of [false, true]) {
+    let best: number | null = null;
+    for (let index = 0; index + expected.length <= lines.length; index++) {
+      if (matches(index, ignoreIndent) && (best === null || Math.abs(index - target) < Math.abs(best - target))) {
+        best = index;
+      }
+    }
+    if (best !== null) {
+      return best;
+    }
+  }
+  return null;
+}
+
+/**
+ * Give a file's hunks their line counts, new-file positions and line numbers
+ * Hunks are sorted by position; a hunk overlapping the previous one is dropped
+ */
+function numberHunks(hunks: Array<LooseHunk & { oldStart: number }>, errors: string[]): DiffHunk[] {
+  const result: DiffHunk[] = [];
+  let delta = 0;
+  let previousEnd = 0;
+
+  for (const loose of [...hunks].sort((a, b) => a.oldStart - b.oldStart)) {
+    const oldLines = loose.lines.filter(line => line.type !== 'added').length;
+    const newLines = loose.lines.filter(line => line.type !== 'removed').length;
+
+    // An empty side of a hunk is positioned at the line before it
+    const firstOld = oldLines === 0 ? loose.oldStart + 1 : loose.oldStart;
+    if (firstOld <= previousEnd) {
+      errors.push(`A hunk at line ${loose.oldStart} overlaps the previous hunk and was dropped`);
+      continue;
+    }
+
+    const firstNew = firstOld + delta;
+    let oldLine = firstOld;
+    let newLine = firstNew;
+
+    result.push({
+      oldStart: loose.oldStart,
+      oldLines,
+      newStart: newLines === 0 ? firstNew - 1 : firstNew,
+      newLines,
+      ...(loose.section && { section: loose.section }),
+      lines: loose.lines.map((line): DiffLine => ({
+        type: line.type,
+        content: line.content,
+        ...(line.type !== 'added' && { oldLine: oldLine++ }),
+        ...(line.type !== 'removed' && { newLine: newLine++ }),
+        ...(line.noNewlineAtEnd && { noNewlineAtEnd: true }),
+      })),
+    });
+
+    delta += newLines - oldLines;
+    previousEnd = firstOld + oldLines - 1;
+  }
+
+  return result;
+}
+
+/**
+ * Whether every hunk's old lines are in `originalLines` at the line its header states
+ */
+function hunksMatchAtHeaders(hunks: DiffHunk[], originalLines: string[], firstLine: number): boolean {
+  return hunks.every(hunk => {
+    const expected = getHunkOldLines(hunk);
+    const index = (expected.length === 0 ? hunk.oldStart + 1 : hunk.oldStart) - firstLine;
+    return index >= 0 &&
+      index + expected.length <= originalLines.length &&
+      expected.every((line, i) => line.trimEnd() === originalLines[index + i].trimEnd());
+  });
+}
+
+/**
+ * Turn a diff as written by a model into a well-formed unified diff
+ * Well-formed diffs whose hunks match `original` at their headers are returned in
+ * canonical form. Otherwise the diff is read leniently, hunks are placed where
+ * their old lines appear in `original` (or at their header or `nearLine`), and
+ * headers are rebuilt from the lines. Text without any changes gives no diff
+ */
+export function normalizeDiff(text: string, options: NormalizeDiffOptions = {}): NormalizedDiff {
+  const originalLines = options.original?.replace(/\r\n/g, '\n').split('\n');
+  const firstLine = options.firstLine ?? 1;
+  const nearLine = options.nearLine ?? firstLine;
+
+  const parsed = parseUnifiedDiff(text);
+  // A well-formed diff may still be numbered from the excerpt the model saw rather than the file
+  if (
+    parsed.errors.length === 0 &&
+    (!originalLines || parsed.files.length !== 1 || hunksMatchAtHeaders(parsed.files[0].hunks, originalLines, firstLine))
+  ) {
+    return { diff: formatUnifiedDiff(parsed.files), files: parsed.files, errors: [] };
+  }
+
+  const errors = parsed.errors.map(error => `line ${error.line}: ${error.message}`);
+  const looseFiles = readLooseDiff(text);
+  if (looseFiles.length === 0) {
+    return { files: [], errors: [...errors, 'Diff contains no changes'] };
+  }
+
+  const files = looseFiles.map((file): FileDiff => {
+    const positioned = file.hunks.map((hunk, index) => {
+      const expected = getHunkOldLines(hunk);
+      const target = hunk.oldStart ?? nearLine;
+
+      // The original is one file, so it can only place the hunks of a single-file diff
+      if (originalLines && looseFiles.length === 1 && expected.length > 0) {
+        const found = locateLines(originalLines, expected, target - firstLine);
+        if (found !== null) {
+          if (hunk.oldStart !== undefined && hunk.oldStart !== found + firstLine) {
+            errors.push(`Hunk ${index + 1} is numbered from line ${hunk.oldStart} but its lines are at line ${found + firstLine}`);
+          }
+          return { ...hunk, oldStart: found + firstLine };
+        }
+        errors.push(`Hunk ${index + 1} does not match the code`);
+      }
+
+      return { ...hunk, oldStart: expected.length === 0 && hunk.oldStart === undefined ? target - 1 : target };
+    });
+
+    return {
+      ...(file.oldPath !== undefined && { oldPath: file.oldPath }),
+      ...(file.newPath !== undefined && { newPath: file.newPath }),
+      hunks: numberHunks(positioned, errors),
+    };
+  });
+
+  return { diff: formatUnifiedDiff(files), files, errors };
+}